@@ -227,6 +227,7 @@ function getRequiredAction(ask: ClineAsk): RequiredAction {
 		case "command_output":
 			return "continue_or_abort"
 		case "api_req_failed":
+		case "budget_exceeded":
 			return "retry_or_new_task"
 		case "mistake_limit_reached":
 			return "proceed_or_new_task"
@@ -282,6 +283,8 @@ function getStateDescription(state: AgentLoopState, ask?: ClineAsk): string {
 					return "Too many errors encountered. You can proceed anyway or start a new task."
 				case "auto_approval_max_req_reached":
 					return "Auto-approval limit reached. Manual approval required."
+				case "budget_exceeded":
+					return "Spending budget exceeded. Raise the budget and check again, or start a new task."
 				case "resume_completed_task":
 					return "Previously completed task. Start a new task to continue."
 				default:
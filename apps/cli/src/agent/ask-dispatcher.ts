@@ -27,6 +27,7 @@ import {
 import { debugLog } from "@roo-code/core/cli"
 
 import { FOLLOWUP_TIMEOUT_SECONDS } from "@/types/index.js"
+import { formatBudgetMessage } from "@/lib/utils/spend.js"
 
 import type { OutputManager } from "./output-manager.js"
 import type { PromptManager } from "./prompt-manager.js"
@@ -224,6 +225,9 @@ export class AskDispatcher {
 			case "auto_approval_max_req_reached":
 				return await this.handleAutoApprovalMaxReached(ts, text)
 
+			case "budget_exceeded":
+				return await this.handleBudgetExceeded(ts, text)
+
 			default:
 				return { handled: false }
 		}
@@ -589,6 +593,31 @@ export class AskDispatcher {
 		}
 	}
 
+	/**
+	 * Handle an exceeded spending budget.
+	 */
+	private async handleBudgetExceeded(ts: number, text: string): Promise<AskHandleResult> {
+		this.outputManager.output("\n[spending budget exceeded]")
+		this.outputManager.output(`  ${formatBudgetMessage(text)?.replaceAll("\n", "\n  ") ?? text}`)
+		this.outputManager.markDisplayed(ts, text || "", false)
+
+		if (this.nonInteractive) {
+			// Budgets are hard limits, so they stop the task rather than auto-proceeding.
+			this.sendApprovalResponse(false)
+			return { handled: true, response: "noButtonClicked" }
+		}
+
+		try {
+			const checkAgain = await this.promptManager.promptForYesNo("Check the budgets again? (y/n): ")
+			this.sendApprovalResponse(checkAgain)
+			return { handled: true, response: checkAgain ? "yesButtonClicked" : "noButtonClicked" }
+		} catch {
+			this.outputManager.output("[Defaulting to: no]")
+			this.sendApprovalResponse(false)
+			return { handled: true, response: "noButtonClicked" }
+		}
+	}
+
 	/**
 	 * Handle task resume prompt.
 	 */
@@ -64,6 +64,14 @@ export interface ExtensionHostOptions {
 	ephemeral: boolean
 	debug: boolean
 	exitOnComplete: boolean
+	/**
+	 * Directory to record a cassette of API requests and responses per task in.
+	 */
+	cassetteRecordingDirectory?: string
+	/**
+	 * Cassette file or directory to serve API responses from instead of the provider.
+	 */
+	replayCassettePath?: string
 	/**
 	 * When true, completely disables all direct stdout/stderr output.
 	 * Use this when running in TUI mode where Ink controls the terminal.
@@ -192,6 +200,11 @@ export class ExtensionHost extends EventEmitter implements ExtensionHostInterfac
 			browserToolEnabled: false,
 			enableCheckpoints: false,
 			...getProviderSettings(this.options.provider, this.options.apiKey, this.options.model),
+			...(this.options.replayCassettePath && {
+				apiProvider: "replay",
+				replayCassettePath: this.options.replayCassettePath,
+			}),
+			cassetteRecordingDirectory: this.options.cassetteRecordingDirectory,
 		}
 
 		this.initialSettings = this.options.nonInteractive
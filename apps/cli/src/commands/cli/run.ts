@@ -56,7 +56,8 @@ export async function run(promptArg: string | undefined, flagOptions: FlagOption
 
 	const isTuiSupported = process.stdin.isTTY && process.stdout.isTTY
 	const isTuiEnabled = !flagOptions.print && isTuiSupported
-	const isOnboardingEnabled = isTuiEnabled && !rooToken && !flagOptions.provider && !settings.provider
+	const isOnboardingEnabled =
+		isTuiEnabled && !rooToken && !flagOptions.provider && !settings.provider && !flagOptions.replayCassette
 
 	// Determine effective values: CLI flags > settings file > DEFAULT_FLAGS.
 	const effectiveMode = flagOptions.mode || settings.mode || DEFAULT_FLAGS.mode
@@ -81,6 +82,8 @@ export async function run(promptArg: string | undefined, flagOptions: FlagOption
 		ephemeral: flagOptions.ephemeral,
 		debug: flagOptions.debug,
 		exitOnComplete: effectiveExitOnComplete,
+		cassetteRecordingDirectory: flagOptions.recordCassettes ? path.resolve(flagOptions.recordCassettes) : undefined,
+		replayCassettePath: flagOptions.replayCassette ? path.resolve(flagOptions.replayCassette) : undefined,
 	}
 
 	// Roo Code Cloud Authentication
@@ -99,7 +102,8 @@ export async function run(promptArg: string | undefined, flagOptions: FlagOption
 		}
 	}
 
-	if (extensionHostOptions.provider === "roo") {
+	// Replayed cassettes don't reach the provider, so it needs no credentials.
+	if (extensionHostOptions.provider === "roo" && !extensionHostOptions.replayCassettePath) {
 		if (rooToken) {
 			try {
 				const client = createClient({ url: SDK_BASE_URL, authToken: rooToken })
@@ -137,7 +141,7 @@ export async function run(promptArg: string | undefined, flagOptions: FlagOption
 	extensionHostOptions.apiKey =
 		extensionHostOptions.apiKey || flagOptions.apiKey || getApiKeyFromEnv(extensionHostOptions.provider)
 
-	if (!extensionHostOptions.apiKey) {
+	if (!extensionHostOptions.apiKey && !extensionHostOptions.replayCassettePath) {
 		if (extensionHostOptions.provider === "roo") {
 			console.error("[CLI] Error: Authentication with Roo Code Cloud failed or was cancelled.")
 			console.error("[CLI] Please run: roo auth login")
@@ -30,6 +30,8 @@ program
 	)
 	.option("--ephemeral", "Run without persisting state (uses temporary storage)", false)
 	.option("--oneshot", "Exit upon task completion", false)
+	.option("--record-cassettes <dir>", "Record each task's API requests and responses into a cassette in <dir>")
+	.option("--replay-cassette <path>", "Serve API responses from a recorded cassette file or directory")
 	.option(
 		"--output-format <format>",
 		'Output format (only works with --print): "text" (default), "json" (single result), or "stream-json" (realtime streaming)',
@@ -15,6 +15,10 @@ describe("globalCommands", () => {
 			expect(newCommand?.description).toBe("Start a new task")
 		})
 
+		it("should contain the /spend command", () => {
+			expect(getGlobalCommand("spend")?.action).toBe("requestSpendSummary")
+		})
+
 		it("should have valid structure for all commands", () => {
 			for (const cmd of GLOBAL_COMMANDS) {
 				expect(cmd.name).toBeTruthy()
@@ -80,7 +84,7 @@ describe("globalCommands", () => {
 	describe("type safety", () => {
 		it("should have valid GlobalCommandAction types", () => {
 			// This test ensures the type is properly constrained
-			const validActions: GlobalCommandAction[] = ["clearTask"]
+			const validActions: GlobalCommandAction[] = ["clearTask", "requestSpendSummary"]
 
 			for (const cmd of GLOBAL_COMMANDS) {
 				expect(validActions).toContain(cmd.action)
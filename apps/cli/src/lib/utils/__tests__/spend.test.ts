@@ -0,0 +1,51 @@
+import type { SpendSummary } from "@roo-code/types"
+
+import { formatBudgetMessage, formatBudgetStatus, formatSpendSummary } from "../spend.js"
+
+describe("spend formatting", () => {
+	it("formats budget statuses", () => {
+		expect(formatBudgetStatus({ scope: "task", subject: "task-1", limit: 2, spent: 1.5 })).toBe(
+			"Task budget: $1.50 of $2.00 spent",
+		)
+		expect(formatBudgetStatus({ scope: "profileMonth", subject: "Default", limit: 50, spent: 51.234 })).toBe(
+			'Monthly budget of profile "Default": $51.23 of $50.00 spent',
+		)
+	})
+
+	it("formats the statuses of budget messages", () => {
+		const exceeded = [
+			{ scope: "task", subject: "task-1", limit: 2, spent: 2 },
+			{ scope: "workspaceDay", subject: "/repo", limit: 10, spent: 12 },
+		]
+
+		expect(formatBudgetMessage(JSON.stringify(exceeded))).toBe(
+			"Task budget: $2.00 of $2.00 spent\nDaily budget of /repo: $12.00 of $10.00 spent",
+		)
+		expect(formatBudgetMessage(JSON.stringify(exceeded[0]))).toBe("Task budget: $2.00 of $2.00 spent")
+		expect(formatBudgetMessage("not json")).toBeUndefined()
+	})
+
+	it("formats the spend breakdown", () => {
+		const summary: SpendSummary = {
+			today: { "/repo": 1.5, "/other": 3 },
+			thisMonth: {},
+			tasks: [{ id: "task-1", task: "Fix the bug\nin the parser", workspace: "/repo", cost: 1.5 }],
+			budgets: [{ scope: "task", subject: "task-1", limit: 2, spent: 1.5 }],
+		}
+
+		expect(formatSpendSummary(summary).split("\n")).toEqual([
+			"Spend today by workspace:",
+			"       $3.00  /other",
+			"       $1.50  /repo",
+			"",
+			"Spend this month by provider profile:",
+			"  none",
+			"",
+			"Costliest tasks this month:",
+			"       $1.50  Fix the bug",
+			"",
+			"Budgets of the current task:",
+			"  Task budget: $1.50 of $2.00 spent",
+		])
+	})
+})
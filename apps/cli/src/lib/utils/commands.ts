@@ -10,7 +10,7 @@
  * Action types that can be triggered by global commands.
  * Each action corresponds to a message type sent to the extension host.
  */
-export type GlobalCommandAction = "clearTask"
+export type GlobalCommandAction = "clearTask" | "requestSpendSummary"
 
 /**
  * Definition of a CLI global command
@@ -34,6 +34,11 @@ export const GLOBAL_COMMANDS: GlobalCommand[] = [
 		description: "Start a new task",
 		action: "clearTask",
 	},
+	{
+		name: "spend",
+		description: "Show spend and spending budgets",
+		action: "requestSpendSummary",
+	},
 ]
 
 /**
@@ -0,0 +1,59 @@
+import type { BudgetStatus, SpendSummary } from "@roo-code/types"
+
+const BUDGET_LABELS: Record<BudgetStatus["scope"], (subject: string) => string> = {
+	task: () => "Task budget",
+	workspaceDay: (workspace) => `Daily budget of ${workspace}`,
+	profileMonth: (profile) => `Monthly budget of profile "${profile}"`,
+}
+
+export function formatCost(cost: number): string {
+	return `$${cost.toFixed(2)}`
+}
+
+export function formatBudgetStatus({ scope, subject, spent, limit }: BudgetStatus): string {
+	return `${BUDGET_LABELS[scope](subject)}: ${formatCost(spent)} of ${formatCost(limit)} spent`
+}
+
+/**
+ * Formats the budget statuses that `budget_warning` and `budget_exceeded`
+ * messages carry, one per line.
+ *
+ * @returns The formatted statuses, or undefined if the text doesn't hold any
+ */
+export function formatBudgetMessage(text: string): string | undefined {
+	try {
+		const parsed = JSON.parse(text) as BudgetStatus | BudgetStatus[]
+		const statuses = Array.isArray(parsed) ? parsed : [parsed]
+		return statuses.map(formatBudgetStatus).join("\n")
+	} catch {
+		return undefined
+	}
+}
+
+const formatCostLine = (cost: number, name: string) => `  ${formatCost(cost).padStart(10)}  ${name}`
+
+const formatCosts = (costs: Record<string, number>) => {
+	const entries = Object.entries(costs).sort(([, a], [, b]) => b - a)
+	return entries.length ? entries.map(([name, cost]) => formatCostLine(cost, name)) : ["  none"]
+}
+
+/**
+ * Formats the spend breakdown for the `/spend` command.
+ */
+export function formatSpendSummary(summary: SpendSummary): string {
+	const lines = ["Spend today by workspace:", ...formatCosts(summary.today)]
+
+	lines.push("", "Spend this month by provider profile:", ...formatCosts(summary.thisMonth))
+
+	if (summary.tasks.length) {
+		lines.push("", "Costliest tasks this month:")
+		lines.push(...summary.tasks.map(({ task, cost }) => formatCostLine(cost, task.split("\n")[0])))
+	}
+
+	if (summary.budgets.length) {
+		lines.push("", "Budgets of the current task:")
+		lines.push(...summary.budgets.map((status) => `  ${formatBudgetStatus(status)}`))
+	}
+
+	return lines.join("\n")
+}
@@ -33,6 +33,8 @@ export type FlagOptions = {
 	reasoningEffort?: ReasoningEffortFlagOptions
 	ephemeral: boolean
 	oneshot: boolean
+	recordCassettes?: string
+	replayCassette?: string
 	outputFormat?: OutputFormat
 }
 
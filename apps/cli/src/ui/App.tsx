@@ -83,6 +83,8 @@ function AppInner({ createExtensionHost, ...extensionHostOptions }: TUIAppProps)
 		exitOnComplete,
 		reasoningEffort,
 		ephemeral,
+		cassetteRecordingDirectory,
+		replayCassettePath,
 		version,
 	} = extensionHostOptions
 
@@ -182,6 +184,8 @@ function AppInner({ createExtensionHost, ...extensionHostOptions }: TUIAppProps)
 		nonInteractive,
 		ephemeral,
 		exitOnComplete,
+		cassetteRecordingDirectory,
+		replayCassettePath,
 		onExtensionMessage: handleExtensionMessage,
 		createExtensionHost,
 	})
@@ -44,6 +44,8 @@ export function useExtensionHost({
 	ephemeral,
 	debug,
 	exitOnComplete,
+	cassetteRecordingDirectory,
+	replayCassettePath,
 	onExtensionMessage,
 	createExtensionHost,
 }: UseExtensionHostOptions): UseExtensionHostReturn {
@@ -77,6 +79,8 @@ export function useExtensionHost({
 					ephemeral,
 					debug,
 					exitOnComplete,
+					cassetteRecordingDirectory,
+					replayCassettePath,
 					disableOutput: true,
 				})
 
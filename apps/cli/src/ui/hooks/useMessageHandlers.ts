@@ -6,6 +6,7 @@ import type { TUIMessage, ToolData } from "../types.js"
 import type { FileResult, SlashCommandResult, ModeResult } from "../components/autocomplete/index.js"
 import { useCLIStore } from "../store.js"
 import { extractToolData, formatToolOutput, formatToolAskMessage, parseTodosFromToolInfo } from "../utils/tools.js"
+import { formatBudgetMessage, formatSpendSummary } from "../../lib/utils/spend.js"
 
 export interface UseMessageHandlersOptions {
 	nonInteractive: boolean
@@ -91,6 +92,7 @@ export function useMessageHandlers({ nonInteractive }: UseMessageHandlersOptions
 			let toolDisplayName: string | undefined
 			let toolDisplayOutput: string | undefined
 			let toolData: ToolData | undefined
+			let content = text || ""
 
 			if (say === "command_output") {
 				role = "tool"
@@ -102,6 +104,9 @@ export function useMessageHandlers({ nonInteractive }: UseMessageHandlersOptions
 				pendingCommandRef.current = null
 			} else if (say === "reasoning") {
 				role = "thinking"
+			} else if (say === "budget_warning") {
+				role = "system"
+				content = `Spending budget nearly used up: ${formatBudgetMessage(text) ?? text}`
 			}
 
 			seenMessageIds.current.add(messageId)
@@ -109,7 +114,7 @@ export function useMessageHandlers({ nonInteractive }: UseMessageHandlersOptions
 			addMessage({
 				id: messageId,
 				role,
-				content: text || "",
+				content,
 				toolName,
 				toolDisplayName,
 				toolDisplayOutput,
@@ -281,6 +286,9 @@ export function useMessageHandlers({ nonInteractive }: UseMessageHandlersOptions
 				} catch {
 					// Use raw text if not valid JSON
 				}
+			} else if (ask === "budget_exceeded") {
+				const budgets = formatBudgetMessage(text)
+				questionText = budgets ? `Spending budget exceeded:\n${budgets}\nCheck the budgets again?` : text
 			}
 			// Note: ask === "command" is handled above before the nonInteractive block
 
@@ -380,6 +388,14 @@ export function useMessageHandlers({ nonInteractive }: UseMessageHandlersOptions
 				setFileSearchResults((msg.results as FileResult[]) || [])
 			} else if (msg.type === "commands") {
 				setAllSlashCommands((msg.commands as SlashCommandResult[]) || [])
+			} else if (msg.type === "spendSummary") {
+				if (msg.spendSummary) {
+					addMessage({
+						id: `spend-${Date.now()}`,
+						role: "system",
+						content: formatSpendSummary(msg.spendSummary),
+					})
+				}
 			} else if (msg.type === "modes") {
 				setAvailableModes((msg.modes as ModeResult[]) || [])
 			} else if (msg.type === "routerModels") {
@@ -391,6 +407,7 @@ export function useMessageHandlers({ nonInteractive }: UseMessageHandlersOptions
 		[
 			handleSayMessage,
 			handleAskMessage,
+			addMessage,
 			setFileSearchResults,
 			setAllSlashCommands,
 			setAvailableModes,
@@ -86,6 +86,12 @@ export function useTaskSubmit({
 						sendToExtension({ type: "requestModes" })
 						return
 					}
+
+					if (globalCommand?.action === "requestSpendSummary") {
+						// The breakdown is shown when the extension answers with `spendSummary`.
+						sendToExtension({ type: "requestSpendSummary" })
+						return
+					}
 				}
 			}
 
@@ -16,11 +16,17 @@ export async function run() {
 
 	const api = extension.isActive ? extension.exports : await extension.activate()
 
-	await api.setConfiguration({
-		apiProvider: "openrouter" as const,
-		openRouterApiKey: process.env.OPENROUTER_API_KEY!,
-		openRouterModelId: "openai/gpt-4.1",
-	})
+	// REPLAY_CASSETTES runs the suite against recorded responses; RECORD_CASSETTES records them.
+	await api.setConfiguration(
+		process.env.REPLAY_CASSETTES
+			? { apiProvider: "replay" as const, replayCassettePath: process.env.REPLAY_CASSETTES }
+			: {
+					apiProvider: "openrouter" as const,
+					openRouterApiKey: process.env.OPENROUTER_API_KEY!,
+					openRouterModelId: "openai/gpt-4.1",
+					cassetteRecordingDirectory: process.env.RECORD_CASSETTES,
+				},
+	)
 
 	await vscode.commands.executeCommand("roo-cline.SidebarProvider.focus")
 	await waitFor(() => api.isReady())
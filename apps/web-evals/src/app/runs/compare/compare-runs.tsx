@@ -0,0 +1,323 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import Link from "next/link"
+
+import {
+	type ComparedRun,
+	type ExerciseResult,
+	compareRuns,
+	formatDelta,
+	formatPercent,
+	formatPercentagePoints,
+} from "@/lib/compare-runs"
+import { formatCurrency, formatDuration, formatTokens } from "@/lib/formatters"
+import {
+	Badge,
+	Checkbox,
+	Label,
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+	Tooltip,
+	TooltipContent,
+	TooltipTrigger,
+} from "@/components/ui"
+
+import { SettingsDiff } from "../new/settings-diff"
+
+// Differences with a p-value below this are unlikely to be noise.
+const SIGNIFICANCE_LEVEL = 0.05
+
+// Colors a delta by whether the change is an improvement.
+const deltaClassName = (delta: number, higherIsBetter: boolean) =>
+	delta === 0 ? "text-muted-foreground" : delta > 0 === higherIsBetter ? "text-green-500" : "text-red-500"
+
+function Delta({
+	delta,
+	format,
+	higherIsBetter = false,
+}: {
+	delta: number
+	format: (value: number) => string
+	higherIsBetter?: boolean
+}) {
+	return <div className={`text-xs ${deltaClassName(delta, higherIsBetter)}`}>{format(delta)}</div>
+}
+
+function ExerciseResultCell({ result, baseline }: { result: ExerciseResult | null; baseline: ExerciseResult | null }) {
+	if (!result) {
+		return <TableCell className="text-muted-foreground">-</TableCell>
+	}
+
+	const label = result.attempts === 1 ? (result.passed ? "Pass" : "Fail") : `${result.passed}/${result.attempts}`
+	const className =
+		result.passRate === 1 ? "text-green-500" : result.passRate === 0 ? "text-red-500" : "text-yellow-500"
+
+	return (
+		<TableCell className="font-mono text-xs">
+			<div className={`font-medium ${className}`}>{label}</div>
+			<div className="text-muted-foreground">
+				{formatCurrency(result.cost)} · {formatDuration(result.duration)}
+			</div>
+			{baseline && baseline !== result && (
+				<div className="flex gap-1">
+					<Delta delta={result.cost - baseline.cost} format={(delta) => formatDelta(delta, formatCurrency)} />
+					·
+					<Delta
+						delta={result.duration - baseline.duration}
+						format={(delta) => formatDelta(delta, formatDuration)}
+					/>
+				</div>
+			)}
+		</TableCell>
+	)
+}
+
+export function CompareRuns({ runs }: { runs: ComparedRun[] }) {
+	const [onlyChanged, setOnlyChanged] = useState(true)
+	const comparison = useMemo(() => compareRuns(runs), [runs])
+	const [baselineTotals] = comparison.totals
+	const [baseline] = runs
+
+	const exercises = onlyChanged ? comparison.exercises.filter(({ changed }) => changed) : comparison.exercises
+
+	if (!baseline || !baselineTotals) {
+		return null
+	}
+
+	return (
+		<div className="flex flex-col gap-8">
+			<div>
+				<div className="mb-2">
+					Comparing {runs.length} runs against{" "}
+					<Link href={`/runs/${baseline.run.id}`} className="underline">
+						run #{baseline.run.id}
+					</Link>
+				</div>
+				<Table className="border">
+					<TableHeader>
+						<TableRow>
+							<TableHead>Run</TableHead>
+							<TableHead>Passed</TableHead>
+							<TableHead>Significance</TableHead>
+							<TableHead>Tokens</TableHead>
+							<TableHead>Cost</TableHead>
+							<TableHead>Duration</TableHead>
+							<TableHead>Tool Errors</TableHead>
+						</TableRow>
+					</TableHeader>
+					<TableBody>
+						{runs.map(({ run }, index) => {
+							const totals = comparison.totals[index]!
+							const significance = comparison.significance[index]
+							const isBaseline = index === 0
+
+							return (
+								<TableRow key={run.id}>
+									<TableCell>
+										<div className="flex items-center gap-2">
+											<Link href={`/runs/${run.id}`} className="underline">
+												#{run.id}
+											</Link>
+											<span>{run.model}</span>
+											{isBaseline && <Badge variant="outline">Baseline</Badge>}
+										</div>
+										{run.description && (
+											<div className="text-xs text-muted-foreground">{run.description}</div>
+										)}
+									</TableCell>
+									<TableCell className="font-mono">
+										<div>
+											{totals.passed}/{totals.attempts} ({formatPercent(totals.passRate)})
+										</div>
+										{!isBaseline && (
+											<Delta
+												delta={totals.passRate - baselineTotals.passRate}
+												format={formatPercentagePoints}
+												higherIsBetter
+											/>
+										)}
+									</TableCell>
+									<TableCell className="font-mono text-xs">
+										{significance ? (
+											<Tooltip>
+												<TooltipTrigger asChild>
+													<div>
+														<span className="text-green-500">+{significance.improved}</span>
+														{" / "}
+														<span className="text-red-500">-{significance.regressed}</span>
+														<span
+															className={
+																significance.pValue < SIGNIFICANCE_LEVEL
+																	? "ml-2 font-semibold"
+																	: "ml-2 text-muted-foreground"
+															}>
+															p = {significance.pValue.toFixed(3)}
+														</span>
+													</div>
+												</TooltipTrigger>
+												<TooltipContent className="max-w-[300px]">
+													{significance.improved} task(s) passed only in this run and{" "}
+													{significance.regressed} only in the baseline. Exact McNemar
+													test;{" "}
+													{significance.pValue < SIGNIFICANCE_LEVEL
+														? "the difference is unlikely to be noise."
+														: "the difference may be noise."}
+												</TooltipContent>
+											</Tooltip>
+										) : (
+											<span className="text-muted-foreground">-</span>
+										)}
+									</TableCell>
+									<TableCell className="font-mono">
+										<div>
+											{formatTokens(totals.tokensIn)} / {formatTokens(totals.tokensOut)}
+										</div>
+										{!isBaseline && (
+											<Delta
+												delta={
+													totals.tokensIn +
+													totals.tokensOut -
+													baselineTotals.tokensIn -
+													baselineTotals.tokensOut
+												}
+												format={(delta) => formatDelta(delta, formatTokens)}
+											/>
+										)}
+									</TableCell>
+									<TableCell className="font-mono">
+										<div>{formatCurrency(totals.cost)}</div>
+										{!isBaseline && (
+											<Delta
+												delta={totals.cost - baselineTotals.cost}
+												format={(delta) => formatDelta(delta, formatCurrency)}
+											/>
+										)}
+									</TableCell>
+									<TableCell className="font-mono">
+										<div>{formatDuration(totals.duration)}</div>
+										{!isBaseline && (
+											<Delta
+												delta={totals.duration - baselineTotals.duration}
+												format={(delta) => formatDelta(delta, formatDuration)}
+											/>
+										)}
+									</TableCell>
+									<TableCell className="font-mono">
+										<div>{totals.toolErrors}</div>
+										{!isBaseline && (
+											<Delta
+												delta={totals.toolErrors - baselineTotals.toolErrors}
+												format={(delta) => formatDelta(delta, String)}
+											/>
+										)}
+									</TableCell>
+								</TableRow>
+							)
+						})}
+					</TableBody>
+				</Table>
+			</div>
+
+			{runs.slice(1).map(({ run }) => (
+				<div key={run.id}>
+					<div className="mb-2">
+						Settings: run #{baseline.run.id} → run #{run.id}
+					</div>
+					<SettingsDiff
+						defaultSettings={baseline.run.settings ?? {}}
+						customSettings={run.settings ?? {}}
+						defaultLabel={`#${baseline.run.id}`}
+						customLabel={`#${run.id}`}
+					/>
+				</div>
+			))}
+
+			{comparison.toolErrors.length > 0 && (
+				<div>
+					<div className="mb-2">Tool Errors</div>
+					<Table className="border">
+						<TableHeader>
+							<TableRow>
+								<TableHead>Tool</TableHead>
+								{runs.map(({ run }) => (
+									<TableHead key={run.id}>#{run.id}</TableHead>
+								))}
+							</TableRow>
+						</TableHeader>
+						<TableBody>
+							{comparison.toolErrors.map(({ toolName, counts }) => (
+								<TableRow key={toolName}>
+									<TableCell className="font-mono">{toolName}</TableCell>
+									{counts.map((count, index) => (
+										<TableCell key={runs[index]!.run.id} className="font-mono">
+											<div>{count}</div>
+											{index > 0 && (
+												<Delta
+													delta={count - counts[0]!}
+													format={(delta) => formatDelta(delta, String)}
+												/>
+											)}
+										</TableCell>
+									))}
+								</TableRow>
+							))}
+						</TableBody>
+					</Table>
+				</div>
+			)}
+
+			<div>
+				<div className="flex items-center justify-between mb-2">
+					<div>Exercises</div>
+					<div className="flex items-center gap-2">
+						<Checkbox
+							id="only-changed"
+							checked={onlyChanged}
+							onCheckedChange={(checked) => setOnlyChanged(checked === true)}
+						/>
+						<Label htmlFor="only-changed">Only show exercises with different results</Label>
+					</div>
+				</div>
+				<Table className="border">
+					<TableHeader>
+						<TableRow>
+							<TableHead>Exercise</TableHead>
+							{runs.map(({ run }) => (
+								<TableHead key={run.id}>#{run.id}</TableHead>
+							))}
+						</TableRow>
+					</TableHeader>
+					<TableBody>
+						{exercises.length ? (
+							exercises.map(({ language, exercise, results }) => (
+								<TableRow key={`${language}/${exercise}`}>
+									<TableCell>
+										{language}/{exercise}
+									</TableCell>
+									{results.map((result, index) => (
+										<ExerciseResultCell
+											key={runs[index]!.run.id}
+											result={result}
+											baseline={results[0] ?? null}
+										/>
+									))}
+								</TableRow>
+							))
+						) : (
+							<TableRow>
+								<TableCell colSpan={runs.length + 1} className="text-center py-8">
+									{onlyChanged ? "All exercises have the same results." : "No finished tasks."}
+								</TableCell>
+							</TableRow>
+						)}
+					</TableBody>
+				</Table>
+			</div>
+		</div>
+	)
+}
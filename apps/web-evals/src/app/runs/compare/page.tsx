@@ -0,0 +1,32 @@
+import { findRun, getTasks, getToolErrors } from "@roo-code/evals"
+
+import { CompareRuns } from "./compare-runs"
+import { RunPicker } from "./run-picker"
+
+export const dynamic = "force-dynamic"
+
+export default async function Page({ searchParams }: { searchParams: Promise<{ ids?: string }> }) {
+	const { ids = "" } = await searchParams
+	const runIds = [...new Set(ids.split(",").map(Number))].filter((id) => Number.isInteger(id) && id > 0)
+
+	if (runIds.length < 2) {
+		return (
+			<div className="max-w-3xl mx-auto px-12 p-12">
+				<RunPicker runIds={runIds} />
+			</div>
+		)
+	}
+
+	const runs = await Promise.all(
+		runIds.map(async (id) => {
+			const [run, tasks, toolErrors] = await Promise.all([findRun(id), getTasks(id), getToolErrors(id)])
+			return { run, tasks, toolErrors }
+		}),
+	)
+
+	return (
+		<div className="w-full px-6 py-12">
+			<CompareRuns runs={runs} />
+		</div>
+	)
+}
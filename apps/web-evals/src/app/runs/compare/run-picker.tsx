@@ -0,0 +1,42 @@
+"use client"
+
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+
+import { Button, Input, Label } from "@/components/ui"
+
+export function RunPicker({ runIds }: { runIds: number[] }) {
+	const router = useRouter()
+	const [value, setValue] = useState(runIds.join(", "))
+
+	const ids = value
+		.split(/[\s,]+/)
+		.map(Number)
+		.filter((id) => Number.isInteger(id) && id > 0)
+
+	return (
+		<form
+			className="flex flex-col gap-2"
+			onSubmit={(e) => {
+				e.preventDefault()
+				router.push(`/runs/compare?ids=${ids.join(",")}`)
+			}}>
+			<Label htmlFor="run-ids">Runs to compare</Label>
+			<div className="text-sm text-muted-foreground">
+				Enter two or more run IDs. The first run is the baseline the others are compared against.
+			</div>
+			<div className="flex items-center gap-2">
+				<Input
+					id="run-ids"
+					value={value}
+					onChange={(e) => setValue(e.target.value)}
+					placeholder="e.g. 12, 15"
+					autoFocus
+				/>
+				<Button type="submit" disabled={new Set(ids).size < 2}>
+					Compare
+				</Button>
+			</div>
+		</form>
+	)
+}
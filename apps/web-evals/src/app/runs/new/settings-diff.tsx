@@ -9,11 +9,15 @@ export const ROO_CODE_SETTINGS_KEYS = [
 type SettingsDiffProps = {
 	defaultSettings: RooCodeSettings
 	customSettings: RooCodeSettings
+	defaultLabel?: string
+	customLabel?: string
 }
 
 export function SettingsDiff({
 	customSettings: { experiments: customExperiments, ...customSettings },
 	defaultSettings: { experiments: defaultExperiments, ...defaultSettings },
+	defaultLabel = "Default",
+	customLabel = "Custom",
 }: SettingsDiffProps) {
 	const defaults = { ...defaultSettings, ...defaultExperiments }
 	const custom = { ...customSettings, ...customExperiments }
@@ -24,8 +28,8 @@ export function SettingsDiff({
 				<TableHeader>
 					<TableRow className="font-medium text-muted-foreground">
 						<TableHead>Setting</TableHead>
-						<TableHead>Default</TableHead>
-						<TableHead>Custom</TableHead>
+						<TableHead>{defaultLabel}</TableHead>
+						<TableHead>{customLabel}</TableHead>
 					</TableRow>
 				</TableHeader>
 				<TableBody>
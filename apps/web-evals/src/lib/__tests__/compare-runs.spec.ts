@@ -0,0 +1,111 @@
+import type { Run, Task, TaskMetrics, ToolError } from "@roo-code/evals"
+
+import { type ComparedRun, compareRuns, formatPercentagePoints, mcNemarPValue } from "../compare-runs"
+
+let nextId = 1
+
+const run = (id: number) => ({ id, model: "gpt-4.1-mini" }) as Run
+
+const task = (runId: number, exercise: string, passed: boolean | null, cost = 0.1, iteration = 1) =>
+	({
+		id: nextId++,
+		runId,
+		language: "go",
+		exercise,
+		iteration,
+		passed,
+		taskMetrics: { tokensIn: 1_000, tokensOut: 100, cost, duration: 10_000 } as TaskMetrics,
+	}) as Task & { taskMetrics: TaskMetrics }
+
+const toolError = (runId: number, toolName: string) => ({ id: nextId++, runId, toolName }) as ToolError
+
+describe("compareRuns()", () => {
+	const baseline: ComparedRun = {
+		run: run(1),
+		tasks: [task(1, "say", true), task(1, "bob", false), task(1, "leap", true), task(1, "grep", null)],
+		toolErrors: [toolError(1, "apply_diff"), toolError(1, "apply_diff")],
+	}
+
+	const candidate: ComparedRun = {
+		run: run(2),
+		tasks: [task(2, "say", true, 0.3), task(2, "bob", true), task(2, "leap", true), task(2, "grep", true)],
+		toolErrors: [toolError(2, "read_file")],
+	}
+
+	it("totals finished tasks per run", () => {
+		const { totals } = compareRuns([baseline, candidate])
+
+		expect(totals[0]).toMatchObject({ attempts: 3, passed: 2, tokensIn: 3_000, duration: 30_000, toolErrors: 2 })
+		expect(totals[0]!.cost).toBeCloseTo(0.3)
+		expect(totals[1]).toMatchObject({ attempts: 4, passed: 4, passRate: 1, toolErrors: 1 })
+		expect(totals[1]!.cost).toBeCloseTo(0.6)
+	})
+
+	it("lines up exercises across runs and flags those with different results", () => {
+		const { exercises } = compareRuns([baseline, candidate])
+
+		expect(exercises.map(({ exercise, changed }) => [exercise, changed])).toEqual([
+			["bob", true],
+			["grep", true],
+			["leap", false],
+			["say", false],
+		])
+		expect(exercises[1]!.results[0]).toBeNull()
+		expect(exercises[3]!.results[1]).toMatchObject({ attempts: 1, passed: 1, passRate: 1 })
+	})
+
+	it("aggregates pass rates over iterations", () => {
+		const iterations: ComparedRun = {
+			run: run(3),
+			tasks: [task(3, "say", true, 0.1, 1), task(3, "say", false, 0.1, 2)],
+			toolErrors: [],
+		}
+
+		const { exercises } = compareRuns([baseline, iterations])
+		const say = exercises.find(({ exercise }) => exercise === "say")
+
+		expect(say?.results[1]).toMatchObject({ attempts: 2, passed: 1, passRate: 0.5 })
+		expect(say?.changed).toBe(true)
+	})
+
+	it("counts tool errors by tool", () => {
+		const { toolErrors } = compareRuns([baseline, candidate])
+
+		expect(toolErrors).toEqual([
+			{ toolName: "apply_diff", counts: [2, 0] },
+			{ toolName: "read_file", counts: [0, 1] },
+		])
+	})
+
+	it("pairs tasks with the baseline to estimate significance", () => {
+		const { significance } = compareRuns([baseline, candidate])
+
+		expect(significance[0]).toBeNull()
+		expect(significance[1]).toEqual({ improved: 1, regressed: 0, pValue: 1 })
+	})
+})
+
+describe("mcNemarPValue()", () => {
+	it("returns 1 when there are no discordant pairs", () => {
+		expect(mcNemarPValue(0, 0)).toBe(1)
+	})
+
+	it("matches the exact two-sided binomial test", () => {
+		expect(mcNemarPValue(5, 5)).toBe(1)
+		expect(mcNemarPValue(8, 2)).toBeCloseTo(0.1094, 4)
+		expect(mcNemarPValue(2, 8)).toBeCloseTo(0.1094, 4)
+		expect(mcNemarPValue(15, 1)).toBeCloseTo(0.000519, 6)
+	})
+
+	it("handles large runs without underflowing", () => {
+		expect(mcNemarPValue(600, 500)).toBeCloseTo(0.00282, 4)
+	})
+})
+
+describe("formatPercentagePoints()", () => {
+	it("formats signed deltas", () => {
+		expect(formatPercentagePoints(0.125)).toBe("+12.5pp")
+		expect(formatPercentagePoints(-0.05)).toBe("-5.0pp")
+		expect(formatPercentagePoints(0)).toBe("±0")
+	})
+})
@@ -0,0 +1,204 @@
+import type { Run, Task, TaskMetrics, ToolError } from "@roo-code/evals"
+
+export type ComparedRun = {
+	run: Run
+	tasks: (Task & { taskMetrics: TaskMetrics | null })[]
+	toolErrors: ToolError[]
+}
+
+type Metrics = {
+	tokensIn: number
+	tokensOut: number
+	cost: number
+	duration: number
+}
+
+export type RunTotals = Metrics & {
+	attempts: number
+	passed: number
+	passRate: number
+	toolErrors: number
+}
+
+export type ExerciseResult = Metrics & {
+	attempts: number
+	passed: number
+	passRate: number
+}
+
+export type ExerciseComparison = {
+	language: string
+	exercise: string
+	// One entry per run, `null` if the run doesn't include the exercise.
+	results: (ExerciseResult | null)[]
+	changed: boolean
+}
+
+export type ToolErrorComparison = {
+	toolName: string
+	counts: number[]
+}
+
+/**
+ * Paired comparison of a run against the baseline: tasks with the same
+ * language, exercise and iteration that passed in one run but not the other.
+ */
+export type Significance = {
+	improved: number
+	regressed: number
+	pValue: number
+}
+
+export type RunComparison = {
+	totals: RunTotals[]
+	exercises: ExerciseComparison[]
+	toolErrors: ToolErrorComparison[]
+	// One entry per run; `null` for the baseline.
+	significance: (Significance | null)[]
+}
+
+const emptyMetrics = (): Metrics => ({ tokensIn: 0, tokensOut: 0, cost: 0, duration: 0 })
+
+const addMetrics = (metrics: Metrics, taskMetrics: TaskMetrics | null) => {
+	if (taskMetrics) {
+		metrics.tokensIn += taskMetrics.tokensIn
+		metrics.tokensOut += taskMetrics.tokensOut
+		metrics.cost += taskMetrics.cost
+		metrics.duration += taskMetrics.duration
+	}
+}
+
+const passRate = (passed: number, attempts: number) => (attempts > 0 ? passed / attempts : 0)
+
+/**
+ * Compares two or more runs against the first one (the baseline). Only
+ * finished tasks (those with a pass/fail result) are taken into account.
+ */
+export function compareRuns(runs: ComparedRun[]): RunComparison {
+	const totals = runs.map(({ tasks, toolErrors }) => {
+		const metrics = emptyMetrics()
+		let attempts = 0
+		let passed = 0
+
+		for (const task of tasks) {
+			if (task.passed === null) {
+				continue
+			}
+
+			attempts++
+			passed += task.passed ? 1 : 0
+			addMetrics(metrics, task.taskMetrics)
+		}
+
+		return { ...metrics, attempts, passed, passRate: passRate(passed, attempts), toolErrors: toolErrors.length }
+	})
+
+	const exerciseResults = new Map<string, (ExerciseResult | null)[]>()
+
+	runs.forEach(({ tasks }, index) => {
+		for (const task of tasks) {
+			if (task.passed === null) {
+				continue
+			}
+
+			const key = `${task.language}/${task.exercise}`
+			const results = exerciseResults.get(key) ?? runs.map(() => null)
+			const result = results[index] ?? { ...emptyMetrics(), attempts: 0, passed: 0, passRate: 0 }
+
+			result.attempts++
+			result.passed += task.passed ? 1 : 0
+			result.passRate = passRate(result.passed, result.attempts)
+			addMetrics(result, task.taskMetrics)
+
+			results[index] = result
+			exerciseResults.set(key, results)
+		}
+	})
+
+	const exercises = [...exerciseResults.entries()]
+		.map(([key, results]) => {
+			const [language = "", exercise = ""] = key.split("/")
+			const baseline = results[0]?.passRate
+			const changed = results.some((result) => result?.passRate !== baseline)
+			return { language, exercise, results, changed }
+		})
+		.sort((a, b) => a.language.localeCompare(b.language) || a.exercise.localeCompare(b.exercise))
+
+	const toolErrorCounts = new Map<string, number[]>()
+
+	runs.forEach(({ toolErrors }, index) => {
+		for (const { toolName } of toolErrors) {
+			const counts = toolErrorCounts.get(toolName) ?? runs.map(() => 0)
+			counts[index] = (counts[index] ?? 0) + 1
+			toolErrorCounts.set(toolName, counts)
+		}
+	})
+
+	const toolErrors = [...toolErrorCounts.entries()]
+		.map(([toolName, counts]) => ({ toolName, counts }))
+		.sort((a, b) => sum(b.counts) - sum(a.counts) || a.toolName.localeCompare(b.toolName))
+
+	const [baseline] = runs
+	const significance = runs.map((candidate, index) =>
+		index === 0 || !baseline ? null : pairedSignificance(baseline.tasks, candidate.tasks),
+	)
+
+	return { totals, exercises, toolErrors, significance }
+}
+
+const sum = (values: number[]) => values.reduce((total, value) => total + value, 0)
+
+const taskKey = (task: Task) => `${task.language}/${task.exercise}/${task.iteration}`
+
+function pairedSignificance(baselineTasks: Task[], candidateTasks: Task[]): Significance {
+	const baseline = new Map(baselineTasks.map((task) => [taskKey(task), task.passed]))
+	let improved = 0
+	let regressed = 0
+
+	for (const task of candidateTasks) {
+		const passed = baseline.get(taskKey(task))
+
+		if (passed === undefined || passed === null || task.passed === null || passed === task.passed) {
+			continue
+		}
+
+		if (task.passed) {
+			improved++
+		} else {
+			regressed++
+		}
+	}
+
+	return { improved, regressed, pValue: mcNemarPValue(improved, regressed) }
+}
+
+/**
+ * Two-sided exact McNemar test: the probability of a split of the discordant
+ * pairs at least this lopsided if neither run were better than the other.
+ */
+export function mcNemarPValue(improved: number, regressed: number): number {
+	const n = improved + regressed
+
+	if (n === 0) {
+		return 1
+	}
+
+	// Sum the binomial(n, 0.5) tail in log space so large runs don't underflow.
+	let logCoefficient = 0
+	let tail = 0
+
+	for (let i = 0; i <= Math.min(improved, regressed); i++) {
+		tail += Math.exp(logCoefficient - n * Math.LN2)
+		logCoefficient += Math.log(n - i) - Math.log(i + 1)
+	}
+
+	return Math.min(1, 2 * tail)
+}
+
+export const formatDelta = (delta: number, format: (value: number) => string) =>
+	delta === 0 ? "±0" : `${delta > 0 ? "+" : "-"}${format(Math.abs(delta))}`
+
+export const formatPercent = (rate: number) => `${(rate * 100).toFixed(1)}%`
+
+export const formatPercentagePoints = (delta: number) =>
+	formatDelta(Math.round(delta * 1000) / 10, (value) => `${value.toFixed(1)}pp`)
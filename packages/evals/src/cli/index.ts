@@ -1,12 +1,13 @@
 import * as fs from "fs"
 
-import { run, command, option, flag, number, boolean } from "cmd-ts"
+import { run, command, option, multioption, flag, number, boolean, string, array, optional } from "cmd-ts"
 
-import { EVALS_REPO_PATH } from "../exercises/index.js"
+import { EVALS_REPO_PATH, exerciseLanguages, type ExerciseLanguage } from "../exercises/index.js"
 
 import { runCi } from "./runCi.js"
 import { runEvals } from "./runEvals.js"
 import { processTask } from "./processTask.js"
+import { runLocal, DEFAULT_LOCAL_DB_PATH } from "./runLocal.js"
 
 const main = async () => {
 	await run(
@@ -18,19 +19,53 @@ const main = async () => {
 				ci: flag({ type: boolean, long: "ci", defaultValue: () => false }),
 				runId: option({ type: number, long: "runId", short: "r", defaultValue: () => -1 }),
 				taskId: option({ type: number, long: "taskId", short: "t", defaultValue: () => -1 }),
+				local: flag({ type: boolean, long: "local", defaultValue: () => false }),
+				model: option({ type: optional(string), long: "model", short: "m" }),
+				provider: option({ type: optional(string), long: "provider" }),
+				settings: option({ type: optional(string), long: "settings" }),
+				language: multioption({ type: array(string), long: "language", short: "l" }),
+				exercise: multioption({ type: array(string), long: "exercise", short: "e" }),
+				exercisesPerLanguage: option({ type: optional(number), long: "exercisesPerLanguage" }),
+				concurrency: option({ type: number, long: "concurrency", short: "c", defaultValue: () => 1 }),
+				timeout: option({ type: number, long: "timeout", defaultValue: () => 5 }),
+				db: option({ type: string, long: "db", defaultValue: () => DEFAULT_LOCAL_DB_PATH }),
 			},
 			handler: async (args) => {
-				const { runId, taskId, ci } = args
+				const { runId, taskId, ci, local } = args
 
 				try {
-					if (ci) {
+					if (local) {
+						if (!args.model) {
+							throw new Error("--model is required in local mode.")
+						}
+
+						const unknownLanguages = args.language.filter(
+							(language) => !exerciseLanguages.includes(language as ExerciseLanguage),
+						)
+
+						if (unknownLanguages.length > 0) {
+							throw new Error(`Unknown language(s): ${unknownLanguages.join(", ")}.`)
+						}
+
+						await runLocal({
+							model: args.model,
+							provider: args.provider,
+							settingsPath: args.settings,
+							languages: args.language.length > 0 ? (args.language as ExerciseLanguage[]) : undefined,
+							exercises: args.exercise,
+							exercisesPerLanguage: args.exercisesPerLanguage,
+							concurrency: args.concurrency,
+							timeout: args.timeout,
+							dbPath: args.db,
+						})
+					} else if (ci) {
 						await runCi({ concurrency: 3, exercisesPerLanguage: 5 })
 					} else if (runId !== -1) {
 						await runEvals(runId)
 					} else if (taskId !== -1) {
 						await processTask({ taskId, jobToken: process.env.ROO_CODE_CLOUD_TOKEN || null })
 					} else {
-						throw new Error("Either runId or taskId must be provided.")
+						throw new Error("Either runId, taskId or --local must be provided.")
 					}
 				} catch (error) {
 					console.error(error)
@@ -0,0 +1,199 @@
+import * as fs from "fs/promises"
+import * as os from "os"
+import * as path from "path"
+
+import PQueue from "p-queue"
+
+import { type RooCodeSettings, isProviderName } from "@roo-code/types"
+
+import type { Run, Task, TaskMetrics } from "../db/index.js"
+import { openLocalStore } from "../db/local/store.js"
+import {
+	type ExerciseLanguage,
+	EVALS_REPO_PATH,
+	exerciseLanguages,
+	getExercisesForLanguage,
+} from "../exercises/index.js"
+
+import { Logger, getTag, resetEvalsRepo, commitEvalsRepoChanges } from "./utils.js"
+import { runTaskWithCli } from "./runTaskInCli.js"
+import { runUnitTest } from "./runUnitTest.js"
+
+export const DEFAULT_LOCAL_DB_PATH = path.join(os.homedir(), ".roo-evals", "evals.db")
+
+export type RunLocalOptions = {
+	model: string
+	provider?: string
+	settingsPath?: string
+	languages?: ExerciseLanguage[]
+	exercises?: string[]
+	exercisesPerLanguage?: number
+	concurrency?: number
+	timeout?: number
+	dbPath?: string
+}
+
+/**
+ * Run evals without Postgres, Redis or Docker: runs, tasks and metrics are
+ * stored in a SQLite database and exercises are run in-process with the CLI,
+ * `concurrency` at a time. Prints a summary table when the run finishes.
+ */
+export const runLocal = async ({
+	model,
+	provider,
+	settingsPath,
+	languages = [...exerciseLanguages],
+	exercises,
+	exercisesPerLanguage,
+	concurrency = 1,
+	timeout = 5,
+	dbPath = DEFAULT_LOCAL_DB_PATH,
+}: RunLocalOptions) => {
+	if (provider && !isProviderName(provider)) {
+		throw new Error(`Unknown provider "${provider}".`)
+	}
+
+	const settings: RooCodeSettings = settingsPath ? JSON.parse(await fs.readFile(settingsPath, "utf-8")) : {}
+
+	if (provider) {
+		settings.apiProvider = provider
+		settings.apiModelId = model
+	} else {
+		settings.apiProvider ??= "openrouter"
+		settings.openRouterModelId = model
+	}
+
+	const store = openLocalStore(dbPath)
+
+	try {
+		const run = await store.createRun({
+			model,
+			settings,
+			socketPath: "",
+			executionMethod: "cli",
+			concurrency,
+			timeout,
+		})
+
+		for (const language of languages) {
+			let names = await getExercisesForLanguage(EVALS_REPO_PATH, language)
+
+			if (exercises?.length) {
+				names = names.filter((name) => exercises.includes(name) || exercises.includes(`${language}/${name}`))
+			}
+
+			if (exercisesPerLanguage) {
+				names = names.slice(0, exercisesPerLanguage)
+			}
+
+			for (const exercise of names) {
+				await store.createTask({ runId: run.id, language, exercise })
+			}
+		}
+
+		const tasks = await store.getTasks(run.id)
+
+		if (tasks.length === 0) {
+			throw new Error("No exercises match the given languages and exercises.")
+		}
+
+		const logDir = path.join(os.tmpdir(), "evals", "local", `${run.id}`)
+		const logger = new Logger({ logDir, filename: "controller.log", tag: getTag("runLocal", { run }) })
+		logger.info(`running ${tasks.length} task(s) with ${model}, database: ${dbPath}`)
+
+		await resetEvalsRepo({ run, cwd: EVALS_REPO_PATH })
+
+		const queue = new PQueue({ concurrency })
+
+		for (const task of tasks) {
+			queue.add(async () => {
+				const taskLogger = new Logger({
+					logDir,
+					filename: `${task.language}-${task.exercise}.log`,
+					tag: getTag("runLocal", { run, task }),
+				})
+
+				try {
+					await runTaskWithCli({
+						run,
+						task,
+						jobToken: null,
+						publish: async () => {},
+						logger: taskLogger,
+						store,
+					})
+					const passed = await runUnitTest({ task, logger: taskLogger })
+					await store.updateTask(task.id, { passed })
+					logger.info(`${task.language}/${task.exercise} -> ${passed ? "passed" : "failed"}`)
+				} catch (error) {
+					logger.error(`error running ${task.language}/${task.exercise}`, error)
+					await store.updateTask(task.id, { passed: false, finishedAt: new Date() })
+				} finally {
+					taskLogger.close()
+				}
+			})
+		}
+
+		await queue.onIdle()
+
+		const result = await store.finishRun(run.id)
+		await commitEvalsRepoChanges({ run, cwd: EVALS_REPO_PATH })
+		logger.close()
+
+		console.log(`\n${formatRunSummary(result, await store.getTasks(run.id))}`)
+		console.log(`\nLogs: ${logDir}`)
+
+		return result
+	} finally {
+		store.close()
+	}
+}
+
+const formatDuration = (ms: number) => {
+	const seconds = Math.round(ms / 1000)
+	return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`
+}
+
+const formatCost = (cost: number) => `$${cost.toFixed(4)}`
+
+/**
+ * Formats the results of a finished run as a plain-text table with one row per
+ * task, followed by the pass rate per language and the run's totals.
+ */
+export const formatRunSummary = (
+	run: Run & { taskMetrics: TaskMetrics },
+	tasks: (Task & { taskMetrics: TaskMetrics | null })[],
+) => {
+	const header = ["Language", "Exercise", "Result", "Duration", "Tokens In", "Tokens Out", "Cost"]
+
+	const rows = tasks.map((task) => [
+		task.language,
+		task.exercise,
+		task.passed ? "pass" : "fail",
+		task.taskMetrics ? formatDuration(task.taskMetrics.duration) : "-",
+		task.taskMetrics ? task.taskMetrics.tokensIn.toLocaleString("en-US") : "-",
+		task.taskMetrics ? task.taskMetrics.tokensOut.toLocaleString("en-US") : "-",
+		task.taskMetrics ? formatCost(task.taskMetrics.cost) : "-",
+	])
+
+	const widths = header.map((title, column) => Math.max(title.length, ...rows.map((row) => row[column]!.length)))
+	const formatRow = (row: string[]) => row.map((cell, column) => cell.padEnd(widths[column]!)).join("  ").trimEnd()
+
+	const languages = [...new Set(tasks.map((task) => task.language))]
+	const languageScores = languages.map((language) => {
+		const languageTasks = tasks.filter((task) => task.language === language)
+		return `${language} ${languageTasks.filter((task) => task.passed).length}/${languageTasks.length}`
+	})
+
+	const total = run.passed + run.failed
+	const score = total > 0 ? ((run.passed / total) * 100).toFixed(1) : "0.0"
+
+	return [
+		formatRow(header),
+		formatRow(widths.map((width) => "-".repeat(width))),
+		...rows.map(formatRow),
+		"",
+		`Passed: ${run.passed}/${total} (${score}%)  ${languageScores.join("  ")}`,
+		`Cost: ${formatCost(run.taskMetrics.cost)}  Duration: ${formatDuration(run.taskMetrics.duration)}`,
+	].join("\n")
+}
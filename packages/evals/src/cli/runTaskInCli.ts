@@ -17,7 +17,14 @@ import { mergeToolUsage, waitForSubprocessWithTimeout } from "./utils.js"
  * Run a task using the Roo Code CLI (headless mode).
  * Uses the same IPC protocol as VSCode since the CLI loads the same extension bundle.
  */
-export const runTaskWithCli = async ({ run, task, publish, logger, jobToken }: RunTaskOptions) => {
+export const runTaskWithCli = async ({
+	run,
+	task,
+	publish,
+	logger,
+	jobToken,
+	store = { updateTask, createTaskMetrics, updateTaskMetrics, createToolError },
+}: RunTaskOptions) => {
 	const { language, exercise } = task
 	const promptSourcePath = path.resolve(EVALS_REPO_PATH, `prompts/${language}.md`)
 	const workspacePath = path.resolve(EVALS_REPO_PATH, language, exercise)
@@ -149,7 +156,7 @@ export const runTaskWithCli = async ({ run, task, publish, logger, jobToken }: R
 	// the TaskStarted event may have already been sent and missed.
 	// This is different from VSCode mode where we send StartNewTask via IPC and can
 	// reliably receive TaskStarted.
-	const taskMetrics = await createTaskMetrics({
+	const taskMetrics = await store.createTaskMetrics({
 		cost: 0,
 		tokensIn: 0,
 		tokensOut: 0,
@@ -159,7 +166,7 @@ export const runTaskWithCli = async ({ run, task, publish, logger, jobToken }: R
 		cacheReads: 0,
 	})
 
-	await updateTask(task.id, { taskMetricsId: taskMetrics.id, startedAt: new Date() })
+	await store.updateTask(task.id, { taskMetricsId: taskMetrics.id, startedAt: new Date() })
 	logger.info(`created taskMetrics with id ${taskMetrics.id}`)
 
 	// The rest of the logic handles IPC events for metrics updates.
@@ -205,7 +212,7 @@ export const runTaskWithCli = async ({ run, task, publish, logger, jobToken }: R
 
 		if (eventName === RooCodeEventName.TaskToolFailed) {
 			const [_taskId, toolName, error] = payload
-			await createToolError({ taskId: task.id, toolName, error })
+			await store.createToolError({ taskId: task.id, toolName, error })
 		}
 
 		if (eventName === RooCodeEventName.TaskTokenUsageUpdated || eventName === RooCodeEventName.TaskCompleted) {
@@ -218,7 +225,7 @@ export const runTaskWithCli = async ({ run, task, publish, logger, jobToken }: R
 			const incomingToolUsage: ToolUsage = payload[2] ?? {}
 			mergeToolUsage(accumulatedToolUsage, incomingToolUsage)
 
-			await updateTaskMetrics(taskMetricsId, {
+			await store.updateTaskMetrics(taskMetricsId, {
 				cost: totalCost,
 				tokensIn: totalTokensIn,
 				tokensOut: totalTokensOut,
@@ -285,7 +292,7 @@ export const runTaskWithCli = async ({ run, task, publish, logger, jobToken }: R
 	}
 
 	logger.info("setting task finished at")
-	await updateTask(task.id, { finishedAt: new Date() })
+	await store.updateTask(task.id, { finishedAt: new Date() })
 
 	if (rooTaskId && !isClientDisconnected) {
 		logger.info("closing task")
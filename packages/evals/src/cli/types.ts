@@ -1,6 +1,15 @@
 import { type TaskEvent } from "@roo-code/types"
 
-import type { Run, Task } from "../db/index.js"
+import type {
+	Run,
+	Task,
+	UpdateTask,
+	TaskMetrics,
+	InsertTaskMetrics,
+	UpdateTaskMetrics,
+	ToolError,
+	InsertToolError,
+} from "../db/index.js"
 import { Logger } from "./utils.js"
 
 export class SubprocessTimeoutError extends Error {
@@ -10,10 +19,22 @@ export class SubprocessTimeoutError extends Error {
 	}
 }
 
+/**
+ * Queries used to record a task's progress. Defaults to the Postgres queries;
+ * local mode passes those of its SQLite database.
+ */
+export type TaskStore = {
+	updateTask: (id: number, values: UpdateTask) => Promise<Task>
+	createTaskMetrics: (args: InsertTaskMetrics) => Promise<TaskMetrics>
+	updateTaskMetrics: (id: number, values: UpdateTaskMetrics) => Promise<TaskMetrics>
+	createToolError: (args: InsertToolError) => Promise<ToolError>
+}
+
 export type RunTaskOptions = {
 	run: Run
 	task: Task
 	jobToken: string | null
 	publish: (taskEvent: TaskEvent) => Promise<void>
 	logger: Logger
+	store?: TaskStore
 }
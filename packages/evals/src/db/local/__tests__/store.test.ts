@@ -0,0 +1,81 @@
+import { RecordNotFoundError } from "../../queries/errors.js"
+import { openLocalStore, type LocalStore } from "../store.js"
+
+describe("openLocalStore", () => {
+	let store: LocalStore
+
+	beforeEach(() => {
+		store = openLocalStore(":memory:")
+	})
+
+	afterEach(() => {
+		store.close()
+	})
+
+	it("round-trips runs and tasks with the Postgres row shape", async () => {
+		const run = await store.createRun({
+			model: "gpt-4.1-mini",
+			settings: { apiProvider: "openrouter", openRouterModelId: "gpt-4.1-mini" },
+			socketPath: "",
+			executionMethod: "cli",
+		})
+
+		expect(run).toMatchObject({ id: 1, concurrency: 2, timeout: 5, passed: 0, failed: 0 })
+		expect(run.createdAt).toBeInstanceOf(Date)
+		expect((await store.findRun(run.id)).settings).toEqual({
+			apiProvider: "openrouter",
+			openRouterModelId: "gpt-4.1-mini",
+		})
+
+		const task = await store.createTask({ runId: run.id, language: "go", exercise: "say" })
+		const startedAt = new Date()
+		await store.updateTask(task.id, { startedAt, passed: true })
+
+		const [saved] = await store.getTasks(run.id)
+		expect(saved).toMatchObject({ exercise: "say", passed: true, startedAt, taskMetrics: null })
+	})
+
+	it("aggregates task metrics and counts crashed tasks as failed when finishing a run", async () => {
+		const run = await store.createRun({ model: "gpt-4.1-mini", socketPath: "" })
+
+		const metrics = async (cost: number, toolUsage = {}) =>
+			store.createTaskMetrics({
+				duration: 30_000,
+				tokensIn: 1_000,
+				tokensOut: 100,
+				tokensContext: 1_100,
+				cacheWrites: 0,
+				cacheReads: 0,
+				cost,
+				toolUsage,
+			})
+
+		const first = await metrics(0.05, { apply_diff: { attempts: 2, failures: 1 } })
+		const second = await metrics(0.02, { apply_diff: { attempts: 1, failures: 0 } })
+
+		await store.createTask({
+			runId: run.id,
+			language: "go",
+			exercise: "say",
+			taskMetricsId: first.id,
+			passed: true,
+		})
+		await store.createTask({ runId: run.id, language: "rust", exercise: "anagram", taskMetricsId: second.id })
+		await store.createTask({ runId: run.id, language: "python", exercise: "grep", passed: false })
+
+		const result = await store.finishRun(run.id)
+
+		expect(result).toMatchObject({ passed: 1, failed: 2 })
+		expect(result.taskMetrics).toMatchObject({
+			tokensIn: 2_000,
+			tokensOut: 200,
+			duration: 60_000,
+			toolUsage: { apply_diff: { attempts: 3, failures: 1 } },
+		})
+		expect(result.taskMetrics.cost).toBeCloseTo(0.07)
+	})
+
+	it("throws when a run does not exist", async () => {
+		await expect(store.findRun(42)).rejects.toThrow(RecordNotFoundError)
+	})
+})
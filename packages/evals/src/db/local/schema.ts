@@ -0,0 +1,187 @@
+import { sqliteTable, text, integer, real, uniqueIndex } from "drizzle-orm/sqlite-core"
+import { relations } from "drizzle-orm"
+
+import type { RooCodeSettings, ToolName, ToolUsage } from "@roo-code/types"
+
+import type { ExerciseLanguage } from "../../exercises/index.js"
+import type { ExecutionMethod } from "../schema.js"
+
+/**
+ * SQLite mirror of the Postgres schema used by local mode. Column names and
+ * nullability match `../schema.ts` so rows have the same shape as `Run`,
+ * `Task`, `TaskMetrics` and `ToolError`.
+ */
+
+/**
+ * runs
+ */
+
+export const runs = sqliteTable("runs", {
+	id: integer().primaryKey({ autoIncrement: true }),
+	taskMetricsId: integer("task_metrics_id").references(() => taskMetrics.id),
+	model: text().notNull(),
+	name: text(),
+	description: text(),
+	contextWindow: integer(),
+	inputPrice: real(),
+	outputPrice: real(),
+	cacheWritesPrice: real(),
+	cacheReadsPrice: real(),
+	settings: text({ mode: "json" }).$type<RooCodeSettings>(),
+	jobToken: text(),
+	pid: integer(),
+	socketPath: text("socket_path").notNull(),
+	executionMethod: text("execution_method").default("vscode").notNull().$type<ExecutionMethod>(),
+	concurrency: integer().default(2).notNull(),
+	timeout: integer().default(5).notNull(),
+	passed: integer().default(0).notNull(),
+	failed: integer().default(0).notNull(),
+	createdAt: integer("created_at", { mode: "timestamp_ms" }).notNull(),
+})
+
+export const runsRelations = relations(runs, ({ one }) => ({
+	taskMetrics: one(taskMetrics, { fields: [runs.taskMetricsId], references: [taskMetrics.id] }),
+}))
+
+/**
+ * tasks
+ */
+
+export const tasks = sqliteTable(
+	"tasks",
+	{
+		id: integer().primaryKey({ autoIncrement: true }),
+		runId: integer("run_id")
+			.references(() => runs.id, { onDelete: "cascade" })
+			.notNull(),
+		taskMetricsId: integer("task_metrics_id").references(() => taskMetrics.id, { onDelete: "set null" }),
+		language: text().notNull().$type<ExerciseLanguage>(),
+		exercise: text().notNull(),
+		iteration: integer().default(1).notNull(),
+		passed: integer({ mode: "boolean" }),
+		startedAt: integer("started_at", { mode: "timestamp_ms" }),
+		finishedAt: integer("finished_at", { mode: "timestamp_ms" }),
+		createdAt: integer("created_at", { mode: "timestamp_ms" }).notNull(),
+	},
+	(table) => [
+		uniqueIndex("tasks_language_exercise_iteration_idx").on(
+			table.runId,
+			table.language,
+			table.exercise,
+			table.iteration,
+		),
+	],
+)
+
+export const tasksRelations = relations(tasks, ({ one }) => ({
+	run: one(runs, { fields: [tasks.runId], references: [runs.id] }),
+	taskMetrics: one(taskMetrics, { fields: [tasks.taskMetricsId], references: [taskMetrics.id] }),
+}))
+
+/**
+ * taskMetrics
+ */
+
+export const taskMetrics = sqliteTable("taskMetrics", {
+	id: integer().primaryKey({ autoIncrement: true }),
+	tokensIn: integer("tokens_in").notNull(),
+	tokensOut: integer("tokens_out").notNull(),
+	tokensContext: integer("tokens_context").notNull(),
+	cacheWrites: integer("cache_writes").notNull(),
+	cacheReads: integer("cache_reads").notNull(),
+	cost: real().notNull(),
+	duration: integer().notNull(),
+	toolUsage: text("tool_usage", { mode: "json" }).$type<ToolUsage>(),
+	createdAt: integer("created_at", { mode: "timestamp_ms" }).notNull(),
+})
+
+/**
+ * toolErrors
+ */
+
+export const toolErrors = sqliteTable("toolErrors", {
+	id: integer().primaryKey({ autoIncrement: true }),
+	runId: integer("run_id").references(() => runs.id, { onDelete: "cascade" }),
+	taskId: integer("task_id").references(() => tasks.id, { onDelete: "cascade" }),
+	toolName: text("tool_name").notNull().$type<ToolName>(),
+	error: text().notNull(),
+	createdAt: integer("created_at", { mode: "timestamp_ms" }).notNull(),
+})
+
+export const toolErrorsRelations = relations(toolErrors, ({ one }) => ({
+	run: one(runs, { fields: [toolErrors.runId], references: [runs.id] }),
+	task: one(tasks, { fields: [toolErrors.taskId], references: [tasks.id] }),
+}))
+
+/**
+ * schema
+ */
+
+export const schema = { runs, runsRelations, tasks, tasksRelations, taskMetrics, toolErrors, toolErrorsRelations }
+
+/**
+ * DDL for the tables above. Local databases are created on first use rather
+ * than migrated with drizzle-kit, so there is nothing to set up beforehand.
+ */
+export const createTablesSql = `
+CREATE TABLE IF NOT EXISTS "taskMetrics" (
+	"id" integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	"tokens_in" integer NOT NULL,
+	"tokens_out" integer NOT NULL,
+	"tokens_context" integer NOT NULL,
+	"cache_writes" integer NOT NULL,
+	"cache_reads" integer NOT NULL,
+	"cost" real NOT NULL,
+	"duration" integer NOT NULL,
+	"tool_usage" text,
+	"created_at" integer NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS "runs" (
+	"id" integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	"task_metrics_id" integer REFERENCES "taskMetrics"("id"),
+	"model" text NOT NULL,
+	"name" text,
+	"description" text,
+	"contextWindow" integer,
+	"inputPrice" real,
+	"outputPrice" real,
+	"cacheWritesPrice" real,
+	"cacheReadsPrice" real,
+	"settings" text,
+	"jobToken" text,
+	"pid" integer,
+	"socket_path" text NOT NULL,
+	"execution_method" text DEFAULT 'vscode' NOT NULL,
+	"concurrency" integer DEFAULT 2 NOT NULL,
+	"timeout" integer DEFAULT 5 NOT NULL,
+	"passed" integer DEFAULT 0 NOT NULL,
+	"failed" integer DEFAULT 0 NOT NULL,
+	"created_at" integer NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS "tasks" (
+	"id" integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	"run_id" integer NOT NULL REFERENCES "runs"("id") ON DELETE cascade,
+	"task_metrics_id" integer REFERENCES "taskMetrics"("id") ON DELETE set null,
+	"language" text NOT NULL,
+	"exercise" text NOT NULL,
+	"iteration" integer DEFAULT 1 NOT NULL,
+	"passed" integer,
+	"started_at" integer,
+	"finished_at" integer,
+	"created_at" integer NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "tasks_language_exercise_iteration_idx"
+	ON "tasks" ("run_id", "language", "exercise", "iteration");
+
+CREATE TABLE IF NOT EXISTS "toolErrors" (
+	"id" integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	"run_id" integer REFERENCES "runs"("id") ON DELETE cascade,
+	"task_id" integer REFERENCES "tasks"("id") ON DELETE cascade,
+	"tool_name" text NOT NULL,
+	"error" text NOT NULL,
+	"created_at" integer NOT NULL
+);
+`
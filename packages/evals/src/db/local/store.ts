@@ -0,0 +1,237 @@
+import * as fs from "fs"
+import * as path from "path"
+
+import Database from "better-sqlite3"
+import { drizzle } from "drizzle-orm/better-sqlite3"
+import { asc, eq, sql, sum } from "drizzle-orm"
+
+import type { ToolUsage } from "@roo-code/types"
+
+import { RecordNotFoundError, RecordNotCreatedError } from "../queries/errors.js"
+import type {
+	Run,
+	InsertRun,
+	UpdateRun,
+	Task,
+	InsertTask,
+	UpdateTask,
+	TaskMetrics,
+	InsertTaskMetrics,
+	UpdateTaskMetrics,
+	ToolError,
+	InsertToolError,
+} from "../schema.js"
+import { schema, createTablesSql } from "./schema.js"
+
+/**
+ * Opens (and creates, if needed) a SQLite database for local eval runs. The
+ * returned queries mirror those in `../queries` for the Postgres database.
+ * @param filePath Path of the database file, or ":memory:"
+ */
+export const openLocalStore = (filePath: string) => {
+	if (filePath !== ":memory:") {
+		fs.mkdirSync(path.dirname(filePath), { recursive: true })
+	}
+
+	const sqlite = new Database(filePath)
+	sqlite.pragma("journal_mode = WAL")
+	sqlite.pragma("foreign_keys = ON")
+	sqlite.exec(createTablesSql)
+
+	const db = drizzle({ client: sqlite, schema })
+
+	const findRun = async (id: number): Promise<Run> => {
+		const run = await db.query.runs.findFirst({ where: eq(schema.runs.id, id) })
+
+		if (!run) {
+			throw new RecordNotFoundError()
+		}
+
+		return run
+	}
+
+	const createRun = async (args: InsertRun): Promise<Run> => {
+		const records = await db
+			.insert(schema.runs)
+			.values({ ...args, createdAt: new Date() })
+			.returning()
+
+		const record = records[0]
+
+		if (!record) {
+			throw new RecordNotCreatedError()
+		}
+
+		return record
+	}
+
+	const updateRun = async (id: number, values: UpdateRun): Promise<Run> => {
+		const records = await db.update(schema.runs).set(values).where(eq(schema.runs.id, id)).returning()
+		const record = records[0]
+
+		if (!record) {
+			throw new RecordNotFoundError()
+		}
+
+		return record
+	}
+
+	const createTask = async (args: InsertTask): Promise<Task> => {
+		const records = await db
+			.insert(schema.tasks)
+			.values({ ...args, createdAt: new Date() })
+			.returning()
+
+		const record = records[0]
+
+		if (!record) {
+			throw new RecordNotCreatedError()
+		}
+
+		return record
+	}
+
+	const updateTask = async (id: number, values: UpdateTask): Promise<Task> => {
+		const records = await db.update(schema.tasks).set(values).where(eq(schema.tasks.id, id)).returning()
+		const record = records[0]
+
+		if (!record) {
+			throw new RecordNotFoundError()
+		}
+
+		return record
+	}
+
+	const getTasks = async (runId: number) =>
+		db.query.tasks.findMany({
+			where: eq(schema.tasks.runId, runId),
+			with: { taskMetrics: true },
+			orderBy: asc(schema.tasks.id),
+		})
+
+	const createTaskMetrics = async (args: InsertTaskMetrics): Promise<TaskMetrics> => {
+		const records = await db
+			.insert(schema.taskMetrics)
+			.values({ ...args, createdAt: new Date() })
+			.returning()
+
+		const record = records[0]
+
+		if (!record) {
+			throw new RecordNotCreatedError()
+		}
+
+		return record
+	}
+
+	const updateTaskMetrics = async (id: number, values: UpdateTaskMetrics): Promise<TaskMetrics> => {
+		const records = await db
+			.update(schema.taskMetrics)
+			.set(values)
+			.where(eq(schema.taskMetrics.id, id))
+			.returning()
+
+		const record = records[0]
+
+		if (!record) {
+			throw new RecordNotFoundError()
+		}
+
+		return record
+	}
+
+	const createToolError = async (args: InsertToolError): Promise<ToolError> => {
+		const records = await db
+			.insert(schema.toolErrors)
+			.values({ ...args, createdAt: new Date() })
+			.returning()
+
+		const record = records[0]
+
+		if (!record) {
+			throw new RecordNotCreatedError()
+		}
+
+		return record
+	}
+
+	const finishRun = async (runId: number) => {
+		const [values] = await db
+			.select({
+				tokensIn: sum(schema.taskMetrics.tokensIn).mapWith(Number),
+				tokensOut: sum(schema.taskMetrics.tokensOut).mapWith(Number),
+				tokensContext: sum(schema.taskMetrics.tokensContext).mapWith(Number),
+				cacheWrites: sum(schema.taskMetrics.cacheWrites).mapWith(Number),
+				cacheReads: sum(schema.taskMetrics.cacheReads).mapWith(Number),
+				cost: sum(schema.taskMetrics.cost).mapWith(Number),
+				duration: sum(schema.taskMetrics.duration).mapWith(Number),
+			})
+			.from(schema.taskMetrics)
+			.innerJoin(schema.tasks, eq(schema.taskMetrics.id, schema.tasks.taskMetricsId))
+			.where(eq(schema.tasks.runId, runId))
+
+		// Unlike the Postgres query, tasks that crashed before recording any
+		// metrics are counted as failed, since there is no retry in local mode.
+		const [counts] = await db
+			.select({
+				passed: sql<number>`coalesce(sum(CASE WHEN ${schema.tasks.passed} THEN 1 ELSE 0 END), 0)`,
+				failed: sql<number>`coalesce(sum(CASE WHEN ${schema.tasks.passed} THEN 0 ELSE 1 END), 0)`,
+			})
+			.from(schema.tasks)
+			.where(eq(schema.tasks.runId, runId))
+
+		if (!values || !counts) {
+			throw new RecordNotFoundError()
+		}
+
+		const tasks = await getTasks(runId)
+
+		const toolUsage = tasks.reduce((acc, task) => {
+			Object.entries(task.taskMetrics?.toolUsage || {}).forEach(([key, { attempts, failures }]) => {
+				const tool = key as keyof ToolUsage
+				acc[tool] ??= { attempts: 0, failures: 0 }
+				acc[tool].attempts += attempts
+				acc[tool].failures += failures
+			})
+
+			return acc
+		}, {} as ToolUsage)
+
+		const taskMetrics = await createTaskMetrics({
+			tokensIn: values.tokensIn ?? 0,
+			tokensOut: values.tokensOut ?? 0,
+			tokensContext: values.tokensContext ?? 0,
+			cacheWrites: values.cacheWrites ?? 0,
+			cacheReads: values.cacheReads ?? 0,
+			cost: values.cost ?? 0,
+			duration: values.duration ?? 0,
+			toolUsage,
+		})
+
+		const run = await updateRun(runId, {
+			taskMetricsId: taskMetrics.id,
+			passed: counts.passed,
+			failed: counts.failed,
+		})
+
+		return { ...run, taskMetrics }
+	}
+
+	const close = () => sqlite.close()
+
+	return {
+		findRun,
+		createRun,
+		updateRun,
+		createTask,
+		updateTask,
+		getTasks,
+		createTaskMetrics,
+		updateTaskMetrics,
+		createToolError,
+		finishRun,
+		close,
+	}
+}
+
+export type LocalStore = ReturnType<typeof openLocalStore>
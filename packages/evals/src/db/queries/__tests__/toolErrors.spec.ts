@@ -0,0 +1,34 @@
+// npx vitest run src/db/queries/__tests__/toolErrors.spec.ts
+
+import { createRun } from "../runs.js"
+import { createTask } from "../tasks.js"
+import { createToolError, getToolErrors } from "../toolErrors.js"
+
+describe("getToolErrors", () => {
+	const createRunTask = async (runId: number, exercise: string) =>
+		createTask({ runId, language: "go", exercise, startedAt: new Date() })
+
+	it("finds the tool errors of a run through its tasks", async () => {
+		const run = await createRun({ model: "gpt-4.1-mini", socketPath: "/tmp/roo.sock" })
+		const otherRun = await createRun({ model: "gpt-4.1-mini", socketPath: "/tmp/roo.sock" })
+		const task1 = await createRunTask(run.id, "go/say")
+		const task2 = await createRunTask(run.id, "go/hello")
+		const otherTask = await createRunTask(otherRun.id, "go/say")
+
+		// Same shape as the runners' records: the task id only, no run id.
+		const first = await createToolError({ taskId: task1.id, toolName: "apply_diff", error: "No match" })
+		const second = await createToolError({ taskId: task2.id, toolName: "read_file", error: "Not found" })
+		await createToolError({ taskId: otherTask.id, toolName: "apply_diff", error: "No match" })
+
+		const toolErrors = await getToolErrors(run.id)
+		expect(toolErrors.map(({ id, taskId, runId }) => ({ id, taskId, runId }))).toEqual([
+			{ id: first.id, taskId: task1.id, runId: null },
+			{ id: second.id, taskId: task2.id, runId: null },
+		])
+	})
+
+	it("returns nothing for a run without tasks", async () => {
+		const run = await createRun({ model: "gpt-4.1-mini", socketPath: "/tmp/roo.sock" })
+		expect(await getToolErrors(run.id)).toEqual([])
+	})
+})
@@ -1,6 +1,8 @@
+import { asc, eq, inArray } from "drizzle-orm"
+
 import { RecordNotCreatedError } from "./errors.js"
 import type { InsertToolError } from "../schema.js"
-import { toolErrors } from "../schema.js"
+import { tasks, toolErrors } from "../schema.js"
 import { client as db } from "../db.js"
 
 export const createToolError = async (args: InsertToolError) => {
@@ -20,3 +22,10 @@ export const createToolError = async (args: InsertToolError) => {
 
 	return record
 }
+
+// The runners record tool errors against their task only, so find them through the run's tasks.
+export const getToolErrors = async (runId: number) =>
+	db.query.toolErrors.findMany({
+		where: inArray(toolErrors.taskId, db.select({ id: tasks.id }).from(tasks).where(eq(tasks.runId, runId))),
+		orderBy: asc(toolErrors.id),
+	})
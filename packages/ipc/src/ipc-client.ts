@@ -5,6 +5,8 @@ import ipc from "node-ipc"
 
 import {
 	type TaskCommand,
+	type TaskCommandResponse,
+	type TaskCommandResult,
 	type IpcClientEvents,
 	type IpcMessage,
 	IpcOrigin,
@@ -19,6 +21,10 @@ export class IpcClient extends EventEmitter<IpcClientEvents> {
 	private readonly _log: (...args: unknown[]) => void
 	private _isConnected = false
 	private _clientId?: string
+	private readonly _pendingRequests = new Map<
+		string,
+		{ resolve: (data: unknown) => void; reject: (error: Error) => void; timeout: NodeJS.Timeout }
+	>()
 
 	constructor(socketPath: string, log = console.log) {
 		super()
@@ -53,6 +59,13 @@ export class IpcClient extends EventEmitter<IpcClientEvents> {
 
 		this.log("[client#onDisconnect]")
 		this._isConnected = false
+
+		for (const [requestId, { reject, timeout }] of this._pendingRequests) {
+			clearTimeout(timeout)
+			reject(new Error("Disconnected before the command was handled"))
+			this._pendingRequests.delete(requestId)
+		}
+
 		this.emit(IpcMessageType.Disconnect)
 	}
 
@@ -79,6 +92,10 @@ export class IpcClient extends EventEmitter<IpcClientEvents> {
 					this._clientId = payload.data.clientId
 					this.emit(IpcMessageType.Ack, payload.data)
 					break
+				case IpcMessageType.TaskCommandResponse:
+					this.onCommandResponse(payload.data)
+					this.emit(IpcMessageType.TaskCommandResponse, payload.data)
+					break
 				case IpcMessageType.TaskEvent:
 					this.emit(IpcMessageType.TaskEvent, payload.data)
 					break
@@ -86,21 +103,66 @@ export class IpcClient extends EventEmitter<IpcClientEvents> {
 		}
 	}
 
+	private onCommandResponse({ requestId, success, data, error }: TaskCommandResponse) {
+		const pending = this._pendingRequests.get(requestId)
+
+		if (!pending) {
+			return
+		}
+
+		clearTimeout(pending.timeout)
+		this._pendingRequests.delete(requestId)
+
+		if (success) {
+			pending.resolve(data)
+		} else {
+			pending.reject(new Error(error ?? "Command failed"))
+		}
+	}
+
 	private log(...args: unknown[]) {
 		this._log(...args)
 	}
 
-	public sendCommand(command: TaskCommand) {
+	public sendCommand(command: TaskCommand, requestId?: string) {
 		const message: IpcMessage = {
 			type: IpcMessageType.TaskCommand,
 			origin: IpcOrigin.Client,
 			clientId: this._clientId!,
+			requestId,
 			data: command,
 		}
 
 		this.sendMessage(message)
 	}
 
+	/**
+	 * Sends a command and waits for the server to handle it.
+	 * @returns The command's result, e.g. the task history for `GetTaskHistory`
+	 * @throws If the command fails, the client disconnects or no response arrives within `timeoutMs`
+	 */
+	public request<C extends TaskCommand>(
+		command: C,
+		timeoutMs = 30_000,
+	): Promise<TaskCommandResult<C["commandName"]>> {
+		const requestId = crypto.randomUUID()
+
+		return new Promise((resolve, reject) => {
+			const timeout = setTimeout(() => {
+				this._pendingRequests.delete(requestId)
+				reject(new Error(`${command.commandName} timed out after ${timeoutMs}ms`))
+			}, timeoutMs)
+
+			this._pendingRequests.set(requestId, {
+				resolve: (data) => resolve(data as TaskCommandResult<C["commandName"]>),
+				reject,
+				timeout,
+			})
+
+			this.sendCommand(command, requestId)
+		})
+	}
+
 	public sendTaskMessage(text?: string, images?: string[]) {
 		this.sendCommand({
 			commandName: TaskCommandName.SendMessage,
@@ -108,6 +170,37 @@ export class IpcClient extends EventEmitter<IpcClientEvents> {
 		})
 	}
 
+	public getTaskHistory(limit?: number) {
+		return this.request({ commandName: TaskCommandName.GetTaskHistory, data: { limit } })
+	}
+
+	public getTaskMessages(taskId: string) {
+		return this.request({ commandName: TaskCommandName.GetTaskMessages, data: taskId })
+	}
+
+	public respondToAsk(
+		taskId: string,
+		response: "approve" | "deny",
+		{ askTs, text, images }: { askTs?: number; text?: string; images?: string[] } = {},
+	) {
+		return this.request({
+			commandName: TaskCommandName.RespondToAsk,
+			data: { taskId, askTs, response, text, images },
+		})
+	}
+
+	public switchMode(mode: string, taskId?: string) {
+		return this.request({ commandName: TaskCommandName.SwitchMode, data: { taskId, mode } })
+	}
+
+	public restoreCheckpoint(taskId: string, ts: number, commitHash: string, mode?: "preview" | "restore") {
+		return this.request({ commandName: TaskCommandName.RestoreCheckpoint, data: { taskId, ts, commitHash, mode } })
+	}
+
+	public getTokenUsage(taskId: string) {
+		return this.request({ commandName: TaskCommandName.GetTokenUsage, data: taskId })
+	}
+
 	public sendMessage(message: IpcMessage) {
 		ipc.of[this._id]?.emit("message", message)
 	}
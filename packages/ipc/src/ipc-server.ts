@@ -95,7 +95,7 @@ export class IpcServer extends EventEmitter<IpcServerEvents> implements RooCodeI
 		if (payload.origin === IpcOrigin.Client) {
 			switch (payload.type) {
 				case IpcMessageType.TaskCommand:
-					this.emit(IpcMessageType.TaskCommand, payload.clientId, payload.data)
+					this.emit(IpcMessageType.TaskCommand, payload.clientId, payload.data, payload.requestId)
 					break
 				default:
 					this.log(`[server#onMessage] unhandled payload: ${JSON.stringify(payload)}`)
@@ -1,4 +1,4 @@
-import { TaskCommandName, taskCommandSchema } from "../ipc.js"
+import { IpcMessageType, IpcOrigin, TaskCommandName, ipcMessageSchema, taskCommandSchema } from "../ipc.js"
 
 describe("IPC Types", () => {
 	describe("TaskCommandName", () => {
@@ -71,4 +71,63 @@ describe("IPC Types", () => {
 			expect(result.success).toBe(false)
 		})
 	})
+
+	describe("task inspection and control commands", () => {
+		it("should validate RespondToAsk with a pending ask timestamp", () => {
+			const result = taskCommandSchema.safeParse({
+				commandName: TaskCommandName.RespondToAsk,
+				data: { taskId: "task-123", askTs: 1700000000000, response: "deny", text: "Not this file" },
+			})
+
+			expect(result.success).toBe(true)
+		})
+
+		it("should reject RespondToAsk with an unknown response", () => {
+			const result = taskCommandSchema.safeParse({
+				commandName: TaskCommandName.RespondToAsk,
+				data: { taskId: "task-123", response: "maybe" },
+			})
+
+			expect(result.success).toBe(false)
+		})
+
+		it("should allow GetTaskHistory without data", () => {
+			expect(taskCommandSchema.safeParse({ commandName: TaskCommandName.GetTaskHistory }).success).toBe(true)
+		})
+
+		it("should require a commit hash for RestoreCheckpoint", () => {
+			const result = taskCommandSchema.safeParse({
+				commandName: TaskCommandName.RestoreCheckpoint,
+				data: { taskId: "task-123", ts: 1700000000000 },
+			})
+
+			expect(result.success).toBe(false)
+		})
+	})
+
+	describe("ipcMessageSchema", () => {
+		it("should validate task commands with a request id and their responses", () => {
+			const command = ipcMessageSchema.safeParse({
+				type: IpcMessageType.TaskCommand,
+				origin: IpcOrigin.Client,
+				clientId: "client-1",
+				requestId: "request-1",
+				data: { commandName: TaskCommandName.GetTokenUsage, data: "task-123" },
+			})
+
+			const response = ipcMessageSchema.safeParse({
+				type: IpcMessageType.TaskCommandResponse,
+				origin: IpcOrigin.Server,
+				data: {
+					requestId: "request-1",
+					commandName: TaskCommandName.GetTokenUsage,
+					success: false,
+					error: "Task task-123 not found",
+				},
+			})
+
+			expect(command.success).toBe(true)
+			expect(response.success).toBe(true)
+		})
+	})
 })
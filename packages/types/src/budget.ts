@@ -0,0 +1,76 @@
+import { z } from "zod"
+
+/**
+ * SpendingBudgets
+ *
+ * Hard limits on what tasks may spend, in USD. Spend is computed from the costs
+ * recorded in the messages of every task in the history. Limits that aren't set
+ * aren't enforced.
+ */
+export const spendingBudgetsSchema = z.object({
+	// The most a single task may spend.
+	maxTaskCost: z.number().min(0).optional(),
+	// The most the tasks of a workspace may spend per calendar day.
+	maxWorkspaceDailyCost: z.number().min(0).optional(),
+	// The most that may be spent per calendar month on a provider profile.
+	maxProfileMonthlyCost: z.number().min(0).optional(),
+	// The percentage of a limit at which the task warns that it's approaching it.
+	warningThresholdPercent: z.number().min(1).max(100).optional(),
+})
+
+export type SpendingBudgets = z.infer<typeof spendingBudgetsSchema>
+
+export const DEFAULT_BUDGET_WARNING_THRESHOLD_PERCENT = 80
+
+/**
+ * BudgetScope
+ *
+ * - `task`: the cost of one task
+ * - `workspaceDay`: today's cost of the tasks of a workspace
+ * - `profileMonth`: this month's cost of a provider profile
+ */
+export const budgetScopes = ["task", "workspaceDay", "profileMonth"] as const
+
+export const budgetScopeSchema = z.enum(budgetScopes)
+
+export type BudgetScope = z.infer<typeof budgetScopeSchema>
+
+/**
+ * BudgetStatus
+ *
+ * What has been spent against one limit. The subject is the task ID, the
+ * workspace path or the profile name, depending on the scope.
+ */
+export const budgetStatusSchema = z.object({
+	scope: budgetScopeSchema,
+	subject: z.string(),
+	limit: z.number(),
+	spent: z.number(),
+})
+
+export type BudgetStatus = z.infer<typeof budgetStatusSchema>
+
+/**
+ * SpendSummary
+ *
+ * A breakdown of the spend that the budgets are checked against.
+ */
+export const spendSummarySchema = z.object({
+	// Today's cost per workspace.
+	today: z.record(z.string(), z.number()),
+	// This month's cost per provider profile.
+	thisMonth: z.record(z.string(), z.number()),
+	// The costliest tasks of this month.
+	tasks: z.array(
+		z.object({
+			id: z.string(),
+			task: z.string(),
+			workspace: z.string().optional(),
+			cost: z.number(),
+		}),
+	),
+	// The budgets of the current task, workspace and profile.
+	budgets: z.array(budgetStatusSchema),
+})
+
+export type SpendSummary = z.infer<typeof spendSummarySchema>
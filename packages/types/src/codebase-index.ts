@@ -18,8 +18,31 @@ export const CODEBASE_INDEX_DEFAULTS = {
  * CodebaseIndexConfig
  */
 
+/**
+ * Where code index vectors live: a Qdrant server, or an embedded store in
+ * the extension's global storage that needs no server.
+ */
+export const codebaseIndexVectorStoreProviders = ["qdrant", "local"] as const
+
+export type CodebaseIndexVectorStoreProvider = (typeof codebaseIndexVectorStoreProviders)[number]
+
+/**
+ * How `codebase_search` ranks results: pure vector similarity, or vector hits
+ * fused with a keyword (BM25) index so exact identifiers and strings are found.
+ */
+export const codebaseIndexSearchModes = ["vector", "hybrid"] as const
+
+export type CodebaseIndexSearchMode = (typeof codebaseIndexSearchModes)[number]
+
+/**
+ * Why a search hit was returned: it is semantically similar to the query,
+ * shares keywords with it, or contains the query text verbatim.
+ */
+export type CodebaseSearchMatchReason = "semantic" | "keyword" | "exact"
+
 export const codebaseIndexConfigSchema = z.object({
 	codebaseIndexEnabled: z.boolean().optional(),
+	codebaseIndexVectorStoreProvider: z.enum(codebaseIndexVectorStoreProviders).optional(),
 	codebaseIndexQdrantUrl: z.string().optional(),
 	codebaseIndexEmbedderProvider: z
 		.enum([
@@ -42,6 +65,8 @@ export const codebaseIndexConfigSchema = z.object({
 		.min(CODEBASE_INDEX_DEFAULTS.MIN_SEARCH_RESULTS)
 		.max(CODEBASE_INDEX_DEFAULTS.MAX_SEARCH_RESULTS)
 		.optional(),
+	codebaseIndexSearchMode: z.enum(codebaseIndexSearchModes).optional(),
+	codebaseIndexSearchRerank: z.boolean().optional(),
 	// OpenAI Compatible specific fields
 	codebaseIndexOpenAiCompatibleBaseUrl: z.string().optional(),
 	codebaseIndexOpenAiCompatibleModelDimension: z.number().optional(),
@@ -8,6 +8,7 @@ import {
 	providerSettingsSchema,
 } from "./provider-settings.js"
 import { historyItemSchema } from "./history.js"
+import { spendingBudgetsSchema } from "./budget.js"
 import { codebaseIndexModelsSchema, codebaseIndexConfigSchema } from "./codebase-index.js"
 import { experimentsSchema } from "./experiment.js"
 import { telemetrySettingsSchema } from "./telemetry.js"
@@ -15,6 +16,32 @@ import { modeConfigSchema } from "./mode.js"
 import { customModePromptsSchema, customSupportPromptsSchema } from "./mode.js"
 import { languagesSchema } from "./vscode.js"
 
+/**
+ * Phases of a task whose API requests can be routed to a different provider
+ * profile than the one the task runs on.
+ *
+ * - `condense`: summarizing the conversation when its context is condensed
+ * - `subtask`: tasks spawned with `new_task`
+ * - `read`: requests that follow tool results from read-only tools
+ *
+ * Prompt enhancement is routed with `enhancementApiConfigId`.
+ */
+export const modelRoutingPhases = ["condense", "subtask", "read"] as const
+
+export type ModelRoutingPhase = (typeof modelRoutingPhases)[number]
+
+/**
+ * Maps routing phases to the ID of the provider profile that serves them.
+ * Phases without a profile use the task's own profile.
+ */
+export const modelRoutingSchema = z.object({
+	condense: z.string().optional(),
+	subtask: z.string().optional(),
+	read: z.string().optional(),
+})
+
+export type ModelRouting = z.infer<typeof modelRoutingSchema>
+
 /**
  * Default delay in milliseconds after writes to allow diagnostics to detect potential problems.
  * This delay is particularly important for Go and other languages where tools like goimports
@@ -117,6 +144,7 @@ export const globalSettingsSchema = z.object({
 	preventCompletionWithOpenTodos: z.boolean().optional(),
 	allowedMaxRequests: z.number().nullish(),
 	allowedMaxCost: z.number().nullish(),
+	spendingBudgets: spendingBudgetsSchema.optional(),
 	autoCondenseContext: z.boolean().optional(),
 	autoCondenseContextPercent: z.number().optional(),
 	maxConcurrentFileReads: z.number().optional(),
@@ -208,6 +236,7 @@ export const globalSettingsSchema = z.object({
 	customModePrompts: customModePromptsSchema.optional(),
 	customSupportPrompts: customSupportPromptsSchema.optional(),
 	enhancementApiConfigId: z.string().optional(),
+	modelRouting: modelRoutingSchema.optional(),
 	includeTaskHistoryInEnhance: z.boolean().optional(),
 	historyPreviewCollapsed: z.boolean().optional(),
 	reasoningBlockCollapsed: z.boolean().optional(),
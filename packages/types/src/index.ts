@@ -1,4 +1,5 @@
 export * from "./api.js"
+export * from "./budget.js"
 export * from "./cloud.js"
 export * from "./codebase-index.js"
 export * from "./context-management.js"
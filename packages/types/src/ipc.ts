@@ -2,6 +2,8 @@ import { z } from "zod"
 
 import { type TaskEvent, taskEventSchema } from "./events.js"
 import { rooCodeSettingsSchema } from "./global-settings.js"
+import type { HistoryItem } from "./history.js"
+import type { ClineMessage, TokenUsage } from "./message.js"
 
 /**
  * IpcMessageType
@@ -12,6 +14,7 @@ export enum IpcMessageType {
 	Disconnect = "Disconnect",
 	Ack = "Ack",
 	TaskCommand = "TaskCommand",
+	TaskCommandResponse = "TaskCommandResponse",
 	TaskEvent = "TaskEvent",
 }
 
@@ -46,6 +49,12 @@ export enum TaskCommandName {
 	CloseTask = "CloseTask",
 	ResumeTask = "ResumeTask",
 	SendMessage = "SendMessage",
+	GetTaskHistory = "GetTaskHistory",
+	GetTaskMessages = "GetTaskMessages",
+	RespondToAsk = "RespondToAsk",
+	SwitchMode = "SwitchMode",
+	RestoreCheckpoint = "RestoreCheckpoint",
+	GetTokenUsage = "GetTokenUsage",
 }
 
 /**
@@ -81,10 +90,85 @@ export const taskCommandSchema = z.discriminatedUnion("commandName", [
 			images: z.array(z.string()).optional(),
 		}),
 	}),
+	z.object({
+		commandName: z.literal(TaskCommandName.GetTaskHistory),
+		data: z
+			.object({
+				limit: z.number().int().positive().optional(),
+			})
+			.optional(),
+	}),
+	z.object({
+		commandName: z.literal(TaskCommandName.GetTaskMessages),
+		data: z.string(),
+	}),
+	z.object({
+		commandName: z.literal(TaskCommandName.RespondToAsk),
+		data: z.object({
+			taskId: z.string(),
+			// Timestamp of the ask being answered; rejected if another ask is pending by then.
+			askTs: z.number().optional(),
+			response: z.enum(["approve", "deny"]),
+			text: z.string().optional(),
+			images: z.array(z.string()).optional(),
+		}),
+	}),
+	z.object({
+		commandName: z.literal(TaskCommandName.SwitchMode),
+		data: z.object({
+			taskId: z.string().optional(),
+			mode: z.string(),
+		}),
+	}),
+	z.object({
+		commandName: z.literal(TaskCommandName.RestoreCheckpoint),
+		data: z.object({
+			taskId: z.string(),
+			ts: z.number(),
+			commitHash: z.string(),
+			mode: z.enum(["preview", "restore"]).optional(),
+		}),
+	}),
+	z.object({
+		commandName: z.literal(TaskCommandName.GetTokenUsage),
+		data: z.string(),
+	}),
 ])
 
 export type TaskCommand = z.infer<typeof taskCommandSchema>
 
+/**
+ * TaskCommandResponse
+ *
+ * Sent to the client that issued a command with a `requestId`, once the
+ * command has been handled.
+ */
+
+export const taskCommandResponseSchema = z.object({
+	requestId: z.string(),
+	commandName: z.nativeEnum(TaskCommandName),
+	success: z.boolean(),
+	data: z.unknown().optional(),
+	error: z.string().optional(),
+})
+
+export type TaskCommandResponse = z.infer<typeof taskCommandResponseSchema>
+
+/**
+ * TaskCommandResult
+ */
+
+type TaskCommandResults = {
+	[TaskCommandName.StartNewTask]: string
+	[TaskCommandName.GetTaskHistory]: HistoryItem[]
+	[TaskCommandName.GetTaskMessages]: ClineMessage[]
+	[TaskCommandName.GetTokenUsage]: TokenUsage
+}
+
+export type TaskCommandResult<T extends TaskCommandName> = T extends keyof TaskCommandResults
+	? TaskCommandResults[T]
+	: void
+
 /**
  * IpcMessage
  */
@@ -99,8 +183,14 @@ export const ipcMessageSchema = z.discriminatedUnion("type", [
 		type: z.literal(IpcMessageType.TaskCommand),
 		origin: z.literal(IpcOrigin.Client),
 		clientId: z.string(),
+		requestId: z.string().optional(),
 		data: taskCommandSchema,
 	}),
+	z.object({
+		type: z.literal(IpcMessageType.TaskCommandResponse),
+		origin: z.literal(IpcOrigin.Server),
+		data: taskCommandResponseSchema,
+	}),
 	z.object({
 		type: z.literal(IpcMessageType.TaskEvent),
 		origin: z.literal(IpcOrigin.Server),
@@ -120,6 +210,7 @@ export type IpcClientEvents = {
 	[IpcMessageType.Disconnect]: []
 	[IpcMessageType.Ack]: [data: Ack]
 	[IpcMessageType.TaskCommand]: [data: TaskCommand]
+	[IpcMessageType.TaskCommandResponse]: [data: TaskCommandResponse]
 	[IpcMessageType.TaskEvent]: [data: TaskEvent]
 }
 
@@ -130,6 +221,6 @@ export type IpcClientEvents = {
 export type IpcServerEvents = {
 	[IpcMessageType.Connect]: [clientId: string]
 	[IpcMessageType.Disconnect]: [clientId: string]
-	[IpcMessageType.TaskCommand]: [clientId: string, data: TaskCommand]
+	[IpcMessageType.TaskCommand]: [clientId: string, data: TaskCommand, requestId?: string]
 	[IpcMessageType.TaskEvent]: [relayClientId: string | undefined, data: TaskEvent]
 }
@@ -27,7 +27,7 @@ export type McpInstallationMethod = z.infer<typeof mcpInstallationMethodSchema>
 /**
  * Component type validation
  */
-export const marketplaceItemTypeSchema = z.enum(["mode", "mcp"] as const)
+export const marketplaceItemTypeSchema = z.enum(["mode", "mcp", "skill", "command", "tool"] as const)
 
 export type MarketplaceItemType = z.infer<typeof marketplaceItemTypeSchema>
 
@@ -61,18 +61,58 @@ export const mcpMarketplaceItemSchema = baseMarketplaceItemSchema.extend({
 
 export type McpMarketplaceItem = z.infer<typeof mcpMarketplaceItemSchema>
 
+export const skillMarketplaceItemSchema = baseMarketplaceItemSchema.extend({
+	content: z.string().min(1), // SKILL.md content
+	// Additional files such as scripts or references, keyed by path relative to the skill directory
+	files: z.record(z.string(), z.string()).optional(),
+})
+
+export type SkillMarketplaceItem = z.infer<typeof skillMarketplaceItemSchema>
+
+export const commandMarketplaceItemSchema = baseMarketplaceItemSchema.extend({
+	content: z.string().min(1), // Markdown content of the command file
+})
+
+export type CommandMarketplaceItem = z.infer<typeof commandMarketplaceItemSchema>
+
+export const customToolMarketplaceItemSchema = baseMarketplaceItemSchema.extend({
+	content: z.string().min(1), // Source of the tool file
+	language: z.enum(["typescript", "javascript"]).optional(), // Defaults to typescript
+})
+
+export type CustomToolMarketplaceItem = z.infer<typeof customToolMarketplaceItemSchema>
+
+/**
+ * Fields the extension sets on items; they are never read from marketplace or catalog files
+ */
+const marketplaceItemSourceSchema = z.object({
+	catalog: z.string().optional(), // Location of the private catalog the item comes from
+})
+
 /**
  * Unified marketplace item schema using discriminated union
  */
 export const marketplaceItemSchema = z.discriminatedUnion("type", [
 	// Mode marketplace item
-	modeMarketplaceItemSchema.extend({
+	modeMarketplaceItemSchema.merge(marketplaceItemSourceSchema).extend({
 		type: z.literal("mode"),
 	}),
 	// MCP marketplace item
-	mcpMarketplaceItemSchema.extend({
+	mcpMarketplaceItemSchema.merge(marketplaceItemSourceSchema).extend({
 		type: z.literal("mcp"),
 	}),
+	// Skill marketplace item
+	skillMarketplaceItemSchema.merge(marketplaceItemSourceSchema).extend({
+		type: z.literal("skill"),
+	}),
+	// Slash command marketplace item
+	commandMarketplaceItemSchema.merge(marketplaceItemSourceSchema).extend({
+		type: z.literal("command"),
+	}),
+	// Custom tool marketplace item
+	customToolMarketplaceItemSchema.merge(marketplaceItemSourceSchema).extend({
+		type: z.literal("tool"),
+	}),
 ])
 
 export type MarketplaceItem = z.infer<typeof marketplaceItemSchema>
@@ -24,6 +24,7 @@ import { z } from "zod"
  * - `browser_action_launch`: Permission to open or interact with a browser
  * - `use_mcp_server`: Permission to use Model Context Protocol (MCP) server functionality
  * - `auto_approval_max_req_reached`: Auto-approval limit has been reached, manual approval required
+ * - `budget_exceeded`: A spending budget has been used up, the task is paused until the user continues it
  */
 export const clineAsks = [
 	"followup",
@@ -38,6 +39,7 @@ export const clineAsks = [
 	"browser_action_launch",
 	"use_mcp_server",
 	"auto_approval_max_req_reached",
+	"budget_exceeded",
 ] as const
 
 export const clineAskSchema = z.enum(clineAsks)
@@ -55,6 +57,7 @@ export const idleAsks = [
 	"resume_completed_task",
 	"mistake_limit_reached",
 	"auto_approval_max_req_reached",
+	"budget_exceeded",
 ] as const satisfies readonly ClineAsk[]
 
 export type IdleAsk = (typeof idleAsks)[number]
@@ -150,6 +153,7 @@ export function isNonBlockingAsk(ask: ClineAsk): ask is NonBlockingAsk {
  * - `condense_context_error`: Error occurred during context condensation
  * - `codebase_search_result`: Results from searching the codebase
  * - `too_many_tools_warning`: Warning that too many MCP tools are enabled, which may confuse the LLM
+ * - `budget_warning`: Warning that a spending budget is nearly used up
  */
 export const clineSays = [
 	"error",
@@ -182,6 +186,7 @@ export const clineSays = [
 	"codebase_search_result",
 	"user_edit_todos",
 	"too_many_tools_warning",
+	"budget_warning",
 	"tool",
 ] as const
 
@@ -332,12 +332,18 @@ export default function LoginScreen() {
   - There is NO URL like /canvas/{id} to navigate to - the Canvas is a built-in IDE feature, not a web page
   - When user asks "show me the preview" of canvas components → Inform them: "The components are now visible in the Canvas view in your IDE"
   - After component_add_batch or adding multiple components, ALWAYS use canvas_validate_components to verify all components are ready and built successfully or not to catch errors early or health status. For single component_add, you should rather use component_get_info to verify build status.
+  - For components with meaningful prop states (size, theme, disabled, loading...), pass variants to component_add to render every combination as a grid, then run component_review_variants and fix the variants it reports as throwing or logging errors
 
 - **Projects - Browser Preview**:
   - Use browser_open, browser_screenshot, browser_inspect_element ONLY after project_start (when dev server is running)
   - Browser shows the full running application at localhost URL
   - Browser CANNOT show isolated React components - it needs a complete project with routing/entry points
   - Refer component_* / canvas_* based tools for complete usage
+  - For UI refactors that must not change visuals: call browser_save_visual_baseline on each affected route BEFORE editing, then browser_compare_visual_baseline afterwards and fix any changed regions it reports
+  - Run browser_audit_accessibility on pages you build or change and fix reported issues in the componentSource files it points to
+  - If the project has a .dio/performance-budget.json, run browser_check_performance_budget after UI changes and fix any metric over budget before attempting completion
+  - To check empty, error and loading states without a backend, mock API responses with browser_add_network_mock and remove the mocks when done
+  - After a user flow works, record it with browser_record_script (start → navigate/act → assert → stop) so browser_replay_script can re-verify it after later changes
 
 - **Summary**:
   - Canvas components = Automatic IDE preview (no browser)
@@ -102,12 +102,25 @@ export const isCustomProvider = (key: string): key is CustomProvider => customPr
  * model lists.
  */
 
-export const fauxProviders = ["fake-ai"] as const
+export const fauxProviders = ["fake-ai", "replay"] as const
 
 export type FauxProvider = (typeof fauxProviders)[number]
 
 export const isFauxProvider = (key: string): key is FauxProvider => fauxProviders.includes(key as FauxProvider)
 
+/**
+ * MetaProvider
+ *
+ * Meta providers don't call a model API themselves; they route requests to
+ * other provider profiles and therefore do not have model lists.
+ */
+
+export const metaProviders = ["failover"] as const
+
+export type MetaProvider = (typeof metaProviders)[number]
+
+export const isMetaProvider = (key: string): key is MetaProvider => metaProviders.includes(key as MetaProvider)
+
 /**
  * ProviderName
  */
@@ -118,6 +131,7 @@ export const providerNames = [
 	...internalProviders,
 	...customProviders,
 	...fauxProviders,
+	...metaProviders,
 	"anthropic",
 	"bedrock",
 	"baseten",
@@ -181,6 +195,10 @@ const baseProviderSettingsSchema = z.object({
 
 	// Model verbosity.
 	verbosity: verbosityLevelsSchema.optional(),
+
+	// Record every request and its response into one cassette per task in this
+	// directory, for the replay provider to serve back.
+	cassetteRecordingDirectory: z.string().optional(),
 })
 
 // Several of the providers share common model config properties.
@@ -344,6 +362,11 @@ const fakeAiSchema = baseProviderSettingsSchema.extend({
 	fakeAi: z.unknown().optional(),
 })
 
+const replaySchema = baseProviderSettingsSchema.extend({
+	// A cassette file, or a directory whose cassettes are all served.
+	replayCassettePath: z.string().optional(),
+})
+
 const xaiSchema = apiModelIdProviderModelSchema.extend({
 	xaiApiKey: z.string().optional(),
 })
@@ -417,6 +440,25 @@ const basetenSchema = apiModelIdProviderModelSchema.extend({
 	basetenApiKey: z.string().optional(),
 })
 
+/**
+ * Errors that make a failover profile move on to its next profile.
+ */
+export const failoverErrorClasses = ["rate_limit", "server_error", "connection"] as const
+
+export const failoverErrorClassSchema = z.enum(failoverErrorClasses)
+
+export type FailoverErrorClass = z.infer<typeof failoverErrorClassSchema>
+
+export const DEFAULT_FAILOVER_COOLDOWN_SECONDS = 300
+
+const failoverSchema = baseProviderSettingsSchema.extend({
+	// IDs of the profiles to try, in priority order; the first is the primary.
+	failoverProfileIds: z.array(z.string()).optional(),
+	failoverErrorClasses: z.array(failoverErrorClassSchema).optional(),
+	// How long to stay on a fallback profile before trying the primary again.
+	failoverCooldownSeconds: z.number().min(0).optional(),
+})
+
 const defaultSchema = z.object({
 	apiProvider: z.undefined(),
 })
@@ -443,6 +485,7 @@ export const providerSettingsSchemaDiscriminated = z.discriminatedUnion("apiProv
 	unboundSchema.merge(z.object({ apiProvider: z.literal("unbound") })),
 	requestySchema.merge(z.object({ apiProvider: z.literal("requesty") })),
 	fakeAiSchema.merge(z.object({ apiProvider: z.literal("fake-ai") })),
+	replaySchema.merge(z.object({ apiProvider: z.literal("replay") })),
 	xaiSchema.merge(z.object({ apiProvider: z.literal("xai") })),
 	groqSchema.merge(z.object({ apiProvider: z.literal("groq") })),
 	basetenSchema.merge(z.object({ apiProvider: z.literal("baseten") })),
@@ -458,6 +501,7 @@ export const providerSettingsSchemaDiscriminated = z.discriminatedUnion("apiProv
 	qwenCodeSchema.merge(z.object({ apiProvider: z.literal("qwen-code") })),
 	rooSchema.merge(z.object({ apiProvider: z.literal("roo") })),
 	vercelAiGatewaySchema.merge(z.object({ apiProvider: z.literal("vercel-ai-gateway") })),
+	failoverSchema.merge(z.object({ apiProvider: z.literal("failover") })),
 	defaultSchema,
 ])
 
@@ -484,6 +528,7 @@ export const providerSettingsSchema = z.object({
 	...unboundSchema.shape,
 	...requestySchema.shape,
 	...fakeAiSchema.shape,
+	...replaySchema.shape,
 	...xaiSchema.shape,
 	...groqSchema.shape,
 	...basetenSchema.shape,
@@ -499,6 +544,7 @@ export const providerSettingsSchema = z.object({
 	...qwenCodeSchema.shape,
 	...rooSchema.shape,
 	...vercelAiGatewaySchema.shape,
+	...failoverSchema.shape,
 	...codebaseIndexProviderSchema.shape,
 })
 
@@ -545,10 +591,14 @@ export const getModelId = (settings: ProviderSettings): string | undefined => {
  * TypicalProvider
  */
 
-export type TypicalProvider = Exclude<ProviderName, InternalProvider | CustomProvider | FauxProvider>
+export type TypicalProvider = Exclude<ProviderName, InternalProvider | CustomProvider | FauxProvider | MetaProvider>
 
 export const isTypicalProvider = (key: unknown): key is TypicalProvider =>
-	isProviderName(key) && !isInternalProvider(key) && !isCustomProvider(key) && !isFauxProvider(key)
+	isProviderName(key) &&
+	!isInternalProvider(key) &&
+	!isCustomProvider(key) &&
+	!isFauxProvider(key) &&
+	!isMetaProvider(key)
 
 export const modelIdKeysByProvider: Record<TypicalProvider, ModelIdKey> = {
 	anthropic: "apiModelId",
@@ -620,7 +670,7 @@ export const getApiProtocol = (provider: ProviderName | undefined, modelId?: str
  */
 
 export const MODELS_BY_PROVIDER: Record<
-	Exclude<ProviderName, "fake-ai" | "gemini-cli" | "openai">,
+	Exclude<ProviderName, "fake-ai" | "replay" | "gemini-cli" | "openai" | "failover">,
 	{ id: ProviderName; label: string; models: string[] }
 > = {
 	anthropic: {
@@ -142,9 +142,12 @@ export function getProviderDefaultModelId(
 			return qwenCodeDefaultModelId
 		case "vercel-ai-gateway":
 			return vercelAiGatewayDefaultModelId
+		case "failover":
+			return "" // Failover profiles use the models of their profiles
 		case "anthropic":
 		case "gemini-cli":
 		case "fake-ai":
+		case "replay":
 		default:
 			return anthropicDefaultModelId
 	}
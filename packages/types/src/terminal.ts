@@ -1,5 +1,40 @@
 import { z } from "zod"
 
+/**
+ * TestRunSummary
+ *
+ * Structured result of a test run, parsed from the output of a recognised
+ * test command (or the JUnit XML report it wrote) by `execute_command`.
+ */
+
+export const testFrameworks = ["vitest", "jest", "mocha", "pytest", "go", "cargo", "junit"] as const
+
+export const testFrameworkSchema = z.enum(testFrameworks)
+
+export type TestFramework = z.infer<typeof testFrameworkSchema>
+
+export const testFailureSchema = z.object({
+	/** Full test name, e.g. `src/math.spec.ts > add > handles negatives` */
+	name: z.string(),
+	file: z.string().optional(),
+	line: z.number().optional(),
+	/** First line of the assertion or error message */
+	message: z.string().optional(),
+})
+
+export type TestFailure = z.infer<typeof testFailureSchema>
+
+export const testRunSummarySchema = z.object({
+	framework: testFrameworkSchema,
+	passed: z.number(),
+	failed: z.number(),
+	skipped: z.number(),
+	durationMs: z.number().optional(),
+	failures: z.array(testFailureSchema),
+})
+
+export type TestRunSummary = z.infer<typeof testRunSummarySchema>
+
 /**
  * CommandExecutionStatus
  */
@@ -29,6 +64,11 @@ export const commandExecutionStatusSchema = z.discriminatedUnion("status", [
 		executionId: z.string(),
 		status: z.literal("timeout"),
 	}),
+	z.object({
+		executionId: z.string(),
+		status: z.literal("testResults"),
+		summary: testRunSummarySchema,
+	}),
 ])
 
 export type CommandExecutionStatus = z.infer<typeof commandExecutionStatusSchema>
@@ -18,6 +18,10 @@ export const toolNames = [
 	"execute_command",
 	"read_file",
 	"read_command_output",
+	"start_process",
+	"list_processes",
+	"wait_for_process",
+	"stop_process",
 	"write_to_file",
 	"apply_diff",
 	"search_and_replace",
@@ -35,11 +39,14 @@ export const toolNames = [
 	"new_task",
 	"fetch_instructions",
 	"codebase_search",
+	"find_references",
+	"find_callers",
+	"show_import_graph",
 	"update_todo_list",
 	"run_slash_command",
 	"generate_image",
 	"custom_tool",
-	// Roopik IDE Tools - Browser (14)
+	// Roopik IDE Tools - Browser (23)
 	"browser_open",
 	"browser_close",
 	"browser_action_input",
@@ -48,12 +55,21 @@ export const toolNames = [
 	"browser_screenshot",
 	"browser_execute_script",
 	"browser_inspect_element",
+	"browser_audit_accessibility",
 	"browser_get_errors",
 	"browser_get_console_logs",
 	"browser_get_performance",
+	"browser_check_performance_budget",
 	"browser_get_state",
 	"browser_set_viewport",
 	"browser_get_network_requests",
+	"browser_add_network_mock",
+	"browser_remove_network_mock",
+	"browser_list_network_mocks",
+	"browser_save_visual_baseline",
+	"browser_compare_visual_baseline",
+	"browser_record_script",
+	"browser_replay_script",
 	// Roopik IDE Tools - Project (3)
 	"project_get_active",
 	"project_start",
@@ -63,13 +79,14 @@ export const toolNames = [
 	"canvas_get_active",
 	"canvas_create",
 	"canvas_open",
-	// Roopik IDE Tools - Component (7)
+	// Roopik IDE Tools - Component (8)
 	"component_add",
 	"component_add_batch",
 	"component_remove",
 	"component_get_info",
 	"component_list",
 	"component_rebuild",
+	"component_review_variants",
 	"canvas_validate_components",
 ] as const
 
@@ -21,6 +21,7 @@ import type { McpServer } from "./mcp.js"
 import type { ModelRecord, RouterModels } from "./model.js"
 import type { OpenAiCodexRateLimitInfo } from "./providers/openai-codex-rate-limits.js"
 import type { WorktreeIncludeStatus } from "./worktree.js"
+import type { SpendSummary } from "./budget.js"
 
 /**
  * ExtensionMessage
@@ -40,6 +41,8 @@ export interface ExtensionMessage {
 		| "mcpServers"
 		| "enhancedPrompt"
 		| "commitSearchResults"
+		| "branchSearchResults"
+		| "symbolSearchResults"
 		| "listApiConfig"
 		| "routerModels"
 		| "openAiModels"
@@ -59,6 +62,8 @@ export interface ExtensionMessage {
 		| "deleteCustomModeCheck"
 		| "currentCheckpointUpdated"
 		| "checkpointInitWarning"
+		| "checkpointTimeline"
+		| "checkpointRestoreFiles"
 		| "browserToolEnabled"
 		| "browserConnectionResult"
 		| "remoteBrowserEnabled"
@@ -99,6 +104,7 @@ export interface ExtensionMessage {
 		| "modes"
 		| "taskWithAggregatedCosts"
 		| "openAiCodexRateLimits"
+		| "spendSummary"
 		// Worktree response types
 		| "worktreeList"
 		| "worktreeResult"
@@ -114,6 +120,8 @@ export interface ExtensionMessage {
 		type: "WAIT_TIMEOUT" | "INIT_TIMEOUT"
 		timeout: number
 	}
+	checkpointTimeline?: CheckpointTimeline
+	checkpointRestoreFiles?: CheckpointRestoreFile[]
 	action?:
 		| "chatButtonClicked"
 		| "settingsButtonClicked"
@@ -162,6 +170,8 @@ export interface ExtensionMessage {
 	}>
 	mcpServers?: McpServer[]
 	commits?: GitCommit[]
+	branches?: string[]
+	symbols?: { name: string; containerName?: string; kind: string; path: string; line: number }[]
 	listApiConfig?: ProviderSettingsEntry[]
 	mode?: string
 	customMode?: ModeConfig
@@ -208,6 +218,7 @@ export interface ExtensionMessage {
 		ownCost: number
 		childrenCost: number
 	}
+	spendSummary?: SpendSummary // For spendSummary
 	historyItem?: HistoryItem
 	taskHistory?: HistoryItem[] // For taskHistoryUpdated: full sorted task history
 	/** For taskHistoryItemUpdated: single updated/added history item */
@@ -292,6 +303,7 @@ export type ExtensionState = Pick<
 	| "deniedCommands"
 	| "allowedMaxRequests"
 	| "allowedMaxCost"
+	| "spendingBudgets"
 	| "browserToolEnabled"
 	| "browserViewportSize"
 	| "screenshotQuality"
@@ -318,6 +330,7 @@ export type ExtensionState = Pick<
 	| "customModePrompts"
 	| "customSupportPrompts"
 	| "enhancementApiConfigId"
+	| "modelRouting"
 	| "customCondensingPrompt"
 	| "codebaseIndexConfig"
 	| "codebaseIndexModels"
@@ -504,6 +517,8 @@ export interface WebviewMessage {
 		| "remoteControlEnabled"
 		| "taskSyncEnabled"
 		| "searchCommits"
+		| "searchBranches"
+		| "searchSymbols"
 		| "setApiConfigPassword"
 		| "mode"
 		| "updatePrompt"
@@ -518,6 +533,10 @@ export interface WebviewMessage {
 		| "openCustomModesSettings"
 		| "checkpointDiff"
 		| "checkpointRestore"
+		| "checkpointLabel"
+		| "checkpointCherryPick"
+		| "requestCheckpointTimeline"
+		| "requestCheckpointRestoreFiles"
 		| "deleteMcpServer"
 		| "codebaseIndexEnabled"
 		| "telemetrySetting"
@@ -587,6 +606,7 @@ export interface WebviewMessage {
 		| "openDebugUiHistory"
 		| "downloadErrorDiagnostics"
 		| "requestOpenAiCodexRateLimits"
+		| "requestSpendSummary"
 		| "refreshCustomTools"
 		| "requestModes"
 		| "switchMode"
@@ -643,6 +663,7 @@ export interface WebviewMessage {
 	terminalOperation?: "continue" | "abort"
 	messageTs?: number
 	restoreCheckpoint?: boolean
+	restorePaths?: string[] // For deleteMessageConfirm/editMessageConfirm: restore only these files
 	historyPreviewCollapsed?: boolean
 	filters?: { type?: string; search?: string; tags?: string[] }
 	// eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -662,6 +683,7 @@ export interface WebviewMessage {
 	codeIndexSettings?: {
 		// Global state settings
 		codebaseIndexEnabled: boolean
+		codebaseIndexVectorStoreProvider?: "qdrant" | "local"
 		codebaseIndexQdrantUrl: string
 		codebaseIndexEmbedderProvider:
 			| "openai"
@@ -680,6 +702,8 @@ export interface WebviewMessage {
 		codebaseIndexBedrockProfile?: string
 		codebaseIndexSearchMaxResults?: number
 		codebaseIndexSearchMinScore?: number
+		codebaseIndexSearchMode?: "vector" | "hybrid"
+		codebaseIndexSearchRerank?: boolean
 		codebaseIndexOpenRouterSpecificProvider?: string // OpenRouter provider routing
 
 		// Secret settings
@@ -710,7 +734,7 @@ export const checkoutDiffPayloadSchema = z.object({
 	ts: z.number().optional(),
 	previousCommitHash: z.string().optional(),
 	commitHash: z.string(),
-	mode: z.enum(["full", "checkpoint", "from-init", "to-current"]),
+	mode: z.enum(["full", "checkpoint", "from-init", "to-current", "range"]),
 })
 
 export type CheckpointDiffPayload = z.infer<typeof checkoutDiffPayloadSchema>
@@ -723,6 +747,59 @@ export const checkoutRestorePayloadSchema = z.object({
 
 export type CheckpointRestorePayload = z.infer<typeof checkoutRestorePayloadSchema>
 
+export const checkpointLabelPayloadSchema = z.object({
+	commitHash: z.string(),
+	label: z.string().max(100),
+})
+
+export type CheckpointLabelPayload = z.infer<typeof checkpointLabelPayloadSchema>
+
+export const checkpointCherryPickPayloadSchema = z.object({
+	fromHash: z.string(),
+	toHash: z.string(),
+})
+
+export type CheckpointCherryPickPayload = z.infer<typeof checkpointCherryPickPayloadSchema>
+
+/**
+ * A line of checkpoints. Line 0 runs from the task start to the current checkpoint;
+ * the others were abandoned by restoring an earlier checkpoint and continuing.
+ */
+export interface CheckpointTimelineLine {
+	id: number
+	isCurrent: boolean
+	tipHash: string
+	/** Checkpoint on an earlier line this one branched off */
+	forkHash?: string
+	/** Oldest first */
+	hashes: string[]
+}
+
+export interface CheckpointTimelineNode {
+	hash: string
+	parentHash?: string
+	timestamp: number
+	label?: string
+	line: number
+	isBase: boolean
+	isHead: boolean
+}
+
+export interface CheckpointTimeline {
+	baseHash: string
+	headHash: string
+	lines: CheckpointTimelineLine[]
+	nodes: CheckpointTimelineNode[]
+}
+
+/** A file that restoring a checkpoint would change in the current workspace */
+export interface CheckpointRestoreFile {
+	/** Workspace-relative */
+	path: string
+	/** What happened to the file since the checkpoint */
+	change: "added" | "modified" | "deleted"
+}
+
 export interface IndexingStatusPayload {
 	state: "Standby" | "Indexing" | "Indexed" | "Error"
 	message: string
@@ -745,6 +822,8 @@ export type InstallMarketplaceItemWithParametersPayload = z.infer<
 export type WebViewMessagePayload =
 	| CheckpointDiffPayload
 	| CheckpointRestorePayload
+	| CheckpointLabelPayload
+	| CheckpointCherryPickPayload
 	| IndexingStatusPayload
 	| IndexClearedPayload
 	| InstallMarketplaceItemWithParametersPayload
@@ -778,8 +857,15 @@ export interface ClineSayTool {
 		| "appliedDiff"
 		| "newFileCreated"
 		| "codebaseSearch"
+		| "findReferences"
+		| "findCallers"
+		| "showImportGraph"
 		| "readFile"
 		| "readCommandOutput"
+		| "startProcess"
+		| "listProcesses"
+		| "waitForProcess"
+		| "stopProcess"
 		| "fetchInstructions"
 		| "listFilesTopLevel"
 		| "listFilesRecursive"
@@ -800,10 +886,19 @@ export interface ClineSayTool {
 		| "browser_screenshot"
 		| "browser_execute_script"
 		| "browser_inspect_element"
+		| "browser_audit_accessibility"
+		| "browser_add_network_mock"
+		| "browser_remove_network_mock"
+		| "browser_list_network_mocks"
 		| "browser_get_errors"
 		| "browser_get_console_logs"
 		| "browser_get_performance"
+		| "browser_check_performance_budget"
 		| "browser_get_cdp_info"
+		| "browser_save_visual_baseline"
+		| "browser_compare_visual_baseline"
+		| "browser_record_script"
+		| "browser_replay_script"
 		// Roopik IDE Tools - Project (3)
 		| "project_get_active"
 		| "project_start"
@@ -812,13 +907,14 @@ export interface ClineSayTool {
 		| "canvas_list"
 		| "canvas_get_active"
 		| "canvas_create"
-		// Roopik IDE Tools - Component (6)
+		// Roopik IDE Tools - Component (7)
 		| "component_add"
 		| "component_add_batch"
 		| "component_remove"
 		| "component_get_info"
 		| "component_list"
 		| "component_rebuild"
+		| "component_review_variants"
 	path?: string
 	// For readCommandOutput
 	readStart?: number
@@ -839,6 +935,10 @@ export interface ClineSayTool {
 	additionalFileCount?: number // Number of additional files in the same read_file request
 	lineNumber?: number
 	query?: string
+	// For findReferences and findCallers
+	symbol?: string
+	// For startProcess, waitForProcess and stopProcess
+	processName?: string
 	batchFiles?: Array<{
 		path: string
 		lineSnippet: string
@@ -870,11 +970,15 @@ export interface ClineSayTool {
 	selector?: string // browser_inspect_element
 	action?: string // browser_action_input
 	coordinate?: string // browser_action_input
-	componentId?: string // component_remove, component_get_info, component_list, component_rebuild
+	componentId?: string // component_remove, component_get_info, component_list, component_rebuild, component_review_variants
 	canvasId?: string // canvas tools, component_list
 	projectPath?: string // project_start
 	name?: string // canvas_create, component_add
 	text?: string // browser_action_input text input
+	urlPattern?: string // browser_add_network_mock
+	method?: string // browser_add_network_mock
+	status?: string // browser_add_network_mock
+	id?: string // browser_remove_network_mock
 }
 
 // Must keep in sync with system prompt.
@@ -929,6 +1033,12 @@ export interface ClineApiReqInfo {
 	cancelReason?: ClineApiReqCancelReason
 	streamingFailedMessage?: string
 	apiProtocol?: "anthropic" | "openai"
+	// Set when a failover profile routed the request to one of its profiles.
+	servedBy?: {
+		profileName: string
+		provider?: ProviderSettings["apiProvider"]
+		modelId: string
+	}
 }
 
 export type ClineApiReqCancelReason = "streaming_failed" | "user_cancelled"
@@ -48,6 +48,8 @@ export const commandIds = [
 	"acceptInput",
 	"focusPanel",
 	"toggleAutoApprove",
+
+	"replayBrowserScript",
 ] as const
 
 export type CommandId = (typeof commandIds)[number]
@@ -46,6 +46,7 @@ describe("ClineProvider.delegateParentAndOpenChild()", () => {
 			getTaskWithId,
 			updateTaskHistory,
 			handleModeSwitch,
+			getState: vi.fn().mockResolvedValue({}),
 			log: vi.fn(),
 		} as unknown as ClineProvider
 
@@ -89,4 +90,46 @@ describe("ClineProvider.delegateParentAndOpenChild()", () => {
 		// Mode switch
 		expect(handleModeSwitch).toHaveBeenCalledWith("code")
 	})
+
+	it("runs the child on the subtask profile without activating it", async () => {
+		const parentTask = { taskId: "parent-1", emit: vi.fn() } as any
+		const createTask = vi.fn().mockResolvedValue({ taskId: "child-1" })
+		const activateProviderProfile = vi.fn()
+		const getProfile = vi.fn().mockResolvedValue({
+			id: "cheap-id",
+			name: "Cheap",
+			apiProvider: "openrouter",
+			openRouterModelId: "small-model",
+		})
+
+		const provider = {
+			emit: vi.fn(),
+			getCurrentTask: vi.fn(() => parentTask),
+			removeClineFromStack: vi.fn().mockResolvedValue(undefined),
+			createTask,
+			getTaskWithId: vi.fn().mockResolvedValue({ historyItem: { id: "parent-1", childIds: [] } }),
+			updateTaskHistory: vi.fn(),
+			handleModeSwitch: vi.fn().mockResolvedValue(undefined),
+			getState: vi.fn().mockResolvedValue({ modelRouting: { subtask: "cheap-id" } }),
+			providerSettingsManager: { getProfile },
+			activateProviderProfile,
+			log: vi.fn(),
+		} as unknown as ClineProvider
+
+		await (ClineProvider.prototype as any).delegateParentAndOpenChild.call(provider, {
+			parentTaskId: "parent-1",
+			message: "Do something",
+			initialTodos: [],
+			mode: "code",
+		})
+
+		expect(getProfile).toHaveBeenCalledWith({ id: "cheap-id" })
+		expect(createTask).toHaveBeenCalledWith("Do something", undefined, parentTask, {
+			initialTodos: [],
+			initialStatus: "active",
+			apiConfiguration: { id: "cheap-id", apiProvider: "openrouter", openRouterModelId: "small-model" },
+			apiConfigName: "Cheap",
+		})
+		expect(activateProviderProfile).not.toHaveBeenCalled()
+	})
 })
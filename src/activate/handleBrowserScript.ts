@@ -0,0 +1,109 @@
+import * as vscode from "vscode"
+
+import { roopikClient, BrowserScriptStore, BrowserScriptRunner } from "../services/roopik"
+import type { BrowserScriptAssertionResult, BrowserScriptReplayReport } from "../services/roopik"
+import { getWorkspacePath } from "../utils/path"
+import { t } from "../i18n"
+
+export const handleReplayBrowserScript = async (
+	outputChannel: vscode.OutputChannel,
+	params?: { name?: string; stopOnFailure?: boolean },
+) => {
+	const cwd = getWorkspacePath()
+	if (!cwd) {
+		vscode.window.showErrorMessage(t("common:browserScripts.no_workspace"))
+		return
+	}
+
+	if (!(await roopikClient.isAvailable())) {
+		vscode.window.showErrorMessage(t("common:browserScripts.roopik_unavailable"))
+		return
+	}
+
+	const store = new BrowserScriptStore(cwd)
+	let name = params?.name
+
+	if (!name) {
+		const scripts = await store.listScripts()
+		if (scripts.length === 0) {
+			vscode.window.showInformationMessage(t("common:browserScripts.no_scripts", { directory: store.directory }))
+			return
+		}
+		name = await vscode.window.showQuickPick(scripts, { placeHolder: t("common:browserScripts.select_script") })
+	}
+
+	if (!name) {
+		return
+	}
+
+	let script
+	try {
+		script = await store.loadScript(name)
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error)
+		vscode.window.showErrorMessage(t("common:browserScripts.load_failed", { name, error: message }))
+		return
+	}
+
+	if (!script) {
+		vscode.window.showErrorMessage(t("common:browserScripts.not_found", { name }))
+		return
+	}
+
+	outputChannel.appendLine(`[BrowserScript] Replaying '${script.name}' (${script.steps.length} steps)`)
+
+	const report = await vscode.window.withProgress(
+		{
+			location: vscode.ProgressLocation.Notification,
+			title: t("common:browserScripts.replaying", { name: script.name }),
+		},
+		(progress) =>
+			new BrowserScriptRunner(roopikClient).replay(script, {
+				stopOnFailure: params?.stopOnFailure ?? true,
+				onStepComplete: (result) => {
+					outputChannel.appendLine(formatStepLine(result.index, result.tool, result.passed, result.error))
+					logAssertionFailures(outputChannel, result.assertions)
+					progress.report({ increment: 100 / Math.max(script.steps.length, 1) })
+				},
+			}),
+	)
+
+	logReport(outputChannel, report)
+
+	if (report.passed) {
+		vscode.window.showInformationMessage(
+			t("common:browserScripts.passed", { name: report.name, steps: report.stepsRun }),
+		)
+	} else {
+		outputChannel.show(true)
+		vscode.window.showErrorMessage(
+			t("common:browserScripts.failed", {
+				name: report.name,
+				step: report.failedStep !== undefined ? report.failedStep + 1 : 0,
+			}),
+		)
+	}
+}
+
+function formatStepLine(index: number, tool: string, passed: boolean, error?: string): string {
+	return `  ${passed ? "✓" : "✗"} step ${index + 1}: ${tool}${error ? ` — ${error}` : ""}`
+}
+
+function logAssertionFailures(outputChannel: vscode.OutputChannel, assertions: BrowserScriptAssertionResult[]) {
+	for (const result of assertions) {
+		if (!result.passed) {
+			outputChannel.appendLine(`      ${result.assertion.type}: ${result.message ?? "failed"}`)
+		}
+	}
+}
+
+function logReport(outputChannel: vscode.OutputChannel, report: BrowserScriptReplayReport) {
+	if (report.initialAssertions.some((result) => !result.passed)) {
+		outputChannel.appendLine("  ✗ initial assertions")
+		logAssertionFailures(outputChannel, report.initialAssertions)
+	}
+	outputChannel.appendLine(
+		`[BrowserScript] '${report.name}' ${report.passed ? "passed" : "failed"}: ` +
+			`${report.stepsRun}/${report.totalSteps} steps run in ${report.durationMs}ms`,
+	)
+}
@@ -10,6 +10,7 @@ import { ClineProvider } from "../core/webview/ClineProvider"
 import { ContextProxy } from "../core/config/ContextProxy"
 import { focusPanel } from "../utils/focusPanel"
 import { handleNewTask } from "./handleTask"
+import { handleReplayBrowserScript } from "./handleBrowserScript"
 import { CodeIndexManager } from "../services/code-index/manager"
 import { importSettingsWithFeedback } from "../core/config/importExport"
 import { MdmService } from "../services/mdm/MdmService"
@@ -195,6 +196,9 @@ const getCommandsMap = ({ context, outputChannel, provider }: RegisterCommandOpt
 			action: "toggleAutoApprove",
 		})
 	},
+	replayBrowserScript: async (params?: { name?: string; stopOnFailure?: boolean }) => {
+		await handleReplayBrowserScript(outputChannel, params)
+	},
 	externalContext: async (options?: { promptText?: string; autoSend?: boolean; images?: string[] }) => {
 		const promptText = options?.promptText?.trim() || ""
 
@@ -1,7 +1,7 @@
 import { Anthropic } from "@anthropic-ai/sdk"
 import OpenAI from "openai"
 
-import type { ProviderSettings, ModelInfo } from "@roo-code/types"
+import type { ProviderSettings, ModelInfo, ClineApiReqInfo } from "@roo-code/types"
 
 import { ApiStream } from "./transform/stream"
 
@@ -41,6 +41,9 @@ import {
 	DeepInfraHandler,
 	MiniMaxHandler,
 	BasetenHandler,
+	FailoverHandler,
+	RecordingHandler,
+	ReplayHandler,
 } from "./providers"
 import { NativeOllamaHandler } from "./providers/native-ollama"
 
@@ -48,6 +51,18 @@ export interface SingleCompletionHandler {
 	completePrompt(prompt: string): Promise<string>
 }
 
+/**
+ * Implemented by handlers that pick the profile serving each request, such as
+ * failover profiles, and by wrappers that forward to them.
+ */
+export interface ActiveProfileHandler {
+	getActiveProfile(): ClineApiReqInfo["servedBy"]
+}
+
+export function hasActiveProfile(handler: ApiHandler): handler is ApiHandler & ActiveProfileHandler {
+	return "getActiveProfile" in handler
+}
+
 export interface ApiHandlerCreateMessageMetadata {
 	/**
 	 * Task ID used for tracking and provider-specific features:
@@ -120,6 +135,13 @@ export interface ApiHandler {
 }
 
 export function buildApiHandler(configuration: ProviderSettings): ApiHandler {
+	const handler = buildProviderHandler(configuration)
+	const { cassetteRecordingDirectory } = configuration
+
+	return cassetteRecordingDirectory ? new RecordingHandler(handler, cassetteRecordingDirectory) : handler
+}
+
+function buildProviderHandler(configuration: ProviderSettings): ApiHandler {
 	const { apiProvider, ...options } = configuration
 
 	switch (apiProvider) {
@@ -163,6 +185,8 @@ export function buildApiHandler(configuration: ProviderSettings): ApiHandler {
 			return new RequestyHandler(options)
 		case "fake-ai":
 			return new FakeAIHandler(options)
+		case "replay":
+			return new ReplayHandler(options)
 		case "xai":
 			return new XAIHandler(options)
 		case "groq":
@@ -197,6 +221,8 @@ export function buildApiHandler(configuration: ProviderSettings): ApiHandler {
 			return new MiniMaxHandler(options)
 		case "baseten":
 			return new BasetenHandler(options)
+		case "failover":
+			return new FailoverHandler(options, buildApiHandler)
 		default:
 			return new AnthropicHandler(options)
 	}
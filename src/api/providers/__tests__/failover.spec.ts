@@ -0,0 +1,133 @@
+// npx vitest run api/providers/__tests__/failover.spec.ts
+
+import type { ProviderSettings } from "@roo-code/types"
+
+import type { ApiHandler } from "../../index"
+import type { ApiStreamChunk } from "../../transform/stream"
+import { FailoverHandler, type FailoverProfile, getFailoverErrorClass, setFailoverProfileResolver } from "../failover"
+
+const profiles: Record<string, FailoverProfile> = {
+	primary: { id: "primary", name: "Primary", apiProvider: "anthropic", apiModelId: "claude-sonnet-4-5" },
+	backup: { id: "backup", name: "Backup", apiProvider: "openrouter", openRouterModelId: "openai/gpt-5" },
+	chain: { id: "chain", name: "Chain", apiProvider: "failover", failoverProfileIds: ["primary"] },
+}
+
+const httpError = (status: number) => Object.assign(new Error(`HTTP ${status}`), { status })
+
+describe("FailoverHandler", () => {
+	// Errors each profile's next request throws, by profile ID.
+	let failures: Record<string, unknown[]>
+	let buildHandler: ReturnType<typeof vi.fn>
+
+	const createHandler = (options: Partial<ProviderSettings> = {}) =>
+		new FailoverHandler({ failoverProfileIds: ["primary", "backup"], ...options }, buildHandler)
+
+	const collect = async (handler: FailoverHandler) => {
+		const chunks: ApiStreamChunk[] = []
+		for await (const chunk of handler.createMessage("system", [{ role: "user", content: "hi" }])) {
+			chunks.push(chunk)
+		}
+		return chunks
+	}
+
+	beforeEach(() => {
+		failures = { primary: [], backup: [] }
+		setFailoverProfileResolver((id) => profiles[id])
+
+		buildHandler = vi.fn(
+			(settings: ProviderSettings & { id: string }): ApiHandler => ({
+				async *createMessage() {
+					const error = failures[settings.id].shift()
+					if (error) {
+						throw error
+					}
+					yield { type: "text", text: `from ${settings.id}` }
+				},
+				getModel: () => ({
+					id: `${settings.id}-model`,
+					info: { contextWindow: 1000, supportsPromptCache: false },
+				}),
+				countTokens: async () => 0,
+			}),
+		)
+	})
+
+	afterEach(() => {
+		vi.useRealTimers()
+	})
+
+	it("switches to the next profile on a configured error", async () => {
+		failures.primary.push(httpError(429))
+		const handler = createHandler()
+
+		await expect(collect(handler)).resolves.toEqual([{ type: "text", text: "from backup" }])
+
+		expect(handler.getActiveProfile()).toEqual({
+			profileName: "Backup",
+			provider: "openrouter",
+			modelId: "openai/gpt-5",
+		})
+		expect(handler.getModel().id).toBe("backup-model")
+	})
+
+	it("does not fail over on errors outside the configured classes", async () => {
+		failures.primary.push(httpError(429))
+		const handler = createHandler({ failoverErrorClasses: ["server_error"] })
+
+		await expect(collect(handler)).rejects.toThrow("HTTP 429")
+
+		failures.primary.push(httpError(401))
+		await expect(collect(handler)).rejects.toThrow("HTTP 401")
+	})
+
+	it("throws the last profile's error when every profile fails", async () => {
+		failures.primary.push(httpError(503))
+		failures.backup.push(httpError(500))
+
+		await expect(collect(createHandler())).rejects.toThrow("HTTP 500")
+	})
+
+	it("returns to the primary profile after the cooldown", async () => {
+		vi.useFakeTimers()
+		failures.primary.push(httpError(503))
+		const handler = createHandler({ failoverCooldownSeconds: 60 })
+
+		await collect(handler)
+		await expect(collect(handler)).resolves.toEqual([{ type: "text", text: "from backup" }])
+
+		vi.advanceTimersByTime(60_000)
+
+		await expect(collect(handler)).resolves.toEqual([{ type: "text", text: "from primary" }])
+		expect(handler.getActiveProfile()?.profileName).toBe("Primary")
+	})
+
+	it("skips deleted and nested failover profiles", async () => {
+		const handler = createHandler({ failoverProfileIds: ["deleted", "chain", "backup"] })
+
+		await expect(collect(handler)).resolves.toEqual([{ type: "text", text: "from backup" }])
+		expect(buildHandler).toHaveBeenCalledTimes(1)
+	})
+
+	it("fails when no profile can serve requests", async () => {
+		const handler = createHandler({ failoverProfileIds: [] })
+
+		await expect(collect(handler)).rejects.toThrow("The failover profile has no profiles")
+		expect(handler.getActiveProfile()).toBeUndefined()
+	})
+})
+
+describe("getFailoverErrorClass", () => {
+	it("classifies rate limits, server errors and connection failures", () => {
+		expect(getFailoverErrorClass(httpError(429))).toBe("rate_limit")
+		expect(getFailoverErrorClass({ $metadata: { httpStatusCode: 503 } })).toBe("server_error")
+		expect(getFailoverErrorClass(new Error("Overloaded"))).toBe("server_error")
+		expect(getFailoverErrorClass(Object.assign(new Error("reset"), { code: "ECONNRESET" }))).toBe("connection")
+		expect(getFailoverErrorClass(new TypeError("fetch failed"))).toBe("connection")
+	})
+
+	it("leaves errors that another profile wouldn't fix unclassified", () => {
+		expect(getFailoverErrorClass(httpError(400))).toBeUndefined()
+		expect(getFailoverErrorClass(httpError(401))).toBeUndefined()
+		expect(getFailoverErrorClass("failed")).toBeUndefined()
+	})
+})
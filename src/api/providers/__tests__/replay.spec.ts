@@ -0,0 +1,138 @@
+// npx vitest run api/providers/__tests__/replay.spec.ts
+
+import * as fs from "fs/promises"
+import * as os from "os"
+import * as path from "path"
+import { Anthropic } from "@anthropic-ai/sdk"
+
+import type { ApiHandler } from "../../index"
+import type { ApiStreamChunk } from "../../transform/stream"
+import { RecordingHandler } from "../recording"
+import { ReplayHandler } from "../replay"
+import { createCassetteRequest, hashCassetteRequest } from "../utils/cassette"
+
+const model = { id: "recorded-model", info: { contextWindow: 1000, supportsPromptCache: false } }
+
+const userMessage = (text: string): Anthropic.Messages.MessageParam => ({
+	role: "user",
+	content: [{ type: "text", text }],
+})
+
+const collect = async (handler: ApiHandler, messages: Anthropic.Messages.MessageParam[], taskId = "task-1") => {
+	const chunks: ApiStreamChunk[] = []
+	for await (const chunk of handler.createMessage("system", messages, { taskId, mode: "code" })) {
+		chunks.push(chunk)
+	}
+	return chunks
+}
+
+describe("API cassettes", () => {
+	let directory: string
+	// Responses the recorded provider streams, in order.
+	let responses: (ApiStreamChunk[] | Error)[]
+	let provider: ApiHandler
+
+	beforeEach(async () => {
+		directory = await fs.mkdtemp(path.join(os.tmpdir(), "cassettes-"))
+		responses = []
+
+		provider = {
+			async *createMessage() {
+				const response = responses.shift()
+				if (response instanceof Error) {
+					yield { type: "text", text: "partial" }
+					throw response
+				}
+				yield* response ?? []
+			},
+			getModel: () => model,
+			countTokens: async () => 0,
+		}
+	})
+
+	afterEach(async () => {
+		await fs.rm(directory, { recursive: true, force: true })
+	})
+
+	it("replays recorded responses in order", async () => {
+		responses.push(
+			[{ type: "text", text: "first" }],
+			[
+				{ type: "text", text: "second" },
+				{ type: "usage", inputTokens: 10, outputTokens: 5 },
+			],
+		)
+		const recorder = new RecordingHandler(provider, directory)
+		await collect(recorder, [userMessage("Fix the bug")])
+		await collect(recorder, [userMessage("Fix the bug")])
+
+		const replay = new ReplayHandler({ replayCassettePath: path.join(directory, "task-1.json") })
+
+		await expect(collect(replay, [userMessage("Fix the bug")], "task-2")).resolves.toEqual([
+			{ type: "text", text: "first" },
+		])
+		await expect(collect(replay, [userMessage("Fix the bug")])).resolves.toEqual([
+			{ type: "text", text: "second" },
+			{ type: "usage", inputTokens: 10, outputTokens: 5 },
+		])
+		await expect(collect(replay, [userMessage("Fix the bug")])).rejects.toThrow(
+			/All 2 recorded responses to request \w+ have been replayed/,
+		)
+		expect(replay.getModel()).toEqual(model)
+	})
+
+	it("replays provider errors with their status", async () => {
+		responses.push(Object.assign(new Error("Rate limited"), { status: 429 }))
+		await expect(collect(new RecordingHandler(provider, directory), [userMessage("Hi")])).rejects.toThrow()
+
+		const replay = new ReplayHandler({ replayCassettePath: directory })
+		const stream = replay.createMessage("system", [userMessage("Hi")], { taskId: "task-2", mode: "code" })
+
+		await expect(stream.next()).resolves.toMatchObject({ value: { type: "text", text: "partial" } })
+		await expect(stream.next()).rejects.toMatchObject({ message: "Rate limited", status: 429 })
+	})
+
+	it("fails with a clear error for requests that weren't recorded", async () => {
+		responses.push([{ type: "text", text: "ok" }])
+		await collect(new RecordingHandler(provider, directory), [userMessage("Fix the bug")])
+
+		const replay = new ReplayHandler({ replayCassettePath: directory })
+
+		await expect(collect(replay, [userMessage("Write the docs")])).rejects.toThrow(
+			"No recorded response matches request",
+		)
+		await expect(collect(replay, [userMessage("Write the docs")])).rejects.toThrow(
+			'the last message is a user message starting with [{"type":"text","text":"Write the docs"}]',
+		)
+	})
+
+	it("reports the profile serving requests of a failover handler it records", () => {
+		const servedBy = { profileName: "Backup", provider: "anthropic", modelId: "claude" }
+
+		const failover = { ...provider, getActiveProfile: () => servedBy }
+
+		expect(new RecordingHandler(provider, directory).getActiveProfile()).toBeUndefined()
+		expect(new RecordingHandler(failover, directory).getActiveProfile()).toBe(servedBy)
+	})
+
+	it("matches requests regardless of environment details and IDs", () => {
+		const hash = (messages: Anthropic.Messages.MessageParam[], mode = "code") =>
+			hashCassetteRequest(createCassetteRequest(messages, { taskId: "task", mode }))
+		const environmentDetails = (time: string) =>
+			`<environment_details>\n# Current Time\n${time}\n</environment_details>`
+		const toolCall = (time: string, id: string) =>
+			hash([
+				{ role: "assistant", content: [{ type: "tool_use", id, name: "read_file", input: {} }] },
+				{
+					role: "user",
+					content: [
+						{ type: "tool_result", tool_use_id: id, content: "contents" },
+						{ type: "text", text: environmentDetails(time) },
+					],
+				},
+			])
+
+		expect(toolCall("2026-01-01T10:00:00Z", "toolu_1")).toBe(toolCall("2026-10-19T12:30:00Z", "toolu_2"))
+		expect(hash([userMessage("a")])).not.toBe(hash([userMessage("a")], "architect"))
+	})
+})
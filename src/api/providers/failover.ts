@@ -0,0 +1,241 @@
+import { Anthropic } from "@anthropic-ai/sdk"
+import deepEqual from "fast-deep-equal"
+
+import {
+	type ClineApiReqInfo,
+	type FailoverErrorClass,
+	type ModelInfo,
+	type ProviderSettings,
+	type ProviderSettingsWithId,
+	DEFAULT_FAILOVER_COOLDOWN_SECONDS,
+	failoverErrorClasses,
+	getModelId,
+	isMetaProvider,
+	openAiModelInfoSaneDefaults,
+} from "@roo-code/types"
+
+import type {
+	ApiHandler,
+	SingleCompletionHandler,
+	ActiveProfileHandler,
+	ApiHandlerCreateMessageMetadata,
+} from "../index"
+import type { ApiHandlerOptions } from "../../shared/api"
+import { ApiStream } from "../transform/stream"
+
+export type FailoverProfile = ProviderSettingsWithId & { name: string }
+
+/**
+ * Looks up a provider profile by ID. Handlers are built synchronously, so the
+ * profiles come from the settings manager's in-memory copy.
+ */
+export type FailoverProfileResolver = (id: string) => FailoverProfile | undefined
+
+let resolveProfile: FailoverProfileResolver = () => undefined
+
+export function setFailoverProfileResolver(resolver: FailoverProfileResolver) {
+	resolveProfile = resolver
+}
+
+// Error codes Node and undici use for requests that never got a response.
+const CONNECTION_ERROR_CODES = new Set([
+	"ECONNRESET",
+	"ECONNREFUSED",
+	"ECONNABORTED",
+	"ETIMEDOUT",
+	"ENOTFOUND",
+	"EAI_AGAIN",
+	"EPIPE",
+	"UND_ERR_CONNECT_TIMEOUT",
+	"UND_ERR_SOCKET",
+])
+
+/**
+ * Classify a provider error for failover, or return undefined for errors that
+ * another profile wouldn't fix (bad requests, authentication, aborts).
+ */
+export function getFailoverErrorClass(error: unknown): FailoverErrorClass | undefined {
+	if (!error || typeof error !== "object") {
+		return undefined
+	}
+
+	const anyErr = error as any
+	const status = anyErr.status ?? anyErr.statusCode ?? anyErr.response?.status ?? anyErr.$metadata?.httpStatusCode
+	const message = typeof anyErr.message === "string" ? anyErr.message.toLowerCase() : ""
+
+	if (status === 429 || anyErr.name === "ThrottlingException") {
+		return "rate_limit"
+	}
+
+	if ((typeof status === "number" && status >= 500) || message.includes("overloaded")) {
+		return "server_error"
+	}
+
+	const code = anyErr.code ?? anyErr.cause?.code
+	if (
+		(typeof code === "string" && CONNECTION_ERROR_CODES.has(code)) ||
+		anyErr.name === "APIConnectionError" ||
+		anyErr.name === "APIConnectionTimeoutError" ||
+		/fetch failed|socket hang up|network error|timed out/.test(message)
+	) {
+		return "connection"
+	}
+
+	return undefined
+}
+
+const NO_PROFILES_ERROR = "The failover profile has no profiles to send requests to. Add one in its settings."
+
+interface FailoverMember {
+	profile: FailoverProfile
+	handler: ApiHandler
+}
+
+/**
+ * Sends each request to the first profile of a failover chain that answers.
+ *
+ * When a profile fails with one of the configured error classes before it has
+ * streamed anything, the request is retried on the next profile, which then
+ * serves later requests too. After the cooldown the primary profile gets the
+ * next request again.
+ */
+export class FailoverHandler implements ApiHandler, SingleCompletionHandler, ActiveProfileHandler {
+	private readonly options: ApiHandlerOptions
+	private readonly buildHandler: (configuration: ProviderSettings) => ApiHandler
+	private readonly handlers = new Map<string, FailoverMember>()
+
+	private activeIndex = 0
+	private failedOverAt = 0
+
+	constructor(options: ApiHandlerOptions, buildHandler: (configuration: ProviderSettings) => ApiHandler) {
+		this.options = options
+		this.buildHandler = buildHandler
+	}
+
+	private get errorClasses(): readonly FailoverErrorClass[] {
+		return this.options.failoverErrorClasses ?? failoverErrorClasses
+	}
+
+	private get cooldownMs(): number {
+		return (this.options.failoverCooldownSeconds ?? DEFAULT_FAILOVER_COOLDOWN_SECONDS) * 1000
+	}
+
+	/**
+	 * The chain's profiles in priority order, skipping deleted profiles and
+	 * other failover profiles. Handlers are reused until a profile changes.
+	 */
+	private getMembers(): FailoverMember[] {
+		const members: FailoverMember[] = []
+
+		for (const id of this.options.failoverProfileIds ?? []) {
+			const profile = resolveProfile(id)
+			if (!profile || !profile.apiProvider || isMetaProvider(profile.apiProvider)) {
+				continue
+			}
+
+			let member = this.handlers.get(id)
+			if (!member || !deepEqual(member.profile, profile)) {
+				member = { profile, handler: this.buildHandler(profile) }
+				this.handlers.set(id, member)
+			}
+			members.push(member)
+		}
+
+		return members
+	}
+
+	private getActiveIndex(members: FailoverMember[]): number {
+		if (this.activeIndex > 0 && Date.now() - this.failedOverAt >= this.cooldownMs) {
+			this.activeIndex = 0
+		}
+
+		return Math.min(this.activeIndex, members.length - 1)
+	}
+
+	private getActiveMember(): FailoverMember | undefined {
+		const members = this.getMembers()
+		return members[this.getActiveIndex(members)]
+	}
+
+	private requireActiveMember(): FailoverMember {
+		const member = this.getActiveMember()
+		if (!member) {
+			throw new Error(NO_PROFILES_ERROR)
+		}
+		return member
+	}
+
+	async *createMessage(
+		systemPrompt: string,
+		messages: Anthropic.Messages.MessageParam[],
+		metadata?: ApiHandlerCreateMessageMetadata,
+	): ApiStream {
+		const members = this.getMembers()
+		if (!members.length) {
+			throw new Error(NO_PROFILES_ERROR)
+		}
+
+		let index = this.getActiveIndex(members)
+
+		while (true) {
+			const { profile, handler } = members[index]
+			let streamed = false
+
+			try {
+				for await (const chunk of handler.createMessage(systemPrompt, messages, metadata)) {
+					streamed = true
+					yield chunk
+				}
+				return
+			} catch (error) {
+				const errorClass = getFailoverErrorClass(error)
+				const next = members[index + 1]
+
+				// Once output has reached the task it can't be taken back, so the error is the task's to handle.
+				if (streamed || !next || !errorClass || !this.errorClasses.includes(errorClass)) {
+					throw error
+				}
+
+				console.warn(
+					`[FailoverHandler] Profile "${profile.name}" failed (${errorClass}), switching to "${next.profile.name}"`,
+				)
+				index++
+				this.activeIndex = index
+				this.failedOverAt = Date.now()
+			}
+		}
+	}
+
+	/**
+	 * The profile that serves requests right now, as shown on API requests.
+	 */
+	getActiveProfile(): ClineApiReqInfo["servedBy"] {
+		const member = this.getActiveMember()
+		if (!member) {
+			return undefined
+		}
+
+		return {
+			profileName: member.profile.name,
+			provider: member.profile.apiProvider,
+			modelId: getModelId(member.profile) ?? member.handler.getModel().id,
+		}
+	}
+
+	getModel(): { id: string; info: ModelInfo } {
+		return this.getActiveMember()?.handler.getModel() ?? { id: "failover", info: openAiModelInfoSaneDefaults }
+	}
+
+	countTokens(content: Array<Anthropic.Messages.ContentBlockParam>): Promise<number> {
+		return this.requireActiveMember().handler.countTokens(content)
+	}
+
+	async completePrompt(prompt: string): Promise<string> {
+		const { profile, handler } = this.requireActiveMember()
+		if (!("completePrompt" in handler)) {
+			throw new Error(`The "${profile.name}" profile does not support single completions.`)
+		}
+
+		return (handler as SingleCompletionHandler).completePrompt(prompt)
+	}
+}
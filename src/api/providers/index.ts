@@ -33,3 +33,6 @@ export { VercelAiGatewayHandler } from "./vercel-ai-gateway"
 export { DeepInfraHandler } from "./deepinfra"
 export { MiniMaxHandler } from "./minimax"
 export { BasetenHandler } from "./baseten"
+export { FailoverHandler } from "./failover"
+export { RecordingHandler } from "./recording"
+export { ReplayHandler } from "./replay"
@@ -0,0 +1,91 @@
+import { Anthropic } from "@anthropic-ai/sdk"
+
+import type { ClineApiReqInfo, ModelInfo } from "@roo-code/types"
+
+import type {
+	ApiHandler,
+	SingleCompletionHandler,
+	ActiveProfileHandler,
+	ApiHandlerCreateMessageMetadata,
+} from "../index"
+import { ApiStream, ApiStreamChunk } from "../transform/stream"
+import {
+	type CassetteInteraction,
+	appendToCassette,
+	createCassetteRequest,
+	getCassetteFilePath,
+	hashCassetteRequest,
+} from "./utils/cassette"
+
+/**
+ * Passes requests through to another handler and records each request with the
+ * chunks it streamed into the task's cassette in `directory`.
+ */
+export class RecordingHandler implements ApiHandler, SingleCompletionHandler, ActiveProfileHandler {
+	constructor(
+		private readonly handler: ApiHandler,
+		private readonly directory: string,
+	) {}
+
+	async *createMessage(
+		systemPrompt: string,
+		messages: Anthropic.Messages.MessageParam[],
+		metadata?: ApiHandlerCreateMessageMetadata,
+	): ApiStream {
+		const request = createCassetteRequest(messages, metadata)
+		const chunks: ApiStreamChunk[] = []
+		let finished = false
+		let error: CassetteInteraction["error"]
+
+		try {
+			for await (const chunk of this.handler.createMessage(systemPrompt, messages, metadata)) {
+				chunks.push(chunk)
+				yield chunk
+			}
+			finished = true
+		} catch (caught) {
+			const status = (caught as { status?: unknown })?.status
+			error = {
+				message: caught instanceof Error ? caught.message : String(caught),
+				status: typeof status === "number" ? status : undefined,
+			}
+			throw caught
+		} finally {
+			// Requests the task abandoned mid-stream aren't recorded; they can't be replayed faithfully.
+			if (finished || error) {
+				const filePath = getCassetteFilePath(this.directory, metadata?.taskId ?? "untitled")
+				await appendToCassette(filePath, {
+					hash: hashCassetteRequest(request),
+					request,
+					model: this.handler.getModel(),
+					chunks,
+					error,
+				}).catch((writeError) => console.error(`[RecordingHandler] Failed to write ${filePath}:`, writeError))
+			}
+		}
+	}
+
+	getModel(): { id: string; info: ModelInfo } {
+		return this.handler.getModel()
+	}
+
+	countTokens(content: Array<Anthropic.Messages.ContentBlockParam>): Promise<number> {
+		return this.handler.countTokens(content)
+	}
+
+	getActiveProfile(): ClineApiReqInfo["servedBy"] {
+		if (!("getActiveProfile" in this.handler)) {
+			return undefined
+		}
+
+		return (this.handler as ActiveProfileHandler).getActiveProfile()
+	}
+
+	async completePrompt(prompt: string): Promise<string> {
+		if (!("completePrompt" in this.handler)) {
+			throw new Error("The provider does not support single completions.")
+		}
+
+		return (this.handler as SingleCompletionHandler).completePrompt(prompt)
+	}
+}
@@ -0,0 +1,98 @@
+import { Anthropic } from "@anthropic-ai/sdk"
+
+import { type ModelInfo, anthropicDefaultModelId, anthropicModels } from "@roo-code/types"
+
+import type { SingleCompletionHandler, ApiHandlerCreateMessageMetadata } from "../index"
+import type { ApiHandlerOptions } from "../../shared/api"
+import { ApiStream } from "../transform/stream"
+import { BaseProvider } from "./base-provider"
+import { type CassetteInteraction, createCassetteRequest, hashCassetteRequest, readCassettes } from "./utils/cassette"
+
+/**
+ * Serves the responses recorded in cassettes instead of calling a model API.
+ *
+ * Each request gets the recorded response of the same normalized request. A
+ * request that was recorded several times gets the recordings in order, and a
+ * request that doesn't match any recording fails, since the task has taken a
+ * different path than when the cassette was recorded.
+ */
+export class ReplayHandler extends BaseProvider implements SingleCompletionHandler {
+	private readonly options: ApiHandlerOptions
+	private interactions?: CassetteInteraction[]
+	// How many recordings of each request hash have been served.
+	private readonly served = new Map<string, number>()
+
+	constructor(options: ApiHandlerOptions) {
+		super()
+		this.options = options
+	}
+
+	private getInteractions(): CassetteInteraction[] {
+		if (!this.options.replayCassettePath) {
+			throw new Error("The replay provider needs a cassette path.")
+		}
+
+		this.interactions ??= readCassettes(this.options.replayCassettePath)
+		return this.interactions
+	}
+
+	override async *createMessage(
+		_systemPrompt: string,
+		messages: Anthropic.Messages.MessageParam[],
+		metadata?: ApiHandlerCreateMessageMetadata,
+	): ApiStream {
+		const hash = hashCassetteRequest(createCassetteRequest(messages, metadata))
+		const recordings = this.getInteractions().filter((interaction) => interaction.hash === hash)
+		const servedCount = this.served.get(hash) ?? 0
+		const interaction = recordings[servedCount]
+
+		if (recordings.length && !interaction) {
+			throw new Error(`All ${recordings.length} recorded responses to request ${hash} have been replayed.`)
+		}
+
+		if (!interaction) {
+			const lastMessage = describeLastMessage(messages)
+			throw new Error(
+				`No recorded response matches request ${hash} (the last message is ${lastMessage}). ` +
+					`Record ${this.options.replayCassettePath} again if the conversation was meant to change.`,
+			)
+		}
+
+		this.served.set(hash, servedCount + 1)
+
+		for (const chunk of interaction.chunks) {
+			yield chunk
+		}
+
+		if (interaction.error) {
+			throw Object.assign(new Error(interaction.error.message), { status: interaction.error.status })
+		}
+	}
+
+	override getModel(): { id: string; info: ModelInfo } {
+		try {
+			const [first] = this.getInteractions()
+			if (first) {
+				return first.model
+			}
+		} catch {
+			// Reported when a request is made.
+		}
+
+		return { id: anthropicDefaultModelId, info: anthropicModels[anthropicDefaultModelId] }
+	}
+
+	async completePrompt(_prompt: string): Promise<string> {
+		throw new Error("Cassettes only hold streamed requests, so the replay provider can't complete prompts.")
+	}
+}
+
+function describeLastMessage(messages: Anthropic.Messages.MessageParam[]): string {
+	const last = messages.at(-1)
+	if (!last) {
+		return "missing"
+	}
+
+	const text = JSON.stringify(last.content)
+	return `a ${last.role} message starting with ${text.length > 200 ? `${text.slice(0, 200)}...` : text}`
+}
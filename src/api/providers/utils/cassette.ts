@@ -0,0 +1,149 @@
+/**
+ * API cassettes
+ *
+ * A cassette holds the requests a task sent to the model API and the chunks each
+ * one streamed back. The `cassetteRecordingDirectory` setting records one cassette
+ * per task, and the `replay` provider serves the recorded chunks again, so tests
+ * can drive the whole tool loop without network access or API spend.
+ *
+ * Requests are matched by a hash of their normalized form: the mode, the names of
+ * the offered tools and the conversation without environment details, IDs or
+ * cache hints. The system prompt is left out because it embeds the machine's
+ * paths, OS and shell.
+ */
+
+import * as crypto from "crypto"
+import * as fs from "fs"
+import * as path from "path"
+import { Anthropic } from "@anthropic-ai/sdk"
+
+import type { ModelInfo } from "@roo-code/types"
+
+import type { ApiHandlerCreateMessageMetadata } from "../../index"
+import type { ApiStreamChunk } from "../../transform/stream"
+import { safeWriteJson } from "../../../utils/safeWriteJson"
+
+export const CASSETTE_VERSION = 1
+
+export interface CassetteRequest {
+	mode?: string
+	tools: string[]
+	messages: unknown[]
+}
+
+export interface CassetteInteraction {
+	hash: string
+	request: CassetteRequest
+	model: { id: string; info: ModelInfo }
+	chunks: ApiStreamChunk[]
+	// Set when the provider failed after streaming the chunks; replay throws it again.
+	error?: { message: string; status?: number }
+}
+
+export interface Cassette {
+	version: number
+	interactions: CassetteInteraction[]
+}
+
+// Environment details change with the clock, open tabs and terminals.
+const ENVIRONMENT_DETAILS_REGEX = /<environment_details>[\s\S]*?<\/environment_details>/g
+
+// Keys that differ between runs without changing what was asked.
+const IGNORED_KEYS = new Set(["id", "tool_use_id", "ts", "cache_control", "signature"])
+
+function normalizeValue(value: unknown): unknown {
+	if (typeof value === "string") {
+		return value.replace(ENVIRONMENT_DETAILS_REGEX, "").trim()
+	}
+
+	if (Array.isArray(value)) {
+		return value.map(normalizeValue)
+	}
+
+	if (value && typeof value === "object") {
+		return Object.fromEntries(
+			Object.entries(value)
+				.filter(([key, entry]) => !IGNORED_KEYS.has(key) && entry !== undefined)
+				.sort(([a], [b]) => a.localeCompare(b))
+				.map(([key, entry]) => [key, normalizeValue(entry)]),
+		)
+	}
+
+	return value
+}
+
+export function createCassetteRequest(
+	messages: Anthropic.Messages.MessageParam[],
+	metadata?: ApiHandlerCreateMessageMetadata,
+): CassetteRequest {
+	const tools = (metadata?.tools ?? []).map((tool) =>
+		tool.type === "function" ? tool.function.name : tool.custom.name,
+	)
+
+	return {
+		mode: metadata?.mode,
+		tools: tools.sort(),
+		messages: normalizeValue(messages) as unknown[],
+	}
+}
+
+export function hashCassetteRequest(request: CassetteRequest): string {
+	return crypto.createHash("sha256").update(JSON.stringify(request)).digest("hex").slice(0, 16)
+}
+
+export function getCassetteFilePath(directory: string, taskId: string): string {
+	return path.join(directory, `${taskId}.json`)
+}
+
+function readCassette(filePath: string): Cassette {
+	let cassette: Cassette
+	try {
+		cassette = JSON.parse(fs.readFileSync(filePath, "utf-8"))
+	} catch (error) {
+		throw new Error(`Failed to read cassette ${filePath}: ${error instanceof Error ? error.message : error}`)
+	}
+
+	if (cassette?.version !== CASSETTE_VERSION || !Array.isArray(cassette.interactions)) {
+		throw new Error(`${filePath} is not a version ${CASSETTE_VERSION} cassette`)
+	}
+
+	return cassette
+}
+
+/**
+ * Read a cassette file, or every cassette in a directory in file name order
+ * @throws Error if the path or one of its cassettes can't be read
+ */
+export function readCassettes(cassettePath: string): CassetteInteraction[] {
+	if (!fs.existsSync(cassettePath)) {
+		throw new Error(`Cassette ${cassettePath} does not exist`)
+	}
+
+	if (!fs.statSync(cassettePath).isDirectory()) {
+		return readCassette(cassettePath).interactions
+	}
+
+	return fs
+		.readdirSync(cassettePath)
+		.filter((name) => name.endsWith(".json"))
+		.sort()
+		.flatMap((name) => readCassette(path.join(cassettePath, name)).interactions)
+}
+
+// Appends to the same cassette are queued so none of them is lost.
+const pendingWrites = new Map<string, Promise<void>>()
+
+export function appendToCassette(filePath: string, interaction: CassetteInteraction): Promise<void> {
+	const write = async () => {
+		const cassette: Cassette = fs.existsSync(filePath)
+			? readCassette(filePath)
+			: { version: CASSETTE_VERSION, interactions: [] }
+
+		cassette.interactions.push(interaction)
+		await safeWriteJson(filePath, cassette, { prettyPrint: true })
+	}
+
+	const next = (pendingWrites.get(filePath) ?? Promise.resolve()).then(write)
+	pendingWrites.set(filePath, next.catch(() => {}))
+	return next
+}
@@ -400,6 +400,16 @@ export class NativeToolCallParser {
 				}
 				break
 
+			case "start_process":
+				if (partialArgs.name !== undefined || partialArgs.command !== undefined) {
+					nativeArgs = {
+						name: partialArgs.name,
+						command: partialArgs.command,
+						cwd: partialArgs.cwd,
+					}
+				}
+				break
+
 			case "write_to_file":
 				if (partialArgs.path || partialArgs.content) {
 					nativeArgs = {
@@ -449,6 +459,24 @@ export class NativeToolCallParser {
 				}
 				break
 
+			case "find_references":
+			case "find_callers":
+				if (partialArgs.symbol !== undefined) {
+					nativeArgs = {
+						symbol: partialArgs.symbol,
+						path: partialArgs.path,
+					}
+				}
+				break
+
+			case "show_import_graph":
+				if (partialArgs.path !== undefined) {
+					nativeArgs = {
+						path: partialArgs.path,
+					}
+				}
+				break
+
 			case "fetch_instructions":
 				if (partialArgs.task !== undefined) {
 					nativeArgs = {
@@ -618,6 +646,12 @@ export class NativeToolCallParser {
 					includeInherited: partialArgs.includeInherited,
 				}
 				break
+			case "browser_audit_accessibility":
+				nativeArgs = {
+					selector: partialArgs.selector,
+					limit: partialArgs.limit,
+				}
+				break
 			case "browser_get_errors":
 				nativeArgs = { limit: partialArgs.limit }
 				break
@@ -627,6 +661,9 @@ export class NativeToolCallParser {
 			case "browser_get_performance":
 				nativeArgs = {}
 				break
+			case "browser_check_performance_budget":
+				nativeArgs = {}
+				break
 			case "browser_get_state":
 				nativeArgs = {}
 				break
@@ -647,6 +684,48 @@ export class NativeToolCallParser {
 					limit: partialArgs.limit,
 				}
 				break
+			case "browser_add_network_mock":
+				nativeArgs = {
+					urlPattern: partialArgs.urlPattern,
+					id: partialArgs.id,
+					method: partialArgs.method,
+					status: partialArgs.status,
+					body: partialArgs.body,
+					headers: partialArgs.headers,
+					latencyMs: partialArgs.latencyMs,
+				}
+				break
+			case "browser_remove_network_mock":
+				nativeArgs = { id: partialArgs.id, all: partialArgs.all }
+				break
+			case "browser_list_network_mocks":
+				nativeArgs = {}
+				break
+			case "browser_save_visual_baseline":
+				nativeArgs = { name: partialArgs.name }
+				break
+			case "browser_compare_visual_baseline":
+				nativeArgs = {
+					name: partialArgs.name,
+					threshold: partialArgs.threshold,
+					maxDiffPercentage: partialArgs.maxDiffPercentage,
+				}
+				break
+			case "browser_record_script":
+				nativeArgs = {
+					action: partialArgs.action,
+					name: partialArgs.name,
+					selector: partialArgs.selector,
+					urlPattern: partialArgs.urlPattern,
+					noConsoleErrors: partialArgs.noConsoleErrors,
+				}
+				break
+			case "browser_replay_script":
+				nativeArgs = {
+					name: partialArgs.name,
+					stopOnFailure: partialArgs.stopOnFailure,
+				}
+				break
 
 			// Project Tools (3)
 			case "project_get_active":
@@ -683,7 +762,7 @@ export class NativeToolCallParser {
 				nativeArgs = { canvasId: partialArgs.canvasId }
 				break
 
-			// Component Tools (7)
+			// Component Tools (8)
 			case "component_add":
 				nativeArgs = {
 					folderPath: partialArgs.folderPath,
@@ -691,6 +770,8 @@ export class NativeToolCallParser {
 					name: partialArgs.name,
 					entryFile: partialArgs.entryFile,
 					framework: partialArgs.framework,
+					variants: partialArgs.variants,
+					baseProps: partialArgs.baseProps,
 				}
 				break
 			case "component_add_batch":
@@ -711,6 +792,9 @@ export class NativeToolCallParser {
 			case "component_rebuild":
 				nativeArgs = { componentId: partialArgs.componentId }
 				break
+			case "component_review_variants":
+				nativeArgs = { componentId: partialArgs.componentId }
+				break
 
 			default:
 				break
@@ -870,6 +954,24 @@ export class NativeToolCallParser {
 					}
 					break
 
+				case "find_references":
+				case "find_callers":
+					if (args.symbol !== undefined) {
+						nativeArgs = {
+							symbol: args.symbol,
+							path: args.path,
+						} as NativeArgsFor<TName>
+					}
+					break
+
+				case "show_import_graph":
+					if (args.path !== undefined) {
+						nativeArgs = {
+							path: args.path,
+						} as NativeArgsFor<TName>
+					}
+					break
+
 				case "fetch_instructions":
 					if (args.task !== undefined) {
 						nativeArgs = {
@@ -931,6 +1033,41 @@ export class NativeToolCallParser {
 							search: args.search,
 							offset: args.offset,
 							limit: args.limit,
+							tail: args.tail,
+						} as NativeArgsFor<TName>
+					}
+					break
+
+				case "start_process":
+					if (args.name !== undefined && args.command !== undefined) {
+						nativeArgs = {
+							name: args.name,
+							command: args.command,
+							cwd: args.cwd,
+							ready_pattern: args.ready_pattern,
+							timeout: args.timeout,
+						} as NativeArgsFor<TName>
+					}
+					break
+
+				case "list_processes":
+					nativeArgs = {} as NativeArgsFor<TName>
+					break
+
+				case "wait_for_process":
+					if (args.name !== undefined && args.ready_pattern !== undefined) {
+						nativeArgs = {
+							name: args.name,
+							ready_pattern: args.ready_pattern,
+							timeout: args.timeout,
+						} as NativeArgsFor<TName>
+					}
+					break
+
+				case "stop_process":
+					if (args.name !== undefined) {
+						nativeArgs = {
+							name: args.name,
 						} as NativeArgsFor<TName>
 					}
 					break
@@ -1068,6 +1205,13 @@ export class NativeToolCallParser {
 						} as NativeArgsFor<TName>
 					}
 					break
+				case "browser_audit_accessibility":
+					// selector is optional (defaults to the whole page)
+					nativeArgs = {
+						selector: args.selector,
+						limit: args.limit,
+					} as NativeArgsFor<TName>
+					break
 				case "browser_get_errors":
 					nativeArgs = { limit: args.limit } as NativeArgsFor<TName>
 					break
@@ -1077,6 +1221,9 @@ export class NativeToolCallParser {
 				case "browser_get_performance":
 					nativeArgs = {} as NativeArgsFor<TName>
 					break
+				case "browser_check_performance_budget":
+					nativeArgs = {} as NativeArgsFor<TName>
+					break
 				case "browser_get_state":
 					nativeArgs = {} as NativeArgsFor<TName>
 					break
@@ -1097,6 +1244,54 @@ export class NativeToolCallParser {
 						limit: args.limit,
 					} as NativeArgsFor<TName>
 					break
+				case "browser_add_network_mock":
+					if (args.urlPattern !== undefined) {
+						nativeArgs = {
+							urlPattern: args.urlPattern,
+							id: args.id,
+							method: args.method,
+							status: args.status,
+							body: args.body,
+							headers: args.headers,
+							latencyMs: args.latencyMs,
+						} as NativeArgsFor<TName>
+					}
+					break
+				case "browser_remove_network_mock":
+					nativeArgs = { id: args.id, all: args.all } as NativeArgsFor<TName>
+					break
+				case "browser_list_network_mocks":
+					nativeArgs = {} as NativeArgsFor<TName>
+					break
+				case "browser_save_visual_baseline":
+					// name is optional (defaults to the current route)
+					nativeArgs = { name: args.name } as NativeArgsFor<TName>
+					break
+				case "browser_compare_visual_baseline":
+					nativeArgs = {
+						name: args.name,
+						threshold: args.threshold,
+						maxDiffPercentage: args.maxDiffPercentage,
+					} as NativeArgsFor<TName>
+					break
+				case "browser_record_script":
+					if (args.action !== undefined) {
+						nativeArgs = {
+							action: args.action,
+							name: args.name,
+							selector: args.selector,
+							urlPattern: args.urlPattern,
+							noConsoleErrors: args.noConsoleErrors,
+						} as NativeArgsFor<TName>
+					}
+					break
+				case "browser_replay_script":
+					// name is optional (omitting it lists the available scripts)
+					nativeArgs = {
+						name: args.name,
+						stopOnFailure: args.stopOnFailure,
+					} as NativeArgsFor<TName>
+					break
 
 				// Project Tools (3)
 				case "project_get_active":
@@ -1137,7 +1332,7 @@ export class NativeToolCallParser {
 					nativeArgs = { canvasId: args.canvasId } as NativeArgsFor<TName>
 					break
 
-				// Component Tools (7)
+				// Component Tools (8)
 				case "component_add":
 					if (args.folderPath !== undefined) {
 						nativeArgs = {
@@ -1146,6 +1341,8 @@ export class NativeToolCallParser {
 							name: args.name,
 							entryFile: args.entryFile,
 							framework: args.framework,
+							variants: args.variants,
+							baseProps: args.baseProps,
 						} as NativeArgsFor<TName>
 					}
 					break
@@ -1177,6 +1374,11 @@ export class NativeToolCallParser {
 						nativeArgs = { componentId: args.componentId } as NativeArgsFor<TName>
 					}
 					break
+				case "component_review_variants":
+					if (args.componentId !== undefined) {
+						nativeArgs = { componentId: args.componentId } as NativeArgsFor<TName>
+					}
+					break
 
 				default:
 					if (customToolRegistry.has(resolvedName)) {
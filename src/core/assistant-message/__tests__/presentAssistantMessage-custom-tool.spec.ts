@@ -22,6 +22,11 @@ vi.mock("@roo-code/core", () => ({
 	},
 }))
 
+// Mock the lifecycle hooks, which would otherwise read the user's hooks files
+vi.mock("../../hooks/lifecycleHooks", () => ({
+	runBeforeToolUseHooks: vi.fn().mockResolvedValue(undefined),
+	runAfterFileWriteHooks: vi.fn().mockResolvedValue(undefined),
+}))
 vi.mock("@roo-code/telemetry", () => ({
 	TelemetryService: {
 		instance: {
@@ -67,6 +72,9 @@ describe("presentAssistantMessage - Custom Tool Recording", () => {
 			toolRepetitionDetector: {
 				check: vi.fn().mockReturnValue({ allowExecution: true }),
 			},
+			fileContextTracker: {
+				getAndClearFilesEditedByRoo: vi.fn().mockReturnValue([]),
+			},
 			providerRef: {
 				deref: () => ({
 					getState: vi.fn().mockResolvedValue({
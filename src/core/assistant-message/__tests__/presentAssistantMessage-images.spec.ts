@@ -15,6 +15,11 @@ vi.mock("../../tools/validateToolUse", () => ({
 		),
 	),
 }))
+// Mock the lifecycle hooks, which would otherwise read the user's hooks files
+vi.mock("../../hooks/lifecycleHooks", () => ({
+	runBeforeToolUseHooks: vi.fn().mockResolvedValue(undefined),
+	runAfterFileWriteHooks: vi.fn().mockResolvedValue(undefined),
+}))
 vi.mock("@roo-code/telemetry", () => ({
 	TelemetryService: {
 		instance: {
@@ -52,6 +57,9 @@ describe("presentAssistantMessage - Image Handling in Native Tool Calling", () =
 			toolRepetitionDetector: {
 				check: vi.fn().mockReturnValue({ allowExecution: true }),
 			},
+			fileContextTracker: {
+				getAndClearFilesEditedByRoo: vi.fn().mockReturnValue([]),
+			},
 			providerRef: {
 				deref: () => ({
 					getState: vi.fn().mockResolvedValue({
@@ -9,6 +9,11 @@ vi.mock("../../tools/validateToolUse", () => ({
 	validateToolUse: vi.fn(),
 	isValidToolName: vi.fn(() => false),
 }))
+// Mock the lifecycle hooks, which would otherwise read the user's hooks files
+vi.mock("../../hooks/lifecycleHooks", () => ({
+	runBeforeToolUseHooks: vi.fn().mockResolvedValue(undefined),
+	runAfterFileWriteHooks: vi.fn().mockResolvedValue(undefined),
+}))
 vi.mock("@roo-code/telemetry", () => ({
 	TelemetryService: {
 		instance: {
@@ -48,6 +53,9 @@ describe("presentAssistantMessage - Unknown Tool Handling", () => {
 			toolRepetitionDetector: {
 				check: vi.fn().mockReturnValue({ allowExecution: true }),
 			},
+			fileContextTracker: {
+				getAndClearFilesEditedByRoo: vi.fn().mockReturnValue([]),
+			},
 			providerRef: {
 				deref: () => ({
 					getState: vi.fn().mockResolvedValue({
@@ -18,6 +18,10 @@ import { fetchInstructionsTool } from "../tools/FetchInstructionsTool"
 import { listFilesTool } from "../tools/ListFilesTool"
 import { readFileTool } from "../tools/ReadFileTool"
 import { readCommandOutputTool } from "../tools/ReadCommandOutputTool"
+import { startProcessTool } from "../tools/StartProcessTool"
+import { listProcessesTool } from "../tools/ListProcessesTool"
+import { waitForProcessTool } from "../tools/WaitForProcessTool"
+import { stopProcessTool } from "../tools/StopProcessTool"
 import { writeToFileTool } from "../tools/WriteToFileTool"
 import { searchAndReplaceTool } from "../tools/SearchAndReplaceTool"
 import { searchReplaceTool } from "../tools/SearchReplaceTool"
@@ -38,7 +42,11 @@ import { generateImageTool } from "../tools/GenerateImageTool"
 import { applyDiffTool as applyDiffToolClass } from "../tools/ApplyDiffTool"
 import { isValidToolName, validateToolUse } from "../tools/validateToolUse"
 import { codebaseSearchTool } from "../tools/CodebaseSearchTool"
+import { findReferencesTool } from "../tools/FindReferencesTool"
+import { findCallersTool } from "../tools/FindCallersTool"
+import { showImportGraphTool } from "../tools/ShowImportGraphTool"
 import { handleRoopikTool } from "../tools/roopik"
+import { runAfterFileWriteHooks, runBeforeToolUseHooks } from "../hooks/lifecycleHooks"
 
 import { formatResponse } from "../prompts/responses"
 
@@ -405,8 +413,20 @@ export async function presentAssistantMessage(cline: Task) {
 						return `[${block.name} to '${block.params.mode_slug}'${block.params.reason ? ` because: ${block.params.reason}` : ""}]`
 					case "codebase_search":
 						return `[${block.name} for '${block.params.query}']`
+					case "find_references":
+					case "find_callers":
+						return `[${block.name} for '${block.params.symbol}']`
+					case "show_import_graph":
+						return `[${block.name} for '${block.params.path}']`
 					case "read_command_output":
 						return `[${block.name} for '${block.params.artifact_id}']`
+					case "start_process":
+						return `[${block.name} for '${block.params.name}': '${block.params.command}']`
+					case "list_processes":
+						return `[${block.name}]`
+					case "wait_for_process":
+					case "stop_process":
+						return `[${block.name} for '${block.params.name}']`
 					case "update_todo_list":
 						return `[${block.name}]`
 					case "new_task": {
@@ -437,12 +457,16 @@ export async function presentAssistantMessage(cline: Task) {
 						return `[browser_execute_script]`
 					case "browser_inspect_element":
 						return `[browser_inspect_element for '${block.params.selector}']`
+					case "browser_audit_accessibility":
+						return `[browser_audit_accessibility${block.params.selector ? ` in '${block.params.selector}'` : ""}]`
 					case "browser_get_errors":
 						return `[browser_get_errors]`
 					case "browser_get_console_logs":
 						return `[browser_get_console_logs${block.params.type ? ` (${block.params.type})` : ""}]`
 					case "browser_get_performance":
 						return `[browser_get_performance]`
+					case "browser_check_performance_budget":
+						return `[browser_check_performance_budget]`
 					case "browser_get_cdp_info":
 						return `[browser_get_cdp_info]`
 					case "browser_get_state":
@@ -451,6 +475,20 @@ export async function presentAssistantMessage(cline: Task) {
 						return `[browser_set_viewport${block.params.width && block.params.height ? ` ${block.params.width}x${block.params.height}` : ""}]`
 					case "browser_get_network_requests":
 						return `[browser_get_network_requests]`
+					case "browser_add_network_mock":
+						return `[browser_add_network_mock for '${block.params.urlPattern}'${block.params.status ? ` → ${block.params.status}` : ""}]`
+					case "browser_remove_network_mock":
+						return `[browser_remove_network_mock${block.params.all === "true" ? " (all)" : block.params.id ? ` '${block.params.id}'` : ""}]`
+					case "browser_list_network_mocks":
+						return `[browser_list_network_mocks]`
+					case "browser_save_visual_baseline":
+						return `[browser_save_visual_baseline${block.params.name ? ` '${block.params.name}'` : ""}]`
+					case "browser_compare_visual_baseline":
+						return `[browser_compare_visual_baseline${block.params.name ? ` '${block.params.name}'` : ""}]`
+					case "browser_record_script":
+						return `[browser_record_script: ${block.params.action}${block.params.name ? ` '${block.params.name}'` : ""}]`
+					case "browser_replay_script":
+						return `[browser_replay_script${block.params.name ? ` '${block.params.name}'` : ""}]`
 					// Roopik IDE Tools - Project (3)
 					case "project_get_active":
 						return `[project_get_active]`
@@ -469,7 +507,7 @@ export async function presentAssistantMessage(cline: Task) {
 						return `[canvas_open${block.params.canvasId ? ` '${block.params.canvasId}'` : ""}${block.params.name ? ` name='${block.params.name}'` : ""}]`
 					case "canvas_validate_components":
 						return `[canvas_validate_components${block.params.canvasId ? ` '${block.params.canvasId}'` : ""}]`
-					// Roopik IDE Tools - Component (7)
+					// Roopik IDE Tools - Component (8)
 					case "component_add":
 						return `[component_add '${block.params.folderPath || block.params.path}']`
 					case "component_add_batch":
@@ -482,6 +520,8 @@ export async function presentAssistantMessage(cline: Task) {
 						return `[component_list '${block.params.canvasId}']`
 					case "component_rebuild":
 						return `[component_rebuild '${block.params.componentId}']`
+					case "component_review_variants":
+						return `[component_review_variants '${block.params.componentId}']`
 					default:
 						return `[${block.name}]`
 				}
@@ -804,6 +844,19 @@ export async function presentAssistantMessage(cline: Task) {
 				}
 			}
 
+			// Let the user's beforeToolUse hooks veto or rewrite the call.
+			if (!block.partial) {
+				const blockedReason = await runBeforeToolUseHooks(cline, block)
+
+				if (blockedReason) {
+					await cline.say("error", `Hook blocked ${block.name}: ${blockedReason}`)
+					pushToolResult(
+						formatResponse.toolError(`The ${block.name} call was blocked by a hook: ${blockedReason}`),
+					)
+					break
+				}
+			}
+
 			switch (block.name) {
 				case "write_to_file":
 					await checkpointSaveAndMark(cline)
@@ -889,6 +942,27 @@ export async function presentAssistantMessage(cline: Task) {
 						pushToolResult,
 					})
 					break
+				case "find_references":
+					await findReferencesTool.handle(cline, block as ToolUse<"find_references">, {
+						askApproval,
+						handleError,
+						pushToolResult,
+					})
+					break
+				case "find_callers":
+					await findCallersTool.handle(cline, block as ToolUse<"find_callers">, {
+						askApproval,
+						handleError,
+						pushToolResult,
+					})
+					break
+				case "show_import_graph":
+					await showImportGraphTool.handle(cline, block as ToolUse<"show_import_graph">, {
+						askApproval,
+						handleError,
+						pushToolResult,
+					})
+					break
 				case "search_files":
 					await searchFilesTool.handle(cline, block as ToolUse<"search_files">, {
 						askApproval,
@@ -919,6 +993,34 @@ export async function presentAssistantMessage(cline: Task) {
 						pushToolResult,
 					})
 					break
+				case "start_process":
+					await startProcessTool.handle(cline, block as ToolUse<"start_process">, {
+						askApproval,
+						handleError,
+						pushToolResult,
+					})
+					break
+				case "list_processes":
+					await listProcessesTool.handle(cline, block as ToolUse<"list_processes">, {
+						askApproval,
+						handleError,
+						pushToolResult,
+					})
+					break
+				case "wait_for_process":
+					await waitForProcessTool.handle(cline, block as ToolUse<"wait_for_process">, {
+						askApproval,
+						handleError,
+						pushToolResult,
+					})
+					break
+				case "stop_process":
+					await stopProcessTool.handle(cline, block as ToolUse<"stop_process">, {
+						askApproval,
+						handleError,
+						pushToolResult,
+					})
+					break
 				case "use_mcp_tool":
 					await useMcpToolTool.handle(cline, block as ToolUse<"use_mcp_tool">, {
 						askApproval,
@@ -986,8 +1088,8 @@ export async function presentAssistantMessage(cline: Task) {
 						pushToolResult,
 					})
 					break
-				// Roopik IDE Tools (28 tools)
-				// Browser (14)-// Project (3)-// Canvas (4)-// Component (8)
+				// Roopik IDE Tools (38 tools)
+				// Browser (23)-// Project (3)-// Canvas (4)-// Component (8)
 				case "browser_open":
 				case "browser_close":
 				case "browser_action_input":
@@ -996,12 +1098,21 @@ export async function presentAssistantMessage(cline: Task) {
 				case "browser_screenshot":
 				case "browser_execute_script":
 				case "browser_inspect_element":
+				case "browser_audit_accessibility":
 				case "browser_get_errors":
 				case "browser_get_console_logs":
 				case "browser_get_performance":
+				case "browser_check_performance_budget":
 				case "browser_get_state":
 				case "browser_set_viewport":
 				case "browser_get_network_requests":
+				case "browser_add_network_mock":
+				case "browser_remove_network_mock":
+				case "browser_list_network_mocks":
+				case "browser_save_visual_baseline":
+				case "browser_compare_visual_baseline":
+				case "browser_record_script":
+				case "browser_replay_script":
 				case "project_get_active":
 				case "project_start":
 				case "project_stop":
@@ -1016,6 +1127,7 @@ export async function presentAssistantMessage(cline: Task) {
 				case "component_get_info":
 				case "component_list":
 				case "component_rebuild":
+				case "component_review_variants":
 					await handleRoopikTool(cline, block, {
 						askApproval,
 						handleError,
@@ -1090,6 +1202,19 @@ export async function presentAssistantMessage(cline: Task) {
 				}
 			}
 
+			// Feed the output of afterFileWrite hooks (formatters, linters) back to the model.
+			if (!block.partial) {
+				const editedFiles = cline.fileContextTracker.getAndClearFilesEditedByRoo()
+
+				if (editedFiles.length > 0) {
+					const hookReport = await runAfterFileWriteHooks(cline, editedFiles)
+
+					if (hookReport) {
+						cline.userMessageContent.push({ type: "text", text: hookReport })
+					}
+				}
+			}
+
 			break
 		}
 	}
@@ -1194,17 +1319,24 @@ function containsXmlToolMarkup(text: string): boolean {
 		"edit_file",
 		"execute_command",
 		"fetch_instructions",
+		"find_callers",
+		"find_references",
 		"generate_image",
 		"list_files",
+		"list_processes",
 		"new_task",
 		"read_command_output",
 		"read_file",
 		"search_and_replace",
 		"search_files",
 		"search_replace",
+		"show_import_graph",
+		"start_process",
+		"stop_process",
 		"switch_mode",
 		"update_todo_list",
 		"use_mcp_tool",
+		"wait_for_process",
 		"write_to_file",
 	] as const
 
@@ -12,6 +12,9 @@ export function isReadOnlyToolAction(tool: ClineSayTool): boolean {
 		"listFilesRecursive",
 		"searchFiles",
 		"codebaseSearch",
+		"findReferences",
+		"findCallers",
+		"showImportGraph",
 		"runSlashCommand",
 	].includes(tool.tool)
 }
@@ -0,0 +1,261 @@
+import {
+	type BudgetStatus,
+	type ClineApiReqInfo,
+	type ClineMessage,
+	type HistoryItem,
+	type SpendSummary,
+	type SpendingBudgets,
+	DEFAULT_BUDGET_WARNING_THRESHOLD_PERCENT,
+} from "@roo-code/types"
+
+import { safeJsonParse } from "@roo-code/core"
+
+/**
+ * A cost recorded in the messages of a task.
+ */
+export interface SpendEntry {
+	ts: number
+	cost: number
+	// The provider profile that was charged, if known.
+	profile?: string
+}
+
+export interface TaskSpend {
+	id: string
+	task: string
+	workspace?: string
+	entries: SpendEntry[]
+}
+
+/**
+ * The task that budgets are checked for. Its messages are taken as they are in
+ * memory, since they may not have been saved yet.
+ */
+export interface BudgetedTask {
+	taskId: string
+	task: string
+	workspace: string
+	profileName?: string
+	messages: ClineMessage[]
+}
+
+/**
+ * Collects the costs of API requests and context condensing from the messages
+ * of a task, attributing requests served by another profile to that profile.
+ */
+export function getSpendEntries(messages: ClineMessage[], profile?: string): SpendEntry[] {
+	const entries: SpendEntry[] = []
+
+	for (const message of messages) {
+		if (message.type !== "say") {
+			continue
+		}
+
+		if (message.say === "api_req_started" && message.text) {
+			const info = safeJsonParse<ClineApiReqInfo>(message.text)
+
+			if (typeof info?.cost === "number" && info.cost > 0) {
+				entries.push({ ts: message.ts, cost: info.cost, profile: info.servedBy?.profileName ?? profile })
+			}
+		} else if (message.say === "condense_context" && message.contextCondense?.cost) {
+			entries.push({ ts: message.ts, cost: message.contextCondense.cost, profile })
+		}
+	}
+
+	return entries
+}
+
+export function getPeriodStarts(now: number): { day: number; month: number } {
+	const date = new Date(now)
+
+	return {
+		day: new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime(),
+		month: new Date(date.getFullYear(), date.getMonth(), 1).getTime(),
+	}
+}
+
+const sumCosts = (entries: SpendEntry[]) => entries.reduce((total, entry) => total + entry.cost, 0)
+
+/**
+ * Computes what has been spent against the spending budgets from the messages
+ * persisted for the tasks in the history.
+ *
+ * Only tasks that were active this month can count towards a budget, so older
+ * tasks aren't read. The costs of each task are kept until its history item
+ * changes.
+ */
+export class SpendTracker {
+	private readonly cache = new Map<string, { key: string; entries: SpendEntry[] }>()
+
+	constructor(
+		private readonly getTaskHistory: () => HistoryItem[],
+		private readonly readMessages: (taskId: string) => Promise<ClineMessage[]>,
+	) {}
+
+	/**
+	 * @returns The spend of the tasks that were active this month, including the
+	 * given task whether or not it's in the history yet.
+	 */
+	async getTaskSpend(current?: BudgetedTask, now = Date.now()): Promise<TaskSpend[]> {
+		const { month } = getPeriodStarts(now)
+		const spend: TaskSpend[] = []
+
+		for (const item of this.getTaskHistory()) {
+			if (item.id === current?.taskId || item.ts < month || !item.totalCost) {
+				continue
+			}
+
+			spend.push({
+				id: item.id,
+				task: item.task,
+				workspace: item.workspace,
+				entries: await this.getHistoryItemEntries(item),
+			})
+		}
+
+		if (current) {
+			spend.push({
+				id: current.taskId,
+				task: current.task,
+				workspace: current.workspace,
+				entries: getSpendEntries(current.messages, current.profileName),
+			})
+		}
+
+		return spend
+	}
+
+	/**
+	 * @returns What has been spent against each budget that applies to the task: its
+	 * own cost, today's cost of its workspace and this month's cost of its profile
+	 * and of the other profiles that served it.
+	 */
+	async checkBudgets(
+		budgets: SpendingBudgets | undefined,
+		task: BudgetedTask,
+		now = Date.now(),
+	): Promise<BudgetStatus[]> {
+		const { maxTaskCost, maxWorkspaceDailyCost, maxProfileMonthlyCost } = budgets ?? {}
+
+		if (maxTaskCost === undefined && maxWorkspaceDailyCost === undefined && maxProfileMonthlyCost === undefined) {
+			return []
+		}
+
+		return getBudgetStatuses(budgets, await this.getTaskSpend(task, now), task, now)
+	}
+
+	async summarize(
+		budgets: SpendingBudgets | undefined,
+		task?: BudgetedTask,
+		now = Date.now(),
+	): Promise<SpendSummary> {
+		const spend = await this.getTaskSpend(task, now)
+		const { day, month } = getPeriodStarts(now)
+		const today: Record<string, number> = {}
+		const thisMonth: Record<string, number> = {}
+
+		for (const { workspace, entries } of spend) {
+			for (const entry of entries) {
+				if (entry.ts >= day && workspace) {
+					today[workspace] = (today[workspace] ?? 0) + entry.cost
+				}
+
+				if (entry.ts >= month) {
+					const profile = entry.profile ?? "default"
+					thisMonth[profile] = (thisMonth[profile] ?? 0) + entry.cost
+				}
+			}
+		}
+
+		const tasks = spend
+			.map(({ id, task, workspace, entries }) => ({
+				id,
+				task,
+				workspace,
+				cost: sumCosts(entries.filter((entry) => entry.ts >= month)),
+			}))
+			.filter(({ cost }) => cost > 0)
+			.sort((a, b) => b.cost - a.cost)
+			.slice(0, 10)
+
+		return { today, thisMonth, tasks, budgets: task ? getBudgetStatuses(budgets, spend, task, now) : [] }
+	}
+
+	private async getHistoryItemEntries(item: HistoryItem): Promise<SpendEntry[]> {
+		const key = `${item.ts}:${item.totalCost}`
+		const cached = this.cache.get(item.id)
+
+		if (cached?.key === key) {
+			return cached.entries
+		}
+
+		try {
+			const entries = getSpendEntries(await this.readMessages(item.id), item.apiConfigName)
+			this.cache.set(item.id, { key, entries })
+			return entries
+		} catch (error) {
+			console.warn(
+				`[SpendTracker] Could not read the messages of task ${item.id}: ${
+					error instanceof Error ? error.message : String(error)
+				}`,
+			)
+			return []
+		}
+	}
+}
+
+function getBudgetStatuses(
+	budgets: SpendingBudgets | undefined,
+	spend: TaskSpend[],
+	task: BudgetedTask,
+	now: number,
+): BudgetStatus[] {
+	const { day, month } = getPeriodStarts(now)
+	const statuses: BudgetStatus[] = []
+	const taskEntries = spend.find(({ id }) => id === task.taskId)?.entries ?? []
+
+	if (budgets?.maxTaskCost !== undefined) {
+		statuses.push({ scope: "task", subject: task.taskId, limit: budgets.maxTaskCost, spent: sumCosts(taskEntries) })
+	}
+
+	if (budgets?.maxWorkspaceDailyCost !== undefined) {
+		const entries = spend
+			.filter(({ workspace }) => workspace === task.workspace)
+			.flatMap(({ entries }) => entries.filter((entry) => entry.ts >= day))
+
+		statuses.push({
+			scope: "workspaceDay",
+			subject: task.workspace,
+			limit: budgets.maxWorkspaceDailyCost,
+			spent: sumCosts(entries),
+		})
+	}
+
+	if (budgets?.maxProfileMonthlyCost !== undefined) {
+		const profiles = new Set(taskEntries.map((entry) => entry.profile ?? "default"))
+		profiles.add(task.profileName ?? "default")
+
+		const entries = spend.flatMap(({ entries }) => entries.filter((entry) => entry.ts >= month))
+
+		for (const profile of profiles) {
+			statuses.push({
+				scope: "profileMonth",
+				subject: profile,
+				limit: budgets.maxProfileMonthlyCost,
+				spent: sumCosts(entries.filter((entry) => (entry.profile ?? "default") === profile)),
+			})
+		}
+	}
+
+	return statuses
+}
+
+export const isBudgetExceeded = (status: BudgetStatus) => status.spent >= status.limit
+
+/**
+ * Whether a budget has reached the warning threshold without being exceeded.
+ */
+export function isBudgetNearlyExceeded(status: BudgetStatus, budgets: SpendingBudgets | undefined) {
+	const threshold = budgets?.warningThresholdPercent ?? DEFAULT_BUDGET_WARNING_THRESHOLD_PERCENT
+	return !isBudgetExceeded(status) && status.spent >= (status.limit * threshold) / 100
+}
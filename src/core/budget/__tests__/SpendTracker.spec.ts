@@ -0,0 +1,139 @@
+// npx vitest run core/budget/__tests__/SpendTracker.spec.ts
+
+import type { ClineMessage, HistoryItem } from "@roo-code/types"
+
+import {
+	type BudgetedTask,
+	SpendTracker,
+	getSpendEntries,
+	isBudgetExceeded,
+	isBudgetNearlyExceeded,
+} from "../SpendTracker"
+
+const now = new Date(2026, 9, 19, 15, 0).getTime()
+const yesterday = new Date(2026, 9, 18, 12, 0).getTime()
+const lastMonth = new Date(2026, 8, 30, 12, 0).getTime()
+
+const apiRequest = (ts: number, cost: number, servedBy?: string): ClineMessage => ({
+	type: "say",
+	say: "api_req_started",
+	ts,
+	text: JSON.stringify({ cost, servedBy: servedBy ? { profileName: servedBy, modelId: "model" } : undefined }),
+})
+
+const historyItem = (id: string, ts: number, totalCost: number, workspace: string, apiConfigName: string) =>
+	({ id, number: 1, ts, task: id, tokensIn: 0, tokensOut: 0, totalCost, workspace, apiConfigName }) as HistoryItem
+
+describe("getSpendEntries", () => {
+	it("collects request and condensing costs", () => {
+		const messages: ClineMessage[] = [
+			apiRequest(1, 0.5),
+			apiRequest(2, 0.25, "Cheap"),
+			{ type: "say", say: "api_req_started", ts: 3, text: "{}" },
+			{ type: "say", say: "condense_context", ts: 4, contextCondense: { cost: 0.1 } as any },
+			{ type: "say", say: "text", ts: 5, text: "Done." },
+		]
+
+		expect(getSpendEntries(messages, "Default")).toEqual([
+			{ ts: 1, cost: 0.5, profile: "Default" },
+			{ ts: 2, cost: 0.25, profile: "Cheap" },
+			{ ts: 4, cost: 0.1, profile: "Default" },
+		])
+	})
+})
+
+describe("SpendTracker", () => {
+	let history: HistoryItem[]
+	let messages: Record<string, ClineMessage[]>
+	const readMessages = vi.fn(async (taskId: string) => messages[taskId] ?? [])
+
+	const task: BudgetedTask = {
+		taskId: "current",
+		task: "Fix the bug",
+		workspace: "/repo",
+		profileName: "Default",
+		messages: [apiRequest(now - 1000, 1), apiRequest(now - 500, 0.5, "Cheap")],
+	}
+
+	beforeEach(() => {
+		history = [
+			historyItem("today", now - 60_000, 2, "/repo", "Default"),
+			historyItem("yesterday", yesterday, 3, "/repo", "Default"),
+			historyItem("other-workspace", now - 60_000, 4, "/other", "Cheap"),
+			historyItem("last-month", lastMonth, 5, "/repo", "Default"),
+		]
+		messages = {
+			today: [apiRequest(now - 60_000, 2)],
+			yesterday: [apiRequest(yesterday, 3)],
+			"other-workspace": [apiRequest(now - 60_000, 4)],
+			"last-month": [apiRequest(lastMonth, 5)],
+		}
+		readMessages.mockClear()
+	})
+
+	it("checks the task, today's workspace and this month's profile spend", async () => {
+		const tracker = new SpendTracker(() => history, readMessages)
+
+		const statuses = await tracker.checkBudgets(
+			{ maxTaskCost: 1.5, maxWorkspaceDailyCost: 5, maxProfileMonthlyCost: 10 },
+			task,
+			now,
+		)
+
+		expect(statuses).toEqual([
+			{ scope: "task", subject: "current", limit: 1.5, spent: 1.5 },
+			{ scope: "workspaceDay", subject: "/repo", limit: 5, spent: 3.5 },
+			{ scope: "profileMonth", subject: "Default", limit: 10, spent: 6 },
+			{ scope: "profileMonth", subject: "Cheap", limit: 10, spent: 4.5 },
+		])
+		expect(statuses.filter(isBudgetExceeded).map(({ scope }) => scope)).toEqual(["task"])
+		expect(readMessages).not.toHaveBeenCalledWith("last-month")
+	})
+
+	it("warns at the threshold", () => {
+		const status = { scope: "task" as const, subject: "current", limit: 10, spent: 8 }
+
+		expect(isBudgetNearlyExceeded(status, {})).toBe(true)
+		expect(isBudgetNearlyExceeded(status, { warningThresholdPercent: 90 })).toBe(false)
+		expect(isBudgetNearlyExceeded({ ...status, spent: 10 }, {})).toBe(false)
+	})
+
+	it("doesn't read the history without budgets", async () => {
+		const tracker = new SpendTracker(() => history, readMessages)
+
+		await expect(tracker.checkBudgets({ warningThresholdPercent: 50 }, task, now)).resolves.toEqual([])
+		expect(readMessages).not.toHaveBeenCalled()
+	})
+
+	it("reads each task again only when its history item changes", async () => {
+		const tracker = new SpendTracker(() => history, readMessages)
+		const budgets = { maxWorkspaceDailyCost: 10 }
+
+		await tracker.checkBudgets(budgets, task, now)
+		await tracker.checkBudgets(budgets, task, now)
+		expect(readMessages).toHaveBeenCalledTimes(3)
+
+		history[0] = { ...history[0], totalCost: 3 }
+		messages.today.push(apiRequest(now - 30_000, 1))
+
+		const [status] = await tracker.checkBudgets(budgets, task, now)
+		expect(readMessages).toHaveBeenCalledTimes(4)
+		expect(status.spent).toBe(4.5)
+	})
+
+	it("summarizes this month's spend", async () => {
+		const tracker = new SpendTracker(() => history, readMessages)
+
+		const summary = await tracker.summarize({ maxTaskCost: 2 }, task, now)
+
+		expect(summary.today).toEqual({ "/repo": 3.5, "/other": 4 })
+		expect(summary.thisMonth).toEqual({ Default: 6, Cheap: 4.5 })
+		expect(summary.tasks.map(({ id, cost }) => [id, cost])).toEqual([
+			["other-workspace", 4],
+			["yesterday", 3],
+			["today", 2],
+			["current", 1.5],
+		])
+		expect(summary.budgets).toEqual([{ scope: "task", subject: "current", limit: 2, spent: 1.5 }])
+	})
+})
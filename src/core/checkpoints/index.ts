@@ -1,13 +1,14 @@
 import pWaitFor from "p-wait-for"
 import * as vscode from "vscode"
 
-import type { ClineApiReqInfo } from "@roo-code/types"
+import type { ClineApiReqInfo, CheckpointRestoreFile } from "@roo-code/types"
 import { TelemetryService } from "@roo-code/telemetry"
 
 import { Task } from "../task/Task"
 
 import { getWorkspacePath } from "../../utils/path"
 import { checkGitInstalled } from "../../utils/git"
+import { fileExistsAtPath } from "../../utils/fs"
 import { t } from "../../i18n"
 
 import { getApiMetrics } from "../../shared/getApiMetrics"
@@ -232,11 +233,13 @@ export type CheckpointRestoreOptions = {
 	commitHash: string
 	mode: "preview" | "restore"
 	operation?: "delete" | "edit" // Optional to maintain backward compatibility
+	/** Restore only these workspace-relative paths; other files and the checkpoint history are kept. */
+	paths?: string[]
 }
 
 export async function checkpointRestore(
 	task: Task,
-	{ ts, commitHash, mode, operation = "delete" }: CheckpointRestoreOptions,
+	{ ts, commitHash, mode, operation = "delete", paths }: CheckpointRestoreOptions,
 ) {
 	const service = await getCheckpointService(task)
 
@@ -253,9 +256,15 @@ export async function checkpointRestore(
 	const provider = task.providerRef.deref()
 
 	try {
-		await service.restoreCheckpoint(commitHash)
-		TelemetryService.instance.captureCheckpointRestored(task.taskId)
-		await provider?.postMessageToWebview({ type: "currentCheckpointUpdated", text: commitHash })
+		if (paths) {
+			await service.restoreFiles(commitHash, paths)
+			TelemetryService.instance.captureCheckpointRestored(task.taskId)
+		} else {
+			await service.restoreCheckpoint(commitHash)
+			TelemetryService.instance.captureCheckpointRestored(task.taskId)
+			await provider?.postMessageToWebview({ type: "currentCheckpointUpdated", text: commitHash })
+			await postCheckpointTimeline(task)
+		}
 
 		if (mode === "restore") {
 			// Calculate metrics from messages that will be deleted (must be done before rewind)
@@ -301,6 +310,34 @@ export async function checkpointRestore(
 	}
 }
 
+/**
+ * Files that differ between a checkpoint and the current workspace, i.e. the
+ * files a restore to that checkpoint would touch.
+ */
+export async function getCheckpointRestoreFiles(task: Task, commitHash: string): Promise<CheckpointRestoreFile[]> {
+	const service = await getCheckpointService(task)
+
+	if (!service) {
+		return []
+	}
+
+	const changes = await service.getDiff({ from: commitHash })
+	const filesInCheckpoint = new Set(
+		await service.getFilesInCheckpoint(commitHash, changes.map(({ paths }) => paths.relative)),
+	)
+
+	return Promise.all(
+		changes.map(async ({ paths }) => ({
+			path: paths.relative,
+			change: !(await fileExistsAtPath(paths.absolute))
+				? "deleted"
+				: filesInCheckpoint.has(paths.relative)
+					? "modified"
+					: "added",
+		})),
+	)
+}
+
 export type CheckpointDiffOptions = {
 	ts?: number
 	previousCommitHash?: string
@@ -310,8 +347,9 @@ export type CheckpointDiffOptions = {
 	 * checkpoint: Compare the selected checkpoint to the next checkpoint.
 	 * to-current: Compare the selected checkpoint to the current workspace.
 	 * full: Compare from the first checkpoint to the current workspace.
+	 * range: Compare previousCommitHash to commitHash, e.g. two attempts on different timeline lines.
 	 */
-	mode: "from-init" | "checkpoint" | "to-current" | "full"
+	mode: "from-init" | "checkpoint" | "to-current" | "full" | "range"
 }
 
 export async function checkpointDiff(task: Task, { ts, previousCommitHash, commitHash, mode }: CheckpointDiffOptions) {
@@ -356,6 +394,11 @@ export async function checkpointDiff(task: Task, { ts, previousCommitHash, commi
 			toHash = undefined
 			title = t("common:errors.checkpoint_diff_since_first")
 			break
+		case "range":
+			fromHash = previousCommitHash
+			toHash = commitHash
+			title = t("common:errors.checkpoint_diff_range")
+			break
 	}
 
 	if (!fromHash) {
@@ -390,3 +433,101 @@ export async function checkpointDiff(task: Task, { ts, previousCommitHash, commi
 		task.enableCheckpoints = false
 	}
 }
+
+/**
+ * Send the task's checkpoint timeline (all lines, with labels) to the webview
+ */
+export async function postCheckpointTimeline(task: Task) {
+	const service = await getCheckpointService(task)
+	const provider = task.providerRef.deref()
+
+	if (!service?.isInitialized || !provider) {
+		return
+	}
+
+	try {
+		const checkpointTimeline = await service.getTimeline()
+		await provider.postMessageToWebview({ type: "checkpointTimeline", checkpointTimeline })
+	} catch (err) {
+		provider.log(`[postCheckpointTimeline] failed to read timeline: ${err instanceof Error ? err.message : String(err)}`)
+	}
+}
+
+export type CheckpointLabelOptions = {
+	commitHash: string
+	label: string
+}
+
+export async function checkpointLabel(task: Task, { commitHash, label }: CheckpointLabelOptions) {
+	const service = await getCheckpointService(task)
+
+	if (!service) {
+		return
+	}
+
+	try {
+		await service.labelCheckpoint(commitHash, label)
+	} catch (err) {
+		vscode.window.showErrorMessage(
+			t("common:errors.checkpoint_label_failed", { error: err instanceof Error ? err.message : String(err) }),
+		)
+		return
+	}
+
+	// Show the label on the checkpoint's chat row as well.
+	const provider = task.providerRef.deref()
+	const text = label.trim()
+	const updated = task.clineMessages.filter(({ say, text: hash }) => say === "checkpoint_saved" && hash === commitHash)
+
+	for (const message of updated) {
+		const { label: _previous, ...checkpoint } = message.checkpoint ?? {}
+		message.checkpoint = text ? { ...checkpoint, label: text } : checkpoint
+	}
+
+	if (updated.length > 0) {
+		await task.overwriteClineMessages([...task.clineMessages])
+
+		for (const message of updated) {
+			await provider?.postMessageToWebview({ type: "messageUpdated", clineMessage: message })
+		}
+	}
+
+	await postCheckpointTimeline(task)
+}
+
+export type CheckpointCherryPickOptions = {
+	fromHash: string
+	toHash: string
+}
+
+/**
+ * Apply the changes between two checkpoints (typically one step of another
+ * timeline line) onto the current workspace.
+ */
+export async function checkpointCherryPick(task: Task, { fromHash, toHash }: CheckpointCherryPickOptions) {
+	const service = await getCheckpointService(task)
+
+	if (!service) {
+		return
+	}
+
+	try {
+		const { files, conflicts } = await service.cherryPickCheckpoints({ from: fromHash, to: toHash })
+
+		if (files.length === 0) {
+			vscode.window.showInformationMessage(t("common:errors.checkpoint_no_changes"))
+		} else if (conflicts.length > 0) {
+			vscode.window.showWarningMessage(
+				t("common:errors.checkpoint_cherry_pick_conflicts", { files: conflicts.join(", ") }),
+			)
+		} else {
+			vscode.window.showInformationMessage(
+				t("common:errors.checkpoint_cherry_pick_applied", { count: files.length }),
+			)
+		}
+	} catch (err) {
+		vscode.window.showErrorMessage(
+			t("common:errors.checkpoint_cherry_pick_failed", { error: err instanceof Error ? err.message : String(err) }),
+		)
+	}
+}
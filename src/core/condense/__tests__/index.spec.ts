@@ -781,6 +781,34 @@ describe("summarizeConversation", () => {
 		expect(result.error).toBeUndefined()
 	})
 
+	it("should send the summarizing request to the condensing API handler", async () => {
+		const condensingApiHandler = {
+			...mockApiHandler,
+			createMessage: vi.fn().mockReturnValue(mockStream),
+			countTokens: vi.fn(),
+		} as unknown as ApiHandler
+		const messages: ApiMessage[] = [
+			{ role: "user", content: "Hello", ts: 1 },
+			{ role: "assistant", content: "Hi there", ts: 2 },
+			{ role: "user", content: "How are you?", ts: 3 },
+		]
+
+		const result = await summarizeConversation({
+			messages,
+			apiHandler: mockApiHandler,
+			condensingApiHandler,
+			systemPrompt: defaultSystemPrompt,
+			taskId,
+		})
+
+		expect(result.summary).toBe("This is a summary")
+		expect(condensingApiHandler.createMessage).toHaveBeenCalled()
+		expect(mockApiHandler.createMessage).not.toHaveBeenCalled()
+		// The new context is still measured with the task's model.
+		expect(condensingApiHandler.countTokens).not.toHaveBeenCalled()
+		expect(mockApiHandler.countTokens).toHaveBeenCalled()
+	})
+
 	it("should preserve command blocks from first message in summary", async () => {
 		const messages: ApiMessage[] = [
 			{
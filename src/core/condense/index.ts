@@ -130,6 +130,8 @@ export type SummarizeResponse = {
 export type SummarizeConversationOptions = {
 	messages: ApiMessage[]
 	apiHandler: ApiHandler
+	/** Optional handler for the summarizing request; `apiHandler` still counts the tokens of the task's model */
+	condensingApiHandler?: ApiHandler
 	systemPrompt: string
 	taskId: string
 	isAutomaticTrigger?: boolean
@@ -163,6 +165,7 @@ export async function summarizeConversation(options: SummarizeConversationOption
 	const {
 		messages,
 		apiHandler,
+		condensingApiHandler = apiHandler,
 		systemPrompt,
 		taskId,
 		isAutomaticTrigger,
@@ -213,15 +216,16 @@ export async function summarizeConversation(options: SummarizeConversationOption
 	// (e.g., when user triggers condense after receiving attempt_completion but before responding)
 	const messagesWithToolResults = injectSyntheticToolResults(messagesToSummarize)
 
-	const requestMessages = maybeRemoveImageBlocks([...messagesWithToolResults, finalRequestMessage], apiHandler).map(
-		({ role, content }) => ({ role, content }),
-	)
+	const requestMessages = maybeRemoveImageBlocks(
+		[...messagesWithToolResults, finalRequestMessage],
+		condensingApiHandler,
+	).map(({ role, content }) => ({ role, content }))
 
 	// Note: this doesn't need to be a stream, consider using something like apiHandler.completePrompt
 	const promptToUse = SUMMARY_PROMPT
 
 	// Validate that the API handler supports message creation
-	if (!apiHandler || typeof apiHandler.createMessage !== "function") {
+	if (!condensingApiHandler || typeof condensingApiHandler.createMessage !== "function") {
 		console.error("API handler is invalid for condensing. Cannot proceed.")
 		const error = t("common:errors.condense_handler_invalid")
 		return { ...response, error }
@@ -232,7 +236,7 @@ export async function summarizeConversation(options: SummarizeConversationOption
 	let outputTokens = 0
 
 	try {
-		const stream = apiHandler.createMessage(promptToUse, requestMessages, metadata)
+		const stream = condensingApiHandler.createMessage(promptToUse, requestMessages, metadata)
 
 		for await (const chunk of stream) {
 			if (chunk.type === "text") {
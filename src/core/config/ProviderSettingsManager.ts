@@ -17,6 +17,7 @@ import { TelemetryService } from "@roo-code/telemetry"
 
 import { Mode, modes } from "../../shared/modes"
 import { buildApiHandler } from "../../api"
+import { setFailoverProfileResolver } from "../../api/providers/failover"
 
 // Type-safe model migrations mapping
 type ModelMigrations = {
@@ -76,9 +77,14 @@ export class ProviderSettingsManager {
 
 	private readonly context: ExtensionContext
 
+	// Last profiles read or written, for lookups that can't wait for the secrets store.
+	private cachedProfiles?: ProviderProfiles
+
 	constructor(context: ExtensionContext) {
 		this.context = context
 
+		setFailoverProfileResolver((id) => this.getCachedProfile(id))
+
 		// TODO: We really shouldn't have async methods in the constructor.
 		this.initialize().catch(console.error)
 	}
@@ -409,6 +415,16 @@ export class ProviderSettingsManager {
 		}
 	}
 
+	/**
+	 * Look up a profile by ID without waiting for the secrets store, as of the
+	 * last time profiles were read or written.
+	 */
+	public getCachedProfile(id: string): (ProviderSettingsWithId & { name: string }) | undefined {
+		const apiConfigs = this.cachedProfiles?.apiConfigs ?? {}
+		const entry = Object.entries(apiConfigs).find(([_, apiConfig]) => apiConfig.id === id)
+		return entry && { name: entry[0], ...entry[1] }
+	}
+
 	/**
 	 * Activate a profile by name or ID.
 	 */
@@ -588,12 +604,14 @@ export class ProviderSettingsManager {
 				{} as Record<string, ProviderSettingsWithId>,
 			)
 
-			return {
+			this.cachedProfiles = {
 				...providerProfiles,
 				apiConfigs: Object.fromEntries(
 					Object.entries(apiConfigs).filter(([_, apiConfig]) => apiConfig !== null),
 				),
 			}
+
+			return this.cachedProfiles
 		} catch (error) {
 			if (error instanceof ZodError) {
 				TelemetryService.instance.captureSchemaValidationError({
@@ -635,6 +653,7 @@ export class ProviderSettingsManager {
 	private async store(providerProfiles: ProviderProfiles) {
 		try {
 			await this.context.secrets.store(this.secretsKey, JSON.stringify(providerProfiles, null, 2))
+			this.cachedProfiles = providerProfiles
 		} catch (error) {
 			throw new Error(`Failed to write provider profiles to secrets: ${error}`)
 		}
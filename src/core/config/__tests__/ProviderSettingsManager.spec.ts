@@ -406,6 +406,29 @@ describe("ProviderSettingsManager", () => {
 		})
 	})
 
+	describe("getCachedProfile", () => {
+		it("finds profiles by ID once they have been read", async () => {
+			const existingConfig: ProviderProfiles = {
+				currentApiConfigName: "default",
+				apiConfigs: {
+					default: { id: "default" },
+					backup: { id: "backup-id", apiProvider: "anthropic" },
+				},
+				modeApiConfigs: {},
+			}
+
+			mockSecrets.get.mockResolvedValue(JSON.stringify(existingConfig))
+			await providerSettingsManager.listConfig()
+
+			expect(providerSettingsManager.getCachedProfile("backup-id")).toEqual({
+				name: "backup",
+				id: "backup-id",
+				apiProvider: "anthropic",
+			})
+			expect(providerSettingsManager.getCachedProfile("missing")).toBeUndefined()
+		})
+	})
+
 	describe("SaveConfig", () => {
 		it("should save new config", async () => {
 			mockSecrets.get.mockResolvedValue(
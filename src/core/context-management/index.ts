@@ -212,6 +212,8 @@ export type ContextManagementOptions = {
 	contextWindow: number
 	maxTokens?: number | null
 	apiHandler: ApiHandler
+	/** Optional handler for the condensing request; `apiHandler` still counts the tokens of the task's model */
+	condensingApiHandler?: ApiHandler
 	autoCondenseContext: boolean
 	autoCondenseContextPercent: number
 	systemPrompt: string
@@ -250,6 +252,7 @@ export async function manageContext({
 	contextWindow,
 	maxTokens,
 	apiHandler,
+	condensingApiHandler,
 	autoCondenseContext,
 	autoCondenseContextPercent,
 	systemPrompt,
@@ -310,6 +313,7 @@ export async function manageContext({
 			const result = await summarizeConversation({
 				messages,
 				apiHandler,
+				condensingApiHandler,
 				systemPrompt,
 				taskId,
 				isAutomaticTrigger: true,
@@ -29,6 +29,7 @@ export class FileContextTracker {
 	private recentlyModifiedFiles = new Set<string>()
 	private recentlyEditedByRoo = new Set<string>()
 	private checkpointPossibleFiles = new Set<string>()
+	private filesEditedByRoo = new Set<string>()
 
 	constructor(provider: ClineProvider, taskId: string) {
 		this.providerRef = new WeakRef(provider)
@@ -182,6 +183,7 @@ export class FileContextTracker {
 					newEntry.roo_read_date = now
 					newEntry.roo_edit_date = now
 					this.checkpointPossibleFiles.add(filePath)
+					this.filesEditedByRoo.add(filePath)
 					this.markFileAsEditedByRoo(filePath)
 					break
 
@@ -206,6 +208,13 @@ export class FileContextTracker {
 		return files
 	}
 
+	// Returns (and then clears) the set of files Roo has edited since the last call
+	getAndClearFilesEditedByRoo(): string[] {
+		const files = Array.from(this.filesEditedByRoo)
+		this.filesEditedByRoo.clear()
+		return files
+	}
+
 	/**
 	 * Gets a list of unique file paths that Roo has read during this task.
 	 * Files are sorted by most recently read first, so if there's a character
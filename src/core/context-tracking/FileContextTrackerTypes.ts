@@ -19,9 +19,22 @@ export const fileMetadataEntrySchema = z.object({
 // TypeScript type derived from the Zod schema
 export type FileMetadataEntry = z.infer<typeof fileMetadataEntrySchema>
 
+// Zod schema for a Roopik performance budget check, kept so later checks can report a trend
+export const performanceRunSchema = z.object({
+	timestamp: z.number(),
+	url: z.string().optional(),
+	passed: z.boolean(),
+	metrics: z.record(z.string(), z.number()),
+	failed: z.array(z.string()),
+})
+
+// TypeScript type derived from the Zod schema
+export type PerformanceRunEntry = z.infer<typeof performanceRunSchema>
+
 // Zod schema for TaskMetadata
 export const taskMetadataSchema = z.object({
 	files_in_context: z.array(fileMetadataEntrySchema),
+	performance_runs: z.array(performanceRunSchema).optional(),
 })
 
 // TypeScript type derived from the Zod schema
@@ -0,0 +1,208 @@
+// npx vitest core/hooks/__tests__/lifecycleHooks.spec.ts
+
+import * as fs from "fs/promises"
+import * as os from "os"
+import * as path from "path"
+
+import * as vscode from "vscode"
+import { customToolRegistry } from "@roo-code/core"
+
+import type { ToolUse } from "../../../shared/tools"
+import type { Task } from "../../task/Task"
+import { getCompletionHookError, runAfterFileWriteHooks, runBeforeToolUseHooks, runTaskHooks } from "../lifecycleHooks"
+
+vi.mock("os", async (importOriginal) => {
+	const actual = await importOriginal<typeof import("os")>()
+	return { ...actual, homedir: vi.fn() }
+})
+
+vi.mock("vscode", () => ({
+	workspace: { isTrusted: true },
+	window: { showWarningMessage: vi.fn() },
+}))
+
+vi.mock("@roo-code/core", () => ({
+	customToolRegistry: {
+		get: vi.fn(),
+	},
+}))
+
+describe("lifecycle hooks", () => {
+	let homeDir: string
+	let task: Task
+	let globalState: Map<string, unknown>
+
+	const writeHooks = async (hooks: unknown) => {
+		await fs.mkdir(path.join(task.cwd, ".dio"), { recursive: true })
+		await fs.writeFile(path.join(task.cwd, ".dio", "hooks.json"), JSON.stringify({ hooks }))
+	}
+
+	const toolUse = (name: string, params: Record<string, string>) =>
+		({ type: "tool_use", name, params, nativeArgs: { ...params }, partial: false }) as unknown as ToolUse
+
+	beforeEach(async () => {
+		vi.clearAllMocks()
+		homeDir = await fs.mkdtemp(path.join(os.tmpdir(), "hooks-home-"))
+		vi.mocked(os.homedir).mockReturnValue(homeDir)
+		vi.mocked(vscode.window.showWarningMessage).mockResolvedValue("Allow" as unknown as vscode.MessageItem)
+		;(vscode.workspace as { isTrusted: boolean }).isTrusted = true
+
+		globalState = new Map()
+		const context = {
+			globalState: {
+				get: (key: string) => globalState.get(key),
+				update: async (key: string, value: unknown) => void globalState.set(key, value),
+			},
+		}
+
+		task = {
+			taskId: "task-1",
+			cwd: await fs.mkdtemp(path.join(os.tmpdir(), "hooks-project-")),
+			providerRef: { deref: () => ({ context }) },
+			getTaskMode: vi.fn().mockResolvedValue("code"),
+			say: vi.fn().mockResolvedValue(undefined),
+		} as unknown as Task
+	})
+
+	afterEach(async () => {
+		await fs.rm(homeDir, { recursive: true, force: true })
+		await fs.rm(task.cwd, { recursive: true, force: true })
+	})
+
+	describe("project hooks approval", () => {
+		const hooksFile = () => path.join(task.cwd, ".dio", "hooks.json")
+
+		it("asks once per hooks file content and shows the commands that will run", async () => {
+			await writeHooks({ taskStart: [{ command: "echo started" }], taskEnd: [{ tool: "notify" }] })
+
+			await expect(runBeforeToolUseHooks(task, toolUse("read_file", {}))).resolves.toBeUndefined()
+			await runTaskHooks(task, "taskStart")
+
+			expect(vscode.window.showWarningMessage).toHaveBeenCalledTimes(1)
+			expect(vscode.window.showWarningMessage).toHaveBeenCalledWith(
+				expect.stringContaining(hooksFile()),
+				{ modal: true, detail: 'taskStart: echo started\ntaskEnd: custom tool "notify"' },
+				"Allow",
+			)
+
+			await writeHooks({ beforeCompletion: [{ command: "echo changed; exit 1" }] })
+			await expect(getCompletionHookError(task)).resolves.toContain("echo changed")
+			expect(vscode.window.showWarningMessage).toHaveBeenCalledTimes(2)
+		})
+
+		it("skips project hooks the user declines without asking again", async () => {
+			vi.mocked(vscode.window.showWarningMessage).mockResolvedValue(undefined)
+			await writeHooks({ beforeCompletion: [{ command: "exit 1" }] })
+
+			await expect(getCompletionHookError(task)).resolves.toBeUndefined()
+			await expect(getCompletionHookError(task)).resolves.toBeUndefined()
+
+			expect(vscode.window.showWarningMessage).toHaveBeenCalledTimes(1)
+			expect(globalState.size).toBe(0)
+		})
+
+		it("skips project hooks in an untrusted workspace without asking", async () => {
+			;(vscode.workspace as { isTrusted: boolean }).isTrusted = false
+			await writeHooks({ beforeCompletion: [{ command: "exit 1" }] })
+
+			await expect(getCompletionHookError(task)).resolves.toBeUndefined()
+			expect(vscode.window.showWarningMessage).not.toHaveBeenCalled()
+		})
+	})
+
+	describe("runBeforeToolUseHooks", () => {
+		it("blocks a matching tool call when the hook fails", async () => {
+			await writeHooks({
+				beforeToolUse: [{ matcher: "execute_command", command: "echo 'No force pushes' >&2; exit 2" }],
+			})
+
+			const block = toolUse("execute_command", { command: "git push -f" })
+
+			await expect(runBeforeToolUseHooks(task, block)).resolves.toBe(
+				"`echo 'No force pushes' >&2; exit 2` failed: No force pushes",
+			)
+			await expect(runBeforeToolUseHooks(task, toolUse("read_file", { path: "a.ts" }))).resolves.toBeUndefined()
+		})
+
+		it("blocks a tool call when the hook answers with a block decision", async () => {
+			await writeHooks({
+				beforeToolUse: [{ command: `echo '{"decision":"block","reason":"Read-only today"}'` }],
+			})
+
+			const reason = await runBeforeToolUseHooks(task, toolUse("write_to_file", { path: "a.ts", content: "" }))
+
+			expect(reason).toContain("Read-only today")
+		})
+
+		it("rewrites the parameters of a tool call", async () => {
+			await writeHooks({
+				beforeToolUse: [
+					{ matcher: "execute_command", command: `echo '{"params":{"command":"npm test -- --ci"}}'` },
+				],
+			})
+			const block = toolUse("execute_command", { command: "npm test" })
+
+			await expect(runBeforeToolUseHooks(task, block)).resolves.toBeUndefined()
+
+			expect(block.params.command).toBe("npm test -- --ci")
+			expect(block.nativeArgs).toEqual({ command: "npm test -- --ci" })
+		})
+
+		it("reports a broken hooks file once and lets tools run", async () => {
+			await fs.mkdir(path.join(task.cwd, ".dio"))
+			await fs.writeFile(path.join(task.cwd, ".dio", "hooks.json"), "{ not json")
+
+			await expect(runBeforeToolUseHooks(task, toolUse("read_file", {}))).resolves.toBeUndefined()
+			await expect(runBeforeToolUseHooks(task, toolUse("read_file", {}))).resolves.toBeUndefined()
+
+			expect(task.say).toHaveBeenCalledTimes(1)
+			expect(task.say).toHaveBeenCalledWith("error", expect.stringContaining("Hooks are disabled"))
+		})
+	})
+
+	describe("runAfterFileWriteHooks", () => {
+		it("reports the output of hooks matching the edited files", async () => {
+			await writeHooks({
+				afterFileWrite: [
+					{ matcher: "*.ts", command: 'echo "linted $DIO_FILE"' },
+					{ matcher: "*.css", command: "echo never" },
+					{ matcher: "*.ts", command: "true" },
+				],
+			})
+
+			await expect(runAfterFileWriteHooks(task, ["src/a.ts", "README.md"])).resolves.toBe(
+				'Hook `echo "linted $DIO_FILE"` for src/a.ts:\nlinted src/a.ts',
+			)
+		})
+	})
+
+	describe("getCompletionHookError", () => {
+		it("refuses completion when a hook fails", async () => {
+			await writeHooks({ beforeCompletion: [{ command: "true" }, { command: "echo '2 tests failed'; exit 1" }] })
+
+			const error = await getCompletionHookError(task)
+
+			expect(error).toContain("the completion hook `echo '2 tests failed'; exit 1` failed")
+			expect(error).toContain("2 tests failed")
+		})
+
+		it("allows completion without hooks", async () => {
+			await expect(getCompletionHookError(task)).resolves.toBeUndefined()
+		})
+	})
+
+	describe("runTaskHooks", () => {
+		it("calls custom tools with the event payload", async () => {
+			const execute = vi.fn().mockResolvedValue("notified")
+			vi.mocked(customToolRegistry.get).mockReturnValue({ name: "notify", description: "", execute })
+			await writeHooks({ taskEnd: [{ tool: "notify" }] })
+
+			await runTaskHooks(task, "taskEnd", { status: "completed" })
+
+			expect(execute).toHaveBeenCalledWith(
+				{ event: "taskEnd", taskId: "task-1", cwd: task.cwd, mode: "code", status: "completed" },
+				{ mode: "code", task },
+			)
+		})
+	})
+})
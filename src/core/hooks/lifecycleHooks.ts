@@ -0,0 +1,284 @@
+import * as path from "path"
+import * as vscode from "vscode"
+
+import { customToolRegistry } from "@roo-code/core"
+
+import type { ToolUse } from "../../shared/tools"
+import type { Task } from "../task/Task"
+import {
+	type HookDefinition,
+	type HookEvent,
+	type HookResult,
+	type HooksConfig,
+	type ProjectHooksFile,
+	HOOK_EVENTS,
+	describeHook,
+	loadHooksConfig,
+	matchesFile,
+	matchesTool,
+	runHookCommand,
+	truncateHookOutput,
+} from "../../services/hooks/hooks"
+
+// Last hooks file error shown for each task, so a broken file isn't reported on every tool call.
+const reportedConfigErrors = new WeakMap<Task, string>()
+
+// globalState key holding the approved content hash of each project hooks file, by file path.
+const APPROVED_PROJECT_HOOKS_KEY = "approvedProjectHooks"
+
+// Project hooks files (path and hash) the user declined this session, so they are asked only once.
+const declinedProjectHooks = new Set<string>()
+
+// Approval prompts on screen, so hooks firing at the same time share one prompt.
+const pendingApprovals = new Map<string, Promise<boolean>>()
+
+/**
+ * Project hooks run commands from the repository, so they only run in a trusted
+ * workspace and after the user has approved the file's current content.
+ */
+async function approveProjectHooks(task: Task, file: ProjectHooksFile): Promise<boolean> {
+	if (!vscode.workspace.isTrusted) {
+		return false
+	}
+
+	const context = task.providerRef.deref()?.context
+	if (!context) {
+		return false
+	}
+
+	const approved = context.globalState.get<Record<string, string>>(APPROVED_PROJECT_HOOKS_KEY) ?? {}
+	if (approved[file.filePath] === file.hash) {
+		return true
+	}
+
+	const key = `${file.filePath}:${file.hash}`
+	if (declinedProjectHooks.has(key)) {
+		return false
+	}
+
+	let approval = pendingApprovals.get(key)
+	if (!approval) {
+		approval = askProjectHooksApproval(context, file, key).finally(() => pendingApprovals.delete(key))
+		pendingApprovals.set(key, approval)
+	}
+	return approval
+}
+
+async function askProjectHooksApproval(
+	context: vscode.ExtensionContext,
+	file: ProjectHooksFile,
+	key: string,
+): Promise<boolean> {
+	const detail = HOOK_EVENTS.flatMap((event) =>
+		file.hooks[event].map((hook) => `${event}: ${hook.command ?? `custom tool "${hook.tool}"`}`),
+	).join("\n")
+	const answer = await vscode.window.showWarningMessage(
+		`${file.filePath} wants to run these hooks during tasks in this workspace. Allow them?`,
+		{ modal: true, detail },
+		"Allow",
+	)
+
+	if (answer !== "Allow") {
+		declinedProjectHooks.add(key)
+		return false
+	}
+
+	const approved = context.globalState.get<Record<string, string>>(APPROVED_PROJECT_HOOKS_KEY) ?? {}
+	await context.globalState.update(APPROVED_PROJECT_HOOKS_KEY, { ...approved, [file.filePath]: file.hash })
+	return true
+}
+
+async function loadTaskHooks(task: Task): Promise<HooksConfig | undefined> {
+	try {
+		const config = await loadHooksConfig(task.cwd, {
+			approveProjectHooks: (file) => approveProjectHooks(task, file),
+		})
+		reportedConfigErrors.delete(task)
+		return config
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error)
+		if (reportedConfigErrors.get(task) !== message) {
+			reportedConfigErrors.set(task, message)
+			console.error(`[hooks] ${message}`)
+			await task.say("error", `Hooks are disabled until the file is fixed. ${message}`).catch(() => {})
+		}
+		return undefined
+	}
+}
+
+async function runHook(
+	task: Task,
+	hook: HookDefinition,
+	event: HookEvent,
+	data: Record<string, unknown> = {},
+): Promise<HookResult> {
+	const mode = await task.getTaskMode()
+	const payload = { event, taskId: task.taskId, cwd: task.cwd, mode, ...data }
+
+	if (hook.command) {
+		const env: Record<string, string> = { DIO_HOOK_EVENT: event, DIO_TASK_ID: task.taskId }
+		if (typeof data.toolName === "string") {
+			env.DIO_TOOL_NAME = data.toolName
+		}
+		if (typeof data.filePath === "string") {
+			env.DIO_FILE = data.filePath
+		}
+
+		try {
+			return await runHookCommand({ ...hook, command: hook.command }, task.cwd, payload, env)
+		} catch (error) {
+			return { hook, success: false, output: error instanceof Error ? error.message : String(error) }
+		}
+	}
+
+	const customTool = customToolRegistry.get(hook.tool!)
+	if (!customTool) {
+		return { hook, success: false, output: `Custom tool "${hook.tool}" is not loaded.` }
+	}
+
+	try {
+		const args = customTool.parameters ? customTool.parameters.parse(payload) : payload
+		const output = await customTool.execute(args, { mode, task })
+		return { hook, success: true, output: truncateHookOutput(output ?? "") }
+	} catch (error) {
+		return { hook, success: false, output: error instanceof Error ? error.message : String(error) }
+	}
+}
+
+/**
+ * Read a hook's answer to a beforeToolUse event: either `{ "decision": "block",
+ * "reason": "..." }` or `{ "params": { ... } }` with replacement parameters.
+ * Any other output lets the call through unchanged.
+ */
+function parseToolUseResponse(output: string): { block?: string; params?: Record<string, unknown> } {
+	let response: unknown
+	try {
+		response = JSON.parse(output)
+	} catch {
+		return {}
+	}
+
+	if (!response || typeof response !== "object") {
+		return {}
+	}
+
+	const { decision, reason, params } = response as Record<string, unknown>
+	if (decision === "block") {
+		return { block: typeof reason === "string" && reason ? reason : "No reason given." }
+	}
+
+	return params && typeof params === "object" && !Array.isArray(params)
+		? { params: params as Record<string, unknown> }
+		: {}
+}
+
+/**
+ * Run the beforeToolUse hooks for a complete tool call. A hook blocks the call
+ * by failing or answering with a block decision, and rewrites it by answering
+ * with new parameters, which later hooks and the tool then see.
+ *
+ * @returns Why the call was blocked, or undefined if the tool may run
+ */
+export async function runBeforeToolUseHooks(task: Task, block: ToolUse): Promise<string | undefined> {
+	const config = await loadTaskHooks(task)
+	const hooks = config?.beforeToolUse.filter((hook) => matchesTool(hook, block.name)) ?? []
+
+	for (const hook of hooks) {
+		const params = block.nativeArgs ?? block.params
+		const result = await runHook(task, hook, "beforeToolUse", { toolName: block.name, params })
+		if (!result.success) {
+			return `${describeHook(hook)} failed: ${result.output || "no output"}`
+		}
+
+		const response = parseToolUseResponse(result.output)
+		if (response.block) {
+			return `${describeHook(hook)}: ${response.block}`
+		}
+
+		if (response.params) {
+			applyParams(block, response.params)
+		}
+	}
+
+	return undefined
+}
+
+function applyParams(block: ToolUse, params: Record<string, unknown>) {
+	if (block.nativeArgs) {
+		block.nativeArgs = { ...block.nativeArgs, ...params } as ToolUse["nativeArgs"]
+	}
+
+	const stringParams: Record<string, string> = block.params
+	for (const [key, value] of Object.entries(params)) {
+		stringParams[key] = typeof value === "string" ? value : JSON.stringify(value)
+	}
+}
+
+/**
+ * Run the afterFileWrite hooks for the files a tool just edited and describe
+ * what they printed, for the model to read next. Returns undefined if no hook
+ * had anything to say.
+ */
+export async function runAfterFileWriteHooks(task: Task, relPaths: string[]): Promise<string | undefined> {
+	const config = await loadTaskHooks(task)
+	if (!config?.afterFileWrite.length) {
+		return undefined
+	}
+
+	const reports: string[] = []
+	for (const relPath of relPaths) {
+		for (const hook of config.afterFileWrite.filter((hook) => matchesFile(hook, relPath))) {
+			const result = await runHook(task, hook, "afterFileWrite", {
+				filePath: relPath,
+				absolutePath: path.resolve(task.cwd, relPath),
+			})
+
+			if (!result.success) {
+				reports.push(`Hook ${describeHook(hook)} failed for ${relPath}:\n${result.output || "(no output)"}`)
+			} else if (result.output) {
+				reports.push(`Hook ${describeHook(hook)} for ${relPath}:\n${result.output}`)
+			}
+		}
+	}
+
+	return reports.length ? reports.join("\n\n") : undefined
+}
+
+/**
+ * Explain why attempt_completion must be refused because a beforeCompletion hook
+ * failed, or return undefined to allow it.
+ */
+export async function getCompletionHookError(task: Task): Promise<string | undefined> {
+	const config = await loadTaskHooks(task)
+
+	for (const hook of config?.beforeCompletion ?? []) {
+		const result = await runHook(task, hook, "beforeCompletion")
+		if (!result.success) {
+			return (
+				`Cannot complete the task: the completion hook ${describeHook(hook)} failed. ` +
+				`Fix the problem and try again.\n\n${result.output || "(no output)"}`
+			)
+		}
+	}
+
+	return undefined
+}
+
+/**
+ * Run the taskStart or taskEnd hooks. Their result can't change the task, so
+ * failures are only logged.
+ */
+export async function runTaskHooks(
+	task: Task,
+	event: "taskStart" | "taskEnd",
+	data: Record<string, unknown> = {},
+): Promise<void> {
+	const config = await loadTaskHooks(task)
+
+	for (const hook of config?.[event] ?? []) {
+		const result = await runHook(task, hook, event, data)
+		if (!result.success) {
+			console.error(`[hooks] ${event} hook ${describeHook(hook)} failed: ${result.output}`)
+		}
+	}
+}
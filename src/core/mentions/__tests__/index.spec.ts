@@ -4,6 +4,8 @@ import * as vscode from "vscode"
 
 import { parseMentions } from "../index"
 import { UrlContentFetcher } from "../../../services/browser/UrlContentFetcher"
+import { getBranchDiff } from "../../../utils/git"
+import { findSymbolDefinitions } from "../resolveSymbolMention"
 
 // Mock vscode
 vi.mock("vscode", () => ({
@@ -17,6 +19,17 @@ vi.mock("../../../i18n", () => ({
 	t: vi.fn((key: string) => key),
 }))
 
+vi.mock("../../../utils/git", () => ({
+	getBranchDiff: vi.fn(),
+	getCommitInfo: vi.fn(),
+	getWorkingState: vi.fn(),
+}))
+
+vi.mock("../resolveSymbolMention", async (importOriginal) => ({
+	...(await importOriginal<typeof import("../resolveSymbolMention")>()),
+	findSymbolDefinitions: vi.fn(),
+}))
+
 describe("parseMentions - URL error handling", () => {
 	let mockUrlContentFetcher: UrlContentFetcher
 	let consoleErrorSpy: any
@@ -157,3 +170,85 @@ describe("parseMentions - URL error handling", () => {
 		expect(result.text).toContain("Error fetching content: timeout")
 	})
 })
+
+describe("parseMentions - symbols, branch diffs and checkpoints", () => {
+	const urlContentFetcher = {} as UrlContentFetcher
+
+	beforeEach(() => {
+		vi.clearAllMocks()
+	})
+
+	it("should include the definitions of a mentioned symbol", async () => {
+		vi.mocked(findSymbolDefinitions).mockResolvedValue([
+			{
+				name: "abortTask",
+				kind: "method",
+				line: 2,
+				endLine: 4,
+				filePath: "src/task.ts",
+				source: "\tabortTask() {\n\t\tthis.abort = true\n\t}",
+			},
+		])
+
+		const result = await parseMentions("Explain @symbol:Task.abortTask please", "/test", urlContentFetcher)
+
+		expect(findSymbolDefinitions).toHaveBeenCalledWith("Task.abortTask", "/test", undefined)
+		expect(result.text).toContain("Explain Symbol 'Task.abortTask' (see below for its definition) please")
+		expect(result.text).toContain('<symbol_definition name="Task.abortTask">\nsrc/task.ts:2-4 (method)\n2 | ')
+	})
+
+	it("should report symbol lookup errors", async () => {
+		vi.mocked(findSymbolDefinitions).mockRejectedValue(new Error("ripgrep not found"))
+
+		const result = await parseMentions("@symbol:parseMentions", "/test", urlContentFetcher)
+
+		expect(result.text).toContain("Error finding definition: ripgrep not found")
+	})
+
+	it("should include the diff against a mentioned branch", async () => {
+		vi.mocked(getBranchDiff).mockResolvedValue("Changes in the working tree compared to feature/x")
+
+		const result = await parseMentions("Review @diff:feature/x.", "/test", urlContentFetcher)
+
+		expect(getBranchDiff).toHaveBeenCalledWith("feature/x", "/test")
+		expect(result.text).toContain("Review Changes compared to branch 'feature/x' (see below for diff).")
+		expect(result.text).toContain(
+			'<git_branch_diff branch="feature/x">\nChanges in the working tree compared to feature/x\n</git_branch_diff>',
+		)
+	})
+
+	it("should include the changes made at a mentioned checkpoint", async () => {
+		const checkpointService = {
+			getDiff: vi.fn().mockResolvedValue([
+				{
+					paths: { relative: "src/app.ts", absolute: "/test/src/app.ts" },
+					content: { before: "const a = 1\n", after: "const a = 2\n" },
+				},
+			]),
+		}
+
+		const result = await parseMentions(
+			"Undo @checkpoint:abc1234",
+			"/test",
+			urlContentFetcher,
+			undefined,
+			undefined,
+			false,
+			true,
+			50,
+			undefined,
+			checkpointService as any,
+		)
+
+		expect(checkpointService.getDiff).toHaveBeenCalledWith({ from: "abc1234^", to: "abc1234" })
+		expect(result.text).toContain("Undo Checkpoint 'abc1234' (see below for its changes)")
+		expect(result.text).toContain('<checkpoint_changes hash="abc1234">')
+		expect(result.text).toContain("-const a = 1\n+const a = 2")
+	})
+
+	it("should explain that checkpoints are unavailable without a checkpoint service", async () => {
+		const result = await parseMentions("@checkpoint:abc1234", "/test", urlContentFetcher)
+
+		expect(result.text).toContain("Checkpoints are not enabled for this task.")
+	})
+})
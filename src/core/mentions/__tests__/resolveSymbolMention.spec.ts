@@ -0,0 +1,122 @@
+import * as fs from "fs/promises"
+import * as os from "os"
+import * as path from "path"
+
+import { executeRipgrep } from "../../../services/search/file-search"
+import { codeParser } from "../../../services/code-index/processors/parser"
+import { findSymbolDefinitions, formatSymbolDefinitions } from "../resolveSymbolMention"
+
+vi.mock("../../../services/search/file-search", () => ({
+	executeRipgrep: vi.fn(),
+}))
+
+vi.mock("../../../services/code-index/processors/parser", () => ({
+	codeParser: { parseSymbols: vi.fn() },
+}))
+
+const taskSource = [
+	"export class Task {",
+	"	abortTask() {",
+	"		this.abort = true",
+	"	}",
+	"}",
+	"",
+	"export function abortTask() {",
+	"	return 1",
+	"}",
+].join("\n")
+
+describe("findSymbolDefinitions", () => {
+	let tempDir: string
+
+	beforeEach(async () => {
+		vi.clearAllMocks()
+		tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "symbol-mention-"))
+		await fs.mkdir(path.join(tempDir, "src"))
+		await fs.writeFile(path.join(tempDir, "src", "task.ts"), taskSource)
+		await fs.writeFile(path.join(tempDir, "notes.txt"), "abortTask")
+
+		vi.mocked(executeRipgrep).mockResolvedValue([
+			{ path: "src/task.ts", type: "file" },
+			{ path: "notes.txt", type: "file" },
+			{ path: "src", type: "folder" },
+		])
+		vi.mocked(codeParser.parseSymbols).mockResolvedValue({
+			definitions: [
+				{ name: "Task", kind: "class", line: 1, endLine: 5 },
+				{ name: "abortTask", kind: "method", line: 2, endLine: 4 },
+				{ name: "abortTask", kind: "function", line: 7, endLine: 9 },
+			],
+			references: {},
+			calls: [],
+			imports: [],
+		})
+	})
+
+	afterEach(async () => {
+		await fs.rm(tempDir, { recursive: true, force: true })
+	})
+
+	it("returns every definition of the name with its source range", async () => {
+		const definitions = await findSymbolDefinitions("abortTask", tempDir)
+
+		expect(executeRipgrep).toHaveBeenCalledWith(
+			expect.objectContaining({ args: expect.arrayContaining(["--word-regexp", "abortTask", tempDir]) }),
+		)
+		// Only files with a supported extension are parsed
+		expect(codeParser.parseSymbols).toHaveBeenCalledTimes(1)
+		expect(definitions).toEqual([
+			expect.objectContaining({
+				filePath: "src/task.ts",
+				kind: "method",
+				line: 2,
+				endLine: 4,
+				source: "\tabortTask() {\n\t\tthis.abort = true\n\t}",
+			}),
+			expect.objectContaining({ filePath: "src/task.ts", kind: "function", line: 7, endLine: 9 }),
+		])
+	})
+
+	it("restricts qualified names to definitions within the container", async () => {
+		const definitions = await findSymbolDefinitions("Task.abortTask", tempDir)
+
+		expect(executeRipgrep).toHaveBeenCalledWith(
+			expect.objectContaining({ args: expect.arrayContaining(["abortTask"]) }),
+		)
+		expect(definitions).toHaveLength(1)
+		expect(definitions[0]).toMatchObject({ kind: "method", line: 2 })
+	})
+
+	it("skips files ignored by .rooignore", async () => {
+		const rooIgnoreController = { validateAccess: vi.fn().mockReturnValue(false) }
+
+		const definitions = await findSymbolDefinitions("abortTask", tempDir, rooIgnoreController)
+
+		expect(rooIgnoreController.validateAccess).toHaveBeenCalledWith("src/task.ts")
+		expect(codeParser.parseSymbols).not.toHaveBeenCalled()
+		expect(definitions).toEqual([])
+	})
+})
+
+describe("formatSymbolDefinitions", () => {
+	it("formats each definition with its location and numbered source lines", () => {
+		const text = formatSymbolDefinitions("abortTask", [
+			{
+				name: "abortTask",
+				kind: "function",
+				line: 7,
+				endLine: 9,
+				filePath: "src/task.ts",
+				source: "export function abortTask() {\n\treturn 1\n}",
+			},
+		])
+
+		expect(text).toBe(
+			"src/task.ts:7-9 (function)\n7 | export function abortTask() {\n8 | \treturn 1\n9 | }",
+		)
+	})
+
+	it("says so when no definition was found", () => {
+		expect(formatSymbolDefinitions("Missing", [])).toBe("No definition of 'Missing' found in the workspace.")
+	})
+})
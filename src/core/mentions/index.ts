@@ -3,24 +3,31 @@ import * as path from "path"
 
 import * as vscode from "vscode"
 import { isBinaryFile } from "isbinaryfile"
+import { createTwoFilesPatch } from "diff"
 
 import { mentionRegexGlobal, commandRegexGlobal, unescapeSpaces } from "../../shared/context-mentions"
 
-import { getCommitInfo, getWorkingState } from "../../utils/git"
+import { getBranchDiff, getCommitInfo, getWorkingState } from "../../utils/git"
 
 import { openFile } from "../../integrations/misc/open-file"
-import { extractTextFromFile } from "../../integrations/misc/extract-text"
+import { extractTextFromFile, truncateOutput } from "../../integrations/misc/extract-text"
 import { diagnosticsToProblemsString } from "../../integrations/diagnostics"
 
 import { UrlContentFetcher } from "../../services/browser/UrlContentFetcher"
+import type { RepoPerTaskCheckpointService } from "../../services/checkpoints"
 
 import { FileContextTracker } from "../context-tracking/FileContextTracker"
 
 import { RooIgnoreController } from "../ignore/RooIgnoreController"
 import { getCommand, type Command } from "../../services/command/commands"
 
+import { findSymbolDefinitions, formatSymbolDefinitions } from "./resolveSymbolMention"
+
 import { t } from "../../i18n"
 
+/** Maximum number of lines of a checkpoint's changes included in the mention content */
+const CHECKPOINT_DIFF_LINE_LIMIT = 500
+
 function getUrlErrorMessage(error: unknown): string {
 	const errorMessage = error instanceof Error ? error.message : String(error)
 
@@ -68,6 +75,11 @@ export async function openMention(cwd: string, mention?: string): Promise<void>
 		vscode.commands.executeCommand("workbench.action.terminal.focus")
 	} else if (mention.startsWith("http")) {
 		vscode.env.openExternal(vscode.Uri.parse(mention))
+	} else if (mention.startsWith("symbol:")) {
+		const [definition] = await findSymbolDefinitions(mention.slice("symbol:".length), cwd).catch(() => [])
+		if (definition) {
+			openFile(path.resolve(cwd, definition.filePath), { line: definition.line })
+		}
 	}
 }
 
@@ -87,6 +99,7 @@ export async function parseMentions(
 	includeDiagnosticMessages: boolean = true,
 	maxDiagnosticMessages: number = 50,
 	maxReadFileLine?: number,
+	checkpointService?: RepoPerTaskCheckpointService,
 ): Promise<ParseMentionsResult> {
 	const mentions: Set<string> = new Set()
 	const validCommands: Map<string, Command> = new Map()
@@ -145,6 +158,12 @@ export async function parseMentions(
 			return `Git commit '${mention}' (see below for commit info)`
 		} else if (mention === "terminal") {
 			return `Terminal Output (see below for output)`
+		} else if (mention.startsWith("symbol:")) {
+			return `Symbol '${mention.slice("symbol:".length)}' (see below for its definition)`
+		} else if (mention.startsWith("diff:")) {
+			return `Changes compared to branch '${mention.slice("diff:".length)}' (see below for diff)`
+		} else if (mention.startsWith("checkpoint:")) {
+			return `Checkpoint '${mention.slice("checkpoint:".length)}' (see below for its changes)`
 		}
 		return match
 	})
@@ -243,6 +262,31 @@ export async function parseMentions(
 			} catch (error) {
 				parsedText += `\n\n<terminal_output>\nError fetching terminal output: ${error.message}\n</terminal_output>`
 			}
+		} else if (mention.startsWith("symbol:")) {
+			const symbol = mention.slice("symbol:".length)
+			try {
+				const definitions = await findSymbolDefinitions(symbol, cwd, rooIgnoreController)
+				const content = formatSymbolDefinitions(symbol, definitions)
+				parsedText += `\n\n<symbol_definition name="${symbol}">\n${content}\n</symbol_definition>`
+			} catch (error) {
+				parsedText += `\n\n<symbol_definition name="${symbol}">\nError finding definition: ${error.message}\n</symbol_definition>`
+			}
+		} else if (mention.startsWith("diff:")) {
+			const branch = mention.slice("diff:".length)
+			try {
+				const branchDiff = await getBranchDiff(branch, cwd)
+				parsedText += `\n\n<git_branch_diff branch="${branch}">\n${branchDiff}\n</git_branch_diff>`
+			} catch (error) {
+				parsedText += `\n\n<git_branch_diff branch="${branch}">\nError fetching diff: ${error.message}\n</git_branch_diff>`
+			}
+		} else if (mention.startsWith("checkpoint:")) {
+			const hash = mention.slice("checkpoint:".length)
+			try {
+				const changes = await getCheckpointChanges(hash, checkpointService)
+				parsedText += `\n\n<checkpoint_changes hash="${hash}">\n${changes}\n</checkpoint_changes>`
+			} catch (error) {
+				parsedText += `\n\n<checkpoint_changes hash="${hash}">\nError fetching checkpoint changes: ${error.message}\n</checkpoint_changes>`
+			}
 		}
 	}
 
@@ -379,6 +423,26 @@ async function getWorkspaceProblems(
 	return result
 }
 
+/**
+ * Gets the changes made at a checkpoint, i.e. the diff between the checkpoint
+ * and its parent in the task's shadow repository, as unified patches
+ */
+async function getCheckpointChanges(hash: string, checkpointService?: RepoPerTaskCheckpointService): Promise<string> {
+	if (!checkpointService) {
+		return "Checkpoints are not enabled for this task."
+	}
+
+	const changes = await checkpointService.getDiff({ from: `${hash}^`, to: hash })
+	if (changes.length === 0) {
+		return "No changes at this checkpoint."
+	}
+
+	const patches = changes.map(({ paths, content }) =>
+		createTwoFilesPatch(paths.relative, paths.relative, content.before, content.after).trim(),
+	)
+	return truncateOutput(patches.join("\n\n"), CHECKPOINT_DIFF_LINE_LIMIT)
+}
+
 /**
  * Gets the contents of the active terminal
  * @returns The terminal contents as a string
@@ -2,6 +2,7 @@ import { Anthropic } from "@anthropic-ai/sdk"
 import { parseMentions, ParseMentionsResult } from "./index"
 import { UrlContentFetcher } from "../../services/browser/UrlContentFetcher"
 import { FileContextTracker } from "../context-tracking/FileContextTracker"
+import type { RepoPerTaskCheckpointService } from "../../services/checkpoints"
 
 export interface ProcessUserContentMentionsResult {
 	content: Anthropic.Messages.ContentBlockParam[]
@@ -21,6 +22,7 @@ export async function processUserContentMentions({
 	includeDiagnosticMessages = true,
 	maxDiagnosticMessages = 50,
 	maxReadFileLine,
+	checkpointService,
 }: {
 	userContent: Anthropic.Messages.ContentBlockParam[]
 	cwd: string
@@ -31,6 +33,7 @@ export async function processUserContentMentions({
 	includeDiagnosticMessages?: boolean
 	maxDiagnosticMessages?: number
 	maxReadFileLine?: number
+	checkpointService?: RepoPerTaskCheckpointService
 }): Promise<ProcessUserContentMentionsResult> {
 	// Track the first mode found from slash commands
 	let commandMode: string | undefined
@@ -59,6 +62,7 @@ export async function processUserContentMentions({
 							includeDiagnosticMessages,
 							maxDiagnosticMessages,
 							maxReadFileLine,
+							checkpointService,
 						)
 						// Capture the first mode found
 						if (!commandMode && result.mode) {
@@ -93,6 +97,7 @@ export async function processUserContentMentions({
 								includeDiagnosticMessages,
 								maxDiagnosticMessages,
 								maxReadFileLine,
+								checkpointService,
 							)
 							// Capture the first mode found
 							if (!commandMode && result.mode) {
@@ -135,6 +140,7 @@ export async function processUserContentMentions({
 											includeDiagnosticMessages,
 											maxDiagnosticMessages,
 											maxReadFileLine,
+											checkpointService,
 										)
 										// Capture the first mode found
 										if (!commandMode && result.mode) {
@@ -0,0 +1,142 @@
+import fs from "fs/promises"
+import * as path from "path"
+
+import type { SymbolDefinition } from "../../services/code-index/interfaces"
+import { codeParser } from "../../services/code-index/processors/parser"
+import { scannerExtensions } from "../../services/code-index/shared/supported-extensions"
+import { executeRipgrep } from "../../services/search/file-search"
+import { addLineNumbers } from "../../integrations/misc/extract-text"
+
+/** Maximum number of files containing the symbol's name that are parsed */
+const MAX_CANDIDATE_FILES = 200
+
+/** Maximum number of definitions included in the mention content */
+const MAX_DEFINITIONS = 10
+
+/** Maximum number of source lines included per definition */
+const MAX_DEFINITION_LINES = 400
+
+export interface ResolvedSymbolDefinition extends SymbolDefinition {
+	/** Workspace-relative path with posix separators */
+	filePath: string
+	/** Source lines of the definition, from `line` to `endLine` */
+	source: string
+}
+
+/**
+ * Finds the definitions of a symbol mentioned as `@symbol:Name` or
+ * `@symbol:Container.Name`.
+ *
+ * Files containing the name as a whole word are found with ripgrep and parsed
+ * with the tree-sitter grammars of the code index, so this works without the
+ * index being built. A qualified name only matches definitions that lie within
+ * a definition of the container in the same file.
+ *
+ * @param symbol Symbol name, optionally qualified with its containers
+ * @param cwd Workspace the search is limited to
+ * @param rooIgnoreController Optional controller; ignored files are skipped
+ */
+export async function findSymbolDefinitions(
+	symbol: string,
+	cwd: string,
+	rooIgnoreController?: { validateAccess: (filePath: string) => boolean },
+): Promise<ResolvedSymbolDefinition[]> {
+	const names = symbol.split(".")
+	const name = names[names.length - 1]
+	const container = names.length > 1 ? names[names.length - 2] : undefined
+
+	const candidates = await executeRipgrep({
+		args: [
+			"--files-with-matches",
+			"--word-regexp",
+			"--fixed-strings",
+			"--follow",
+			"-g",
+			"!**/node_modules/**",
+			"-g",
+			"!**/.git/**",
+			"--",
+			name,
+			cwd,
+		],
+		workspacePath: cwd,
+		limit: MAX_CANDIDATE_FILES,
+	})
+
+	const filePaths = candidates
+		.filter((result) => result.type === "file")
+		.map((result) => result.path.toPosix())
+		.filter((filePath) => scannerExtensions.includes(path.extname(filePath).toLowerCase()))
+		.filter((filePath) => !rooIgnoreController || rooIgnoreController.validateAccess(filePath))
+		.sort()
+
+	const results: ResolvedSymbolDefinition[] = []
+
+	for (const filePath of filePaths) {
+		const absolutePath = path.resolve(cwd, filePath)
+		const content = await fs.readFile(absolutePath, "utf8").catch(() => undefined)
+		if (content === undefined) {
+			continue
+		}
+
+		const { definitions } = await codeParser.parseSymbols(absolutePath, content)
+		const lines = content.split(/\r?\n/)
+
+		for (const definition of definitions) {
+			if (definition.name !== name) {
+				continue
+			}
+
+			const isInContainer =
+				!container ||
+				definitions.some(
+					(outer) =>
+						outer.name === container &&
+						outer !== definition &&
+						outer.line <= definition.line &&
+						definition.endLine <= outer.endLine,
+				)
+
+			if (isInContainer) {
+				results.push({
+					...definition,
+					filePath,
+					source: lines.slice(definition.line - 1, definition.endLine).join("\n"),
+				})
+			}
+		}
+	}
+
+	return results
+}
+
+/**
+ * Formats the definitions of a mentioned symbol with line-numbered source,
+ * limited to MAX_DEFINITIONS definitions of at most MAX_DEFINITION_LINES lines.
+ */
+export function formatSymbolDefinitions(symbol: string, definitions: ResolvedSymbolDefinition[]): string {
+	if (definitions.length === 0) {
+		return `No definition of '${symbol}' found in the workspace.`
+	}
+
+	const sections = definitions.slice(0, MAX_DEFINITIONS).map((definition) => {
+		const lines = definition.source.split("\n")
+		const shown = lines.slice(0, MAX_DEFINITION_LINES)
+		const truncated =
+			lines.length > shown.length
+				? `\n... ${lines.length - shown.length} more lines not shown; use read_file for the rest`
+				: ""
+
+		return (
+			`${definition.filePath}:${definition.line}-${definition.endLine} (${definition.kind})\n` +
+			addLineNumbers(shown.join("\n"), definition.line).replace(/\n$/, "") +
+			truncated
+		)
+	})
+
+	if (definitions.length > MAX_DEFINITIONS) {
+		sections.push(`... ${definitions.length - MAX_DEFINITIONS} more definitions not shown`)
+	}
+
+	return sections.join("\n\n")
+}
@@ -268,12 +268,15 @@ export function filterNativeToolsForMode(
 	)
 	allowedToolNames = customizedTools
 
-	// Conditionally exclude codebase_search if feature is disabled or not configured
+	// Conditionally exclude codebase_search and the symbol graph tools if feature is disabled or not configured
 	if (
 		!codeIndexManager ||
 		!(codeIndexManager.isFeatureEnabled && codeIndexManager.isFeatureConfigured && codeIndexManager.isInitialized)
 	) {
 		allowedToolNames.delete("codebase_search")
+		allowedToolNames.delete("find_references")
+		allowedToolNames.delete("find_callers")
+		allowedToolNames.delete("show_import_graph")
 	}
 
 	// Conditionally exclude update_todo_list if disabled in settings
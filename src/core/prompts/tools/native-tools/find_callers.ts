@@ -0,0 +1,41 @@
+import type OpenAI from "openai"
+
+const FIND_CALLERS_DESCRIPTION = `Find the call sites of a function or method, grouped by the function that contains each call, using the workspace's symbol graph. Use this to assess the blast radius of changing a function's behavior or parameters. Calls through a receiver (e.g. "this.store.save()" or "Store::save()") match the method name alone, so results for common method names can include other classes' methods with the same name.
+
+Parameters:
+- symbol: (required) Name of the called function or method, without a receiver or module prefix (e.g. "save", not "store.save")
+- path: (optional) Limit results to a subdirectory (relative to the current workspace directory). Leave empty for the entire workspace.
+
+Example: Finding everything that calls a function
+{ "symbol": "validateToolUse", "path": null }
+
+Example: Finding callers within the tests only
+{ "symbol": "createTask", "path": "src/__tests__" }`
+
+const SYMBOL_PARAMETER_DESCRIPTION = `Name of the called function or method, without receiver or module prefix`
+
+const PATH_PARAMETER_DESCRIPTION = `Optional subdirectory (relative to the workspace) to limit the results to`
+
+export default {
+	type: "function",
+	function: {
+		name: "find_callers",
+		description: FIND_CALLERS_DESCRIPTION,
+		strict: true,
+		parameters: {
+			type: "object",
+			properties: {
+				symbol: {
+					type: "string",
+					description: SYMBOL_PARAMETER_DESCRIPTION,
+				},
+				path: {
+					type: ["string", "null"],
+					description: PATH_PARAMETER_DESCRIPTION,
+				},
+			},
+			required: ["symbol", "path"],
+			additionalProperties: false,
+		},
+	},
+} satisfies OpenAI.Chat.ChatCompletionTool
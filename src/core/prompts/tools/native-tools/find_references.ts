@@ -0,0 +1,41 @@
+import type OpenAI from "openai"
+
+const FIND_REFERENCES_DESCRIPTION = `Find where a symbol (function, class, method, variable, type or constant) is defined and every line that uses it, using the workspace's symbol graph. Use this before renaming, changing the signature of, or deleting a symbol to see everything that could break, instead of grepping with search_files. Matches the exact identifier, so it does not return unrelated text such as comments or longer names that contain the symbol.
+
+Parameters:
+- symbol: (required) The exact identifier to look up, without a receiver or module prefix (e.g. "parseConfig", not "utils.parseConfig")
+- path: (optional) Limit results to a subdirectory (relative to the current workspace directory). Leave empty for the entire workspace.
+
+Example: Finding all uses of a function before changing its signature
+{ "symbol": "parseConfig", "path": null }
+
+Example: Finding uses of a class within one package
+{ "symbol": "SessionStore", "path": "packages/server" }`
+
+const SYMBOL_PARAMETER_DESCRIPTION = `Exact identifier to look up, without receiver or module prefix`
+
+const PATH_PARAMETER_DESCRIPTION = `Optional subdirectory (relative to the workspace) to limit the results to`
+
+export default {
+	type: "function",
+	function: {
+		name: "find_references",
+		description: FIND_REFERENCES_DESCRIPTION,
+		strict: true,
+		parameters: {
+			type: "object",
+			properties: {
+				symbol: {
+					type: "string",
+					description: SYMBOL_PARAMETER_DESCRIPTION,
+				},
+				path: {
+					type: ["string", "null"],
+					description: PATH_PARAMETER_DESCRIPTION,
+				},
+			},
+			required: ["symbol", "path"],
+			additionalProperties: false,
+		},
+	},
+} satisfies OpenAI.Chat.ChatCompletionTool
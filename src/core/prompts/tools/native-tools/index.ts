@@ -8,18 +8,25 @@ import browserAction from "./browser_action"
 import codebaseSearch from "./codebase_search"
 import executeCommand from "./execute_command"
 import fetchInstructions from "./fetch_instructions"
+import findCallers from "./find_callers"
+import findReferences from "./find_references"
 import generateImage from "./generate_image"
 import listFiles from "./list_files"
+import listProcesses from "./list_processes"
 import newTask from "./new_task"
 import readCommandOutput from "./read_command_output"
 import { createReadFileTool, type ReadFileToolOptions } from "./read_file"
 import runSlashCommand from "./run_slash_command"
+import showImportGraph from "./show_import_graph"
+import startProcess from "./start_process"
+import stopProcess from "./stop_process"
 import searchAndReplace from "./search_and_replace"
 import searchReplace from "./search_replace"
 import edit_file from "./edit_file"
 import searchFiles from "./search_files"
 import switchMode from "./switch_mode"
 import updateTodoList from "./update_todo_list"
+import waitForProcess from "./wait_for_process"
 import writeToFile from "./write_to_file"
 import { roopikNativeTools } from "./roopik"
 
@@ -64,8 +71,11 @@ export function getNativeTools(options: NativeToolsOptions = {}): OpenAI.Chat.Ch
 		codebaseSearch,
 		executeCommand,
 		fetchInstructions,
+		findCallers,
+		findReferences,
 		generateImage,
 		listFiles,
+		listProcesses,
 		newTask,
 		readCommandOutput,
 		createReadFileTool(readFileOptions),
@@ -74,8 +84,12 @@ export function getNativeTools(options: NativeToolsOptions = {}): OpenAI.Chat.Ch
 		searchReplace,
 		edit_file,
 		searchFiles,
+		showImportGraph,
+		startProcess,
+		stopProcess,
 		switchMode,
 		updateTodoList,
+		waitForProcess,
 		writeToFile,
 		...roopikNativeTools,
 	] satisfies OpenAI.Chat.ChatCompletionTool[]
@@ -0,0 +1,21 @@
+import type OpenAI from "openai"
+
+const LIST_PROCESSES_DESCRIPTION = `List the background processes started with start_process in this task, with their status (running, exited or stopped), exit code, process ID, the ports they reported listening on, how long they have been running and the artifact ID of their output for read_command_output.
+
+Example: Checking whether the dev server is still running
+{}`
+
+export default {
+	type: "function",
+	function: {
+		name: "list_processes",
+		description: LIST_PROCESSES_DESCRIPTION,
+		strict: true,
+		parameters: {
+			type: "object",
+			properties: {},
+			required: [],
+			additionalProperties: false,
+		},
+	},
+} satisfies OpenAI.Chat.ChatCompletionTool
@@ -14,15 +14,17 @@ const READ_COMMAND_OUTPUT_DESCRIPTION = `Retrieve the full output from a command
 2. You need to see more of the command output beyond the preview
 3. You want to search for specific content in large command output
 
-The tool supports two modes:
+The tool supports three modes:
 - **Read mode**: Read output starting from a byte offset with optional limit
 - **Search mode**: Filter lines matching a regex or literal pattern (like grep)
+- **Tail mode**: Read the last lines of the output, e.g. the latest output of a background process started with start_process
 
 Parameters:
 - artifact_id: (required) The artifact filename from the truncated output message (e.g., "cmd-1706119234567.txt")
 - search: (optional) Pattern to filter lines. Supports regex or literal strings. Case-insensitive. **Omit this parameter entirely if you don't need to filter - do not pass null or empty string.**
 - offset: (optional) Byte offset to start reading from. Default: 0. Use for pagination.
 - limit: (optional) Maximum bytes to return. Default: 40KB.
+- tail: (optional) Return only the last N lines of the output. Ignored when search is provided.
 
 Example: Reading truncated command output
 { "artifact_id": "cmd-1706119234567.txt" }
@@ -34,7 +36,10 @@ Example: Searching for errors in build output
 { "artifact_id": "cmd-1706119234567.txt", "search": "error|failed|Error" }
 
 Example: Finding specific test failures
-{ "artifact_id": "cmd-1706119234567.txt", "search": "FAIL" }`
+{ "artifact_id": "cmd-1706119234567.txt", "search": "FAIL" }
+
+Example: Checking the latest output of a background process
+{ "artifact_id": "cmd-1706119234567.txt", "tail": 50 }`
 
 const ARTIFACT_ID_DESCRIPTION = `The artifact filename from the truncated command output (e.g., "cmd-1706119234567.txt")`
 
@@ -44,6 +49,8 @@ const OFFSET_DESCRIPTION = `Byte offset to start reading from (default: 0, for p
 
 const LIMIT_DESCRIPTION = `Maximum bytes to return (default: 40KB)`
 
+const TAIL_DESCRIPTION = `Number of lines to return from the end of the output`
+
 export default {
 	type: "function",
 	function: {
@@ -73,6 +80,10 @@ export default {
 					type: "number",
 					description: LIMIT_DESCRIPTION,
 				},
+				tail: {
+					type: "number",
+					description: TAIL_DESCRIPTION,
+				},
 			},
 			required: ["artifact_id"],
 			additionalProperties: false,
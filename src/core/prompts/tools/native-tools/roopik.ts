@@ -1,7 +1,7 @@
 import type OpenAI from "openai"
 
 // ============================================================================
-// Browser Tools (14)
+// Browser Tools (22)
 // ============================================================================
 
 export const browser_open: OpenAI.Chat.ChatCompletionTool = {
@@ -203,6 +203,31 @@ export const browser_inspect_element: OpenAI.Chat.ChatCompletionTool = {
 	},
 }
 
+export const browser_audit_accessibility: OpenAI.Chat.ChatCompletionTool = {
+	type: "function",
+	function: {
+		name: "browser_audit_accessibility",
+		description:
+			"[Roopik IDE] Audit the current browser page for accessibility issues: missing image alt text, low color contrast (WCAG AA), invalid ARIA roles/attributes and broken ARIA references, focusable content hidden with aria-hidden, positive tabindex and keyboard-unreachable controls (focus order), and form controls, buttons or links without a label or accessible name. Each violation includes a CSS selector and the componentName/componentSource of the component that renders it, plus a per-component summary - fix the issues in those component files, then re-run the audit to confirm.",
+		strict: false,
+		parameters: {
+			type: "object",
+			properties: {
+				selector: {
+					type: "string",
+					description: "CSS selector limiting the audit to one part of the page (e.g., 'main', '#signup-form'). Defaults to the whole page.",
+				},
+				limit: {
+					type: "number",
+					description: "Maximum number of violations to return. Default: 50",
+				},
+			},
+			required: [],
+			additionalProperties: false,
+		},
+	},
+}
+
 export const browser_get_errors: OpenAI.Chat.ChatCompletionTool = {
 	type: "function",
 	function: {
@@ -266,6 +291,22 @@ export const browser_get_performance: OpenAI.Chat.ChatCompletionTool = {
 	},
 }
 
+export const browser_check_performance_budget: OpenAI.Chat.ChatCompletionTool = {
+	type: "function",
+	function: {
+		name: "browser_check_performance_budget",
+		description:
+			"[Roopik IDE] Evaluate the page currently open in the browser against the project's performance budget (.dio/performance-budget.json): LCP, CLS, JS heap, long tasks and script/transfer sizes. Returns pass/fail per metric with the measured value, the budget, and the trend versus the previous check in this task. When a budget exists, attempt_completion is refused on frontend tasks while the page is over budget, so run this after UI changes and fix regressions first. Reload the page before checking so load metrics are fresh.",
+		strict: true,
+		parameters: {
+			type: "object",
+			properties: {},
+			required: [],
+			additionalProperties: false,
+		},
+	},
+}
+
 export const browser_get_state: OpenAI.Chat.ChatCompletionTool = {
 	type: "function",
 	function: {
@@ -353,6 +394,216 @@ export const browser_get_network_requests: OpenAI.Chat.ChatCompletionTool = {
 	},
 }
 
+export const browser_add_network_mock: OpenAI.Chat.ChatCompletionTool = {
+	type: "function",
+	function: {
+		name: "browser_add_network_mock",
+		description:
+			"[Roopik IDE] Add (or update) a network mock rule for the browser preview: requests whose URL matches urlPattern get a canned response instead of hitting the network. Use it to exercise empty states (e.g. body '[]'), error states (status 500, or status 0 for a network failure) and loading states (latencyMs) without a real backend. Rules are saved per project in .dio/network-mocks.json and re-installed automatically after browser_open, browser_navigate and browser_reload. Only fetch/XMLHttpRequest calls made after the mocks are installed are intercepted.",
+		strict: false,
+		parameters: {
+			type: "object",
+			properties: {
+				urlPattern: {
+					type: "string",
+					description:
+						"URL pattern. Glob with * wildcards matched against the full URL (e.g. '*/api/users*'), a plain substring (e.g. '/api/users'), or a regex in slashes (e.g. '/\\/api\\/users\\/\\d+$/').",
+				},
+				id: {
+					type: "string",
+					description: "Rule id. Reuse an id to update that rule. Defaults to one derived from method and urlPattern.",
+				},
+				method: {
+					type: "string",
+					description: "HTTP method to match (GET, POST, ...). Default: any method",
+				},
+				status: {
+					type: "number",
+					description: "Response status code. Use 0 to simulate a network failure. Default: 200",
+				},
+				body: {
+					type: "string",
+					description: "Response body as text, usually JSON (e.g. '{\"items\": []}'). Content-Type defaults to application/json when it parses as JSON.",
+				},
+				headers: {
+					type: "object",
+					description: "Extra response headers, e.g. {\"Retry-After\": \"30\"}",
+					additionalProperties: { type: "string" },
+				},
+				latencyMs: {
+					type: "number",
+					description: "Delay before the response is delivered, in milliseconds. Default: 0",
+				},
+			},
+			required: ["urlPattern"],
+			additionalProperties: false,
+		},
+	},
+}
+
+export const browser_remove_network_mock: OpenAI.Chat.ChatCompletionTool = {
+	type: "function",
+	function: {
+		name: "browser_remove_network_mock",
+		description:
+			"[Roopik IDE] Remove a network mock rule by id, or all rules with all=true. Remove mocks when you are done testing UI states so the preview talks to the real backend again.",
+		strict: false,
+		parameters: {
+			type: "object",
+			properties: {
+				id: {
+					type: "string",
+					description: "Id of the rule to remove (see browser_list_network_mocks)",
+				},
+				all: {
+					type: "boolean",
+					description: "Remove every network mock rule for this project",
+				},
+			},
+			required: [],
+			additionalProperties: false,
+		},
+	},
+}
+
+export const browser_list_network_mocks: OpenAI.Chat.ChatCompletionTool = {
+	type: "function",
+	function: {
+		name: "browser_list_network_mocks",
+		description:
+			"[Roopik IDE] List the project's network mock rules and whether they are installed in the current page, including which requests they have served.",
+		strict: true,
+		parameters: {
+			type: "object",
+			properties: {},
+			required: [],
+			additionalProperties: false,
+		},
+	},
+}
+
+export const browser_save_visual_baseline: OpenAI.Chat.ChatCompletionTool = {
+	type: "function",
+	function: {
+		name: "browser_save_visual_baseline",
+		description:
+			"[Roopik IDE] Capture the current browser page and save it as a named visual baseline for the current viewport. Baselines are stored in the workspace under .dio/visual-baselines/ so they can be committed and reviewed. Saving again with the same name and viewport replaces the baseline. Take baselines BEFORE a UI refactor, then use browser_compare_visual_baseline afterwards to prove nothing visually changed.",
+		strict: true,
+		parameters: {
+			type: "object",
+			properties: {
+				name: {
+					type: "string",
+					description:
+						"Baseline name (e.g., 'login', 'dashboard-empty-state'). Defaults to the current route path (e.g., /settings/team → settings-team).",
+				},
+			},
+			required: [],
+			additionalProperties: false,
+		},
+	},
+}
+
+export const browser_compare_visual_baseline: OpenAI.Chat.ChatCompletionTool = {
+	type: "function",
+	function: {
+		name: "browser_compare_visual_baseline",
+		description:
+			"[Roopik IDE] Capture the current browser page and compare it pixel by pixel against a saved visual baseline for the same viewport. Returns pass/fail, the percentage of changed pixels, bounding boxes of changed regions, and a diff image with changes highlighted in red (also saved next to the baseline). Use browser_set_viewport first if the baseline was taken at a different viewport.",
+		strict: true,
+		parameters: {
+			type: "object",
+			properties: {
+				name: {
+					type: "string",
+					description: "Baseline name to compare against. Defaults to the current route path.",
+				},
+				threshold: {
+					type: "number",
+					description:
+						"Per-pixel color tolerance from 0 to 1. Higher values ignore subtle anti-aliasing differences. Default: 0.1",
+				},
+				maxDiffPercentage: {
+					type: "number",
+					description: "Percentage of changed pixels still considered a pass. Default: 0",
+				},
+			},
+			required: [],
+			additionalProperties: false,
+		},
+	},
+}
+
+export const browser_record_script: OpenAI.Chat.ChatCompletionTool = {
+	type: "function",
+	function: {
+		name: "browser_record_script",
+		description: `[Roopik IDE] Record a replayable browser script (a smoke test) from your own browser tool calls.
+
+Actions:
+- start: begin recording under 'name'. From then on every successful browser_navigate, browser_action_input and browser_set_viewport call is recorded as a step.
+- assert: attach checks to the most recent step (or to the start of the script if no step was recorded yet). Provide any of 'selector' (element must exist), 'urlPattern' (regex the URL must match), 'noConsoleErrors' (no new console errors).
+- stop: save the script to .dio/browser-scripts/<name>.json
+- discard: throw away the current recording
+
+Record a flow once after building a feature, then use browser_replay_script to re-verify it after later changes.`,
+		strict: false,
+		parameters: {
+			type: "object",
+			properties: {
+				action: {
+					type: "string",
+					description: "Recording action: start, assert, stop, discard",
+					enum: ["start", "assert", "stop", "discard"],
+				},
+				name: {
+					type: "string",
+					description: "Script name (required for 'start'), e.g. 'login-flow'",
+				},
+				selector: {
+					type: "string",
+					description: "For 'assert': CSS selector of an element that must exist after the step",
+				},
+				urlPattern: {
+					type: "string",
+					description: "For 'assert': regular expression the page URL must match after the step, e.g. '/dashboard$'",
+				},
+				noConsoleErrors: {
+					type: "boolean",
+					description: "For 'assert': require that no new console errors were logged",
+				},
+			},
+			required: ["action"],
+			additionalProperties: false,
+		},
+	},
+}
+
+export const browser_replay_script: OpenAI.Chat.ChatCompletionTool = {
+	type: "function",
+	function: {
+		name: "browser_replay_script",
+		description:
+			"[Roopik IDE] Replay a browser script recorded with browser_record_script and check its assertions after every step. Returns a per-step report with pass/fail, failing assertions, and the first failing step. Omit 'name' to list the available scripts.",
+		strict: false,
+		parameters: {
+			type: "object",
+			properties: {
+				name: {
+					type: "string",
+					description: "Name of the script in .dio/browser-scripts/",
+				},
+				stopOnFailure: {
+					type: "boolean",
+					description: "Stop at the first failing step. Default: true",
+				},
+			},
+			required: [],
+			additionalProperties: false,
+		},
+	},
+}
+
 // ============================================================================
 // Project Tools (3)
 // ============================================================================
@@ -512,7 +763,7 @@ export const canvas_open: OpenAI.Chat.ChatCompletionTool = {
 }
 
 // ============================================================================
-// Component Tools (6)
+// Component Tools (7)
 // ============================================================================
 
 export const component_add: OpenAI.Chat.ChatCompletionTool = {
@@ -520,8 +771,8 @@ export const component_add: OpenAI.Chat.ChatCompletionTool = {
 	function: {
 		name: "component_add",
 		description:
-			"[Roopik IDE - Canvas Only] Add an ISOLATED UI component to the Canvas for preview in the IDE's Canvas UI. Use for individual screens/sections (login, onboarding, card, hero, etc.). The Canvas automatically shows the preview - this is a sandbox environment for previewing isolated components.",
-		strict: true,
+			"[Roopik IDE - Canvas Only] Add an ISOLATED UI component to the Canvas for preview in the IDE's Canvas UI. Use for individual screens/sections (login, onboarding, card, hero, etc.). The Canvas automatically shows the preview - this is a sandbox environment for previewing isolated components. Pass variants to render the component once per prop combination as a labelled grid (e.g. size × theme × disabled), then check every cell with component_review_variants.",
+		strict: false,
 		parameters: {
 			type: "object",
 			properties: {
@@ -547,6 +798,16 @@ export const component_add: OpenAI.Chat.ChatCompletionTool = {
 						"Force framework: react, vue, svelte, vanilla. Auto-detected in IDE if not specified.",
 					enum: ["react", "vue", "svelte", "vanilla"],
 				},
+				variants: {
+					type: "object",
+					description:
+						'Prop variant matrix: prop name → values to try, e.g. {"size": ["sm", "md", "lg"], "theme": ["light", "dark"], "disabled": [false, true]}. Every combination is rendered as a labelled grid cell (max 64 combinations). Omit to render the component once.',
+					additionalProperties: { type: "array", items: {} },
+				},
+				baseProps: {
+					type: "object",
+					description: 'Props shared by every variant, e.g. {"children": "Submit"}. Only used with variants.',
+				},
 			},
 			required: ["folderPath"],
 			additionalProperties: false,
@@ -567,7 +828,7 @@ export const component_add_batch: OpenAI.Chat.ChatCompletionTool = {
 				components: {
 					type: "array",
 					description:
-						"Array of component objects, each with: folderPath (required, absolute or relative to workspace), canvasId, name, entryFile, framework (all optional)",
+						"Array of component objects, each with: folderPath (required, absolute or relative to workspace), canvasId, name, entryFile, framework, variants, baseProps (all optional; variants and baseProps work as in component_add)",
 					items: {
 						type: "object",
 						properties: {
@@ -576,6 +837,8 @@ export const component_add_batch: OpenAI.Chat.ChatCompletionTool = {
 							name: { type: "string" },
 							entryFile: { type: "string" },
 							framework: { type: "string" },
+							variants: { type: "object", additionalProperties: { type: "array", items: {} } },
+							baseProps: { type: "object" },
 						},
 						required: ["folderPath"],
 					},
@@ -675,6 +938,27 @@ export const component_rebuild: OpenAI.Chat.ChatCompletionTool = {
 	},
 }
 
+export const component_review_variants: OpenAI.Chat.ChatCompletionTool = {
+	type: "function",
+	function: {
+		name: "component_review_variants",
+		description:
+			"[Roopik IDE] Screenshot every cell of a component placed with a variant matrix (component_add with variants) and report which variants threw or logged console errors. Returns one labelled screenshot per variant plus a summary of passed/failed variants with their props and errors. Use it after adding or changing a component with variants, instead of screenshotting the canvas by hand.",
+		strict: true,
+		parameters: {
+			type: "object",
+			properties: {
+				componentId: {
+					type: "string",
+					description: "The component's unique ID",
+				},
+			},
+			required: ["componentId"],
+			additionalProperties: false,
+		},
+	},
+}
+
 export const canvas_validate_components: OpenAI.Chat.ChatCompletionTool = {
 	type: "function",
 	function: {
@@ -701,7 +985,7 @@ export const canvas_validate_components: OpenAI.Chat.ChatCompletionTool = {
 // ============================================================================
 
 export const roopikNativeTools: OpenAI.Chat.ChatCompletionTool[] = [
-	// Browser (14 tools)
+	// Browser (23 tools)
 	browser_open,
 	browser_close,
 	browser_action_input,
@@ -710,12 +994,21 @@ export const roopikNativeTools: OpenAI.Chat.ChatCompletionTool[] = [
 	browser_screenshot,
 	browser_execute_script,
 	browser_inspect_element,
+	browser_audit_accessibility,
 	browser_get_errors,
 	browser_get_console_logs,
 	browser_get_performance,
+	browser_check_performance_budget,
 	browser_get_state,
 	browser_set_viewport,
 	browser_get_network_requests,
+	browser_add_network_mock,
+	browser_remove_network_mock,
+	browser_list_network_mocks,
+	browser_save_visual_baseline,
+	browser_compare_visual_baseline,
+	browser_record_script,
+	browser_replay_script,
 	// Project (3 tools)
 	project_get_active,
 	project_start,
@@ -726,11 +1019,12 @@ export const roopikNativeTools: OpenAI.Chat.ChatCompletionTool[] = [
 	canvas_create,
 	canvas_open,
 	canvas_validate_components,
-	// Component (6 tools)
+	// Component (7 tools)
 	component_add,
 	component_add_batch,
 	component_remove,
 	component_get_info,
 	component_list,
 	component_rebuild,
+	component_review_variants,
 ]
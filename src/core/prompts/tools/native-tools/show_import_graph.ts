@@ -0,0 +1,31 @@
+import type OpenAI from "openai"
+
+const SHOW_IMPORT_GRAPH_DESCRIPTION = `Show the import graph of a file: the modules it imports (resolved to workspace files where possible) and the workspace files that import it. Use this to understand a file's dependencies and which files are affected when its exports change.
+
+Parameters:
+- path: (required) The file to inspect (relative to the current workspace directory)
+
+Example: Showing which files depend on a module
+{ "path": "src/utils/config.ts" }`
+
+const PATH_PARAMETER_DESCRIPTION = `File path to inspect, relative to the workspace`
+
+export default {
+	type: "function",
+	function: {
+		name: "show_import_graph",
+		description: SHOW_IMPORT_GRAPH_DESCRIPTION,
+		strict: true,
+		parameters: {
+			type: "object",
+			properties: {
+				path: {
+					type: "string",
+					description: PATH_PARAMETER_DESCRIPTION,
+				},
+			},
+			required: ["path"],
+			additionalProperties: false,
+		},
+	},
+} satisfies OpenAI.Chat.ChatCompletionTool
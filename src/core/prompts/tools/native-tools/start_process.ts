@@ -0,0 +1,62 @@
+import type OpenAI from "openai"
+
+const START_PROCESS_DESCRIPTION = `Start a long-running command, such as a dev server, file watcher or local database, as a named background process. The process keeps running while you continue working; its output is saved to a command output artifact that you can read with read_command_output (use "tail" for the latest output or "search" to grep it). Use list_processes to check its status and ports, wait_for_process to wait for it to become ready, and stop_process to stop it. Background processes are stopped automatically when the task ends. Use execute_command instead for commands that finish on their own.
+
+Parameters:
+- name: (required) A short name to refer to the process by, e.g. "dev-server". Letters, digits, dots, dashes and underscores only.
+- command: (required) The CLI command to run. This should be valid for the current operating system.
+- cwd: (optional) The working directory to run the command in
+- ready_pattern: (optional) A regular expression matched against the output. When provided, the tool waits until the output matches, the process exits or the timeout elapses before returning.
+- timeout: (optional) Seconds to wait for ready_pattern to match. Default: 60.
+
+Example: Starting a Vite dev server and waiting until it is ready
+{ "name": "web", "command": "npm run dev", "cwd": null, "ready_pattern": "Local:\\\\s+http", "timeout": null }
+
+Example: Starting a test watcher in a package directory
+{ "name": "tests", "command": "npx vitest", "cwd": "packages/core", "ready_pattern": null, "timeout": null }`
+
+const NAME_PARAMETER_DESCRIPTION = `Short name to refer to the process by`
+
+const COMMAND_PARAMETER_DESCRIPTION = `Shell command to run in the background`
+
+const CWD_PARAMETER_DESCRIPTION = `Optional working directory for the command, relative or absolute`
+
+const READY_PATTERN_PARAMETER_DESCRIPTION = `Optional regular expression to wait for in the output before returning`
+
+const TIMEOUT_PARAMETER_DESCRIPTION = `Optional number of seconds to wait for ready_pattern (default: 60)`
+
+export default {
+	type: "function",
+	function: {
+		name: "start_process",
+		description: START_PROCESS_DESCRIPTION,
+		strict: true,
+		parameters: {
+			type: "object",
+			properties: {
+				name: {
+					type: "string",
+					description: NAME_PARAMETER_DESCRIPTION,
+				},
+				command: {
+					type: "string",
+					description: COMMAND_PARAMETER_DESCRIPTION,
+				},
+				cwd: {
+					type: ["string", "null"],
+					description: CWD_PARAMETER_DESCRIPTION,
+				},
+				ready_pattern: {
+					type: ["string", "null"],
+					description: READY_PATTERN_PARAMETER_DESCRIPTION,
+				},
+				timeout: {
+					type: ["number", "null"],
+					description: TIMEOUT_PARAMETER_DESCRIPTION,
+				},
+			},
+			required: ["name", "command", "cwd", "ready_pattern", "timeout"],
+			additionalProperties: false,
+		},
+	},
+} satisfies OpenAI.Chat.ChatCompletionTool
@@ -0,0 +1,31 @@
+import type OpenAI from "openai"
+
+const STOP_PROCESS_DESCRIPTION = `Stop a background process started with start_process, including any child processes it started. Returns its final status and latest output. Stop processes you no longer need, for example before starting a server again on the same port.
+
+Parameters:
+- name: (required) The name the process was started with
+
+Example: Stopping the dev server
+{ "name": "web" }`
+
+const NAME_PARAMETER_DESCRIPTION = `Name the process was started with`
+
+export default {
+	type: "function",
+	function: {
+		name: "stop_process",
+		description: STOP_PROCESS_DESCRIPTION,
+		strict: true,
+		parameters: {
+			type: "object",
+			properties: {
+				name: {
+					type: "string",
+					description: NAME_PARAMETER_DESCRIPTION,
+				},
+			},
+			required: ["name"],
+			additionalProperties: false,
+		},
+	},
+} satisfies OpenAI.Chat.ChatCompletionTool
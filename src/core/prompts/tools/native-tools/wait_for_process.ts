@@ -0,0 +1,45 @@
+import type OpenAI from "openai"
+
+const WAIT_FOR_PROCESS_DESCRIPTION = `Wait until the output of a background process started with start_process matches a regular expression, for example a "ready" or "compiled" message, before continuing. Output the process has already printed is checked first. Returns when the pattern matches, the process exits or the timeout elapses, together with the latest output.
+
+Parameters:
+- name: (required) The name the process was started with
+- ready_pattern: (required) A regular expression matched against the output
+- timeout: (optional) Seconds to wait. Default: 60.
+
+Example: Waiting for a rebuild to finish
+{ "name": "watch", "ready_pattern": "Found 0 errors|compiled successfully", "timeout": 120 }`
+
+const NAME_PARAMETER_DESCRIPTION = `Name the process was started with`
+
+const READY_PATTERN_PARAMETER_DESCRIPTION = `Regular expression to wait for in the output`
+
+const TIMEOUT_PARAMETER_DESCRIPTION = `Optional number of seconds to wait (default: 60)`
+
+export default {
+	type: "function",
+	function: {
+		name: "wait_for_process",
+		description: WAIT_FOR_PROCESS_DESCRIPTION,
+		strict: true,
+		parameters: {
+			type: "object",
+			properties: {
+				name: {
+					type: "string",
+					description: NAME_PARAMETER_DESCRIPTION,
+				},
+				ready_pattern: {
+					type: "string",
+					description: READY_PATTERN_PARAMETER_DESCRIPTION,
+				},
+				timeout: {
+					type: ["number", "null"],
+					description: TIMEOUT_PARAMETER_DESCRIPTION,
+				},
+			},
+			required: ["name", "ready_pattern", "timeout"],
+			additionalProperties: false,
+		},
+	},
+} satisfies OpenAI.Chat.ChatCompletionTool
@@ -5,11 +5,14 @@
  * used for tool validation and routing.
  *
  * Tool Categories:
- * - Browser (14): open, close, action, navigate, reload, screenshot, execute_script, inspect_element,
- *                 get_errors, get_console_logs, get_performance, get_state, set_viewport, get_network_requests
+ * - Browser (23): open, close, action, navigate, reload, screenshot, execute_script, inspect_element,
+ *                 audit_accessibility, get_errors, get_console_logs, get_performance, check_performance_budget, get_state,
+ *                 set_viewport, get_network_requests,
+ *                 add_network_mock, remove_network_mock, list_network_mocks,
+ *                 save_visual_baseline, compare_visual_baseline, record_script, replay_script
  * - Project (3): get_active, start, stop
  * - Canvas (3): list, get_active, create
- * - Component (8): add, add_batch, remove, get_info, list, rebuild, validate_components, screenshot
+ * - Component (8): add, add_batch, remove, get_info, list, rebuild, validate_components, review_variants
  */
 
 // =============================================================================
@@ -451,7 +454,7 @@ ${descriptions.join("\n\n")}`
  * Used for tool validation and routing.
  */
 export const ROOPIK_TOOL_NAMES = [
-	// Browser (14 tools)
+	// Browser (23 tools)
 	"browser_open",
 	"browser_close",
 	"browser_action_input",
@@ -460,12 +463,21 @@ export const ROOPIK_TOOL_NAMES = [
 	"browser_screenshot",
 	"browser_execute_script",
 	"browser_inspect_element",
+	"browser_audit_accessibility",
 	"browser_get_errors",
 	"browser_get_console_logs",
 	"browser_get_performance",
+	"browser_check_performance_budget",
 	"browser_get_state",
 	"browser_set_viewport",
 	"browser_get_network_requests",
+	"browser_add_network_mock",
+	"browser_remove_network_mock",
+	"browser_list_network_mocks",
+	"browser_save_visual_baseline",
+	"browser_compare_visual_baseline",
+	"browser_record_script",
+	"browser_replay_script",
 	// Project (3 tools)
 	"project_get_active",
 	"project_start",
@@ -476,13 +488,14 @@ export const ROOPIK_TOOL_NAMES = [
 	"canvas_create",
 	"canvas_open",
 	"canvas_validate_components",
-	// Component (6 tools)
+	// Component (7 tools)
 	"component_add",
 	"component_add_batch",
 	"component_remove",
 	"component_get_info",
 	"component_list",
 	"component_rebuild",
+	"component_review_variants",
 ] as const
 
 export type RoopikToolName = (typeof ROOPIK_TOOL_NAMES)[number]
@@ -57,7 +57,7 @@ import { TelemetryService } from "@roo-code/telemetry"
 import { CloudService, BridgeOrchestrator } from "@roo-code/cloud"
 
 // api
-import { ApiHandler, ApiHandlerCreateMessageMetadata, buildApiHandler } from "../../api"
+import { ApiHandler, ApiHandlerCreateMessageMetadata, buildApiHandler, hasActiveProfile } from "../../api"
 import { ApiStream, GroundingSource } from "../../api/transform/stream"
 import { maybeRemoveImageBlocks } from "../../api/transform/image-cleaning"
 
@@ -75,6 +75,7 @@ import { getModelMaxOutputTokens } from "../../shared/api"
 // services
 import { UrlContentFetcher } from "../../services/browser/UrlContentFetcher"
 import { BrowserSession } from "../../services/browser/BrowserSession"
+import { browserScriptRecorder } from "../../services/roopik/browser-scripts"
 import { McpHub } from "../../services/mcp/McpHub"
 import { McpServerManager } from "../../services/mcp/McpServerManager"
 import { RepoPerTaskCheckpointService } from "../../services/checkpoints"
@@ -85,6 +86,7 @@ import { findToolName } from "../../integrations/misc/export-markdown"
 import { RooTerminalProcess } from "../../integrations/terminal/types"
 import { TerminalRegistry } from "../../integrations/terminal/TerminalRegistry"
 import { OutputInterceptor } from "../../integrations/terminal/OutputInterceptor"
+import { BackgroundProcessManager } from "../../integrations/terminal/BackgroundProcessManager"
 
 // utils
 import { calculateApiCostAnthropic, calculateApiCostOpenAI } from "../../shared/cost"
@@ -121,10 +123,16 @@ import { checkContextWindowExceededError } from "../context/context-management/c
 import {
 	type CheckpointDiffOptions,
 	type CheckpointRestoreOptions,
+	type CheckpointLabelOptions,
+	type CheckpointCherryPickOptions,
 	getCheckpointService,
 	checkpointSave,
 	checkpointRestore,
 	checkpointDiff,
+	checkpointLabel,
+	checkpointCherryPick,
+	postCheckpointTimeline,
+	getCheckpointRestoreFiles,
 } from "../checkpoints"
 import { processUserContentMentions } from "../mentions/processUserContentMentions"
 import { getMessagesSinceLastSummary, summarizeConversation, getEffectiveApiHistory } from "../condense"
@@ -133,6 +141,8 @@ import { AutoApprovalHandler, checkAutoApproval } from "../auto-approval"
 import { MessageManager } from "../message-manager"
 import { validateAndFixToolResultIds } from "./validateToolResultIds"
 import { mergeConsecutiveApiMessages } from "./mergeConsecutiveApiMessages"
+import { ModelRouter, type RoutedApi, fitsContextWindow, followsReadOnlyTools } from "./modelRouting"
+import { type BudgetedTask, isBudgetExceeded, isBudgetNearlyExceeded } from "../budget/SpendTracker"
 
 const MAX_EXPONENTIAL_BACKOFF_SECONDS = 600 // 10 minutes
 const DEFAULT_USAGE_COLLECTION_TIMEOUT_MS = 5000 // 5 seconds
@@ -159,6 +169,8 @@ export interface TaskOptions extends CreateTaskOptions {
 	workspacePath?: string
 	/** Initial status for the task's history item (e.g., "active" for child tasks) */
 	initialStatus?: "active" | "delegated" | "completed"
+	/** Name of the provider profile `apiConfiguration` comes from, if it isn't the active one */
+	apiConfigName?: string
 }
 
 export class Task extends EventEmitter<TaskEvents> implements TaskLike {
@@ -302,6 +314,7 @@ export class Task extends EventEmitter<TaskEvents> implements TaskLike {
 	fileContextTracker: FileContextTracker
 	urlContentFetcher: UrlContentFetcher
 	terminalProcess?: RooTerminalProcess
+	backgroundProcesses: BackgroundProcessManager
 
 	// Computer User
 	browserSession: BrowserSession
@@ -405,6 +418,20 @@ export class Task extends EventEmitter<TaskEvents> implements TaskLike {
 	// This prevents excessive getModel() calls during tool execution
 	cachedStreamingModel?: { id: string; info: ModelInfo }
 
+	// Phases of the task that `modelRouting` sends to other provider profiles
+	private readonly modelRouter = new ModelRouter(async (id) => {
+		const provider = this.providerRef.deref()
+		if (!provider) {
+			throw new Error("Provider reference lost")
+		}
+		return provider.providerSettingsManager.getProfile({ id })
+	})
+	// The routed API serving the current request, if it isn't served by `api`
+	private routedApi?: RoutedApi
+
+	// Spending budgets the task has already warned are nearly used up
+	private readonly budgetWarnings = new Set<string>()
+
 	// Token Usage Cache
 	private tokenUsageSnapshot?: TokenUsage
 	private tokenUsageSnapshotAt?: number
@@ -444,6 +471,7 @@ export class Task extends EventEmitter<TaskEvents> implements TaskLike {
 		initialTodos,
 		workspacePath,
 		initialStatus,
+		apiConfigName,
 	}: TaskOptions) {
 		super()
 
@@ -486,6 +514,7 @@ export class Task extends EventEmitter<TaskEvents> implements TaskLike {
 		this.rooIgnoreController = new RooIgnoreController(this.cwd)
 		this.rooProtectedController = new RooProtectedController(this.cwd)
 		this.fileContextTracker = new FileContextTracker(provider, this.taskId)
+		this.backgroundProcesses = new BackgroundProcessManager(this.taskId)
 
 		this.rooIgnoreController.initialize().catch((error) => {
 			console.error("Failed to initialize RooIgnoreController:", error)
@@ -540,9 +569,10 @@ export class Task extends EventEmitter<TaskEvents> implements TaskLike {
 			this.taskApiConfigReady = Promise.resolve()
 			TelemetryService.instance.captureTaskRestarted(this.taskId)
 		} else {
-			// For new tasks, don't set the mode/apiConfigName yet - wait for async initialization.
+			// For new tasks, don't set the mode/apiConfigName yet - wait for async initialization,
+			// which keeps an API config name passed in for a profile other than the active one.
 			this._taskMode = undefined
-			this._taskApiConfigName = undefined
+			this._taskApiConfigName = apiConfigName
 			this.taskModeReady = this.initializeTaskMode(provider)
 			this.taskApiConfigReady = this.initializeTaskApiConfigName(provider)
 			TelemetryService.instance.captureTaskCreated(this.taskId)
@@ -1679,6 +1709,7 @@ export class Task extends EventEmitter<TaskEvents> implements TaskLike {
 		const environmentDetails = await getEnvironmentDetails(this, true)
 
 		const filesReadByRoo = await this.getFilesReadByRooSafely("condenseContext")
+		const condensingApi = await this.modelRouter.route("condense", state?.modelRouting, this._taskApiConfigName)
 
 		const {
 			messages,
@@ -1691,6 +1722,7 @@ export class Task extends EventEmitter<TaskEvents> implements TaskLike {
 		} = await summarizeConversation({
 			messages: this.apiConversationHistory,
 			apiHandler: this.api,
+			condensingApiHandler: condensingApi?.handler,
 			systemPrompt,
 			taskId: this.taskId,
 			isAutomaticTrigger: false,
@@ -1900,6 +1932,66 @@ export class Task extends EventEmitter<TaskEvents> implements TaskLike {
 		}
 	}
 
+	/**
+	 * The task as its spending budgets see it, with the messages it hasn't saved yet.
+	 */
+	public getBudgetedTask(): BudgetedTask {
+		return {
+			taskId: this.taskId,
+			task: this.metadata.task ?? "",
+			workspace: this.workspacePath,
+			profileName: this._taskApiConfigName,
+			messages: this.clineMessages,
+		}
+	}
+
+	/**
+	 * Warns once per budget when a spending budget is nearly used up, and pauses
+	 * the task while any budget is exceeded. The budgets are checked again each
+	 * time the user continues, so the task only resumes once they were raised.
+	 */
+	private async enforceSpendingBudgets(): Promise<void> {
+		while (true) {
+			const provider = this.providerRef.deref()
+
+			if (!provider?.spendTracker) {
+				return
+			}
+
+			const { spendingBudgets } = (await provider.getState()) ?? {}
+			const statuses = await provider.spendTracker.checkBudgets(spendingBudgets, this.getBudgetedTask())
+
+			for (const status of statuses.filter((status) => isBudgetNearlyExceeded(status, spendingBudgets))) {
+				const key = `${status.scope}:${status.subject}:${status.limit}`
+
+				if (!this.budgetWarnings.has(key)) {
+					this.budgetWarnings.add(key)
+					await this.say(
+						"budget_warning",
+						JSON.stringify(status),
+						undefined,
+						undefined,
+						undefined,
+						undefined,
+						{ isNonInteractive: true },
+					)
+				}
+			}
+
+			const exceeded = statuses.filter(isBudgetExceeded)
+
+			if (!exceeded.length) {
+				return
+			}
+
+			const { response } = await this.ask("budget_exceeded", JSON.stringify(exceeded))
+
+			if (response !== "yesButtonClicked") {
+				throw new Error("Spending budget exceeded and the task was not continued")
+			}
+		}
+	}
+
 	private async startTask(task?: string, images?: string[]): Promise<void> {
 		try {
 			if (this.enableBridge) {
@@ -2304,6 +2396,13 @@ export class Task extends EventEmitter<TaskEvents> implements TaskLike {
 				)
 		}
 
+		// Stop background processes started by this task.
+		try {
+			this.backgroundProcesses.stopAll()
+		} catch (error) {
+			console.error("Error stopping background processes:", error)
+		}
+
 		// Release any terminals associated with this task.
 		try {
 			// Release any terminals associated with this task.
@@ -2333,6 +2432,13 @@ export class Task extends EventEmitter<TaskEvents> implements TaskLike {
 		} catch (error) {
 			console.error("Error closing browser session:", error)
 		}
+
+		// Drop any unsaved browser script recording
+		try {
+			browserScriptRecorder.discard(this.taskId)
+		} catch (error) {
+			console.error("Error discarding browser script recording:", error)
+		}
 		// Also close the Browser Session panel when the task is disposed
 		try {
 			const provider = this.providerRef.deref()
@@ -2562,9 +2668,29 @@ export class Task extends EventEmitter<TaskEvents> implements TaskLike {
 			// take a few seconds. For the best UX we show a placeholder api_req_started
 			// message with a loading spinner as this happens.
 
+			// Requests that follow up on read-only tools can be routed to another profile,
+			// unless its model can't take the context managed for the task's own model.
+			let readRoute = followsReadOnlyTools(this.apiConversationHistory)
+				? await this.modelRouter.route(
+						"read",
+						(await this.providerRef.deref()?.getState())?.modelRouting,
+						this._taskApiConfigName,
+					)
+				: undefined
+			if (readRoute) {
+				const newTokens = await this.api.countTokens(currentUserContent)
+				if (!fitsContextWindow(readRoute, this.getTokenUsage().contextTokens + newTokens)) {
+					readRoute = undefined
+				}
+			}
+			this.routedApi = readRoute
+			const routedApi = this.routedApi
+			const requestApi = routedApi?.handler ?? this.api
+			const requestApiConfiguration = routedApi?.apiConfiguration ?? this.apiConfiguration
+
 			// Determine API protocol based on provider and model
-			const modelId = getModelId(this.apiConfiguration)
-			const apiProtocol = getApiProtocol(this.apiConfiguration.apiProvider, modelId)
+			const modelId = getModelId(requestApiConfiguration)
+			const apiProtocol = getApiProtocol(requestApiConfiguration.apiProvider, modelId)
 
 			// Respect user-configured provider rate limiting BEFORE we emit api_req_started.
 			// This prevents the UI from showing an "API Request..." spinner while we are
@@ -2601,6 +2727,7 @@ export class Task extends EventEmitter<TaskEvents> implements TaskLike {
 				includeDiagnosticMessages,
 				maxDiagnosticMessages,
 				maxReadFileLine,
+				checkpointService: this.checkpointService,
 			})
 
 			// Switch mode if specified in a slash command's frontmatter
@@ -2685,21 +2812,37 @@ export class Task extends EventEmitter<TaskEvents> implements TaskLike {
 
 					const existingData = JSON.parse(this.clineMessages[lastApiReqIndex].text || "{}")
 
+					// A failover profile reports the profile that actually served the request,
+					// and a routed request the profile it was routed to.
+					const servedBy =
+						(hasActiveProfile(requestApi) && requestApi.getActiveProfile()) ||
+						(routedApi && {
+							profileName: routedApi.profileName,
+							provider: routedApi.apiConfiguration.apiProvider,
+							modelId: routedApi.handler.getModel().id,
+						})
+
 					// Calculate total tokens and cost using provider-aware function
-					const modelId = getModelId(this.apiConfiguration)
-					const apiProtocol = getApiProtocol(this.apiConfiguration.apiProvider, modelId)
+					const modelId = servedBy?.modelId ?? getModelId(requestApiConfiguration)
+					const apiProtocol = getApiProtocol(
+						servedBy?.provider ?? requestApiConfiguration.apiProvider,
+						modelId,
+					)
 
+					// Price the request with the model that served it: a failover profile can switch
+					// models after streamModelInfo was read.
+					const modelInfo = requestApi.getModel().info
 					const costResult =
 						apiProtocol === "anthropic"
 							? calculateApiCostAnthropic(
-									streamModelInfo,
+									modelInfo,
 									inputTokens,
 									outputTokens,
 									cacheWriteTokens,
 									cacheReadTokens,
 								)
 							: calculateApiCostOpenAI(
-									streamModelInfo,
+									modelInfo,
 									inputTokens,
 									outputTokens,
 									cacheWriteTokens,
@@ -2715,6 +2858,7 @@ export class Task extends EventEmitter<TaskEvents> implements TaskLike {
 						cost: totalCost ?? costResult.totalCost,
 						cancelReason,
 						streamingFailedMessage,
+						servedBy,
 					} satisfies ClineApiReqInfo)
 				}
 
@@ -2768,7 +2912,7 @@ export class Task extends EventEmitter<TaskEvents> implements TaskLike {
 
 				// Cache model info once per API request to avoid repeated calls during streaming
 				// This is especially important for tools and background usage collection
-				this.cachedStreamingModel = this.api.getModel()
+				this.cachedStreamingModel = requestApi.getModel()
 				const streamModelInfo = this.cachedStreamingModel.info
 				const cachedModelId = this.cachedStreamingModel.id
 
@@ -3066,7 +3210,7 @@ export class Task extends EventEmitter<TaskEvents> implements TaskLike {
 					const drainStreamInBackgroundToFindAllUsage = async (apiReqIndex: number) => {
 						const timeoutMs = DEFAULT_USAGE_COLLECTION_TIMEOUT_MS
 						const startTime = performance.now()
-						const modelId = getModelId(this.apiConfiguration)
+						const modelId = getModelId(requestApiConfiguration)
 
 						// Local variables to accumulate usage data without affecting the main flow
 						let bgInputTokens = currentTokens.input
@@ -3110,8 +3254,8 @@ export class Task extends EventEmitter<TaskEvents> implements TaskLike {
 								}
 
 								// Capture telemetry with provider-aware cost calculation
-								const modelId = getModelId(this.apiConfiguration)
-								const apiProtocol = getApiProtocol(this.apiConfiguration.apiProvider, modelId)
+								const modelId = getModelId(requestApiConfiguration)
+								const apiProtocol = getApiProtocol(requestApiConfiguration.apiProvider, modelId)
 
 								// Use the appropriate cost function based on the API protocol
 								const costResult =
@@ -3890,6 +4034,11 @@ export class Task extends EventEmitter<TaskEvents> implements TaskLike {
 		try {
 			// Generate environment details to include in the condensed summary
 			const environmentDetails = await getEnvironmentDetails(this, true)
+			const condensingApi = await this.modelRouter.route(
+				"condense",
+				state?.modelRouting,
+				this._taskApiConfigName,
+			)
 
 			// Force aggressive truncation by keeping only 75% of the conversation history
 			const truncateResult = await manageContext({
@@ -3898,6 +4047,7 @@ export class Task extends EventEmitter<TaskEvents> implements TaskLike {
 				maxTokens,
 				contextWindow,
 				apiHandler: this.api,
+				condensingApiHandler: condensingApi?.handler,
 				autoCondenseContext: true,
 				autoCondenseContextPercent: FORCED_CONTEXT_REDUCTION_PERCENT,
 				systemPrompt: await this.getSystemPrompt(),
@@ -4117,6 +4267,12 @@ export class Task extends EventEmitter<TaskEvents> implements TaskLike {
 					? await this.getFilesReadByRooSafely("attemptApiRequest")
 					: undefined
 
+			// Condensing may be routed to another profile; only look it up when it will run.
+			const contextMgmtCondensingApi =
+				contextManagementWillRun && autoCondenseContext
+					? await this.modelRouter.route("condense", state?.modelRouting, this._taskApiConfigName)
+					: undefined
+
 			try {
 				const truncateResult = await manageContext({
 					messages: this.apiConversationHistory,
@@ -4124,6 +4280,7 @@ export class Task extends EventEmitter<TaskEvents> implements TaskLike {
 					maxTokens,
 					contextWindow,
 					apiHandler: this.api,
+					condensingApiHandler: contextMgmtCondensingApi?.handler,
 					autoCondenseContext,
 					autoCondenseContextPercent,
 					systemPrompt,
@@ -4202,7 +4359,13 @@ export class Task extends EventEmitter<TaskEvents> implements TaskLike {
 		// For API only: merge consecutive user messages (excludes summary messages per
 		// mergeConsecutiveApiMessages implementation) without mutating stored history.
 		const mergedForApi = mergeConsecutiveApiMessages(messagesSinceLastSummary, { roles: ["user"] })
-		const messagesWithoutImages = maybeRemoveImageBlocks(mergedForApi, this.api)
+
+		// The request itself goes to the routed profile, if any; context management above
+		// is about the task's own model.
+		const requestApi = this.routedApi?.handler ?? this.api
+		const requestApiConfiguration = this.routedApi?.apiConfiguration ?? apiConfiguration
+
+		const messagesWithoutImages = maybeRemoveImageBlocks(mergedForApi, requestApi)
 		const cleanConversationHistory = this.buildCleanConversationHistory(messagesWithoutImages as ApiMessage[])
 
 		// Check auto-approval limits
@@ -4217,8 +4380,10 @@ export class Task extends EventEmitter<TaskEvents> implements TaskLike {
 			throw new Error("Auto-approval limit reached and user did not approve continuation")
 		}
 
+		await this.enforceSpendingBudgets()
+
 		// Whether we include tools is determined by whether we have any tools to send.
-		const modelInfo = this.api.getModel().info
+		const modelInfo = requestApi.getModel().info
 
 		// Build complete tools array: native tools + dynamic MCP tools
 		// When includeAllToolsWithRestrictions is true, returns all tools but provides
@@ -4232,7 +4397,7 @@ export class Task extends EventEmitter<TaskEvents> implements TaskLike {
 		// but uses allowedFunctionNames to restrict which tools can be called.
 		// Other providers (Anthropic, OpenAI, etc.) don't support this feature yet,
 		// so they continue to receive only the filtered tools for the current mode.
-		const supportsAllowedFunctionNames = apiConfiguration?.apiProvider === "gemini"
+		const supportsAllowedFunctionNames = requestApiConfiguration?.apiProvider === "gemini"
 
 		{
 			const provider = this.providerRef.deref()
@@ -4246,7 +4411,7 @@ export class Task extends EventEmitter<TaskEvents> implements TaskLike {
 				mode,
 				customModes: state?.customModes,
 				experiments: state?.experiments,
-				apiConfiguration,
+				apiConfiguration: requestApiConfiguration,
 				maxReadFileLine: state?.maxReadFileLine ?? -1,
 				maxConcurrentFileReads: state?.maxConcurrentFileReads ?? 5,
 				browserToolEnabled: state?.browserToolEnabled ?? true,
@@ -4285,7 +4450,7 @@ export class Task extends EventEmitter<TaskEvents> implements TaskLike {
 		this.skipPrevResponseIdOnce = false
 
 		// The provider accepts reasoning items alongside standard messages; cast to the expected parameter type.
-		const stream = this.api.createMessage(
+		const stream = requestApi.createMessage(
 			systemPrompt,
 			cleanConversationHistory as unknown as Anthropic.Messages.MessageParam[],
 			metadata,
@@ -4325,7 +4490,7 @@ export class Task extends EventEmitter<TaskEvents> implements TaskLike {
 			// If it's a context window error and we haven't exceeded max retries for this error type
 			if (isContextWindowExceededError && retryAttempt < MAX_CONTEXT_WINDOW_RETRIES) {
 				console.warn(
-					`[Task#${this.taskId}] Context window exceeded for model ${this.api.getModel().id}. ` +
+					`[Task#${this.taskId}] Context window exceeded for model ${requestApi.getModel().id}. ` +
 						`Retry attempt ${retryAttempt + 1}/${MAX_CONTEXT_WINDOW_RETRIES}. ` +
 						`Attempting automatic truncation...`,
 				)
@@ -4608,6 +4773,22 @@ export class Task extends EventEmitter<TaskEvents> implements TaskLike {
 		return checkpointDiff(this, options)
 	}
 
+	public async checkpointLabel(options: CheckpointLabelOptions) {
+		return checkpointLabel(this, options)
+	}
+
+	public async checkpointCherryPick(options: CheckpointCherryPickOptions) {
+		return checkpointCherryPick(this, options)
+	}
+
+	public async postCheckpointTimeline() {
+		return postCheckpointTimeline(this)
+	}
+
+	public async getCheckpointRestoreFiles(commitHash: string) {
+		return getCheckpointRestoreFiles(this, commitHash)
+	}
+
 	// Metrics
 
 	public combineMessages(messages: ClineMessage[]) {
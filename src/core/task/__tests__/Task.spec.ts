@@ -6,7 +6,7 @@ import * as path from "path"
 import * as vscode from "vscode"
 import { Anthropic } from "@anthropic-ai/sdk"
 
-import type { GlobalState, ProviderSettings, ModelInfo } from "@roo-code/types"
+import type { GlobalState, ProviderSettings, ModelInfo, TokenUsage } from "@roo-code/types"
 import { TelemetryService } from "@roo-code/telemetry"
 
 import { Task } from "../Task"
@@ -1459,6 +1459,108 @@ describe("Cline", () => {
 			})
 		})
 
+		describe("API request cost", () => {
+			it("prices a request with the model that served it after a failover", async () => {
+				const [cline, task] = Task.create({
+					provider: mockProvider,
+					apiConfiguration: mockApiConfig,
+					task: "test task",
+				})
+
+				cline.abandoned = true
+				await task
+				cline.abandoned = false
+
+				const model = (id: string, price: number) => ({
+					id,
+					info: { contextWindow: 200_000, supportsPromptCache: false, inputPrice: price, outputPrice: price },
+				})
+				let activeModel = model("primary-model", 3)
+				let aborted = false
+				vi.spyOn(cline.api, "getModel").mockImplementation(() => activeModel)
+				vi.spyOn(cline.api, "createMessage").mockImplementation(async function* () {
+					// A failover handler switches to its backup profile once the primary fails.
+					activeModel = model("backup-model", 1)
+					yield { type: "text", text: "test response" } as ApiStreamChunk
+					yield { type: "usage", inputTokens: 1_000_000, outputTokens: 0 } as ApiStreamChunk
+					// Stop the task once this request is done instead of asking for the next one.
+					aborted = true
+				})
+				vi.spyOn(cline.diffViewProvider, "reset").mockResolvedValue()
+
+				Object.defineProperty(cline, "abort", {
+					get: () => aborted,
+					set: () => {},
+					configurable: true,
+				})
+
+				await cline.recursivelyMakeClineRequests([{ type: "text", text: "test request" }], false)
+
+				await vi.waitFor(() => {
+					const apiReq = cline.clineMessages.findLast((message) => message.say === "api_req_started")
+					expect(JSON.parse(apiReq?.text ?? "{}")).toMatchObject({ tokensIn: 1_000_000, cost: 1 })
+				})
+			})
+		})
+
+		describe("read routing", () => {
+			it("keeps a read follow-up on the task's model when the routed model's window is too small", async () => {
+				const [cline, task] = Task.create({
+					provider: mockProvider,
+					apiConfiguration: mockApiConfig,
+					task: "test task",
+				})
+
+				cline.abandoned = true
+				await task
+				cline.abandoned = false
+
+				let aborted = false
+				const stream = async function* () {
+					yield { type: "text", text: "test response" } as ApiStreamChunk
+					aborted = true
+				}
+				const routedCreateMessage = vi.fn(stream)
+				const smallModel = {
+					id: "small-model",
+					info: { contextWindow: 16_000, maxTokens: 2_000, supportsPromptCache: false },
+				}
+				;(cline as any).modelRouter.route = vi.fn().mockResolvedValue({
+					profileName: "Cheap",
+					apiConfiguration: { apiProvider: "openai" },
+					handler: {
+						getModel: () => smallModel,
+						createMessage: routedCreateMessage,
+						countTokens: async () => 0,
+					},
+				})
+				const createMessage = vi.spyOn(cline.api, "createMessage").mockImplementation(stream)
+				vi.spyOn(cline, "getTokenUsage").mockReturnValue({ contextTokens: 150_000 } as TokenUsage)
+				vi.spyOn(cline.diffViewProvider, "reset").mockResolvedValue()
+
+				Object.defineProperty(cline, "abort", {
+					get: () => aborted,
+					set: () => {},
+					configurable: true,
+				})
+
+				cline.apiConversationHistory = [
+					{ role: "user", content: [{ type: "text", text: "test task" }] },
+					{
+						role: "assistant",
+						content: [{ type: "tool_use", id: "toolu_1", name: "read_file", input: { path: "a.ts" } }],
+					},
+				]
+
+				await cline.recursivelyMakeClineRequests([
+					{ type: "tool_result", tool_use_id: "toolu_1", content: "file contents" },
+				])
+
+				expect(createMessage).toHaveBeenCalledTimes(1)
+				expect(routedCreateMessage).not.toHaveBeenCalled()
+			})
+		})
+
 		describe("submitUserMessage", () => {
 			it("should call handleWebviewAskResponse directly", async () => {
 				const task = new Task({
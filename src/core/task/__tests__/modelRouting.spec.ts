@@ -0,0 +1,108 @@
+// npx vitest run core/task/__tests__/modelRouting.spec.ts
+
+import type { ProviderSettings } from "@roo-code/types"
+
+import type { ApiHandler } from "../../../api"
+
+import type { ApiMessage } from "../../task-persistence"
+import { ModelRouter, fitsContextWindow, followsReadOnlyTools } from "../modelRouting"
+
+const toolCalls = (...names: string[]): ApiMessage => ({
+	role: "assistant",
+	content: names.map((name, index) => ({ type: "tool_use", id: `toolu_${index}`, name, input: {} })),
+})
+
+describe("ModelRouter", () => {
+	let profiles: Record<string, ProviderSettings & { name: string }>
+
+	const loadProfile = vi.fn(async (id: string) => {
+		if (!profiles[id]) {
+			throw new Error(`Config with ID '${id}' not found`)
+		}
+		return { ...profiles[id] }
+	})
+
+	beforeEach(() => {
+		profiles = {
+			cheap: { name: "Cheap", apiProvider: "anthropic", apiModelId: "claude-3-5-haiku-20241022", apiKey: "key" },
+			strong: { name: "Strong", apiProvider: "anthropic", apiModelId: "claude-sonnet-4-5", apiKey: "key" },
+		}
+		loadProfile.mockClear()
+	})
+
+	it("routes a phase to its profile and reuses the handler", async () => {
+		const router = new ModelRouter(loadProfile)
+
+		const route = await router.route("read", { read: "cheap" }, "Strong")
+
+		expect(route?.profileName).toBe("Cheap")
+		expect(route?.handler.getModel().id).toBe("claude-3-5-haiku-20241022")
+		expect((await router.route("read", { read: "cheap" }, "Strong"))?.handler).toBe(route?.handler)
+	})
+
+	it("rebuilds the handler when the profile changes", async () => {
+		const router = new ModelRouter(loadProfile)
+		const route = await router.route("condense", { condense: "cheap" })
+
+		profiles.cheap.apiModelId = "claude-3-5-sonnet-20241022"
+
+		const changed = await router.route("condense", { condense: "cheap" })
+		expect(changed?.handler).not.toBe(route?.handler)
+		expect(changed?.handler.getModel().id).toBe("claude-3-5-sonnet-20241022")
+	})
+
+	it("leaves phases to the task's API when they aren't routed elsewhere", async () => {
+		const router = new ModelRouter(loadProfile)
+		const warn = vi.spyOn(console, "warn").mockImplementation(() => {})
+
+		await expect(router.route("read", { condense: "cheap" }, "Strong")).resolves.toBeUndefined()
+		await expect(router.route("read", undefined, "Strong")).resolves.toBeUndefined()
+		await expect(router.route("read", { read: "strong" }, "Strong")).resolves.toBeUndefined()
+		await expect(router.route("read", { read: "deleted" }, "Strong")).resolves.toBeUndefined()
+		expect(warn).toHaveBeenCalledWith(expect.stringContaining("Config with ID 'deleted' not found"))
+
+		warn.mockRestore()
+	})
+})
+
+describe("fitsContextWindow", () => {
+	const route = (contextWindow: number, maxTokens: number) => ({
+		profileName: "Cheap",
+		apiConfiguration: { apiProvider: "openai" as const },
+		handler: {
+			getModel: () => ({ id: "small-model", info: { contextWindow, maxTokens, supportsPromptCache: false } }),
+		} as unknown as ApiHandler,
+	})
+
+	it("leaves room for the routed model's reply", () => {
+		expect(fitsContextWindow(route(32_000, 4_000), 28_000)).toBe(true)
+		expect(fitsContextWindow(route(32_000, 4_000), 28_001)).toBe(false)
+	})
+
+	it("rejects a context sized for a bigger model", () => {
+		expect(fitsContextWindow(route(16_000, 2_000), 150_000)).toBe(false)
+	})
+})
+
+describe("followsReadOnlyTools", () => {
+	const toolResults: ApiMessage = {
+		role: "user",
+		content: [{ type: "tool_result", tool_use_id: "toolu_0", content: "contents" }],
+	}
+
+	it("is true when the last tool calls were all read-only", () => {
+		expect(followsReadOnlyTools([toolCalls("read_file")])).toBe(true)
+		expect(followsReadOnlyTools([toolCalls("list_files", "search_files"), toolResults])).toBe(true)
+	})
+
+	it("is false when a tool could have changed something", () => {
+		expect(followsReadOnlyTools([toolCalls("read_file", "apply_diff"), toolResults])).toBe(false)
+		expect(followsReadOnlyTools([toolCalls("read_file"), toolResults, toolCalls("execute_command")])).toBe(false)
+	})
+
+	it("is false without tool calls", () => {
+		expect(followsReadOnlyTools([])).toBe(false)
+		expect(followsReadOnlyTools([{ role: "user", content: "Fix the bug" }])).toBe(false)
+		expect(followsReadOnlyTools([{ role: "assistant", content: "Done." }])).toBe(false)
+	})
+})
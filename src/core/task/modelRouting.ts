@@ -0,0 +1,100 @@
+import deepEqual from "fast-deep-equal"
+
+import type { ModelRouting, ModelRoutingPhase, ProviderSettings } from "@roo-code/types"
+
+import { type ApiHandler, buildApiHandler } from "../../api"
+import { getModelMaxOutputTokens } from "../../shared/api"
+import { findLastIndex } from "../../shared/array"
+import { TOOL_GROUPS } from "../../shared/tools"
+import type { ApiMessage } from "../task-persistence"
+
+export interface RoutedApi {
+	profileName: string
+	apiConfiguration: ProviderSettings
+	handler: ApiHandler
+}
+
+export type RoutingProfileLoader = (id: string) => Promise<ProviderSettings & { name: string }>
+
+/**
+ * Resolves the provider profiles that `modelRouting` assigns to the phases of a
+ * task. The handler of each routed profile is reused until the profile changes.
+ */
+export class ModelRouter {
+	private readonly routes = new Map<string, RoutedApi>()
+
+	constructor(private readonly loadProfile: RoutingProfileLoader) {}
+
+	/**
+	 * @returns The API to use for the phase, or undefined if the task's own API should
+	 * serve it: the phase isn't routed, its profile is gone or it's the task's profile.
+	 */
+	async route(
+		phase: ModelRoutingPhase,
+		modelRouting: ModelRouting | undefined,
+		taskProfileName?: string,
+	): Promise<RoutedApi | undefined> {
+		const profileId = modelRouting?.[phase]
+
+		if (!profileId) {
+			return undefined
+		}
+
+		let profile: ProviderSettings & { name: string }
+
+		try {
+			profile = await this.loadProfile(profileId)
+		} catch (error) {
+			console.warn(
+				`[ModelRouter] Ignoring the ${phase} route to profile ${profileId}: ${
+					error instanceof Error ? error.message : String(error)
+				}`,
+			)
+			return undefined
+		}
+
+		const { name: profileName, ...apiConfiguration } = profile
+
+		if (!apiConfiguration.apiProvider || profileName === taskProfileName) {
+			return undefined
+		}
+
+		let route = this.routes.get(profileId)
+
+		if (!route || route.profileName !== profileName || !deepEqual(route.apiConfiguration, apiConfiguration)) {
+			route = { profileName, apiConfiguration, handler: buildApiHandler(apiConfiguration) }
+			this.routes.set(profileId, route)
+		}
+
+		return route
+	}
+}
+
+/**
+ * Whether a routed profile's model has room for a context of `contextTokens` plus
+ * its reply. Context management sizes the history for the task's own model, so a
+ * route to a model with a smaller window can't take every request.
+ */
+export function fitsContextWindow({ handler, apiConfiguration }: RoutedApi, contextTokens: number): boolean {
+	const { id, info } = handler.getModel()
+	const maxTokens = getModelMaxOutputTokens({ modelId: id, model: info, settings: apiConfiguration }) ?? 0
+
+	return contextTokens + maxTokens <= info.contextWindow
+}
+
+const readOnlyTools = new Set<string>(TOOL_GROUPS.read.tools)
+
+/**
+ * Whether the tools called in the last assistant message were all read-only, in
+ * which case the next request only follows up on what they read.
+ */
+export function followsReadOnlyTools(messages: ApiMessage[]): boolean {
+	const lastAssistantMessage = messages[findLastIndex(messages, (message) => message.role === "assistant")]
+
+	if (!lastAssistantMessage || typeof lastAssistantMessage.content === "string") {
+		return false
+	}
+
+	const toolUses = lastAssistantMessage.content.filter((block) => block.type === "tool_use")
+	return toolUses.length > 0 && toolUses.every((block) => readOnlyTools.has(block.name))
+}
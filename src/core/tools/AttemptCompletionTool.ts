@@ -8,6 +8,8 @@ import { formatResponse } from "../prompts/responses"
 import { Package } from "../../shared/package"
 import type { ToolUse } from "../../shared/tools"
 import { t } from "../../i18n"
+import { getPerformanceBudgetCompletionError } from "./roopik/performanceBudget"
+import { getCompletionHookError } from "../hooks/lifecycleHooks"
 
 import { BaseTool, ToolCallbacks } from "./BaseTool"
 
@@ -76,6 +78,28 @@ export class AttemptCompletionTool extends BaseTool<"attempt_completion"> {
 				return
 			}
 
+			const performanceBudgetError = await getPerformanceBudgetCompletionError(task)
+
+			if (performanceBudgetError) {
+				task.consecutiveMistakeCount++
+				task.recordToolError("attempt_completion")
+
+				pushToolResult(formatResponse.toolError(performanceBudgetError))
+
+				return
+			}
+
+			const completionHookError = await getCompletionHookError(task)
+
+			if (completionHookError) {
+				task.consecutiveMistakeCount++
+				task.recordToolError("attempt_completion")
+
+				pushToolResult(formatResponse.toolError(completionHookError))
+
+				return
+			}
+
 			task.consecutiveMistakeCount = 0
 
 			await task.say("completion_result", result, undefined, false)
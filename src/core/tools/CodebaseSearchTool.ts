@@ -1,6 +1,8 @@
 import * as vscode from "vscode"
 import path from "path"
 
+import type { CodebaseSearchMatchReason } from "@roo-code/types"
+
 import { Task } from "../task/Task"
 import { CodeIndexManager } from "../../services/code-index/manager"
 import { getWorkspacePath } from "../../utils/path"
@@ -88,6 +90,8 @@ export class CodebaseSearchTool extends BaseTool<"codebase_search"> {
 					startLine: number
 					endLine: number
 					codeChunk: string
+					matchReasons?: CodebaseSearchMatchReason[]
+					matchedTerms?: string[]
 				}>
 			}
 
@@ -103,6 +107,8 @@ export class CodebaseSearchTool extends BaseTool<"codebase_search"> {
 					startLine: result.payload.startLine,
 					endLine: result.payload.endLine,
 					codeChunk: result.payload.codeChunk.trim(),
+					matchReasons: result.matchReasons,
+					matchedTerms: result.matchedTerms,
 				})
 			})
 
@@ -117,7 +123,7 @@ ${jsonResult.results
 		(result) => `File path: ${result.filePath}
 Score: ${result.score}
 Lines: ${result.startLine}-${result.endLine}
-Code Chunk: ${result.codeChunk}
+${formatMatchReasons(result.matchReasons, result.matchedTerms)}Code Chunk: ${result.codeChunk}
 `,
 	)
 	.join("\n")}`
@@ -143,4 +149,16 @@ Code Chunk: ${result.codeChunk}
 	}
 }
 
+/**
+ * Explains why a hybrid search hit was returned, e.g. "Match: keyword, exact (terms: foo, bar)".
+ * Vector-only results have no reasons and produce no line.
+ */
+function formatMatchReasons(matchReasons?: CodebaseSearchMatchReason[], matchedTerms?: string[]): string {
+	if (!matchReasons?.length) {
+		return ""
+	}
+	const terms = matchedTerms?.length ? ` (terms: ${matchedTerms.join(", ")})` : ""
+	return `Match: ${matchReasons.join(", ")}${terms}\n`
+}
+
 export const codebaseSearchTool = new CodebaseSearchTool()
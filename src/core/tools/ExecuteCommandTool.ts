@@ -4,7 +4,12 @@ import * as vscode from "vscode"
 
 import delay from "delay"
 
-import { CommandExecutionStatus, DEFAULT_TERMINAL_OUTPUT_PREVIEW_SIZE, PersistedCommandOutput } from "@roo-code/types"
+import {
+	CommandExecutionStatus,
+	DEFAULT_TERMINAL_OUTPUT_PREVIEW_SIZE,
+	PersistedCommandOutput,
+	TestRunSummary,
+} from "@roo-code/types"
 import { TelemetryService } from "@roo-code/telemetry"
 
 import { Task } from "../task/Task"
@@ -16,6 +21,7 @@ import { ExitCodeDetails, RooTerminalCallbacks, RooTerminalProcess } from "../..
 import { TerminalRegistry } from "../../integrations/terminal/TerminalRegistry"
 import { Terminal } from "../../integrations/terminal/Terminal"
 import { OutputInterceptor } from "../../integrations/terminal/OutputInterceptor"
+import { formatTestRunSummary, isTestCommand, parseTestResults } from "../../integrations/terminal/test-output"
 import { Package } from "../../shared/package"
 import { t } from "../../i18n"
 import { getTaskDirectoryPath } from "../../utils/storage"
@@ -181,6 +187,9 @@ export async function executeCommandInTerminal(
 	let exitDetails: ExitCodeDetails | undefined
 	let shellIntegrationError: string | undefined
 	let hasAskedForCommandOutput = false
+	// Full output of test commands, kept to summarise their results
+	let testOutput: string | undefined
+	const isTestRun = isTestCommand(command)
 
 	const terminalProvider = terminalShellIntegrationDisabled ? "execa" : "vscode"
 	const provider = await task.providerRef.deref()
@@ -265,6 +274,10 @@ export async function executeCommandInTerminal(
 					persistedResult = await interceptor.finalize()
 				}
 
+				if (isTestRun) {
+					testOutput = output ?? ""
+				}
+
 				// Continue using compressed output for UI display
 				result = Terminal.compressTerminalOutput(output ?? "")
 
@@ -304,6 +317,7 @@ export async function executeCommandInTerminal(
 		workingDir = terminal.getCurrentWorkingDirectory()
 	}
 
+	const startedAt = Date.now()
 	const process = terminal.runCommand(command, callbacks)
 	task.terminalProcess = process
 
@@ -387,10 +401,15 @@ export async function executeCommandInTerminal(
 		]
 	} else if (completed || exitDetails) {
 		const currentWorkingDir = terminal.getCurrentWorkingDirectory().toPosix()
+		const testResults =
+			testOutput !== undefined
+				? await summarizeTestResults(task, executionId, command, testOutput, workingDir, startedAt)
+				: undefined
+		const testResultsText = testResults ? `\n\n${formatTestRunSummary(testResults)}` : ""
 
 		// Use persisted output format when output was truncated and spilled to disk
 		if (persistedResult?.truncated) {
-			return [false, formatPersistedOutput(persistedResult, exitDetails, currentWorkingDir)]
+			return [false, formatPersistedOutput(persistedResult, exitDetails, currentWorkingDir) + testResultsText]
 		}
 
 		// Use inline format for small outputs (original behavior with exit status)
@@ -420,7 +439,7 @@ export async function executeCommandInTerminal(
 
 		return [
 			false,
-			`Command executed in terminal within working directory '${currentWorkingDir}'. ${exitStatus}\nOutput:\n${result}`,
+			`Command executed in terminal within working directory '${currentWorkingDir}'. ${exitStatus}\nOutput:\n${result}${testResultsText}`,
 		]
 	} else {
 		return [
@@ -434,6 +453,33 @@ export async function executeCommandInTerminal(
 	}
 }
 
+/**
+ * Summarise the results of a test command and show them with the command in the webview
+ */
+async function summarizeTestResults(
+	task: Task,
+	executionId: string,
+	command: string,
+	output: string,
+	cwd: string,
+	startedAt: number,
+): Promise<TestRunSummary | undefined> {
+	try {
+		const summary = await parseTestResults({ command, output, cwd, startedAt })
+
+		if (summary) {
+			const provider = await task.providerRef.deref()
+			const status: CommandExecutionStatus = { executionId, status: "testResults", summary }
+			provider?.postMessageToWebview({ type: "commandExecutionStatus", text: JSON.stringify(status) })
+		}
+
+		return summary
+	} catch (error) {
+		console.error(`[ExecuteCommandTool] Failed to parse test results of "${command}":`, error)
+		return undefined
+	}
+}
+
 /**
  * Format exit status from ExitCodeDetails
  */
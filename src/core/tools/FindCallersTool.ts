@@ -0,0 +1,81 @@
+import { type ClineSayTool } from "@roo-code/types"
+
+import { Task } from "../task/Task"
+import type { ToolUse } from "../../shared/tools"
+
+import { BaseTool, ToolCallbacks } from "./BaseTool"
+import { countFiles, formatSymbolLocations, getSymbolGraph } from "./helpers/symbolGraph"
+
+interface FindCallersParams {
+	symbol: string
+	path?: string
+}
+
+export class FindCallersTool extends BaseTool<"find_callers"> {
+	readonly name = "find_callers" as const
+
+	async execute(params: FindCallersParams, task: Task, callbacks: ToolCallbacks): Promise<void> {
+		const { askApproval, handleError, pushToolResult } = callbacks
+		const { symbol, path: directoryPrefix } = params
+
+		if (!symbol) {
+			task.consecutiveMistakeCount++
+			task.recordToolError("find_callers")
+			task.didToolFailInCurrentTurn = true
+			pushToolResult(await task.sayAndCreateMissingParamError("find_callers", "symbol"))
+			return
+		}
+
+		task.consecutiveMistakeCount = 0
+
+		try {
+			const symbolGraph = getSymbolGraph(task)
+			const calls = symbolGraph.findCallers(symbol, directoryPrefix || undefined)
+
+			let result: string
+			if (calls.length === 0) {
+				result = `No calls to "${symbol}" found.`
+			} else {
+				const callers = new Set(calls.map((call) => `${call.filePath}#${call.caller ?? ""}`))
+				const locations = await formatSymbolLocations(
+					symbolGraph.workspacePath,
+					calls,
+					(call) => `in ${call.caller ?? "<top level>"}`,
+				)
+				result = [
+					`Callers of ${symbol} (${calls.length} call sites in ${callers.size} callers across ${countFiles(calls)} files):`,
+					locations,
+				].join("\n")
+			}
+
+			const sharedMessageProps: ClineSayTool = {
+				tool: "findCallers",
+				symbol,
+				path: directoryPrefix || undefined,
+				content: result,
+			}
+
+			const didApprove = await askApproval("tool", JSON.stringify(sharedMessageProps))
+			if (!didApprove) {
+				return
+			}
+
+			pushToolResult(result)
+		} catch (error) {
+			await handleError("finding callers", error as Error)
+		}
+	}
+
+	override async handlePartial(task: Task, block: ToolUse<"find_callers">): Promise<void> {
+		const sharedMessageProps: ClineSayTool = {
+			tool: "findCallers",
+			symbol: block.params.symbol ?? "",
+			path: block.params.path,
+			content: "",
+		}
+
+		await task.ask("tool", JSON.stringify(sharedMessageProps), block.partial).catch(() => {})
+	}
+}
+
+export const findCallersTool = new FindCallersTool()
@@ -0,0 +1,82 @@
+import { type ClineSayTool } from "@roo-code/types"
+
+import { Task } from "../task/Task"
+import type { ToolUse } from "../../shared/tools"
+
+import { BaseTool, ToolCallbacks } from "./BaseTool"
+import { countFiles, formatSymbolLocations, getSymbolGraph } from "./helpers/symbolGraph"
+
+interface FindReferencesParams {
+	symbol: string
+	path?: string
+}
+
+export class FindReferencesTool extends BaseTool<"find_references"> {
+	readonly name = "find_references" as const
+
+	async execute(params: FindReferencesParams, task: Task, callbacks: ToolCallbacks): Promise<void> {
+		const { askApproval, handleError, pushToolResult } = callbacks
+		const { symbol, path: directoryPrefix } = params
+
+		if (!symbol) {
+			task.consecutiveMistakeCount++
+			task.recordToolError("find_references")
+			task.didToolFailInCurrentTurn = true
+			pushToolResult(await task.sayAndCreateMissingParamError("find_references", "symbol"))
+			return
+		}
+
+		task.consecutiveMistakeCount = 0
+
+		try {
+			const symbolGraph = getSymbolGraph(task)
+			const definitions = symbolGraph.findDefinitions(symbol, directoryPrefix || undefined)
+			const references = symbolGraph.findReferences(symbol, directoryPrefix || undefined)
+
+			let result: string
+			if (definitions.length === 0 && references.length === 0) {
+				result = `No definitions or references found for "${symbol}".`
+			} else {
+				const workspacePath = symbolGraph.workspacePath
+				result = [
+					`Symbol: ${symbol}`,
+					"",
+					`Definitions (${definitions.length}):`,
+					(await formatSymbolLocations(workspacePath, definitions, (d) => `(${d.kind})`)) || "(none found)",
+					"",
+					`References (${references.length} in ${countFiles(references)} files):`,
+					(await formatSymbolLocations(workspacePath, references)) || "(none found)",
+				].join("\n")
+			}
+
+			const sharedMessageProps: ClineSayTool = {
+				tool: "findReferences",
+				symbol,
+				path: directoryPrefix || undefined,
+				content: result,
+			}
+
+			const didApprove = await askApproval("tool", JSON.stringify(sharedMessageProps))
+			if (!didApprove) {
+				return
+			}
+
+			pushToolResult(result)
+		} catch (error) {
+			await handleError("finding references", error as Error)
+		}
+	}
+
+	override async handlePartial(task: Task, block: ToolUse<"find_references">): Promise<void> {
+		const sharedMessageProps: ClineSayTool = {
+			tool: "findReferences",
+			symbol: block.params.symbol ?? "",
+			path: block.params.path,
+			content: "",
+		}
+
+		await task.ask("tool", JSON.stringify(sharedMessageProps), block.partial).catch(() => {})
+	}
+}
+
+export const findReferencesTool = new FindReferencesTool()
@@ -0,0 +1,37 @@
+import { type ClineSayTool } from "@roo-code/types"
+
+import { Task } from "../task/Task"
+
+import { BaseTool, ToolCallbacks } from "./BaseTool"
+import { formatProcessInfo } from "./helpers/backgroundProcesses"
+
+export class ListProcessesTool extends BaseTool<"list_processes"> {
+	readonly name = "list_processes" as const
+
+	async execute(_params: Record<string, never>, task: Task, callbacks: ToolCallbacks): Promise<void> {
+		const { handleError, pushToolResult } = callbacks
+
+		try {
+			const processes = task.backgroundProcesses.list()
+			const now = Date.now()
+			const result =
+				processes.length > 0
+					? processes.map((info) => formatProcessInfo(info, now)).join("\n\n")
+					: "No background processes have been started in this task."
+
+			task.consecutiveMistakeCount = 0
+
+			const sharedMessageProps: ClineSayTool = {
+				tool: "listProcesses",
+				content: result,
+			}
+			await task.say("tool", JSON.stringify(sharedMessageProps))
+
+			pushToolResult(result)
+		} catch (error) {
+			await handleError("listing background processes", error as Error)
+		}
+	}
+}
+
+export const listProcessesTool = new ListProcessesTool()
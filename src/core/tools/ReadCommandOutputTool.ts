@@ -33,6 +33,11 @@ interface ReadCommandOutputParams {
 	 * Limits the amount of data returned in a single request.
 	 */
 	limit?: number
+	/**
+	 * Number of lines to return from the end of the output.
+	 * Used to check the latest output of a background process.
+	 */
+	tail?: number
 }
 
 /**
@@ -44,6 +49,7 @@ interface ReadCommandOutputParams {
  * 1. **Read full output**: Retrieve the complete command output beyond the preview
  * 2. **Search output**: Filter lines matching a pattern (like grep)
  * 3. **Paginate**: Read large outputs in chunks using offset/limit
+ * 4. **Tail**: Read the last lines, e.g. the latest output of a background process
  *
  * ## Storage Location
  *
@@ -97,7 +103,7 @@ export class ReadCommandOutputTool extends BaseTool<"read_command_output"> {
 	 */
 	async execute(params: ReadCommandOutputParams, task: Task, callbacks: ToolCallbacks): Promise<void> {
 		const { pushToolResult } = callbacks
-		const { artifact_id, search, offset = 0, limit = DEFAULT_LIMIT } = params
+		const { artifact_id, search, offset = 0, limit = DEFAULT_LIMIT, tail } = params
 
 		// Validate required parameters
 		if (!artifact_id) {
@@ -171,6 +177,12 @@ export class ReadCommandOutputTool extends BaseTool<"read_command_output"> {
 				// For search, we're scanning the whole file
 				readStart = 0
 				readEnd = totalSize
+			} else if (tail && tail > 0) {
+				// Tail mode: last lines, within the byte limit
+				const tailResult = await this.readArtifactTail(artifactPath, tail, limit, totalSize)
+				result = tailResult.content
+				readStart = tailResult.readStart
+				readEnd = totalSize
 			} else {
 				// Normal read mode with offset/limit
 				result = await this.readArtifact(artifactPath, offset, limit, totalSize)
@@ -271,6 +283,73 @@ export class ReadCommandOutputTool extends BaseTool<"read_command_output"> {
 		}
 	}
 
+	/**
+	 * Read the last lines of an artifact, adding line numbers.
+	 *
+	 * Reads at most `limit` bytes from the end of the file, so very long lines
+	 * can reduce the number of lines returned.
+	 *
+	 * @param artifactPath - Absolute path to the artifact file
+	 * @param lines - Maximum number of lines to return
+	 * @param limit - Maximum bytes to read
+	 * @param totalSize - Total size of the file in bytes
+	 * @returns Formatted output and the byte offset the returned lines start at
+	 * @private
+	 */
+	private async readArtifactTail(
+		artifactPath: string,
+		lines: number,
+		limit: number,
+		totalSize: number,
+	): Promise<{ content: string; readStart: number }> {
+		const fileHandle = await fs.open(artifactPath, "r")
+
+		try {
+			const windowStart = Math.max(0, totalSize - limit)
+			const buffer = Buffer.alloc(totalSize - windowStart)
+			const { bytesRead } = await fileHandle.read(buffer, 0, buffer.length, windowStart)
+			const window = buffer.slice(0, bytesRead)
+
+			// Walk back over `lines` newlines, ignoring a trailing newline
+			let end = window.length
+			if (end > 0 && window[end - 1] === 0x0a) {
+				end--
+			}
+			let start = end
+			let found = 0
+			while (start > 0 && found < lines) {
+				start--
+				if (window[start] === 0x0a) {
+					found++
+					if (found === lines) {
+						start++
+						break
+					}
+				}
+			}
+			// Drop a partial first line when the window starts mid-line
+			if (start === 0 && windowStart > 0) {
+				const firstNewline = window.indexOf(0x0a)
+				start = firstNewline === -1 || firstNewline >= end ? 0 : firstNewline + 1
+			}
+
+			const readStart = windowStart + start
+			const startLineNumber = readStart > 0 ? await this.countNewlinesBeforeOffset(fileHandle, readStart) : 1
+			const content = window.slice(start, end).toString("utf8")
+			const artifactId = path.basename(artifactPath)
+
+			const header = [
+				`[Command Output: ${artifactId}] (last ${lines} lines)`,
+				`Total size: ${this.formatBytes(totalSize)} | Showing bytes ${readStart}-${totalSize}`,
+				"",
+			].join("\n")
+
+			return { content: header + this.addLineNumbers(content, startLineNumber), readStart }
+		} finally {
+			await fileHandle.close()
+		}
+	}
+
 	/**
 	 * Search artifact content for lines matching a pattern using chunked streaming.
 	 *
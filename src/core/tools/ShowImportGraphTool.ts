@@ -0,0 +1,91 @@
+import path from "path"
+
+import { type ClineSayTool } from "@roo-code/types"
+
+import { Task } from "../task/Task"
+import { getReadablePath } from "../../utils/path"
+import type { ToolUse } from "../../shared/tools"
+
+import { BaseTool, ToolCallbacks } from "./BaseTool"
+import { getSymbolGraph } from "./helpers/symbolGraph"
+
+interface ShowImportGraphParams {
+	path: string
+}
+
+export class ShowImportGraphTool extends BaseTool<"show_import_graph"> {
+	readonly name = "show_import_graph" as const
+
+	async execute(params: ShowImportGraphParams, task: Task, callbacks: ToolCallbacks): Promise<void> {
+		const { askApproval, handleError, pushToolResult } = callbacks
+		const relPath = params.path
+
+		if (!relPath) {
+			task.consecutiveMistakeCount++
+			task.recordToolError("show_import_graph")
+			task.didToolFailInCurrentTurn = true
+			pushToolResult(await task.sayAndCreateMissingParamError("show_import_graph", "path"))
+			return
+		}
+
+		task.consecutiveMistakeCount = 0
+
+		try {
+			const symbolGraph = getSymbolGraph(task)
+			const graph = symbolGraph.getImportGraph(path.resolve(task.cwd, relPath))
+
+			let result: string
+			if (!graph) {
+				result = `${relPath} is not in the symbol graph. Only files included in the code index are tracked.`
+			} else {
+				const imports = graph.imports.map(
+					({ specifier, line, resolvedPath }) =>
+						`line ${line}: ${specifier} -> ${resolvedPath ?? "(external or unresolved)"}`,
+				)
+				const importedBy = graph.importedBy.map(
+					({ filePath, line, specifier }) => `${filePath}:${line} (imports ${specifier})`,
+				)
+				result = [
+					`File: ${graph.filePath}`,
+					"",
+					`Imports (${imports.length}):`,
+					imports.join("\n") || "(none)",
+					"",
+					`Imported by (${importedBy.length}):`,
+					importedBy.join("\n") || "(none)",
+				].join("\n")
+			}
+
+			const sharedMessageProps: ClineSayTool = {
+				tool: "showImportGraph",
+				path: getReadablePath(task.cwd, relPath),
+				content: result,
+			}
+
+			const didApprove = await askApproval("tool", JSON.stringify(sharedMessageProps))
+			if (!didApprove) {
+				return
+			}
+
+			pushToolResult(result)
+		} catch (error) {
+			await handleError("showing import graph", error as Error)
+		}
+	}
+
+	override async handlePartial(task: Task, block: ToolUse<"show_import_graph">): Promise<void> {
+		if (!this.hasPathStabilized(block.params.path)) {
+			return
+		}
+
+		const sharedMessageProps: ClineSayTool = {
+			tool: "showImportGraph",
+			path: getReadablePath(task.cwd, block.params.path ?? ""),
+			content: "",
+		}
+
+		await task.ask("tool", JSON.stringify(sharedMessageProps), block.partial).catch(() => {})
+	}
+}
+
+export const showImportGraphTool = new ShowImportGraphTool()
@@ -0,0 +1,117 @@
+import fs from "fs/promises"
+import * as path from "path"
+
+import { type ClineSayTool } from "@roo-code/types"
+
+import { Task } from "../task/Task"
+import { formatResponse } from "../prompts/responses"
+import { unescapeHtmlEntities } from "../../utils/text-normalization"
+import type { ToolUse } from "../../shared/tools"
+
+import { BaseTool, ToolCallbacks } from "./BaseTool"
+import {
+	formatProcessInfo,
+	formatRecentOutput,
+	formatWaitResult,
+	getCommandOutputDir,
+	getWaitTimeoutMs,
+	parseReadyPattern,
+} from "./helpers/backgroundProcesses"
+
+interface StartProcessParams {
+	name: string
+	command: string
+	cwd?: string | null
+	ready_pattern?: string | null
+	timeout?: number | null
+}
+
+export class StartProcessTool extends BaseTool<"start_process"> {
+	readonly name = "start_process" as const
+
+	async execute(params: StartProcessParams, task: Task, callbacks: ToolCallbacks): Promise<void> {
+		const { askApproval, handleError, pushToolResult } = callbacks
+		const { name, command, cwd: customCwd, ready_pattern: readyPattern, timeout } = params
+
+		if (!name) {
+			task.consecutiveMistakeCount++
+			task.recordToolError("start_process")
+			task.didToolFailInCurrentTurn = true
+			pushToolResult(await task.sayAndCreateMissingParamError("start_process", "name"))
+			return
+		}
+
+		if (!command) {
+			task.consecutiveMistakeCount++
+			task.recordToolError("start_process")
+			task.didToolFailInCurrentTurn = true
+			pushToolResult(await task.sayAndCreateMissingParamError("start_process", "command"))
+			return
+		}
+
+		try {
+			const ignoredFileAttemptedToAccess = task.rooIgnoreController?.validateCommand(command)
+
+			if (ignoredFileAttemptedToAccess) {
+				await task.say("rooignore_error", ignoredFileAttemptedToAccess)
+				pushToolResult(formatResponse.rooIgnoreError(ignoredFileAttemptedToAccess))
+				return
+			}
+
+			const pattern = readyPattern ? parseReadyPattern(readyPattern) : undefined
+			const workingDir = customCwd ? path.resolve(task.cwd, customCwd) : task.cwd
+
+			try {
+				await fs.access(workingDir)
+			} catch {
+				task.didToolFailInCurrentTurn = true
+				pushToolResult(formatResponse.toolError(`Working directory '${workingDir}' does not exist.`))
+				return
+			}
+
+			task.consecutiveMistakeCount = 0
+
+			const unescapedCommand = unescapeHtmlEntities(command)
+			const didApprove = await askApproval("command", unescapedCommand)
+
+			if (!didApprove) {
+				return
+			}
+
+			task.backgroundProcesses.start({
+				name,
+				command: unescapedCommand,
+				cwd: workingDir,
+				storageDir: await getCommandOutputDir(task),
+			})
+
+			const lines: string[] = []
+			if (pattern) {
+				const timeoutMs = getWaitTimeoutMs(timeout)
+				const waitResult = await task.backgroundProcesses.waitForOutput(name, pattern, timeoutMs)
+				lines.push(formatWaitResult(waitResult, readyPattern!, timeoutMs), "")
+			}
+
+			lines.push(formatProcessInfo(task.backgroundProcesses.get(name)!), "", formatRecentOutput(task, name))
+			const result = lines.join("\n")
+
+			const sharedMessageProps: ClineSayTool = {
+				tool: "startProcess",
+				processName: name,
+				content: result,
+			}
+			await task.say("tool", JSON.stringify(sharedMessageProps))
+
+			pushToolResult(result)
+		} catch (error) {
+			await handleError("starting background process", error as Error)
+		}
+	}
+
+	override async handlePartial(task: Task, block: ToolUse<"start_process">): Promise<void> {
+		const command = block.params.command
+		await task.ask("command", command ?? "", block.partial).catch(() => {})
+	}
+}
+
+export const startProcessTool = new StartProcessTool()
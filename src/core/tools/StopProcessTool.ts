@@ -0,0 +1,58 @@
+import { type ClineSayTool } from "@roo-code/types"
+
+import { Task } from "../task/Task"
+import { formatResponse } from "../prompts/responses"
+
+import { BaseTool, ToolCallbacks } from "./BaseTool"
+import { formatProcessInfo, formatRecentOutput } from "./helpers/backgroundProcesses"
+
+interface StopProcessParams {
+	name: string
+}
+
+export class StopProcessTool extends BaseTool<"stop_process"> {
+	readonly name = "stop_process" as const
+
+	async execute(params: StopProcessParams, task: Task, callbacks: ToolCallbacks): Promise<void> {
+		const { handleError, pushToolResult } = callbacks
+		const { name } = params
+
+		if (!name) {
+			task.consecutiveMistakeCount++
+			task.recordToolError("stop_process")
+			task.didToolFailInCurrentTurn = true
+			pushToolResult(await task.sayAndCreateMissingParamError("stop_process", "name"))
+			return
+		}
+
+		if (!task.backgroundProcesses.get(name)) {
+			task.consecutiveMistakeCount++
+			task.recordToolError("stop_process")
+			task.didToolFailInCurrentTurn = true
+			pushToolResult(
+				formatResponse.toolError(`No background process named "${name}". Use list_processes to see them.`),
+			)
+			return
+		}
+
+		try {
+			task.consecutiveMistakeCount = 0
+
+			const info = await task.backgroundProcesses.stop(name)
+			const result = [formatProcessInfo(info), "", formatRecentOutput(task, name)].join("\n")
+
+			const sharedMessageProps: ClineSayTool = {
+				tool: "stopProcess",
+				processName: name,
+				content: result,
+			}
+			await task.say("tool", JSON.stringify(sharedMessageProps))
+
+			pushToolResult(result)
+		} catch (error) {
+			await handleError("stopping background process", error as Error)
+		}
+	}
+}
+
+export const stopProcessTool = new StopProcessTool()
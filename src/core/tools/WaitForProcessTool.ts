@@ -0,0 +1,83 @@
+import { type ClineSayTool } from "@roo-code/types"
+
+import { Task } from "../task/Task"
+import { formatResponse } from "../prompts/responses"
+
+import { BaseTool, ToolCallbacks } from "./BaseTool"
+import {
+	formatProcessInfo,
+	formatRecentOutput,
+	formatWaitResult,
+	getWaitTimeoutMs,
+	parseReadyPattern,
+} from "./helpers/backgroundProcesses"
+
+interface WaitForProcessParams {
+	name: string
+	ready_pattern: string
+	timeout?: number | null
+}
+
+export class WaitForProcessTool extends BaseTool<"wait_for_process"> {
+	readonly name = "wait_for_process" as const
+
+	async execute(params: WaitForProcessParams, task: Task, callbacks: ToolCallbacks): Promise<void> {
+		const { handleError, pushToolResult } = callbacks
+		const { name, ready_pattern: readyPattern, timeout } = params
+
+		if (!name) {
+			task.consecutiveMistakeCount++
+			task.recordToolError("wait_for_process")
+			task.didToolFailInCurrentTurn = true
+			pushToolResult(await task.sayAndCreateMissingParamError("wait_for_process", "name"))
+			return
+		}
+
+		if (!readyPattern) {
+			task.consecutiveMistakeCount++
+			task.recordToolError("wait_for_process")
+			task.didToolFailInCurrentTurn = true
+			pushToolResult(await task.sayAndCreateMissingParamError("wait_for_process", "ready_pattern"))
+			return
+		}
+
+		if (!task.backgroundProcesses.get(name)) {
+			task.consecutiveMistakeCount++
+			task.recordToolError("wait_for_process")
+			task.didToolFailInCurrentTurn = true
+			pushToolResult(
+				formatResponse.toolError(`No background process named "${name}". Use list_processes to see them.`),
+			)
+			return
+		}
+
+		try {
+			const pattern = parseReadyPattern(readyPattern)
+			const timeoutMs = getWaitTimeoutMs(timeout)
+
+			task.consecutiveMistakeCount = 0
+
+			const waitResult = await task.backgroundProcesses.waitForOutput(name, pattern, timeoutMs)
+			const result = [
+				formatWaitResult(waitResult, readyPattern, timeoutMs),
+				"",
+				formatProcessInfo(task.backgroundProcesses.get(name)!),
+				"",
+				formatRecentOutput(task, name),
+			].join("\n")
+
+			const sharedMessageProps: ClineSayTool = {
+				tool: "waitForProcess",
+				processName: name,
+				content: result,
+			}
+			await task.say("tool", JSON.stringify(sharedMessageProps))
+
+			pushToolResult(result)
+		} catch (error) {
+			await handleError("waiting for background process", error as Error)
+		}
+	}
+}
+
+export const waitForProcessTool = new WaitForProcessTool()
@@ -379,6 +379,40 @@ describe("ReadCommandOutputTool", () => {
 		})
 	})
 
+	describe("Tail", () => {
+		const artifactId = "cmd-1706119234567.txt"
+		const content = "Line 1\nLine 2\nLine 3\nLine 4\nLine 5\n"
+		const fileBuffer = Buffer.from(content)
+
+		beforeEach(() => {
+			vi.mocked(fs.stat).mockResolvedValue({ size: fileBuffer.length } as any)
+			mockFileHandle.read.mockImplementation(
+				(buf: Buffer, bufOffset: number, length: number, position: number) => {
+					const bytesRead = fileBuffer.copy(buf, bufOffset, position, position + length)
+					return Promise.resolve({ bytesRead })
+				},
+			)
+		})
+
+		it("should return the last lines with their line numbers", async () => {
+			await tool.execute({ artifact_id: artifactId, tail: 2 }, mockTask, mockCallbacks)
+
+			const result = mockCallbacks.pushToolResult.mock.calls[0][0]
+			expect(result).toContain("(last 2 lines)")
+			expect(result).toMatch(/4 \| Line 4/)
+			expect(result).toMatch(/5 \| Line 5/)
+			expect(result).not.toContain("Line 3")
+		})
+
+		it("should skip a partial first line when the byte limit cuts into it", async () => {
+			await tool.execute({ artifact_id: artifactId, tail: 10, limit: 10 }, mockTask, mockCallbacks)
+
+			const result = mockCallbacks.pushToolResult.mock.calls[0][0]
+			expect(result).toMatch(/5 \| Line 5/)
+			expect(result).not.toContain("Line 4")
+		})
+	})
+
 	describe("Error handling", () => {
 		it("should return error for non-existent artifact", async () => {
 			const artifactId = "cmd-9999999999.txt"
@@ -25,9 +25,21 @@ vi.mock("../../../shared/package", () => ({
 	},
 }))
 
+// Mock the performance budget check, which would otherwise talk to Roopik IDE
+vi.mock("../roopik/performanceBudget", () => ({
+	getPerformanceBudgetCompletionError: vi.fn().mockResolvedValue(undefined),
+}))
+
+// Mock the completion hooks, which would otherwise run the user's scripts
+vi.mock("../../hooks/lifecycleHooks", () => ({
+	getCompletionHookError: vi.fn().mockResolvedValue(undefined),
+}))
+
 import { attemptCompletionTool, AttemptCompletionCallbacks } from "../AttemptCompletionTool"
 import { Task } from "../../task/Task"
 import * as vscode from "vscode"
+import { getPerformanceBudgetCompletionError } from "../roopik/performanceBudget"
+import { getCompletionHookError } from "../../hooks/lifecycleHooks"
 
 describe("attemptCompletionTool", () => {
 	let mockTask: Partial<Task>
@@ -469,4 +481,165 @@ describe("attemptCompletionTool", () => {
 			})
 		})
 	})
+
+	describe("performance budget validation", () => {
+		const block: AttemptCompletionToolUse = {
+			type: "tool_use",
+			name: "attempt_completion",
+			params: { result: "Task completed successfully" },
+			nativeArgs: { result: "Task completed successfully" },
+			partial: false,
+		}
+
+		it("should prevent completion when the page is over the performance budget", async () => {
+			vi.mocked(getPerformanceBudgetCompletionError).mockResolvedValueOnce(
+				"Cannot complete this task: the page exceeds the performance budget in .dio/performance-budget.json.",
+			)
+
+			const callbacks: AttemptCompletionCallbacks = {
+				askApproval: mockAskApproval,
+				handleError: mockHandleError,
+				pushToolResult: mockPushToolResult,
+				askFinishSubTaskApproval: mockAskFinishSubTaskApproval,
+				toolDescription: mockToolDescription,
+			}
+
+			await attemptCompletionTool.handle(mockTask as Task, block, callbacks)
+
+			expect(mockTask.consecutiveMistakeCount).toBe(1)
+			expect(mockTask.recordToolError).toHaveBeenCalledWith("attempt_completion")
+			expect(mockPushToolResult).toHaveBeenCalledWith(
+				expect.stringContaining("exceeds the performance budget"),
+			)
+			expect(mockTask.say).not.toHaveBeenCalledWith("completion_result", expect.anything(), undefined, false)
+		})
+
+		it("should allow completion when the page is within the performance budget", async () => {
+			const callbacks: AttemptCompletionCallbacks = {
+				askApproval: mockAskApproval,
+				handleError: mockHandleError,
+				pushToolResult: mockPushToolResult,
+				askFinishSubTaskApproval: mockAskFinishSubTaskApproval,
+				toolDescription: mockToolDescription,
+			}
+
+			await attemptCompletionTool.handle(mockTask as Task, block, callbacks)
+
+			expect(getPerformanceBudgetCompletionError).toHaveBeenCalledWith(mockTask)
+			expect(mockTask.consecutiveMistakeCount).toBe(0)
+			expect(mockTask.recordToolError).not.toHaveBeenCalled()
+		})
+
+		it("should not check the performance budget without a result", async () => {
+			vi.mocked(getPerformanceBudgetCompletionError).mockClear()
+			mockTask.sayAndCreateMissingParamError = vi.fn().mockResolvedValue("Missing value for result")
+
+			const callbacks: AttemptCompletionCallbacks = {
+				askApproval: mockAskApproval,
+				handleError: mockHandleError,
+				pushToolResult: mockPushToolResult,
+				askFinishSubTaskApproval: mockAskFinishSubTaskApproval,
+				toolDescription: mockToolDescription,
+			}
+
+			await attemptCompletionTool.handle(
+				mockTask as Task,
+				{ ...block, params: {}, nativeArgs: {} } as unknown as AttemptCompletionToolUse,
+				callbacks,
+			)
+
+			expect(getPerformanceBudgetCompletionError).not.toHaveBeenCalled()
+			expect(mockTask.sayAndCreateMissingParamError).toHaveBeenCalledWith("attempt_completion", "result")
+			expect(mockPushToolResult).toHaveBeenCalledWith("Missing value for result")
+		})
+
+		it("should report a failing performance budget check as a tool error", async () => {
+			const error = new Error("Roopik IDE is not responding")
+			vi.mocked(getPerformanceBudgetCompletionError).mockRejectedValueOnce(error)
+
+			const callbacks: AttemptCompletionCallbacks = {
+				askApproval: mockAskApproval,
+				handleError: mockHandleError,
+				pushToolResult: mockPushToolResult,
+				askFinishSubTaskApproval: mockAskFinishSubTaskApproval,
+				toolDescription: mockToolDescription,
+			}
+
+			await attemptCompletionTool.handle(mockTask as Task, block, callbacks)
+
+			expect(mockHandleError).toHaveBeenCalledWith("inspecting site", error)
+			expect(mockTask.say).not.toHaveBeenCalledWith("completion_result", expect.anything(), undefined, false)
+		})
+	})
+
+	describe("completion hooks", () => {
+		const block: AttemptCompletionToolUse = {
+			type: "tool_use",
+			name: "attempt_completion",
+			params: { result: "Task completed successfully" },
+			nativeArgs: { result: "Task completed successfully" },
+			partial: false,
+		}
+
+		it("should prevent completion when a completion hook fails", async () => {
+			vi.mocked(getCompletionHookError).mockResolvedValueOnce(
+				"Cannot complete the task: the completion hook `npm test` failed. Fix the problem and try again.",
+			)
+
+			const callbacks: AttemptCompletionCallbacks = {
+				askApproval: mockAskApproval,
+				handleError: mockHandleError,
+				pushToolResult: mockPushToolResult,
+				askFinishSubTaskApproval: mockAskFinishSubTaskApproval,
+				toolDescription: mockToolDescription,
+			}
+
+			await attemptCompletionTool.handle(mockTask as Task, block, callbacks)
+
+			expect(getCompletionHookError).toHaveBeenCalledWith(mockTask)
+			expect(mockTask.consecutiveMistakeCount).toBe(1)
+			expect(mockPushToolResult).toHaveBeenCalledWith(expect.stringContaining("`npm test` failed"))
+			expect(mockTask.say).not.toHaveBeenCalledWith("completion_result", expect.anything(), undefined, false)
+		})
+
+		it("should not run completion hooks without a result", async () => {
+			vi.mocked(getCompletionHookError).mockClear()
+			mockTask.sayAndCreateMissingParamError = vi.fn().mockResolvedValue("Missing value for result")
+
+			const callbacks: AttemptCompletionCallbacks = {
+				askApproval: mockAskApproval,
+				handleError: mockHandleError,
+				pushToolResult: mockPushToolResult,
+				askFinishSubTaskApproval: mockAskFinishSubTaskApproval,
+				toolDescription: mockToolDescription,
+			}
+
+			await attemptCompletionTool.handle(
+				mockTask as Task,
+				{ ...block, params: {}, nativeArgs: {} } as unknown as AttemptCompletionToolUse,
+				callbacks,
+			)
+
+			expect(getCompletionHookError).not.toHaveBeenCalled()
+			expect(mockPushToolResult).toHaveBeenCalledWith("Missing value for result")
+		})
+
+		it("should report a completion hook that can't run as a tool error", async () => {
+			const error = new Error("spawn sh ENOENT")
+			vi.mocked(getCompletionHookError).mockRejectedValueOnce(error)
+
+			const callbacks: AttemptCompletionCallbacks = {
+				askApproval: mockAskApproval,
+				handleError: mockHandleError,
+				pushToolResult: mockPushToolResult,
+				askFinishSubTaskApproval: mockAskFinishSubTaskApproval,
+				toolDescription: mockToolDescription,
+			}
+
+			await attemptCompletionTool.handle(mockTask as Task, block, callbacks)
+
+			expect(mockHandleError).toHaveBeenCalledWith("inspecting site", error)
+			expect(mockTask.say).not.toHaveBeenCalledWith("completion_result", expect.anything(), undefined, false)
+		})
+	})
 })
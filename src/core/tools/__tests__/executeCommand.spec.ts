@@ -395,6 +395,65 @@ describe("executeCommand", () => {
 		})
 	})
 
+	describe("Test Results", () => {
+		const testOutput = [
+			" FAIL  src/math.spec.ts > add > handles negatives",
+			"AssertionError: expected 1 to be 2",
+			" ❯ src/math.spec.ts:10:17",
+			"",
+			"      Tests  1 failed | 4 passed (5)",
+			"   Duration  1.20s",
+		].join("\n")
+
+		beforeEach(() => {
+			mockTerminal.runCommand.mockImplementation((command: string, callbacks: RooTerminalCallbacks) => {
+				setTimeout(() => {
+					callbacks.onCompleted(testOutput, mockProcess)
+					callbacks.onShellExecutionComplete({ exitCode: 1 }, mockProcess)
+				}, 0)
+				return mockProcess
+			})
+		})
+
+		it("should append a summary of the results of test commands", async () => {
+			const options: ExecuteCommandOptions = {
+				executionId: "test-123",
+				command: "npx vitest run",
+				terminalShellIntegrationDisabled: false,
+			}
+
+			const [, result] = await executeCommandInTerminal(mockTask, options)
+
+			expect(result).toContain("Test results (vitest): 1 failed, 4 passed in 1.20s")
+			expect(result).toContain(
+				"- src/math.spec.ts > add > handles negatives (src/math.spec.ts:10): AssertionError: expected 1 to be 2",
+			)
+
+			const statuses = mockProvider.postMessageToWebview.mock.calls.map(([message]: any) =>
+				JSON.parse(message.text),
+			)
+			expect(statuses).toContainEqual(
+				expect.objectContaining({
+					executionId: "test-123",
+					status: "testResults",
+					summary: expect.objectContaining({ framework: "vitest", passed: 4, failed: 1 }),
+				}),
+			)
+		})
+
+		it("should not summarise other commands", async () => {
+			const options: ExecuteCommandOptions = {
+				executionId: "test-123",
+				command: "cat test-log.txt",
+				terminalShellIntegrationDisabled: false,
+			}
+
+			const [, result] = await executeCommandInTerminal(mockTask, options)
+
+			expect(result).not.toContain("Test results")
+		})
+	})
+
 	describe("Terminal Working Directory Updates", () => {
 		it("should update working directory when terminal returns different cwd", async () => {
 			// Setup: Terminal initially at project root, but getCurrentWorkingDirectory returns different path
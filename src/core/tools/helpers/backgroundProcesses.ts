@@ -0,0 +1,116 @@
+import * as path from "path"
+
+import { Task } from "../../task/Task"
+import { getTaskDirectoryPath } from "../../../utils/storage"
+import type {
+	BackgroundProcessInfo,
+	WaitForOutputResult,
+} from "../../../integrations/terminal/BackgroundProcessManager"
+
+/** Default time to wait for a readiness pattern, in seconds */
+export const DEFAULT_PROCESS_WAIT_TIMEOUT_SECONDS = 60
+
+/** Longest time a readiness wait may take, in seconds */
+const MAX_PROCESS_WAIT_TIMEOUT_SECONDS = 600
+
+/** Number of output lines included in tool results */
+export const PROCESS_OUTPUT_PREVIEW_LINES = 20
+
+/**
+ * Returns the directory command output artifacts of the task are written to.
+ * @throws Error if the extension's global storage is not available
+ */
+export async function getCommandOutputDir(task: Task): Promise<string> {
+	const provider = await task.providerRef.deref()
+	const globalStoragePath = provider?.context?.globalStorageUri?.fsPath
+
+	if (!globalStoragePath) {
+		throw new Error("Unable to access command output storage. Global storage path is not available.")
+	}
+
+	return path.join(await getTaskDirectoryPath(globalStoragePath, task.taskId), "command-output")
+}
+
+/**
+ * Parses a readiness pattern as a regular expression.
+ * @throws Error with a message for the model if the pattern is invalid
+ */
+export function parseReadyPattern(pattern: string): RegExp {
+	try {
+		return new RegExp(pattern, "m")
+	} catch (error) {
+		throw new Error(`Invalid ready_pattern: ${error instanceof Error ? error.message : String(error)}`)
+	}
+}
+
+/**
+ * Converts the timeout parameter in seconds to milliseconds, applying the default and maximum.
+ */
+export function getWaitTimeoutMs(timeoutSeconds: number | null | undefined): number {
+	const seconds =
+		typeof timeoutSeconds === "number" && timeoutSeconds > 0
+			? Math.min(timeoutSeconds, MAX_PROCESS_WAIT_TIMEOUT_SECONDS)
+			: DEFAULT_PROCESS_WAIT_TIMEOUT_SECONDS
+	return seconds * 1000
+}
+
+/**
+ * Formats a process as a short multi-line summary.
+ */
+export function formatProcessInfo(info: BackgroundProcessInfo, now: number = Date.now()): string {
+	let status: string = info.status
+	if (info.status === "running") {
+		status += info.readyAt ? " (ready)" : ""
+		status += ` for ${formatDuration(now - info.startedAt)}`
+	} else if (info.signalName) {
+		status += ` (signal ${info.signalName})`
+	} else if (info.exitCode !== undefined) {
+		status += ` (exit code ${info.exitCode})`
+	}
+
+	return [
+		`Process "${info.name}": ${status}`,
+		`  Command: ${info.command}`,
+		`  Working directory: ${info.cwd.toPosix()}`,
+		...(info.pid !== undefined ? [`  PID: ${info.pid}`] : []),
+		...(info.ports.length > 0 ? [`  Ports: ${info.ports.join(", ")}`] : []),
+		`  Output: ${info.artifactId} (${info.outputBytes} bytes)`,
+	].join("\n")
+}
+
+/**
+ * Describes the outcome of waiting for a readiness pattern.
+ */
+export function formatWaitResult(result: WaitForOutputResult, pattern: string, timeoutMs: number): string {
+	switch (result.status) {
+		case "ready":
+			return `Output matched ready_pattern: ${result.match.trim()}`
+		case "exited":
+			return `The process exited before its output matched ready_pattern "${pattern}".`
+		case "timeout":
+			return (
+				`The output did not match ready_pattern "${pattern}" within ${timeoutMs / 1000}s. ` +
+				"The process is still running."
+			)
+	}
+}
+
+/**
+ * Formats the latest output lines of a process, or a note if there is none yet.
+ */
+export function formatRecentOutput(task: Task, name: string): string {
+	const output = task.backgroundProcesses.getRecentOutput(name, PROCESS_OUTPUT_PREVIEW_LINES)
+	return output.trim() ? `Latest output:\n${output}` : "No output yet."
+}
+
+function formatDuration(ms: number): string {
+	const seconds = Math.floor(ms / 1000)
+	if (seconds < 60) {
+		return `${seconds}s`
+	}
+	const minutes = Math.floor(seconds / 60)
+	if (minutes < 60) {
+		return `${minutes}m ${seconds % 60}s`
+	}
+	return `${Math.floor(minutes / 60)}h ${minutes % 60}m`
+}
@@ -0,0 +1,81 @@
+import fs from "fs/promises"
+import path from "path"
+
+import { Task } from "../../task/Task"
+import { CodeIndexManager } from "../../../services/code-index/manager"
+import { SymbolGraph } from "../../../services/code-index/symbol-graph"
+import { SymbolLocation } from "../../../services/code-index/interfaces"
+import { MAX_SYMBOL_GRAPH_RESULTS } from "../../../services/code-index/constants"
+
+const MAX_PREVIEW_CHARS = 200
+
+/**
+ * Returns the symbol graph of the task's workspace.
+ * @throws Error if code indexing is unavailable or the graph has not been built yet
+ */
+export function getSymbolGraph(task: Task): SymbolGraph {
+	const context = task.providerRef.deref()?.context
+	if (!context) {
+		throw new Error("Extension context is not available.")
+	}
+
+	const manager = CodeIndexManager.getInstance(context)
+	if (!manager) {
+		throw new Error("CodeIndexManager is not available.")
+	}
+	if (!manager.isFeatureEnabled) {
+		throw new Error("Code Indexing is disabled in the settings.")
+	}
+
+	const symbolGraph = manager.symbolGraph
+	if (!symbolGraph || symbolGraph.size === 0) {
+		throw new Error("The symbol graph has not been built yet. Try again once code indexing has finished.")
+	}
+
+	return symbolGraph
+}
+
+/**
+ * Formats locations as `path:line: source`, one per line, limited to MAX_SYMBOL_GRAPH_RESULTS.
+ * @param workspacePath Workspace the locations are relative to
+ * @param locations Locations to list
+ * @param describe Optional text inserted after the line number, e.g. the calling function
+ */
+export async function formatSymbolLocations<T extends SymbolLocation>(
+	workspacePath: string,
+	locations: T[],
+	describe?: (location: T) => string,
+): Promise<string> {
+	const shown = locations.slice(0, MAX_SYMBOL_GRAPH_RESULTS)
+	const fileLines = new Map<string, Promise<string[]>>()
+
+	const lines = await Promise.all(
+		shown.map(async (location) => {
+			let linesOfFile = fileLines.get(location.filePath)
+			if (!linesOfFile) {
+				linesOfFile = fs
+					.readFile(path.join(workspacePath, location.filePath), "utf8")
+					.then((content) => content.split(/\r?\n/))
+					.catch(() => [])
+				fileLines.set(location.filePath, linesOfFile)
+			}
+
+			const source = ((await linesOfFile)[location.line - 1] ?? "").trim().slice(0, MAX_PREVIEW_CHARS)
+			const description = describe ? ` ${describe(location)}` : ""
+			return `${location.filePath}:${location.line}${description}: ${source}`
+		}),
+	)
+
+	if (locations.length > shown.length) {
+		lines.push(`... ${locations.length - shown.length} more not shown; narrow the search with a path`)
+	}
+
+	return lines.join("\n")
+}
+
+/**
+ * Counts the distinct files of a list of locations.
+ */
+export function countFiles(locations: SymbolLocation[]): number {
+	return new Set(locations.map((location) => location.filePath)).size
+}
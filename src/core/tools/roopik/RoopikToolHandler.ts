@@ -8,11 +8,46 @@
  * LLM → Native Tool Call → RoopikToolHandler → RoopikToolClient → VSCode Commands → IPC → Core
  */
 
+import * as path from "path"
+
 import { Task } from "../../task/Task"
 import type { ToolUse, ToolResponse, HandleError, PushToolResult, AskApproval } from "../../../shared/tools"
 import { formatResponse } from "../../prompts/responses"
-import { roopikClient, RoopikToolResult } from "../../../services/roopik"
+import {
+	roopikClient,
+	RoopikToolResult,
+	type PageLoadOptions,
+	VisualBaselineStore,
+	type VisualViewport,
+	comparePngImages,
+	parseImageDataUrl,
+	toPngDataUrl,
+	getPngDimensions,
+	toBaselineName,
+	getViewportKey,
+	browserScriptRecorder,
+	BrowserScriptStore,
+	BrowserScriptRunner,
+	type BrowserScriptAssertion,
+	type BrowserScriptStep,
+	buildAccessibilityAuditScript,
+	parseAccessibilityAuditResult,
+	resolveViolationComponents,
+	groupViolationsByComponent,
+	NetworkMockStore,
+	buildNetworkMockScript,
+	NETWORK_MOCK_STATUS_SCRIPT,
+	type NetworkMockRule,
+	ComponentVariantStore,
+	parseVariantMatrix,
+	expandVariantMatrix,
+	buildVariantReview,
+	type ComponentVariant,
+	type VariantMatrix,
+	type AddComponentData,
+} from "../../../services/roopik"
 import { isRoopikTool, type RoopikToolName } from "../../prompts/tools/roopik/roopik-tools"
+import { checkPerformanceBudget } from "./performanceBudget"
 import { Anthropic } from "@anthropic-ai/sdk"
 
 /**
@@ -70,7 +105,7 @@ export async function handleRoopikTool(
 		let result: RoopikToolResult
 
 		switch (toolName) {
-			// Browser Tools (14)
+			// Browser Tools (23)
 			case "browser_open":
 				result = await handleBrowserOpen(task, block, callbacks)
 				break
@@ -95,6 +130,9 @@ export async function handleRoopikTool(
 			case "browser_inspect_element":
 				result = await handleInspectElement(task, block, callbacks)
 				break
+			case "browser_audit_accessibility":
+				result = await handleAuditAccessibility(task, block, callbacks)
+				break
 			case "browser_get_errors":
 				result = await handleGetErrors(task, block, callbacks)
 				break
@@ -104,6 +142,9 @@ export async function handleRoopikTool(
 			case "browser_get_performance":
 				result = await handleBrowserGetPerformance(task, block, callbacks)
 				break
+			case "browser_check_performance_budget":
+				result = await handleCheckPerformanceBudget(task, block, callbacks)
+				break
 			case "browser_get_state":
 				result = await handleBrowserGetState(task, block, callbacks)
 				break
@@ -113,6 +154,27 @@ export async function handleRoopikTool(
 			case "browser_get_network_requests":
 				result = await handleBrowserGetNetworkRequests(task, block, callbacks)
 				break
+			case "browser_save_visual_baseline":
+				result = await handleSaveVisualBaseline(task, block, callbacks)
+				break
+			case "browser_compare_visual_baseline":
+				result = await handleCompareVisualBaseline(task, block, callbacks)
+				break
+			case "browser_add_network_mock":
+				result = await handleAddNetworkMock(task, block, callbacks)
+				break
+			case "browser_remove_network_mock":
+				result = await handleRemoveNetworkMock(task, block, callbacks)
+				break
+			case "browser_list_network_mocks":
+				result = await handleListNetworkMocks(task, block, callbacks)
+				break
+			case "browser_record_script":
+				result = await handleRecordScript(task, block, callbacks)
+				break
+			case "browser_replay_script":
+				result = await handleReplayScript(task, block, callbacks)
+				break
 
 			// Project Tools (3)
 			case "project_get_active":
@@ -139,7 +201,7 @@ export async function handleRoopikTool(
 				result = await handleOpenCanvas(task, block, callbacks)
 				break
 
-			// Component Tools (7)
+			// Component Tools (8)
 			case "component_add":
 				result = await handleAddComponent(task, block, callbacks)
 				break
@@ -158,6 +220,9 @@ export async function handleRoopikTool(
 			case "component_rebuild":
 				result = await handleRebuildComponent(task, block, callbacks)
 				break
+			case "component_review_variants":
+				result = await handleReviewComponentVariants(task, block, callbacks)
+				break
 			case "canvas_validate_components":
 				result = await handleValidateComponents(task, block, callbacks)
 				break
@@ -200,7 +265,7 @@ async function handleRoopikToolPartial(
 
 async function handleBrowserOpen(task: Task, block: ToolUse, callbacks: ToolCallbacks): Promise<RoopikToolResult> {
 	const url = block.params.url || block.params.args
-	return roopikClient.browserOpen(url)
+	return withNetworkMocks(task, (options) => roopikClient.browserOpen(url, options))
 }
 
 async function handleBrowserClose(task: Task, block: ToolUse, callbacks: ToolCallbacks): Promise<RoopikToolResult> {
@@ -223,7 +288,7 @@ async function handleBrowserActionInput(task: Task, block: ToolUse, callbacks: T
 		}
 	}
 
-	return roopikClient.browserAction({
+	const args = {
 		action,
 		coordinate: block.params.coordinate,
 		text: block.params.text,
@@ -231,7 +296,10 @@ async function handleBrowserActionInput(task: Task, block: ToolUse, callbacks: T
 		modifiers,
 		deltaX: (block.params as any).deltaX ? parseFloat((block.params as any).deltaX) : undefined,
 		deltaY: (block.params as any).deltaY ? parseFloat((block.params as any).deltaY) : undefined,
-	})
+	}
+	const result = await roopikClient.browserAction(args)
+	recordBrowserStep(task, result, { tool: "browser_action_input", args })
+	return result
 }
 
 async function handleScreenshot(task: Task, block: ToolUse, callbacks: ToolCallbacks): Promise<RoopikToolResult> {
@@ -242,6 +310,10 @@ async function handleBrowserGetPerformance(task: Task, block: ToolUse, callbacks
 	return roopikClient.browserGetPerformance()
 }
 
+async function handleCheckPerformanceBudget(task: Task, block: ToolUse, callbacks: ToolCallbacks): Promise<RoopikToolResult> {
+	return checkPerformanceBudget(task)
+}
+
 async function handleBrowserGetState(task: Task, block: ToolUse, callbacks: ToolCallbacks): Promise<RoopikToolResult> {
 	return roopikClient.browserGetState()
 }
@@ -251,7 +323,9 @@ async function handleBrowserSetViewport(task: Task, block: ToolUse, callbacks: T
 	const height = block.params.height ? parseInt(block.params.height, 10) : undefined
 	const deviceScaleFactor = block.params.deviceScaleFactor ? parseFloat(block.params.deviceScaleFactor) : undefined
 	const mobile = block.params.mobile === "true"
-	return roopikClient.browserSetViewport(width, height, deviceScaleFactor, mobile)
+	const result = await roopikClient.browserSetViewport(width, height, deviceScaleFactor, mobile)
+	recordBrowserStep(task, result, { tool: "browser_set_viewport", args: { width, height, deviceScaleFactor, mobile } })
+	return result
 }
 
 async function handleBrowserGetNetworkRequests(task: Task, block: ToolUse, callbacks: ToolCallbacks): Promise<RoopikToolResult> {
@@ -268,12 +342,14 @@ async function handleNavigate(task: Task, block: ToolUse, callbacks: ToolCallbac
 	if (!url) {
 		return { success: false, error: "Missing required parameter: url" }
 	}
-	return roopikClient.navigate(url)
+	const result = await withNetworkMocks(task, (options) => roopikClient.navigate(url, options))
+	recordBrowserStep(task, result, { tool: "browser_navigate", args: { url } })
+	return result
 }
 
 async function handleReload(task: Task, block: ToolUse, callbacks: ToolCallbacks): Promise<RoopikToolResult> {
 	const ignoreCache = block.params.args?.toLowerCase() === "true" || block.params.ignoreCache?.toLowerCase() === "true"
-	return roopikClient.reload(ignoreCache)
+	return withNetworkMocks(task, (options) => roopikClient.reload(ignoreCache, options))
 }
 
 async function handleExecuteScript(task: Task, block: ToolUse, callbacks: ToolCallbacks): Promise<RoopikToolResult> {
@@ -293,6 +369,494 @@ async function handleInspectElement(task: Task, block: ToolUse, callbacks: ToolC
 	return roopikClient.inspectElement(selector, includeInherited)
 }
 
+async function handleAuditAccessibility(task: Task, block: ToolUse, callbacks: ToolCallbacks): Promise<RoopikToolResult> {
+	const scope = block.params.selector
+	const limit = block.params.limit ? parseInt(block.params.limit, 10) : undefined
+
+	const execution = await roopikClient.executeScript(buildAccessibilityAuditScript({ scope, limit }))
+	if (!execution.success) {
+		return execution
+	}
+
+	let audit
+	try {
+		audit = parseAccessibilityAuditResult(execution.data?.result)
+	} catch (error) {
+		return { success: false, error: error instanceof Error ? error.message : String(error) }
+	}
+
+	// Map each violation back to the component that renders it so fixes land in source, not the DOM
+	const violations = await resolveViolationComponents(roopikClient, audit.violations)
+
+	return {
+		success: true,
+		data: {
+			...audit,
+			passed: audit.violationCount === 0,
+			components: groupViolationsByComponent(violations),
+			violations,
+		},
+	}
+}
+
+// ============================================================================
+// Visual Regression Tool Handlers
+// ============================================================================
+
+interface VisualSnapshot {
+	image: Buffer
+	viewport: VisualViewport
+	url?: string
+	route?: string
+}
+
+/**
+ * Capture a PNG screenshot along with the page URL/route for baseline operations
+ */
+async function captureVisualSnapshot(): Promise<RoopikToolResult<VisualSnapshot>> {
+	const screenshot = await roopikClient.screenshot()
+	if (!screenshot.success || !screenshot.data?.image) {
+		return { success: false, error: screenshot.error || "Failed to capture screenshot" }
+	}
+
+	const parsed = parseImageDataUrl(screenshot.data.image)
+	if (!parsed) {
+		return { success: false, error: "Screenshot is not a valid image data URL" }
+	}
+	if (parsed.mimeType !== "image/png") {
+		return { success: false, error: `Visual comparison requires PNG screenshots (received ${parsed.mimeType})` }
+	}
+
+	const viewport = screenshot.data.viewport ?? { ...getPngDimensions(parsed.buffer), devicePixelRatio: 1 }
+
+	// The route is only used for naming and metadata, so a failed state lookup is not fatal
+	const state = await roopikClient.browserGetState()
+	const stateUrl = (state.data as { url?: unknown } | undefined)?.url
+	const url = typeof stateUrl === "string" ? stateUrl : undefined
+
+	let route: string | undefined
+	if (url) {
+		try {
+			route = new URL(url).pathname
+		} catch {
+			route = undefined
+		}
+	}
+
+	return { success: true, data: { image: parsed.buffer, viewport, url, route } }
+}
+
+async function handleSaveVisualBaseline(task: Task, block: ToolUse, callbacks: ToolCallbacks): Promise<RoopikToolResult> {
+	const snapshot = await captureVisualSnapshot()
+	if (!snapshot.success || !snapshot.data) {
+		return snapshot
+	}
+
+	const { image, viewport, url, route } = snapshot.data
+	const name = block.params.name || route
+	if (!name) {
+		return { success: false, error: "Missing required parameter: name (could not derive it from the current route)" }
+	}
+
+	const store = new VisualBaselineStore(task.cwd)
+	const saved = await store.saveBaseline(name, image, { viewport, url, route })
+
+	return {
+		success: true,
+		data: {
+			name: toBaselineName(name),
+			viewport: getViewportKey(viewport),
+			url,
+			route,
+			baselinePath: path.relative(task.cwd, saved.imagePath).toPosix(),
+			replaced: saved.replaced,
+			message: saved.replaced ? "Baseline updated" : "Baseline saved",
+		},
+	}
+}
+
+async function handleCompareVisualBaseline(task: Task, block: ToolUse, callbacks: ToolCallbacks): Promise<RoopikToolResult> {
+	const threshold = parseNumberInRange(block.params.threshold, "threshold", 0, 1)
+	const maxDiffPercentage = parseNumberInRange(block.params.maxDiffPercentage, "maxDiffPercentage", 0, 100)
+	if (!threshold.success || !maxDiffPercentage.success) {
+		return { success: false, error: threshold.error ?? maxDiffPercentage.error }
+	}
+
+	const snapshot = await captureVisualSnapshot()
+	if (!snapshot.success || !snapshot.data) {
+		return snapshot
+	}
+
+	const { image, viewport, url, route } = snapshot.data
+	const name = block.params.name || route
+	if (!name) {
+		return { success: false, error: "Missing required parameter: name (could not derive it from the current route)" }
+	}
+
+	const store = new VisualBaselineStore(task.cwd)
+	const baseline = await store.loadBaseline(name, viewport)
+	if (!baseline) {
+		const available = (await store.listBaselines()).map(
+			(b) => `${toBaselineName(b.name)} (${getViewportKey(b.viewport)})`,
+		)
+		return {
+			success: false,
+			error:
+				`No baseline named '${toBaselineName(name)}' for viewport ${getViewportKey(viewport)}. ` +
+				(available.length > 0
+					? `Available baselines: ${available.join(", ")}`
+					: "Save one first with browser_save_visual_baseline."),
+		}
+	}
+
+	const diff = comparePngImages(baseline.image, image, { threshold: threshold.data })
+	const diffImagePath = await store.saveDiffImage(name, viewport, diff.diffImage)
+
+	return {
+		success: true,
+		data: {
+			name: toBaselineName(name),
+			viewport: getViewportKey(viewport),
+			url,
+			route,
+			passed: diff.dimensionsMatch && diff.diffPercentage <= (maxDiffPercentage.data ?? 0),
+			diffPercentage: diff.diffPercentage,
+			maxDiffPercentage: maxDiffPercentage.data ?? 0,
+			changedPixels: diff.changedPixels,
+			totalPixels: diff.totalPixels,
+			dimensionsMatch: diff.dimensionsMatch,
+			changedRegions: diff.changedRegions,
+			baselinePath: path.relative(task.cwd, baseline.imagePath).toPosix(),
+			baselineUpdatedAt: baseline.metadata.updatedAt || undefined,
+			diffImagePath: path.relative(task.cwd, diffImagePath).toPosix(),
+			diffImage: toPngDataUrl(diff.diffImage),
+		},
+	}
+}
+
+/**
+ * Parse an optional numeric parameter, failing when it is set but not a number between min and max
+ */
+function parseNumberInRange(
+	value: string | undefined,
+	name: string,
+	min: number,
+	max: number,
+): RoopikToolResult<number | undefined> {
+	if (value === undefined || value.trim() === "") {
+		return { success: true, data: undefined }
+	}
+	const parsed = Number(value)
+	if (!Number.isFinite(parsed) || parsed < min || parsed > max) {
+		return { success: false, error: `${name} must be a number between ${min} and ${max} (got '${value}')` }
+	}
+	return { success: true, data: parsed }
+}
+
+// ============================================================================
+// Browser Script Handlers
+// ============================================================================
+
+/**
+ * Append a successful browser step to the task's script recording, if one is active
+ */
+function recordBrowserStep(task: Task, result: RoopikToolResult, step: BrowserScriptStep): void {
+	if (result.success) {
+		browserScriptRecorder.recordStep(task.taskId, step)
+	}
+}
+
+async function handleRecordScript(task: Task, block: ToolUse, callbacks: ToolCallbacks): Promise<RoopikToolResult> {
+	const action = block.params.action
+	const store = new BrowserScriptStore(task.cwd)
+
+	switch (action) {
+		case "start": {
+			const name = block.params.name
+			if (!name) {
+				return { success: false, error: "Missing required parameter: name" }
+			}
+			const replaced = browserScriptRecorder.getRecording(task.taskId)
+			browserScriptRecorder.start(task.taskId, name)
+			return {
+				success: true,
+				data: {
+					name,
+					scriptPath: path.relative(task.cwd, store.getScriptPath(name)).toPosix(),
+					discardedRecording: replaced?.name,
+					message:
+						"Recording started. Successful browser_navigate, browser_action_input and browser_set_viewport calls are now recorded as steps. " +
+						"Use action 'assert' after a step to add checks, and action 'stop' to save the script.",
+				},
+			}
+		}
+
+		case "assert": {
+			if (!browserScriptRecorder.isRecording(task.taskId)) {
+				return { success: false, error: "No browser script recording in progress. Start one with action 'start'." }
+			}
+
+			const assertions: BrowserScriptAssertion[] = []
+			if (block.params.selector) {
+				assertions.push({ type: "element_exists", selector: block.params.selector })
+			}
+			if (block.params.urlPattern) {
+				assertions.push({ type: "url_matches", pattern: block.params.urlPattern })
+			}
+			if (block.params.noConsoleErrors === "true") {
+				assertions.push({ type: "no_console_errors" })
+			}
+			if (assertions.length === 0) {
+				return {
+					success: false,
+					error: "Provide at least one assertion: selector, urlPattern, or noConsoleErrors=true",
+				}
+			}
+
+			const stepIndex = browserScriptRecorder.addAssertions(task.taskId, assertions)
+			return {
+				success: true,
+				data: {
+					attachedTo: stepIndex === -1 ? "initial" : `step ${stepIndex + 1}`,
+					assertions,
+				},
+			}
+		}
+
+		case "stop": {
+			const script = browserScriptRecorder.stop(task.taskId)
+			if (!script) {
+				return { success: false, error: "No browser script recording in progress." }
+			}
+			if (script.steps.length === 0) {
+				return { success: false, error: "Recording had no browser steps, nothing was saved." }
+			}
+			const scriptPath = await store.saveScript(script)
+			return {
+				success: true,
+				data: {
+					name: script.name,
+					steps: script.steps.length,
+					assertions:
+						(script.initialAssertions?.length ?? 0) +
+						script.steps.reduce((count, step) => count + (step.assertions?.length ?? 0), 0),
+					scriptPath: path.relative(task.cwd, scriptPath).toPosix(),
+					message: "Script saved. Replay it with browser_replay_script.",
+				},
+			}
+		}
+
+		case "discard": {
+			const script = browserScriptRecorder.getRecording(task.taskId)
+			browserScriptRecorder.discard(task.taskId)
+			return {
+				success: true,
+				data: { message: script ? `Discarded recording '${script.name}'` : "No recording in progress" },
+			}
+		}
+
+		default:
+			return {
+				success: false,
+				error: `Invalid action '${action ?? ""}'. Expected one of: start, assert, stop, discard`,
+			}
+	}
+}
+
+async function handleReplayScript(task: Task, block: ToolUse, callbacks: ToolCallbacks): Promise<RoopikToolResult> {
+	const name = block.params.name
+	const store = new BrowserScriptStore(task.cwd)
+
+	if (!name) {
+		const available = await store.listScripts()
+		return {
+			success: false,
+			error:
+				"Missing required parameter: name. " +
+				(available.length > 0 ? `Available scripts: ${available.join(", ")}` : "No browser scripts have been recorded."),
+		}
+	}
+
+	const script = await store.loadScript(name)
+	if (!script) {
+		const available = await store.listScripts()
+		return {
+			success: false,
+			error:
+				`No browser script named '${name}'. ` +
+				(available.length > 0
+					? `Available scripts: ${available.join(", ")}`
+					: "Record one first with browser_record_script."),
+		}
+	}
+
+	const report = await new BrowserScriptRunner(roopikClient).replay(script, {
+		stopOnFailure: block.params.stopOnFailure !== "false",
+	})
+
+	return { success: true, data: report }
+}
+
+// ============================================================================
+// Network Mock Handlers
+// ============================================================================
+
+/**
+ * Install the given rules in the current page, replacing any rules installed before
+ */
+async function applyNetworkMocks(rules: NetworkMockRule[]): Promise<RoopikToolResult<{ ruleCount: number }>> {
+	const execution = await roopikClient.executeScript(buildNetworkMockScript(rules))
+	if (!execution.success) {
+		return { success: false, error: execution.error || "Failed to install network mocks in the page" }
+	}
+	return { success: true, data: { ruleCount: rules.filter((rule) => rule.enabled !== false).length } }
+}
+
+/**
+ * Load a page with the project's network mocks. The interceptor is handed to the
+ * load as an init script so it runs before the page's own requests; backends that
+ * don't support init scripts get it installed after the load instead, since the
+ * in-page interceptor does not survive navigation. Leaves the result untouched
+ * when the project has no mocks.
+ */
+async function withNetworkMocks(
+	task: Task,
+	load: (options: PageLoadOptions) => Promise<RoopikToolResult>,
+): Promise<RoopikToolResult> {
+	let rules: NetworkMockRule[] = []
+	try {
+		rules = (await new NetworkMockStore(task.cwd).listRules()).filter((rule) => rule.enabled !== false)
+	} catch (error) {
+		console.error("[RoopikToolHandler] Failed to read network mocks:", error)
+	}
+
+	// Always pass the option so a backend can drop the script an earlier load registered
+	const result = await load({ initScript: rules.length > 0 ? buildNetworkMockScript(rules) : undefined })
+	if (!result.success || rules.length === 0) {
+		return result
+	}
+
+	const data = result.data && typeof result.data === "object" ? result.data : { result: result.data }
+	if ((data as { initScriptInstalled?: boolean }).initScriptInstalled) {
+		return { ...result, data: { ...data, networkMocks: `${rules.length} network mock rule(s) active` } }
+	}
+
+	const applied = await applyNetworkMocks(rules)
+	const networkMocks = applied.success
+		? `${rules.length} network mock rule(s) active (requests sent before they were installed were not mocked)`
+		: `Failed to install network mocks: ${applied.error}`
+
+	return { ...result, data: { ...data, networkMocks } }
+}
+
+async function handleAddNetworkMock(task: Task, block: ToolUse, callbacks: ToolCallbacks): Promise<RoopikToolResult> {
+	const urlPattern = block.params.urlPattern
+	if (!urlPattern) {
+		return { success: false, error: "Missing required parameter: urlPattern" }
+	}
+
+	let headers: Record<string, string> | undefined
+	if (block.params.headers) {
+		try {
+			const parsed = JSON.parse(block.params.headers)
+			if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+				throw new Error("not an object")
+			}
+			headers = Object.fromEntries(Object.entries(parsed).map(([name, value]) => [name, String(value)]))
+		} catch {
+			return { success: false, error: "headers must be a JSON object of header names to values" }
+		}
+	}
+
+	const store = new NetworkMockStore(task.cwd)
+	let saved
+	try {
+		saved = await store.upsertRule({
+			id: block.params.id,
+			urlPattern,
+			method: block.params.method,
+			status: block.params.status ? parseInt(block.params.status, 10) : undefined,
+			body: block.params.body,
+			headers,
+			latencyMs: block.params.latencyMs ? parseInt(block.params.latencyMs, 10) : undefined,
+		})
+	} catch (error) {
+		return { success: false, error: error instanceof Error ? error.message : String(error) }
+	}
+
+	// The rule is persisted either way; installing it in the page only works while the browser is open
+	const applied = await applyNetworkMocks(await store.listRules())
+
+	return {
+		success: true,
+		data: {
+			rule: saved.rule,
+			replaced: saved.replaced,
+			mocksPath: path.relative(task.cwd, store.path).toPosix(),
+			activeInPage: applied.success,
+			message: applied.success
+				? "Mock saved and active in the current page. Requests already in flight are not affected; trigger the request again (or reload) to see the mocked response."
+				: `Mock saved. It will be installed the next time the browser opens or navigates (${applied.error}).`,
+		},
+	}
+}
+
+async function handleRemoveNetworkMock(task: Task, block: ToolUse, callbacks: ToolCallbacks): Promise<RoopikToolResult> {
+	const store = new NetworkMockStore(task.cwd)
+	let message: string
+
+	if (block.params.all === "true") {
+		const removed = await store.clear()
+		message = `Removed ${removed} network mock rule(s)`
+	} else if (block.params.id) {
+		if (!(await store.removeRule(block.params.id))) {
+			const ids = (await store.listRules()).map((rule) => rule.id)
+			return {
+				success: false,
+				error:
+					`No network mock with id '${block.params.id}'. ` +
+					(ids.length > 0 ? `Existing ids: ${ids.join(", ")}` : "No network mocks are defined."),
+			}
+		}
+		message = `Removed network mock '${block.params.id}'`
+	} else {
+		return { success: false, error: "Provide the id of the mock to remove, or all=true to remove every mock" }
+	}
+
+	const rules = await store.listRules()
+	const applied = await applyNetworkMocks(rules)
+
+	return {
+		success: true,
+		data: { message, remainingRules: rules.length, activeInPage: applied.success },
+	}
+}
+
+async function handleListNetworkMocks(task: Task, block: ToolUse, callbacks: ToolCallbacks): Promise<RoopikToolResult> {
+	const store = new NetworkMockStore(task.cwd)
+	const rules = await store.listRules()
+
+	// Page status is informational; the browser may not be open
+	let page: unknown
+	const status = await roopikClient.executeScript(NETWORK_MOCK_STATUS_SCRIPT)
+	if (status.success) {
+		try {
+			page = typeof status.data?.result === "string" ? JSON.parse(status.data.result) : status.data?.result
+		} catch {
+			page = undefined
+		}
+	}
+
+	return {
+		success: true,
+		data: {
+			mocksPath: path.relative(task.cwd, store.path).toPosix(),
+			rules,
+			page: page ?? { installed: false, message: "Browser page not available" },
+		},
+	}
+}
+
 // ============================================================================
 // CDP Tool Handlers
 // ============================================================================
@@ -371,13 +935,26 @@ async function handleAddComponent(task: Task, block: ToolUse, callbacks: ToolCal
 	if (!folderPath) {
 		return { success: false, error: "Missing required parameter: folderPath" }
 	}
-	return roopikClient.addComponent({
+
+	let variantMatrix: ResolvedVariantMatrix | undefined
+	try {
+		variantMatrix = resolveVariantMatrix(block.params.variants, block.params.baseProps)
+	} catch (error) {
+		return { success: false, error: error instanceof Error ? error.message : String(error) }
+	}
+	if (variantMatrix && !(await roopikClient.supportsComponentVariants())) {
+		return { success: false, error: COMPONENT_VARIANTS_UNSUPPORTED }
+	}
+
+	const result = await roopikClient.addComponent({
 		folderPath,
 		canvasId: block.params.canvasId,
 		name: block.params.name,
 		entryFile: block.params.entryFile,
 		framework: block.params.framework,
+		variants: variantMatrix?.variants,
 	})
+	return saveComponentVariants(task, result, variantMatrix)
 }
 
 async function handleAddComponents(task: Task, block: ToolUse, callbacks: ToolCallbacks): Promise<RoopikToolResult> {
@@ -392,6 +969,20 @@ async function handleAddComponents(task: Task, block: ToolUse, callbacks: ToolCa
 			return { success: false, error: "components must be an array" }
 		}
 
+		// Validate every matrix up front so a bad one doesn't leave the batch half-added
+		const variantMatrices: Array<ResolvedVariantMatrix | undefined> = []
+		for (const component of components) {
+			try {
+				variantMatrices.push(resolveVariantMatrix(component.variants, component.baseProps))
+			} catch (error) {
+				const message = error instanceof Error ? error.message : String(error)
+				return { success: false, error: `${component.name || component.folderPath}: ${message}` }
+			}
+		}
+		if (variantMatrices.some(Boolean) && !(await roopikClient.supportsComponentVariants())) {
+			return { success: false, error: COMPONENT_VARIANTS_UNSUPPORTED }
+		}
+
 		// return roopikClient.addComponents(components)
 
 		// ------------------------------------------
@@ -399,15 +990,20 @@ async function handleAddComponents(task: Task, block: ToolUse, callbacks: ToolCa
 		const addedComponents: any[] = []
 		let successCount = 0
 
-		for (const component of components) {
+		for (const [index, component] of components.entries()) {
 			try {
-				const result = await roopikClient.addComponent({
-					folderPath: component.folderPath,
-					canvasId: component.canvasId,
-					name: component.name,
-					entryFile: component.entryFile,
-					framework: component.framework,
-				})
+				const result = await saveComponentVariants(
+					task,
+					await roopikClient.addComponent({
+						folderPath: component.folderPath,
+						canvasId: component.canvasId,
+						name: component.name,
+						entryFile: component.entryFile,
+						framework: component.framework,
+						variants: variantMatrices[index]?.variants,
+					}),
+					variantMatrices[index],
+				)
 
 				if (result.success && result.data?.component) {
 					addedComponents.push(result.data.component)
@@ -439,13 +1035,87 @@ async function handleAddComponents(task: Task, block: ToolUse, callbacks: ToolCa
 	}
 }
 
+interface ResolvedVariantMatrix {
+	matrix: VariantMatrix
+	baseProps?: Record<string, unknown>
+	variants: ComponentVariant[]
+}
+
+const COMPONENT_VARIANTS_UNSUPPORTED =
+	"Component variants are not supported by this Roopik IDE (the canvas can't render or capture variant grids). " +
+	"Add the component without variants."
+
+/**
+ * Validate and expand the variants/baseProps parameters of component_add(_batch).
+ * Values arrive as JSON strings for component_add and as objects inside the component_add_batch array.
+ * @throws Error if the matrix or base props are invalid
+ */
+function resolveVariantMatrix(variants: unknown, baseProps: unknown): ResolvedVariantMatrix | undefined {
+	if (variants === undefined || variants === null || variants === "") {
+		return undefined
+	}
+
+	const matrix = parseVariantMatrix(variants as string | VariantMatrix)
+
+	let props: unknown = baseProps
+	if (typeof props === "string" && props !== "") {
+		try {
+			props = JSON.parse(props)
+		} catch {
+			throw new Error("baseProps must be a JSON object of prop names to values")
+		}
+	}
+	if (props !== undefined && props !== "" && (!props || typeof props !== "object" || Array.isArray(props))) {
+		throw new Error("baseProps must be a JSON object of prop names to values")
+	}
+	const base = props && typeof props === "object" ? (props as Record<string, unknown>) : undefined
+
+	return { matrix, baseProps: base, variants: expandVariantMatrix(matrix, base) }
+}
+
+/**
+ * Remember the matrix a component was placed with, and describe the grid in the result
+ */
+async function saveComponentVariants(
+	task: Task,
+	result: RoopikToolResult<AddComponentData>,
+	variantMatrix: ResolvedVariantMatrix | undefined,
+): Promise<RoopikToolResult<AddComponentData>> {
+	const component = result.data?.component
+	if (!result.success || !component?.id || !variantMatrix) {
+		return result
+	}
+
+	await new ComponentVariantStore(task.cwd).set({
+		componentId: component.id,
+		componentName: component.componentName,
+		matrix: variantMatrix.matrix,
+		baseProps: variantMatrix.baseProps,
+	})
+
+	return {
+		...result,
+		data: {
+			...result.data,
+			component: {
+				...component,
+				variants: variantMatrix.variants.map(({ id, label }) => ({ id, label })),
+			},
+		},
+	}
+}
+
 async function handleRemoveComponent(task: Task, block: ToolUse, callbacks: ToolCallbacks): Promise<RoopikToolResult> {
 	const componentId = block.params.componentId || block.params.args
 	if (!componentId) {
 		return { success: false, error: "Missing required parameter: componentId" }
 	}
 	const deleteSourceCode = block.params.deleteSourceCode === "true"
-	return roopikClient.removeComponent(componentId, deleteSourceCode)
+	const result = await roopikClient.removeComponent(componentId, deleteSourceCode)
+	if (result.success) {
+		await new ComponentVariantStore(task.cwd).remove(componentId)
+	}
+	return result
 }
 
 async function handleGetComponentInfo(task: Task, block: ToolUse, callbacks: ToolCallbacks): Promise<RoopikToolResult> {
@@ -453,7 +1123,61 @@ async function handleGetComponentInfo(task: Task, block: ToolUse, callbacks: Too
 	if (!componentId) {
 		return { success: false, error: "Missing required parameter: componentId" }
 	}
-	return roopikClient.getComponentInfo(componentId)
+	const result = await roopikClient.getComponentInfo(componentId)
+	const entry = result.success ? await new ComponentVariantStore(task.cwd).get(componentId) : undefined
+	if (!entry) {
+		return result
+	}
+
+	return {
+		...result,
+		data: {
+			...result.data,
+			variantMatrix: {
+				matrix: entry.matrix,
+				baseProps: entry.baseProps,
+				variants: expandVariantMatrix(entry.matrix, entry.baseProps).map(({ id, label }) => ({ id, label })),
+			},
+		},
+	}
+}
+
+async function handleReviewComponentVariants(task: Task, block: ToolUse, callbacks: ToolCallbacks): Promise<RoopikToolResult> {
+	const componentId = block.params.componentId || block.params.args
+	if (!componentId) {
+		return { success: false, error: "Missing required parameter: componentId" }
+	}
+
+	if (!(await roopikClient.supportsComponentVariants())) {
+		return { success: false, error: COMPONENT_VARIANTS_UNSUPPORTED }
+	}
+
+	const variants = await new ComponentVariantStore(task.cwd).getVariants(componentId)
+	if (!variants) {
+		return {
+			success: false,
+			error: `Component '${componentId}' was not placed with a variant matrix. Add it with component_add and the variants parameter first.`,
+		}
+	}
+
+	const capture = await roopikClient.captureComponentVariants(componentId)
+	if (!capture.success) {
+		return { success: false, error: capture.error || "Failed to capture component variants" }
+	}
+
+	const captures = capture.data?.variants ?? []
+	const review = buildVariantReview(componentId, variants, captures)
+	const labels = new Map(variants.map((variant) => [variant.id, variant.label]))
+
+	return {
+		success: true,
+		data: {
+			...review,
+			screenshots: captures
+				.filter((entry) => entry.image && labels.has(entry.id))
+				.map((entry) => ({ id: entry.id, label: labels.get(entry.id)!, image: entry.image! })),
+		},
+	}
 }
 
 async function handleListComponents(task: Task, block: ToolUse, callbacks: ToolCallbacks): Promise<RoopikToolResult> {
@@ -493,19 +1217,9 @@ function formatToolResult(toolName: RoopikToolName, result: RoopikToolResult): T
 		const blocks: Array<Anthropic.TextBlockParam | Anthropic.ImageBlockParam> = []
 
 		// Add the image
-		if (imageData.image) {
-			// Image is a data URL, extract base64 part
-			const base64Match = imageData.image.match(/^data:image\/(\w+);base64,(.+)$/)
-			if (base64Match) {
-				blocks.push({
-					type: "image",
-					source: {
-						type: "base64",
-						media_type: `image/${base64Match[1]}` as "image/jpeg" | "image/png" | "image/gif" | "image/webp",
-						data: base64Match[2],
-					},
-				})
-			}
+		const imageBlock = imageData.image ? toImageBlock(imageData.image) : undefined
+		if (imageBlock) {
+			blocks.push(imageBlock)
 		}
 
 		// Add text description with viewport metadata for browser_action_input
@@ -521,10 +1235,66 @@ function formatToolResult(toolName: RoopikToolName, result: RoopikToolResult): T
 		return blocks
 	}
 
+	// Special handling for visual comparison - attach the highlighted diff image when something changed
+	if (toolName === "browser_compare_visual_baseline" && data && typeof data === "object" && "diffImage" in data) {
+		const { diffImage, ...summary } = data as { diffImage?: string; changedPixels?: number }
+		const blocks: Array<Anthropic.TextBlockParam | Anthropic.ImageBlockParam> = []
+
+		const imageBlock = diffImage && summary.changedPixels ? toImageBlock(diffImage) : undefined
+		if (imageBlock) {
+			blocks.push(imageBlock)
+		}
+		blocks.push({
+			type: "text",
+			text: JSON.stringify(summary, null, 2),
+		})
+
+		return blocks
+	}
+
+	// Special handling for variant review - one labelled screenshot per grid cell, then the summary
+	if (toolName === "component_review_variants" && data && typeof data === "object" && "screenshots" in data) {
+		const { screenshots, ...review } = data as { screenshots: Array<{ id: string; label: string; image: string }> }
+		const blocks: Array<Anthropic.TextBlockParam | Anthropic.ImageBlockParam> = []
+
+		for (const screenshot of screenshots) {
+			const imageBlock = toImageBlock(screenshot.image)
+			if (imageBlock) {
+				blocks.push({ type: "text", text: `Variant ${screenshot.id} (${screenshot.label}):` })
+				blocks.push(imageBlock)
+			}
+		}
+		blocks.push({
+			type: "text",
+			text: JSON.stringify(review, null, 2),
+		})
+
+		return blocks
+	}
+
 	// For all other tools, return JSON
 	return JSON.stringify(data, null, 2)
 }
 
+/**
+ * Convert an image data URL into an image content block
+ */
+function toImageBlock(dataUrl: string): Anthropic.ImageBlockParam | undefined {
+	// Image is a data URL, extract base64 part
+	const base64Match = dataUrl.match(/^data:image\/(\w+);base64,(.+)$/)
+	if (!base64Match) {
+		return undefined
+	}
+	return {
+		type: "image",
+		source: {
+			type: "base64",
+			media_type: `image/${base64Match[1]}` as "image/jpeg" | "image/png" | "image/gif" | "image/webp",
+			data: base64Match[2],
+		},
+	}
+}
+
 /**
  * Check if a tool name is a Roopik tool
  */
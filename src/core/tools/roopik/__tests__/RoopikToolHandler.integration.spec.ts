@@ -0,0 +1,403 @@
+// npx vitest core/tools/roopik/__tests__/RoopikToolHandler.integration.spec.ts
+//
+// Runs the Roopik tools end to end against the local backend instead of Roopik IDE.
+// Browser tests need a Chrome with remote debugging, e.g.
+// ROOPIK_TEST_BROWSER_HOST=http://localhost:9222 (started with --remote-debugging-port=9222).
+
+import * as fs from "fs/promises"
+import * as http from "http"
+import * as os from "os"
+import * as path from "path"
+import * as vm from "vm"
+import type { AddressInfo } from "net"
+
+import type { ToolUse } from "../../../../shared/tools"
+
+vi.mock("vscode", () => ({
+	commands: {
+		getCommands: vi.fn().mockResolvedValue([]),
+		executeCommand: vi.fn(),
+	},
+}))
+
+vi.mock("../../../prompts/responses", () => ({
+	formatResponse: {
+		toolError: vi.fn((msg: string) => `Error: ${msg}`),
+		toolDenied: vi.fn(() => "Denied"),
+	},
+}))
+
+import { Task } from "../../../task/Task"
+import { BrowserSession } from "../../../../services/browser/BrowserSession"
+import {
+	roopikClient,
+	LocalRoopikToolBackend,
+	type RoopikToolBackend,
+	type RoopikToolResult,
+} from "../../../../services/roopik"
+import { handleRoopikTool } from "../RoopikToolHandler"
+
+const browserHost = process.env.ROOPIK_TEST_BROWSER_HOST
+
+describe("RoopikToolHandler with the local backend", () => {
+	let cwd: string
+	let task: Task
+	let backend: LocalRoopikToolBackend
+	let previousBackend: RoopikToolBackend
+	let results: unknown[]
+
+	const callbacks = {
+		askApproval: vi.fn().mockResolvedValue(true),
+		handleError: vi.fn(),
+		pushToolResult: vi.fn((result: unknown) => {
+			results.push(result)
+		}),
+	}
+
+	async function run(name: string, params: Record<string, string> = {}): Promise<any> {
+		results = []
+		await handleRoopikTool(task, { type: "tool_use", name, params, partial: false } as unknown as ToolUse, callbacks)
+		expect(results).toHaveLength(1)
+		const [result] = results
+		if (typeof result === "string") {
+			return result.startsWith("Error: ") ? { error: result.slice("Error: ".length) } : JSON.parse(result)
+		}
+		return result
+	}
+
+	async function writeComponent(folder: string, files: Record<string, string>): Promise<string> {
+		const folderPath = path.join(cwd, folder)
+		await fs.mkdir(folderPath, { recursive: true })
+		for (const [name, content] of Object.entries(files)) {
+			await fs.writeFile(path.join(folderPath, name), content)
+		}
+		return folderPath
+	}
+
+	beforeEach(async () => {
+		cwd = await fs.mkdtemp(path.join(os.tmpdir(), "roopik-local-"))
+		task = {
+			cwd,
+			taskId: "task-1",
+			toolUsage: {},
+			recordToolError: vi.fn(),
+			didToolFailInCurrentTurn: false,
+		} as unknown as Task
+		backend = new LocalRoopikToolBackend({
+			getCwd: () => cwd,
+			createBrowserSession: browserHost
+				? () => new BrowserSession(createBrowserContext(browserHost) as any)
+				: undefined,
+		})
+		previousBackend = roopikClient.setBackend(backend)
+		callbacks.handleError.mockClear()
+	})
+
+	afterEach(async () => {
+		await backend.dispose()
+		roopikClient.setBackend(previousBackend)
+		await fs.rm(cwd, { recursive: true, force: true })
+	})
+
+	describe("canvas and component tools", () => {
+		it("creates a canvas and manages components in it", async () => {
+			const created = await run("canvas_create", { name: "Marketing" })
+			expect(created).toMatchObject({ isNew: true, canvas: { name: "Marketing", componentCount: 0 } })
+			expect(await run("canvas_create", { name: "marketing" })).toMatchObject({ isNew: false })
+			expect(await run("canvas_get_active")).toMatchObject({ activeCanvas: { id: created.canvasId } })
+
+			const folderPath = await writeComponent("src/Hero", {
+				"index.tsx": "export default function Hero() { return <h1>Hi</h1> }",
+			})
+			const added = await run("component_add", { folderPath: "src/Hero" })
+			expect(added.component).toMatchObject({
+				canvasId: created.canvasId,
+				componentName: "Hero",
+				folderPath,
+				entryFile: "index.tsx",
+				framework: "react",
+				buildState: "success",
+			})
+
+			const listed = await run("component_list", { canvasId: created.canvasId })
+			expect(listed.components.map((component: { id: string }) => component.id)).toEqual([added.component.id])
+			expect(await run("canvas_list")).toMatchObject({ count: 1, canvases: [{ componentCount: 1 }] })
+
+			expect(await run("component_remove", { componentId: added.component.id, deleteSourceCode: "true" })).toEqual({
+				componentId: added.component.id,
+				deletedSourceCode: true,
+			})
+			await expect(fs.access(folderPath)).rejects.toThrow()
+			expect(await run("component_list", { canvasId: created.canvasId })).toMatchObject({ components: [] })
+		})
+
+		it("reports components whose entry file is missing as failed builds", async () => {
+			await run("canvas_create", { name: "Widgets" })
+			await writeComponent("widgets/Card", { "Card.vue": "<template><div /></template>" })
+			await writeComponent("widgets/Badge", { "index.svelte": "<span>new</span>" })
+
+			const card = await run("component_add", { folderPath: "widgets/Card" })
+			expect(card.component).toMatchObject({ buildState: "error" })
+			expect(card.component.buildError).toContain("No entry file found")
+			const badge = await run("component_add", { folderPath: "widgets/Badge", name: "NewBadge" })
+			expect(badge.component).toMatchObject({ componentName: "NewBadge", framework: "svelte" })
+
+			expect(await run("canvas_validate_components")).toMatchObject({
+				summary: { total: 2, success: 1, failed: 1 },
+				errors: [{ componentId: card.component.id }],
+			})
+
+			await fs.writeFile(path.join(cwd, "widgets/Card/index.vue"), "<template><div /></template>")
+			expect(await run("component_rebuild", { componentId: card.component.id })).toMatchObject({
+				message: "Rebuilt Card",
+			})
+			expect(await run("canvas_validate_components")).toMatchObject({ summary: { failed: 0 } })
+		})
+
+		it("adds a batch of components and keeps variant matrices", async () => {
+			await backend.dispose()
+			backend = new VariantCapturingBackend({ getCwd: () => cwd })
+			roopikClient.setBackend(backend)
+			await run("canvas_create", { name: "Buttons" })
+			await writeComponent("ui/Button", { "index.jsx": "export default () => null" })
+			await writeComponent("ui/Link", { "index.jsx": "export default () => null" })
+
+			const batch = await run("component_add_batch", {
+				components: JSON.stringify([
+					{ folderPath: "ui/Button", variants: { size: ["sm", "lg"] }, baseProps: { children: "Save" } },
+					{ folderPath: "ui/Link" },
+				]),
+			})
+			expect(batch.count).toBe(2)
+			expect(batch.components[0].variants.map((variant: { id: string }) => variant.id)).toEqual([
+				"size-sm",
+				"size-lg",
+			])
+
+			const info = await run("component_get_info", { componentId: batch.components[0].id })
+			expect(info.variantMatrix).toMatchObject({ matrix: { size: ["sm", "lg"] }, baseProps: { children: "Save" } })
+
+			const review = await run("component_review_variants", { componentId: batch.components[0].id })
+			expect(JSON.parse(review.at(-1).text)).toMatchObject({
+				total: 2,
+				passed: 1,
+				failed: 1,
+				variants: [
+					{ id: "size-sm", passed: true },
+					{ id: "size-lg", passed: false, error: "size lg is not supported" },
+				],
+			})
+		})
+
+		it("rejects variants when the backend can't render variant grids", async () => {
+			await run("canvas_create", { name: "Buttons" })
+			await writeComponent("ui/Button", { "index.jsx": "export default () => null" })
+
+			const added = await run("component_add", { folderPath: "ui/Button", variants: '{"size":["sm","lg"]}' })
+			expect(added.error).toContain("Component variants are not supported")
+			const batch = await run("component_add_batch", {
+				components: JSON.stringify([{ folderPath: "ui/Button", variants: { size: ["sm", "lg"] } }]),
+			})
+			expect(batch.error).toContain("Component variants are not supported")
+			expect(await run("canvas_validate_components")).toMatchObject({ summary: { total: 0 } })
+
+			const review = await run("component_review_variants", { componentId: "button" })
+			expect(review.error).toContain("Component variants are not supported")
+			expect(task.recordToolError).toHaveBeenCalledWith("component_review_variants")
+		})
+
+		it("fails tool calls that need a canvas when none is open", async () => {
+			await writeComponent("src/Hero", { "index.tsx": "" })
+
+			expect((await run("component_add", { folderPath: "src/Hero" })).error).toContain("No active canvas")
+			expect((await run("canvas_open", { name: "Missing" })).error).toContain("Canvas not found")
+			expect((await run("component_get_info", { componentId: "component-x" })).error).toContain(
+				"Component not found",
+			)
+			expect(task.recordToolError).toHaveBeenCalledTimes(3)
+		})
+
+		it("persists canvases in the project", async () => {
+			await run("canvas_create", { name: "Persisted" })
+			const file = JSON.parse(await fs.readFile(path.join(cwd, ".dio", "local-canvas.json"), "utf-8"))
+			expect(file.canvases).toHaveLength(1)
+			expect(file.activeCanvasId).toBe(file.canvases[0].id)
+		})
+	})
+
+	describe("browser tools", () => {
+		it.skipIf(!!browserHost)("refuses browser tools when the backend has no browser", async () => {
+			expect((await run("browser_screenshot")).error).toContain("Browser tools are not available")
+		})
+
+		it("rejects visual diff limits that aren't numbers in range", async () => {
+			expect((await run("browser_compare_visual_baseline", { threshold: "abc" })).error).toBe(
+				"threshold must be a number between 0 and 1 (got 'abc')",
+			)
+			expect((await run("browser_compare_visual_baseline", { maxDiffPercentage: "150" })).error).toBe(
+				"maxDiffPercentage must be a number between 0 and 100 (got '150')",
+			)
+			expect(task.recordToolError).toHaveBeenCalledTimes(2)
+		})
+
+		it("installs network mocks before the page's first requests", async () => {
+			const page = new FakePage()
+			let active = false
+			const session = {
+				isSessionActive: () => active,
+				launchBrowser: async () => {
+					active = true
+				},
+				navigateToUrl: (url: string) => page.goto(url),
+				withPage: (callback: (page: FakePage) => Promise<unknown>) => callback(page),
+				closeBrowser: async () => {
+					active = false
+				},
+			}
+			await backend.dispose()
+			backend = new LocalRoopikToolBackend({
+				getCwd: () => cwd,
+				createBrowserSession: () => session as unknown as BrowserSession,
+			})
+			roopikClient.setBackend(backend)
+
+			await run("browser_add_network_mock", { id: "data", urlPattern: "*/data.json", body: "{}" })
+			expect(await run("browser_open", { url: "http://localhost/" })).toMatchObject({
+				networkMocks: "1 network mock rule(s) active",
+			})
+			// The first load ran before the browser was instrumented; the reload is the one tools report on
+			expect(page.loads).toEqual([404, 200])
+			expect(page.evaluate).not.toHaveBeenCalled()
+
+			await run("browser_remove_network_mock", { id: "data" })
+			expect(await run("browser_navigate", { url: "http://localhost/other" })).not.toHaveProperty("networkMocks")
+			expect(page.loads).toEqual([404, 200, 404])
+		})
+
+		describe.skipIf(!browserHost)("with a browser", () => {
+			let server: http.Server
+			let url: string
+
+			beforeAll(async () => {
+				server = http.createServer((request, response) => {
+					if (request.url === "/") {
+						response.writeHead(200, { "content-type": "text/html" })
+						response.end(
+							`<html><body><button id="save" class="primary" style="color: red">Save</button>` +
+								`<script>console.log("ready"); console.error("boom"); fetch("/missing.json")</script>` +
+								`</body></html>`,
+						)
+					} else {
+						response.writeHead(404)
+						response.end()
+					}
+				})
+				await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve))
+				url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/`
+			})
+
+			afterAll(async () => {
+				await new Promise((resolve) => server.close(resolve))
+			})
+
+			it("opens a page, captures logs and errors, and inspects elements", async () => {
+				expect(await run("browser_open", { url })).toMatchObject({ url })
+
+				const logs = await run("browser_get_console_logs")
+				expect(logs.logs.map((log: { message: string }) => log.message)).toEqual(
+					expect.arrayContaining(["ready", "boom"]),
+				)
+
+				const errors = await run("browser_get_errors")
+				expect(errors.consoleErrorCount).toBeGreaterThanOrEqual(1)
+				expect(errors.errors).toEqual(
+					expect.arrayContaining([expect.objectContaining({ source: "network", type: "http-404" })]),
+				)
+
+				const element = await run("browser_inspect_element", { selector: "#save" })
+				expect(element).toMatchObject({
+					element: { tag: "button", classes: ["primary"] },
+					inlineStyles: { color: "red" },
+				})
+
+				const screenshot = await run("browser_screenshot")
+				expect(screenshot[0]).toMatchObject({ type: "image" })
+
+				expect(await run("browser_close")).toMatchObject({ message: "Closed the local browser" })
+			}, 60_000)
+		})
+	})
+})
+
+/**
+ * Local backend standing in for an IDE that registers roopik.tools.captureComponentVariants; the "lg" cell fails
+ */
+class VariantCapturingBackend extends LocalRoopikToolBackend {
+	async hasCommand(command: string): Promise<boolean> {
+		return command === "roopik.tools.captureComponentVariants"
+	}
+
+	override async executeCommand<T>(command: string, args?: Record<string, unknown>): Promise<RoopikToolResult<T>> {
+		if (command !== "roopik.tools.captureComponentVariants") {
+			return super.executeCommand<T>(command, args)
+		}
+		const variants = [{ id: "size-sm" }, { id: "size-lg", error: "size lg is not supported" }]
+		return { success: true, data: { componentId: args?.componentId, variants } as T }
+	}
+}
+
+/**
+ * Page double that runs registered init scripts in a fresh document on each load, then records the
+ * status of the page's own first request
+ */
+class FakePage {
+	loads: number[] = []
+	on = vi.fn()
+	evaluate = vi.fn()
+	private initScripts = new Map<string, string>()
+	private nextIdentifier = 1
+	private url = "about:blank"
+
+	async evaluateOnNewDocument(script: string) {
+		const identifier = String(this.nextIdentifier++)
+		this.initScripts.set(identifier, script)
+		return { identifier }
+	}
+
+	async removeScriptToEvaluateOnNewDocument(identifier: string) {
+		this.initScripts.delete(identifier)
+	}
+
+	async goto(url: string) {
+		this.url = url
+		await this.reload()
+	}
+
+	async reload() {
+		const document: Record<string, unknown> = {
+			location: { href: this.url },
+			URL,
+			Response,
+			setTimeout,
+			XMLHttpRequest: class {},
+			fetch: async () => new Response(null, { status: 404 }),
+		}
+		document.window = document
+		for (const script of this.initScripts.values()) {
+			vm.runInNewContext(script, document)
+		}
+		this.loads.push(await vm.runInNewContext(`fetch("/data.json").then((response) => response.status)`, document))
+	}
+}
+
+function createBrowserContext(remoteBrowserHost: string) {
+	const state: Record<string, unknown> = { remoteBrowserEnabled: true, remoteBrowserHost }
+	return {
+		globalState: {
+			get: (key: string) => state[key],
+			update: async (key: string, value: unknown) => {
+				state[key] = value
+			},
+		},
+	}
+}
@@ -0,0 +1,171 @@
+/**
+ * Performance budget checks for the Roopik browser preview.
+ *
+ * Shared by the browser_check_performance_budget tool and attempt_completion,
+ * which refuses to finish a frontend task while the page is over budget.
+ * Every check is appended to the task metadata so the next one can report a trend.
+ */
+
+import * as path from "path"
+
+import { Task } from "../../task/Task"
+import {
+	roopikClient,
+	RoopikToolResult,
+	PerformanceBudgetStore,
+	PERFORMANCE_BUDGET_SCRIPT,
+	extractPerformanceMetrics,
+	evaluatePerformanceBudget,
+	describeBudgetFailures,
+	PERFORMANCE_METRICS,
+	type PerformanceBudget,
+	type PerformanceBudgetEvaluation,
+	type PerformanceRun,
+	type InPagePerformanceData,
+} from "../../../services/roopik"
+import { ROOPIK_TOOL_NAMES, type RoopikToolName } from "../../prompts/tools/roopik/roopik-tools"
+
+/** Runs kept per task; only the latest is used for trends, the rest is history */
+const MAX_PERFORMANCE_RUNS = 20
+
+export interface PerformanceBudgetCheck extends PerformanceBudgetEvaluation {
+	url?: string
+	budgetPath: string
+	previousRunAt?: string
+}
+
+/**
+ * Measure the current page and evaluate it against the project budget
+ */
+export async function checkPerformanceBudget(
+	task: Task,
+	budget?: PerformanceBudget,
+): Promise<RoopikToolResult<PerformanceBudgetCheck>> {
+	const store = new PerformanceBudgetStore(task.cwd)
+	const budgetPath = path.relative(task.cwd, store.path).toPosix()
+
+	try {
+		budget ??= await store.load()
+	} catch (error) {
+		return { success: false, error: error instanceof Error ? error.message : String(error) }
+	}
+	if (!budget) {
+		return {
+			success: false,
+			error:
+				`No performance budget found. Create ${budgetPath} with limits, e.g. ` +
+				`{"version": 1, "budgets": {"lcpMs": 2500, "cls": 0.1, "jsHeapMb": 50, "longTaskCount": 5, "scriptBytes": 350000}}`,
+		}
+	}
+
+	const inPage = await roopikClient.executeScript(PERFORMANCE_BUDGET_SCRIPT)
+	if (!inPage.success) {
+		return { success: false, error: `Failed to measure the page: ${inPage.error}. Is the browser open?` }
+	}
+	const performance = await roopikClient.browserGetPerformance()
+	const network = await roopikClient.browserGetNetworkRequests({ includeStaticAssets: true, statusFilter: "all" })
+
+	let pageData: InPagePerformanceData = {}
+	try {
+		const result = inPage.data?.result
+		pageData = typeof result === "string" ? JSON.parse(result) : ((result as InPagePerformanceData) ?? {})
+	} catch {
+		// Keep whatever browser_get_performance and the network log report
+	}
+
+	const metrics = extractPerformanceMetrics(
+		performance.success ? performance.data : undefined,
+		network.success ? network.data : undefined,
+		pageData,
+	)
+
+	const previous = await getLastPerformanceRun(task)
+	const evaluation = evaluatePerformanceBudget(budget, metrics, previous)
+
+	await recordPerformanceRun(task, {
+		timestamp: Date.now(),
+		url: pageData.url,
+		passed: evaluation.passed,
+		metrics,
+		failed: evaluation.results.filter((result) => !result.passed).map((result) => result.metric),
+	})
+
+	return {
+		success: true,
+		data: {
+			...evaluation,
+			url: pageData.url,
+			budgetPath,
+			previousRunAt: previous ? new Date(previous.timestamp).toISOString() : undefined,
+		},
+	}
+}
+
+/**
+ * Explain why attempt_completion must be refused, or return undefined to allow it.
+ *
+ * Only applies to tasks that used the Roopik browser in a project with a budget
+ * that is enforced. The page is measured again so fixes made since the last
+ * check count; if it can't be measured (e.g. the browser was closed), the last
+ * recorded check decides.
+ */
+export async function getPerformanceBudgetCompletionError(task: Task): Promise<string | undefined> {
+	const usedBrowser = Object.entries(task.toolUsage).some(
+		([name, usage]) =>
+			name.startsWith("browser_") && ROOPIK_TOOL_NAMES.includes(name as RoopikToolName) && usage.attempts > 0,
+	)
+	if (!usedBrowser) {
+		return undefined
+	}
+
+	const store = new PerformanceBudgetStore(task.cwd)
+	let budget: PerformanceBudget | undefined
+	try {
+		budget = await store.load()
+	} catch {
+		// A broken budget file is reported by browser_check_performance_budget; don't block completion on it
+		return undefined
+	}
+	if (!budget || budget.enforceOnCompletion === false) {
+		return undefined
+	}
+
+	let failures: string[] | undefined
+	if (await roopikClient.isAvailable()) {
+		const check = await checkPerformanceBudget(task, budget)
+		if (check.success && check.data) {
+			failures = describeBudgetFailures(check.data)
+		}
+	}
+	if (!failures) {
+		const last = await getLastPerformanceRun(task)
+		failures =
+			last && !last.passed
+				? last.failed.map((metric) => {
+						const { label, unit } = PERFORMANCE_METRICS[metric]
+						return `${label}: ${last.metrics[metric]}${unit} (over budget ${budget.budgets[metric]}${unit})`
+					})
+				: []
+	}
+
+	if (failures.length === 0) {
+		return undefined
+	}
+
+	return (
+		`Cannot complete this task: the page exceeds the performance budget in ${path.relative(task.cwd, store.path).toPosix()}.\n` +
+		failures.map((failure) => `- ${failure}`).join("\n") +
+		"\nFix these regressions and verify with browser_check_performance_budget, or ask the user whether the budget should change."
+	)
+}
+
+async function getLastPerformanceRun(task: Task): Promise<PerformanceRun | undefined> {
+	const metadata = await task.fileContextTracker.getTaskMetadata(task.taskId)
+	return metadata.performance_runs?.at(-1) as PerformanceRun | undefined
+}
+
+async function recordPerformanceRun(task: Task, run: PerformanceRun): Promise<void> {
+	const metadata = await task.fileContextTracker.getTaskMetadata(task.taskId)
+	metadata.performance_runs = [...(metadata.performance_runs ?? []), run].slice(-MAX_PERFORMANCE_RUNS)
+	await task.fileContextTracker.saveTaskMetadata(task.taskId, metadata)
+}
@@ -17,6 +17,7 @@ import {
 	type ProviderSettings,
 	type RooCodeSettings,
 	type ProviderSettingsEntry,
+	type SpendSummary,
 	type StaticAppProperties,
 	type DynamicAppProperties,
 	type CloudAppProperties,
@@ -91,8 +92,10 @@ import { forceFullModelDetailsLoad, hasLoadedFullDetails } from "../../api/provi
 
 import { ContextProxy } from "../config/ContextProxy"
 import { ProviderSettingsManager } from "../config/ProviderSettingsManager"
+import { SpendTracker } from "../budget/SpendTracker"
 import { CustomModesManager } from "../config/CustomModesManager"
-import { Task } from "../task/Task"
+import { Task, type TaskOptions } from "../task/Task"
+import { runTaskHooks } from "../hooks/lifecycleHooks"
 import { getSystemPromptFilePath } from "../prompts/sections/custom-system-prompt"
 
 import { webviewMessageHandler } from "./webviewMessageHandler"
@@ -113,6 +116,9 @@ export type ClineProviderEvents = {
 	clineCreated: [cline: Task]
 }
 
+/** A provider profile to run a task on instead of the active one */
+type TaskProfileOptions = Partial<Pick<TaskOptions, "apiConfiguration" | "apiConfigName">>
+
 interface PendingEditOperation {
 	messageTs: number
 	editedContent: string
@@ -161,6 +167,7 @@ export class ClineProvider
 	public readonly latestAnnouncementId = "jan-2026-v3.45.0-smart-code-folding" // v3.45.0 Smart Code Folding
 	public readonly providerSettingsManager: ProviderSettingsManager
 	public readonly customModesManager: CustomModesManager
+	public readonly spendTracker: SpendTracker
 
 	constructor(
 		readonly context: vscode.ExtensionContext,
@@ -188,6 +195,11 @@ export class ClineProvider
 
 		this.providerSettingsManager = new ProviderSettingsManager(this.context)
 
+		this.spendTracker = new SpendTracker(
+			() => this.getGlobalState("taskHistory") ?? [],
+			(taskId) => readTaskMessages({ taskId, globalStoragePath: this.contextProxy.globalStorageUri.fsPath }),
+		)
+
 		this.customModesManager = new CustomModesManager(this.context, async () => {
 			await this.postStateToWebview()
 		})
@@ -216,11 +228,21 @@ export class ClineProvider
 			this.emit(RooCodeEventName.TaskCreated, instance)
 
 			// Create named listener functions so we can remove them later.
-			const onTaskStarted = () => this.emit(RooCodeEventName.TaskStarted, instance.taskId)
-			const onTaskCompleted = (taskId: string, tokenUsage: TokenUsage, toolUsage: ToolUsage) =>
+			const onTaskStarted = () => {
+				this.emit(RooCodeEventName.TaskStarted, instance.taskId)
+				runTaskHooks(instance, "taskStart").catch((error) => this.log(`taskStart hooks failed: ${error}`))
+			}
+			const onTaskCompleted = (taskId: string, tokenUsage: TokenUsage, toolUsage: ToolUsage) => {
 				this.emit(RooCodeEventName.TaskCompleted, taskId, tokenUsage, toolUsage)
+				runTaskHooks(instance, "taskEnd", { status: "completed", tokenUsage, toolUsage }).catch((error) =>
+					this.log(`taskEnd hooks failed: ${error}`),
+				)
+			}
 			const onTaskAborted = async () => {
 				this.emit(RooCodeEventName.TaskAborted, instance.taskId)
+				runTaskHooks(instance, "taskEnd", { status: "aborted" }).catch((error) =>
+					this.log(`taskEnd hooks failed: ${error}`),
+				)
 
 				try {
 					// Only rehydrate on genuine streaming failures.
@@ -1694,6 +1716,14 @@ export class ClineProvider
 		throw new Error("Task not found")
 	}
 
+	/**
+	 * Breaks down this month's spend, with the budgets of the current task.
+	 */
+	async getSpendSummary(): Promise<SpendSummary> {
+		const { spendingBudgets } = await this.getState()
+		return this.spendTracker.summarize(spendingBudgets, this.getCurrentTask()?.getBudgetedTask())
+	}
+
 	async getTaskWithAggregatedCosts(taskId: string): Promise<{
 		historyItem: HistoryItem
 		aggregatedCosts: AggregatedCosts
@@ -2003,6 +2033,7 @@ export class ClineProvider
 			alwaysAllowSubtasks,
 			allowedMaxRequests,
 			allowedMaxCost,
+			spendingBudgets,
 			autoCondenseContext,
 			autoCondenseContextPercent,
 			soundEnabled,
@@ -2035,6 +2066,7 @@ export class ClineProvider
 			customModePrompts,
 			customSupportPrompts,
 			enhancementApiConfigId,
+			modelRouting,
 			autoApprovalEnabled,
 			customModes,
 			experiments,
@@ -2129,6 +2161,7 @@ export class ClineProvider
 			isBrowserSessionActive,
 			allowedMaxRequests,
 			allowedMaxCost,
+			spendingBudgets: spendingBudgets ?? {},
 			autoCondenseContext: autoCondenseContext ?? true,
 			autoCondenseContextPercent: autoCondenseContextPercent ?? 100,
 			uriScheme: vscode.env.uriScheme,
@@ -2173,6 +2206,7 @@ export class ClineProvider
 			customModePrompts: customModePrompts ?? {},
 			customSupportPrompts: customSupportPrompts ?? {},
 			enhancementApiConfigId,
+			modelRouting: modelRouting ?? {},
 			autoApprovalEnabled: autoApprovalEnabled ?? false,
 			customModes,
 			experiments: experiments ?? experimentDefault,
@@ -2209,6 +2243,7 @@ export class ClineProvider
 			codebaseIndexModels: codebaseIndexModels ?? EMBEDDING_MODEL_PROFILES,
 			codebaseIndexConfig: {
 				codebaseIndexEnabled: codebaseIndexConfig?.codebaseIndexEnabled ?? false,
+				codebaseIndexVectorStoreProvider: codebaseIndexConfig?.codebaseIndexVectorStoreProvider ?? "qdrant",
 				codebaseIndexQdrantUrl: codebaseIndexConfig?.codebaseIndexQdrantUrl ?? "http://localhost:6333",
 				codebaseIndexEmbedderProvider: codebaseIndexConfig?.codebaseIndexEmbedderProvider ?? "openai",
 				codebaseIndexEmbedderBaseUrl: codebaseIndexConfig?.codebaseIndexEmbedderBaseUrl ?? "",
@@ -2216,6 +2251,8 @@ export class ClineProvider
 				codebaseIndexEmbedderModelDimension: codebaseIndexConfig?.codebaseIndexEmbedderModelDimension ?? 1536,
 				codebaseIndexOpenAiCompatibleBaseUrl: codebaseIndexConfig?.codebaseIndexOpenAiCompatibleBaseUrl,
 				codebaseIndexSearchMaxResults: codebaseIndexConfig?.codebaseIndexSearchMaxResults,
+				codebaseIndexSearchMode: codebaseIndexConfig?.codebaseIndexSearchMode ?? "vector",
+				codebaseIndexSearchRerank: codebaseIndexConfig?.codebaseIndexSearchRerank ?? false,
 				codebaseIndexSearchMinScore: codebaseIndexConfig?.codebaseIndexSearchMinScore,
 				codebaseIndexBedrockRegion: codebaseIndexConfig?.codebaseIndexBedrockRegion,
 				codebaseIndexBedrockProfile: codebaseIndexConfig?.codebaseIndexBedrockProfile,
@@ -2383,6 +2420,7 @@ export class ClineProvider
 			diagnosticsEnabled: stateValues.diagnosticsEnabled ?? true,
 			allowedMaxRequests: stateValues.allowedMaxRequests,
 			allowedMaxCost: stateValues.allowedMaxCost,
+			spendingBudgets: stateValues.spendingBudgets ?? {},
 			autoCondenseContext: stateValues.autoCondenseContext ?? true,
 			autoCondenseContextPercent: stateValues.autoCondenseContextPercent ?? 100,
 			taskHistory: stateValues.taskHistory ?? [],
@@ -2421,6 +2459,7 @@ export class ClineProvider
 			customModePrompts: stateValues.customModePrompts ?? {},
 			customSupportPrompts: stateValues.customSupportPrompts ?? {},
 			enhancementApiConfigId: stateValues.enhancementApiConfigId,
+			modelRouting: stateValues.modelRouting ?? {},
 			experiments: stateValues.experiments ?? experimentDefault,
 			autoApprovalEnabled: stateValues.autoApprovalEnabled ?? false,
 			customModes,
@@ -2447,6 +2486,8 @@ export class ClineProvider
 			codebaseIndexModels: stateValues.codebaseIndexModels ?? EMBEDDING_MODEL_PROFILES,
 			codebaseIndexConfig: {
 				codebaseIndexEnabled: stateValues.codebaseIndexConfig?.codebaseIndexEnabled ?? false,
+				codebaseIndexVectorStoreProvider:
+					stateValues.codebaseIndexConfig?.codebaseIndexVectorStoreProvider ?? "qdrant",
 				codebaseIndexQdrantUrl:
 					stateValues.codebaseIndexConfig?.codebaseIndexQdrantUrl ?? "http://localhost:6333",
 				codebaseIndexEmbedderProvider:
@@ -2458,6 +2499,8 @@ export class ClineProvider
 				codebaseIndexOpenAiCompatibleBaseUrl:
 					stateValues.codebaseIndexConfig?.codebaseIndexOpenAiCompatibleBaseUrl,
 				codebaseIndexSearchMaxResults: stateValues.codebaseIndexConfig?.codebaseIndexSearchMaxResults,
+				codebaseIndexSearchMode: stateValues.codebaseIndexConfig?.codebaseIndexSearchMode ?? "vector",
+				codebaseIndexSearchRerank: stateValues.codebaseIndexConfig?.codebaseIndexSearchRerank ?? false,
 				codebaseIndexSearchMinScore: stateValues.codebaseIndexConfig?.codebaseIndexSearchMinScore,
 				codebaseIndexBedrockRegion: stateValues.codebaseIndexConfig?.codebaseIndexBedrockRegion,
 				codebaseIndexBedrockProfile: stateValues.codebaseIndexConfig?.codebaseIndexBedrockProfile,
@@ -2849,7 +2892,7 @@ export class ClineProvider
 		text?: string,
 		images?: string[],
 		parentTask?: Task,
-		options: CreateTaskOptions = {},
+		options: CreateTaskOptions & TaskProfileOptions = {},
 		configuration: RooCodeSettings = {},
 	): Promise<Task> {
 		if (configuration) {
@@ -2883,7 +2926,7 @@ export class ClineProvider
 		}
 
 		const {
-			apiConfiguration,
+			apiConfiguration: activeApiConfiguration,
 			organizationAllowList,
 			enableCheckpoints,
 			checkpointTimeout,
@@ -2892,6 +2935,8 @@ export class ClineProvider
 			remoteControlEnabled,
 		} = await this.getState()
 
+		const apiConfiguration = options.apiConfiguration ?? activeApiConfiguration
+
 		// Single-open-task invariant: always enforce for user-initiated top-level tasks
 		if (!parentTask) {
 			try {
@@ -3229,6 +3274,27 @@ export class ClineProvider
 			)
 		}
 
+		// 3b) Run the child on the profile that `modelRouting` assigns to subtasks, if any. Only the
+		//     child uses it; the active profile stays as is for the parent and any new tasks.
+		let subtaskProfile: TaskProfileOptions = {}
+		const { modelRouting } = await this.getState()
+		if (modelRouting?.subtask) {
+			try {
+				const { name, ...apiConfiguration } = await this.providerSettingsManager.getProfile({
+					id: modelRouting.subtask,
+				})
+				if (apiConfiguration.apiProvider) {
+					subtaskProfile = { apiConfiguration, apiConfigName: name }
+				}
+			} catch (e) {
+				this.log(
+					`[delegateParentAndOpenChild] Failed to load the subtask profile ${modelRouting.subtask}: ${
+						(e as Error)?.message ?? String(e)
+					}`,
+				)
+			}
+		}
+
 		// 4) Create child as sole active (parent reference preserved for lineage)
 		// Pass initialStatus: "active" to ensure the child task's historyItem is created
 		// with status from the start, avoiding race conditions where the task might
@@ -3236,6 +3302,7 @@ export class ClineProvider
 		const child = await this.createTask(message, undefined, parent as any, {
 			initialTodos,
 			initialStatus: "active",
+			...subtaskProfile,
 		})
 
 		// 5) Persist parent delegation metadata
@@ -1,5 +1,5 @@
 import { describe, it, expect, vi, beforeEach } from "vitest"
-import { handleCheckpointRestoreOperation } from "../checkpointRestoreHandler"
+import { handleCheckpointRestoreOperation, handleCheckpointRestoreFilesRequest } from "../checkpointRestoreHandler"
 import { saveTaskMessages } from "../../task-persistence"
 import pWaitFor from "p-wait-for"
 import * as vscode from "vscode"
@@ -30,6 +30,7 @@ describe("checkpointRestoreHandler", () => {
 				mockCline.abort = true
 			}),
 			checkpointRestore: vi.fn(),
+			getCheckpointRestoreFiles: vi.fn(async () => [{ path: "src/app.ts", change: "modified" }]),
 			clineMessages: [
 				{ ts: 1, type: "user", say: "user", text: "First message" },
 				{ ts: 2, type: "assistant", say: "assistant", text: "Response" },
@@ -41,6 +42,7 @@ describe("checkpointRestoreHandler", () => {
 					checkpoint: { hash: "abc123" },
 				},
 				{ ts: 4, type: "assistant", say: "assistant", text: "After checkpoint" },
+				{ ts: 5, type: "say", say: "checkpoint_saved", text: "def456" },
 			],
 		}
 
@@ -238,5 +240,49 @@ describe("checkpointRestoreHandler", () => {
 				"Error during checkpoint restore: Checkpoint restore failed",
 			)
 		})
+
+		it("should restore only the selected paths when given", async () => {
+			await handleCheckpointRestoreOperation({
+				provider: mockProvider,
+				currentCline: mockCline,
+				messageTs: 3,
+				messageIndex: 2,
+				checkpoint: { hash: "abc123" },
+				operation: "delete",
+				paths: ["src/app.ts"],
+			})
+
+			expect(mockCline.checkpointRestore).toHaveBeenCalledWith({
+				ts: 3,
+				commitHash: "abc123",
+				mode: "restore",
+				operation: "delete",
+				paths: ["src/app.ts"],
+			})
+		})
+	})
+
+	describe("handleCheckpointRestoreFilesRequest", () => {
+		it("should post the files changed since the checkpoint after the message", async () => {
+			await handleCheckpointRestoreFilesRequest(mockProvider, 3)
+
+			expect(mockCline.getCheckpointRestoreFiles).toHaveBeenCalledWith("def456")
+			expect(mockProvider.postMessageToWebview).toHaveBeenCalledWith({
+				type: "checkpointRestoreFiles",
+				messageTs: 3,
+				checkpointRestoreFiles: [{ path: "src/app.ts", change: "modified" }],
+			})
+		})
+
+		it("should post an empty list when there is no later checkpoint", async () => {
+			await handleCheckpointRestoreFilesRequest(mockProvider, 5)
+
+			expect(mockCline.getCheckpointRestoreFiles).not.toHaveBeenCalled()
+			expect(mockProvider.postMessageToWebview).toHaveBeenCalledWith({
+				type: "checkpointRestoreFiles",
+				messageTs: 5,
+				checkpointRestoreFiles: [],
+			})
+		})
 	})
 })
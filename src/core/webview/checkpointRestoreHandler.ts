@@ -1,3 +1,5 @@
+import type { CheckpointRestoreFile } from "@roo-code/types"
+
 import { Task } from "../task/Task"
 import { ClineProvider } from "./ClineProvider"
 import { saveTaskMessages } from "../task-persistence"
@@ -12,6 +14,8 @@ export interface CheckpointRestoreConfig {
 	messageIndex: number
 	checkpoint: { hash: string }
 	operation: "delete" | "edit"
+	/** Restore only these files instead of the whole workspace */
+	paths?: string[]
 	editData?: {
 		editedContent: string
 		images?: string[]
@@ -24,7 +28,7 @@ export interface CheckpointRestoreConfig {
  * This consolidates the common logic while handling operation-specific behavior.
  */
 export async function handleCheckpointRestoreOperation(config: CheckpointRestoreConfig): Promise<void> {
-	const { provider, currentCline, messageTs, checkpoint, operation, editData } = config
+	const { provider, currentCline, messageTs, checkpoint, operation, editData, paths } = config
 
 	try {
 		// For delete operations, ensure the task is properly aborted to handle any pending ask operations
@@ -59,6 +63,7 @@ export async function handleCheckpointRestoreOperation(config: CheckpointRestore
 			commitHash: checkpoint.hash,
 			mode: "restore",
 			operation,
+			paths,
 		})
 
 		// For delete operations, we need to save messages and reinitialize
@@ -87,6 +92,26 @@ export async function handleCheckpointRestoreOperation(config: CheckpointRestore
 	}
 }
 
+/**
+ * Sends the files a restore for the given message would change, so the
+ * restore dialog can offer to restore only some of them.
+ */
+export async function handleCheckpointRestoreFilesRequest(provider: ClineProvider, messageTs: number): Promise<void> {
+	const currentCline = provider.getCurrentTask()
+	const checkpoint = currentCline?.clineMessages.find((msg) => msg.say === "checkpoint_saved" && msg.ts > messageTs)
+	let checkpointRestoreFiles: CheckpointRestoreFile[] = []
+
+	if (currentCline && checkpoint?.text) {
+		try {
+			checkpointRestoreFiles = await currentCline.getCheckpointRestoreFiles(checkpoint.text)
+		} catch (error) {
+			console.error("Error listing checkpoint restore files:", error)
+		}
+	}
+
+	await provider.postMessageToWebview({ type: "checkpointRestoreFiles", messageTs, checkpointRestoreFiles })
+}
+
 /**
  * Common checkpoint restore validation and initialization utility.
  * This can be used by any checkpoint restore flow that needs to wait for initialization.
@@ -20,6 +20,8 @@ import {
 	ExperimentId,
 	checkoutDiffPayloadSchema,
 	checkoutRestorePayloadSchema,
+	checkpointLabelPayloadSchema,
+	checkpointCherryPickPayloadSchema,
 } from "@roo-code/types"
 import { customToolRegistry } from "@roo-code/core"
 import { CloudService } from "@roo-code/cloud"
@@ -30,7 +32,7 @@ import { saveTaskMessages } from "../task-persistence"
 
 import { ClineProvider } from "./ClineProvider"
 import { BrowserSessionPanelManager } from "./BrowserSessionPanelManager"
-import { handleCheckpointRestoreOperation } from "./checkpointRestoreHandler"
+import { handleCheckpointRestoreOperation, handleCheckpointRestoreFilesRequest } from "./checkpointRestoreHandler"
 import { generateErrorDiagnostics } from "./diagnosticsHandler"
 import { changeLanguage, t } from "../../i18n"
 import { Package } from "../../shared/package"
@@ -46,9 +48,10 @@ import { selectImages } from "../../integrations/misc/process-images"
 import { getTheme } from "../../integrations/theme/getTheme"
 import { discoverChromeHostUrl, tryChromeHostUrl } from "../../services/browser/browserDiscovery"
 import { searchWorkspaceFiles } from "../../services/search/file-search"
+import { searchWorkspaceSymbols } from "../../services/search/symbol-search"
 import { fileExistsAtPath } from "../../utils/fs"
 import { playTts, setTtsEnabled, setTtsSpeed, stopTts } from "../../utils/tts"
-import { searchCommits } from "../../utils/git"
+import { searchBranches, searchCommits } from "../../utils/git"
 import { exportSettings, importSettingsWithFeedback } from "../config/importExport"
 import { getOpenAiModels } from "../../api/providers/openai"
 import { getVsCodeLmModels } from "../../api/providers/vscode-lm"
@@ -180,7 +183,11 @@ export const webviewMessageHandler = async (
 	/**
 	 * Handles confirmed message deletion from webview dialog
 	 */
-	const handleDeleteMessageConfirm = async (messageTs: number, restoreCheckpoint?: boolean): Promise<void> => {
+	const handleDeleteMessageConfirm = async (
+		messageTs: number,
+		restoreCheckpoint?: boolean,
+		restorePaths?: string[],
+	): Promise<void> => {
 		const currentCline = provider.getCurrentTask()
 		if (!currentCline) {
 			console.error("[handleDeleteMessageConfirm] No current cline available")
@@ -220,6 +227,7 @@ export const webviewMessageHandler = async (
 						messageIndex,
 						checkpoint: { hash: nextCheckpoint.text },
 						operation: "delete",
+						paths: restorePaths,
 					})
 				} else {
 					// No checkpoint found before this message
@@ -309,6 +317,7 @@ export const webviewMessageHandler = async (
 		editedContent: string,
 		restoreCheckpoint?: boolean,
 		images?: string[],
+		restorePaths?: string[],
 	): Promise<void> => {
 		const currentCline = provider.getCurrentTask()
 		if (!currentCline) {
@@ -346,6 +355,7 @@ export const webviewMessageHandler = async (
 						messageIndex,
 						checkpoint: { hash: nextCheckpoint.text },
 						operation: "edit",
+						paths: restorePaths,
 						editData: {
 							editedContent,
 							images,
@@ -1207,6 +1217,32 @@ export const webviewMessageHandler = async (
 
 			break
 		}
+		case "checkpointLabel": {
+			const result = checkpointLabelPayloadSchema.safeParse(message.payload)
+
+			if (result.success) {
+				await provider.getCurrentTask()?.checkpointLabel(result.data)
+			}
+
+			break
+		}
+		case "checkpointCherryPick": {
+			const result = checkpointCherryPickPayloadSchema.safeParse(message.payload)
+
+			if (result.success) {
+				await provider.getCurrentTask()?.checkpointCherryPick(result.data)
+			}
+
+			break
+		}
+		case "requestCheckpointRestoreFiles":
+			if (typeof message.messageTs === "number") {
+				await handleCheckpointRestoreFilesRequest(provider, message.messageTs)
+			}
+			break
+		case "requestCheckpointTimeline":
+			await provider.getCurrentTask()?.postCheckpointTimeline()
+			break
 		case "cancelTask":
 			await provider.cancelTask()
 			break
@@ -1764,6 +1800,29 @@ export const webviewMessageHandler = async (
 			}
 			break
 		}
+		case "searchBranches": {
+			const cwd = getCurrentCwd()
+			if (cwd) {
+				const branches = await searchBranches(message.query || "", cwd)
+				await provider.postMessageToWebview({ type: "branchSearchResults", branches })
+			}
+			break
+		}
+		case "searchSymbols": {
+			const cwd = getCurrentCwd()
+			if (cwd) {
+				try {
+					const symbols = await searchWorkspaceSymbols(message.query || "", cwd)
+					await provider.postMessageToWebview({ type: "symbolSearchResults", symbols })
+				} catch (error) {
+					provider.log(
+						`Error searching symbols: ${JSON.stringify(error, Object.getOwnPropertyNames(error), 2)}`,
+					)
+					await provider.postMessageToWebview({ type: "symbolSearchResults", symbols: [] })
+				}
+			}
+			break
+		}
 		case "searchFiles": {
 			const workspacePath = getCurrentCwd()
 
@@ -1977,7 +2036,7 @@ export const webviewMessageHandler = async (
 				break
 			}
 
-			await handleDeleteMessageConfirm(message.messageTs, message.restoreCheckpoint)
+			await handleDeleteMessageConfirm(message.messageTs, message.restoreCheckpoint, message.restorePaths)
 			break
 		case "editMessageConfirm":
 			if (message.messageTs && message.text) {
@@ -1987,6 +2046,7 @@ export const webviewMessageHandler = async (
 					resolved.text,
 					message.restoreCheckpoint,
 					resolved.images,
+					message.restorePaths,
 				)
 			}
 			break
@@ -2523,6 +2583,7 @@ export const webviewMessageHandler = async (
 				const globalStateConfig = {
 					...currentConfig,
 					codebaseIndexEnabled: settings.codebaseIndexEnabled,
+					codebaseIndexVectorStoreProvider: settings.codebaseIndexVectorStoreProvider,
 					codebaseIndexQdrantUrl: settings.codebaseIndexQdrantUrl,
 					codebaseIndexEmbedderProvider: settings.codebaseIndexEmbedderProvider,
 					codebaseIndexEmbedderBaseUrl: settings.codebaseIndexEmbedderBaseUrl,
@@ -2532,6 +2593,8 @@ export const webviewMessageHandler = async (
 					codebaseIndexBedrockRegion: settings.codebaseIndexBedrockRegion,
 					codebaseIndexBedrockProfile: settings.codebaseIndexBedrockProfile,
 					codebaseIndexSearchMaxResults: settings.codebaseIndexSearchMaxResults,
+					codebaseIndexSearchMode: settings.codebaseIndexSearchMode,
+					codebaseIndexSearchRerank: settings.codebaseIndexSearchRerank,
 					codebaseIndexSearchMinScore: settings.codebaseIndexSearchMinScore,
 					codebaseIndexOpenRouterSpecificProvider: settings.codebaseIndexOpenRouterSpecificProvider,
 				}
@@ -3229,6 +3292,15 @@ export const webviewMessageHandler = async (
 			break
 		}
 
+		case "requestSpendSummary": {
+			try {
+				provider.postMessageToWebview({ type: "spendSummary", spendSummary: await provider.getSpendSummary() })
+			} catch (error) {
+				const errorMessage = error instanceof Error ? error.message : String(error)
+				provider.log(`Error computing the spend summary: ${errorMessage}`)
+			}
+			break
+		}
 		case "requestOpenAiCodexRateLimits": {
 			try {
 				const { openAiCodexOAuthManager } = await import("../../integrations/openai-codex/oauth")
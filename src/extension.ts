@@ -18,6 +18,7 @@ import { TelemetryService, PostHogTelemetryClient } from "@roo-code/telemetry"
 import { customToolRegistry } from "@roo-code/core"
 
 import "./utils/path" // Necessary to have access to String.prototype.toPosix.
+import { getWorkspacePath } from "./utils/path"
 import { createOutputChannelLogger, createDualLogger } from "./utils/outputChannelLogger"
 import { initializeNetworkProxy } from "./utils/networkProxy"
 
@@ -31,6 +32,8 @@ import { openAiCodexOAuthManager } from "./integrations/openai-codex/oauth"
 import { McpServerManager } from "./services/mcp/McpServerManager"
 import { CodeIndexManager } from "./services/code-index/manager"
 import { MdmService } from "./services/mdm/MdmService"
+import { roopikClient, LocalRoopikToolBackend } from "./services/roopik"
+import { BrowserSession } from "./services/browser/BrowserSession"
 import { migrateSettings } from "./utils/migrateSettings"
 import { autoImportSettings } from "./utils/autoImportSettings"
 import { API } from "./extension/api"
@@ -421,6 +424,17 @@ export async function activate(context: vscode.ExtensionContext) {
 	registerCodeActions(context)
 	registerTerminalActions(context)
 
+	// Serve the Roopik tools without Roopik IDE (CLI, evals): headless browser + file-backed canvas.
+	if (process.env.ROOPIK_TOOL_BACKEND === "local") {
+		const backend = new LocalRoopikToolBackend({
+			getCwd: () => getWorkspacePath() || undefined,
+			createBrowserSession: () => new BrowserSession(context),
+		})
+		roopikClient.setBackend(backend)
+		context.subscriptions.push({ dispose: () => void backend.dispose() })
+		outputChannel.appendLine("Roopik tools are served by the local backend (ROOPIK_TOOL_BACKEND=local)")
+	}
+
 	// Allows other extensions to activate once Roo is ready.
 	vscode.commands.executeCommand(`${Package.name}.activationCompleted`)
 
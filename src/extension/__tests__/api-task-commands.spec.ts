@@ -0,0 +1,129 @@
+import * as vscode from "vscode"
+
+import { IpcMessageType, IpcOrigin, TaskCommandName, type HistoryItem } from "@roo-code/types"
+
+import { API } from "../api"
+import { ClineProvider } from "../../core/webview/ClineProvider"
+
+vi.mock("vscode")
+vi.mock("../../core/webview/ClineProvider")
+
+vi.mock("@roo-code/ipc", async () => {
+	const { EventEmitter } = await import("events")
+
+	class IpcServer extends EventEmitter {
+		listen = vi.fn()
+		broadcast = vi.fn()
+		send = vi.fn()
+	}
+
+	return { IpcServer }
+})
+
+const historyItem = (id: string, ts: number) => ({ id, ts, task: `Task ${id}`, number: 1 }) as HistoryItem
+
+describe("API - task inspection and control commands", () => {
+	let api: API
+	let mockProvider: ClineProvider
+	let mockTask: any
+
+	beforeEach(() => {
+		mockTask = {
+			taskId: "task-1",
+			clineMessages: [
+				{ ts: 1, type: "say", say: "text", text: "Fix the bug" },
+				{ ts: 2, type: "ask", ask: "tool", text: "{}" },
+			],
+			approveAsk: vi.fn(),
+			denyAsk: vi.fn(),
+			getTokenUsage: vi.fn().mockReturnValue({ totalTokensIn: 10, totalTokensOut: 5, totalCost: 0.01 }),
+		}
+
+		mockProvider = {
+			context: {} as vscode.ExtensionContext,
+			on: vi.fn(),
+			getCurrentTask: vi.fn().mockReturnValue(mockTask),
+			getValue: vi
+				.fn()
+				.mockReturnValue([historyItem("old", 100), historyItem("new", 300), historyItem("mid", 200)]),
+			handleModeSwitch: vi.fn(),
+			customModesManager: { getCustomModes: vi.fn().mockResolvedValue([]) },
+		} as unknown as ClineProvider
+
+		api = new API({ appendLine: vi.fn() } as unknown as vscode.OutputChannel, mockProvider, "/tmp/roo.sock")
+	})
+
+	it("returns the task history most recent first", () => {
+		expect(api.getTaskHistory().map(({ id }) => id)).toEqual(["new", "mid", "old"])
+		expect(api.getTaskHistory(1).map(({ id }) => id)).toEqual(["new"])
+	})
+
+	it("returns the messages of an active task", async () => {
+		await expect(api.getTaskMessages("task-1")).resolves.toBe(mockTask.clineMessages)
+	})
+
+	it("answers the pending ask", () => {
+		api.respondToAsk({ taskId: "task-1", askTs: 2, response: "deny", text: "Not that file" })
+
+		expect(mockTask.denyAsk).toHaveBeenCalledWith({ text: "Not that file", images: undefined })
+		expect(mockTask.approveAsk).not.toHaveBeenCalled()
+	})
+
+	it("refuses to answer an ask that is no longer pending", () => {
+		expect(() => api.respondToAsk({ taskId: "task-1", askTs: 1, response: "approve" })).toThrow(
+			"Ask 1 is no longer pending",
+		)
+		expect(() => api.respondToAsk({ taskId: "task-2", response: "approve" })).toThrow("Task task-2 is not active")
+		expect(mockTask.approveAsk).not.toHaveBeenCalled()
+	})
+
+	it("rejects unknown modes", async () => {
+		await expect(api.switchMode("does-not-exist", "task-1")).rejects.toThrow(
+			'Mode "does-not-exist" does not exist',
+		)
+		await api.switchMode("architect", "task-1")
+
+		expect(mockProvider.handleModeSwitch).toHaveBeenCalledWith("architect")
+	})
+
+	it("responds to IPC commands sent with a request id", async () => {
+		const ipc = (api as any).ipc
+
+		ipc.emit(
+			IpcMessageType.TaskCommand,
+			"client-1",
+			{ commandName: TaskCommandName.GetTokenUsage, data: "task-1" },
+			"r1",
+		)
+		ipc.emit(IpcMessageType.TaskCommand, "client-1", { commandName: TaskCommandName.GetTokenUsage, data: "task-9" })
+		ipc.emit(
+			IpcMessageType.TaskCommand,
+			"client-1",
+			{ commandName: TaskCommandName.RespondToAsk, data: { taskId: "task-9", response: "approve" } },
+			"r2",
+		)
+
+		await vi.waitFor(() => expect(ipc.send).toHaveBeenCalledTimes(2))
+
+		expect(ipc.send).toHaveBeenCalledWith("client-1", {
+			type: IpcMessageType.TaskCommandResponse,
+			origin: IpcOrigin.Server,
+			data: {
+				requestId: "r1",
+				commandName: TaskCommandName.GetTokenUsage,
+				success: true,
+				data: { totalTokensIn: 10, totalTokensOut: 5, totalCost: 0.01 },
+			},
+		})
+		expect(ipc.send).toHaveBeenCalledWith("client-1", {
+			type: IpcMessageType.TaskCommandResponse,
+			origin: IpcOrigin.Server,
+			data: {
+				requestId: "r2",
+				commandName: TaskCommandName.RespondToAsk,
+				success: false,
+				error: "Task task-9 is not active",
+			},
+		})
+	})
+})
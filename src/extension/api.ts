@@ -12,7 +12,12 @@ import {
 	type ProviderSettings,
 	type ProviderSettingsEntry,
 	type TaskEvent,
+	type TaskCommand,
+	type TaskCommandResponse,
 	type CreateTaskOptions,
+	type HistoryItem,
+	type ClineMessage,
+	type TokenUsage,
 	RooCodeEventName,
 	TaskCommandName,
 	isSecretStateKey,
@@ -20,9 +25,15 @@ import {
 	IpcMessageType,
 } from "@roo-code/types"
 import { IpcServer } from "@roo-code/ipc"
+import pWaitFor from "p-wait-for"
 
 import { Package } from "../shared/package"
+import { getModeBySlug } from "../shared/modes"
+import { getApiMetrics } from "../shared/getApiMetrics"
+import { combineApiRequests } from "../shared/combineApiRequests"
+import { combineCommandSequences } from "../shared/combineCommandSequences"
 import { ClineProvider } from "../core/webview/ClineProvider"
+import { readTaskMessages } from "../core/task-persistence"
 import { openClineInNewTab } from "../activate/registerCommands"
 
 export class API extends EventEmitter<RooCodeEvents> implements RooCodeAPI {
@@ -65,41 +76,71 @@ export class API extends EventEmitter<RooCodeEvents> implements RooCodeAPI {
 			ipc.listen()
 			this.log(`[API] ipc server started: socketPath=${socketPath}, pid=${process.pid}, ppid=${process.ppid}`)
 
-			ipc.on(IpcMessageType.TaskCommand, async (_clientId, { commandName, data }) => {
-				switch (commandName) {
-					case TaskCommandName.StartNewTask:
-						this.log(`[API] StartNewTask -> ${data.text}, ${JSON.stringify(data.configuration)}`)
-						await this.startNewTask(data)
-						break
-					case TaskCommandName.CancelTask:
-						this.log(`[API] CancelTask -> ${data}`)
-						await this.cancelTask(data)
-						break
-					case TaskCommandName.CloseTask:
-						this.log(`[API] CloseTask -> ${data}`)
-						await vscode.commands.executeCommand("workbench.action.files.saveFiles")
-						await vscode.commands.executeCommand("workbench.action.closeWindow")
-						break
-					case TaskCommandName.ResumeTask:
-						this.log(`[API] ResumeTask -> ${data}`)
-						try {
-							await this.resumeTask(data)
-						} catch (error) {
-							const errorMessage = error instanceof Error ? error.message : String(error)
-							this.log(`[API] ResumeTask failed for taskId ${data}: ${errorMessage}`)
-							// Don't rethrow - we want to prevent IPC server crashes
-							// The error is logged for debugging purposes
-						}
-						break
-					case TaskCommandName.SendMessage:
-						this.log(`[API] SendMessage -> ${data.text}`)
-						await this.sendMessage(data.text, data.images)
-						break
+			ipc.on(IpcMessageType.TaskCommand, async (clientId, command, requestId) => {
+				let response: Omit<TaskCommandResponse, "requestId">
+
+				try {
+					const data = await this.handleTaskCommand(command)
+					response = { commandName: command.commandName, success: true, data }
+				} catch (error) {
+					const errorMessage = error instanceof Error ? error.message : String(error)
+					this.log(`[API] ${command.commandName} failed: ${errorMessage}`)
+					// Don't rethrow - we want to prevent IPC server crashes
+					response = { commandName: command.commandName, success: false, error: errorMessage }
+				}
+
+				// Commands sent with a request id expect a response, e.g. to read the result of a query.
+				if (requestId) {
+					ipc.send(clientId, {
+						type: IpcMessageType.TaskCommandResponse,
+						origin: IpcOrigin.Server,
+						data: { requestId, ...response },
+					})
 				}
 			})
 		}
 	}
 
+	private async handleTaskCommand({ commandName, data }: TaskCommand): Promise<unknown> {
+		switch (commandName) {
+			case TaskCommandName.StartNewTask:
+				this.log(`[API] StartNewTask -> ${data.text}, ${JSON.stringify(data.configuration)}`)
+				return this.startNewTask(data)
+			case TaskCommandName.CancelTask:
+				this.log(`[API] CancelTask -> ${data}`)
+				return this.cancelTask(data)
+			case TaskCommandName.CloseTask:
+				this.log(`[API] CloseTask -> ${data}`)
+				await vscode.commands.executeCommand("workbench.action.files.saveFiles")
+				await vscode.commands.executeCommand("workbench.action.closeWindow")
+				return
+			case TaskCommandName.ResumeTask:
+				this.log(`[API] ResumeTask -> ${data}`)
+				return this.resumeTask(data)
+			case TaskCommandName.SendMessage:
+				this.log(`[API] SendMessage -> ${data.text}`)
+				return this.sendMessage(data.text, data.images)
+			case TaskCommandName.GetTaskHistory:
+				this.log(`[API] GetTaskHistory -> ${data?.limit ?? "all"}`)
+				return this.getTaskHistory(data?.limit)
+			case TaskCommandName.GetTaskMessages:
+				this.log(`[API] GetTaskMessages -> ${data}`)
+				return this.getTaskMessages(data)
+			case TaskCommandName.RespondToAsk:
+				this.log(`[API] RespondToAsk -> ${data.taskId}, ${data.response}`)
+				return this.respondToAsk(data)
+			case TaskCommandName.SwitchMode:
+				this.log(`[API] SwitchMode -> ${data.mode}`)
+				return this.switchMode(data.mode, data.taskId)
+			case TaskCommandName.RestoreCheckpoint:
+				this.log(`[API] RestoreCheckpoint -> ${data.taskId}, ${data.commitHash}`)
+				return this.restoreCheckpoint(data)
+			case TaskCommandName.GetTokenUsage:
+				this.log(`[API] GetTokenUsage -> ${data}`)
+				return this.getTokenUsage(data)
+		}
+	}
+
 	public override emit<K extends keyof RooCodeEvents>(
 		eventName: K,
 		...args: K extends keyof RooCodeEvents ? RooCodeEvents[K] : never
@@ -202,6 +243,136 @@ export class API extends EventEmitter<RooCodeEvents> implements RooCodeAPI {
 		await this.sidebarProvider.postMessageToWebview({ type: "invoke", invoke: "secondaryButtonClick" })
 	}
 
+	// Task Inspection & Control
+
+	/**
+	 * Returns the running task with the given id and the provider it belongs to.
+	 * @throws If the task isn't the current task of any provider
+	 */
+	private getActiveTask(taskId: string) {
+		const provider = this.taskMap.get(taskId) ?? this.sidebarProvider
+		const task = provider.getCurrentTask()
+
+		if (task?.taskId !== taskId) {
+			throw new Error(`Task ${taskId} is not active`)
+		}
+
+		return { provider, task }
+	}
+
+	private findActiveTask(taskId: string) {
+		try {
+			return this.getActiveTask(taskId).task
+		} catch {
+			return undefined
+		}
+	}
+
+	public getTaskHistory(limit?: number): HistoryItem[] {
+		const history = (this.sidebarProvider.getValue("taskHistory") ?? [])
+			.filter((item) => item.ts && item.task)
+			.sort((a, b) => b.ts - a.ts)
+
+		return limit ? history.slice(0, limit) : history
+	}
+
+	public async getTaskMessages(taskId: string): Promise<ClineMessage[]> {
+		const task = this.findActiveTask(taskId)
+
+		if (task) {
+			return task.clineMessages
+		}
+
+		if (!(await this.isTaskInHistory(taskId))) {
+			throw new Error(`Task ${taskId} not found`)
+		}
+
+		const globalStoragePath = this.sidebarProvider.contextProxy.globalStorageUri.fsPath
+		return readTaskMessages({ taskId, globalStoragePath })
+	}
+
+	public async getTokenUsage(taskId: string): Promise<TokenUsage> {
+		const task = this.findActiveTask(taskId)
+
+		if (task) {
+			return task.getTokenUsage()
+		}
+
+		const messages = await this.getTaskMessages(taskId)
+		return getApiMetrics(combineApiRequests(combineCommandSequences(messages.slice(1))))
+	}
+
+	/**
+	 * Answers the ask a task is waiting on.
+	 * @param askTs Timestamp of the ask to answer; if given, the command fails when a different ask is pending
+	 */
+	public respondToAsk({
+		taskId,
+		askTs,
+		response,
+		text,
+		images,
+	}: {
+		taskId: string
+		askTs?: number
+		response: "approve" | "deny"
+		text?: string
+		images?: string[]
+	}) {
+		const { task } = this.getActiveTask(taskId)
+		const lastMessage = task.clineMessages[task.clineMessages.length - 1]
+
+		if (lastMessage?.type !== "ask" || lastMessage.partial) {
+			throw new Error(`Task ${taskId} has no pending ask`)
+		}
+
+		if (askTs !== undefined && lastMessage.ts !== askTs) {
+			throw new Error(`Ask ${askTs} is no longer pending`)
+		}
+
+		if (response === "approve") {
+			task.approveAsk({ text, images })
+		} else {
+			task.denyAsk({ text, images })
+		}
+	}
+
+	/**
+	 * Switches the mode of a running task, or of the sidebar if no task is given.
+	 */
+	public async switchMode(mode: string, taskId?: string) {
+		const provider = taskId ? this.getActiveTask(taskId).provider : this.sidebarProvider
+		const customModes = await provider.customModesManager.getCustomModes()
+
+		if (!getModeBySlug(mode, customModes)) {
+			throw new Error(`Mode "${mode}" does not exist`)
+		}
+
+		await provider.handleModeSwitch(mode)
+	}
+
+	public async restoreCheckpoint({
+		taskId,
+		ts,
+		commitHash,
+		mode = "restore",
+	}: {
+		taskId: string
+		ts: number
+		commitHash: string
+		mode?: "preview" | "restore"
+	}) {
+		const { provider } = this.getActiveTask(taskId)
+
+		// Same sequence as restoring from the chat view: the task is cancelled
+		// and reinitialized from history before its checkpoint is restored.
+		await provider.cancelTask()
+		await pWaitFor(() => provider.getCurrentTask()?.isInitialized === true, { timeout: 3_000 })
+
+		const task = this.getActiveTask(taskId).task
+		await task.checkpointRestore({ ts, commitHash, mode })
+	}
+
 	public isReady() {
 		return this.sidebarProvider.viewLaunched
 	}
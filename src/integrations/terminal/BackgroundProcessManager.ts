@@ -0,0 +1,344 @@
+import { EventEmitter } from "events"
+import * as path from "path"
+
+import type { ExitCodeDetails, RooTerminalProcessResultPromise } from "./types"
+import { TerminalRegistry } from "./TerminalRegistry"
+import { OutputInterceptor } from "./OutputInterceptor"
+
+export type BackgroundProcessStatus = "running" | "exited" | "stopped"
+
+/**
+ * Snapshot of a background process.
+ */
+export interface BackgroundProcessInfo {
+	name: string
+	command: string
+	cwd: string
+	status: BackgroundProcessStatus
+	pid?: number
+	exitCode?: number
+	signalName?: string
+	/** Ports the process reported listening on in its output */
+	ports: number[]
+	/** Time the readiness pattern matched, if one was waited for */
+	readyAt?: number
+	startedAt: number
+	endedAt?: number
+	/** Artifact file with the full output, readable with `read_command_output` */
+	artifactId: string
+	outputBytes: number
+}
+
+export interface StartBackgroundProcessOptions {
+	/** Name the process is referred to by; unique among the task's running processes */
+	name: string
+	command: string
+	cwd: string
+	/** Directory the output artifact is written to (the task's command output directory) */
+	storageDir: string
+}
+
+export type WaitForOutputResult =
+	| { status: "ready"; match: string }
+	| { status: "exited" }
+	| { status: "timeout" }
+
+interface BackgroundProcessEvents {
+	output: [name: string, chunk: string]
+	exit: [name: string]
+}
+
+interface ManagedProcess {
+	info: BackgroundProcessInfo
+	process: RooTerminalProcessResultPromise
+	interceptor: OutputInterceptor
+	/** Tail of the output, for readiness checks and previews */
+	recentOutput: string
+	/** Number of characters of the process output received so far */
+	receivedChars: number
+	stopRequested: boolean
+	pollTimer: NodeJS.Timeout
+	exited: Promise<void>
+}
+
+/** Maximum number of characters of recent output kept in memory per process */
+const MAX_RECENT_OUTPUT_CHARS = 64 * 1024
+
+/** How often output is collected from the process, in milliseconds */
+const OUTPUT_POLL_INTERVAL_MS = 250
+
+/** How long to wait for a process to exit after it has been killed, in milliseconds */
+const STOP_TIMEOUT_MS = 10_000
+
+const PORT_PATTERNS = [
+	/(?:localhost|127\.0\.0\.1|0\.0\.0\.0|\[::1?\]):(\d{2,5})\b/g,
+	/\b(?:listening|running|started|serving)\b[^\n]*?\bport\s*:?\s*(\d{2,5})\b/gi,
+]
+
+const VALID_NAME = /^[\w.-]{1,64}$/
+
+let lastExecutionId = 0
+
+/**
+ * Runs long-lived commands such as dev servers and watchers for a task.
+ *
+ * Each process gets its own headless terminal from the TerminalRegistry, and
+ * its output is persisted by an OutputInterceptor as a command output
+ * artifact, so `read_command_output` can page through and search it while
+ * the process runs. All processes are stopped when the task is disposed.
+ */
+export class BackgroundProcessManager extends EventEmitter<BackgroundProcessEvents> {
+	private processes = new Map<string, ManagedProcess>()
+
+	/**
+	 * @param taskId ID of the task that owns the processes
+	 */
+	constructor(private readonly taskId: string) {
+		super()
+	}
+
+	/**
+	 * Starts a command as a named background process.
+	 * @throws Error if the name is invalid or a process with that name is still running
+	 */
+	start({ name, command, cwd, storageDir }: StartBackgroundProcessOptions): BackgroundProcessInfo {
+		if (!VALID_NAME.test(name)) {
+			throw new Error(`Invalid process name "${name}". Use letters, digits, dots, dashes or underscores.`)
+		}
+
+		if (this.processes.get(name)?.info.status === "running") {
+			throw new Error(`A process named "${name}" is already running. Stop it first or choose another name.`)
+		}
+
+		const executionId = String((lastExecutionId = Math.max(Date.now(), lastExecutionId + 1)))
+		const interceptor = new OutputInterceptor({
+			executionId,
+			taskId: this.taskId,
+			command,
+			storageDir,
+			previewSize: "small",
+			persistAll: true,
+		})
+
+		const info: BackgroundProcessInfo = {
+			name,
+			command,
+			cwd,
+			status: "running",
+			ports: [],
+			startedAt: Date.now(),
+			artifactId: path.basename(interceptor.getArtifactPath()),
+			outputBytes: 0,
+		}
+
+		const terminal = TerminalRegistry.createBackgroundProcessTerminal(cwd)
+		let exitDetails: ExitCodeDetails | undefined
+
+		const process = terminal.runCommand(command, {
+			onLine: (chunk) => this.handleOutput(managed, chunk),
+			onCompleted: async (output) => {
+				// Pick up output that arrived after the last poll, e.g. a final line without a newline
+				this.handleOutput(managed, output?.slice(managed.receivedChars) ?? "")
+				await interceptor.finalize()
+			},
+			onShellExecutionStarted: (pid) => {
+				info.pid = pid
+			},
+			onShellExecutionComplete: (details) => {
+				exitDetails = details
+			},
+		})
+
+		const managed: ManagedProcess = {
+			info,
+			process,
+			interceptor,
+			recentOutput: "",
+			receivedChars: 0,
+			stopRequested: false,
+			// Buffered output is only emitted when more output arrives, so collect it periodically
+			pollTimer: setInterval(
+				() => this.handleOutput(managed, process.getUnretrievedOutput()),
+				OUTPUT_POLL_INTERVAL_MS,
+			),
+			exited: Promise.resolve(),
+		}
+
+		managed.exited = Promise.resolve(process)
+			.catch((error) => {
+				console.error(`[BackgroundProcessManager] Process "${name}" failed:`, error)
+			})
+			.then(() => {
+				clearInterval(managed.pollTimer)
+				info.status = managed.stopRequested ? "stopped" : "exited"
+				info.exitCode = exitDetails?.exitCode
+				info.signalName = exitDetails?.signalName
+				info.endedAt = Date.now()
+				this.emit("exit", name)
+			})
+
+		this.processes.set(name, managed)
+
+		return { ...info }
+	}
+
+	/**
+	 * Gets a snapshot of a process, including processes that have ended.
+	 */
+	get(name: string): BackgroundProcessInfo | undefined {
+		const managed = this.processes.get(name)
+		return managed ? { ...managed.info, ports: [...managed.info.ports] } : undefined
+	}
+
+	/**
+	 * Lists all processes of the task, oldest first.
+	 */
+	list(): BackgroundProcessInfo[] {
+		return [...this.processes.keys()].map((name) => this.get(name)!).sort((a, b) => a.startedAt - b.startedAt)
+	}
+
+	/**
+	 * Gets the last lines of a process's output.
+	 * @param name Process name
+	 * @param lines Maximum number of lines
+	 */
+	getRecentOutput(name: string, lines: number): string {
+		const output = this.processes.get(name)?.recentOutput ?? ""
+		return output.replace(/\n$/, "").split("\n").slice(-lines).join("\n")
+	}
+
+	/**
+	 * Waits until the output of a process matches a pattern, checking the
+	 * output received so far first.
+	 * @param name Process name
+	 * @param pattern Readiness pattern
+	 * @param timeoutMs Maximum time to wait
+	 * @throws Error if there is no process with that name
+	 */
+	async waitForOutput(name: string, pattern: RegExp, timeoutMs: number): Promise<WaitForOutputResult> {
+		const managed = this.processes.get(name)
+		if (!managed) {
+			throw new Error(`No process named "${name}".`)
+		}
+
+		const markReady = (match: string): WaitForOutputResult => {
+			managed.info.readyAt ??= Date.now()
+			return { status: "ready", match }
+		}
+
+		let seen = managed.recentOutput
+		const initialMatch = seen.match(pattern)
+		if (initialMatch) {
+			return markReady(initialMatch[0])
+		}
+		if (managed.info.status !== "running") {
+			return { status: "exited" }
+		}
+
+		return new Promise<WaitForOutputResult>((resolve) => {
+			const finish = (result: WaitForOutputResult) => {
+				clearTimeout(timer)
+				this.off("output", onOutput)
+				this.off("exit", onExit)
+				resolve(result)
+			}
+
+			const onOutput = (outputName: string, chunk: string) => {
+				if (outputName !== name) return
+				seen = (seen + chunk).slice(-MAX_RECENT_OUTPUT_CHARS)
+				const match = seen.match(pattern)
+				if (match) {
+					finish(markReady(match[0]))
+				}
+			}
+
+			const onExit = (exitedName: string) => {
+				if (exitedName === name) {
+					finish({ status: "exited" })
+				}
+			}
+
+			const timer = setTimeout(() => finish({ status: "timeout" }), timeoutMs)
+			this.on("output", onOutput)
+			this.on("exit", onExit)
+		})
+	}
+
+	/**
+	 * Stops a process and its child processes and waits for it to exit.
+	 * @throws Error if there is no process with that name
+	 */
+	async stop(name: string): Promise<BackgroundProcessInfo> {
+		const managed = this.processes.get(name)
+		if (!managed) {
+			throw new Error(`No process named "${name}".`)
+		}
+
+		if (managed.info.status === "running") {
+			managed.stopRequested = true
+			managed.process.abort()
+
+			let timeoutId: NodeJS.Timeout | undefined
+			await Promise.race([
+				managed.exited,
+				new Promise<void>((resolve) => {
+					timeoutId = setTimeout(resolve, STOP_TIMEOUT_MS)
+				}),
+			])
+			clearTimeout(timeoutId)
+		}
+
+		return this.get(name)!
+	}
+
+	/**
+	 * Kills all running processes without waiting for them to exit.
+	 */
+	stopAll(): void {
+		for (const managed of this.processes.values()) {
+			if (managed.info.status === "running") {
+				managed.stopRequested = true
+				managed.process.abort()
+			}
+			clearInterval(managed.pollTimer)
+		}
+	}
+
+	private handleOutput(managed: ManagedProcess, chunk: string): void {
+		if (!chunk) {
+			return
+		}
+
+		managed.receivedChars += chunk.length
+		managed.info.outputBytes += Buffer.byteLength(chunk, "utf8")
+		managed.interceptor.write(chunk)
+		managed.recentOutput = (managed.recentOutput + chunk).slice(-MAX_RECENT_OUTPUT_CHARS)
+
+		for (const port of detectPorts(chunk)) {
+			if (!managed.info.ports.includes(port)) {
+				managed.info.ports.push(port)
+			}
+		}
+
+		this.emit("output", managed.info.name, chunk)
+	}
+}
+
+/**
+ * Finds the ports a process reports listening on, e.g. `http://localhost:5173/`
+ * or `Server listening on port 8080`.
+ */
+export function detectPorts(output: string): number[] {
+	const ports = new Set<number>()
+
+	for (const pattern of PORT_PATTERNS) {
+		for (const match of output.matchAll(pattern)) {
+			const port = Number(match[1])
+			if (port > 0 && port < 65536) {
+				ports.add(port)
+			}
+		}
+	}
+
+	return [...ports]
+}
@@ -17,6 +17,12 @@ export interface OutputInterceptorOptions {
 	storageDir: string
 	/** Size category for the preview buffer (small/medium/large) */
 	previewSize: TerminalOutputPreviewSize
+	/**
+	 * Write all output to the artifact file as it arrives, instead of only once it
+	 * exceeds the preview threshold. Used for background processes, whose output
+	 * is read while they are still running.
+	 */
+	persistAll?: boolean
 }
 
 /**
@@ -125,7 +131,7 @@ export class OutputInterceptor {
 			// Accumulate ALL chunks for lossless disk storage
 			this.pendingChunks.push(chunk)
 
-			if (this.totalBytes > this.previewBytes) {
+			if (this.totalBytes > this.previewBytes || this.options.persistAll) {
 				this.spillToDisk()
 			}
 		} else {
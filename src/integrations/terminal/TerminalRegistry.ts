@@ -141,6 +141,19 @@ export class TerminalRegistry {
 		return newTerminal
 	}
 
+	/**
+	 * Creates a terminal for a managed background process. Unlike the other
+	 * terminals it is not tracked by the registry: it is never reused for
+	 * other commands and its output is not reported in the environment
+	 * details, since the BackgroundProcessManager reads it instead.
+	 *
+	 * @param cwd The working directory path
+	 * @returns An ExecaTerminal instance
+	 */
+	public static createBackgroundProcessTerminal(cwd: string): RooTerminal {
+		return new ExecaTerminal(this.nextTerminalId++, cwd)
+	}
+
 	/**
 	 * Gets an existing terminal or creates a new one for the given working
 	 * directory.
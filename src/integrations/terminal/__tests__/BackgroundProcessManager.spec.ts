@@ -0,0 +1,98 @@
+// npx vitest run src/integrations/terminal/__tests__/BackgroundProcessManager.spec.ts
+
+import * as fs from "fs/promises"
+import * as os from "os"
+import * as path from "path"
+
+import { BackgroundProcessManager, detectPorts } from "../BackgroundProcessManager"
+
+// TODO: Run the equivalent tests for Windows.
+describe.skipIf(process.platform === "win32")("BackgroundProcessManager", () => {
+	let manager: BackgroundProcessManager
+	let storageDir: string
+
+	beforeEach(async () => {
+		manager = new BackgroundProcessManager("task-1")
+		storageDir = await fs.mkdtemp(path.join(os.tmpdir(), "background-processes-"))
+	})
+
+	afterEach(async () => {
+		manager.stopAll()
+		await fs.rm(storageDir, { recursive: true, force: true })
+	})
+
+	const start = (name: string, command: string) => manager.start({ name, command, cwd: os.tmpdir(), storageDir })
+
+	it("starts a named process and lists it", () => {
+		const info = start("server", "sleep 5")
+
+		expect(info).toMatchObject({ name: "server", command: "sleep 5", status: "running", ports: [] })
+		expect(info.artifactId).toMatch(/^cmd-\d+\.txt$/)
+		expect(manager.list().map((process) => process.name)).toEqual(["server"])
+	})
+
+	it("rejects invalid and duplicate names", () => {
+		expect(() => start("my server", "sleep 5")).toThrow(/Invalid process name/)
+
+		start("server", "sleep 5")
+		expect(() => start("server", "sleep 5")).toThrow(/already running/)
+	})
+
+	it("resolves when the output matches the ready pattern and records ports", async () => {
+		start("server", "echo starting; sleep 0.2; echo 'Listening on http://localhost:5173/'; sleep 5")
+
+		const result = await manager.waitForOutput("server", /Listening on/, 5000)
+
+		expect(result).toEqual({ status: "ready", match: "Listening on" })
+		expect(manager.get("server")?.readyAt).toBeDefined()
+		expect(manager.get("server")?.ports).toEqual([5173])
+		expect(manager.getRecentOutput("server", 1)).toContain("localhost:5173")
+	})
+
+	it("reports when the process exits before it is ready", async () => {
+		start("build", "echo done")
+
+		const result = await manager.waitForOutput("build", /never/, 5000)
+
+		expect(result).toEqual({ status: "exited" })
+		expect(manager.get("build")).toMatchObject({ status: "exited", exitCode: 0 })
+	})
+
+	it("times out while the process keeps running", async () => {
+		start("watcher", "sleep 5")
+
+		const result = await manager.waitForOutput("watcher", /ready/, 100)
+
+		expect(result).toEqual({ status: "timeout" })
+		expect(manager.get("watcher")?.status).toBe("running")
+	})
+
+	it("stops a process and persists its output as an artifact", async () => {
+		start("server", "echo hello; sleep 30")
+		await manager.waitForOutput("server", /hello/, 5000)
+
+		const info = await manager.stop("server")
+
+		expect(info.status).toBe("stopped")
+		expect(info.endedAt).toBeDefined()
+		const artifact = await fs.readFile(path.join(storageDir, info.artifactId), "utf8")
+		expect(artifact).toContain("hello")
+	})
+
+	it("throws for unknown processes", async () => {
+		await expect(manager.waitForOutput("missing", /x/, 100)).rejects.toThrow('No process named "missing".')
+		await expect(manager.stop("missing")).rejects.toThrow('No process named "missing".')
+	})
+})
+
+describe("detectPorts", () => {
+	it("finds ports in URLs and listening messages", () => {
+		expect(detectPorts("  ➜  Local:   http://localhost:5173/\n")).toEqual([5173])
+		expect(detectPorts("Server listening on port 8080")).toEqual([8080])
+		expect(detectPorts("http://127.0.0.1:3000 and http://0.0.0.0:3000")).toEqual([3000])
+	})
+
+	it("ignores output without ports", () => {
+		expect(detectPorts("Compiled successfully in 120ms")).toEqual([])
+	})
+})
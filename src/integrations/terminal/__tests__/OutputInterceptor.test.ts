@@ -145,6 +145,27 @@ describe("OutputInterceptor", () => {
 
 			expect(mockWriteStream.write).toHaveBeenCalledWith(nextChunk)
 		})
+
+		it("should persist small output to disk when persistAll is set", async () => {
+			const interceptor = new OutputInterceptor({
+				executionId: "12345",
+				taskId: "task-1",
+				command: "npm run dev",
+				storageDir,
+				previewSize: "small",
+				persistAll: true,
+			})
+
+			const smallOutput = "Server ready\n"
+			interceptor.write(smallOutput)
+
+			expect(interceptor.hasSpilledToDisk()).toBe(true)
+			expect(mockWriteStream.write).toHaveBeenCalledWith(smallOutput)
+
+			const result = await interceptor.finalize()
+			expect(result.preview).toBe(smallOutput)
+			expect(result.artifactPath).toBe(path.join(storageDir, "cmd-12345.txt"))
+		})
 	})
 
 	describe("Threshold settings", () => {
@@ -0,0 +1,377 @@
+// npx vitest run src/integrations/terminal/test-output/__tests__/test-output.spec.ts
+
+import * as fs from "fs/promises"
+import * as os from "os"
+import * as path from "path"
+
+import { formatTestRunSummary, isTestCommand, parseTestResults } from "../index"
+import { parseVitestOutput } from "../vitest"
+import { parseJestOutput } from "../jest"
+import { parseMochaOutput } from "../mocha"
+import { parsePytestOutput } from "../pytest"
+import { parseGoTestOutput } from "../go"
+import { parseCargoTestOutput } from "../cargo"
+import { parseJUnitReports } from "../junit"
+
+const VITEST_OUTPUT = `
+ ✓ src/a.spec.ts (3 tests) 5ms
+ ❯ src/b.spec.ts (3 tests | 1 failed | 1 skipped) 7ms
+   × adds > handles negatives 3ms
+     → expected 1 to be 2 // Object.is equality
+
+⎯⎯⎯⎯⎯⎯⎯ Failed Tests 1 ⎯⎯⎯⎯⎯⎯⎯
+
+ FAIL  src/b.spec.ts > adds > handles negatives
+AssertionError: expected 1 to be 2 // Object.is equality
+
+- Expected
++ Received
+
+ ❯ src/b.spec.ts:10:17
+      8|   it("handles negatives", () => {
+      9|     expect(add(-1, 2)).toBe(2)
+
+⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯[1/1]⎯
+
+ Test Files  1 failed | 1 passed (2)
+      Tests  1 failed | 4 passed | 1 skipped (6)
+   Start at  10:00:00
+   Duration  1.25s (transform 100ms, setup 0ms, collect 200ms, tests 12ms)
+`
+
+const JEST_OUTPUT = `
+PASS src/a.test.js
+FAIL src/b.test.js
+  adds
+    ✕ handles negatives (3 ms)
+
+  ● adds › handles negatives
+
+    expect(received).toBe(expected) // Object.is equality
+
+    Expected: 2
+    Received: 1
+
+       8 |   it("handles negatives", () => {
+    >  9 |     expect(add(-1, 2)).toBe(2)
+         |                        ^
+
+      at Object.toBe (src/b.test.js:9:24)
+
+Test Suites: 1 failed, 1 passed, 2 total
+Tests:       1 failed, 1 skipped, 4 passed, 6 total
+Snapshots:   0 total
+Time:        1.234 s
+`
+
+const MOCHA_OUTPUT = `
+  Array
+    #indexOf()
+      ✔ should return -1 when the value is not present
+      1) should return the index
+
+
+  1 passing (8ms)
+  1 pending
+  1 failing
+
+  1) Array
+       #indexOf()
+         should return the index:
+
+      AssertionError [ERR_ASSERTION]: Expected values to be strictly equal:
+      at Context.<anonymous> (test/array.spec.js:10:14)
+      at process.processImmediate (node:internal/timers:476:21)
+`
+
+const PYTEST_OUTPUT = `
+============================= test session starts ==============================
+collected 4 items
+
+tests/test_a.py .F.s                                                     [100%]
+
+=================================== FAILURES ===================================
+___________________________________ test_two ___________________________________
+
+    def test_two():
+>       assert 1 == 2
+E       assert 1 == 2
+
+tests/test_a.py:5: AssertionError
+=========================== short test summary info ============================
+FAILED tests/test_a.py::test_two - assert 1 == 2
+=================== 1 failed, 2 passed, 1 skipped in 0.12s ====================
+`
+
+const GO_OUTPUT = `
+--- FAIL: TestAdd (0.00s)
+    add_test.go:10: expected 3, got 4
+--- FAIL: TestSuite (0.00s)
+    --- FAIL: TestSuite/sub (0.00s)
+        suite_test.go:7: boom
+FAIL
+FAIL	example.com/m	0.002s
+ok  	example.com/other	0.003s
+`
+
+const CARGO_OUTPUT = `
+running 3 tests
+test tests::it_works ... ok
+test tests::it_fails ... FAILED
+test tests::ignored ... ignored
+
+failures:
+
+---- tests::it_fails stdout ----
+thread 'tests::it_fails' panicked at src/lib.rs:12:9:
+assertion \`left == right\` failed
+  left: 1
+ right: 2
+
+failures:
+    tests::it_fails
+
+test result: FAILED. 1 passed; 1 failed; 1 ignored; 0 measured; 0 filtered out; finished in 0.01s
+
+running 1 test
+test src/lib.rs - add (line 3) ... ok
+
+test result: ok. 1 passed; 0 failed; 0 ignored; 0 measured; 0 filtered out; finished in 0.20s
+`
+
+const JUNIT_REPORT = `<?xml version="1.0" encoding="UTF-8"?>
+<testsuites time="0.5">
+  <testsuite name="com.example.MathTest" tests="3">
+    <testcase classname="com.example.MathTest" name="adds" time="0.1"/>
+    <testcase classname="com.example.MathTest" name="divides" file="src/test/MathTest.java" time="0.1">
+      <failure message="expected: &lt;2&gt; but was: &lt;1&gt;" type="AssertionError">at com.example.MathTest.divides(src/test/MathTest.java:21)</failure>
+    </testcase>
+    <testcase classname="com.example.MathTest" name="skips"><skipped/></testcase>
+  </testsuite>
+</testsuites>
+`
+
+describe("test output parsers", () => {
+	it("parses vitest output", () => {
+		expect(parseVitestOutput(VITEST_OUTPUT)).toEqual({
+			framework: "vitest",
+			passed: 4,
+			failed: 1,
+			skipped: 1,
+			durationMs: 1250,
+			failures: [
+				{
+					name: "src/b.spec.ts > adds > handles negatives",
+					file: "src/b.spec.ts",
+					line: 10,
+					message: "AssertionError: expected 1 to be 2 // Object.is equality",
+				},
+			],
+		})
+	})
+
+	it("parses jest output", () => {
+		expect(parseJestOutput(JEST_OUTPUT)).toEqual({
+			framework: "jest",
+			passed: 4,
+			failed: 1,
+			skipped: 1,
+			durationMs: 1234,
+			failures: [
+				{
+					name: "adds > handles negatives",
+					file: "src/b.test.js",
+					line: 9,
+					message: "expect(received).toBe(expected) // Object.is equality",
+				},
+			],
+		})
+	})
+
+	it("parses mocha output", () => {
+		expect(parseMochaOutput(MOCHA_OUTPUT)).toEqual({
+			framework: "mocha",
+			passed: 1,
+			failed: 1,
+			skipped: 1,
+			durationMs: 8,
+			failures: [
+				{
+					name: "Array > #indexOf() > should return the index",
+					file: "test/array.spec.js",
+					line: 10,
+					message: "AssertionError [ERR_ASSERTION]: Expected values to be strictly equal:",
+				},
+			],
+		})
+	})
+
+	it("parses pytest output", () => {
+		expect(parsePytestOutput(PYTEST_OUTPUT)).toEqual({
+			framework: "pytest",
+			passed: 2,
+			failed: 1,
+			skipped: 1,
+			durationMs: 120,
+			failures: [
+				{ name: "tests/test_a.py::test_two", file: "tests/test_a.py", line: 5, message: "assert 1 == 2" },
+			],
+		})
+	})
+
+	it("parses go test output, reporting failing subtests instead of their parents", () => {
+		expect(parseGoTestOutput(GO_OUTPUT)).toEqual({
+			framework: "go",
+			passed: 0,
+			failed: 2,
+			skipped: 0,
+			durationMs: 5,
+			failures: [
+				{ name: "TestAdd", file: "add_test.go", line: 10, message: "expected 3, got 4" },
+				{ name: "TestSuite/sub", file: "suite_test.go", line: 7, message: "boom" },
+			],
+		})
+	})
+
+	it("parses go test -json output", () => {
+		const output = [
+			{ Action: "run", Package: "example.com/m", Test: "TestAdd" },
+			{ Action: "output", Package: "example.com/m", Test: "TestAdd", Output: "    add_test.go:10: expected 3\n" },
+			{ Action: "fail", Package: "example.com/m", Test: "TestAdd", Elapsed: 0 },
+			{ Action: "pass", Package: "example.com/m", Test: "TestSub", Elapsed: 0 },
+			{ Action: "fail", Package: "example.com/m", Elapsed: 0.25 },
+		]
+			.map((event) => JSON.stringify(event))
+			.join("\n")
+
+		expect(parseGoTestOutput(output)).toEqual({
+			framework: "go",
+			passed: 1,
+			failed: 1,
+			skipped: 0,
+			durationMs: 250,
+			failures: [{ name: "TestAdd", file: "add_test.go", line: 10, message: "expected 3" }],
+		})
+	})
+
+	it("parses cargo test output across test binaries", () => {
+		expect(parseCargoTestOutput(CARGO_OUTPUT)).toEqual({
+			framework: "cargo",
+			passed: 2,
+			failed: 1,
+			skipped: 1,
+			durationMs: 210,
+			failures: [
+				{ name: "tests::it_fails", file: "src/lib.rs", line: 12, message: "assertion `left == right` failed" },
+			],
+		})
+	})
+
+	it("parses JUnit XML reports", () => {
+		expect(parseJUnitReports([JUNIT_REPORT])).toEqual({
+			framework: "junit",
+			passed: 1,
+			failed: 1,
+			skipped: 1,
+			durationMs: 500,
+			failures: [
+				{
+					name: "com.example.MathTest > divides",
+					file: "src/test/MathTest.java",
+					line: 21,
+					message: "expected: <2> but was: <1>",
+				},
+			],
+		})
+	})
+
+	it("returns undefined for output without test results", () => {
+		for (const parse of [
+			parseVitestOutput,
+			parseJestOutput,
+			parseMochaOutput,
+			parsePytestOutput,
+			parseGoTestOutput,
+			parseCargoTestOutput,
+		]) {
+			expect(parse("Compiled successfully in 120ms\n")).toBeUndefined()
+		}
+		expect(parseJUnitReports(["<coverage/>"])).toBeUndefined()
+	})
+})
+
+describe("isTestCommand", () => {
+	it("recognises test runners and test scripts", () => {
+		expect(isTestCommand("npx vitest run src/a.spec.ts")).toBe(true)
+		expect(isTestCommand("python -m pytest -x")).toBe(true)
+		expect(isTestCommand("go test ./...")).toBe(true)
+		expect(isTestCommand("cargo test --lib")).toBe(true)
+		expect(isTestCommand("pnpm run test")).toBe(true)
+		expect(isTestCommand("./gradlew test")).toBe(true)
+	})
+
+	it("ignores other commands", () => {
+		expect(isTestCommand("npm run build")).toBe(false)
+		expect(isTestCommand("go build ./...")).toBe(false)
+		expect(isTestCommand("cat latest.txt")).toBe(false)
+	})
+})
+
+describe("parseTestResults", () => {
+	let cwd: string
+
+	beforeEach(async () => {
+		cwd = await fs.mkdtemp(path.join(os.tmpdir(), "test-output-"))
+	})
+
+	afterEach(async () => {
+		await fs.rm(cwd, { recursive: true, force: true })
+	})
+
+	it("parses the output of package manager test scripts with each parser", async () => {
+		const summary = await parseTestResults({ command: "npm test", output: JEST_OUTPUT, cwd, startedAt: 0 })
+		expect(summary?.framework).toBe("jest")
+	})
+
+	it("strips ANSI escape codes before parsing", async () => {
+		const output = PYTEST_OUTPUT.replace("1 failed", "\u001b[31m1 failed\u001b[0m")
+		const summary = await parseTestResults({ command: "pytest", output, cwd, startedAt: 0 })
+		expect(summary).toMatchObject({ framework: "pytest", failed: 1, passed: 2 })
+	})
+
+	it("prefers a JUnit XML report written by the command", async () => {
+		await fs.writeFile(path.join(cwd, "report.xml"), JUNIT_REPORT)
+
+		const summary = await parseTestResults({
+			command: "pytest --junitxml=report.xml",
+			output: PYTEST_OUTPUT,
+			cwd,
+			startedAt: 0,
+		})
+
+		expect(summary?.framework).toBe("junit")
+	})
+
+	it("ignores JUnit XML reports from earlier runs", async () => {
+		await fs.mkdir(path.join(cwd, "target/surefire-reports"), { recursive: true })
+		await fs.writeFile(path.join(cwd, "target/surefire-reports/TEST-MathTest.xml"), JUNIT_REPORT)
+
+		const fresh = await parseTestResults({ command: "mvn test", output: "", cwd, startedAt: 0 })
+		const stale = await parseTestResults({ command: "mvn test", output: "", cwd, startedAt: Date.now() + 60_000 })
+
+		expect(fresh?.framework).toBe("junit")
+		expect(stale).toBeUndefined()
+	})
+})
+
+describe("formatTestRunSummary", () => {
+	it("lists counts and failing tests", () => {
+		expect(formatTestRunSummary(parseVitestOutput(VITEST_OUTPUT)!)).toBe(
+			[
+				"Test results (vitest): 1 failed, 4 passed, 1 skipped in 1.25s",
+				"Failing tests:",
+				"- src/b.spec.ts > adds > handles negatives (src/b.spec.ts:10): AssertionError: expected 1 to be 2 // Object.is equality",
+			].join("\n"),
+		)
+	})
+})
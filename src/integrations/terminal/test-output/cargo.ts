@@ -0,0 +1,65 @@
+import type { TestFailure, TestRunSummary } from "@roo-code/types"
+
+import { createSummary, parseCounts, toMessage, toMilliseconds } from "./utils"
+
+const RESULT_LINE = /^test result: \w+\. (.+?); finished in ([\d.]+)s/gm
+const FAILED_TEST_LINE = /^test (\S+) \.\.\. FAILED/
+const STDOUT_HEADER = /^---- (\S+) stdout ----$/
+// `panicked at src/lib.rs:12:9:` (Rust 1.73+) or `panicked at 'message', src/lib.rs:12:9`
+const PANIC_LINE = /panicked at (?:'(.*)', )?([^\s:]+):(\d+):\d+:?$/
+
+/**
+ * Parses the output of `cargo test`.
+ *
+ * Each test binary prints its own `test result:` line, so the counts are summed.
+ * Failure details come from the `---- <test> stdout ----` blocks.
+ */
+export function parseCargoTestOutput(output: string): TestRunSummary | undefined {
+	const results = [...output.matchAll(RESULT_LINE)]
+	if (results.length === 0) {
+		return undefined
+	}
+
+	let passed = 0
+	let failed = 0
+	let skipped = 0
+	let durationMs = 0
+	for (const result of results) {
+		const counts = parseCounts(result[1])
+		passed += counts.passed ?? 0
+		failed += counts.failed ?? 0
+		skipped += counts.ignored ?? 0
+		durationMs += toMilliseconds(result[2])
+	}
+
+	const lines = output.split("\n")
+	const details = new Map<string, { file?: string; line?: number; message?: string }>()
+	for (let i = 0; i < lines.length; i++) {
+		const header = lines[i].match(STDOUT_HEADER)
+		if (!header) {
+			continue
+		}
+
+		for (let j = i + 1; j < lines.length && !STDOUT_HEADER.test(lines[j]) && lines[j] !== "failures:"; j++) {
+			const panic = lines[j].match(PANIC_LINE)
+			if (panic) {
+				details.set(header[1], {
+					file: panic[2],
+					line: Number(panic[3]),
+					message: toMessage(panic[1] ?? lines[j + 1]),
+				})
+				break
+			}
+		}
+	}
+
+	const failures: TestFailure[] = []
+	for (const line of lines) {
+		const failure = line.match(FAILED_TEST_LINE)
+		if (failure) {
+			failures.push({ name: failure[1], ...details.get(failure[1]) })
+		}
+	}
+
+	return createSummary("cargo", { passed, failed, skipped, durationMs }, failures)
+}
@@ -0,0 +1,158 @@
+import type { TestFailure, TestRunSummary } from "@roo-code/types"
+
+import { createSummary, toMessage, toMilliseconds } from "./utils"
+
+const RESULT_LINE = /^\s*--- (PASS|FAIL|SKIP): (\S+) \(([\d.]+)s\)/
+const PACKAGE_LINE = /^(ok|FAIL)\s+(\S+)\s+(?:([\d.]+)s|\[(.+)\])/
+const LOCATION_LINE = /^\s+(\S+\.go):(\d+): (.*)$/
+
+interface GoTestEvent {
+	Action: string
+	Package?: string
+	Test?: string
+	Elapsed?: number
+	Output?: string
+}
+
+/**
+ * Parses the output of `go test`, either plain text or `go test -json`.
+ *
+ * Plain output only lists passing tests with `-v`; failing tests are always
+ * listed as `--- FAIL: TestName (0.00s)` followed by their indented log lines.
+ */
+export function parseGoTestOutput(output: string): TestRunSummary | undefined {
+	const events = parseJsonEvents(output)
+	if (events.length > 0) {
+		return parseGoTestEvents(events)
+	}
+
+	const lines = output.split("\n")
+	const failures: TestFailure[] = []
+	let passed = 0
+	let skipped = 0
+	let durationMs = 0
+	let sawPackage = false
+
+	for (let i = 0; i < lines.length; i++) {
+		const result = lines[i].match(RESULT_LINE)
+		if (result) {
+			if (result[1] === "PASS") {
+				passed++
+			} else if (result[1] === "SKIP") {
+				skipped++
+			} else {
+				const indent = lines[i].search(/\S/)
+				const block: string[] = []
+				for (let j = i + 1; j < lines.length && lines[j].search(/\S/) > indent; j++) {
+					if (RESULT_LINE.test(lines[j])) {
+						// Subtests are listed separately
+						break
+					}
+					block.push(lines[j])
+				}
+				failures.push(toFailure(result[2], block))
+			}
+			continue
+		}
+
+		const pkg = lines[i].match(PACKAGE_LINE)
+		if (pkg) {
+			sawPackage = true
+			if (pkg[3]) {
+				durationMs += toMilliseconds(pkg[3])
+			} else if (pkg[1] === "FAIL") {
+				// e.g. `FAIL example.com/m [build failed]`
+				failures.push({ name: pkg[2], message: pkg[4] })
+			}
+		}
+	}
+
+	if (!sawPackage && failures.length === 0 && passed === 0) {
+		return undefined
+	}
+
+	const leafFailures = dropParentFailures(failures)
+	return createSummary(
+		"go",
+		{ passed, failed: leafFailures.length, skipped, durationMs: durationMs || undefined },
+		leafFailures,
+	)
+}
+
+function parseJsonEvents(output: string): GoTestEvent[] {
+	const events: GoTestEvent[] = []
+	for (const line of output.split("\n")) {
+		if (!line.startsWith('{"')) {
+			continue
+		}
+		try {
+			const event = JSON.parse(line)
+			if (typeof event?.Action === "string") {
+				events.push(event)
+			}
+		} catch {
+			// Not a test event
+		}
+	}
+	return events
+}
+
+function parseGoTestEvents(events: GoTestEvent[]): TestRunSummary {
+	const outputs = new Map<string, string[]>()
+	const failures: TestFailure[] = []
+	let passed = 0
+	let skipped = 0
+	let durationMs = 0
+
+	for (const event of events) {
+		if (!event.Test) {
+			// Package-level events
+			if ((event.Action === "pass" || event.Action === "fail") && event.Elapsed !== undefined) {
+				durationMs += toMilliseconds(String(event.Elapsed))
+			}
+			continue
+		}
+
+		const key = `${event.Package}/${event.Test}`
+		switch (event.Action) {
+			case "output":
+				outputs.set(key, [...(outputs.get(key) ?? []), ...(event.Output ?? "").split("\n")])
+				break
+			case "pass":
+				passed++
+				break
+			case "skip":
+				skipped++
+				break
+			case "fail":
+				failures.push(toFailure(event.Test, outputs.get(key) ?? []))
+				break
+		}
+	}
+
+	const leafFailures = dropParentFailures(failures)
+	return createSummary(
+		"go",
+		{ passed, failed: leafFailures.length, skipped, durationMs: durationMs || undefined },
+		leafFailures,
+	)
+}
+
+function toFailure(name: string, lines: string[]): TestFailure {
+	const location = lines.map((line) => line.match(LOCATION_LINE)).find(Boolean)
+	return {
+		name,
+		file: location?.[1],
+		line: location ? Number(location[2]) : undefined,
+		message: toMessage(location?.[3]),
+	}
+}
+
+/**
+ * Drops tests that only failed because one of their subtests failed.
+ */
+function dropParentFailures(failures: TestFailure[]): TestFailure[] {
+	return failures.filter(
+		(failure) => failure.file || !failures.some((other) => other.name.startsWith(`${failure.name}/`)),
+	)
+}
@@ -0,0 +1,164 @@
+import fs from "fs/promises"
+import * as path from "path"
+
+import stripAnsi from "strip-ansi"
+
+import type { TestFramework, TestRunSummary } from "@roo-code/types"
+
+import { parseVitestOutput } from "./vitest"
+import { parseJestOutput } from "./jest"
+import { parseMochaOutput } from "./mocha"
+import { parsePytestOutput } from "./pytest"
+import { parseGoTestOutput } from "./go"
+import { parseCargoTestOutput } from "./cargo"
+import { parseJUnitReports } from "./junit"
+
+type TextFramework = Exclude<TestFramework, "junit">
+
+const TEXT_PARSERS: Record<TextFramework, (output: string) => TestRunSummary | undefined> = {
+	vitest: parseVitestOutput,
+	jest: parseJestOutput,
+	mocha: parseMochaOutput,
+	pytest: parsePytestOutput,
+	go: parseGoTestOutput,
+	cargo: parseCargoTestOutput,
+}
+
+/** Maven and Gradle builds that run tests and write JUnit XML reports */
+const BUILD_TOOL_TEST_COMMAND = /\b(?:mvnw?|gradlew?)\b.*\b(?:test|verify|check|build)\b/
+
+/**
+ * Commands recognised as test runs. Package manager scripts and build tools
+ * don't name their test framework, so their output is tried with each parser.
+ */
+const TEST_COMMANDS: Array<{ pattern: RegExp; framework?: TextFramework }> = [
+	{ pattern: /\bvitest\b/, framework: "vitest" },
+	{ pattern: /\bjest\b/, framework: "jest" },
+	{ pattern: /\bmocha\b/, framework: "mocha" },
+	{ pattern: /\b(?:pytest|py\.test)\b/, framework: "pytest" },
+	{ pattern: /\bgo\s+test\b|\bgotestsum\b/, framework: "go" },
+	{ pattern: /\bcargo\s+test\b/, framework: "cargo" },
+	{ pattern: /\b(?:npm|pnpm|yarn|bun)\s+(?:run\s+)?test\b/ },
+	{ pattern: /\b(?:turbo|nx|make|tox|nox)\b.*\btest\b/ },
+	{ pattern: BUILD_TOOL_TEST_COMMAND },
+]
+
+/** Flags that make test runners write a JUnit XML report */
+const JUNIT_REPORT_FLAGS = [
+	/--junit-?xml[= ]("[^"]+"|'[^']+'|\S+)/, // pytest
+	/--outputFile\.junit[= ]("[^"]+"|'[^']+'|\S+)/, // vitest
+	/--outputFile[= ]("[^"]+\.xml"|'[^']+\.xml'|\S+\.xml)(?=\s|$)/, // vitest --reporter=junit
+	/--junitfile[= ]("[^"]+"|'[^']+'|\S+)/, // gotestsum
+	/mochaFile=("[^"]+"|'[^']+'|[^\s,]+)/, // mocha-junit-reporter
+]
+
+/** Directories Maven and Gradle write their JUnit XML reports to */
+const BUILD_TOOL_REPORT_DIRS = ["target/surefire-reports", "target/failsafe-reports", "build/test-results/test"]
+
+/** Maximum number of JUnit XML reports read after a test run */
+const MAX_JUNIT_REPORTS = 500
+
+/**
+ * Whether a command looks like a test run whose output can be summarised.
+ */
+export function isTestCommand(command: string): boolean {
+	return TEST_COMMANDS.some(({ pattern }) => pattern.test(command))
+}
+
+export interface ParseTestResultsOptions {
+	command: string
+	/** The full output of the command */
+	output: string
+	/** Working directory the command ran in, for resolving report paths */
+	cwd: string
+	/** Time the command started; only reports written since then are read */
+	startedAt: number
+}
+
+/**
+ * Summarises the results of a test command.
+ *
+ * JUnit XML reports written by the command are preferred, since they are
+ * complete and unambiguous; otherwise the terminal output is parsed, starting
+ * with the parser of the framework named in the command.
+ *
+ * @returns The summary, or undefined if the output has no recognisable results
+ */
+export async function parseTestResults({
+	command,
+	output,
+	cwd,
+	startedAt,
+}: ParseTestResultsOptions): Promise<TestRunSummary | undefined> {
+	const reports = await readJUnitReports(command, cwd, startedAt)
+	const fromReports = reports.length > 0 ? parseJUnitReports(reports) : undefined
+	if (fromReports) {
+		return fromReports
+	}
+
+	const text = stripAnsi(output).replace(/\r\n?/g, "\n")
+	const hint = TEST_COMMANDS.find(({ pattern }) => pattern.test(command))?.framework
+	const frameworks = Object.keys(TEXT_PARSERS) as TextFramework[]
+
+	for (const framework of hint ? [hint, ...frameworks.filter((f) => f !== hint)] : frameworks) {
+		const summary = TEXT_PARSERS[framework](text)
+		if (summary) {
+			return summary
+		}
+	}
+
+	return undefined
+}
+
+/**
+ * Formats a summary for the tool result.
+ */
+export function formatTestRunSummary(summary: TestRunSummary): string {
+	const counts = [`${summary.failed} failed`, `${summary.passed} passed`]
+	if (summary.skipped > 0) {
+		counts.push(`${summary.skipped} skipped`)
+	}
+	const duration = summary.durationMs !== undefined ? ` in ${(summary.durationMs / 1000).toFixed(2)}s` : ""
+	const lines = [`Test results (${summary.framework}): ${counts.join(", ")}${duration}`]
+
+	if (summary.failures.length > 0) {
+		lines.push("Failing tests:")
+		for (const failure of summary.failures) {
+			const location = failure.file ? ` (${failure.file}${failure.line ? `:${failure.line}` : ""})` : ""
+			lines.push(`- ${failure.name}${location}${failure.message ? `: ${failure.message}` : ""}`)
+		}
+		if (summary.failed > summary.failures.length) {
+			lines.push(`- ...and ${summary.failed - summary.failures.length} more`)
+		}
+	}
+
+	return lines.join("\n")
+}
+
+async function readJUnitReports(command: string, cwd: string, startedAt: number): Promise<string[]> {
+	const paths = JUNIT_REPORT_FLAGS.flatMap((flag) => {
+		const match = command.match(flag)
+		return match ? [path.resolve(cwd, match[1].replace(/^["']|["']$/g, ""))] : []
+	})
+
+	if (BUILD_TOOL_TEST_COMMAND.test(command)) {
+		for (const dir of BUILD_TOOL_REPORT_DIRS) {
+			const entries = await fs.readdir(path.join(cwd, dir)).catch(() => [] as string[])
+			paths.push(...entries.filter((entry) => entry.endsWith(".xml")).map((entry) => path.join(cwd, dir, entry)))
+		}
+	}
+
+	const reports: string[] = []
+	for (const reportPath of [...new Set(paths)].slice(0, MAX_JUNIT_REPORTS)) {
+		try {
+			const stats = await fs.stat(reportPath)
+			// Skip stale reports from earlier runs
+			if (stats.isFile() && stats.mtimeMs >= startedAt) {
+				reports.push(await fs.readFile(reportPath, "utf8"))
+			}
+		} catch {
+			// The report wasn't written, e.g. because the run failed early
+		}
+	}
+	return reports
+}
@@ -0,0 +1,70 @@
+import type { TestFailure, TestRunSummary } from "@roo-code/types"
+
+import { createSummary, findLocation, parseCounts, toMessage, toMilliseconds } from "./utils"
+
+const SUMMARY_LINE = /^\s*Tests:\s+(.+)$/m
+const DURATION_LINE = /^\s*Time:\s+([\d.]+)\s*(ms|s|m)\b/m
+const SUITE_LINE = /^\s*(?:FAIL|PASS)\s+(\S+)/
+const FAILURE_LINE = /^\s*●\s+(.+)$/
+const LOCATION = /\bat\s+(?:.*?\()?([^\s()]+?):(\d+):\d+\)?\s*$/
+const SUMMARY_SECTION = /^\s*(?:Summary of all failing tests|Test Suites:)/
+
+/**
+ * Parses the output of jest's default reporter.
+ *
+ * Failures start with `● <suite> › <test>` under the `FAIL <file>` line of
+ * their test file, followed by the assertion message and a stack trace.
+ */
+export function parseJestOutput(output: string): TestRunSummary | undefined {
+	const summary = output.match(SUMMARY_LINE)
+	if (!summary) {
+		return undefined
+	}
+
+	const counts = parseCounts(summary[1])
+	const duration = output.match(DURATION_LINE)
+	const failures: TestFailure[] = []
+
+	const lines = output.split("\n")
+	let suiteFile: string | undefined
+
+	for (let i = 0; i < lines.length; i++) {
+		const suite = lines[i].match(SUITE_LINE)
+		if (suite) {
+			suiteFile = suite[1]
+			continue
+		}
+
+		const failure = lines[i].match(FAILURE_LINE)
+		if (!failure) {
+			continue
+		}
+
+		const block: string[] = []
+		for (let j = i + 1; j < lines.length; j++) {
+			if (FAILURE_LINE.test(lines[j]) || SUITE_LINE.test(lines[j]) || SUMMARY_SECTION.test(lines[j])) {
+				break
+			}
+			block.push(lines[j])
+		}
+
+		const location = findLocation(block, LOCATION, suiteFile)
+		failures.push({
+			name: failure[1].trim().replace(/ › /g, " > "),
+			file: location?.file ?? suiteFile,
+			line: location?.line,
+			message: toMessage(block.find((line) => line.trim() && !LOCATION.test(line))),
+		})
+	}
+
+	return createSummary(
+		"jest",
+		{
+			passed: counts.passed ?? 0,
+			failed: counts.failed ?? 0,
+			skipped: (counts.skipped ?? 0) + (counts.todo ?? 0),
+			durationMs: duration ? toMilliseconds(duration[1], duration[2]) : undefined,
+		},
+		failures,
+	)
+}
@@ -0,0 +1,124 @@
+import { XMLParser } from "fast-xml-parser"
+
+import type { TestFailure, TestRunSummary } from "@roo-code/types"
+
+import { createSummary, toMessage, toMilliseconds } from "./utils"
+
+interface JUnitTestCase {
+	name?: string
+	classname?: string
+	file?: string
+	line?: string | number
+	failure?: JUnitFailure | JUnitFailure[]
+	error?: JUnitFailure | JUnitFailure[]
+	skipped?: unknown
+}
+
+type JUnitFailure = string | { message?: string; "#text"?: string }
+
+interface JUnitTestSuite {
+	name?: string
+	time?: string | number
+	testcase?: JUnitTestCase[]
+	testsuite?: JUnitTestSuite[]
+}
+
+interface JUnitDocument {
+	testsuites?: { time?: string | number; testsuite?: JUnitTestSuite[] }
+	testsuite?: JUnitTestSuite[]
+}
+
+const parser = new XMLParser({
+	ignoreAttributes: false,
+	attributeNamePrefix: "",
+	isArray: (name) => name === "testsuite" || name === "testcase",
+})
+
+/**
+ * Parses JUnit XML test reports, as written by pytest `--junitxml`, vitest's
+ * `junit` reporter, Maven Surefire, Gradle and others.
+ *
+ * @param reports Contents of the report files
+ * @returns The combined summary, or undefined if no report contains test cases
+ */
+export function parseJUnitReports(reports: string[]): TestRunSummary | undefined {
+	let passed = 0
+	let failed = 0
+	let skipped = 0
+	let durationMs = 0
+	let sawTestCase = false
+	const failures: TestFailure[] = []
+
+	for (const report of reports) {
+		let document: JUnitDocument
+		try {
+			document = parser.parse(report)
+		} catch {
+			continue
+		}
+
+		const suites = document.testsuites?.testsuite ?? document.testsuite ?? []
+		const rootTime = Number(document.testsuites?.time)
+		if (rootTime > 0) {
+			durationMs += toMilliseconds(String(rootTime))
+		}
+
+		for (const { suite, testCase } of flattenTestCases(suites)) {
+			sawTestCase = true
+
+			const failure = first(testCase.failure) ?? first(testCase.error)
+			if (failure !== undefined) {
+				failed++
+				failures.push(toFailure(testCase, suite, failure))
+			} else if (testCase.skipped !== undefined) {
+				skipped++
+			} else {
+				passed++
+			}
+		}
+
+		if (!(rootTime > 0)) {
+			durationMs += suites.reduce((total, suite) => total + toMilliseconds(String(Number(suite.time) || 0)), 0)
+		}
+	}
+
+	if (!sawTestCase) {
+		return undefined
+	}
+
+	return createSummary("junit", { passed, failed, skipped, durationMs: durationMs || undefined }, failures)
+}
+
+function* flattenTestCases(suites: JUnitTestSuite[]): Generator<{ suite: JUnitTestSuite; testCase: JUnitTestCase }> {
+	for (const suite of suites) {
+		for (const testCase of suite.testcase ?? []) {
+			yield { suite, testCase }
+		}
+		yield* flattenTestCases(suite.testsuite ?? [])
+	}
+}
+
+function first<T>(value: T | T[] | undefined): T | undefined {
+	return Array.isArray(value) ? value[0] : value
+}
+
+function toFailure(testCase: JUnitTestCase, suite: JUnitTestSuite, failure: JUnitFailure): TestFailure {
+	const text = typeof failure === "string" ? failure : failure["#text"]
+	const message = typeof failure === "string" ? undefined : failure.message
+	const className = testCase.classname ?? suite.name
+	const file = testCase.file
+	const line = Number(testCase.line) || (file ? findLineInTrace(text, file) : undefined)
+
+	return {
+		name: [className, testCase.name].filter(Boolean).join(" > "),
+		file,
+		line,
+		message: toMessage(message) ?? toMessage(text),
+	}
+}
+
+function findLineInTrace(text: string | undefined, file: string): number | undefined {
+	const escaped = file.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+	const match = text?.match(new RegExp(`${escaped}:(\\d+)`))
+	return match ? Number(match[1]) : undefined
+}
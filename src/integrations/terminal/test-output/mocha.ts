@@ -0,0 +1,69 @@
+import type { TestFailure, TestRunSummary } from "@roo-code/types"
+
+import { createSummary, findLocation, toMessage, toMilliseconds } from "./utils"
+
+const PASSING_LINE = /^\s*(\d+) passing(?: \((\d+)(ms|s|m)\))?\s*$/m
+const PENDING_LINE = /^\s*(\d+) pending\s*$/m
+const FAILING_LINE = /^\s*(\d+) failing\s*$/m
+const FAILURE_START = /^\s*(\d+)\) (.+)$/
+const LOCATION = /\bat\s+(?:.*?\()?([^\s()]+?):(\d+):\d+\)?\s*$/
+
+/**
+ * Parses the output of mocha's `spec` and `dot` reporters.
+ *
+ * Failures are listed after the `N failing` line as `1) <suite>` followed by
+ * indented title lines, the last of which ends with a colon, then the error
+ * message and its stack trace.
+ */
+export function parseMochaOutput(output: string): TestRunSummary | undefined {
+	const passing = output.match(PASSING_LINE)
+	const failing = output.match(FAILING_LINE)
+	if (!passing && !failing) {
+		return undefined
+	}
+
+	const pending = output.match(PENDING_LINE)
+	const failures: TestFailure[] = []
+
+	const lines = output.slice(failing?.index ?? output.length).split("\n")
+	for (let i = 1; i < lines.length; i++) {
+		const start = lines[i].match(FAILURE_START)
+		if (!start) {
+			continue
+		}
+
+		// The title spans lines until one ends with a colon
+		const titleParts = [start[2].trim()]
+		let j = i + 1
+		while (!titleParts[titleParts.length - 1].endsWith(":") && j < lines.length && lines[j].trim()) {
+			titleParts.push(lines[j].trim())
+			j++
+		}
+		titleParts[titleParts.length - 1] = titleParts[titleParts.length - 1].replace(/:$/, "")
+
+		const block: string[] = []
+		for (; j < lines.length && !FAILURE_START.test(lines[j]); j++) {
+			block.push(lines[j])
+		}
+
+		const location = findLocation(block, LOCATION)
+		failures.push({
+			name: titleParts.join(" > "),
+			file: location?.file,
+			line: location?.line,
+			message: toMessage(block.find((line) => line.trim() && !LOCATION.test(line))),
+		})
+		i = j - 1
+	}
+
+	return createSummary(
+		"mocha",
+		{
+			passed: Number(passing?.[1] ?? 0),
+			failed: Number(failing?.[1] ?? 0),
+			skipped: Number(pending?.[1] ?? 0),
+			durationMs: passing?.[2] ? toMilliseconds(passing[2], passing[3]) : undefined,
+		},
+		failures,
+	)
+}
@@ -0,0 +1,90 @@
+import type { TestFailure, TestRunSummary } from "@roo-code/types"
+
+import { createSummary, parseCounts, toMessage, toMilliseconds } from "./utils"
+
+const SUMMARY_LINE =
+	/^=*\s*((?:\d+ (?:passed|failed|skipped|errors?|xfailed|xpassed|deselected|warnings?)(?:, )?)+) in ([\d.]+)s\b.*$/m
+const SHORT_SUMMARY_LINE = /^(FAILED|ERROR) (\S+?)(?: - (.*))?$/
+const SECTION_HEADER = /^_{3,} (.+?) _{3,}$/
+const LOCATION_LINE = /^(\S+\.py):(\d+): \S+/
+const ERROR_LINE = /^E\s+(.*)$/
+
+/**
+ * Parses pytest's terminal output.
+ *
+ * Failing tests come from the `short test summary info` section
+ * (`FAILED tests/test_a.py::test_two - assert 1 == 2`); the line of each
+ * failure comes from its `file.py:line: Error` line in the `FAILURES` section.
+ */
+export function parsePytestOutput(output: string): TestRunSummary | undefined {
+	const summary = output.match(SUMMARY_LINE)
+	if (!summary) {
+		return undefined
+	}
+
+	const counts = parseCounts(summary[1])
+	const lines = output.split("\n")
+
+	// Details of each failure from the FAILURES and ERRORS sections, by test name
+	const details = new Map<string, { file?: string; line?: number; message?: string }>()
+	let current: { file?: string; line?: number; message?: string } | undefined
+
+	for (const line of lines) {
+		const header = line.match(SECTION_HEADER)
+		if (header) {
+			current = {}
+			details.set(header[1].replace(/^ERROR (?:at \w+ of )?/, ""), current)
+			continue
+		}
+		if (!current) {
+			continue
+		}
+
+		const error = line.match(ERROR_LINE)
+		if (error && current.message === undefined) {
+			current.message = toMessage(error[1])
+		}
+
+		const location = line.match(LOCATION_LINE)
+		if (location) {
+			current.file = location[1]
+			current.line = Number(location[2])
+		}
+	}
+
+	const failures: TestFailure[] = []
+	for (const line of lines) {
+		const failure = line.match(SHORT_SUMMARY_LINE)
+		if (!failure) {
+			continue
+		}
+
+		const [file, ...names] = failure[2].split("::")
+		const name = names.join(".")
+		const detail = details.get(name) ?? details.get(names[names.length - 1] ?? "")
+		failures.push({
+			name: failure[2],
+			file,
+			line: detail?.file === file ? detail.line : undefined,
+			message: toMessage(failure[3]) ?? detail?.message,
+		})
+	}
+
+	// Without a short summary, fall back to the section headers
+	if (failures.length === 0) {
+		for (const [name, detail] of details) {
+			failures.push({ name, ...detail })
+		}
+	}
+
+	return createSummary(
+		"pytest",
+		{
+			passed: counts.passed ?? 0,
+			failed: (counts.failed ?? 0) + (counts.error ?? 0) + (counts.errors ?? 0),
+			skipped: (counts.skipped ?? 0) + (counts.xfailed ?? 0),
+			durationMs: toMilliseconds(summary[2]),
+		},
+		failures,
+	)
+}
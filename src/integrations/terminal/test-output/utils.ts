@@ -0,0 +1,102 @@
+import type { TestFailure, TestFramework, TestRunSummary } from "@roo-code/types"
+
+/** Maximum number of failing tests listed in a summary */
+export const MAX_FAILURES = 50
+
+/** Maximum length of a failure message */
+const MAX_MESSAGE_LENGTH = 300
+
+/**
+ * Parses counts such as `1 failed | 4 passed (5)` or `2 passed, 1 skipped`
+ * into a map of label to count.
+ */
+export function parseCounts(text: string): Record<string, number> {
+	const counts: Record<string, number> = {}
+	for (const match of text.matchAll(/(\d+)\s+([a-z]+)/gi)) {
+		const label = match[2].toLowerCase()
+		counts[label] = (counts[label] ?? 0) + Number(match[1])
+	}
+	return counts
+}
+
+/**
+ * Converts a duration such as `1.23` with unit `s` to milliseconds.
+ */
+export function toMilliseconds(value: string, unit: string = "s"): number {
+	const amount = Number(value)
+	switch (unit) {
+		case "ms":
+			return Math.round(amount)
+		case "m":
+			return Math.round(amount * 60_000)
+		default:
+			return Math.round(amount * 1000)
+	}
+}
+
+/**
+ * Shortens a failure message to its first non-empty line.
+ */
+export function toMessage(text: string | undefined): string | undefined {
+	const line = text
+		?.split("\n")
+		.map((line) => line.trim())
+		.find(Boolean)
+	if (!line) {
+		return undefined
+	}
+	return line.length > MAX_MESSAGE_LENGTH ? `${line.slice(0, MAX_MESSAGE_LENGTH)}…` : line
+}
+
+/**
+ * Builds a summary, dropping duplicate failures and capping their number.
+ */
+export function createSummary(
+	framework: TestFramework,
+	counts: { passed: number; failed: number; skipped: number; durationMs?: number },
+	failures: TestFailure[],
+): TestRunSummary {
+	const seen = new Set<string>()
+	const uniqueFailures = failures.filter((failure) => {
+		const key = `${failure.file ?? ""}:${failure.name}`
+		if (seen.has(key)) {
+			return false
+		}
+		seen.add(key)
+		return true
+	})
+
+	return { framework, ...counts, failures: uniqueFailures.slice(0, MAX_FAILURES) }
+}
+
+/**
+ * Finds the first `file:line` location in the given lines, preferring one in
+ * the given file. Node internals and dependencies are skipped.
+ */
+export function findLocation(
+	lines: string[],
+	pattern: RegExp,
+	preferredFile?: string,
+): { file: string; line: number } | undefined {
+	let first: { file: string; line: number } | undefined
+
+	for (const text of lines) {
+		const match = text.match(pattern)
+		if (!match) {
+			continue
+		}
+
+		const file = match[1]
+		if (file.startsWith("node:") || file.includes("node_modules")) {
+			continue
+		}
+
+		const location = { file, line: Number(match[2]) }
+		if (!preferredFile || file.endsWith(preferredFile) || preferredFile.endsWith(file)) {
+			return location
+		}
+		first ??= location
+	}
+
+	return first
+}
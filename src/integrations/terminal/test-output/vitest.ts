@@ -0,0 +1,61 @@
+import type { TestFailure, TestRunSummary } from "@roo-code/types"
+
+import { createSummary, findLocation, parseCounts, toMessage, toMilliseconds } from "./utils"
+
+const SUMMARY_LINE = /^\s*Tests\s+(.+?)\s*\(\d+\)\s*$/m
+const DURATION_LINE = /^\s*Duration\s+([\d.]+)(ms|s|m)\b/m
+const FAIL_LINE = /^\s*FAIL\s+(.+)$/
+const SEPARATOR_LINE = /^\s*⎯{3,}/
+const LOCATION = /^\s*❯\s+(.+?):(\d+):\d+/
+
+/**
+ * Parses the output of vitest's default reporter.
+ *
+ * Failures come from the `Failed Tests` section, where each failure starts
+ * with `FAIL  <file> > <suite> > <test>`, followed by the error message and
+ * the `❯ <file>:<line>:<column>` frames of the stack.
+ */
+export function parseVitestOutput(output: string): TestRunSummary | undefined {
+	const summary = output.match(SUMMARY_LINE)
+	if (!summary) {
+		return undefined
+	}
+
+	const counts = parseCounts(summary[1])
+	const duration = output.match(DURATION_LINE)
+	const failures: TestFailure[] = []
+
+	const lines = output.split("\n")
+	for (let i = 0; i < lines.length; i++) {
+		const fail = lines[i].match(FAIL_LINE)
+		if (!fail) {
+			continue
+		}
+
+		const block: string[] = []
+		for (let j = i + 1; j < lines.length && !FAIL_LINE.test(lines[j]) && !SEPARATOR_LINE.test(lines[j]); j++) {
+			block.push(lines[j])
+		}
+
+		const name = fail[1].trim()
+		const file = name.split(" > ")[0]
+		const location = findLocation(block, LOCATION, file)
+		failures.push({
+			name,
+			file: location?.file ?? file,
+			line: location?.line,
+			message: toMessage(block.find((line) => line.trim() && !LOCATION.test(line))),
+		})
+	}
+
+	return createSummary(
+		"vitest",
+		{
+			passed: counts.passed ?? 0,
+			failed: counts.failed ?? 0,
+			skipped: (counts.skipped ?? 0) + (counts.todo ?? 0),
+			durationMs: duration ? toMilliseconds(duration[1], duration[2]) : undefined,
+		},
+		failures,
+	)
+}
@@ -871,6 +871,18 @@ export class BrowserSession {
 		}
 	}
 
+	/**
+	 * Runs a callback against the active page without the screenshot and console
+	 * capture of doAction, for callers that read or drive the page themselves.
+	 * Unlike doAction, errors thrown by the callback propagate.
+	 */
+	async withPage<T>(callback: (page: Page) => Promise<T>): Promise<T> {
+		if (!this.page) {
+			throw new Error("Cannot access the page: no active browser session. Launch the browser first.")
+		}
+		return callback(this.page)
+	}
+
 	/**
 	 * Returns whether a browser session is currently active
 	 */
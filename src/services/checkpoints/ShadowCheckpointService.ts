@@ -8,12 +8,21 @@ import simpleGit, { SimpleGit, SimpleGitOptions } from "simple-git"
 import pWaitFor from "p-wait-for"
 import * as vscode from "vscode"
 
+import type { CheckpointTimeline } from "@roo-code/types"
+
 import { fileExistsAtPath } from "../../utils/fs"
 import { executeRipgrep } from "../../services/search/file-search"
 import { t } from "../../i18n"
 
-import { CheckpointDiff, CheckpointResult, CheckpointEventMap } from "./types"
+import { CheckpointDiff, CheckpointResult, CheckpointEventMap, CheckpointCherryPickResult } from "./types"
 import { getExcludePatterns } from "./excludes"
+import {
+	CHECKPOINT_BRANCH_REF_PREFIX,
+	CHECKPOINT_LABELS_NOTES_REF,
+	TIMELINE_LOG_FORMAT,
+	buildCheckpointTimeline,
+	parseTimelineLog,
+} from "./timeline"
 
 /**
  * Creates a SimpleGit instance with sanitized environment variables to prevent
@@ -342,6 +351,7 @@ export abstract class ShadowCheckpointService extends EventEmitter {
 			}
 
 			const start = Date.now()
+			await this.keepLineReachable(commitHash)
 			await this.git.clean("f", ["-d", "-f"])
 			await this.git.reset(["--hard", commitHash])
 
@@ -363,6 +373,50 @@ export abstract class ShadowCheckpointService extends EventEmitter {
 		}
 	}
 
+	/**
+	 * Restore only the given workspace-relative paths to their state in a
+	 * checkpoint, leaving every other file (and the checkpoint history) as is.
+	 * Paths that didn't exist in the checkpoint are deleted.
+	 */
+	public async restoreFiles(commitHash: string, paths: string[]) {
+		if (!this.git) {
+			throw new Error("Shadow git repo not initialized")
+		}
+
+		if (paths.length === 0) {
+			return
+		}
+
+		const start = Date.now()
+
+		// Track files created since the checkpoint, so the no-overlay checkout removes them.
+		await this.stageAll(this.git)
+		// Literal pathspecs: route files like `app/[id]/page.tsx` would otherwise be globs.
+		const pathspecs = paths.map((relPath) => `:(literal)${relPath}`)
+		await this.git.raw(["checkout", "--no-overlay", commitHash, "--", ...pathspecs])
+
+		this.log(
+			`[${this.constructor.name}#restoreFiles] restored ${paths.length} file(s) from ${commitHash} in ${Date.now() - start}ms`,
+		)
+	}
+
+	/**
+	 * The given workspace-relative paths that exist in a checkpoint.
+	 */
+	public async getFilesInCheckpoint(commitHash: string, paths: string[]): Promise<string[]> {
+		if (!this.git) {
+			throw new Error("Shadow git repo not initialized")
+		}
+
+		if (paths.length === 0) {
+			return []
+		}
+
+		// ls-tree matches paths literally, so route files like `app/[id]/page.tsx` need no escaping.
+		const args = ["ls-tree", "-r", "-z", "--name-only", "--full-tree", commitHash, "--", ...paths]
+		return (await this.git.raw(args)).split("\0").filter(Boolean)
+	}
+
 	public async getDiff({ from, to }: { from?: string; to?: string }): Promise<CheckpointDiff[]> {
 		if (!this.git) {
 			throw new Error("Shadow git repo not initialized")
@@ -397,6 +451,146 @@ export abstract class ShadowCheckpointService extends EventEmitter {
 		return result
 	}
 
+	/**
+	 * Label a checkpoint; an empty label removes it.
+	 * Labels are git notes, so they survive restores and show up on abandoned lines too.
+	 */
+	public async labelCheckpoint(commitHash: string, label: string) {
+		if (!this.git) {
+			throw new Error("Shadow git repo not initialized")
+		}
+
+		const text = label.trim()
+
+		if (text) {
+			await this.git.raw(["notes", `--ref=${CHECKPOINT_LABELS_NOTES_REF}`, "add", "-f", "-m", text, commitHash])
+		} else {
+			await this.git.raw(["notes", `--ref=${CHECKPOINT_LABELS_NOTES_REF}`, "remove", "--ignore-missing", commitHash])
+		}
+
+		this.log(`[${this.constructor.name}#labelCheckpoint] ${text ? `labeled ${commitHash} "${text}"` : `unlabeled ${commitHash}`}`)
+	}
+
+	/**
+	 * Every checkpoint of the task, arranged into the current line and the lines
+	 * abandoned by restoring an earlier checkpoint.
+	 */
+	public async getTimeline(): Promise<CheckpointTimeline> {
+		if (!this.git) {
+			throw new Error("Shadow git repo not initialized")
+		}
+
+		const headHash = (await this.git.revparse(["HEAD"])).trim()
+		const branchTips = (
+			await this.git.raw(["for-each-ref", "--format=%(objectname)", CHECKPOINT_BRANCH_REF_PREFIX])
+		)
+			.split("\n")
+			.map((line) => line.trim())
+			.filter(Boolean)
+
+		const log = await this.git.raw([
+			"log",
+			`--format=${TIMELINE_LOG_FORMAT}`,
+			`--notes=${CHECKPOINT_LABELS_NOTES_REF}`,
+			"HEAD",
+			...branchTips,
+			"--",
+		])
+
+		return buildCheckpointTimeline({
+			commits: parseTimelineLog(log),
+			baseHash: this.baseHash ?? headHash,
+			headHash,
+			branchTips,
+		})
+	}
+
+	/**
+	 * Apply the changes made between two checkpoints onto the current workspace,
+	 * e.g. to bring one step of an abandoned attempt into the current line.
+	 * Overlapping edits are merged; files that can't be merged are left with
+	 * conflict markers and reported.
+	 */
+	public async cherryPickCheckpoints({ from, to }: { from: string; to: string }): Promise<CheckpointCherryPickResult> {
+		if (!this.git) {
+			throw new Error("Shadow git repo not initialized")
+		}
+
+		// Match the index to the workspace so the 3-way apply sees local edits.
+		await this.stageAll(this.git)
+
+		const files = (await this.git.raw(["diff", "--name-only", from, to]))
+			.split("\n")
+			.map((line) => line.trim())
+			.filter(Boolean)
+
+		if (files.length === 0) {
+			return { files, conflicts: [] }
+		}
+
+		const patch = await this.git.raw(["diff", "--binary", "--full-index", from, to])
+		const patchPath = path.join(this.dotGitDir, `roo-cherry-pick-${Date.now()}.patch`)
+		await fs.writeFile(patchPath, patch.endsWith("\n") ? patch : `${patch}\n`)
+
+		let conflicts: string[] = []
+
+		try {
+			// `git apply` patches paths relative to its cwd, so run it from the workspace.
+			await this.git.raw([
+				"-C",
+				this.workspaceDir,
+				`--git-dir=${this.dotGitDir}`,
+				`--work-tree=${this.workspaceDir}`,
+				"apply",
+				"--3way",
+				"--whitespace=nowarn",
+				patchPath,
+			])
+		} catch (error) {
+			conflicts = (await this.git.raw(["diff", "--name-only", "--diff-filter=U"]))
+				.split("\n")
+				.map((line) => line.trim())
+				.filter(Boolean)
+
+			if (conflicts.length === 0) {
+				throw error
+			}
+		} finally {
+			await fs.rm(patchPath, { force: true })
+		}
+
+		this.log(
+			`[${this.constructor.name}#cherryPickCheckpoints] applied ${from}..${to} (${files.length} files, ${conflicts.length} conflicts)`,
+		)
+
+		return { files, conflicts }
+	}
+
+	/**
+	 * Before HEAD moves to an earlier checkpoint, keep the line being left
+	 * reachable so the timeline can still show and diff it.
+	 */
+	private async keepLineReachable(commitHash: string) {
+		if (!this.git) {
+			return
+		}
+
+		const headHash = (await this.git.revparse(["HEAD"])).trim()
+
+		if (headHash === commitHash) {
+			return
+		}
+
+		// Moving forward along the same line abandons nothing.
+		const mergeBase = (await this.git.raw(["merge-base", headHash, commitHash])).trim()
+
+		if (mergeBase === headHash) {
+			return
+		}
+
+		await this.git.raw(["update-ref", `${CHECKPOINT_BRANCH_REF_PREFIX}${headHash}`, headHash])
+	}
+
 	/**
 	 * EventEmitter
 	 */
@@ -913,5 +913,145 @@ describe.each([[RepoPerTaskCheckpointService, "RepoPerTaskCheckpointService"]])(
 				}
 			})
 		})
+
+		describe(`${klass.name}#restoreFiles`, () => {
+			it("restores only the selected files", async () => {
+				const otherFile = path.join(service.workspaceDir, "other.txt")
+				const routeFile = path.join(service.workspaceDir, "app", "[id]", "page.tsx")
+				await fs.mkdir(path.dirname(routeFile), { recursive: true })
+				await fs.writeFile(otherFile, "Other v1")
+				await fs.writeFile(routeFile, "Route v1")
+				const commit = await service.saveCheckpoint("v1")
+
+				await fs.writeFile(testFile, "Broken")
+				await fs.writeFile(otherFile, "Other v2")
+				await fs.writeFile(routeFile, "Route v2")
+				const createdFile = path.join(service.workspaceDir, "created.txt")
+				await fs.writeFile(createdFile, "New")
+
+				await service.restoreFiles(commit!.commit, ["test.txt", "app/[id]/page.tsx", "created.txt"])
+
+				expect(await fs.readFile(testFile, "utf-8")).toBe("Hello, world!")
+				expect(await fs.readFile(routeFile, "utf-8")).toBe("Route v1")
+				expect(await fileExistsAtPath(createdFile)).toBe(false)
+				expect(await fs.readFile(otherFile, "utf-8")).toBe("Other v2")
+			})
+
+			it("keeps the checkpoint history", async () => {
+				await fs.writeFile(testFile, "v1")
+				const first = await service.saveCheckpoint("v1")
+				await fs.writeFile(testFile, "v2")
+				const second = await service.saveCheckpoint("v2")
+
+				await service.restoreFiles(first!.commit, ["test.txt"])
+
+				expect(await fs.readFile(testFile, "utf-8")).toBe("v1")
+				expect(service.getCheckpoints()).toEqual([first!.commit, second!.commit])
+				expect((await service.getTimeline()).headHash).toBe(second!.commit)
+			})
+		})
+
+		describe(`${klass.name}#getFilesInCheckpoint`, () => {
+			it("lists the given paths that exist in a checkpoint", async () => {
+				const routeFile = path.join(service.workspaceDir, "app", "[id]", "page.tsx")
+				const emptyFile = path.join(service.workspaceDir, "empty.txt")
+				await fs.mkdir(path.dirname(routeFile), { recursive: true })
+				await fs.writeFile(routeFile, "Route v1")
+				await fs.writeFile(emptyFile, "")
+				const commit = await service.saveCheckpoint("v1")
+
+				await fs.writeFile(path.join(service.workspaceDir, "created.txt"), "New")
+
+				const paths = ["test.txt", "app/[id]/page.tsx", "empty.txt", "created.txt"]
+				const files = await service.getFilesInCheckpoint(commit!.commit, paths)
+
+				expect(files.sort()).toEqual(["app/[id]/page.tsx", "empty.txt", "test.txt"])
+				expect(await service.getFilesInCheckpoint(commit!.commit, [])).toEqual([])
+			})
+		})
+
+		describe(`${klass.name}#timeline`, () => {
+			it("labels checkpoints and clears labels", async () => {
+				await fs.writeFile(testFile, "Ahoy, world!")
+				const commit = await service.saveCheckpoint("Ahoy, world!")
+
+				await service.labelCheckpoint(commit!.commit, "  pirate greeting ")
+				let timeline = await service.getTimeline()
+				expect(timeline.nodes.find((node) => node.hash === commit!.commit)?.label).toBe("pirate greeting")
+
+				await service.labelCheckpoint(commit!.commit, "")
+				timeline = await service.getTimeline()
+				expect(timeline.nodes.find((node) => node.hash === commit!.commit)?.label).toBeUndefined()
+			})
+
+			it("keeps the abandoned line reachable after restoring and continuing", async () => {
+				await fs.writeFile(testFile, "First")
+				const first = await service.saveCheckpoint("First")
+				await fs.writeFile(testFile, "Abandoned")
+				const abandoned = await service.saveCheckpoint("Abandoned")
+
+				await service.restoreCheckpoint(first!.commit)
+				await fs.writeFile(testFile, "Retry")
+				const retry = await service.saveCheckpoint("Retry")
+
+				const timeline = await service.getTimeline()
+				expect(timeline.headHash).toBe(retry!.commit)
+				expect(timeline.lines).toHaveLength(2)
+				expect(timeline.lines[0]).toMatchObject({
+					isCurrent: true,
+					hashes: [service.baseHash, first!.commit, retry!.commit],
+				})
+				expect(timeline.lines[1]).toMatchObject({
+					isCurrent: false,
+					forkHash: first!.commit,
+					hashes: [abandoned!.commit],
+				})
+
+				const diff = await service.getDiff({ from: abandoned!.commit, to: retry!.commit })
+				expect(diff[0].content).toMatchObject({ before: "Abandoned", after: "Retry" })
+			})
+
+			it("does not branch when restoring the current checkpoint", async () => {
+				await fs.writeFile(testFile, "First")
+				const first = await service.saveCheckpoint("First")
+				await fs.writeFile(testFile, "Uncommitted")
+
+				await service.restoreCheckpoint(first!.commit)
+				expect(await fs.readFile(testFile, "utf-8")).toBe("First")
+				expect((await service.getTimeline()).lines).toHaveLength(1)
+			})
+
+			it("applies a single checkpoint step from an abandoned line", async () => {
+				const otherFile = path.join(service.workspaceDir, "other.txt")
+				await fs.writeFile(testFile, "First")
+				const first = await service.saveCheckpoint("First")
+				await fs.writeFile(otherFile, "Useful change")
+				const abandoned = await service.saveCheckpoint("Abandoned")
+
+				await service.restoreCheckpoint(first!.commit)
+				await fs.writeFile(testFile, "Retry")
+				await service.saveCheckpoint("Retry")
+
+				const result = await service.cherryPickCheckpoints({ from: first!.commit, to: abandoned!.commit })
+				expect(result).toEqual({ files: ["other.txt"], conflicts: [] })
+				expect(await fs.readFile(otherFile, "utf-8")).toBe("Useful change")
+				expect(await fs.readFile(testFile, "utf-8")).toBe("Retry")
+			})
+
+			it("reports conflicting files when a step does not apply cleanly", async () => {
+				await fs.writeFile(testFile, "First")
+				const first = await service.saveCheckpoint("First")
+				await fs.writeFile(testFile, "Abandoned")
+				const abandoned = await service.saveCheckpoint("Abandoned")
+
+				await service.restoreCheckpoint(first!.commit)
+				await fs.writeFile(testFile, "Retry")
+				await service.saveCheckpoint("Retry")
+
+				const result = await service.cherryPickCheckpoints({ from: first!.commit, to: abandoned!.commit })
+				expect(result).toEqual({ files: ["test.txt"], conflicts: ["test.txt"] })
+				expect(await fs.readFile(testFile, "utf-8")).toContain("<<<<<<<")
+			})
+		})
 	},
 )
@@ -1,3 +1,3 @@
-export type { CheckpointServiceOptions } from "./types"
+export type { CheckpointServiceOptions, CheckpointCherryPickResult } from "./types"
 
 export { RepoPerTaskCheckpointService } from "./RepoPerTaskCheckpointService"
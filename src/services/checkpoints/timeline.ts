@@ -0,0 +1,96 @@
+import type { CheckpointTimeline, CheckpointTimelineLine } from "@roo-code/types"
+
+/** Notes ref holding checkpoint labels (refs/notes/roo-labels) */
+export const CHECKPOINT_LABELS_NOTES_REF = "roo-labels"
+
+/** Refs keeping lines reachable after restoring an earlier checkpoint abandons them */
+export const CHECKPOINT_BRANCH_REF_PREFIX = "refs/roo-timeline/"
+
+export type TimelineCommit = {
+	hash: string
+	parentHash?: string
+	timestamp: number
+	label?: string
+}
+
+const FIELD_SEPARATOR = "\x1f"
+const RECORD_SEPARATOR = "\x1e"
+
+/** `git log` format read by parseTimelineLog */
+export const TIMELINE_LOG_FORMAT = `%H${FIELD_SEPARATOR}%P${FIELD_SEPARATOR}%ct${FIELD_SEPARATOR}%N${RECORD_SEPARATOR}`
+
+export function parseTimelineLog(output: string): TimelineCommit[] {
+	return output
+		.split(RECORD_SEPARATOR)
+		.map((record) => record.trim())
+		.filter(Boolean)
+		.map((record) => {
+			const [hash, parents = "", committedAt = "0", note = ""] = record.split(FIELD_SEPARATOR)
+			const label = note.trim()
+			return {
+				hash,
+				parentHash: parents.split(" ").filter(Boolean)[0],
+				timestamp: Number(committedAt) * 1000,
+				...(label ? { label } : {}),
+			}
+		})
+}
+
+/**
+ * Arrange checkpoint commits into lines: the current line (base → HEAD) first,
+ * then every abandoned line from the checkpoint it forked off to its tip, oldest first.
+ */
+export function buildCheckpointTimeline({
+	commits,
+	baseHash,
+	headHash,
+	branchTips,
+}: {
+	commits: TimelineCommit[]
+	baseHash: string
+	headHash: string
+	branchTips: string[]
+}): CheckpointTimeline {
+	const byHash = new Map(commits.map((commit) => [commit.hash, commit]))
+	const lineOf = new Map<string, number>()
+	const lines: CheckpointTimelineLine[] = []
+
+	const walk = (tipHash: string) => {
+		const hashes: string[] = []
+		let hash: string | undefined = tipHash
+		while (hash && byHash.has(hash) && !lineOf.has(hash)) {
+			hashes.unshift(hash)
+			hash = byHash.get(hash)!.parentHash
+		}
+		return { hashes, forkHash: hash && lineOf.has(hash) ? hash : undefined }
+	}
+
+	const current = walk(headHash)
+	current.hashes.forEach((hash) => lineOf.set(hash, 0))
+	lines.push({ id: 0, isCurrent: true, tipHash: headHash, hashes: current.hashes })
+
+	const tips = branchTips
+		.filter((hash) => byHash.has(hash) && !lineOf.has(hash))
+		.sort((a, b) => byHash.get(a)!.timestamp - byHash.get(b)!.timestamp)
+
+	for (const tipHash of tips) {
+		if (lineOf.has(tipHash)) {
+			continue
+		}
+		const { hashes, forkHash } = walk(tipHash)
+		const id = lines.length
+		hashes.forEach((hash) => lineOf.set(hash, id))
+		lines.push({ id, isCurrent: false, tipHash, forkHash, hashes })
+	}
+
+	const nodes = lines.flatMap((line) =>
+		line.hashes.map((hash) => ({
+			...byHash.get(hash)!,
+			line: line.id,
+			isBase: hash === baseHash,
+			isHead: hash === headHash,
+		})),
+	)
+
+	return { baseHash, headHash, lines, nodes }
+}
@@ -13,6 +13,13 @@ export type CheckpointDiff = {
 	}
 }
 
+export type CheckpointCherryPickResult = {
+	/** Files changed between the two checkpoints */
+	files: string[]
+	/** Files left with conflict markers */
+	conflicts: string[]
+}
+
 export interface CheckpointServiceOptions {
 	taskId: string
 	workspaceDir: string
@@ -106,6 +106,7 @@ describe("CodeIndexConfigManager", () => {
 				ollamaOptions: { ollamaBaseUrl: "" },
 				bedrockOptions: { region: "us-east-1", profile: undefined },
 				qdrantUrl: "http://localhost:6333",
+				vectorStoreProvider: "qdrant",
 				qdrantApiKey: "",
 				searchMinScore: 0.4,
 			})
@@ -432,6 +433,61 @@ describe("CodeIndexConfigManager", () => {
 				expect(result.requiresRestart).toBe(true)
 			})
 
+			it("should detect restart requirement for vector store provider changes", async () => {
+				// Initial state
+				mockContextProxy.getGlobalState.mockReturnValue({
+					codebaseIndexEnabled: true,
+					codebaseIndexQdrantUrl: "http://qdrant.local",
+					codebaseIndexEmbedderProvider: "openai",
+					codebaseIndexEmbedderModelId: "text-embedding-3-small",
+				})
+				setupSecretMocks({
+					codeIndexOpenAiKey: "test-key",
+				})
+
+				await configManager.loadConfiguration()
+
+				// Switch to the local vector store
+				mockContextProxy.getGlobalState.mockReturnValue({
+					codebaseIndexEnabled: true,
+					codebaseIndexVectorStoreProvider: "local",
+					codebaseIndexQdrantUrl: "http://qdrant.local",
+					codebaseIndexEmbedderProvider: "openai",
+					codebaseIndexEmbedderModelId: "text-embedding-3-small",
+				})
+
+				const result = await configManager.loadConfiguration()
+				expect(result.requiresRestart).toBe(true)
+			})
+
+			it("should not require restart for Qdrant URL changes with the local vector store", async () => {
+				// Initial state
+				mockContextProxy.getGlobalState.mockReturnValue({
+					codebaseIndexEnabled: true,
+					codebaseIndexVectorStoreProvider: "local",
+					codebaseIndexQdrantUrl: "http://old-qdrant.local",
+					codebaseIndexEmbedderProvider: "openai",
+					codebaseIndexEmbedderModelId: "text-embedding-3-small",
+				})
+				setupSecretMocks({
+					codeIndexOpenAiKey: "test-key",
+				})
+
+				await configManager.loadConfiguration()
+
+				// Change Qdrant URL
+				mockContextProxy.getGlobalState.mockReturnValue({
+					codebaseIndexEnabled: true,
+					codebaseIndexVectorStoreProvider: "local",
+					codebaseIndexQdrantUrl: "http://new-qdrant.local",
+					codebaseIndexEmbedderProvider: "openai",
+					codebaseIndexEmbedderModelId: "text-embedding-3-small",
+				})
+
+				const result = await configManager.loadConfiguration()
+				expect(result.requiresRestart).toBe(false)
+			})
+
 			it("should detect restart requirement for Qdrant URL changes", async () => {
 				// Initial state
 				mockContextProxy.getGlobalState.mockReturnValue({
@@ -1145,6 +1201,21 @@ describe("CodeIndexConfigManager", () => {
 			expect(configManager.isFeatureConfigured).toBe(true)
 		})
 
+		it("should validate the local vector store without a Qdrant URL", async () => {
+			mockContextProxy.getGlobalState.mockReturnValue({
+				codebaseIndexEnabled: true,
+				codebaseIndexVectorStoreProvider: "local",
+				codebaseIndexEmbedderProvider: "openai",
+			})
+			setupSecretMocks({
+				codeIndexOpenAiKey: "test-key",
+			})
+
+			await configManager.loadConfiguration()
+			expect(configManager.isFeatureConfigured).toBe(true)
+			expect(configManager.getConfig().vectorStoreProvider).toBe("local")
+		})
+
 		it("should validate Ollama configuration correctly", async () => {
 			mockContextProxy.getGlobalState.mockReturnValue({
 				codebaseIndexEnabled: true,
@@ -0,0 +1,110 @@
+import { containsExactQuery, fuseSearchResults, rerankSearchResults } from "../hybrid-search"
+import { IEmbedder, VectorStoreSearchResult } from "../interfaces"
+import { KeywordSearchResult } from "../keyword-index"
+import { RRF_K } from "../constants"
+
+vitest.mock("@roo-code/telemetry", () => ({
+	TelemetryService: {
+		instance: {
+			captureEvent: vitest.fn(),
+		},
+	},
+}))
+
+const payload = (codeChunk: string, filePath = "src/file.ts") => ({ filePath, codeChunk, startLine: 1, endLine: 2 })
+
+const vectorHit = (id: string, score: number, codeChunk: string): VectorStoreSearchResult => ({
+	id,
+	score,
+	payload: payload(codeChunk),
+})
+
+const keywordHit = (id: string, codeChunk: string, matchedTerms: string[]): KeywordSearchResult => ({
+	id,
+	score: 5,
+	payload: payload(codeChunk),
+	matchedTerms,
+})
+
+describe("containsExactQuery", () => {
+	it("matches the trimmed query text ignoring case", () => {
+		expect(containsExactQuery(`throw new Error("Index Not Ready")`, "  index not ready ")).toBe(true)
+		expect(containsExactQuery("indexNotReady", "index not ready")).toBe(false)
+	})
+
+	it("ignores very short queries", () => {
+		expect(containsExactQuery("a = b", "a")).toBe(false)
+	})
+})
+
+describe("fuseSearchResults", () => {
+	it("ranks hits found by both searches first and records why they matched", () => {
+		const results = fuseSearchResults(
+			"loadConfig",
+			[vectorHit("semantic-only", 0.9, "read the settings file"), vectorHit("both", 0.8, "loadConfig()")],
+			[
+				keywordHit("both", "loadConfig()", ["loadconfig"]),
+				keywordHit("keyword-only", "loadConfig", ["loadconfig"]),
+			],
+		)
+
+		expect(results.map((r) => r.id)).toEqual(["both", "semantic-only", "keyword-only"])
+		expect(results[0].matchReasons).toEqual(["semantic", "keyword", "exact"])
+		expect(results[0].matchedTerms).toEqual(["loadconfig"])
+		expect(results[1].matchReasons).toEqual(["semantic"])
+		expect(results[2].matchReasons).toEqual(["keyword", "exact"])
+	})
+
+	it("scales the fused score so a hit ranked first by both searches scores 1", () => {
+		const [top, second] = fuseSearchResults(
+			"query",
+			[vectorHit("a", 0.9, "query"), vectorHit("b", 0.5, "other")],
+			[keywordHit("a", "query", ["query"])],
+		)
+
+		expect(top.score).toBeCloseTo(1)
+		expect(second.score).toBeCloseTo(1 / (RRF_K + 2) / (2 / (RRF_K + 1)))
+	})
+
+	it("returns vector hits unchanged in order when there are no keyword hits", () => {
+		const results = fuseSearchResults("query", [vectorHit("a", 0.9, "x"), vectorHit("b", 0.8, "y")], [])
+		expect(results.map((r) => r.id)).toEqual(["a", "b"])
+	})
+})
+
+describe("rerankSearchResults", () => {
+	it("embeds keyword-only hits and orders by semantic, coverage and exact match scores", async () => {
+		const embedder = {
+			createEmbeddings: vitest.fn().mockResolvedValue({ embeddings: [[1, 0]] }),
+		} as unknown as IEmbedder
+
+		const results = await rerankSearchResults(
+			"parse token",
+			[1, 0],
+			[vectorHit("vague", 0.5, "tokenizer helpers")],
+			[keywordHit("exact", "function parse token", ["parse", "token"])],
+			embedder,
+		)
+
+		expect(embedder.createEmbeddings).toHaveBeenCalledWith(["function parse token"])
+		expect(results.map((r) => r.id)).toEqual(["exact", "vague"])
+		// 0.6 * 1 (semantic) + 0.3 * 1 (both terms) + 0.1 (exact)
+		expect(results[0].score).toBeCloseTo(1)
+		// 0.6 * 0.5, "tokenizer" is not the term "token"
+		expect(results[1].score).toBeCloseTo(0.3)
+	})
+
+	it("does not call the embedder when every hit has a similarity score", async () => {
+		const embedder = { createEmbeddings: vitest.fn() } as unknown as IEmbedder
+
+		await rerankSearchResults(
+			"query",
+			[1, 0],
+			[vectorHit("a", 0.9, "query")],
+			[keywordHit("a", "query", ["query"])],
+			embedder,
+		)
+
+		expect(embedder.createEmbeddings).not.toHaveBeenCalled()
+	})
+})
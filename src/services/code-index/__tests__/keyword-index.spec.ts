@@ -0,0 +1,143 @@
+import * as fs from "fs/promises"
+import * as os from "os"
+import * as path from "path"
+
+import { KeywordIndex, tokenize } from "../keyword-index"
+
+vitest.mock("@roo-code/telemetry", () => ({
+	TelemetryService: {
+		instance: {
+			captureEvent: vitest.fn(),
+		},
+	},
+}))
+
+const workspacePath = "/test/workspace"
+
+const point = (id: string, filePath: string, codeChunk: string) => ({
+	id,
+	payload: { filePath, codeChunk, startLine: 1, endLine: 5 },
+})
+
+describe("tokenize", () => {
+	it("keeps identifiers whole and adds their camelCase and snake_case parts", () => {
+		expect(tokenize("getUserName(MAX_RETRY_COUNT)")).toEqual([
+			"getusername",
+			"get",
+			"user",
+			"name",
+			"max_retry_count",
+			"max",
+			"retry",
+			"count",
+		])
+	})
+
+	it("splits acronyms from the following word", () => {
+		expect(tokenize("parseHTTPResponse")).toEqual(["parsehttpresponse", "parse", "http", "response"])
+	})
+
+	it("ignores punctuation", () => {
+		expect(tokenize(`"codeIndex.enabled": true`)).toEqual(["codeindex", "code", "index", "enabled", "true"])
+	})
+})
+
+describe("KeywordIndex", () => {
+	let storagePath: string
+	let index: KeywordIndex
+
+	beforeEach(async () => {
+		storagePath = await fs.mkdtemp(path.join(os.tmpdir(), "keyword-index-"))
+		index = new KeywordIndex(workspacePath, storagePath)
+		await index.initialize()
+	})
+
+	afterEach(async () => {
+		await index.clear()
+		await fs.rm(storagePath, { recursive: true, force: true })
+	})
+
+	it("ranks chunks containing rare query terms first", () => {
+		index.upsertPoints([
+			point("a", "src/a.ts", "function loadConfig() { return readSettings() }"),
+			point("b", "src/b.ts", "throw new Error('ECONNREFUSED while connecting to qdrant')"),
+			point("c", "src/c.ts", "function connect() { return loadConfig() }"),
+		])
+
+		const results = index.search("ECONNREFUSED error", undefined, 10)
+
+		expect(results.map((r) => r.id)).toEqual(["b"])
+		expect(results[0].matchedTerms).toEqual(["econnrefused", "error"])
+		expect(results[0].payload.filePath).toBe("src/b.ts")
+	})
+
+	it("matches identifier parts and prefers the exact identifier", () => {
+		index.upsertPoints([
+			point("exact", "src/a.ts", "const maxRetryCount = 3"),
+			point("parts", "src/b.ts", "// retry up to the max count"),
+		])
+
+		expect(index.search("maxRetryCount", undefined, 10).map((r) => r.id)).toEqual(["exact", "parts"])
+	})
+
+	it("limits results and filters by directory prefix", () => {
+		index.upsertPoints([
+			point("a", "src/utils/a.ts", "parseToken"),
+			point("b", "src/b.ts", "parseToken parseToken"),
+			point("c", "test/c.ts", "parseToken"),
+		])
+
+		expect(index.search("parseToken", "src", 10).map((r) => r.id)).toEqual(["b", "a"])
+		expect(index.search("parseToken", "./src/utils", 10).map((r) => r.id)).toEqual(["a"])
+		expect(index.search("parseToken", undefined, 1)).toHaveLength(1)
+	})
+
+	it("replaces and deletes the chunks of a file", () => {
+		index.upsertPoints([point("a1", "src/a.ts", "obsolete"), point("b1", "src/b.ts", "obsolete")])
+
+		index.setFilePoints(path.join(workspacePath, "src", "a.ts"), [point("a2", "src/a.ts", "replacement")])
+		expect(index.search("obsolete", undefined, 10).map((r) => r.id)).toEqual(["b1"])
+		expect(index.search("replacement", undefined, 10).map((r) => r.id)).toEqual(["a2"])
+
+		index.deleteFiles(["src/b.ts"])
+		expect(index.search("obsolete", undefined, 10)).toEqual([])
+		expect(index.hasFile("src/b.ts")).toBe(false)
+	})
+
+	it("tracks files without chunks", () => {
+		index.setFilePoints("src/empty.ts", [])
+
+		expect(index.hasFile(path.join(workspacePath, "src", "empty.ts"))).toBe(true)
+		expect(index.size).toBe(0)
+	})
+
+	it("drops files that are not retained", () => {
+		index.upsertPoints([point("a", "src/a.ts", "token"), point("b", "src/b.ts", "token")])
+
+		index.retainFiles([path.join(workspacePath, "src", "a.ts")])
+
+		expect(index.hasFile("src/b.ts")).toBe(false)
+		expect(index.search("token", undefined, 10).map((r) => r.id)).toEqual(["a"])
+	})
+
+	it("persists the index across instances", async () => {
+		index.upsertPoints([point("a", "src/a.ts", "persistedSymbol")])
+		index.setFilePoints("src/empty.ts", [])
+		await index.flush()
+
+		const reopened = new KeywordIndex(workspacePath, storagePath)
+		await reopened.initialize()
+
+		expect(reopened.search("persistedSymbol", undefined, 10).map((r) => r.id)).toEqual(["a"])
+		expect(reopened.hasFile("src/empty.ts")).toBe(true)
+	})
+
+	it("removes the index file on clear", async () => {
+		index.upsertPoints([point("a", "src/a.ts", "token")])
+		await index.flush()
+		await index.clear()
+
+		expect(index.size).toBe(0)
+		expect(await fs.readdir(storagePath)).toEqual([])
+	})
+})
@@ -104,7 +104,7 @@ describe("CodeIndexManager - handleSettingsChange regression", () => {
 			asAbsolutePath: vi.fn(),
 			storageUri: {} as any,
 			storagePath: testStoragePath,
-			globalStorageUri: {} as any,
+			globalStorageUri: { fsPath: "/test/storage" } as any,
 			globalStoragePath: testGlobalStoragePath,
 			logUri: {} as any,
 			logPath: testLogPath,
@@ -5,6 +5,7 @@ import { CodeIndexOllamaEmbedder } from "../embedders/ollama"
 import { OpenAICompatibleEmbedder } from "../embedders/openai-compatible"
 import { GeminiEmbedder } from "../embedders/gemini"
 import { QdrantVectorStore } from "../vector-store/qdrant-client"
+import { LocalVectorStore } from "../vector-store/local-vector-store"
 
 // Mock the embedders and vector store
 vitest.mock("../embedders/openai")
@@ -12,6 +13,7 @@ vitest.mock("../embedders/ollama")
 vitest.mock("../embedders/openai-compatible")
 vitest.mock("../embedders/gemini")
 vitest.mock("../vector-store/qdrant-client")
+vitest.mock("../vector-store/local-vector-store")
 
 // Mock the embedding models module
 vitest.mock("../../../shared/embeddingModels", () => ({
@@ -33,6 +35,7 @@ const MockedCodeIndexOllamaEmbedder = CodeIndexOllamaEmbedder as MockedClass<typ
 const MockedOpenAICompatibleEmbedder = OpenAICompatibleEmbedder as MockedClass<typeof OpenAICompatibleEmbedder>
 const MockedGeminiEmbedder = GeminiEmbedder as MockedClass<typeof GeminiEmbedder>
 const MockedQdrantVectorStore = QdrantVectorStore as MockedClass<typeof QdrantVectorStore>
+const MockedLocalVectorStore = LocalVectorStore as MockedClass<typeof LocalVectorStore>
 
 // Import the mocked functions
 import { getDefaultModelId, getModelDimension } from "../../../shared/embeddingModels"
@@ -659,6 +662,45 @@ describe("CodeIndexServiceFactory", () => {
 			// Act & Assert
 			expect(() => factory.createVectorStore()).toThrow("serviceFactory.qdrantUrlMissing")
 		})
+
+		it("should create a local vector store in the storage path without a Qdrant URL", () => {
+			// Arrange
+			factory = new CodeIndexServiceFactory(
+				mockConfigManager,
+				"/test/workspace",
+				mockCacheManager,
+				"/test/global-storage",
+			)
+			const testConfig = {
+				embedderProvider: "openai",
+				modelId: "text-embedding-3-small",
+				vectorStoreProvider: "local",
+				qdrantUrl: undefined,
+			}
+			mockConfigManager.getConfig.mockReturnValue(testConfig as any)
+			mockGetModelDimension.mockReturnValue(1536)
+
+			// Act
+			factory.createVectorStore()
+
+			// Assert
+			expect(MockedLocalVectorStore).toHaveBeenCalledWith("/test/workspace", "/test/global-storage", 1536)
+			expect(MockedQdrantVectorStore).not.toHaveBeenCalled()
+		})
+
+		it("should throw error when the local vector store has no storage path", () => {
+			// Arrange
+			const testConfig = {
+				embedderProvider: "openai",
+				modelId: "text-embedding-3-small",
+				vectorStoreProvider: "local",
+			}
+			mockConfigManager.getConfig.mockReturnValue(testConfig as any)
+			mockGetModelDimension.mockReturnValue(1536)
+
+			// Act & Assert
+			expect(() => factory.createVectorStore()).toThrow("serviceFactory.localStoragePathMissing")
+		})
 	})
 
 	describe("validateEmbedder", () => {
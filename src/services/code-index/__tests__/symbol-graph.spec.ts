@@ -0,0 +1,187 @@
+import * as fs from "fs/promises"
+import * as os from "os"
+import * as path from "path"
+
+import { FileSymbols } from "../interfaces"
+import { SymbolGraph } from "../symbol-graph"
+
+vitest.mock("@roo-code/telemetry", () => ({
+	TelemetryService: {
+		instance: {
+			captureEvent: vitest.fn(),
+		},
+	},
+}))
+
+const workspacePath = "/test/workspace"
+
+const symbols = (overrides: Partial<FileSymbols> = {}): FileSymbols => ({
+	definitions: [],
+	references: {},
+	calls: [],
+	imports: [],
+	...overrides,
+})
+
+describe("SymbolGraph", () => {
+	let storagePath: string
+	let graph: SymbolGraph
+
+	beforeEach(async () => {
+		storagePath = await fs.mkdtemp(path.join(os.tmpdir(), "symbol-graph-"))
+		graph = new SymbolGraph(workspacePath, storagePath)
+		await graph.initialize()
+	})
+
+	afterEach(async () => {
+		await graph.clear()
+		await fs.rm(storagePath, { recursive: true, force: true })
+	})
+
+	describe("symbol queries", () => {
+		beforeEach(() => {
+			graph.setFileSymbols(
+				"src/config.ts",
+				symbols({
+					definitions: [{ name: "parseConfig", kind: "function", line: 3, endLine: 10 }],
+					references: { parseConfig: [12], readFile: [4] },
+					calls: [{ callee: "parseConfig", caller: null, line: 12 }],
+				}),
+			)
+			graph.setFileSymbols(
+				path.join(workspacePath, "src/app/main.ts"),
+				symbols({
+					references: { parseConfig: [1, 8] },
+					calls: [{ callee: "parseConfig", caller: "start", line: 8 }],
+				}),
+			)
+		})
+
+		it("finds definitions", () => {
+			expect(graph.findDefinitions("parseConfig")).toEqual([
+				{ filePath: "src/config.ts", name: "parseConfig", kind: "function", line: 3, endLine: 10 },
+			])
+			expect(graph.findDefinitions("missing")).toEqual([])
+		})
+
+		it("finds references sorted by file and line", () => {
+			expect(graph.findReferences("parseConfig")).toEqual([
+				{ filePath: "src/app/main.ts", line: 1 },
+				{ filePath: "src/app/main.ts", line: 8 },
+				{ filePath: "src/config.ts", line: 12 },
+			])
+		})
+
+		it("does not treat object prototype properties as symbols", () => {
+			expect(graph.findReferences("constructor")).toEqual([])
+		})
+
+		it("finds callers with their enclosing definition", () => {
+			expect(graph.findCallers("parseConfig")).toEqual([
+				{ filePath: "src/app/main.ts", line: 8, callee: "parseConfig", caller: "start" },
+				{ filePath: "src/config.ts", line: 12, callee: "parseConfig", caller: null },
+			])
+		})
+
+		it("restricts results to a directory", () => {
+			expect(graph.findReferences("parseConfig", "src/app")).toEqual([
+				{ filePath: "src/app/main.ts", line: 1 },
+				{ filePath: "src/app/main.ts", line: 8 },
+			])
+			expect(graph.findDefinitions("parseConfig", "src/app")).toEqual([])
+		})
+	})
+
+	describe("getImportGraph", () => {
+		it("returns undefined for files that are not in the graph", () => {
+			expect(graph.getImportGraph("src/missing.ts")).toBeUndefined()
+		})
+
+		it("resolves relative TypeScript imports, including .js specifiers and index files", () => {
+			graph.setFileSymbols(
+				"src/main.ts",
+				symbols({
+					imports: [
+						{ specifier: "./utils.js", line: 1 },
+						{ specifier: "./services", line: 2 },
+						{ specifier: "lodash", line: 3 },
+					],
+				}),
+			)
+			graph.setFileSymbols("src/utils.ts", symbols())
+			graph.setFileSymbols("src/services/index.ts", symbols())
+
+			expect(graph.getImportGraph("src/main.ts")?.imports).toEqual([
+				{ specifier: "./utils.js", line: 1, resolvedPath: "src/utils.ts" },
+				{ specifier: "./services", line: 2, resolvedPath: "src/services/index.ts" },
+				{ specifier: "lodash", line: 3, resolvedPath: undefined },
+			])
+		})
+
+		it("lists the files that import a file", () => {
+			graph.setFileSymbols("src/utils.ts", symbols())
+			graph.setFileSymbols("src/a.ts", symbols({ imports: [{ specifier: "./utils", line: 2 }] }))
+			graph.setFileSymbols("src/nested/b.ts", symbols({ imports: [{ specifier: "../utils.js", line: 5 }] }))
+			graph.setFileSymbols("src/c.ts", symbols({ imports: [{ specifier: "./other/utils", line: 1 }] }))
+
+			expect(graph.getImportGraph("src/utils.ts")?.importedBy).toEqual([
+				{ filePath: "src/a.ts", line: 2, specifier: "./utils" },
+				{ filePath: "src/nested/b.ts", line: 5, specifier: "../utils.js" },
+			])
+		})
+
+		it("resolves Python relative and absolute imports", () => {
+			graph.setFileSymbols(
+				"pkg/api/views.py",
+				symbols({
+					imports: [
+						{ specifier: ".serializers", line: 1 },
+						{ specifier: "..models", line: 2 },
+						{ specifier: "pkg.utils.helpers", line: 3 },
+					],
+				}),
+			)
+			graph.setFileSymbols("pkg/api/serializers.py", symbols())
+			graph.setFileSymbols("pkg/models/__init__.py", symbols())
+			graph.setFileSymbols("pkg/utils/helpers.py", symbols())
+
+			expect(graph.getImportGraph("pkg/api/views.py")?.imports.map((entry) => entry.resolvedPath)).toEqual([
+				"pkg/api/serializers.py",
+				"pkg/models/__init__.py",
+				"pkg/utils/helpers.py",
+			])
+		})
+	})
+
+	it("persists the graph between instances", async () => {
+		graph.setFileSymbols("src/a.ts", symbols({ references: { foo: [1] } }))
+		await graph.flush()
+
+		const reloaded = new SymbolGraph(workspacePath, storagePath)
+		await reloaded.initialize()
+
+		expect(reloaded.size).toBe(1)
+		expect(reloaded.findReferences("foo")).toEqual([{ filePath: "src/a.ts", line: 1 }])
+	})
+
+	it("removes files that are no longer in the workspace", () => {
+		graph.setFileSymbols("src/a.ts", symbols())
+		graph.setFileSymbols("src/b.ts", symbols())
+
+		graph.retainFiles([path.join(workspacePath, "src/a.ts")])
+
+		expect(graph.hasFile("src/a.ts")).toBe(true)
+		expect(graph.hasFile("src/b.ts")).toBe(false)
+	})
+
+	it("deletes the stored graph on clear", async () => {
+		graph.setFileSymbols("src/a.ts", symbols())
+		await graph.flush()
+
+		await graph.clear()
+
+		const reloaded = new SymbolGraph(workspacePath, storagePath)
+		await reloaded.initialize()
+		expect(reloaded.size).toBe(0)
+	})
+})
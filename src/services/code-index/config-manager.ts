@@ -1,3 +1,5 @@
+import type { CodebaseIndexSearchMode, CodebaseIndexVectorStoreProvider } from "@roo-code/types"
+
 import { ApiHandlerOptions } from "../../shared/api"
 import { ContextProxy } from "../../core/config/ContextProxy"
 import { EmbedderProvider } from "./interfaces/manager"
@@ -22,10 +24,13 @@ export class CodeIndexConfigManager {
 	private vercelAiGatewayOptions?: { apiKey: string }
 	private bedrockOptions?: { region: string; profile?: string }
 	private openRouterOptions?: { apiKey: string; specificProvider?: string }
+	private vectorStoreProvider: CodebaseIndexVectorStoreProvider = "qdrant"
 	private qdrantUrl?: string = "http://localhost:6333"
 	private qdrantApiKey?: string
 	private searchMinScore?: number
 	private searchMaxResults?: number
+	private searchMode: CodebaseIndexSearchMode = "vector"
+	private searchRerank: boolean = false
 
 	constructor(private readonly contextProxy: ContextProxy) {
 		// Initialize with current configuration to avoid false restart triggers
@@ -47,6 +52,7 @@ export class CodeIndexConfigManager {
 		// Load configuration from storage
 		const codebaseIndexConfig = this.contextProxy?.getGlobalState("codebaseIndexConfig") ?? {
 			codebaseIndexEnabled: false,
+			codebaseIndexVectorStoreProvider: "qdrant",
 			codebaseIndexQdrantUrl: "http://localhost:6333",
 			codebaseIndexEmbedderProvider: "openai",
 			codebaseIndexEmbedderBaseUrl: "",
@@ -59,12 +65,15 @@ export class CodeIndexConfigManager {
 
 		const {
 			codebaseIndexEnabled,
+			codebaseIndexVectorStoreProvider,
 			codebaseIndexQdrantUrl,
 			codebaseIndexEmbedderProvider,
 			codebaseIndexEmbedderBaseUrl,
 			codebaseIndexEmbedderModelId,
 			codebaseIndexSearchMinScore,
 			codebaseIndexSearchMaxResults,
+			codebaseIndexSearchMode,
+			codebaseIndexSearchRerank,
 		} = codebaseIndexConfig
 
 		const openAiKey = this.contextProxy?.getSecret("codeIndexOpenAiKey") ?? ""
@@ -82,10 +91,13 @@ export class CodeIndexConfigManager {
 
 		// Update instance variables with configuration
 		this.codebaseIndexEnabled = codebaseIndexEnabled ?? false
+		this.vectorStoreProvider = codebaseIndexVectorStoreProvider === "local" ? "local" : "qdrant"
 		this.qdrantUrl = codebaseIndexQdrantUrl
 		this.qdrantApiKey = qdrantApiKey ?? ""
 		this.searchMinScore = codebaseIndexSearchMinScore
 		this.searchMaxResults = codebaseIndexSearchMaxResults
+		this.searchMode = codebaseIndexSearchMode === "hybrid" ? "hybrid" : "vector"
+		this.searchRerank = codebaseIndexSearchRerank ?? false
 
 		// Validate and set model dimension
 		const rawDimension = codebaseIndexConfig.codebaseIndexEmbedderModelDimension
@@ -168,6 +180,7 @@ export class CodeIndexConfigManager {
 			vercelAiGatewayOptions?: { apiKey: string }
 			bedrockOptions?: { region: string; profile?: string }
 			openRouterOptions?: { apiKey: string }
+			vectorStoreProvider: CodebaseIndexVectorStoreProvider
 			qdrantUrl?: string
 			qdrantApiKey?: string
 			searchMinScore?: number
@@ -192,8 +205,10 @@ export class CodeIndexConfigManager {
 			bedrockProfile: this.bedrockOptions?.profile ?? "",
 			openRouterApiKey: this.openRouterOptions?.apiKey ?? "",
 			openRouterSpecificProvider: this.openRouterOptions?.specificProvider ?? "",
+			vectorStoreProvider: this.vectorStoreProvider,
 			qdrantUrl: this.qdrantUrl ?? "",
 			qdrantApiKey: this.qdrantApiKey ?? "",
+			searchMode: this.searchMode,
 		}
 
 		// Refresh secrets from VSCode storage to ensure we have the latest values
@@ -219,6 +234,7 @@ export class CodeIndexConfigManager {
 				vercelAiGatewayOptions: this.vercelAiGatewayOptions,
 				bedrockOptions: this.bedrockOptions,
 				openRouterOptions: this.openRouterOptions,
+				vectorStoreProvider: this.vectorStoreProvider,
 				qdrantUrl: this.qdrantUrl,
 				qdrantApiKey: this.qdrantApiKey,
 				searchMinScore: this.currentSearchMinScore,
@@ -231,46 +247,41 @@ export class CodeIndexConfigManager {
 	 * Checks if the service is properly configured based on the embedder type.
 	 */
 	public isConfigured(): boolean {
+		// The embedded store needs no server
+		const hasVectorStore = this.vectorStoreProvider === "local" || !!this.qdrantUrl
+
 		if (this.embedderProvider === "openai") {
 			const openAiKey = this.openAiOptions?.openAiNativeApiKey
-			const qdrantUrl = this.qdrantUrl
-			return !!(openAiKey && qdrantUrl)
+			return !!(openAiKey && hasVectorStore)
 		} else if (this.embedderProvider === "ollama") {
 			// Ollama model ID has a default, so only base URL is strictly required for config
 			const ollamaBaseUrl = this.ollamaOptions?.ollamaBaseUrl
-			const qdrantUrl = this.qdrantUrl
-			return !!(ollamaBaseUrl && qdrantUrl)
+			return !!(ollamaBaseUrl && hasVectorStore)
 		} else if (this.embedderProvider === "openai-compatible") {
 			const baseUrl = this.openAiCompatibleOptions?.baseUrl
 			const apiKey = this.openAiCompatibleOptions?.apiKey
-			const qdrantUrl = this.qdrantUrl
-			const isConfigured = !!(baseUrl && apiKey && qdrantUrl)
+			const isConfigured = !!(baseUrl && apiKey && hasVectorStore)
 			return isConfigured
 		} else if (this.embedderProvider === "gemini") {
 			const apiKey = this.geminiOptions?.apiKey
-			const qdrantUrl = this.qdrantUrl
-			const isConfigured = !!(apiKey && qdrantUrl)
+			const isConfigured = !!(apiKey && hasVectorStore)
 			return isConfigured
 		} else if (this.embedderProvider === "mistral") {
 			const apiKey = this.mistralOptions?.apiKey
-			const qdrantUrl = this.qdrantUrl
-			const isConfigured = !!(apiKey && qdrantUrl)
+			const isConfigured = !!(apiKey && hasVectorStore)
 			return isConfigured
 		} else if (this.embedderProvider === "vercel-ai-gateway") {
 			const apiKey = this.vercelAiGatewayOptions?.apiKey
-			const qdrantUrl = this.qdrantUrl
-			const isConfigured = !!(apiKey && qdrantUrl)
+			const isConfigured = !!(apiKey && hasVectorStore)
 			return isConfigured
 		} else if (this.embedderProvider === "bedrock") {
 			// Only region is required for Bedrock (profile is optional)
 			const region = this.bedrockOptions?.region
-			const qdrantUrl = this.qdrantUrl
-			const isConfigured = !!(region && qdrantUrl)
+			const isConfigured = !!(region && hasVectorStore)
 			return isConfigured
 		} else if (this.embedderProvider === "openrouter") {
 			const apiKey = this.openRouterOptions?.apiKey
-			const qdrantUrl = this.qdrantUrl
-			const isConfigured = !!(apiKey && qdrantUrl)
+			const isConfigured = !!(apiKey && hasVectorStore)
 			return isConfigured
 		}
 		return false // Should not happen if embedderProvider is always set correctly
@@ -284,7 +295,7 @@ export class CodeIndexConfigManager {
 	 * - Provider changes (openai -> ollama, etc.)
 	 * - Authentication changes (API keys, base URLs)
 	 * - Vector dimension changes (model changes that affect embedding size)
-	 * - Qdrant connection changes (URL, API key)
+	 * - Vector store changes (Qdrant <-> local, Qdrant URL or API key)
 	 * - Feature enable/disable transitions
 	 *
 	 * MINOR CHANGES (no restart needed):
@@ -311,8 +322,10 @@ export class CodeIndexConfigManager {
 		const prevBedrockProfile = prev?.bedrockProfile ?? ""
 		const prevOpenRouterApiKey = prev?.openRouterApiKey ?? ""
 		const prevOpenRouterSpecificProvider = prev?.openRouterSpecificProvider ?? ""
+		const prevVectorStoreProvider = prev?.vectorStoreProvider ?? "qdrant"
 		const prevQdrantUrl = prev?.qdrantUrl ?? ""
 		const prevQdrantApiKey = prev?.qdrantApiKey ?? ""
+		const prevSearchMode = prev?.searchMode ?? "vector"
 
 		// 1. Transition from disabled/unconfigured to enabled/configured
 		if ((!prevEnabled || !prevConfigured) && this.codebaseIndexEnabled && nowConfigured) {
@@ -401,7 +414,19 @@ export class CodeIndexConfigManager {
 			return true
 		}
 
-		if (prevQdrantUrl !== currentQdrantUrl || prevQdrantApiKey !== currentQdrantApiKey) {
+		if (prevVectorStoreProvider !== this.vectorStoreProvider) {
+			return true
+		}
+
+		// The keyword index only exists in hybrid mode
+		if (prevSearchMode !== this.searchMode) {
+			return true
+		}
+
+		if (
+			this.vectorStoreProvider === "qdrant" &&
+			(prevQdrantUrl !== currentQdrantUrl || prevQdrantApiKey !== currentQdrantApiKey)
+		) {
 			return true
 		}
 
@@ -456,10 +481,13 @@ export class CodeIndexConfigManager {
 			vercelAiGatewayOptions: this.vercelAiGatewayOptions,
 			bedrockOptions: this.bedrockOptions,
 			openRouterOptions: this.openRouterOptions,
+			vectorStoreProvider: this.vectorStoreProvider,
 			qdrantUrl: this.qdrantUrl,
 			qdrantApiKey: this.qdrantApiKey,
 			searchMinScore: this.currentSearchMinScore,
 			searchMaxResults: this.currentSearchMaxResults,
+			searchMode: this.searchMode,
+			searchRerank: this.searchRerank,
 		}
 	}
 
@@ -541,4 +569,18 @@ export class CodeIndexConfigManager {
 	public get currentSearchMaxResults(): number {
 		return this.searchMaxResults ?? DEFAULT_MAX_SEARCH_RESULTS
 	}
+
+	/**
+	 * Gets the configured search mode, "vector" unless hybrid search was enabled.
+	 */
+	public get currentSearchMode(): CodebaseIndexSearchMode {
+		return this.searchMode
+	}
+
+	/**
+	 * Gets whether hybrid search results are reranked before being returned.
+	 */
+	public get isSearchRerankEnabled(): boolean {
+		return this.searchRerank
+	}
 }
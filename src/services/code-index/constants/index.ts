@@ -10,6 +10,17 @@ export const MAX_CHARS_TOLERANCE_FACTOR = 1.15 // 15% tolerance for max chars
 export const DEFAULT_SEARCH_MIN_SCORE = CODEBASE_INDEX_DEFAULTS.DEFAULT_SEARCH_MIN_SCORE
 export const DEFAULT_MAX_SEARCH_RESULTS = CODEBASE_INDEX_DEFAULTS.DEFAULT_SEARCH_RESULTS
 
+/**Hybrid Search */
+export const BM25_K1 = 1.2
+export const BM25_B = 0.75
+export const RRF_K = 60 // Reciprocal rank fusion damping constant
+export const RERANK_SEMANTIC_WEIGHT = 0.6
+export const RERANK_TERM_COVERAGE_WEIGHT = 0.3
+export const RERANK_EXACT_MATCH_WEIGHT = 0.1
+
+/**Symbol Graph */
+export const MAX_SYMBOL_GRAPH_RESULTS = 100
+
 /**File Watcher */
 export const QDRANT_CODE_BLOCK_NAMESPACE = "f47ac10b-58cc-4372-a567-0e02b2c3d479"
 export const MAX_FILE_SIZE_BYTES = 1 * 1024 * 1024 // 1MB
@@ -0,0 +1,152 @@
+import type { CodebaseSearchMatchReason } from "@roo-code/types"
+
+import { IEmbedder, VectorStoreSearchResult } from "./interfaces"
+import { KeywordSearchResult, tokenize } from "./keyword-index"
+import {
+	RERANK_EXACT_MATCH_WEIGHT,
+	RERANK_SEMANTIC_WEIGHT,
+	RERANK_TERM_COVERAGE_WEIGHT,
+	RRF_K,
+} from "./constants"
+
+interface HybridCandidate {
+	result: VectorStoreSearchResult
+	fusedScore: number
+	/** Cosine similarity, when the hit came from the vector search */
+	semanticScore?: number
+}
+
+/**
+ * Checks whether a chunk contains the query text verbatim (ignoring case),
+ * e.g. an error message or a config key.
+ */
+export function containsExactQuery(codeChunk: string, query: string): boolean {
+	const needle = query.trim().toLowerCase()
+	return needle.length >= 3 && codeChunk.toLowerCase().includes(needle)
+}
+
+/**
+ * Merges vector and keyword hits with reciprocal rank fusion. Each hit is
+ * annotated with why it matched; its score is the fused score scaled so that
+ * a hit ranked first by both searches scores 1.
+ *
+ * @param query The search query
+ * @param vectorResults Vector hits, best first
+ * @param keywordResults Keyword hits, best first
+ * @returns Fused hits, best first
+ */
+export function fuseSearchResults(
+	query: string,
+	vectorResults: VectorStoreSearchResult[],
+	keywordResults: KeywordSearchResult[],
+): VectorStoreSearchResult[] {
+	return rankCandidates(query, vectorResults, keywordResults).map(({ result }) => result)
+}
+
+/**
+ * Reorders the top fused hits by a weighted mix of semantic similarity, the
+ * share of query terms a chunk contains, and an exact match bonus. Keyword-only
+ * hits have no similarity yet, so their chunks are embedded in one request.
+ *
+ * @param query The search query
+ * @param queryVector Embedding of the query
+ * @param vectorResults Vector hits, best first
+ * @param keywordResults Keyword hits, best first
+ * @param embedder Embedder used for the keyword-only hits
+ * @returns Reranked hits, best first, scored between 0 and 1
+ */
+export async function rerankSearchResults(
+	query: string,
+	queryVector: number[],
+	vectorResults: VectorStoreSearchResult[],
+	keywordResults: KeywordSearchResult[],
+	embedder: IEmbedder,
+): Promise<VectorStoreSearchResult[]> {
+	const candidates = rankCandidates(query, vectorResults, keywordResults)
+	const unscored = candidates.filter((candidate) => candidate.semanticScore === undefined)
+
+	if (unscored.length > 0) {
+		const { embeddings } = await embedder.createEmbeddings(
+			unscored.map(({ result }) => result.payload!.codeChunk.trim() || " "),
+		)
+		unscored.forEach((candidate, index) => {
+			candidate.semanticScore = embeddings[index] ? cosineSimilarity(queryVector, embeddings[index]) : 0
+		})
+	}
+
+	const queryTerms = new Set(tokenize(query))
+
+	return candidates
+		.map(({ result, semanticScore }) => {
+			const chunkTerms = new Set(tokenize(result.payload!.codeChunk))
+			const matched = [...queryTerms].filter((term) => chunkTerms.has(term)).length
+			const coverage = queryTerms.size > 0 ? matched / queryTerms.size : 0
+			const exact = result.matchReasons?.includes("exact") ? 1 : 0
+			const score =
+				RERANK_SEMANTIC_WEIGHT * Math.max(0, semanticScore ?? 0) +
+				RERANK_TERM_COVERAGE_WEIGHT * coverage +
+				RERANK_EXACT_MATCH_WEIGHT * exact
+			return { ...result, score }
+		})
+		.sort((a, b) => b.score - a.score)
+}
+
+function rankCandidates(
+	query: string,
+	vectorResults: VectorStoreSearchResult[],
+	keywordResults: KeywordSearchResult[],
+): HybridCandidate[] {
+	const candidates = new Map<string, HybridCandidate>()
+	const reasons = new Map<string, Set<CodebaseSearchMatchReason>>()
+
+	const add = (
+		id: string,
+		rank: number,
+		reason: CodebaseSearchMatchReason,
+		create: () => VectorStoreSearchResult,
+	): HybridCandidate => {
+		const candidate = candidates.get(id) ?? { result: create(), fusedScore: 0 }
+		candidate.fusedScore += 1 / (RRF_K + rank + 1)
+		candidates.set(id, candidate)
+		reasons.set(id, (reasons.get(id) ?? new Set()).add(reason))
+		return candidate
+	}
+
+	vectorResults.forEach((result, rank) => {
+		if (!result.payload) return
+		const candidate = add(String(result.id), rank, "semantic", () => ({ ...result }))
+		candidate.semanticScore = result.score
+	})
+
+	keywordResults.forEach(({ id, payload, matchedTerms }, rank) => {
+		const candidate = add(id, rank, "keyword", () => ({ id, score: 0, payload }))
+		candidate.result.matchedTerms = matchedTerms
+	})
+
+	// Both searches ranking a hit first gives the maximum fused score
+	const maxFusedScore = 2 / (RRF_K + 1)
+
+	return [...candidates.entries()]
+		.map(([id, candidate]) => {
+			const matchReasons = reasons.get(id)!
+			if (containsExactQuery(candidate.result.payload!.codeChunk, query)) {
+				matchReasons.add("exact")
+			}
+			candidate.result.matchReasons = [...matchReasons]
+			candidate.result.score = candidate.fusedScore / maxFusedScore
+			return candidate
+		})
+		.sort((a, b) => b.fusedScore - a.fusedScore)
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+	let dot = 0
+	let normA = 0
+	let normB = 0
+	for (let i = 0; i < a.length; i++) {
+		dot += a[i] * b[i]
+		normA += a[i] * a[i]
+		normB += b[i] * b[i]
+	}
+	return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0
+}
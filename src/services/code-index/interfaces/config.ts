@@ -1,3 +1,5 @@
+import type { CodebaseIndexSearchMode, CodebaseIndexVectorStoreProvider } from "@roo-code/types"
+
 import { ApiHandlerOptions } from "../../../shared/api" // Adjust path if needed
 import { EmbedderProvider } from "./manager"
 
@@ -17,10 +19,13 @@ export interface CodeIndexConfig {
 	vercelAiGatewayOptions?: { apiKey: string }
 	bedrockOptions?: { region: string; profile?: string }
 	openRouterOptions?: { apiKey: string; specificProvider?: string }
+	vectorStoreProvider: CodebaseIndexVectorStoreProvider
 	qdrantUrl?: string
 	qdrantApiKey?: string
 	searchMinScore?: number
 	searchMaxResults?: number
+	searchMode?: CodebaseIndexSearchMode
+	searchRerank?: boolean
 }
 
 /**
@@ -43,6 +48,8 @@ export type PreviousConfigSnapshot = {
 	bedrockProfile?: string
 	openRouterApiKey?: string
 	openRouterSpecificProvider?: string
+	vectorStoreProvider?: CodebaseIndexVectorStoreProvider
 	qdrantUrl?: string
 	qdrantApiKey?: string
+	searchMode?: CodebaseIndexSearchMode
 }
@@ -0,0 +1,58 @@
+/**
+ * A symbol defined in a file, as captured by the tree-sitter definition queries
+ */
+export interface SymbolDefinition {
+	name: string
+	/** Definition kind from the query capture, e.g. "function", "class" or "method" */
+	kind: string
+	line: number
+	endLine: number
+}
+
+/**
+ * A call site of a function or method
+ */
+export interface SymbolCall {
+	/** Name of the called function or method, without its receiver */
+	callee: string
+	/** Innermost named definition containing the call, or null at the top level */
+	caller: string | null
+	line: number
+}
+
+/**
+ * An import, include or use statement
+ */
+export interface SymbolImport {
+	/** Module specifier as written in the source, without quotes */
+	specifier: string
+	line: number
+}
+
+/**
+ * Symbols extracted from a single file
+ */
+export interface FileSymbols {
+	definitions: SymbolDefinition[]
+	/** Lines on which each identifier is used, not counting the names of its definitions */
+	references: Record<string, number[]>
+	calls: SymbolCall[]
+	imports: SymbolImport[]
+}
+
+/**
+ * A location in a workspace-relative file
+ */
+export interface SymbolLocation {
+	filePath: string
+	line: number
+}
+
+/**
+ * Imports of a file and the files that import it
+ */
+export interface ImportGraph {
+	filePath: string
+	imports: Array<SymbolImport & { resolvedPath?: string }>
+	importedBy: Array<SymbolLocation & { specifier: string }>
+}
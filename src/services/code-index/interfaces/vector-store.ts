@@ -1,3 +1,5 @@
+import type { CodebaseSearchMatchReason } from "@roo-code/types"
+
 /**
  * Interface for vector database clients
  */
@@ -86,6 +88,10 @@ export interface VectorStoreSearchResult {
 	id: string | number
 	score: number
 	payload?: Payload | null
+	/** Set by hybrid search: why this hit was returned */
+	matchReasons?: CodebaseSearchMatchReason[]
+	/** Set by hybrid search: query terms found in the chunk */
+	matchedTerms?: string[]
 }
 
 export interface Payload {
@@ -0,0 +1,318 @@
+import { createHash } from "crypto"
+import * as fs from "fs/promises"
+import * as path from "path"
+import debounce from "lodash.debounce"
+import { TelemetryService } from "@roo-code/telemetry"
+import { TelemetryEventName } from "@roo-code/types"
+
+import { Payload, PointStruct } from "./interfaces"
+import { BM25_B, BM25_K1 } from "./constants"
+import { matchesDirectoryPrefix, toPathSegments } from "./shared/directory-prefix"
+import { safeWriteJson } from "../../utils/safeWriteJson"
+
+interface KeywordDocument {
+	payload: Payload
+	/** Distinct terms of the chunk, used to unlink it from the postings */
+	terms: string[]
+	length: number
+}
+
+export interface KeywordSearchResult {
+	id: string
+	score: number
+	payload: Payload
+	/** Query terms that occur in the chunk */
+	matchedTerms: string[]
+}
+
+/** Chunks are added with the id and payload of their vector store point */
+export type KeywordPoint = Pick<PointStruct, "id" | "payload">
+
+interface KeywordIndexFile {
+	version: number
+	files: string[]
+	documents: Array<{ id: string; payload: Payload }>
+}
+
+const KEYWORD_INDEX_VERSION = 1
+
+/**
+ * Splits code into lowercase search terms. Identifiers are kept whole, so an
+ * exact name scores highest, and are also split on camelCase and snake_case
+ * boundaries so that their parts match too.
+ */
+export function tokenize(text: string): string[] {
+	const terms: string[] = []
+
+	for (const word of text.match(/[A-Za-z0-9_$]+/g) ?? []) {
+		terms.push(word.toLowerCase())
+
+		const parts = word.split(/[_$]|(?<=[a-z0-9])(?=[A-Z])|(?<=[A-Z])(?=[A-Z][a-z])/).filter((p) => p.length > 1)
+
+		if (parts.length > 1) {
+			terms.push(...parts.map((part) => part.toLowerCase()))
+		}
+	}
+
+	return terms
+}
+
+/**
+ * BM25 keyword index over the indexed code chunks of a workspace.
+ *
+ * It is kept in sync with the vector store by the directory scanner and the
+ * file watcher, and persisted next to the index cache in global storage.
+ */
+export class KeywordIndex {
+	private readonly indexPath: string
+	private documents = new Map<string, KeywordDocument>()
+	private postings = new Map<string, Map<string, number>>()
+	/** Document ids per workspace-relative file path (posix separators) */
+	private files = new Map<string, Set<string>>()
+	private totalLength = 0
+	private readonly debouncedSave: ReturnType<typeof debounce>
+
+	/**
+	 * @param workspacePath Path to the workspace
+	 * @param storagePath Directory the index file is stored in (global storage)
+	 */
+	constructor(
+		private readonly workspacePath: string,
+		storagePath: string,
+	) {
+		this.indexPath = path.join(
+			storagePath,
+			`roo-index-keywords-${createHash("sha256").update(workspacePath).digest("hex")}.json`,
+		)
+		this.debouncedSave = debounce(() => void this.save(), 1500)
+	}
+
+	/**
+	 * Loads the index from disk. A missing or unreadable file starts an empty
+	 * index, which the next scan fills in.
+	 */
+	async initialize(): Promise<void> {
+		this.reset()
+
+		let data: KeywordIndexFile
+		try {
+			data = JSON.parse(await fs.readFile(this.indexPath, "utf-8"))
+		} catch {
+			return
+		}
+
+		if (data.version !== KEYWORD_INDEX_VERSION) {
+			return
+		}
+
+		for (const filePath of data.files) {
+			this.files.set(filePath, new Set())
+		}
+		for (const { id, payload } of data.documents) {
+			this.addDocument(id, payload)
+		}
+	}
+
+	/**
+	 * Number of indexed chunks.
+	 */
+	get size(): number {
+		return this.documents.size
+	}
+
+	/**
+	 * Checks whether a file has been added to the index, even if it produced no chunks.
+	 * @param filePath Absolute or workspace-relative path
+	 */
+	hasFile(filePath: string): boolean {
+		return this.files.has(this.toFileKey(filePath))
+	}
+
+	/**
+	 * Adds or replaces chunks, using the same points that are upserted to the vector store.
+	 */
+	upsertPoints(points: KeywordPoint[]): void {
+		for (const { id, payload } of points) {
+			this.removeDocument(id)
+			this.addDocument(id, payload as Payload)
+		}
+		this.debouncedSave()
+	}
+
+	/**
+	 * Replaces all chunks of a file.
+	 * @param filePath Absolute or workspace-relative path
+	 * @param points The file's chunks, possibly none
+	 */
+	setFilePoints(filePath: string, points: KeywordPoint[]): void {
+		this.deleteFiles([filePath])
+		this.files.set(this.toFileKey(filePath), new Set())
+		this.upsertPoints(points)
+	}
+
+	/**
+	 * Removes all chunks of the given files.
+	 * @param filePaths Absolute or workspace-relative paths
+	 */
+	deleteFiles(filePaths: string[]): void {
+		for (const filePath of filePaths) {
+			const key = this.toFileKey(filePath)
+			for (const id of this.files.get(key) ?? []) {
+				this.removeDocument(id)
+			}
+			this.files.delete(key)
+		}
+		this.debouncedSave()
+	}
+
+	/**
+	 * Removes every file that is not in the given list, e.g. files deleted while
+	 * the extension was not running.
+	 * @param filePaths Absolute or workspace-relative paths of the files to keep
+	 */
+	retainFiles(filePaths: Iterable<string>): void {
+		const keep = new Set([...filePaths].map((filePath) => this.toFileKey(filePath)))
+		this.deleteFiles([...this.files.keys()].filter((key) => !keep.has(key)))
+	}
+
+	/**
+	 * Scores chunks against a query with BM25.
+	 * @param query Free-text query
+	 * @param directoryPrefix Optional directory to restrict results to
+	 * @param maxResults Maximum number of results
+	 * @returns Matching chunks, best first
+	 */
+	search(query: string, directoryPrefix: string | undefined, maxResults: number): KeywordSearchResult[] {
+		const queryTerms = [...new Set(tokenize(query))]
+		const documentCount = this.documents.size
+
+		if (queryTerms.length === 0 || documentCount === 0) {
+			return []
+		}
+
+		const averageLength = this.totalLength / documentCount
+		const scores = new Map<string, { score: number; matchedTerms: string[] }>()
+
+		for (const term of queryTerms) {
+			const termPostings = this.postings.get(term)
+			if (!termPostings) {
+				continue
+			}
+
+			const idf = Math.log(1 + (documentCount - termPostings.size + 0.5) / (termPostings.size + 0.5))
+
+			for (const [id, frequency] of termPostings) {
+				const document = this.documents.get(id)!
+				const lengthNorm = 1 - BM25_B + (BM25_B * document.length) / averageLength
+				const termScore = (idf * frequency * (BM25_K1 + 1)) / (frequency + BM25_K1 * lengthNorm)
+
+				const entry = scores.get(id) ?? { score: 0, matchedTerms: [] }
+				entry.score += termScore
+				entry.matchedTerms.push(term)
+				scores.set(id, entry)
+			}
+		}
+
+		const results: KeywordSearchResult[] = []
+
+		for (const [id, { score, matchedTerms }] of scores) {
+			const { payload } = this.documents.get(id)!
+			if (matchesDirectoryPrefix(payload.filePath, directoryPrefix)) {
+				results.push({ id, score, payload, matchedTerms })
+			}
+		}
+
+		return results.sort((a, b) => b.score - a.score).slice(0, maxResults)
+	}
+
+	/**
+	 * Removes all chunks and deletes the index file.
+	 */
+	async clear(): Promise<void> {
+		this.debouncedSave.cancel()
+		this.reset()
+		await fs.rm(this.indexPath, { force: true })
+	}
+
+	/**
+	 * Writes any pending changes to disk.
+	 */
+	async flush(): Promise<void> {
+		this.debouncedSave.cancel()
+		await this.save()
+	}
+
+	private reset(): void {
+		this.documents.clear()
+		this.postings.clear()
+		this.files.clear()
+		this.totalLength = 0
+	}
+
+	private addDocument(id: string, payload: Payload): void {
+		const tokens = tokenize(payload.codeChunk)
+		const frequencies = new Map<string, number>()
+
+		for (const token of tokens) {
+			frequencies.set(token, (frequencies.get(token) ?? 0) + 1)
+		}
+
+		for (const [term, frequency] of frequencies) {
+			let termPostings = this.postings.get(term)
+			if (!termPostings) {
+				termPostings = new Map()
+				this.postings.set(term, termPostings)
+			}
+			termPostings.set(id, frequency)
+		}
+
+		this.documents.set(id, { payload, terms: [...frequencies.keys()], length: tokens.length })
+		this.totalLength += tokens.length
+
+		const key = this.toFileKey(payload.filePath)
+		const fileIds = this.files.get(key) ?? new Set()
+		fileIds.add(id)
+		this.files.set(key, fileIds)
+	}
+
+	private removeDocument(id: string): void {
+		const document = this.documents.get(id)
+		if (!document) {
+			return
+		}
+
+		for (const term of document.terms) {
+			const termPostings = this.postings.get(term)
+			termPostings?.delete(id)
+			if (termPostings?.size === 0) {
+				this.postings.delete(term)
+			}
+		}
+
+		this.files.get(this.toFileKey(document.payload.filePath))?.delete(id)
+		this.documents.delete(id)
+		this.totalLength -= document.length
+	}
+
+	private toFileKey(filePath: string): string {
+		const relativePath = path.isAbsolute(filePath) ? path.relative(this.workspacePath, filePath) : filePath
+		return toPathSegments(relativePath).join("/")
+	}
+
+	private async save(): Promise<void> {
+		try {
+			await safeWriteJson(this.indexPath, {
+				version: KEYWORD_INDEX_VERSION,
+				files: [...this.files.keys()],
+				documents: [...this.documents].map(([id, { payload }]) => ({ id, payload })),
+			} satisfies KeywordIndexFile)
+		} catch (error) {
+			console.error("[KeywordIndex] Failed to save keyword index:", error)
+			TelemetryService.instance.captureEvent(TelemetryEventName.CODE_INDEX_ERROR, {
+				error: error instanceof Error ? error.message : String(error),
+				stack: error instanceof Error ? error.stack : undefined,
+				location: "KeywordIndex.save",
+			})
+		}
+	}
+}
@@ -8,6 +8,8 @@ import { CodeIndexServiceFactory } from "./service-factory"
 import { CodeIndexSearchService } from "./search-service"
 import { CodeIndexOrchestrator } from "./orchestrator"
 import { CacheManager } from "./cache-manager"
+import { KeywordIndex } from "./keyword-index"
+import { SymbolGraph } from "./symbol-graph"
 import { RooIgnoreController } from "../../core/ignore/RooIgnoreController"
 import fs from "fs/promises"
 import ignore from "ignore"
@@ -27,6 +29,8 @@ export class CodeIndexManager {
 	private _orchestrator: CodeIndexOrchestrator | undefined
 	private _searchService: CodeIndexSearchService | undefined
 	private _cacheManager: CacheManager | undefined
+	private _keywordIndex: KeywordIndex | undefined
+	private _symbolGraph: SymbolGraph | undefined
 
 	// Flag to prevent race conditions during error recovery
 	private _isRecoveringFromError = false
@@ -264,6 +268,8 @@ export class CodeIndexManager {
 		this.assertInitialized()
 		await this._orchestrator!.clearIndexData()
 		await this._cacheManager!.clearCacheFile()
+		await this._keywordIndex?.clear()
+		await this._symbolGraph?.clear()
 	}
 
 	// --- Private Helpers ---
@@ -284,6 +290,14 @@ export class CodeIndexManager {
 		return this._searchService!.searchIndex(query, directoryPrefix)
 	}
 
+	/**
+	 * Graph of definitions, references, calls and imports, built alongside the index.
+	 * Undefined until the services are created or when indexing is disabled.
+	 */
+	public get symbolGraph(): SymbolGraph | undefined {
+		return this.isFeatureEnabled ? this._symbolGraph : undefined
+	}
+
 	/**
 	 * Private helper method to recreate services with current configuration.
 	 * Used by both initialize() and handleSettingsChange().
@@ -302,6 +316,7 @@ export class CodeIndexManager {
 			this._configManager!,
 			this.workspacePath,
 			this._cacheManager!,
+			this.context.globalStorageUri.fsPath,
 		)
 
 		const ignoreInstance = ignore()
@@ -332,12 +347,24 @@ export class CodeIndexManager {
 		const rooIgnoreController = new RooIgnoreController(workspacePath)
 		await rooIgnoreController.initialize()
 
+		// Hybrid search keeps a keyword index alongside the vector store
+		this._keywordIndex = undefined
+		if (this._configManager!.currentSearchMode === "hybrid") {
+			this._keywordIndex = new KeywordIndex(this.workspacePath, this.context.globalStorageUri.fsPath)
+			await this._keywordIndex.initialize()
+		}
+
+		this._symbolGraph = new SymbolGraph(this.workspacePath, this.context.globalStorageUri.fsPath)
+		await this._symbolGraph.initialize()
+
 		// (Re)Create shared service instances
 		const { embedder, vectorStore, scanner, fileWatcher } = this._serviceFactory.createServices(
 			this.context,
 			this._cacheManager!,
 			ignoreInstance,
 			rooIgnoreController,
+			this._keywordIndex,
+			this._symbolGraph,
 		)
 
 		// Validate embedder configuration before proceeding
@@ -365,6 +392,7 @@ export class CodeIndexManager {
 			this._stateManager,
 			embedder,
 			vectorStore,
+			this._keywordIndex,
 		)
 
 		// Clear any error state after successful recreation
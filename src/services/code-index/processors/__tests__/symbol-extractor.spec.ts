@@ -0,0 +1,126 @@
+import * as path from "path"
+import { Language, Parser, Query } from "web-tree-sitter"
+
+import { pythonQuery, typescriptQuery } from "../../../tree-sitter/queries"
+import { extractSymbols } from "../symbol-extractor"
+
+async function extract(wasmFile: string, queryString: string, content: string) {
+	await Parser.init()
+	const language = await Language.load(path.join(process.cwd(), "dist", wasmFile))
+	const parser = new Parser()
+	parser.setLanguage(language)
+	const tree = parser.parse(content)!
+	const query = new Query(language, queryString)
+	try {
+		return extractSymbols(tree.rootNode, query.captures(tree.rootNode))
+	} finally {
+		tree.delete()
+		parser.delete()
+	}
+}
+
+describe("extractSymbols", () => {
+	describe("TypeScript", () => {
+		const content = [
+			'import { readFile } from "fs/promises"',
+			'import { Store } from "./store.js"',
+			'export { formatDate } from "./dates"',
+			"",
+			"export async function loadConfig(filePath: string) {",
+			"	const raw = await readFile(filePath)",
+			"	return parseConfig(raw)",
+			"}",
+			"",
+			"class Settings {",
+			"	save(store: Store) {",
+			"		store.write(this)",
+			"	}",
+			"}",
+			"",
+			"loadConfig(\"settings.json\")",
+			'const lazy = () => import("./lazy")',
+		].join("\n")
+
+		it("collects definitions with their kind and line range", async () => {
+			const symbols = await extract("tree-sitter-typescript.wasm", typescriptQuery, content)
+
+			expect(symbols.definitions).toEqual(
+				expect.arrayContaining([
+					expect.objectContaining({ name: "loadConfig", line: 5, endLine: 8 }),
+					expect.objectContaining({ name: "Settings", kind: "class", line: 10, endLine: 14 }),
+					expect.objectContaining({ name: "save", kind: "method", line: 11, endLine: 13 }),
+				]),
+			)
+		})
+
+		it("collects references without the definition names", async () => {
+			const symbols = await extract("tree-sitter-typescript.wasm", typescriptQuery, content)
+
+			expect(symbols.references.loadConfig).toEqual([16])
+			expect(symbols.references.readFile).toEqual([1, 6])
+			expect(symbols.references.Store).toEqual([2, 11])
+		})
+
+		it("collects calls with the enclosing definition", async () => {
+			const symbols = await extract("tree-sitter-typescript.wasm", typescriptQuery, content)
+
+			expect(symbols.calls).toEqual(
+				expect.arrayContaining([
+					{ callee: "readFile", caller: "loadConfig", line: 6 },
+					{ callee: "parseConfig", caller: "loadConfig", line: 7 },
+					{ callee: "write", caller: "save", line: 12 },
+					{ callee: "loadConfig", caller: null, line: 16 },
+				]),
+			)
+		})
+
+		it("collects static, re-exported and dynamic imports", async () => {
+			const symbols = await extract("tree-sitter-typescript.wasm", typescriptQuery, content)
+
+			expect(symbols.imports).toEqual([
+				{ specifier: "fs/promises", line: 1 },
+				{ specifier: "./store.js", line: 2 },
+				{ specifier: "./dates", line: 3 },
+				{ specifier: "./lazy", line: 17 },
+			])
+		})
+	})
+
+	describe("Python", () => {
+		const content = [
+			"import os.path",
+			"from .models import User",
+			"",
+			"class UserService:",
+			"    def load(self, user_id):",
+			"        return User.get(user_id)",
+			"",
+			"def main():",
+			"    UserService().load(os.path.basename('1'))",
+		].join("\n")
+
+		it("collects definitions, calls and imports", async () => {
+			const symbols = await extract("tree-sitter-python.wasm", pythonQuery, content)
+
+			expect(symbols.definitions.map(({ name, line }) => ({ name, line }))).toEqual(
+				expect.arrayContaining([
+					{ name: "UserService", line: 4 },
+					{ name: "load", line: 5 },
+					{ name: "main", line: 8 },
+				]),
+			)
+			expect(symbols.calls).toEqual(
+				expect.arrayContaining([
+					{ callee: "get", caller: "load", line: 6 },
+					{ callee: "UserService", caller: "main", line: 9 },
+					{ callee: "load", caller: "main", line: 9 },
+				]),
+			)
+			expect(symbols.imports).toEqual([
+				{ specifier: "os.path", line: 1 },
+				{ specifier: ".models", line: 2 },
+			])
+			expect(symbols.references.User).toEqual([2, 6])
+		})
+	})
+})
@@ -21,6 +21,8 @@ import {
 } from "../interfaces"
 import { codeParser } from "./parser"
 import { CacheManager } from "../cache-manager"
+import { KeywordIndex } from "../keyword-index"
+import { SymbolGraph } from "../symbol-graph"
 import { generateNormalizedAbsolutePath, generateRelativeFilePath } from "../shared/get-relative-path"
 import { isPathInIgnoredDirectory } from "../../glob/ignore-utils"
 import { TelemetryService } from "@roo-code/telemetry"
@@ -71,6 +73,8 @@ export class FileWatcher implements IFileWatcher {
 	 * @param embedder Optional embedder
 	 * @param vectorStore Optional vector store
 	 * @param cacheManager Cache manager
+	 * @param keywordIndex Optional keyword index, kept in sync with the vector store for hybrid search
+	 * @param symbolGraph Optional symbol graph, updated as files change
 	 */
 	constructor(
 		private workspacePath: string,
@@ -81,6 +85,8 @@ export class FileWatcher implements IFileWatcher {
 		ignoreInstance?: Ignore,
 		ignoreController?: RooIgnoreController,
 		batchSegmentThreshold?: number,
+		private readonly keywordIndex?: KeywordIndex,
+		private readonly symbolGraph?: SymbolGraph,
 	) {
 		this.ignoreController = ignoreController || new RooIgnoreController(workspacePath)
 		if (ignoreInstance) {
@@ -207,9 +213,13 @@ export class FileWatcher implements IFileWatcher {
 			}
 		}
 
+		// Changed files are re-extracted when they are processed
+		this.symbolGraph?.deleteFiles(pathsToExplicitlyDelete)
+
 		if (allPathsToClearFromDB.size > 0 && this.vectorStore) {
 			try {
 				await this.vectorStore.deletePointsByMultipleFilePaths(Array.from(allPathsToClearFromDB))
+				this.keywordIndex?.deleteFiles(Array.from(allPathsToClearFromDB))
 
 				for (const path of pathsToExplicitlyDelete) {
 					this.cacheManager.deleteHash(path)
@@ -366,6 +376,7 @@ export class FileWatcher implements IFileWatcher {
 					while (retryCount < MAX_BATCH_RETRIES) {
 						try {
 							await this.vectorStore.upsertPoints(batch)
+							this.keywordIndex?.upsertPoints(batch)
 							break
 						} catch (error) {
 							upsertError = error as Error
@@ -561,6 +572,7 @@ export class FileWatcher implements IFileWatcher {
 
 			// Parse file
 			const blocks = await codeParser.parseFile(filePath, { content, fileHash: newHash })
+			await this.symbolGraph?.updateFile(filePath, content)
 
 			// Prepare points for batch processing
 			let pointsToUpsert: PointStruct[] = []
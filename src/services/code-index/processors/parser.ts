@@ -4,7 +4,8 @@ import * as path from "path"
 import { Node } from "web-tree-sitter"
 import { LanguageParser, loadRequiredLanguageParsers } from "../../tree-sitter/languageParser"
 import { parseMarkdown } from "../../tree-sitter/markdownParser"
-import { ICodeParser, CodeBlock } from "../interfaces"
+import { ICodeParser, CodeBlock, FileSymbols } from "../interfaces"
+import { extractSymbols } from "./symbol-extractor"
 import { scannerExtensions, shouldUseFallbackChunking } from "../shared/supported-extensions"
 import { MAX_BLOCK_CHARS, MIN_BLOCK_CHARS, MIN_CHUNK_REMAINDER_CHARS, MAX_CHARS_TOLERANCE_FACTOR } from "../constants"
 import { TelemetryService } from "@roo-code/telemetry"
@@ -67,6 +68,34 @@ export class CodeParser implements ICodeParser {
 		return this.parseContent(filePath, content, fileHash)
 	}
 
+	/**
+	 * Extracts the definitions, references, calls and imports of a file for the symbol graph.
+	 * Files without a tree-sitter grammar, such as markdown, have no symbols.
+	 * @param filePath Path to the file
+	 * @param content File content
+	 * @returns The file's symbols
+	 */
+	async parseSymbols(filePath: string, content: string): Promise<FileSymbols> {
+		const ext = path.extname(filePath).toLowerCase()
+		const empty: FileSymbols = { definitions: [], references: {}, calls: [], imports: [] }
+
+		if (!this.isSupportedLanguage(ext) || ext === ".md" || ext === ".markdown" || shouldUseFallbackChunking(ext)) {
+			return empty
+		}
+
+		const language = await this.loadLanguageParser(filePath, ext.slice(1))
+		const tree = language?.parser.parse(content)
+		if (!language || !tree) {
+			return empty
+		}
+
+		try {
+			return extractSymbols(tree.rootNode, language.query.captures(tree.rootNode))
+		} finally {
+			tree.delete()
+		}
+	}
+
 	/**
 	 * Checks if a language is supported
 	 * @param extension File extension
@@ -106,46 +135,8 @@ export class CodeParser implements ICodeParser {
 			return this._performFallbackChunking(filePath, content, fileHash, seenSegmentHashes)
 		}
 
-		// Check if we already have the parser loaded
-		if (!this.loadedParsers[ext]) {
-			const pendingLoad = this.pendingLoads.get(ext)
-			if (pendingLoad) {
-				try {
-					await pendingLoad
-				} catch (error) {
-					console.error(`Error in pending parser load for ${filePath}:`, error)
-					TelemetryService.instance.captureEvent(TelemetryEventName.CODE_INDEX_ERROR, {
-						error: sanitizeErrorMessage(error instanceof Error ? error.message : String(error)),
-						stack: error instanceof Error ? sanitizeErrorMessage(error.stack || "") : undefined,
-						location: "parseContent:loadParser",
-					})
-					return []
-				}
-			} else {
-				const loadPromise = loadRequiredLanguageParsers([filePath])
-				this.pendingLoads.set(ext, loadPromise)
-				try {
-					const newParsers = await loadPromise
-					if (newParsers) {
-						this.loadedParsers = { ...this.loadedParsers, ...newParsers }
-					}
-				} catch (error) {
-					console.error(`Error loading language parser for ${filePath}:`, error)
-					TelemetryService.instance.captureEvent(TelemetryEventName.CODE_INDEX_ERROR, {
-						error: sanitizeErrorMessage(error instanceof Error ? error.message : String(error)),
-						stack: error instanceof Error ? sanitizeErrorMessage(error.stack || "") : undefined,
-						location: "parseContent:loadParser",
-					})
-					return []
-				} finally {
-					this.pendingLoads.delete(ext)
-				}
-			}
-		}
-
-		const language = this.loadedParsers[ext]
+		const language = await this.loadLanguageParser(filePath, ext)
 		if (!language) {
-			console.warn(`No parser available for file extension: ${ext}`)
 			return []
 		}
 
@@ -229,6 +220,58 @@ export class CodeParser implements ICodeParser {
 		return results
 	}
 
+	/**
+	 * Loads the tree-sitter parser for a file extension once and reuses it for later files
+	 * @param filePath Path of the file that needs the parser
+	 * @param ext File extension without the dot
+	 * @returns The language parser, or undefined if it could not be loaded
+	 */
+	private async loadLanguageParser(filePath: string, ext: string): Promise<LanguageParser[string] | undefined> {
+		// Check if we already have the parser loaded
+		if (!this.loadedParsers[ext]) {
+			const pendingLoad = this.pendingLoads.get(ext)
+			if (pendingLoad) {
+				try {
+					await pendingLoad
+				} catch (error) {
+					console.error(`Error in pending parser load for ${filePath}:`, error)
+					TelemetryService.instance.captureEvent(TelemetryEventName.CODE_INDEX_ERROR, {
+						error: sanitizeErrorMessage(error instanceof Error ? error.message : String(error)),
+						stack: error instanceof Error ? sanitizeErrorMessage(error.stack || "") : undefined,
+						location: "parseContent:loadParser",
+					})
+					return undefined
+				}
+			} else {
+				const loadPromise = loadRequiredLanguageParsers([filePath])
+				this.pendingLoads.set(ext, loadPromise)
+				try {
+					const newParsers = await loadPromise
+					if (newParsers) {
+						this.loadedParsers = { ...this.loadedParsers, ...newParsers }
+					}
+				} catch (error) {
+					console.error(`Error loading language parser for ${filePath}:`, error)
+					TelemetryService.instance.captureEvent(TelemetryEventName.CODE_INDEX_ERROR, {
+						error: sanitizeErrorMessage(error instanceof Error ? error.message : String(error)),
+						stack: error instanceof Error ? sanitizeErrorMessage(error.stack || "") : undefined,
+						location: "parseContent:loadParser",
+					})
+					return undefined
+				} finally {
+					this.pendingLoads.delete(ext)
+				}
+			}
+		}
+
+		const language = this.loadedParsers[ext]
+		if (!language) {
+			console.warn(`No parser available for file extension: ${ext}`)
+			return undefined
+		}
+		return language
+	}
+
 	/**
 	 * Common helper function to chunk text by lines, avoiding tiny remainders.
 	 */
@@ -13,6 +13,8 @@ import { v5 as uuidv5 } from "uuid"
 import pLimit from "p-limit"
 import { Mutex } from "async-mutex"
 import { CacheManager } from "../cache-manager"
+import { KeywordIndex, KeywordPoint } from "../keyword-index"
+import { SymbolGraph } from "../symbol-graph"
 import { t } from "../../../i18n"
 import {
 	QDRANT_CODE_BLOCK_NAMESPACE,
@@ -41,6 +43,8 @@ export class DirectoryScanner implements IDirectoryScanner {
 		private readonly cacheManager: CacheManager,
 		private readonly ignoreInstance: Ignore,
 		batchSegmentThreshold?: number,
+		private readonly keywordIndex?: KeywordIndex,
+		private readonly symbolGraph?: SymbolGraph,
 	) {
 		// Get the configurable batch size from VSCode settings, fallback to default
 		// If not provided in constructor, try to get from VSCode settings
@@ -150,6 +154,22 @@ export class DirectoryScanner implements IDirectoryScanner {
 					if (cachedFileHash === currentFileHash) {
 						// File is unchanged
 						skippedCount++
+
+						// Index built before hybrid search was enabled: add the chunks without re-embedding them
+						if (this.keywordIndex && !this.keywordIndex.hasFile(filePath)) {
+							const blocks = await this.codeParser.parseFile(filePath, {
+								content,
+								fileHash: currentFileHash,
+							})
+							this.keywordIndex.setFilePoints(
+								filePath,
+								blocks.map((block) => this.createKeywordPoint(block, scanWorkspace)),
+							)
+						}
+						// Likewise for a symbol graph that was deleted or has not been built yet
+						if (this.symbolGraph && !this.symbolGraph.hasFile(filePath)) {
+							await this.symbolGraph.updateFile(filePath, content)
+						}
 						return
 					}
 
@@ -157,6 +177,10 @@ export class DirectoryScanner implements IDirectoryScanner {
 					const blocks = await this.codeParser.parseFile(filePath, { content, fileHash: currentFileHash })
 					const fileBlockCount = blocks.length
 					onFileParsed?.(fileBlockCount)
+
+					// Drop the file's old keyword chunks; the new ones are added as their batches are upserted
+					this.keywordIndex?.setFilePoints(filePath, [])
+					await this.symbolGraph?.updateFile(filePath, content)
 					processedCount++
 
 					// Process embeddings if configured
@@ -300,6 +324,8 @@ export class DirectoryScanner implements IDirectoryScanner {
 				if (this.qdrantClient) {
 					try {
 						await this.qdrantClient.deletePointsByFilePath(cachedFilePath)
+						this.keywordIndex?.deleteFiles([cachedFilePath])
+						this.symbolGraph?.deleteFiles([cachedFilePath])
 						await this.cacheManager.deleteHash(cachedFilePath)
 					} catch (error: any) {
 						const errorStatus = error?.status || error?.response?.status || error?.statusCode
@@ -338,6 +364,17 @@ export class DirectoryScanner implements IDirectoryScanner {
 			}
 		}
 
+		if (this.keywordIndex) {
+			// Also drops files the keyword index has but the hash cache no longer tracks
+			this.keywordIndex.retainFiles(processedFiles)
+			await this.keywordIndex.flush()
+		}
+
+		if (this.symbolGraph) {
+			this.symbolGraph.retainFiles(processedFiles)
+			await this.symbolGraph.flush()
+		}
+
 		return {
 			stats: {
 				processed: processedCount,
@@ -347,6 +384,21 @@ export class DirectoryScanner implements IDirectoryScanner {
 		}
 	}
 
+	private createKeywordPoint(block: CodeBlock, scanWorkspace: string): KeywordPoint {
+		const normalizedAbsolutePath = generateNormalizedAbsolutePath(block.file_path, scanWorkspace)
+
+		return {
+			id: uuidv5(block.segmentHash, QDRANT_CODE_BLOCK_NAMESPACE),
+			payload: {
+				filePath: generateRelativeFilePath(normalizedAbsolutePath, scanWorkspace),
+				codeChunk: block.content,
+				startLine: block.start_line,
+				endLine: block.end_line,
+				segmentHash: block.segmentHash,
+			},
+		}
+	}
+
 	private async processBatch(
 		batchBlocks: CodeBlock[],
 		batchTexts: string[],
@@ -409,27 +461,15 @@ export class DirectoryScanner implements IDirectoryScanner {
 				const { embeddings } = await this.embedder.createEmbeddings(batchTexts)
 
 				// Prepare points for Qdrant
-				const points = batchBlocks.map((block, index) => {
-					const normalizedAbsolutePath = generateNormalizedAbsolutePath(block.file_path, scanWorkspace)
-
-					// Use segmentHash for unique ID generation to handle multiple segments from same line
-					const pointId = uuidv5(block.segmentHash, QDRANT_CODE_BLOCK_NAMESPACE)
-
-					return {
-						id: pointId,
-						vector: embeddings[index],
-						payload: {
-							filePath: generateRelativeFilePath(normalizedAbsolutePath, scanWorkspace),
-							codeChunk: block.content,
-							startLine: block.start_line,
-							endLine: block.end_line,
-							segmentHash: block.segmentHash,
-						},
-					}
-				})
+				// Use segmentHash for unique ID generation to handle multiple segments from same line
+				const points = batchBlocks.map((block, index) => ({
+					...this.createKeywordPoint(block, scanWorkspace),
+					vector: embeddings[index],
+				}))
 
 				// Upsert points to Qdrant
 				await this.qdrantClient.upsertPoints(points)
+				this.keywordIndex?.upsertPoints(points)
 				onBlocksIndexed?.(batchBlocks.length)
 
 				// Update hashes for successfully processed files in this batch
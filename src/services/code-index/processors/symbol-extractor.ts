@@ -0,0 +1,255 @@
+import { Node, QueryCapture } from "web-tree-sitter"
+import { FileSymbols, SymbolCall, SymbolDefinition, SymbolImport } from "../interfaces"
+
+/** Call nodes across the supported grammars */
+const CALL_NODE_TYPES = new Set([
+	"call_expression", // JS/TS, Go, Rust, C/C++, Swift, Kotlin
+	"call", // Python, Ruby, Elixir
+	"method_invocation", // Java
+	"invocation_expression", // C#
+	"function_call_expression", // PHP
+	"member_call_expression", // PHP
+	"scoped_call_expression", // PHP
+	"function_call", // Lua
+])
+
+/** Fields that hold the called function, in order of preference */
+const CALLEE_FIELDS = ["function", "method", "name"]
+
+/** Fields that hold the member name of a member access, e.g. `bar` in `foo.bar` */
+const MEMBER_FIELDS = ["property", "field", "attribute", "name"]
+
+const IDENTIFIER_PATTERN = /^[A-Za-z_$][\w$]*$/
+
+/**
+ * Extracts definitions, references, calls and imports from a parsed file.
+ *
+ * Definitions come from the language's tree-sitter definition query; the other
+ * symbols are collected by walking the syntax tree, using node types that are
+ * shared across the grammars.
+ *
+ * @param rootNode Root node of the parsed file
+ * @param captures Captures of the language's definition query on the root node
+ * @returns The file's symbols, with 1-based line numbers
+ */
+export function extractSymbols(rootNode: Node, captures: QueryCapture[]): FileSymbols {
+	const { definitions, definitionNodes, nameNodeIds } = collectDefinitions(captures)
+
+	const references: Record<string, Set<number>> = Object.create(null)
+	const calls: SymbolCall[] = []
+	const imports: SymbolImport[] = []
+
+	const cursor = rootNode.walk()
+	let done = false
+
+	while (!done) {
+		const node = cursor.currentNode
+
+		if (isIdentifier(node) && !nameNodeIds.has(node.id) && IDENTIFIER_PATTERN.test(node.text)) {
+			;(references[node.text] ??= new Set()).add(node.startPosition.row + 1)
+		}
+
+		if (CALL_NODE_TYPES.has(node.type)) {
+			const callee = getCalleeName(node)
+			if (callee) {
+				calls.push({
+					callee,
+					caller: findEnclosingDefinition(node, definitionNodes),
+					line: node.startPosition.row + 1,
+				})
+			}
+		}
+
+		for (const specifier of getImportSpecifiers(node)) {
+			imports.push({ specifier, line: node.startPosition.row + 1 })
+		}
+
+		if (cursor.gotoFirstChild() || cursor.gotoNextSibling()) {
+			continue
+		}
+		while (!cursor.gotoNextSibling()) {
+			if (!cursor.gotoParent()) {
+				done = true
+				break
+			}
+		}
+	}
+
+	cursor.delete()
+
+	return {
+		definitions,
+		references: Object.fromEntries(Object.entries(references).map(([name, lines]) => [name, [...lines]])),
+		calls,
+		imports,
+	}
+}
+
+function collectDefinitions(captures: QueryCapture[]) {
+	const definitionCaptures = captures.filter((capture) => capture.name.startsWith("definition."))
+	const definitions: SymbolDefinition[] = []
+	const definitionNodes: Array<{ node: Node; name: string }> = []
+	const nameNodeIds = new Set<number>()
+	const seen = new Set<string>()
+
+	for (const capture of captures) {
+		if (capture.name !== "name" && !capture.name.startsWith("name.definition")) {
+			continue
+		}
+
+		const name = capture.node.text
+		if (!IDENTIFIER_PATTERN.test(name)) {
+			// e.g. the description string of a test case
+			continue
+		}
+
+		// The defined node is the innermost definition capture around the name,
+		// preferring the one of the same pattern, e.g. `@definition.method` for `@name.definition.method`
+		const nameKind = capture.name.split(".").slice(2).join(".")
+		const candidates = definitionCaptures.filter((candidate) => contains(candidate.node, capture.node))
+		const sameKind = candidates.filter((candidate) => candidate.name === `definition.${nameKind}`)
+		let definitionCapture: QueryCapture | undefined
+		for (const candidate of sameKind.length > 0 ? sameKind : candidates) {
+			if (!definitionCapture || contains(definitionCapture.node, candidate.node)) {
+				definitionCapture = candidate
+			}
+		}
+
+		const node = definitionCapture?.node ?? capture.node.parent ?? capture.node
+		const kind = nameKind || definitionCapture?.name.slice("definition.".length) || "definition"
+		const line = capture.node.startPosition.row + 1
+
+		nameNodeIds.add(capture.node.id)
+		definitionNodes.push({ node, name })
+
+		const key = `${name}:${line}`
+		if (!seen.has(key)) {
+			seen.add(key)
+			definitions.push({ name, kind, line, endLine: node.endPosition.row + 1 })
+		}
+	}
+
+	return { definitions, definitionNodes, nameNodeIds }
+}
+
+function contains(outer: Node, inner: Node): boolean {
+	return outer.startIndex <= inner.startIndex && inner.endIndex <= outer.endIndex
+}
+
+function isIdentifier(node: Node): boolean {
+	return node.type.endsWith("identifier") || node.type === "constant" || node.type === "name"
+}
+
+function findEnclosingDefinition(node: Node, definitionNodes: Array<{ node: Node; name: string }>): string | null {
+	let enclosing: { node: Node; name: string } | undefined
+	for (const definition of definitionNodes) {
+		if (contains(definition.node, node) && (!enclosing || contains(enclosing.node, definition.node))) {
+			enclosing = definition
+		}
+	}
+	return enclosing?.name ?? null
+}
+
+function getCalleeName(callNode: Node): string | undefined {
+	let target: Node | null = null
+	for (const field of CALLEE_FIELDS) {
+		target = callNode.childForFieldName(field)
+		if (target) break
+	}
+	target ??= callNode.namedChild(0)
+	if (!target) {
+		return undefined
+	}
+
+	const name = getMemberName(target)
+	return name && IDENTIFIER_PATTERN.test(name) ? name : undefined
+}
+
+/**
+ * Returns the rightmost name of a (possibly qualified) callee, e.g. `save` for
+ * `this.store.save` or `Store::save`.
+ */
+function getMemberName(node: Node): string | undefined {
+	if (isIdentifier(node)) {
+		return node.text
+	}
+
+	for (const field of MEMBER_FIELDS) {
+		const member = node.childForFieldName(field)
+		if (member && isIdentifier(member)) {
+			return member.text
+		}
+	}
+
+	for (let i = node.namedChildCount - 1; i >= 0; i--) {
+		const child = node.namedChild(i)
+		if (child && isIdentifier(child)) {
+			return child.text
+		}
+	}
+
+	return undefined
+}
+
+function getImportSpecifiers(node: Node): string[] {
+	switch (node.type) {
+		case "import_statement": {
+			// JS/TS `import x from "y"`
+			const source = node.childForFieldName("source")
+			if (source) {
+				return [unquote(source.text)]
+			}
+			// Python `import a, b.c as d`
+			return node
+				.childrenForFieldName("name")
+				.flatMap((name) => (name ? [(name.childForFieldName("name") ?? name).text] : []))
+		}
+		case "export_statement": {
+			// JS/TS re-exports: `export { x } from "y"`
+			const source = node.childForFieldName("source")
+			return source ? [unquote(source.text)] : []
+		}
+		case "import_from_statement": // Python
+			return nonEmpty(node.childForFieldName("module_name")?.text)
+		case "call_expression": {
+			// CommonJS `require("x")` and dynamic `import("x")`
+			const callee = node.childForFieldName("function")
+			if (callee?.type !== "import" && !(callee?.type === "identifier" && callee.text === "require")) {
+				return []
+			}
+			const argument = node.childForFieldName("arguments")?.namedChild(0)
+			return argument?.type === "string" ? nonEmpty(unquote(argument.text)) : []
+		}
+		case "call": {
+			// Ruby `require "x"` and `require_relative "x"`
+			const method = node.childForFieldName("method")?.text
+			const argument = node.childForFieldName("arguments")?.namedChild(0)
+			if ((method !== "require" && method !== "require_relative") || !argument) {
+				return []
+			}
+			const specifier = unquote(argument.text)
+			return [method === "require_relative" && !specifier.startsWith(".") ? `./${specifier}` : specifier]
+		}
+		case "import_spec": // Go
+		case "preproc_include": // C/C++
+			return nonEmpty(unquote(node.childForFieldName("path")?.text ?? ""))
+		case "use_declaration": // Rust
+			return nonEmpty(node.childForFieldName("argument")?.text)
+		case "import_declaration": // Java
+		case "using_directive": // C#
+		case "import_header": // Kotlin
+			return nonEmpty(
+				node.namedChildren.find((child) => child && /identifier|qualified_name/.test(child.type))?.text,
+			)
+		default:
+			return []
+	}
+}
+
+function nonEmpty(text: string | undefined): string[] {
+	return text ? [text] : []
+}
+
+function unquote(text: string): string {
+	return text.replace(/^["'`<]|["'`>]$/g, "")
+}
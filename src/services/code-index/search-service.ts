@@ -4,6 +4,8 @@ import { IEmbedder } from "./interfaces/embedder"
 import { IVectorStore } from "./interfaces/vector-store"
 import { CodeIndexConfigManager } from "./config-manager"
 import { CodeIndexStateManager } from "./state-manager"
+import { KeywordIndex } from "./keyword-index"
+import { fuseSearchResults, rerankSearchResults } from "./hybrid-search"
 import { TelemetryService } from "@roo-code/telemetry"
 import { TelemetryEventName } from "@roo-code/types"
 
@@ -16,10 +18,12 @@ export class CodeIndexSearchService {
 		private readonly stateManager: CodeIndexStateManager,
 		private readonly embedder: IEmbedder,
 		private readonly vectorStore: IVectorStore,
+		private readonly keywordIndex?: KeywordIndex,
 	) {}
 
 	/**
-	 * Searches the code index for relevant content.
+	 * Searches the code index for relevant content. In hybrid mode the vector
+	 * hits are fused with keyword hits and, if enabled, reranked.
 	 * @param query The search query
 	 * @param limit Maximum number of results to return
 	 * @param directoryPrefix Optional directory path to filter results by
@@ -56,7 +60,17 @@ export class CodeIndexSearchService {
 
 			// Perform search
 			const results = await this.vectorStore.search(vector, normalizedPrefix, minScore, maxResults)
-			return results
+
+			if (this.configManager.currentSearchMode !== "hybrid" || !this.keywordIndex) {
+				return results
+			}
+
+			const keywordResults = this.keywordIndex.search(query, normalizedPrefix, maxResults)
+			const hybridResults = this.configManager.isSearchRerankEnabled
+				? await rerankSearchResults(query, vector, results, keywordResults, this.embedder)
+				: fuseSearchResults(query, results, keywordResults)
+
+			return hybridResults.slice(0, maxResults)
 		} catch (error) {
 			console.error("[CodeIndexSearchService] Error during search:", error)
 			this.stateManager.setSystemState("Error", `Search failed: ${(error as Error).message}`)
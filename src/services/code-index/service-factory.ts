@@ -21,10 +21,13 @@ import { VercelAiGatewayEmbedder } from "./embedders/vercel-ai-gateway"
 import { BedrockEmbedder } from "./embedders/bedrock"
 import { OpenRouterEmbedder } from "./embedders/openrouter"
 import { QdrantVectorStore } from "./vector-store/qdrant-client"
+import { LocalVectorStore } from "./vector-store/local-vector-store"
 import { codeParser, DirectoryScanner, FileWatcher } from "./processors"
 import { ICodeParser, IEmbedder, IFileWatcher, IVectorStore } from "./interfaces"
 import { CodeIndexConfigManager } from "./config-manager"
 import { CacheManager } from "./cache-manager"
+import { KeywordIndex } from "./keyword-index"
+import { SymbolGraph } from "./symbol-graph"
 import { BATCH_SEGMENT_THRESHOLD } from "./constants"
 
 /**
@@ -35,6 +38,7 @@ export class CodeIndexServiceFactory {
 		private readonly configManager: CodeIndexConfigManager,
 		private readonly workspacePath: string,
 		private readonly cacheManager: CacheManager,
+		private readonly storagePath?: string,
 	) {}
 
 	/**
@@ -165,6 +169,13 @@ export class CodeIndexServiceFactory {
 			}
 		}
 
+		if (config.vectorStoreProvider === "local") {
+			if (!this.storagePath) {
+				throw new Error(t("embeddings:serviceFactory.localStoragePathMissing"))
+			}
+			return new LocalVectorStore(this.workspacePath, this.storagePath, vectorSize)
+		}
+
 		if (!config.qdrantUrl) {
 			throw new Error(t("embeddings:serviceFactory.qdrantUrlMissing"))
 		}
@@ -181,6 +192,8 @@ export class CodeIndexServiceFactory {
 		vectorStore: IVectorStore,
 		parser: ICodeParser,
 		ignoreInstance: Ignore,
+		keywordIndex?: KeywordIndex,
+		symbolGraph?: SymbolGraph,
 	): DirectoryScanner {
 		// Get the configurable batch size from VSCode settings
 		let batchSize: number
@@ -192,7 +205,16 @@ export class CodeIndexServiceFactory {
 			// In test environment, vscode.workspace might not be available
 			batchSize = BATCH_SEGMENT_THRESHOLD
 		}
-		return new DirectoryScanner(embedder, vectorStore, parser, this.cacheManager, ignoreInstance, batchSize)
+		return new DirectoryScanner(
+			embedder,
+			vectorStore,
+			parser,
+			this.cacheManager,
+			ignoreInstance,
+			batchSize,
+			keywordIndex,
+			symbolGraph,
+		)
 	}
 
 	/**
@@ -205,6 +227,8 @@ export class CodeIndexServiceFactory {
 		cacheManager: CacheManager,
 		ignoreInstance: Ignore,
 		rooIgnoreController?: RooIgnoreController,
+		keywordIndex?: KeywordIndex,
+		symbolGraph?: SymbolGraph,
 	): IFileWatcher {
 		// Get the configurable batch size from VSCode settings
 		let batchSize: number
@@ -225,6 +249,8 @@ export class CodeIndexServiceFactory {
 			ignoreInstance,
 			rooIgnoreController,
 			batchSize,
+			keywordIndex,
+			symbolGraph,
 		)
 	}
 
@@ -237,6 +263,8 @@ export class CodeIndexServiceFactory {
 		cacheManager: CacheManager,
 		ignoreInstance: Ignore,
 		rooIgnoreController?: RooIgnoreController,
+		keywordIndex?: KeywordIndex,
+		symbolGraph?: SymbolGraph,
 	): {
 		embedder: IEmbedder
 		vectorStore: IVectorStore
@@ -251,7 +279,14 @@ export class CodeIndexServiceFactory {
 		const embedder = this.createEmbedder()
 		const vectorStore = this.createVectorStore()
 		const parser = codeParser
-		const scanner = this.createDirectoryScanner(embedder, vectorStore, parser, ignoreInstance)
+		const scanner = this.createDirectoryScanner(
+			embedder,
+			vectorStore,
+			parser,
+			ignoreInstance,
+			keywordIndex,
+			symbolGraph,
+		)
 		const fileWatcher = this.createFileWatcher(
 			context,
 			embedder,
@@ -259,6 +294,8 @@ export class CodeIndexServiceFactory {
 			cacheManager,
 			ignoreInstance,
 			rooIgnoreController,
+			keywordIndex,
+			symbolGraph,
 		)
 
 		return {
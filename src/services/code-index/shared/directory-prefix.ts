@@ -0,0 +1,28 @@
+import path from "path"
+
+/**
+ * Splits a path into its segments, accepting both separators and dropping "." segments.
+ */
+export function toPathSegments(filePath: string): string[] {
+	return filePath.split(/[\\/]/).filter((segment) => segment && segment !== ".")
+}
+
+/**
+ * Checks whether a workspace-relative file path lies under a directory prefix,
+ * with the same semantics as the Qdrant `pathSegments` filter: whole segments
+ * must match, and "", "." or "./" match every path.
+ *
+ * @param filePath - Workspace-relative path of the indexed file
+ * @param directoryPrefix - Optional directory to restrict results to
+ * @returns True if the file is inside the directory
+ */
+export function matchesDirectoryPrefix(filePath: string, directoryPrefix?: string): boolean {
+	if (!directoryPrefix) {
+		return true
+	}
+
+	const prefixSegments = toPathSegments(path.posix.normalize(directoryPrefix.replace(/\\/g, "/")))
+	const segments = toPathSegments(filePath)
+
+	return prefixSegments.every((segment, index) => segments[index] === segment)
+}
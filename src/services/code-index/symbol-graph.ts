@@ -0,0 +1,384 @@
+import { createHash } from "crypto"
+import * as fs from "fs/promises"
+import * as path from "path"
+import debounce from "lodash.debounce"
+import { TelemetryService } from "@roo-code/telemetry"
+import { TelemetryEventName } from "@roo-code/types"
+
+import { FileSymbols, ImportGraph, SymbolCall, SymbolDefinition, SymbolLocation } from "./interfaces"
+import { codeParser } from "./processors/parser"
+import { matchesDirectoryPrefix, toPathSegments } from "./shared/directory-prefix"
+import { safeWriteJson } from "../../utils/safeWriteJson"
+
+export type SymbolDefinitionLocation = SymbolLocation & Omit<SymbolDefinition, "line">
+
+export type SymbolCallLocation = SymbolLocation & Omit<SymbolCall, "line">
+
+interface SymbolGraphFile {
+	version: number
+	files: Record<string, FileSymbols>
+}
+
+const SYMBOL_GRAPH_VERSION = 1
+
+/** Extensions tried for extensionless JS/TS specifiers, in order */
+const SCRIPT_EXTENSIONS = [".ts", ".tsx", ".mts", ".cts", ".js", ".jsx", ".mjs", ".cjs", ".vue"]
+
+/** Extensions of the files a qualified module name (e.g. `a.b.c` or `a::b::c`) can resolve to */
+const MODULE_EXTENSIONS: Record<string, string[]> = {
+	".py": [".py", "/__init__.py"],
+	".rs": [".rs", "/mod.rs"],
+	".java": [".java"],
+	".kt": [".kt"],
+	".kts": [".kt"],
+	".cs": [".cs"],
+	".rb": [".rb"],
+}
+
+/**
+ * Per-workspace graph of definitions, references, calls and imports.
+ *
+ * Symbols are extracted with the tree-sitter grammars of the code index. The
+ * directory scanner fills the graph and the file watcher keeps it up to date;
+ * it is persisted next to the index cache in global storage.
+ */
+export class SymbolGraph {
+	private readonly graphPath: string
+	/** Symbols per workspace-relative file path (posix separators) */
+	private files = new Map<string, FileSymbols>()
+	private readonly debouncedSave: ReturnType<typeof debounce>
+
+	/**
+	 * @param workspacePath Path to the workspace, which the graph's file paths are relative to
+	 * @param storagePath Directory the graph file is stored in (global storage)
+	 */
+	constructor(
+		readonly workspacePath: string,
+		storagePath: string,
+	) {
+		this.graphPath = path.join(
+			storagePath,
+			`roo-index-symbols-${createHash("sha256").update(workspacePath).digest("hex")}.json`,
+		)
+		this.debouncedSave = debounce(() => void this.save(), 1500)
+	}
+
+	/**
+	 * Loads the graph from disk. A missing or unreadable file starts an empty
+	 * graph, which the next scan fills in.
+	 */
+	async initialize(): Promise<void> {
+		this.files.clear()
+
+		let data: SymbolGraphFile
+		try {
+			data = JSON.parse(await fs.readFile(this.graphPath, "utf-8"))
+		} catch {
+			return
+		}
+
+		if (data.version !== SYMBOL_GRAPH_VERSION) {
+			return
+		}
+
+		this.files = new Map(Object.entries(data.files))
+	}
+
+	/**
+	 * Number of files in the graph.
+	 */
+	get size(): number {
+		return this.files.size
+	}
+
+	/**
+	 * Checks whether a file has been added to the graph, even if it has no symbols.
+	 * @param filePath Absolute or workspace-relative path
+	 */
+	hasFile(filePath: string): boolean {
+		return this.files.has(this.toFileKey(filePath))
+	}
+
+	/**
+	 * Extracts the symbols of a file and replaces its previous entry.
+	 * @param filePath Absolute or workspace-relative path
+	 * @param content Current file content
+	 */
+	async updateFile(filePath: string, content: string): Promise<void> {
+		const absolutePath = path.resolve(this.workspacePath, filePath)
+		this.setFileSymbols(filePath, await codeParser.parseSymbols(absolutePath, content))
+	}
+
+	/**
+	 * Replaces the symbols of a file.
+	 * @param filePath Absolute or workspace-relative path
+	 * @param symbols The file's symbols
+	 */
+	setFileSymbols(filePath: string, symbols: FileSymbols): void {
+		this.files.set(this.toFileKey(filePath), symbols)
+		this.debouncedSave()
+	}
+
+	/**
+	 * Removes files from the graph.
+	 * @param filePaths Absolute or workspace-relative paths
+	 */
+	deleteFiles(filePaths: string[]): void {
+		for (const filePath of filePaths) {
+			this.files.delete(this.toFileKey(filePath))
+		}
+		this.debouncedSave()
+	}
+
+	/**
+	 * Removes every file that is not in the given list, e.g. files deleted while
+	 * the extension was not running.
+	 * @param filePaths Absolute or workspace-relative paths of the files to keep
+	 */
+	retainFiles(filePaths: Iterable<string>): void {
+		const keep = new Set([...filePaths].map((filePath) => this.toFileKey(filePath)))
+		this.deleteFiles([...this.files.keys()].filter((key) => !keep.has(key)))
+	}
+
+	/**
+	 * Finds where a symbol is defined.
+	 * @param name Symbol name
+	 * @param directoryPrefix Optional directory to restrict results to
+	 */
+	findDefinitions(name: string, directoryPrefix?: string): SymbolDefinitionLocation[] {
+		const results: SymbolDefinitionLocation[] = []
+
+		for (const [filePath, symbols] of this.filesIn(directoryPrefix)) {
+			for (const definition of symbols.definitions) {
+				if (definition.name === name) {
+					results.push({ ...definition, filePath })
+				}
+			}
+		}
+
+		return results
+	}
+
+	/**
+	 * Finds the lines on which a symbol is used, sorted by file and line.
+	 * @param name Symbol name
+	 * @param directoryPrefix Optional directory to restrict results to
+	 */
+	findReferences(name: string, directoryPrefix?: string): SymbolLocation[] {
+		const results: SymbolLocation[] = []
+
+		for (const [filePath, symbols] of this.filesIn(directoryPrefix)) {
+			if (Object.prototype.hasOwnProperty.call(symbols.references, name)) {
+				for (const line of symbols.references[name]) {
+					results.push({ filePath, line })
+				}
+			}
+		}
+
+		return results.sort(compareLocations)
+	}
+
+	/**
+	 * Finds the call sites of a function or method, sorted by file and line.
+	 * @param name Name of the called function or method
+	 * @param directoryPrefix Optional directory to restrict results to
+	 */
+	findCallers(name: string, directoryPrefix?: string): SymbolCallLocation[] {
+		const results: SymbolCallLocation[] = []
+
+		for (const [filePath, symbols] of this.filesIn(directoryPrefix)) {
+			for (const call of symbols.calls) {
+				if (call.callee === name) {
+					results.push({ ...call, filePath })
+				}
+			}
+		}
+
+		return results.sort(compareLocations)
+	}
+
+	/**
+	 * Lists the imports of a file, resolved to workspace files where possible,
+	 * and the files that import it.
+	 * @param filePath Absolute or workspace-relative path
+	 * @returns The import graph, or undefined if the file is not in the graph
+	 */
+	getImportGraph(filePath: string): ImportGraph | undefined {
+		const key = this.toFileKey(filePath)
+		const symbols = this.files.get(key)
+		if (!symbols) {
+			return undefined
+		}
+
+		// Only resolve specifiers that mention the file or its directory (e.g. index files and packages)
+		const names = new Set([
+			path.posix.basename(key).replace(/\..*$/, ""),
+			path.posix.basename(path.posix.dirname(key)),
+		])
+
+		const importedBy: ImportGraph["importedBy"] = []
+		for (const [otherPath, otherSymbols] of this.files) {
+			if (otherPath === key) continue
+			for (const { specifier, line } of otherSymbols.imports) {
+				const mentionsFile = specifier.split(/[\\/.:]+/).some((segment) => names.has(segment))
+				if (mentionsFile && isSameModule(this.resolveImport(otherPath, specifier), key)) {
+					importedBy.push({ filePath: otherPath, line, specifier })
+				}
+			}
+		}
+
+		return {
+			filePath: key,
+			imports: symbols.imports.map((entry) => ({
+				...entry,
+				resolvedPath: this.resolveImport(key, entry.specifier),
+			})),
+			importedBy: importedBy.sort(compareLocations),
+		}
+	}
+
+	/**
+	 * Removes all files and deletes the graph file.
+	 */
+	async clear(): Promise<void> {
+		this.debouncedSave.cancel()
+		this.files.clear()
+		await fs.rm(this.graphPath, { force: true })
+	}
+
+	/**
+	 * Writes any pending changes to disk.
+	 */
+	async flush(): Promise<void> {
+		this.debouncedSave.cancel()
+		await this.save()
+	}
+
+	private *filesIn(directoryPrefix?: string): Iterable<[string, FileSymbols]> {
+		for (const entry of this.files) {
+			if (matchesDirectoryPrefix(entry[0], directoryPrefix)) {
+				yield entry
+			}
+		}
+	}
+
+	/**
+	 * Maps an import specifier to a file in the graph. Relative specifiers are
+	 * resolved against the importing file; qualified module names and include
+	 * paths are matched against the end of the workspace paths.
+	 */
+	private resolveImport(fromPath: string, specifier: string): string | undefined {
+		const ext = path.posix.extname(fromPath)
+		const fromDir = path.posix.dirname(fromPath)
+
+		if (ext === ".py" && specifier.startsWith(".")) {
+			const [, dots, rest] = specifier.match(/^(\.+)(.*)$/)!
+			const baseDir = path.posix.join(fromDir, ...Array(dots.length - 1).fill(".."))
+			const stem = path.posix.join(baseDir, rest.replace(/\./g, "/"))
+			return this.findFile([`${stem}.py`, `${stem}/__init__.py`])
+		}
+
+		if (specifier.startsWith(".")) {
+			const base = path.posix.join(fromDir, specifier)
+			// TypeScript ESM imports name the emitted .js file
+			const stem = base.replace(/\.(m|c)?js$/, "")
+			return this.findFile([
+				base,
+				base + ext,
+				...SCRIPT_EXTENSIONS.map((candidate) => stem + candidate),
+				...SCRIPT_EXTENSIONS.map((candidate) => `${base}/index${candidate}`),
+			])
+		}
+
+		if (ext === ".go") {
+			// Resolves to the first file of the package directory, see isSameModule
+			return [...this.files.keys()].find((candidate) => {
+				const dir = path.posix.dirname(candidate)
+				return candidate.endsWith(".go") && dir !== "." && (specifier === dir || specifier.endsWith(`/${dir}`))
+			})
+		}
+
+		if ([".c", ".h", ".cpp", ".hpp"].includes(ext)) {
+			return this.findFile([path.posix.join(fromDir, specifier)]) ?? this.findFileBySuffix(specifier)
+		}
+
+		const moduleExtensions = MODULE_EXTENSIONS[ext]
+		if (!moduleExtensions) {
+			return undefined
+		}
+
+		// `a.b.C` may name a module or an item inside one, so also try the shorter prefixes
+		const segments = specifier
+			.replace(/[{*].*$/, "")
+			.split(/::|\./)
+			.filter((segment) => segment && !["crate", "self", "super"].includes(segment))
+		for (let length = segments.length; length > 0 && length >= segments.length - 2; length--) {
+			const stem = segments.slice(0, length).join("/")
+			for (const candidate of moduleExtensions) {
+				const match = this.findFileBySuffix(stem + candidate)
+				if (match) {
+					return match
+				}
+			}
+		}
+
+		return undefined
+	}
+
+	private findFile(candidates: string[]): string | undefined {
+		return candidates
+			.map((candidate) => path.posix.normalize(candidate))
+			.find((candidate) => this.files.has(candidate))
+	}
+
+	private findFileBySuffix(suffix: string): string | undefined {
+		if (this.files.has(suffix)) {
+			return suffix
+		}
+		let match: string | undefined
+		for (const candidate of this.files.keys()) {
+			if (candidate.endsWith(`/${suffix}`) && (!match || candidate.length < match.length)) {
+				match = candidate
+			}
+		}
+		return match
+	}
+
+	private toFileKey(filePath: string): string {
+		const relativePath = path.isAbsolute(filePath) ? path.relative(this.workspacePath, filePath) : filePath
+		return toPathSegments(relativePath).join("/")
+	}
+
+	private async save(): Promise<void> {
+		try {
+			await safeWriteJson(this.graphPath, {
+				version: SYMBOL_GRAPH_VERSION,
+				files: Object.fromEntries(this.files),
+			} satisfies SymbolGraphFile)
+		} catch (error) {
+			console.error("[SymbolGraph] Failed to save symbol graph:", error)
+			TelemetryService.instance.captureEvent(TelemetryEventName.CODE_INDEX_ERROR, {
+				error: error instanceof Error ? error.message : String(error),
+				stack: error instanceof Error ? error.stack : undefined,
+				location: "SymbolGraph.save",
+			})
+		}
+	}
+}
+
+/**
+ * Go imports resolve to a package directory, which every file in it belongs to.
+ */
+function isSameModule(resolvedPath: string | undefined, filePath: string): boolean {
+	if (!resolvedPath) {
+		return false
+	}
+	if (resolvedPath.endsWith(".go") && filePath.endsWith(".go")) {
+		return path.posix.dirname(resolvedPath) === path.posix.dirname(filePath)
+	}
+	return resolvedPath === filePath
+}
+
+function compareLocations(a: SymbolLocation, b: SymbolLocation): number {
+	return a.filePath.localeCompare(b.filePath) || a.line - b.line
+}
@@ -0,0 +1,210 @@
+import * as fs from "fs/promises"
+import * as os from "os"
+import * as path from "path"
+
+import { LocalVectorStore } from "../local-vector-store"
+import { DEFAULT_MAX_SEARCH_RESULTS } from "../../constants"
+
+const workspacePath = "/test/workspace"
+
+const point = (id: string, filePath: string, vector: number[]) => ({
+	id,
+	vector,
+	payload: { filePath, codeChunk: `chunk ${id}`, startLine: 1, endLine: 2 },
+})
+
+describe("LocalVectorStore", () => {
+	let storagePath: string
+	let store: LocalVectorStore
+
+	beforeEach(async () => {
+		storagePath = await fs.mkdtemp(path.join(os.tmpdir(), "local-vector-store-"))
+		store = new LocalVectorStore(workspacePath, storagePath, 3)
+		vitest.spyOn(console, "log").mockImplementation(() => {})
+		vitest.spyOn(console, "warn").mockImplementation(() => {})
+	})
+
+	afterEach(async () => {
+		// Drops any pending debounced save
+		await store.deleteCollection()
+		await fs.rm(storagePath, { recursive: true, force: true })
+		vitest.restoreAllMocks()
+	})
+
+	describe("initialize", () => {
+		it("creates a new index the first time and reuses it afterwards", async () => {
+			expect(await store.collectionExists()).toBe(false)
+			expect(await store.initialize()).toBe(true)
+			expect(await store.collectionExists()).toBe(true)
+
+			const reopened = new LocalVectorStore(workspacePath, storagePath, 3)
+			expect(await reopened.initialize()).toBe(false)
+		})
+
+		it("recreates the index when the vector size changes", async () => {
+			await store.initialize()
+			await store.upsertPoints([point("a", "src/a.ts", [1, 0, 0])])
+			await store.markIndexingComplete()
+
+			const resized = new LocalVectorStore(workspacePath, storagePath, 4)
+			expect(await resized.initialize()).toBe(true)
+			expect(await resized.hasIndexedData()).toBe(false)
+		})
+
+		it("keeps indexes of different workspaces apart", async () => {
+			await store.initialize()
+			await store.upsertPoints([point("a", "src/a.ts", [1, 0, 0])])
+			await store.markIndexingComplete()
+
+			const other = new LocalVectorStore("/other/workspace", storagePath, 3)
+			expect(await other.initialize()).toBe(true)
+			expect(await other.search([1, 0, 0])).toEqual([])
+		})
+	})
+
+	describe("search", () => {
+		beforeEach(async () => {
+			await store.initialize()
+			await store.upsertPoints([
+				point("a", "src/utils/a.ts", [1, 0, 0]),
+				point("b", "src/b.ts", [0.8, 0.6, 0]),
+				point("c", "test/c.ts", [0, 1, 0]),
+			])
+		})
+
+		it("returns results ordered by cosine similarity above the minimum score", async () => {
+			const results = await store.search([2, 0, 0], undefined, 0.5)
+
+			expect(results.map((r) => r.id)).toEqual(["a", "b"])
+			expect(results[0].score).toBeCloseTo(1)
+			expect(results[1].score).toBeCloseTo(0.8)
+			expect(results[0].payload).toEqual(point("a", "src/utils/a.ts", [1, 0, 0]).payload)
+		})
+
+		it("limits the number of results", async () => {
+			const results = await store.search([1, 1, 0], undefined, 0, 1)
+			expect(results.map((r) => r.id)).toEqual(["b"])
+		})
+
+		it("filters by directory prefix on whole path segments", async () => {
+			expect((await store.search([1, 0, 0], "src", 0)).map((r) => r.id)).toEqual(["a", "b"])
+			expect((await store.search([1, 0, 0], "./src/utils/", 0)).map((r) => r.id)).toEqual(["a"])
+			expect(await store.search([1, 0, 0], "sr", 0)).toEqual([])
+		})
+
+		it("treats the current directory prefix as no filter", async () => {
+			expect(await store.search([1, 1, 1], ".", 0)).toHaveLength(3)
+			expect(await store.search([1, 1, 1], "./", 0)).toHaveLength(3)
+		})
+
+		it("applies the default result limit", async () => {
+			const points = Array.from({ length: DEFAULT_MAX_SEARCH_RESULTS + 5 }, (_, i) =>
+				point(`p${i}`, `src/p${i}.ts`, [1, 0, 0]),
+			)
+			await store.upsertPoints(points)
+
+			expect(await store.search([1, 0, 0])).toHaveLength(DEFAULT_MAX_SEARCH_RESULTS)
+		})
+
+		it("skips points with an incomplete payload", async () => {
+			await store.upsertPoints([{ id: "bad", vector: [1, 0, 0], payload: { filePath: "src/bad.ts" } }])
+			expect((await store.search([1, 0, 0], undefined, 0.9)).map((r) => r.id)).toEqual(["a"])
+		})
+	})
+
+	it("rejects vectors of the wrong dimension", async () => {
+		await store.initialize()
+		await expect(store.upsertPoints([point("a", "src/a.ts", [1, 0])])).rejects.toThrow("expected 3")
+	})
+
+	it("deletes points by relative or absolute file path", async () => {
+		await store.initialize()
+		await store.upsertPoints([
+			point("a", "src/a.ts", [1, 0, 0]),
+			point("b", "src/b.ts", [1, 0, 0]),
+			point("c", "src/c.ts", [1, 0, 0]),
+		])
+
+		await store.deletePointsByMultipleFilePaths(["src/a.ts", path.join(workspacePath, "src", "b.ts")])
+
+		expect((await store.search([1, 0, 0], undefined, 0)).map((r) => r.id)).toEqual(["c"])
+	})
+
+	it("persists points and the indexing marker across instances", async () => {
+		await store.initialize()
+		await store.upsertPoints([point("a", "src/a.ts", [0, 3, 4])])
+		await store.markIndexingComplete()
+
+		const reopened = new LocalVectorStore(workspacePath, storagePath, 3)
+		expect(await reopened.hasIndexedData()).toBe(true)
+
+		const [result] = await reopened.search([0, 3, 4])
+		expect(result.id).toBe("a")
+		expect(result.score).toBeCloseTo(1)
+	})
+
+	describe("hasIndexedData", () => {
+		it("is false without points", async () => {
+			await store.initialize()
+			await store.markIndexingComplete()
+			expect(await store.hasIndexedData()).toBe(false)
+		})
+
+		it("is false while indexing is incomplete", async () => {
+			await store.initialize()
+			await store.upsertPoints([point("a", "src/a.ts", [1, 0, 0])])
+			await store.markIndexingIncomplete()
+			expect(await store.hasIndexedData()).toBe(false)
+
+			await store.markIndexingComplete()
+			expect(await store.hasIndexedData()).toBe(true)
+		})
+	})
+
+	it("clears points while keeping the index", async () => {
+		await store.initialize()
+		await store.upsertPoints([point("a", "src/a.ts", [1, 0, 0])])
+		await store.clearCollection()
+
+		expect(await store.collectionExists()).toBe(true)
+		expect(await store.search([1, 0, 0], undefined, 0)).toEqual([])
+	})
+
+	it("removes the index from disk on deleteCollection", async () => {
+		await store.initialize()
+		await store.upsertPoints([point("a", "src/a.ts", [1, 0, 0])])
+		await store.deleteCollection()
+
+		expect(await store.collectionExists()).toBe(false)
+		expect(await fs.readdir(path.join(storagePath, "code-index"))).toEqual([])
+	})
+
+	it("logs background saves that fail instead of rejecting", async () => {
+		const consoleError = vitest.spyOn(console, "error").mockImplementation(() => {})
+		await store.initialize()
+
+		// A file where the index directory should be makes every write fail
+		const indexDir = (store as any).indexDir as string
+		await fs.rm(indexDir, { recursive: true, force: true })
+		await fs.writeFile(indexDir, "")
+
+		await store.upsertPoints([point("a", "src/a.ts", [1, 0, 0])])
+		await expect((store as any).debouncedSave.flush()).resolves.toBeUndefined()
+		expect(consoleError).toHaveBeenCalledWith(expect.stringContaining("Failed to save index"), expect.any(Error))
+
+		await expect(store.clearCollection()).rejects.toThrow()
+	})
+
+	it("rebuilds an index whose vectors file does not match its points", async () => {
+		await store.initialize()
+		await store.upsertPoints([point("a", "src/a.ts", [1, 0, 0])])
+		await store.markIndexingComplete()
+
+		const [dir] = await fs.readdir(path.join(storagePath, "code-index"))
+		await fs.writeFile(path.join(storagePath, "code-index", dir, "vectors.bin"), Buffer.alloc(2))
+
+		const reopened = new LocalVectorStore(workspacePath, storagePath, 3)
+		expect(await reopened.initialize()).toBe(true)
+		expect(await reopened.hasIndexedData()).toBe(false)
+	})
+})
@@ -0,0 +1,363 @@
+import { createHash } from "crypto"
+import * as fs from "fs/promises"
+import * as path from "path"
+import debounce from "lodash.debounce"
+
+import { IVectorStore, PointStruct } from "../interfaces/vector-store"
+import { Payload, VectorStoreSearchResult } from "../interfaces"
+import { DEFAULT_MAX_SEARCH_RESULTS, DEFAULT_SEARCH_MIN_SCORE } from "../constants"
+import { safeWriteJson } from "../../../utils/safeWriteJson"
+import { fileExistsAtPath } from "../../../utils/fs"
+import { matchesDirectoryPrefix, toPathSegments } from "../shared/directory-prefix"
+
+const INDEX_FILE = "index.json"
+const VECTORS_FILE = "vectors.bin"
+const INDEX_VERSION = 1
+
+/**
+ * On-disk index metadata. Vectors are kept separately in `vectors.bin` as
+ * float32 rows, in the same order as `points`.
+ */
+interface LocalIndexFile {
+	version: number
+	vectorSize: number
+	/** Absent for an index that has never been marked */
+	indexingComplete?: boolean
+	points: Array<{ id: string; payload: Record<string, any> }>
+}
+
+interface StoredPoint {
+	payload: Record<string, any>
+	/** Unit length, so a dot product is the cosine similarity */
+	vector: Float32Array
+}
+
+/**
+ * Embedded vector store that keeps the index in the extension's global
+ * storage (one folder per workspace) and searches it in memory, so codebase
+ * search works without running a Qdrant server.
+ *
+ * Search is an exact (brute-force) cosine scan, which is fast enough for the
+ * few hundred thousand chunks a workspace index holds.
+ */
+export class LocalVectorStore implements IVectorStore {
+	private readonly indexDir: string
+	private points = new Map<string, StoredPoint>()
+	private indexingComplete?: boolean
+	private loaded = false
+	private saving: Promise<void> = Promise.resolve()
+	private readonly debouncedSave: ReturnType<typeof debounce>
+
+	/**
+	 * @param workspacePath Path to the workspace
+	 * @param storagePath Directory the index folders live in (global storage)
+	 * @param vectorSize Dimension of the embedding vectors
+	 */
+	constructor(
+		private readonly workspacePath: string,
+		storagePath: string,
+		private readonly vectorSize: number,
+	) {
+		const hash = createHash("sha256").update(workspacePath).digest("hex")
+		this.indexDir = path.join(storagePath, "code-index", `ws-${hash.substring(0, 16)}`)
+		// save() has logged the failure already; the next change schedules another attempt
+		this.debouncedSave = debounce(() => this.save().catch(() => {}), 1500)
+	}
+
+	/**
+	 * Initializes the vector store
+	 * @returns Promise resolving to boolean indicating if a new collection was created
+	 */
+	async initialize(): Promise<boolean> {
+		const existing = await this.readIndex()
+
+		if (existing && existing.vectorSize === this.vectorSize) {
+			this.loaded = true
+			return false
+		}
+
+		if (existing) {
+			console.warn(
+				`[LocalVectorStore] Index at ${this.indexDir} has vector size ${existing.vectorSize}, but expected ${this.vectorSize}. Recreating it.`,
+			)
+		}
+
+		this.points.clear()
+		this.indexingComplete = undefined
+		this.loaded = true
+		await this.save()
+		return true
+	}
+
+	/**
+	 * Upserts points into the vector store
+	 * @param points Array of points to upsert
+	 */
+	async upsertPoints(points: PointStruct[]): Promise<void> {
+		await this.ensureLoaded()
+
+		for (const point of points) {
+			if (point.vector.length !== this.vectorSize) {
+				throw new Error(
+					`Vector for point ${point.id} has dimension ${point.vector.length}, expected ${this.vectorSize}`,
+				)
+			}
+			this.points.set(point.id, { payload: point.payload, vector: normalize(point.vector) })
+		}
+
+		this.debouncedSave()
+	}
+
+	/**
+	 * Searches for similar vectors
+	 * @param queryVector Vector to search for
+	 * @param directoryPrefix Optional directory prefix to filter results
+	 * @param minScore Optional minimum score threshold
+	 * @param maxResults Optional maximum number of results to return
+	 * @returns Promise resolving to search results
+	 */
+	async search(
+		queryVector: number[],
+		directoryPrefix?: string,
+		minScore?: number,
+		maxResults?: number,
+	): Promise<VectorStoreSearchResult[]> {
+		await this.ensureLoaded()
+
+		const query = normalize(queryVector)
+		const threshold = minScore ?? DEFAULT_SEARCH_MIN_SCORE
+		const limit = maxResults ?? DEFAULT_MAX_SEARCH_RESULTS
+		const results: VectorStoreSearchResult[] = []
+
+		for (const [id, { payload, vector }] of this.points) {
+			if (!isPayloadValid(payload) || !matchesDirectoryPrefix(payload.filePath, directoryPrefix)) {
+				continue
+			}
+
+			const score = dot(query, vector)
+
+			if (score >= threshold) {
+				results.push({ id, score, payload })
+			}
+		}
+
+		return results.sort((a, b) => b.score - a.score).slice(0, limit)
+	}
+
+	/**
+	 * Deletes points by file path
+	 * @param filePath Path of the file to delete points for
+	 */
+	async deletePointsByFilePath(filePath: string): Promise<void> {
+		return this.deletePointsByMultipleFilePaths([filePath])
+	}
+
+	async deletePointsByMultipleFilePaths(filePaths: string[]): Promise<void> {
+		if (filePaths.length === 0) {
+			return
+		}
+
+		await this.ensureLoaded()
+
+		// Points store the workspace-relative path, as in upsertPoints
+		const targets = new Set(
+			filePaths.map((filePath) => {
+				const relativePath = path.isAbsolute(filePath) ? path.relative(this.workspacePath, filePath) : filePath
+				return toPathSegments(relativePath).join("/")
+			}),
+		)
+
+		for (const [id, { payload }] of this.points) {
+			if (typeof payload.filePath === "string" && targets.has(toPathSegments(payload.filePath).join("/"))) {
+				this.points.delete(id)
+			}
+		}
+
+		this.debouncedSave()
+	}
+
+	/**
+	 * Clears all points from the collection
+	 */
+	async clearCollection(): Promise<void> {
+		await this.ensureLoaded()
+		this.points.clear()
+		await this.save()
+	}
+
+	/**
+	 * Deletes the entire collection.
+	 */
+	async deleteCollection(): Promise<void> {
+		this.debouncedSave.cancel()
+		await this.saving.catch(() => {})
+		this.points.clear()
+		this.indexingComplete = undefined
+		this.loaded = false
+		await fs.rm(this.indexDir, { recursive: true, force: true })
+	}
+
+	/**
+	 * Checks if the collection exists
+	 * @returns Promise resolving to boolean indicating if the collection exists
+	 */
+	async collectionExists(): Promise<boolean> {
+		return fileExistsAtPath(path.join(this.indexDir, INDEX_FILE))
+	}
+
+	/**
+	 * Checks if the collection exists and has indexed points
+	 * @returns Promise resolving to boolean indicating if the collection exists and has points
+	 */
+	async hasIndexedData(): Promise<boolean> {
+		try {
+			if (!(await this.collectionExists())) {
+				return false
+			}
+
+			await this.ensureLoaded()
+
+			if (this.points.size === 0) {
+				return false
+			}
+
+			// No marker yet: treat an index with points as complete, like the Qdrant store does
+			return this.indexingComplete ?? true
+		} catch (error) {
+			console.warn("[LocalVectorStore] Failed to check if the index has data:", error)
+			return false
+		}
+	}
+
+	/**
+	 * Marks the indexing process as complete by storing metadata
+	 * Should be called after a successful full workspace scan or incremental scan
+	 */
+	async markIndexingComplete(): Promise<void> {
+		await this.ensureLoaded()
+		this.indexingComplete = true
+		await this.save()
+		console.log("[LocalVectorStore] Marked indexing as complete")
+	}
+
+	/**
+	 * Marks the indexing process as incomplete by storing metadata
+	 * Should be called at the start of indexing to indicate work in progress
+	 */
+	async markIndexingIncomplete(): Promise<void> {
+		await this.ensureLoaded()
+		this.indexingComplete = false
+		await this.save()
+		console.log("[LocalVectorStore] Marked indexing as incomplete (in progress)")
+	}
+
+	private async ensureLoaded(): Promise<void> {
+		if (!this.loaded) {
+			await this.initialize()
+		}
+	}
+
+	/**
+	 * Loads the index from disk into memory.
+	 * @returns The stored metadata, or undefined if there is no usable index
+	 */
+	private async readIndex(): Promise<Pick<LocalIndexFile, "vectorSize"> | undefined> {
+		let index: LocalIndexFile
+		let vectors: Buffer
+
+		try {
+			index = JSON.parse(await fs.readFile(path.join(this.indexDir, INDEX_FILE), "utf-8"))
+			vectors = await fs.readFile(path.join(this.indexDir, VECTORS_FILE))
+		} catch {
+			return undefined
+		}
+
+		const rowBytes = index.vectorSize * Float32Array.BYTES_PER_ELEMENT
+
+		if (index.version !== INDEX_VERSION || vectors.length !== index.points.length * rowBytes) {
+			// Interrupted write or an older format: rebuild
+			console.warn(`[LocalVectorStore] Ignoring unreadable index at ${this.indexDir}`)
+			return undefined
+		}
+
+		this.points.clear()
+
+		if (index.vectorSize === this.vectorSize) {
+			// Copy into an aligned buffer, Buffer slices may start at any byte offset
+			const all = new Float32Array(new Uint8Array(vectors).buffer)
+			index.points.forEach(({ id, payload }, i) => {
+				const vector = all.subarray(i * index.vectorSize, (i + 1) * index.vectorSize)
+				this.points.set(id, { payload, vector })
+			})
+			this.indexingComplete = index.indexingComplete
+		}
+
+		return { vectorSize: index.vectorSize }
+	}
+
+	/**
+	 * Writes the index to disk. Saves are serialized; the vectors are written
+	 * first so an interrupted save leaves a size mismatch that readIndex rejects.
+	 */
+	private save(): Promise<void> {
+		this.debouncedSave.cancel()
+
+		this.saving = this.saving
+			.catch(() => {})
+			.then(async () => {
+				const ids = [...this.points.keys()]
+				const vectors = new Float32Array(ids.length * this.vectorSize)
+				const points = ids.map((id, i) => {
+					const point = this.points.get(id)!
+					vectors.set(point.vector, i * this.vectorSize)
+					return { id, payload: point.payload }
+				})
+
+				await fs.mkdir(this.indexDir, { recursive: true })
+				const vectorsPath = path.join(this.indexDir, VECTORS_FILE)
+				await fs.writeFile(`${vectorsPath}.tmp`, new Uint8Array(vectors.buffer))
+				await fs.rename(`${vectorsPath}.tmp`, vectorsPath)
+
+				await safeWriteJson(path.join(this.indexDir, INDEX_FILE), {
+					version: INDEX_VERSION,
+					vectorSize: this.vectorSize,
+					indexingComplete: this.indexingComplete,
+					points,
+				} satisfies LocalIndexFile)
+			})
+			.catch((error) => {
+				console.error(`[LocalVectorStore] Failed to save index to ${this.indexDir}:`, error)
+				throw error
+			})
+
+		return this.saving
+	}
+}
+
+function normalize(vector: ArrayLike<number>): Float32Array {
+	const result = Float32Array.from(vector)
+	const norm = Math.sqrt(dot(result, result))
+
+	if (norm > 0) {
+		for (let i = 0; i < result.length; i++) {
+			result[i] /= norm
+		}
+	}
+
+	return result
+}
+
+function dot(a: Float32Array, b: Float32Array): number {
+	let sum = 0
+	for (let i = 0; i < a.length; i++) {
+		sum += a[i] * b[i]
+	}
+	return sum
+}
+
+function isPayloadValid(payload: Record<string, unknown> | null | undefined): payload is Payload {
+	if (!payload) {
+		return false
+	}
+	return ["filePath", "codeChunk", "startLine", "endLine"].every((key) => key in payload)
+}
@@ -0,0 +1,245 @@
+/**
+ * Lifecycle hooks
+ *
+ * Hooks run the user's own scripts at fixed points of a task. They are read from
+ * the global `~/.dio/hooks.json` and from the project's `.dio/hooks.json`; project
+ * hooks run after global ones.
+ *
+ * ```
+ * .dio/hooks.json
+ * {
+ *   "hooks": {
+ *     "beforeToolUse": [{ "matcher": "execute_command", "command": "./scripts/check-command.sh" }],
+ *     "afterFileWrite": [{ "matcher": "*.ts", "command": "npx eslint --fix \"$DIO_FILE\"" }],
+ *     "beforeCompletion": [{ "command": "npm test", "timeout": 300 }],
+ *     "taskStart": [{ "command": "git status --short" }],
+ *     "taskEnd": [{ "tool": "notify_team" }]
+ *   }
+ * }
+ * ```
+ *
+ * A hook either runs a shell `command` in the workspace or calls a custom `tool`.
+ * Commands receive the event payload as JSON on stdin and as `DIO_*` environment
+ * variables; custom tools receive it as their arguments.
+ *
+ * Project hooks come with the repository, so they are only loaded once the
+ * caller approves the file's current content (see LoadHooksOptions).
+ */
+
+import * as crypto from "crypto"
+import * as fs from "fs/promises"
+import * as os from "os"
+import * as path from "path"
+import { execa } from "execa"
+import ignore from "ignore"
+import { z } from "zod"
+
+import { getRoopikProjectDirectory } from "../roopik/paths"
+
+export const HOOKS_FILE_NAME = "hooks.json"
+
+export const HOOK_EVENTS = ["beforeToolUse", "afterFileWrite", "beforeCompletion", "taskStart", "taskEnd"] as const
+
+export type HookEvent = (typeof HOOK_EVENTS)[number]
+
+// Seconds a hook may run before it is stopped and counted as failed.
+export const DEFAULT_HOOK_TIMEOUT = 60
+
+// Hook output fed back to the model is cut down to its last characters.
+const MAX_HOOK_OUTPUT_LENGTH = 10_000
+
+export const hookDefinitionSchema = z
+	.object({
+		/**
+		 * Which calls the hook applies to. For beforeToolUse a tool name, several
+		 * separated by `|`, or `*`; for afterFileWrite a .gitignore-style pattern.
+		 * Other events ignore it.
+		 */
+		matcher: z.string().min(1).optional(),
+		command: z.string().min(1).optional(),
+		tool: z.string().min(1).optional(),
+		timeout: z.number().positive().optional(),
+	})
+	.refine((hook) => !!hook.command !== !!hook.tool, { message: "A hook needs either a command or a tool" })
+
+export type HookDefinition = z.infer<typeof hookDefinitionSchema>
+
+const hookListSchema = z.array(hookDefinitionSchema).optional()
+
+export const hooksConfigSchema = z.object({
+	hooks: z
+		.object({
+			beforeToolUse: hookListSchema,
+			afterFileWrite: hookListSchema,
+			beforeCompletion: hookListSchema,
+			taskStart: hookListSchema,
+			taskEnd: hookListSchema,
+		})
+		.default({}),
+})
+
+export type HooksConfig = Record<HookEvent, HookDefinition[]>
+
+export interface HookResult {
+	hook: HookDefinition
+	success: boolean
+	output: string
+}
+
+/**
+ * A project hooks file waiting for approval
+ */
+export interface ProjectHooksFile {
+	filePath: string
+	/** SHA-256 of the file content; an approval only covers this exact content */
+	hash: string
+	hooks: HooksConfig
+}
+
+export interface LoadHooksOptions {
+	/** Decide whether the project's hooks may run; without it project hooks are skipped */
+	approveProjectHooks?: (file: ProjectHooksFile) => Promise<boolean>
+}
+
+/**
+ * Where hooks are read from, in the order they run
+ */
+export function getHooksFilePaths(cwd: string): string[] {
+	return [
+		path.join(getRoopikProjectDirectory(os.homedir()), HOOKS_FILE_NAME),
+		path.join(getRoopikProjectDirectory(cwd), HOOKS_FILE_NAME),
+	]
+}
+
+function createHooksConfig(): HooksConfig {
+	return { beforeToolUse: [], afterFileWrite: [], beforeCompletion: [], taskStart: [], taskEnd: [] }
+}
+
+/**
+ * Load and merge the global hooks and, if approved, the project hooks
+ * @throws Error if a hooks file exists but is not valid
+ */
+export async function loadHooksConfig(cwd: string, options: LoadHooksOptions = {}): Promise<HooksConfig> {
+	const config = createHooksConfig()
+	const filePaths = getHooksFilePaths(cwd)
+	const [globalFilePath] = filePaths
+
+	for (const filePath of [...new Set(filePaths)]) {
+		let content: string
+		try {
+			content = await fs.readFile(filePath, "utf-8")
+		} catch {
+			continue
+		}
+
+		let hooks: z.infer<typeof hooksConfigSchema>["hooks"]
+		try {
+			hooks = hooksConfigSchema.parse(JSON.parse(content)).hooks
+		} catch (error) {
+			const message =
+				error instanceof z.ZodError
+					? error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`).join("; ")
+					: error instanceof Error
+						? error.message
+						: String(error)
+			throw new Error(`Invalid ${filePath}: ${message}`)
+		}
+
+		const fileConfig = createHooksConfig()
+		for (const event of HOOK_EVENTS) {
+			fileConfig[event].push(...(hooks[event] ?? []))
+		}
+
+		if (filePath !== globalFilePath && HOOK_EVENTS.some((event) => fileConfig[event].length)) {
+			const hash = crypto.createHash("sha256").update(content).digest("hex")
+			if (!(await options.approveProjectHooks?.({ filePath, hash, hooks: fileConfig }))) {
+				continue
+			}
+		}
+
+		for (const event of HOOK_EVENTS) {
+			config[event].push(...fileConfig[event])
+		}
+	}
+
+	return config
+}
+
+/**
+ * Whether a beforeToolUse hook applies to a tool
+ */
+export function matchesTool(hook: HookDefinition, toolName: string): boolean {
+	if (!hook.matcher || hook.matcher === "*") {
+		return true
+	}
+
+	return hook.matcher.split("|").some((name) => name.trim() === toolName)
+}
+
+/**
+ * Whether an afterFileWrite hook applies to a file (relative to the workspace)
+ */
+export function matchesFile(hook: HookDefinition, relPath: string): boolean {
+	if (!hook.matcher) {
+		return true
+	}
+
+	try {
+		return ignore().add(hook.matcher).ignores(relPath.toPosix())
+	} catch {
+		// ignore throws for paths outside the workspace, which no pattern should match
+		return false
+	}
+}
+
+/**
+ * Keep the end of long output, where test runners and linters put their summary
+ */
+export function truncateHookOutput(output: string): string {
+	const trimmed = output.trim()
+	if (trimmed.length <= MAX_HOOK_OUTPUT_LENGTH) {
+		return trimmed
+	}
+
+	const omitted = trimmed.length - MAX_HOOK_OUTPUT_LENGTH
+	return `[...${omitted} characters omitted]\n${trimmed.slice(-MAX_HOOK_OUTPUT_LENGTH)}`
+}
+
+/**
+ * Run a command hook in the workspace. Fails if the command exits with a
+ * non-zero code, can't be started or runs past its timeout.
+ */
+export async function runHookCommand(
+	hook: HookDefinition & { command: string },
+	cwd: string,
+	payload: Record<string, unknown>,
+	env: Record<string, string>,
+): Promise<HookResult> {
+	const timeout = hook.timeout ?? DEFAULT_HOOK_TIMEOUT
+
+	const result = await execa(hook.command, {
+		shell: true,
+		cwd,
+		env,
+		input: JSON.stringify(payload),
+		all: true,
+		reject: false,
+		timeout: timeout * 1000,
+	})
+
+	let output = typeof result.all === "string" ? result.all : ""
+	if (result.timedOut) {
+		output = `${output}\nTimed out after ${timeout}s`
+	} else if (result.failed && result.exitCode === undefined) {
+		output = `${output}\n${result.shortMessage}`
+	}
+
+	return { hook, success: !result.failed, output: truncateHookOutput(output) }
+}
+
+/**
+ * Short label for a hook in messages
+ */
+export function describeHook(hook: HookDefinition): string {
+	return hook.command ? `\`${hook.command}\`` : `custom tool "${hook.tool}"`
+}
@@ -0,0 +1,186 @@
+import * as fs from "fs/promises"
+import * as os from "os"
+import * as path from "path"
+
+import axios from "axios"
+import * as yaml from "yaml"
+import { z } from "zod"
+
+import {
+	type MarketplaceItem,
+	type MarketplaceItemType,
+	modeMarketplaceItemSchema,
+	mcpMarketplaceItemSchema,
+	skillMarketplaceItemSchema,
+	commandMarketplaceItemSchema,
+	customToolMarketplaceItemSchema,
+} from "@roo-code/types"
+
+/**
+ * Files a catalog may contain, one per item type. Each file has the same
+ * `items:` layout as the public marketplace API responses. Missing files are
+ * skipped, so a catalog can provide only the types it curates.
+ */
+const catalogFiles: { type: MarketplaceItemType; fileName: string; schema: z.ZodTypeAny }[] = [
+	{ type: "mode", fileName: "modes.yaml", schema: modeMarketplaceItemSchema },
+	{ type: "mcp", fileName: "mcps.yaml", schema: mcpMarketplaceItemSchema },
+	{ type: "skill", fileName: "skills.yaml", schema: skillMarketplaceItemSchema },
+	{ type: "command", fileName: "commands.yaml", schema: commandMarketplaceItemSchema },
+	{ type: "tool", fileName: "tools.yaml", schema: customToolMarketplaceItemSchema },
+]
+
+export interface CatalogLoadResult {
+	items: MarketplaceItem[]
+	errors: string[]
+}
+
+/**
+ * Loads marketplace items from private catalogs. A catalog is either a local
+ * directory (which may be a git checkout) or an http(s) URL serving the same
+ * files.
+ */
+export class CatalogLoader {
+	private cache: Map<string, { data: MarketplaceItem[]; timestamp: number }> = new Map()
+	private cacheDuration = 5 * 60 * 1000 // 5 minutes
+
+	/**
+	 * Load the items of all catalogs. Catalogs are listed in order of
+	 * precedence: when several provide an item of the same type and id, the
+	 * first one wins. A catalog that fails to load is reported in `errors`
+	 * without affecting the others.
+	 * @param locations Directory paths or http(s) URLs
+	 * @param cwd Directory relative paths are resolved against
+	 */
+	async loadCatalogs(locations: string[], cwd?: string): Promise<CatalogLoadResult> {
+		const results = await Promise.allSettled(locations.map((location) => this.loadCatalog(location, cwd)))
+
+		const items: MarketplaceItem[] = []
+		const errors: string[] = []
+		const seen = new Set<string>()
+
+		results.forEach((result, index) => {
+			if (result.status === "rejected") {
+				const message = result.reason instanceof Error ? result.reason.message : String(result.reason)
+				errors.push(`Catalog ${locations[index]}: ${message}`)
+				return
+			}
+
+			for (const item of result.value) {
+				const key = `${item.type}:${item.id}`
+				if (!seen.has(key)) {
+					seen.add(key)
+					items.push(item)
+				}
+			}
+		})
+
+		return { items, errors }
+	}
+
+	private async loadCatalog(location: string, cwd?: string): Promise<MarketplaceItem[]> {
+		const isUrl = /^https?:\/\//i.test(location)
+
+		// Directories are cheap to read and may be edited in place, so only URLs are cached
+		const cached = isUrl ? this.getFromCache(location) : null
+
+		if (cached) {
+			return cached
+		}
+
+		const directory = isUrl ? undefined : this.resolveDirectory(location, cwd)
+
+		if (directory) {
+			const stats = await fs.stat(directory).catch(() => undefined)
+			if (!stats?.isDirectory()) {
+				throw new Error("Directory not found")
+			}
+		}
+
+		const items: MarketplaceItem[] = []
+
+		for (const { type, fileName, schema } of catalogFiles) {
+			const data = directory
+				? await this.readCatalogFile(path.join(directory, fileName))
+				: await this.fetchCatalogFile(new URL(fileName, location.endsWith("/") ? location : `${location}/`))
+
+			if (data === undefined) {
+				continue
+			}
+
+			const validated = z.object({ items: z.array(schema) }).safeParse(yaml.parse(data))
+			if (!validated.success) {
+				const issue = validated.error.issues[0]
+				const reason = issue ? `${issue.path.join(".")}: ${issue.message}` : "unknown error"
+				throw new Error(`Invalid ${fileName}: ${reason}`)
+			}
+
+			items.push(
+				...validated.data.items.map(
+					(item: object) => ({ type, ...item, catalog: location }) as MarketplaceItem,
+				),
+			)
+		}
+
+		if (isUrl) {
+			this.setCache(location, items)
+		}
+		return items
+	}
+
+	private resolveDirectory(location: string, cwd?: string): string {
+		if (location === "~" || location.startsWith("~/")) {
+			return path.join(os.homedir(), location.slice(1))
+		}
+		return cwd ? path.resolve(cwd, location) : path.resolve(location)
+	}
+
+	private async readCatalogFile(filePath: string): Promise<string | undefined> {
+		try {
+			return await fs.readFile(filePath, "utf-8")
+		} catch (error: any) {
+			if (error.code === "ENOENT") {
+				return undefined
+			}
+			throw error
+		}
+	}
+
+	private async fetchCatalogFile(url: URL): Promise<string | undefined> {
+		try {
+			const response = await axios.get(url.toString(), {
+				timeout: 10000, // 10 second timeout
+				responseType: "text",
+			})
+			return response.data as string
+		} catch (error) {
+			if (axios.isAxiosError(error) && error.response?.status === 404) {
+				return undefined
+			}
+			throw error
+		}
+	}
+
+	private getFromCache(key: string): MarketplaceItem[] | null {
+		const cached = this.cache.get(key)
+		if (!cached) return null
+
+		const now = Date.now()
+		if (now - cached.timestamp > this.cacheDuration) {
+			this.cache.delete(key)
+			return null
+		}
+
+		return cached.data
+	}
+
+	private setCache(key: string, data: MarketplaceItem[]): void {
+		this.cache.set(key, {
+			data,
+			timestamp: Date.now(),
+		})
+	}
+
+	clearCache(): void {
+		this.cache.clear()
+	}
+}
@@ -9,11 +9,16 @@ import { TelemetryService } from "@roo-code/telemetry"
 import { CloudService } from "@roo-code/cloud"
 
 import { GlobalFileNames } from "../../shared/globalFileNames"
+import { Package } from "../../shared/package"
 import { ensureSettingsDirectoryExists } from "../../utils/globalContext"
+import { getGlobalRooDirectory, getProjectRooDirectoryForCwd } from "../roo-config"
+import { getCommandNameFromFile, isMarkdownFile } from "../command/commands"
+import { MdmService } from "../mdm/MdmService"
 import { t } from "../../i18n"
 import type { CustomModesManager } from "../../core/config/CustomModesManager"
 
 import { RemoteConfigLoader } from "./RemoteConfigLoader"
+import { CatalogLoader } from "./CatalogLoader"
 import { SimpleInstaller } from "./SimpleInstaller"
 
 export interface MarketplaceItemsResponse {
@@ -24,6 +29,7 @@ export interface MarketplaceItemsResponse {
 
 export class MarketplaceManager {
 	private configLoader: RemoteConfigLoader
+	private catalogLoader: CatalogLoader
 	private installer: SimpleInstaller
 
 	constructor(
@@ -31,6 +37,7 @@ export class MarketplaceManager {
 		private readonly customModesManager?: CustomModesManager,
 	) {
 		this.configLoader = new RemoteConfigLoader()
+		this.catalogLoader = new CatalogLoader()
 		this.installer = new SimpleInstaller(context, customModesManager)
 	}
 
@@ -50,7 +57,28 @@ export class MarketplaceManager {
 				errors.push(`Organization settings: ${orgErrorMessage}`)
 			}
 
-			const allMarketplaceItems = await this.configLoader.loadAllItems(orgSettings?.hideMarketplaceMcps)
+			const { catalogs, replacePublicMarketplace } = this.getCatalogSettings()
+			const workspacePath = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath
+
+			// Private catalogs take precedence over the public marketplace, and are
+			// loaded even if the public one is unreachable so they work offline
+			const [catalogResult, publicItems] = await Promise.all([
+				this.catalogLoader.loadCatalogs(catalogs, workspacePath),
+				replacePublicMarketplace
+					? Promise.resolve([])
+					: this.configLoader.loadAllItems(orgSettings?.hideMarketplaceMcps).catch((error) => {
+							console.error("Failed to load public marketplace items:", error)
+							errors.push(error instanceof Error ? error.message : String(error))
+							return []
+						}),
+			])
+			errors.push(...catalogResult.errors)
+
+			const catalogKeys = new Set(catalogResult.items.map((item) => `${item.type}:${item.id}`))
+			const allMarketplaceItems = [
+				...catalogResult.items,
+				...publicItems.filter((item) => !catalogKeys.has(`${item.type}:${item.id}`)),
+			]
 			let organizationMcps: MarketplaceItem[] = []
 			let marketplaceItems = allMarketplaceItems
 
@@ -89,6 +117,29 @@ export class MarketplaceManager {
 		}
 	}
 
+	/**
+	 * Get the private catalogs to load, in order of precedence. Catalogs from MDM
+	 * policy come before the user's; if the policy replaces the public marketplace,
+	 * only its catalogs are used so the organization controls what can be installed.
+	 */
+	private getCatalogSettings(): { catalogs: string[]; replacePublicMarketplace: boolean } {
+		const mdmService = MdmService.hasInstance() ? MdmService.getInstance() : undefined
+		const mdmCatalogs = mdmService?.getMarketplaceCatalogs() ?? []
+
+		if (mdmService?.replacesPublicMarketplace()) {
+			return { catalogs: mdmCatalogs, replacePublicMarketplace: true }
+		}
+
+		// User settings only: catalog items can install code, so a workspace must not be able to add catalogs
+		const userCatalogs =
+			vscode.workspace.getConfiguration(Package.name).inspect<string[]>("marketplaceCatalogs")?.globalValue ?? []
+
+		return {
+			catalogs: [...new Set([...mdmCatalogs, ...userCatalogs])],
+			replacePublicMarketplace: false,
+		}
+	}
+
 	async getCurrentItems(): Promise<MarketplaceItem[]> {
 		const result = await this.getMarketplaceItems()
 		return [...result.organizationMcps, ...result.marketplaceItems]
@@ -216,8 +267,9 @@ export class MarketplaceManager {
 	}
 
 	async cleanup(): Promise<void> {
-		// Clear API cache if needed
+		// Clear API and catalog caches if needed
 		this.configLoader.clearCache()
+		this.catalogLoader.clearCache()
 	}
 
 	/**
@@ -284,6 +336,10 @@ export class MarketplaceManager {
 			} catch (error) {
 				// File doesn't exist or can't be read, skip
 			}
+
+			// Check skills, slash commands and custom tools in .roo
+			const projectRooDir = getProjectRooDirectoryForCwd(workspaceFolder.uri.fsPath)
+			await this.checkRooDirectoryInstallations(projectRooDir, metadata)
 		} catch (error) {
 			console.error("Error checking project installations:", error)
 		}
@@ -329,8 +385,68 @@ export class MarketplaceManager {
 			} catch (error) {
 				// File doesn't exist or can't be read, skip
 			}
+
+			// Check global skills, slash commands and custom tools in ~/.roo
+			await this.checkRooDirectoryInstallations(getGlobalRooDirectory(), metadata)
 		} catch (error) {
 			console.error("Error checking global installations:", error)
 		}
 	}
+
+	/**
+	 * Check for skills, slash commands and custom tools installed in a .roo directory
+	 */
+	private async checkRooDirectoryInstallations(
+		rooDir: string,
+		metadata: Record<string, { type: string }>,
+	): Promise<void> {
+		// Skills are directories containing a SKILL.md
+		try {
+			const entries = await fs.readdir(path.join(rooDir, "skills"), { withFileTypes: true })
+			for (const entry of entries) {
+				if (!entry.isDirectory() && !entry.isSymbolicLink()) {
+					continue
+				}
+				try {
+					await fs.access(path.join(rooDir, "skills", entry.name, "SKILL.md"))
+					metadata[entry.name] = {
+						type: "skill",
+					}
+				} catch (error) {
+					// Not a skill, skip
+				}
+			}
+		} catch (error) {
+			// Directory doesn't exist or can't be read, skip
+		}
+
+		// Slash commands are markdown files
+		try {
+			const entries = await fs.readdir(path.join(rooDir, "commands"))
+			for (const entry of entries) {
+				if (isMarkdownFile(entry)) {
+					metadata[getCommandNameFromFile(entry)] = {
+						type: "command",
+					}
+				}
+			}
+		} catch (error) {
+			// Directory doesn't exist or can't be read, skip
+		}
+
+		// Custom tools are TypeScript or JavaScript files
+		try {
+			const entries = await fs.readdir(path.join(rooDir, "tools"))
+			for (const entry of entries) {
+				const extension = path.extname(entry)
+				if (extension === ".ts" || extension === ".js") {
+					metadata[path.basename(entry, extension)] = {
+						type: "tool",
+					}
+				}
+			}
+		} catch (error) {
+			// Directory doesn't exist or can't be read, skip
+		}
+	}
 }
@@ -5,6 +5,7 @@ import * as yaml from "yaml"
 import type { MarketplaceItem, MarketplaceItemType, InstallMarketplaceItemOptions, McpParameter } from "@roo-code/types"
 import { GlobalFileNames } from "../../shared/globalFileNames"
 import { ensureSettingsDirectoryExists } from "../../utils/globalContext"
+import { getGlobalRooDirectory, getProjectRooDirectoryForCwd } from "../roo-config"
 import type { CustomModesManager } from "../../core/config/CustomModesManager"
 
 export interface InstallOptions extends InstallMarketplaceItemOptions {
@@ -12,6 +13,12 @@ export interface InstallOptions extends InstallMarketplaceItemOptions {
 	selectedIndex?: number // Which installation method to use (for array content)
 }
 
+/** Skill names must be lowercase letters, numbers and single hyphens (Agent Skills spec) */
+const SKILL_NAME_FORMAT = /^[a-z0-9]+(?:-[a-z0-9]+)*$/
+
+/** Command and tool ids are used as file names, so they can't contain path separators */
+const FILE_NAME_FORMAT = /^[A-Za-z0-9][\w.-]*$/
+
 export class SimpleInstaller {
 	constructor(
 		private readonly context: vscode.ExtensionContext,
@@ -26,6 +33,12 @@ export class SimpleInstaller {
 				return await this.installMode(item, target)
 			case "mcp":
 				return await this.installMcp(item, target, options)
+			case "skill":
+				return await this.installSkill(item, target)
+			case "command":
+				return await this.installCommand(item, target)
+			case "tool":
+				return await this.installCustomTool(item, target)
 			default:
 				throw new Error(`Unsupported item type: ${(item as any).type}`)
 		}
@@ -278,6 +291,75 @@ export class SimpleInstaller {
 		return { filePath, line }
 	}
 
+	private async installSkill(
+		item: Extract<MarketplaceItem, { type: "skill" }>,
+		target: "project" | "global",
+	): Promise<{ filePath: string; line?: number }> {
+		if (!item.content) {
+			throw new Error("Skill item missing content")
+		}
+
+		const skillDir = this.getSkillDirectory(item.id, target)
+
+		// Validate every file before writing anything so a bad item can't leave a partial skill behind
+		const files: [string, string][] = [["SKILL.md", item.content]]
+		for (const [relativePath, content] of Object.entries(item.files ?? {})) {
+			const filePath = path.resolve(skillDir, relativePath)
+			if (!filePath.startsWith(skillDir + path.sep)) {
+				throw new Error(`Invalid skill file path: ${relativePath}`)
+			}
+			files.push([relativePath, content])
+		}
+
+		// Replace any previous installation so removed files don't linger
+		await fs.rm(skillDir, { recursive: true, force: true })
+
+		for (const [relativePath, content] of files) {
+			const filePath = path.resolve(skillDir, relativePath)
+			await fs.mkdir(path.dirname(filePath), { recursive: true })
+			await fs.writeFile(filePath, content, "utf-8")
+		}
+
+		return { filePath: path.join(skillDir, "SKILL.md") }
+	}
+
+	private async installCommand(
+		item: Extract<MarketplaceItem, { type: "command" }>,
+		target: "project" | "global",
+	): Promise<{ filePath: string; line?: number }> {
+		if (!item.content) {
+			throw new Error("Command item missing content")
+		}
+
+		const filePath = this.getCommandFilePath(item.id, target)
+
+		await fs.mkdir(path.dirname(filePath), { recursive: true })
+		await fs.writeFile(filePath, item.content, "utf-8")
+
+		return { filePath }
+	}
+
+	private async installCustomTool(
+		item: Extract<MarketplaceItem, { type: "tool" }>,
+		target: "project" | "global",
+	): Promise<{ filePath: string; line?: number }> {
+		if (!item.content) {
+			throw new Error("Custom tool item missing content")
+		}
+
+		const extension = item.language === "javascript" ? ".js" : ".ts"
+		const filePath = this.getCustomToolFilePath(item.id, target, extension)
+
+		// A tool is either a .ts or a .js file; drop the other one so the registry doesn't load both
+		const otherExtension = extension === ".ts" ? ".js" : ".ts"
+		await fs.rm(this.getCustomToolFilePath(item.id, target, otherExtension), { force: true })
+
+		await fs.mkdir(path.dirname(filePath), { recursive: true })
+		await fs.writeFile(filePath, item.content, "utf-8")
+
+		return { filePath }
+	}
+
 	async removeItem(item: MarketplaceItem, options: InstallOptions): Promise<void> {
 		const { target } = options
 
@@ -288,6 +370,16 @@ export class SimpleInstaller {
 			case "mcp":
 				await this.removeMcp(item, target)
 				break
+			case "skill":
+				await fs.rm(this.getSkillDirectory(item.id, target), { recursive: true, force: true })
+				break
+			case "command":
+				await fs.rm(this.getCommandFilePath(item.id, target), { force: true })
+				break
+			case "tool":
+				await fs.rm(this.getCustomToolFilePath(item.id, target, ".ts"), { force: true })
+				await fs.rm(this.getCustomToolFilePath(item.id, target, ".js"), { force: true })
+				break
 			default:
 				throw new Error(`Unsupported item type: ${(item as any).type}`)
 		}
@@ -381,4 +473,45 @@ export class SimpleInstaller {
 			return path.join(globalSettingsPath, GlobalFileNames.mcpSettings)
 		}
 	}
+
+	/**
+	 * Skills, slash commands and custom tools live in the .roo directory of the
+	 * workspace or of the user's home directory rather than in the settings directory.
+	 */
+	private getRooDirectory(target: "project" | "global"): string {
+		if (target === "project") {
+			const workspaceFolder = vscode.workspace.workspaceFolders?.[0]
+			if (!workspaceFolder) {
+				throw new Error("No workspace folder found")
+			}
+			return getProjectRooDirectoryForCwd(workspaceFolder.uri.fsPath)
+		} else {
+			return getGlobalRooDirectory()
+		}
+	}
+
+	private getSkillDirectory(id: string, target: "project" | "global"): string {
+		if (!SKILL_NAME_FORMAT.test(id)) {
+			throw new Error(`Invalid skill name: ${id}`)
+		}
+		return path.join(this.getRooDirectory(target), "skills", id)
+	}
+
+	private getCommandFilePath(id: string, target: "project" | "global"): string {
+		if (!FILE_NAME_FORMAT.test(id)) {
+			throw new Error(`Invalid command name: ${id}`)
+		}
+		return path.join(this.getRooDirectory(target), "commands", `${id}.md`)
+	}
+
+	private getCustomToolFilePath(
+		id: string,
+		target: "project" | "global",
+		extension: ".ts" | ".js",
+	): string {
+		if (!FILE_NAME_FORMAT.test(id)) {
+			throw new Error(`Invalid custom tool name: ${id}`)
+		}
+		return path.join(this.getRooDirectory(target), "tools", `${id}${extension}`)
+	}
 }
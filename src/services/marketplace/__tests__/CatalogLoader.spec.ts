@@ -0,0 +1,125 @@
+// npx vitest services/marketplace/__tests__/CatalogLoader.spec.ts
+
+import * as fs from "fs/promises"
+import * as os from "os"
+import * as path from "path"
+
+import axios from "axios"
+
+import { CatalogLoader } from "../CatalogLoader"
+
+vi.mock("axios")
+const mockedAxios = axios as any
+
+const modesYaml = (name: string) => `items:
+  - id: "reviewer"
+    name: "${name}"
+    description: "Reviews code"
+    content: "slug: reviewer\\nname: ${name}"`
+
+const commandsYaml = `items:
+  - id: "release"
+    name: "Release"
+    description: "Cut a release"
+    content: "Bump the version and tag it."`
+
+describe("CatalogLoader", () => {
+	let loader: CatalogLoader
+	let tempDir: string
+
+	beforeEach(async () => {
+		vi.clearAllMocks()
+		loader = new CatalogLoader()
+		tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "marketplace-catalog-"))
+		mockedAxios.isAxiosError.mockImplementation((error: any) => error?.isAxiosError === true)
+	})
+
+	afterEach(async () => {
+		await fs.rm(tempDir, { recursive: true, force: true })
+	})
+
+	it("loads the item files present in a directory catalog", async () => {
+		await fs.writeFile(path.join(tempDir, "modes.yaml"), modesYaml("Reviewer"))
+		await fs.writeFile(path.join(tempDir, "commands.yaml"), commandsYaml)
+
+		const result = await loader.loadCatalogs([tempDir])
+
+		expect(result.errors).toEqual([])
+		expect(result.items).toEqual([
+			expect.objectContaining({ type: "mode", id: "reviewer", name: "Reviewer", catalog: tempDir }),
+			expect.objectContaining({ type: "command", id: "release", catalog: tempDir }),
+		])
+	})
+
+	it("resolves relative directories against the workspace", async () => {
+		await fs.mkdir(path.join(tempDir, "catalog"))
+		await fs.writeFile(path.join(tempDir, "catalog", "commands.yaml"), commandsYaml)
+
+		const result = await loader.loadCatalogs(["catalog"], tempDir)
+
+		expect(result.items).toHaveLength(1)
+	})
+
+	it("gives earlier catalogs precedence for items of the same type and id", async () => {
+		const first = path.join(tempDir, "first")
+		const second = path.join(tempDir, "second")
+		await fs.mkdir(first)
+		await fs.mkdir(second)
+		await fs.writeFile(path.join(first, "modes.yaml"), modesYaml("Approved Reviewer"))
+		await fs.writeFile(path.join(second, "modes.yaml"), modesYaml("Other Reviewer"))
+		await fs.writeFile(path.join(second, "commands.yaml"), commandsYaml)
+
+		const result = await loader.loadCatalogs([first, second])
+
+		expect(result.items.map((item) => item.name)).toEqual(["Approved Reviewer", "Release"])
+	})
+
+	it("reports failing catalogs without dropping the others", async () => {
+		await fs.writeFile(path.join(tempDir, "commands.yaml"), commandsYaml)
+		const invalid = path.join(tempDir, "invalid")
+		await fs.mkdir(invalid)
+		await fs.writeFile(path.join(invalid, "mcps.yaml"), "items:\n  - id: broken\n")
+		const missing = path.join(tempDir, "missing")
+
+		const result = await loader.loadCatalogs([invalid, missing, tempDir])
+
+		expect(result.items).toEqual([expect.objectContaining({ type: "command", id: "release" })])
+		expect(result.errors).toEqual([
+			expect.stringContaining(`Catalog ${invalid}: Invalid mcps.yaml: items.0.name`),
+			`Catalog ${missing}: Directory not found`,
+		])
+	})
+
+	it("fetches the item files of a URL catalog and skips missing ones", async () => {
+		mockedAxios.get.mockImplementation((url: string) => {
+			if (url === "https://catalog.example.com/marketplace/commands.yaml") {
+				return Promise.resolve({ data: commandsYaml })
+			}
+			return Promise.reject({ isAxiosError: true, response: { status: 404 } })
+		})
+
+		const result = await loader.loadCatalogs(["https://catalog.example.com/marketplace"])
+
+		expect(mockedAxios.get).toHaveBeenCalledWith(
+			"https://catalog.example.com/marketplace/modes.yaml",
+			expect.objectContaining({ timeout: 10000 }),
+		)
+		expect(result.errors).toEqual([])
+		expect(result.items).toEqual([expect.objectContaining({ type: "command", id: "release" })])
+
+		// URL catalogs are cached
+		await loader.loadCatalogs(["https://catalog.example.com/marketplace"])
+		expect(mockedAxios.get).toHaveBeenCalledTimes(5)
+	})
+
+	it("reports unreachable URL catalogs", async () => {
+		mockedAxios.get.mockRejectedValue(new Error("getaddrinfo ENOTFOUND catalog.example.com"))
+
+		const result = await loader.loadCatalogs(["https://catalog.example.com"])
+
+		expect(result.items).toEqual([])
+		expect(result.errors).toEqual([
+			"Catalog https://catalog.example.com: getaddrinfo ENOTFOUND catalog.example.com",
+		])
+	})
+})
@@ -1,8 +1,13 @@
 // npx vitest services/marketplace/__tests__/MarketplaceManager.spec.ts
 
+import * as fs from "fs/promises"
+import * as os from "os"
+import * as path from "path"
+
 import type { MarketplaceItem } from "@roo-code/types"
 
 import { MarketplaceManager } from "../MarketplaceManager"
+import { MdmService } from "../../mdm/MdmService"
 
 // Mock CloudService
 vi.mock("@roo-code/cloud", () => ({
@@ -29,6 +34,15 @@ vi.mock("../../../../packages/telemetry/src/TelemetryService", () => ({
 	},
 }))
 
+const { mockInspectConfiguration } = vi.hoisted(() => ({ mockInspectConfiguration: vi.fn() }))
+
+vi.mock("../../mdm/MdmService", () => ({
+	MdmService: {
+		hasInstance: vi.fn().mockReturnValue(false),
+		getInstance: vi.fn(),
+	},
+}))
+
 // Mock vscode first
 vi.mock("vscode", () => ({
 	workspace: {
@@ -40,6 +54,7 @@ vi.mock("vscode", () => ({
 			},
 		],
 		openTextDocument: vi.fn(),
+		getConfiguration: vi.fn(() => ({ inspect: mockInspectConfiguration })),
 	},
 	window: {
 		showInformationMessage: vi.fn(),
@@ -68,11 +83,16 @@ const mockContext = {
 // Mock fs
 vi.mock("fs/promises", () => ({
 	readFile: vi.fn(),
+	readdir: vi.fn(),
 	access: vi.fn(),
 	writeFile: vi.fn(),
 	mkdir: vi.fn(),
 }))
 
+vi.mock("../../../utils/globalContext", () => ({
+	ensureSettingsDirectoryExists: vi.fn().mockResolvedValue("/test/settings"),
+}))
+
 // Mock yaml
 vi.mock("yaml", () => ({
 	parse: vi.fn(),
@@ -85,6 +105,8 @@ describe("MarketplaceManager", () => {
 	beforeEach(() => {
 		manager = new MarketplaceManager(mockContext)
 		vi.clearAllMocks()
+		mockInspectConfiguration.mockReturnValue({})
+		vi.mocked(MdmService.hasInstance).mockReturnValue(false)
 	})
 
 	describe("filterItems", () => {
@@ -188,6 +210,73 @@ describe("MarketplaceManager", () => {
 			expect(result.errors).toEqual(["API request failed"])
 		})
 
+		it("should list private catalog items before public items with the same id", async () => {
+			mockInspectConfiguration.mockReturnValue({ globalValue: ["/catalogs/user"] })
+			vi.spyOn(manager["catalogLoader"], "loadCatalogs").mockResolvedValue({
+				items: [
+					{ id: "reviewer", name: "Approved Reviewer", description: "", type: "mode", content: "slug: a" },
+				],
+				errors: ["Catalog https://down.example.com: timeout"],
+			})
+			vi.spyOn(manager["configLoader"], "loadAllItems").mockResolvedValue([
+				{ id: "reviewer", name: "Public Reviewer", description: "", type: "mode", content: "slug: b" },
+				{ id: "tester", name: "Public Tester", description: "", type: "mode", content: "slug: c" },
+			])
+
+			const result = await manager.getMarketplaceItems()
+
+			expect(manager["catalogLoader"].loadCatalogs).toHaveBeenCalledWith(["/catalogs/user"], "/test/workspace")
+			expect(result.marketplaceItems.map((item) => item.name)).toEqual(["Approved Reviewer", "Public Tester"])
+			expect(result.errors).toEqual(["Catalog https://down.example.com: timeout"])
+		})
+
+		it("should ignore catalogs from workspace settings", async () => {
+			mockInspectConfiguration.mockReturnValue({
+				globalValue: ["/catalogs/user"],
+				workspaceValue: ["./evil-catalog"],
+				workspaceFolderValue: ["./evil-catalog"],
+			})
+			vi.spyOn(manager["catalogLoader"], "loadCatalogs").mockResolvedValue({ items: [], errors: [] })
+			vi.spyOn(manager["configLoader"], "loadAllItems").mockResolvedValue([])
+
+			await manager.getMarketplaceItems()
+
+			expect(manager["catalogLoader"].loadCatalogs).toHaveBeenCalledWith(["/catalogs/user"], "/test/workspace")
+		})
+
+		it("should keep catalog items when the public marketplace is unreachable", async () => {
+			mockInspectConfiguration.mockReturnValue({ globalValue: ["/catalogs/user"] })
+			vi.spyOn(manager["catalogLoader"], "loadCatalogs").mockResolvedValue({
+				items: [{ id: "release", name: "Release", description: "", type: "command", content: "Tag it" }],
+				errors: [],
+			})
+			vi.spyOn(manager["configLoader"], "loadAllItems").mockRejectedValue(new Error("Network error"))
+
+			const result = await manager.getMarketplaceItems()
+
+			expect(result.marketplaceItems.map((item) => item.id)).toEqual(["release"])
+			expect(result.errors).toEqual(["Network error"])
+		})
+
+		it("should only use MDM catalogs when the policy replaces the public marketplace", async () => {
+			vi.mocked(MdmService.hasInstance).mockReturnValue(true)
+			vi.mocked(MdmService.getInstance).mockReturnValue({
+				getMarketplaceCatalogs: () => ["/opt/acme/marketplace"],
+				replacesPublicMarketplace: () => true,
+			} as any)
+			mockInspectConfiguration.mockReturnValue({ globalValue: ["/catalogs/user"] })
+			vi.spyOn(manager["catalogLoader"], "loadCatalogs").mockResolvedValue({ items: [], errors: [] })
+			vi.spyOn(manager["configLoader"], "loadAllItems")
+
+			await manager.getMarketplaceItems()
+
+			expect(manager["catalogLoader"].loadCatalogs).toHaveBeenCalledWith(
+				["/opt/acme/marketplace"],
+				"/test/workspace",
+			)
+			expect(manager["configLoader"].loadAllItems).not.toHaveBeenCalled()
+		})
+
 		it("should return organization MCPs when available", async () => {
 			const { CloudService } = await import("@roo-code/cloud")
 
@@ -395,4 +484,44 @@ describe("MarketplaceManager", () => {
 			expect(manager["configLoader"].clearCache).toHaveBeenCalled()
 		})
 	})
+
+	describe("getInstallationMetadata", () => {
+		it("should detect skills, slash commands and custom tools in project and global .roo directories", async () => {
+			const projectRooDir = path.join("/test/workspace", ".roo")
+			const globalRooDir = path.join(os.homedir(), ".roo")
+			const directories: Record<string, any[]> = {
+				[path.join(projectRooDir, "skills")]: [
+					{ name: "pdf-tools", isDirectory: () => true, isSymbolicLink: () => false },
+					{ name: "no-skill-md", isDirectory: () => true, isSymbolicLink: () => false },
+					{ name: "README.md", isDirectory: () => false, isSymbolicLink: () => false },
+				],
+				[path.join(projectRooDir, "commands")]: ["release.md", "notes.txt"],
+				[path.join(globalRooDir, "tools")]: ["weather.ts", "legacy.js", "types.d.json"],
+			}
+
+			vi.mocked(fs.readFile).mockRejectedValue(new Error("ENOENT"))
+			vi.mocked(fs.readdir).mockImplementation((async (dirPath: string) => {
+				if (!directories[dirPath]) {
+					throw new Error("ENOENT")
+				}
+				return directories[dirPath]
+			}) as any)
+			vi.mocked(fs.access).mockImplementation(async (filePath) => {
+				if (filePath !== path.join(projectRooDir, "skills", "pdf-tools", "SKILL.md")) {
+					throw new Error("ENOENT")
+				}
+			})
+
+			const metadata = await manager.getInstallationMetadata()
+
+			expect(metadata.project).toEqual({
+				"pdf-tools": { type: "skill" },
+				release: { type: "command" },
+			})
+			expect(metadata.global).toEqual({
+				weather: { type: "tool" },
+				legacy: { type: "tool" },
+			})
+		})
+	})
 })
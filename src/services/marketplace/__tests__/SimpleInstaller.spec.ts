@@ -346,4 +346,165 @@ describe("SimpleInstaller", () => {
 			)
 		})
 	})
+
+	describe("installSkill", () => {
+		const mockSkillItem: MarketplaceItem = {
+			id: "pdf-tools",
+			name: "PDF Tools",
+			description: "Work with PDF files",
+			type: "skill",
+			content: "---\nname: pdf-tools\ndescription: Work with PDF files\n---\n\nUse scripts/extract.py",
+			files: { "scripts/extract.py": "print('extract')" },
+		}
+
+		it("should replace the skill directory in the project .roo directory", async () => {
+			const skillDir = path.join("/test/workspace", ".roo", "skills", "pdf-tools")
+
+			const result = await installer.installItem(mockSkillItem, { target: "project" })
+
+			expect(result.filePath).toBe(path.join(skillDir, "SKILL.md"))
+			expect(mockFs.rm).toHaveBeenCalledWith(skillDir, { recursive: true, force: true })
+			expect(mockFs.writeFile).toHaveBeenCalledWith(
+				path.join(skillDir, "SKILL.md"),
+				mockSkillItem.content,
+				"utf-8",
+			)
+			expect(mockFs.writeFile).toHaveBeenCalledWith(
+				path.join(skillDir, "scripts", "extract.py"),
+				"print('extract')",
+				"utf-8",
+			)
+		})
+
+		it("should install global skills in the home .roo directory", async () => {
+			const result = await installer.installItem(mockSkillItem, { target: "global" })
+
+			expect(result.filePath).toBe(path.join("/home/user", ".roo", "skills", "pdf-tools", "SKILL.md"))
+		})
+
+		it("should reject skill names that don't follow the skills naming rules", async () => {
+			await expect(
+				installer.installItem({ ...mockSkillItem, id: "PDF_Tools" }, { target: "project" }),
+			).rejects.toThrow("Invalid skill name: PDF_Tools")
+			expect(mockFs.writeFile).not.toHaveBeenCalled()
+		})
+
+		it("should reject files outside the skill directory without writing anything", async () => {
+			const item = { ...mockSkillItem, files: { "../../mcp.json": "{}" } }
+
+			await expect(installer.installItem(item, { target: "project" })).rejects.toThrow(
+				"Invalid skill file path: ../../mcp.json",
+			)
+			expect(mockFs.rm).not.toHaveBeenCalled()
+			expect(mockFs.writeFile).not.toHaveBeenCalled()
+		})
+	})
+
+	describe("installCommand", () => {
+		const mockCommandItem: MarketplaceItem = {
+			id: "release",
+			name: "Release",
+			description: "Cut a release",
+			type: "command",
+			content: "---\ndescription: Cut a release\n---\n\nBump the version and tag it.",
+		}
+
+		it("should write the command file to the commands directory", async () => {
+			const result = await installer.installItem(mockCommandItem, { target: "project" })
+
+			const filePath = path.join("/test/workspace", ".roo", "commands", "release.md")
+			expect(result.filePath).toBe(filePath)
+			expect(mockFs.writeFile).toHaveBeenCalledWith(filePath, mockCommandItem.content, "utf-8")
+		})
+
+		it("should reject ids containing path separators", async () => {
+			await expect(
+				installer.installItem({ ...mockCommandItem, id: "../release" }, { target: "global" }),
+			).rejects.toThrow("Invalid command name: ../release")
+		})
+	})
+
+	describe("installCustomTool", () => {
+		const mockToolItem: MarketplaceItem = {
+			id: "weather",
+			name: "Weather",
+			description: "Look up the weather",
+			type: "tool",
+			content: "export default defineCustomTool({ name: 'weather' })",
+		}
+
+		it("should write a TypeScript tool by default and remove a JavaScript version", async () => {
+			const toolsDir = path.join("/home/user", ".roo", "tools")
+
+			const result = await installer.installItem(mockToolItem, { target: "global" })
+
+			expect(result.filePath).toBe(path.join(toolsDir, "weather.ts"))
+			expect(mockFs.rm).toHaveBeenCalledWith(path.join(toolsDir, "weather.js"), { force: true })
+			expect(mockFs.writeFile).toHaveBeenCalledWith(
+				path.join(toolsDir, "weather.ts"),
+				mockToolItem.content,
+				"utf-8",
+			)
+		})
+
+		it("should write a JavaScript tool when the language is javascript", async () => {
+			const result = await installer.installItem(
+				{ ...mockToolItem, language: "javascript" },
+				{ target: "project" },
+			)
+
+			expect(result.filePath).toBe(path.join("/test/workspace", ".roo", "tools", "weather.js"))
+		})
+	})
+
+	describe("remove skills, slash commands and custom tools", () => {
+		it("should remove the skill directory", async () => {
+			const item: MarketplaceItem = {
+				id: "pdf-tools",
+				name: "PDF Tools",
+				description: "Work with PDF files",
+				type: "skill",
+				content: "---\nname: pdf-tools\n---",
+			}
+
+			await installer.removeItem(item, { target: "global" })
+
+			expect(mockFs.rm).toHaveBeenCalledWith(path.join("/home/user", ".roo", "skills", "pdf-tools"), {
+				recursive: true,
+				force: true,
+			})
+		})
+
+		it("should remove the command file", async () => {
+			const item: MarketplaceItem = {
+				id: "release",
+				name: "Release",
+				description: "Cut a release",
+				type: "command",
+				content: "Bump the version",
+			}
+
+			await installer.removeItem(item, { target: "project" })
+
+			expect(mockFs.rm).toHaveBeenCalledWith(path.join("/test/workspace", ".roo", "commands", "release.md"), {
+				force: true,
+			})
+		})
+
+		it("should remove both TypeScript and JavaScript versions of a custom tool", async () => {
+			const item: MarketplaceItem = {
+				id: "weather",
+				name: "Weather",
+				description: "Look up the weather",
+				type: "tool",
+				content: "export default {}",
+			}
+
+			await installer.removeItem(item, { target: "project" })
+
+			const toolsDir = path.join("/test/workspace", ".roo", "tools")
+			expect(mockFs.rm).toHaveBeenCalledWith(path.join(toolsDir, "weather.ts"), { force: true })
+			expect(mockFs.rm).toHaveBeenCalledWith(path.join(toolsDir, "weather.js"), { force: true })
+		})
+	})
 })
@@ -11,6 +11,8 @@ import { t } from "../../i18n"
 const mdmConfigSchema = z.object({
 	requireCloudAuth: z.boolean(),
 	organizationId: z.string().optional(),
+	marketplaceCatalogs: z.array(z.string()).optional(),
+	replacePublicMarketplace: z.boolean().optional(),
 })
 
 export type MdmConfig = z.infer<typeof mdmConfigSchema>
@@ -56,6 +58,21 @@ export class MdmService {
 		return this.mdmConfig?.organizationId
 	}
 
+	/**
+	 * Get the private marketplace catalogs (directories or URLs) from MDM policy
+	 */
+	public getMarketplaceCatalogs(): string[] {
+		return this.mdmConfig?.marketplaceCatalogs ?? []
+	}
+
+	/**
+	 * Check if MDM policy restricts the marketplace to its own catalogs, replacing
+	 * the public marketplace and any catalogs configured by the user
+	 */
+	public replacesPublicMarketplace(): boolean {
+		return this.mdmConfig?.replacePublicMarketplace ?? false
+	}
+
 	/**
 	 * Check if the current state is compliant with MDM policy
 	 */
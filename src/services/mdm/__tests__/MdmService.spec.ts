@@ -145,6 +145,33 @@ describe("MdmService", () => {
 		})
 	})
 
+	describe("marketplace policy", () => {
+		it("should expose the marketplace catalogs and public marketplace replacement", async () => {
+			const mockConfig = {
+				requireCloudAuth: false,
+				marketplaceCatalogs: ["/opt/acme/marketplace", "https://marketplace.acme.internal/catalog"],
+				replacePublicMarketplace: true,
+			}
+
+			mockFs.existsSync.mockReturnValue(true)
+			mockFs.readFileSync.mockReturnValue(JSON.stringify(mockConfig))
+
+			const service = await MdmService.createInstance()
+
+			expect(service.getMarketplaceCatalogs()).toEqual(mockConfig.marketplaceCatalogs)
+			expect(service.replacesPublicMarketplace()).toBe(true)
+		})
+
+		it("should default to no catalogs and the public marketplace", async () => {
+			mockFs.existsSync.mockReturnValue(false)
+
+			const service = await MdmService.createInstance()
+
+			expect(service.getMarketplaceCatalogs()).toEqual([])
+			expect(service.replacesPublicMarketplace()).toBe(false)
+		})
+	})
+
 	describe("platform-specific config paths", () => {
 		let originalNodeEnv: string | undefined
 
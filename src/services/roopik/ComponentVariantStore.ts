@@ -0,0 +1,101 @@
+/**
+ * ComponentVariantStore
+ *
+ * Remembers the variant matrix each canvas component was placed with, so the
+ * grid can be reviewed and described later without the model having to repeat
+ * the matrix:
+ *
+ * ```
+ * .dio/component-variants.json
+ * ```
+ */
+
+import * as fs from "fs/promises"
+import * as path from "path"
+
+import { safeWriteJson } from "../../utils/safeWriteJson"
+import { getRoopikProjectDirectory } from "./paths"
+import { expandVariantMatrix, type ComponentVariant, type VariantMatrix } from "./component-variants"
+
+export interface ComponentVariantEntry {
+	componentId: string
+	componentName?: string
+	matrix: VariantMatrix
+	baseProps?: Record<string, unknown>
+	createdAt: string
+	updatedAt: string
+}
+
+interface ComponentVariantFile {
+	version: 1
+	components: Record<string, ComponentVariantEntry>
+}
+
+export class ComponentVariantStore {
+	static readonly FILE_NAME = "component-variants.json"
+
+	private readonly filePath: string
+
+	constructor(cwd: string) {
+		this.filePath = path.join(getRoopikProjectDirectory(cwd), ComponentVariantStore.FILE_NAME)
+	}
+
+	get path(): string {
+		return this.filePath
+	}
+
+	async get(componentId: string): Promise<ComponentVariantEntry | undefined> {
+		return (await this.read()).components[componentId]
+	}
+
+	/**
+	 * Get the expanded variants for a component, or undefined if it has no matrix
+	 */
+	async getVariants(componentId: string): Promise<ComponentVariant[] | undefined> {
+		const entry = await this.get(componentId)
+		return entry ? expandVariantMatrix(entry.matrix, entry.baseProps) : undefined
+	}
+
+	async set(entry: Omit<ComponentVariantEntry, "createdAt" | "updatedAt">): Promise<ComponentVariantEntry> {
+		const file = await this.read()
+		const now = new Date().toISOString()
+		const saved: ComponentVariantEntry = {
+			...entry,
+			createdAt: file.components[entry.componentId]?.createdAt ?? now,
+			updatedAt: now,
+		}
+		file.components[entry.componentId] = saved
+		await this.write(file)
+		return saved
+	}
+
+	/**
+	 * @returns whether an entry was removed
+	 */
+	async remove(componentId: string): Promise<boolean> {
+		const file = await this.read()
+		if (!file.components[componentId]) {
+			return false
+		}
+		delete file.components[componentId]
+		await this.write(file)
+		return true
+	}
+
+	private async read(): Promise<ComponentVariantFile> {
+		let content: string
+		try {
+			content = await fs.readFile(this.filePath, "utf-8")
+		} catch {
+			return { version: 1, components: {} }
+		}
+
+		const parsed = JSON.parse(content) as Partial<ComponentVariantFile>
+		const components = parsed.components && typeof parsed.components === "object" ? parsed.components : {}
+		return { version: 1, components }
+	}
+
+	private async write(file: ComponentVariantFile): Promise<void> {
+		await safeWriteJson(this.filePath, file, { prettyPrint: true })
+	}
+}
@@ -0,0 +1,122 @@
+/**
+ * NetworkMockStore
+ *
+ * Persists network mock rules per project so they survive reloads and new
+ * tasks, and can be committed alongside fixtures:
+ *
+ * ```
+ * .dio/network-mocks.json
+ * ```
+ */
+
+import * as fs from "fs/promises"
+import * as path from "path"
+
+import { safeWriteJson } from "../../utils/safeWriteJson"
+import { getRoopikProjectDirectory, toProjectFileName } from "./paths"
+import { toUrlRegExp, type NetworkMockRule } from "./network-mocks"
+
+interface NetworkMockFile {
+	version: 1
+	rules: NetworkMockRule[]
+}
+
+export type NetworkMockRuleInput = Omit<NetworkMockRule, "id" | "createdAt" | "updatedAt" | "status"> & {
+	id?: string
+	status?: number
+}
+
+export class NetworkMockStore {
+	static readonly FILE_NAME = "network-mocks.json"
+
+	private readonly filePath: string
+
+	constructor(cwd: string) {
+		this.filePath = path.join(getRoopikProjectDirectory(cwd), NetworkMockStore.FILE_NAME)
+	}
+
+	get path(): string {
+		return this.filePath
+	}
+
+	async listRules(): Promise<NetworkMockRule[]> {
+		return (await this.read()).rules
+	}
+
+	/**
+	 * Add a rule, or replace the rule with the same id
+	 * @throws Error if the URL pattern or status is invalid
+	 */
+	async upsertRule(input: NetworkMockRuleInput): Promise<{ rule: NetworkMockRule; replaced: boolean }> {
+		toUrlRegExp(input.urlPattern)
+
+		const status = input.status ?? 200
+		if (!Number.isInteger(status) || (status !== 0 && (status < 100 || status > 599))) {
+			throw new Error(`Invalid status ${status}: expected 0 (network error) or 100-599`)
+		}
+
+		const file = await this.read()
+		// Derived ids keep only the readable parts of the pattern, e.g. "GET */api/users*" → "get-api-users"
+		const id = toProjectFileName(input.id || `${input.method ?? "any"} ${input.urlPattern}`.replace(/[^a-zA-Z0-9]+/g, " "))
+		const index = file.rules.findIndex((rule) => rule.id === id)
+		const now = new Date().toISOString()
+
+		const rule: NetworkMockRule = {
+			...input,
+			id,
+			status,
+			method: input.method?.toUpperCase(),
+			createdAt: index >= 0 ? file.rules[index].createdAt : now,
+			updatedAt: now,
+		}
+
+		if (index >= 0) {
+			file.rules[index] = rule
+		} else {
+			file.rules.push(rule)
+		}
+		await this.write(file)
+
+		return { rule, replaced: index >= 0 }
+	}
+
+	/**
+	 * Remove a rule by id
+	 * @returns whether a rule was removed
+	 */
+	async removeRule(id: string): Promise<boolean> {
+		const file = await this.read()
+		const rules = file.rules.filter((rule) => rule.id !== id)
+		if (rules.length === file.rules.length) {
+			return false
+		}
+		await this.write({ ...file, rules })
+		return true
+	}
+
+	/**
+	 * Remove all rules
+	 * @returns the number of rules removed
+	 */
+	async clear(): Promise<number> {
+		const file = await this.read()
+		await this.write({ ...file, rules: [] })
+		return file.rules.length
+	}
+
+	private async read(): Promise<NetworkMockFile> {
+		let content: string
+		try {
+			content = await fs.readFile(this.filePath, "utf-8")
+		} catch {
+			return { version: 1, rules: [] }
+		}
+
+		const parsed = JSON.parse(content) as Partial<NetworkMockFile>
+		return { version: 1, rules: Array.isArray(parsed.rules) ? parsed.rules : [] }
+	}
+
+	private async write(file: NetworkMockFile): Promise<void> {
+		await safeWriteJson(this.filePath, file, { prettyPrint: true })
+	}
+}
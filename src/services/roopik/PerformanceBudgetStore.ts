@@ -0,0 +1,55 @@
+/**
+ * PerformanceBudgetStore
+ *
+ * Reads the project's performance budget, which is written by the team and
+ * committed with the code:
+ *
+ * ```
+ * .dio/performance-budget.json
+ * {
+ *   "version": 1,
+ *   "budgets": { "lcpMs": 2500, "cls": 0.1, "jsHeapMb": 50, "longTaskCount": 5, "scriptBytes": 350000 }
+ * }
+ * ```
+ */
+
+import * as fs from "fs/promises"
+import * as path from "path"
+
+import { getRoopikProjectDirectory } from "./paths"
+import { parsePerformanceBudget, type PerformanceBudget } from "./performance-budget"
+
+export class PerformanceBudgetStore {
+	static readonly FILE_NAME = "performance-budget.json"
+
+	private readonly filePath: string
+
+	constructor(cwd: string) {
+		this.filePath = path.join(getRoopikProjectDirectory(cwd), PerformanceBudgetStore.FILE_NAME)
+	}
+
+	get path(): string {
+		return this.filePath
+	}
+
+	/**
+	 * Load the budget, or undefined if the project has none
+	 * @throws Error if the file exists but is not a valid budget
+	 */
+	async load(): Promise<PerformanceBudget | undefined> {
+		let content: string
+		try {
+			content = await fs.readFile(this.filePath, "utf-8")
+		} catch {
+			return undefined
+		}
+
+		try {
+			return parsePerformanceBudget(JSON.parse(content))
+		} catch (error) {
+			throw new Error(
+				`Invalid ${PerformanceBudgetStore.FILE_NAME}: ${error instanceof Error ? error.message : String(error)}`,
+			)
+		}
+	}
+}
@@ -0,0 +1,77 @@
+/**
+ * RoopikToolBackend
+ *
+ * Where RoopikToolClient sends tool calls. Inside Roopik IDE that is the
+ * VS Code command channel to core; elsewhere (plain VS Code, the CLI, evals,
+ * tests) a backend such as LocalRoopikToolBackend can stand in for it.
+ *
+ * Commands use the IDE's naming: typed client methods call
+ * `roopik.tools.<name>` (e.g. "roopik.tools.screenshot"), and generic calls go
+ * through `executeTool(tool, args)`.
+ */
+
+import * as vscode from "vscode"
+
+import type { RoopikToolResult } from "./RoopikToolClient"
+
+export const ROOPIK_TOOL_COMMAND_PREFIX = "roopik.tools."
+
+export interface RoopikToolBackend {
+	/** Short name for logs, e.g. "ide" or "local" */
+	readonly name: string
+
+	/** Whether tool calls can currently be served */
+	isAvailable(): Promise<boolean>
+
+	/**
+	 * Whether a typed tool command can be served. Optional commands (those not
+	 * every Roopik IDE build registers) are checked with this before use;
+	 * backends that don't implement it support none of them.
+	 */
+	hasCommand?(command: string): Promise<boolean>
+
+	/** Run a typed tool command, e.g. "roopik.tools.navigate" */
+	executeCommand<T>(command: string, args?: Record<string, unknown>): Promise<RoopikToolResult<T>>
+
+	/** Run any tool by name (the generic roopik.executeTool entry point) */
+	executeTool<T>(tool: string, args?: Record<string, unknown>): Promise<RoopikToolResult<T>>
+
+	/** Release browsers, processes, etc. */
+	dispose?(): Promise<void>
+}
+
+/**
+ * Default backend: forwards every call to Roopik IDE core through VS Code commands
+ */
+export class IdeRoopikToolBackend implements RoopikToolBackend {
+	readonly name = "ide"
+
+	/**
+	 * Returns true if the roopik.executeTool command is registered
+	 */
+	async isAvailable(): Promise<boolean> {
+		const commands = await vscode.commands.getCommands(true)
+		return commands.includes("roopik.executeTool")
+	}
+
+	async hasCommand(command: string): Promise<boolean> {
+		const commands = await vscode.commands.getCommands(true)
+		return commands.includes(command)
+	}
+
+	async executeCommand<T>(command: string, args?: Record<string, unknown>): Promise<RoopikToolResult<T>> {
+		try {
+			const result = await vscode.commands.executeCommand<RoopikToolResult<T>>(command, args)
+			return result || { success: false, error: "No result from command" }
+		} catch (error) {
+			return {
+				success: false,
+				error: error instanceof Error ? error.message : String(error),
+			}
+		}
+	}
+
+	async executeTool<T>(tool: string, args?: Record<string, unknown>): Promise<RoopikToolResult<T>> {
+		return this.executeCommand<T>("roopik.executeTool", { tool, args })
+	}
+}
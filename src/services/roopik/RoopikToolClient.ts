@@ -7,6 +7,9 @@
  * Architecture:
  * RoopikToolClient → vscode.commands.executeCommand() → roopikToolsCommands → IPC → RoopikToolsChannel
  *
+ * The transport is pluggable (see RoopikToolBackend): outside Roopik IDE a
+ * local backend can serve the same calls with headless Chromium.
+ *
  * Usage:
  * ```typescript
  * const client = RoopikToolClient.getInstance();
@@ -17,7 +20,8 @@
  * ```
  */
 
-import * as vscode from "vscode"
+import type { ComponentVariant, VariantCapture } from "./component-variants"
+import { IdeRoopikToolBackend, type RoopikToolBackend } from "./RoopikToolBackend"
 
 // ============================================================================
 // Types
@@ -69,6 +73,15 @@ export interface BrowserActionData {
 	message: string
 }
 
+/**
+ * Browser open result data
+ */
+export interface BrowserOpenData {
+	url?: string
+	message: string
+	initScriptInstalled?: boolean
+}
+
 /**
  * Browser close result data
  */
@@ -82,6 +95,16 @@ export interface BrowserCloseData {
 export interface NavigateData {
 	url: string
 	message: string
+	/** Set when the backend ran PageLoadOptions.initScript before the page's own scripts */
+	initScriptInstalled?: boolean
+}
+
+/**
+ * Options for calls that load a page (open, navigate, reload)
+ */
+export interface PageLoadOptions {
+	/** Script evaluated in every new document before the page's own scripts, replacing any earlier one */
+	initScript?: string
 }
 
 /**
@@ -90,6 +113,7 @@ export interface NavigateData {
 export interface ReloadData {
 	hardReload: boolean
 	message: string
+	initScriptInstalled?: boolean
 }
 
 /**
@@ -249,6 +273,8 @@ export interface AddComponentData {
 		origin?: string
 		createdAt?: string
 		updatedAt?: string
+		/** Grid cells, when the component was placed with a variant matrix */
+		variants?: Array<Pick<ComponentVariant, "id" | "label">>
 	}
 }
 
@@ -260,6 +286,14 @@ export interface AddComponentsData {
 	components: ComponentSummary[]
 }
 
+/**
+ * Capture component variants result data
+ */
+export interface CaptureComponentVariantsData {
+	componentId: string
+	variants: VariantCapture[]
+}
+
 /**
  * Remove component result data
  */
@@ -295,12 +329,17 @@ export interface RebuildComponentData {
 // Client Implementation
 // ============================================================================
 
+/** Optional IDE command behind component variant grids (see captureComponentVariants) */
+const CAPTURE_COMPONENT_VARIANTS_COMMAND = "roopik.tools.captureComponentVariants"
+
 /**
  * RoopikToolClient - Singleton client for Roopik IDE tools
  */
 export class RoopikToolClient {
 	private static instance: RoopikToolClient | null = null
 
+	private backend: RoopikToolBackend = new IdeRoopikToolBackend()
+
 	private constructor() { }
 
 	/**
@@ -314,12 +353,25 @@ export class RoopikToolClient {
 	}
 
 	/**
-	 * Check if Roopik IDE is available
-	 * Returns true if the roopik.executeTool command is registered
+	 * Replace the backend serving tool calls (e.g. with a local stand-in outside Roopik IDE)
+	 * @returns the previous backend, so callers can restore or dispose it
+	 */
+	setBackend(backend: RoopikToolBackend): RoopikToolBackend {
+		const previous = this.backend
+		this.backend = backend
+		return previous
+	}
+
+	getBackend(): RoopikToolBackend {
+		return this.backend
+	}
+
+	/**
+	 * Check if Roopik tools are available
+	 * With the IDE backend, returns true if the roopik.executeTool command is registered
 	 */
 	async isAvailable(): Promise<boolean> {
-		const commands = await vscode.commands.getCommands(true)
-		return commands.includes("roopik.executeTool")
+		return this.backend.isAvailable()
 	}
 
 	// ========================================================================
@@ -334,18 +386,7 @@ export class RoopikToolClient {
 		tool: string,
 		args?: Record<string, unknown>
 	): Promise<RoopikToolResult<T>> {
-		try {
-			const result = await vscode.commands.executeCommand<RoopikToolResult<T>>(
-				"roopik.executeTool",
-				{ tool, args }
-			)
-			return result || { success: false, error: "No result from command" }
-		} catch (error) {
-			return {
-				success: false,
-				error: error instanceof Error ? error.message : String(error),
-			}
-		}
+		return this.backend.executeTool<T>(tool, args)
 	}
 
 	// ========================================================================
@@ -356,8 +397,8 @@ export class RoopikToolClient {
 	 * Open the browser preview
 	 * Optionally navigate to a URL after opening
 	 */
-	async browserOpen(url?: string): Promise<RoopikToolResult<{ url?: string; message: string }>> {
-		return this.executeCommand<{ url?: string; message: string }>("roopik.tools.browserOpen", { url })
+	async browserOpen(url?: string, options?: PageLoadOptions): Promise<RoopikToolResult<BrowserOpenData>> {
+		return this.executeCommand<BrowserOpenData>("roopik.tools.browserOpen", { url, ...options })
 	}
 
 	/**
@@ -443,16 +484,16 @@ export class RoopikToolClient {
 	/**
 	 * Navigate the browser to a URL
 	 */
-	async navigate(url: string): Promise<RoopikToolResult<NavigateData>> {
-		return this.executeCommand<NavigateData>("roopik.tools.navigate", { url })
+	async navigate(url: string, options?: PageLoadOptions): Promise<RoopikToolResult<NavigateData>> {
+		return this.executeCommand<NavigateData>("roopik.tools.navigate", { url, ...options })
 	}
 
 	/**
 	 * Reload the current page
 	 * @param ignoreCache - If true, performs hard reload (clears cache)
 	 */
-	async reload(ignoreCache?: boolean): Promise<RoopikToolResult<ReloadData>> {
-		return this.executeCommand<ReloadData>("roopik.tools.reload", { ignoreCache })
+	async reload(ignoreCache?: boolean, options?: PageLoadOptions): Promise<RoopikToolResult<ReloadData>> {
+		return this.executeCommand<ReloadData>("roopik.tools.reload", { ignoreCache, ...options })
 	}
 
 	/**
@@ -570,6 +611,7 @@ export class RoopikToolClient {
 
 	/**
 	 * Add a component to a canvas
+	 * Pass variants only if supportsComponentVariants() is true: core then renders one grid cell per variant
 	 */
 	async addComponent(options: {
 		folderPath: string
@@ -577,6 +619,8 @@ export class RoopikToolClient {
 		name?: string
 		entryFile?: string
 		framework?: string
+		/** Render the component once per variant, as a labelled grid */
+		variants?: ComponentVariant[]
 	}): Promise<RoopikToolResult<AddComponentData>> {
 		return this.executeCommand<AddComponentData>("roopik.tools.addComponent", options)
 	}
@@ -591,6 +635,7 @@ export class RoopikToolClient {
 			name?: string
 			entryFile?: string
 			framework?: string
+			variants?: ComponentVariant[]
 		}>
 	): Promise<RoopikToolResult<AddComponentsData>> {
 		return this.executeCommand<AddComponentsData>("roopik.tools.addComponents", { components })
@@ -617,6 +662,35 @@ export class RoopikToolClient {
 		})
 	}
 
+	/**
+	 * Check if the backend can render and capture variant grids
+	 * Needs the optional roopik.tools.captureComponentVariants command; IDE builds without it
+	 * also ignore the variants option of addComponent, so both are gated on this check
+	 */
+	async supportsComponentVariants(): Promise<boolean> {
+		return (await this.backend.hasCommand?.(CAPTURE_COMPONENT_VARIANTS_COMMAND)) ?? false
+	}
+
+	/**
+	 * Capture every variant cell of a component placed with a variant matrix
+	 * Each capture includes a screenshot of the cell plus anything it threw or logged while rendering
+	 *
+	 * Requires core to register roopik.tools.captureComponentVariants (check supportsComponentVariants first):
+	 * - args: `{ componentId: string, variantIds?: string[] }`
+	 * - result: CaptureComponentVariantsData, one VariantCapture per rendered cell, keyed by the
+	 *   ComponentVariant ids passed to addComponent
+	 * @param variantIds Only capture these variants (default: all)
+	 */
+	async captureComponentVariants(
+		componentId: string,
+		variantIds?: string[]
+	): Promise<RoopikToolResult<CaptureComponentVariantsData>> {
+		return this.executeCommand<CaptureComponentVariantsData>(CAPTURE_COMPONENT_VARIANTS_COMMAND, {
+			componentId,
+			variantIds,
+		})
+	}
+
 	/**
 	 * List all components in a canvas
 	 */
@@ -651,15 +725,7 @@ export class RoopikToolClient {
 		command: string,
 		args?: Record<string, unknown>
 	): Promise<RoopikToolResult<T>> {
-		try {
-			const result = await vscode.commands.executeCommand<RoopikToolResult<T>>(command, args)
-			return result || { success: false, error: "No result from command" }
-		} catch (error) {
-			return {
-				success: false,
-				error: error instanceof Error ? error.message : String(error),
-			}
-		}
+		return this.backend.executeCommand<T>(command, args)
 	}
 }
 
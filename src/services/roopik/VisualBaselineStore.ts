@@ -0,0 +1,193 @@
+/**
+ * VisualBaselineStore
+ *
+ * Stores named baseline screenshots for visual regression checks.
+ * Baselines live in the workspace so they can be committed and reviewed:
+ *
+ * ```
+ * .dio/visual-baselines/
+ * └── login/                       # Baseline name (defaults to the route)
+ *     ├── 1280x800@1x.png          # Baseline image for one viewport
+ *     ├── 1280x800@1x.json         # Metadata (url, route, viewport, timestamps)
+ *     └── 1280x800@1x.diff.png     # Diff image from the last comparison
+ * ```
+ */
+
+import * as fs from "fs/promises"
+import * as path from "path"
+
+import { safeWriteJson } from "../../utils/safeWriteJson"
+import { fileExistsAtPath } from "../../utils/fs"
+import { getRoopikProjectDirectory, toProjectFileName } from "./paths"
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface VisualViewport {
+	width: number
+	height: number
+	devicePixelRatio: number
+}
+
+export interface VisualBaselineMetadata {
+	name: string
+	viewport: VisualViewport
+	url?: string
+	route?: string
+	createdAt: string
+	updatedAt: string
+}
+
+export interface VisualBaseline {
+	image: Buffer
+	metadata: VisualBaselineMetadata
+	imagePath: string
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Directory name used for a baseline, e.g. "/settings/team" → "settings-team"
+ */
+export function toBaselineName(nameOrRoute: string): string {
+	return toProjectFileName(nameOrRoute)
+}
+
+/**
+ * Key identifying a viewport, e.g. "1280x800@1x" or "375x812@3x"
+ */
+export function getViewportKey(viewport: VisualViewport): string {
+	return `${viewport.width}x${viewport.height}@${viewport.devicePixelRatio}x`
+}
+
+// ============================================================================
+// Store
+// ============================================================================
+
+export class VisualBaselineStore {
+	static readonly DIRECTORY_NAME = "visual-baselines"
+
+	private readonly rootDir: string
+
+	constructor(cwd: string) {
+		this.rootDir = path.join(getRoopikProjectDirectory(cwd), VisualBaselineStore.DIRECTORY_NAME)
+	}
+
+	get directory(): string {
+		return this.rootDir
+	}
+
+	/**
+	 * Save (or overwrite) the baseline for a name + viewport
+	 */
+	async saveBaseline(
+		name: string,
+		image: Buffer,
+		details: { viewport: VisualViewport; url?: string; route?: string },
+	): Promise<{ imagePath: string; metadata: VisualBaselineMetadata; replaced: boolean }> {
+		const { imagePath, metadataPath } = this.getPaths(name, details.viewport)
+		const existing = await this.readMetadata(metadataPath)
+		const now = new Date().toISOString()
+
+		const metadata: VisualBaselineMetadata = {
+			name,
+			viewport: details.viewport,
+			url: details.url,
+			route: details.route,
+			createdAt: existing?.createdAt ?? now,
+			updatedAt: now,
+		}
+
+		await fs.mkdir(path.dirname(imagePath), { recursive: true })
+		await fs.writeFile(imagePath, image)
+		await safeWriteJson(metadataPath, metadata, { prettyPrint: true })
+
+		return { imagePath, metadata, replaced: existing !== undefined }
+	}
+
+	/**
+	 * Load the baseline for a name + viewport, if one has been saved
+	 */
+	async loadBaseline(name: string, viewport: VisualViewport): Promise<VisualBaseline | undefined> {
+		const { imagePath, metadataPath } = this.getPaths(name, viewport)
+		if (!(await fileExistsAtPath(imagePath))) {
+			return undefined
+		}
+
+		const image = await fs.readFile(imagePath)
+		const metadata = (await this.readMetadata(metadataPath)) ?? {
+			name,
+			viewport,
+			createdAt: "",
+			updatedAt: "",
+		}
+
+		return { image, metadata, imagePath }
+	}
+
+	/**
+	 * Write the diff image produced by the last comparison next to the baseline
+	 */
+	async saveDiffImage(name: string, viewport: VisualViewport, image: Buffer): Promise<string> {
+		const { diffPath } = this.getPaths(name, viewport)
+		await fs.mkdir(path.dirname(diffPath), { recursive: true })
+		await fs.writeFile(diffPath, image)
+		return diffPath
+	}
+
+	/**
+	 * List the metadata of every saved baseline
+	 */
+	async listBaselines(): Promise<VisualBaselineMetadata[]> {
+		const baselines: VisualBaselineMetadata[] = []
+
+		let names: string[]
+		try {
+			names = await fs.readdir(this.rootDir)
+		} catch {
+			return baselines
+		}
+
+		for (const name of names.sort()) {
+			let files: string[]
+			try {
+				files = await fs.readdir(path.join(this.rootDir, name))
+			} catch {
+				continue
+			}
+
+			for (const file of files.sort()) {
+				if (!file.endsWith(".json")) {
+					continue
+				}
+				const metadata = await this.readMetadata(path.join(this.rootDir, name, file))
+				if (metadata) {
+					baselines.push(metadata)
+				}
+			}
+		}
+
+		return baselines
+	}
+
+	private getPaths(name: string, viewport: VisualViewport) {
+		const dir = path.join(this.rootDir, toBaselineName(name))
+		const key = getViewportKey(viewport)
+		return {
+			imagePath: path.join(dir, `${key}.png`),
+			metadataPath: path.join(dir, `${key}.json`),
+			diffPath: path.join(dir, `${key}.diff.png`),
+		}
+	}
+
+	private async readMetadata(metadataPath: string): Promise<VisualBaselineMetadata | undefined> {
+		try {
+			return JSON.parse(await fs.readFile(metadataPath, "utf-8")) as VisualBaselineMetadata
+		} catch {
+			return undefined
+		}
+	}
+}
@@ -0,0 +1,115 @@
+// npx vitest services/roopik/__tests__/accessibility-audit.spec.ts
+
+import {
+	buildAccessibilityAuditScript,
+	parseAccessibilityAuditResult,
+	resolveViolationComponents,
+	groupViolationsByComponent,
+	MAX_COMPONENT_LOOKUPS,
+	type AccessibilityViolation,
+} from "../accessibility-audit"
+
+function violation(overrides: Partial<AccessibilityViolation> = {}): AccessibilityViolation {
+	return {
+		rule: "image-alt",
+		impact: "critical",
+		message: "Image has no alt attribute",
+		selector: "main > img",
+		html: '<img src="hero.png">',
+		...overrides,
+	}
+}
+
+describe("buildAccessibilityAuditScript", () => {
+	it("produces a valid expression with the options embedded", () => {
+		const script = buildAccessibilityAuditScript({ scope: "#signup", limit: 10 })
+
+		expect(script).toContain('{"scope":"#signup","limit":10}')
+		expect(script).not.toContain("__OPTIONS__")
+		expect(() => new Function(`return ${script}`)).not.toThrow()
+	})
+
+	it("embeds selectors containing replacement patterns verbatim", () => {
+		expect(buildAccessibilityAuditScript({ scope: "a[href$='.pdf']" })).toContain(`"scope":"a[href$='.pdf']"`)
+	})
+
+	it("defaults to the whole page and 50 violations", () => {
+		expect(buildAccessibilityAuditScript()).toContain('{"limit":50}')
+	})
+})
+
+describe("parseAccessibilityAuditResult", () => {
+	const result = {
+		url: "http://localhost:3000/",
+		title: "Home",
+		elementsScanned: 42,
+		violationCount: 1,
+		violationsByRule: { "image-alt": 1 },
+		violations: [violation()],
+		contrastIncomplete: 0,
+		truncated: false,
+	}
+
+	it("accepts JSON strings and plain objects", () => {
+		expect(parseAccessibilityAuditResult(JSON.stringify(result))).toEqual(result)
+		expect(parseAccessibilityAuditResult(result)).toEqual(result)
+	})
+
+	it("throws on errors reported by the script", () => {
+		expect(() => parseAccessibilityAuditResult(JSON.stringify({ error: "No element matches scope selector '#x'" }))).toThrow(
+			"No element matches scope selector '#x'",
+		)
+	})
+
+	it("throws on unexpected results", () => {
+		expect(() => parseAccessibilityAuditResult(undefined)).toThrow("returned no result")
+		expect(() => parseAccessibilityAuditResult({ foo: 1 })).toThrow("unexpected result")
+	})
+})
+
+describe("resolveViolationComponents", () => {
+	it("maps violations to their component source, inspecting each selector once", async () => {
+		const inspectElement = vi.fn(async (selector: string) =>
+			selector === "main > img"
+				? {
+						success: true,
+						data: { selector, element: { tag: "img", classes: [], componentName: "Hero", componentSource: "src/Hero.tsx:12" } },
+					}
+				: { success: false, error: "not found" },
+		)
+
+		const resolved = await resolveViolationComponents({ inspectElement } as any, [
+			violation(),
+			violation({ rule: "color-contrast", impact: "serious" }),
+			violation({ selector: "#missing" }),
+		])
+
+		expect(inspectElement).toHaveBeenCalledTimes(2)
+		expect(resolved[0]).toMatchObject({ componentName: "Hero", componentSource: "src/Hero.tsx:12" })
+		expect(resolved[1]).toMatchObject({ componentName: "Hero", componentSource: "src/Hero.tsx:12" })
+		expect(resolved[2].componentSource).toBeUndefined()
+	})
+
+	it("caps the number of lookups", async () => {
+		const inspectElement = vi.fn(async () => ({ success: false }))
+		const violations = Array.from({ length: MAX_COMPONENT_LOOKUPS + 5 }, (_, i) => violation({ selector: `#el-${i}` }))
+
+		await resolveViolationComponents({ inspectElement } as any, violations)
+
+		expect(inspectElement).toHaveBeenCalledTimes(MAX_COMPONENT_LOOKUPS)
+	})
+})
+
+describe("groupViolationsByComponent", () => {
+	it("groups by component source with unresolved violations last", () => {
+		const groups = groupViolationsByComponent([
+			violation({ selector: "#a" }),
+			violation({ selector: "#b", componentName: "Form", componentSource: "src/Form.tsx" }),
+			violation({ selector: "#c", rule: "label", componentName: "Form", componentSource: "src/Form.tsx" }),
+			violation({ selector: "#d", rule: "control-name", componentName: "Nav", componentSource: "src/Nav.tsx" }),
+		])
+
+		expect(groups.map((group) => group.componentSource)).toEqual(["src/Form.tsx", "src/Nav.tsx", undefined])
+		expect(groups[0]).toMatchObject({ violationCount: 2, rules: ["image-alt", "label"], selectors: ["#b", "#c"] })
+	})
+})
@@ -0,0 +1,87 @@
+// npx vitest services/roopik/__tests__/component-variants.spec.ts
+
+import {
+	buildVariantReview,
+	expandVariantMatrix,
+	parseVariantMatrix,
+	MAX_COMPONENT_VARIANTS,
+} from "../component-variants"
+
+describe("parseVariantMatrix", () => {
+	it("parses a JSON object of value arrays", () => {
+		expect(parseVariantMatrix('{"size":["sm","lg"],"disabled":[false,true]}')).toEqual({
+			size: ["sm", "lg"],
+			disabled: [false, true],
+		})
+	})
+
+	it("rejects invalid JSON, non-objects and empty axes", () => {
+		expect(() => parseVariantMatrix("{size:")).toThrow("Invalid JSON in variants")
+		expect(() => parseVariantMatrix('["sm","lg"]')).toThrow("variants must be an object")
+		expect(() => parseVariantMatrix("{}")).toThrow("at least one prop")
+		expect(() => parseVariantMatrix('{"size":[]}')).toThrow("variants.size must be a non-empty array")
+		expect(() => parseVariantMatrix('{"size":"sm"}')).toThrow("variants.size must be a non-empty array")
+	})
+})
+
+describe("expandVariantMatrix", () => {
+	it("expands every combination with the last prop varying fastest", () => {
+		const variants = expandVariantMatrix({ size: ["sm", "lg"], disabled: [false, true] }, { children: "Save" })
+
+		expect(variants.map((variant) => variant.id)).toEqual([
+			"size-sm__disabled-false",
+			"size-sm__disabled-true",
+			"size-lg__disabled-false",
+			"size-lg__disabled-true",
+		])
+		expect(variants[1]).toEqual({
+			id: "size-sm__disabled-true",
+			label: "size=sm · disabled=true",
+			props: { children: "Save", size: "sm", disabled: true },
+		})
+	})
+
+	it("keeps ids unique when values slug to the same text", () => {
+		const variants = expandVariantMatrix({ label: ["Large", "large", "LARGE"] })
+		expect(variants.map((variant) => variant.id)).toEqual(["label-large", "label-large~2", "label-large~3"])
+	})
+
+	it("labels non-string values as JSON", () => {
+		const [variant] = expandVariantMatrix({ items: [[1, 2]], user: [null] })
+		expect(variant.label).toBe("items=[1,2] · user=null")
+		expect(variant.id).toBe("items-1-2__user-null")
+	})
+
+	it("refuses matrices with too many combinations", () => {
+		const values = Array.from({ length: 9 }, (_, index) => index)
+		expect(expandVariantMatrix({ a: values.slice(0, 8), b: values.slice(0, 8) })).toHaveLength(MAX_COMPONENT_VARIANTS)
+		expect(() => expandVariantMatrix({ a: values, b: values })).toThrow("81 combinations")
+	})
+})
+
+describe("buildVariantReview", () => {
+	it("fails variants that threw, logged errors or were not rendered", () => {
+		const variants = expandVariantMatrix({ theme: ["light", "dark", "contrast"], loading: [true] })
+
+		const review = buildVariantReview("button-1", variants, [
+			{ id: "theme-light__loading-true", image: "data:image/png;base64,AAAA", consoleErrors: [] },
+			{ id: "theme-dark__loading-true", error: "TypeError: palette.dark is undefined" },
+		])
+
+		expect(review).toMatchObject({ componentId: "button-1", total: 3, passed: 1, failed: 2 })
+		expect(review.variants[0]).toMatchObject({ passed: true })
+		expect(review.variants[0].consoleErrors).toBeUndefined()
+		expect(review.variants[1]).toMatchObject({ passed: false, error: "TypeError: palette.dark is undefined" })
+		expect(review.variants[2]).toMatchObject({ passed: false, missing: true })
+	})
+
+	it("fails variants that only logged console errors", () => {
+		const variants = expandVariantMatrix({ size: ["sm"] })
+		const review = buildVariantReview("button-1", variants, [
+			{ id: "size-sm", consoleErrors: ["Warning: Each child in a list should have a unique key"] },
+		])
+
+		expect(review.failed).toBe(1)
+		expect(review.variants[0].consoleErrors).toEqual(["Warning: Each child in a list should have a unique key"])
+	})
+})
@@ -0,0 +1,142 @@
+// npx vitest services/roopik/__tests__/network-mocks.spec.ts
+
+import * as fs from "fs/promises"
+import * as os from "os"
+import * as path from "path"
+
+import {
+	buildNetworkMockScript,
+	inferContentType,
+	matchesNetworkMockRule,
+	toUrlRegExp,
+	type NetworkMockRule,
+} from "../network-mocks"
+import { NetworkMockStore } from "../NetworkMockStore"
+
+function rule(overrides: Partial<NetworkMockRule> = {}): NetworkMockRule {
+	return {
+		id: "users",
+		urlPattern: "*/api/users*",
+		status: 200,
+		body: "[]",
+		createdAt: "",
+		updatedAt: "",
+		...overrides,
+	}
+}
+
+describe("toUrlRegExp", () => {
+	it("treats * as a wildcard over the full URL", () => {
+		const regex = toUrlRegExp("*/api/users*")
+		expect(regex.test("http://localhost:3000/api/users?page=2")).toBe(true)
+		expect(regex.test("http://localhost:3000/api/teams")).toBe(false)
+	})
+
+	it("matches patterns without wildcards as substrings", () => {
+		expect(toUrlRegExp("/api/users.json").test("http://localhost:3000/api/users.json?x=1")).toBe(true)
+		expect(toUrlRegExp("/api/users.json").test("http://localhost:3000/api/usersXjson")).toBe(false)
+	})
+
+	it("treats paths that look like regex literals with invalid flags as globs", () => {
+		const regex = toUrlRegExp("/api/users")
+		expect(regex.test("http://localhost:3000/api/users?page=2")).toBe(true)
+		expect(regex.test("http://localhost:3000/api/teams")).toBe(false)
+	})
+
+	it("supports regex literals and drops stateful flags", () => {
+		const regex = toUrlRegExp("/\\/api\\/users\\/\\d+$/gi")
+		expect(regex.flags).toBe("i")
+		expect(regex.test("http://localhost/API/users/42")).toBe(true)
+		expect(regex.test("http://localhost/API/users/42")).toBe(true)
+	})
+
+	it("throws on invalid regex literals", () => {
+		expect(() => toUrlRegExp("/(unclosed/")).toThrow("Invalid URL pattern")
+	})
+})
+
+describe("matchesNetworkMockRule", () => {
+	it("matches on method when one is set", () => {
+		expect(matchesNetworkMockRule(rule({ method: "POST" }), "http://x/api/users", "post")).toBe(true)
+		expect(matchesNetworkMockRule(rule({ method: "POST" }), "http://x/api/users", "GET")).toBe(false)
+		expect(matchesNetworkMockRule(rule(), "http://x/api/users", "DELETE")).toBe(true)
+	})
+
+	it("ignores disabled rules", () => {
+		expect(matchesNetworkMockRule(rule({ enabled: false }), "http://x/api/users")).toBe(false)
+	})
+})
+
+describe("inferContentType", () => {
+	it("detects JSON bodies", () => {
+		expect(inferContentType('{"items": []}')).toBe("application/json")
+		expect(inferContentType(undefined)).toBe("application/json")
+		expect(inferContentType("Service unavailable")).toBe("text/plain")
+	})
+})
+
+describe("buildNetworkMockScript", () => {
+	it("embeds compiled, enabled rules in a valid expression", () => {
+		const script = buildNetworkMockScript([
+			rule({ urlPattern: "/\\/api\\/users$/", latencyMs: 1500 }),
+			rule({ id: "off", enabled: false }),
+		])
+
+		expect(script).not.toContain("__RULES__")
+		expect(script).toContain('"id":"users"')
+		expect(script).toContain('"source":"\\\\/api\\\\/users$"')
+		expect(script).toContain('"latencyMs":1500')
+		expect(script).toContain('"Content-Type":"application/json"')
+		expect(script).not.toContain('"id":"off"')
+		expect(() => new Function(`return ${script}`)).not.toThrow()
+	})
+})
+
+describe("NetworkMockStore", () => {
+	let cwd: string
+
+	beforeEach(async () => {
+		cwd = await fs.mkdtemp(path.join(os.tmpdir(), "network-mocks-"))
+	})
+
+	afterEach(async () => {
+		await fs.rm(cwd, { recursive: true, force: true })
+	})
+
+	it("persists rules per project and updates rules by id", async () => {
+		const store = new NetworkMockStore(cwd)
+		expect(await store.listRules()).toEqual([])
+
+		const first = await store.upsertRule({ urlPattern: "*/api/users*", method: "get", body: "[]" })
+		expect(first.replaced).toBe(false)
+		expect(first.rule).toMatchObject({ id: "get-api-users", method: "GET", status: 200 })
+
+		const second = await store.upsertRule({ id: first.rule.id, urlPattern: "*/api/users*", status: 500 })
+		expect(second.replaced).toBe(true)
+		expect(second.rule.createdAt).toBe(first.rule.createdAt)
+
+		const reloaded = await new NetworkMockStore(cwd).listRules()
+		expect(reloaded).toHaveLength(1)
+		expect(reloaded[0].status).toBe(500)
+		expect(store.path).toBe(path.join(cwd, ".dio", "network-mocks.json"))
+	})
+
+	it("removes single rules and clears all rules", async () => {
+		const store = new NetworkMockStore(cwd)
+		await store.upsertRule({ id: "a", urlPattern: "/a" })
+		await store.upsertRule({ id: "b", urlPattern: "/b" })
+
+		expect(await store.removeRule("missing")).toBe(false)
+		expect(await store.removeRule("a")).toBe(true)
+		expect((await store.listRules()).map((r) => r.id)).toEqual(["b"])
+		expect(await store.clear()).toBe(1)
+		expect(await store.listRules()).toEqual([])
+	})
+
+	it("rejects invalid statuses and patterns", async () => {
+		const store = new NetworkMockStore(cwd)
+		await expect(store.upsertRule({ urlPattern: "/a", status: 42 })).rejects.toThrow("Invalid status")
+		await expect(store.upsertRule({ urlPattern: "/(bad/" })).rejects.toThrow("Invalid URL pattern")
+		expect(await store.listRules()).toEqual([])
+	})
+})
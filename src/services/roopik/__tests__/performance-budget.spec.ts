@@ -0,0 +1,119 @@
+// npx vitest services/roopik/__tests__/performance-budget.spec.ts
+
+import {
+	describeBudgetFailures,
+	evaluatePerformanceBudget,
+	extractPerformanceMetrics,
+	parsePerformanceBudget,
+	type PerformanceBudget,
+} from "../performance-budget"
+
+const budget: PerformanceBudget = {
+	version: 1,
+	budgets: { lcpMs: 2500, cls: 0.1, jsHeapMb: 50, longTaskCount: 5, scriptBytes: 300_000 },
+}
+
+describe("extractPerformanceMetrics", () => {
+	it("reads web vitals, CDP metric arrays and network request sizes", () => {
+		const metrics = extractPerformanceMetrics(
+			{
+				webVitals: { lcp: 1834.4, cls: { value: 0.04213, rating: "good" } },
+				metrics: [
+					{ name: "Nodes", value: 420 },
+					{ name: "JSHeapUsedSize", value: 12 * 1024 * 1024 },
+				],
+			},
+			{
+				requests: [
+					{ url: "http://localhost:5173/assets/index-abc.js", resourceType: "Script", transferSize: 120_000 },
+					{ url: "http://localhost:5173/assets/vendor.js?v=2", encodedDataLength: 80_000 },
+					{ url: "http://localhost:5173/assets/index.css", resourceType: "Stylesheet", transferSize: 10_000 },
+				],
+			},
+			{ longTaskCount: 2, longTaskTotalMs: 171.6 },
+		)
+
+		expect(metrics).toEqual({
+			lcpMs: 1834,
+			cls: 0.042,
+			jsHeapMb: 12,
+			longTaskCount: 2,
+			longTaskTotalMs: 172,
+			scriptBytes: 200_000,
+			largestScriptBytes: 120_000,
+			transferBytes: 210_000,
+		})
+	})
+
+	it("falls back to in-page measurements when the browser reports nothing", () => {
+		const network = { requests: [{ url: "http://localhost/app.js" }] }
+		const metrics = extractPerformanceMetrics(undefined, network, {
+			lcpMs: 900,
+			cls: 0,
+			jsHeapUsedBytes: null,
+			resources: [
+				{ url: "http://localhost/app.js", type: "script", size: 5_000 },
+				{ url: "http://localhost/logo.png", type: "img", size: 1_000 },
+			],
+		})
+
+		expect(metrics).toEqual({
+			lcpMs: 900,
+			cls: 0,
+			scriptBytes: 5_000,
+			largestScriptBytes: 5_000,
+			transferBytes: 6_000,
+		})
+	})
+})
+
+describe("evaluatePerformanceBudget", () => {
+	it("fails metrics over budget and reports trends against the previous run", () => {
+		const evaluation = evaluatePerformanceBudget(
+			budget,
+			{ lcpMs: 3400, cls: 0.05, jsHeapMb: 30, scriptBytes: 250_000 },
+			{
+				timestamp: 0,
+				passed: true,
+				metrics: { lcpMs: 2100, cls: 0.05, jsHeapMb: 40 },
+				failed: [],
+			},
+		)
+
+		expect(evaluation.passed).toBe(false)
+		expect(evaluation.unmeasured).toEqual(["longTaskCount"])
+		const outcomes = evaluation.results.map((result) => [result.metric, [result.passed, result.trend]])
+		expect(Object.fromEntries(outcomes)).toEqual({
+			lcpMs: [false, "regressed"],
+			cls: [true, "unchanged"],
+			jsHeapMb: [true, "improved"],
+			longTaskCount: [true, "new"],
+			scriptBytes: [true, "new"],
+		})
+		expect(describeBudgetFailures(evaluation)).toEqual(["Largest Contentful Paint: 3400ms (budget 2500ms)"])
+	})
+
+	it("passes when every measured metric is within budget", () => {
+		const evaluation = evaluatePerformanceBudget(budget, { lcpMs: 2500, cls: 0.1 })
+		expect(evaluation.passed).toBe(true)
+		expect(describeBudgetFailures(evaluation)).toEqual([])
+	})
+})
+
+describe("parsePerformanceBudget", () => {
+	it("accepts known metrics and keeps the enforcement flag", () => {
+		expect(parsePerformanceBudget({ version: 1, enforceOnCompletion: false, budgets: { cls: 0.1 } })).toEqual({
+			version: 1,
+			enforceOnCompletion: false,
+			budgets: { cls: 0.1 },
+		})
+	})
+
+	it("rejects unknown metrics and invalid limits", () => {
+		expect(() => parsePerformanceBudget({})).toThrow('"budgets" object')
+		expect(() => parsePerformanceBudget({ budgets: { fcpMs: 1000 } })).toThrow(
+			"Unknown performance budget metric 'fcpMs'",
+		)
+		expect(() => parsePerformanceBudget({ budgets: { lcpMs: -1 } })).toThrow("non-negative number")
+	})
+})
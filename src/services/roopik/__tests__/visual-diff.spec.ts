@@ -0,0 +1,134 @@
+// npx vitest services/roopik/__tests__/visual-diff.spec.ts
+
+import { PNG } from "pngjs"
+
+import { comparePngImages, getPngDimensions, parseImageDataUrl, toPngDataUrl } from "../visual-diff"
+
+function createPng(
+	width: number,
+	height: number,
+	fill: [number, number, number],
+	patches: Array<{ x: number; y: number; width: number; height: number; color: [number, number, number] }> = [],
+): Buffer {
+	const png = new PNG({ width, height })
+
+	for (let y = 0; y < height; y++) {
+		for (let x = 0; x < width; x++) {
+			const patch = patches.find((p) => x >= p.x && x < p.x + p.width && y >= p.y && y < p.y + p.height)
+			const [r, g, b] = patch ? patch.color : fill
+			const index = (y * width + x) * 4
+			png.data[index] = r
+			png.data[index + 1] = g
+			png.data[index + 2] = b
+			png.data[index + 3] = 255
+		}
+	}
+
+	return PNG.sync.write(png)
+}
+
+describe("visual-diff", () => {
+	describe("comparePngImages", () => {
+		it("should report no changes for identical images", () => {
+			const image = createPng(40, 30, [255, 255, 255])
+
+			const result = comparePngImages(image, image)
+
+			expect(result.changedPixels).toBe(0)
+			expect(result.diffPercentage).toBe(0)
+			expect(result.changedRegions).toEqual([])
+			expect(result.dimensionsMatch).toBe(true)
+			expect(result.totalPixels).toBe(1200)
+		})
+
+		it("should detect a changed area and report its bounding box", () => {
+			const baseline = createPng(64, 64, [255, 255, 255])
+			const current = createPng(64, 64, [255, 255, 255], [{ x: 16, y: 8, width: 8, height: 8, color: [0, 0, 0] }])
+
+			const result = comparePngImages(baseline, current)
+
+			expect(result.changedPixels).toBe(64)
+			expect(result.diffPercentage).toBeCloseTo((64 / 4096) * 100, 3)
+			expect(result.changedRegions).toEqual([{ x: 16, y: 8, width: 8, height: 8, changedPixels: 64 }])
+		})
+
+		it("should report separate regions for distant changes, largest first", () => {
+			const baseline = createPng(64, 64, [255, 255, 255])
+			const current = createPng(64, 64, [255, 255, 255], [
+				{ x: 0, y: 0, width: 4, height: 4, color: [0, 0, 255] },
+				{ x: 40, y: 40, width: 16, height: 16, color: [0, 0, 255] },
+			])
+
+			const result = comparePngImages(baseline, current)
+
+			expect(result.changedRegions).toHaveLength(2)
+			expect(result.changedRegions[0]).toMatchObject({ x: 40, y: 40, changedPixels: 256 })
+			expect(result.changedRegions[1]).toMatchObject({ x: 0, y: 0, changedPixels: 16 })
+		})
+
+		it("should ignore differences below the threshold", () => {
+			const baseline = createPng(10, 10, [200, 200, 200])
+			const current = createPng(10, 10, [202, 202, 202])
+
+			expect(comparePngImages(baseline, current, { threshold: 0.1 }).changedPixels).toBe(0)
+			expect(comparePngImages(baseline, current, { threshold: 0 }).changedPixels).toBe(100)
+		})
+
+		it("should treat pixels outside the smaller image as changed", () => {
+			const baseline = createPng(10, 10, [255, 255, 255])
+			const current = createPng(10, 12, [255, 255, 255])
+
+			const result = comparePngImages(baseline, current)
+
+			expect(result.dimensionsMatch).toBe(false)
+			expect(result.width).toBe(10)
+			expect(result.height).toBe(12)
+			expect(result.changedPixels).toBe(20)
+		})
+
+		it("should limit the number of reported regions", () => {
+			const baseline = createPng(64, 64, [255, 255, 255])
+			const patches = [0, 20, 40].map((x) => ({ x, y: 0, width: 2, height: 2, color: [0, 0, 0] as [number, number, number] }))
+			const current = createPng(64, 64, [255, 255, 255], patches)
+
+			expect(comparePngImages(baseline, current, { maxRegions: 2 }).changedRegions).toHaveLength(2)
+		})
+
+		it("should produce a PNG diff image with changed pixels in red", () => {
+			const baseline = createPng(32, 32, [255, 255, 255])
+			const current = createPng(32, 32, [255, 255, 255], [{ x: 10, y: 10, width: 4, height: 4, color: [0, 128, 0] }])
+
+			const { diffImage } = comparePngImages(baseline, current, { maxRegions: 0 })
+			const decoded = PNG.sync.read(diffImage)
+			const index = (11 * 32 + 11) * 4
+
+			expect(decoded.width).toBe(32)
+			expect(Array.from(decoded.data.subarray(index, index + 4))).toEqual([255, 0, 0, 255])
+		})
+	})
+
+	describe("parseImageDataUrl", () => {
+		it("should split mime type and bytes", () => {
+			const image = createPng(2, 2, [0, 0, 0])
+			const parsed = parseImageDataUrl(toPngDataUrl(image))
+
+			expect(parsed?.mimeType).toBe("image/png")
+			expect(parsed?.buffer.equals(image)).toBe(true)
+		})
+
+		it("should return undefined for non-image data", () => {
+			expect(parseImageDataUrl("not a data url")).toBeUndefined()
+			expect(parseImageDataUrl("data:text/plain;base64,aGVsbG8=")).toBeUndefined()
+		})
+	})
+
+	describe("getPngDimensions", () => {
+		it("should read width and height from the header", () => {
+			expect(getPngDimensions(createPng(37, 21, [0, 0, 0]))).toEqual({ width: 37, height: 21 })
+		})
+
+		it("should reject buffers that are not PNG images", () => {
+			expect(() => getPngDimensions(Buffer.from("nope"))).toThrow("Invalid PNG image")
+		})
+	})
+})
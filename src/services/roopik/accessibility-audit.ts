@@ -0,0 +1,454 @@
+/**
+ * Accessibility Audit
+ *
+ * Builds a self-contained script that audits the page currently open in the
+ * Roopik browser preview (run via executeScript), and helpers for turning the
+ * script's output into violations grouped by the component that renders them.
+ *
+ * Rules:
+ * - image-alt:               images without a text alternative
+ * - color-contrast:          text below the WCAG AA contrast ratio
+ * - aria-valid-role:         unknown role values
+ * - aria-valid-attr:         unknown aria-* attributes
+ * - aria-broken-reference:   aria-labelledby/describedby/controls pointing at missing ids
+ * - aria-hidden-focus:       focusable content inside aria-hidden="true"
+ * - focus-positive-tabindex: tabindex > 0, which overrides the natural focus order
+ * - focus-not-focusable:     interactive roles that keyboard users cannot reach
+ * - label:                   form controls without an associated label
+ * - control-name:            buttons and links without an accessible name
+ */
+
+import type { RoopikToolClient } from "./RoopikToolClient"
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type AccessibilityRule =
+	| "image-alt"
+	| "color-contrast"
+	| "aria-valid-role"
+	| "aria-valid-attr"
+	| "aria-broken-reference"
+	| "aria-hidden-focus"
+	| "focus-positive-tabindex"
+	| "focus-not-focusable"
+	| "label"
+	| "control-name"
+
+export type AccessibilityImpact = "critical" | "serious" | "moderate" | "minor"
+
+export interface AccessibilityViolation {
+	rule: AccessibilityRule
+	impact: AccessibilityImpact
+	message: string
+	/** Unique CSS selector for the offending element (usable with browser_inspect_element) */
+	selector: string
+	/** Opening tag of the element, truncated */
+	html: string
+	/** Rule-specific data, e.g. contrast ratio and colors */
+	details?: Record<string, unknown>
+	/** Component that renders the element, resolved via inspectElement */
+	componentName?: string
+	/** Source location of that component, resolved via inspectElement */
+	componentSource?: string
+}
+
+export interface AccessibilityAuditResult {
+	url: string
+	title: string
+	scope?: string
+	elementsScanned: number
+	violationCount: number
+	violationsByRule: Partial<Record<AccessibilityRule, number>>
+	violations: AccessibilityViolation[]
+	/** Number of text elements whose contrast could not be determined (e.g. text over images) */
+	contrastIncomplete: number
+	/** True when more violations were found than returned */
+	truncated: boolean
+}
+
+export interface AccessibilityAuditOptions {
+	/** CSS selector limiting the audit to one subtree (default: document.body) */
+	scope?: string
+	/** Maximum number of violations to return (default: 50) */
+	limit?: number
+}
+
+export interface ComponentViolationSummary {
+	componentName?: string
+	componentSource?: string
+	violationCount: number
+	rules: AccessibilityRule[]
+	selectors: string[]
+}
+
+export const DEFAULT_AUDIT_VIOLATION_LIMIT = 50
+
+/** Upper bound on inspectElement round-trips when resolving component sources */
+export const MAX_COMPONENT_LOOKUPS = 25
+
+// ============================================================================
+// In-page script
+// ============================================================================
+
+/**
+ * Script source for the in-page audit. Kept as plain ES2017 so it runs in any
+ * page without a build step; `__OPTIONS__` is replaced with the JSON options.
+ */
+const AUDIT_SCRIPT = String.raw`(() => {
+	const OPTIONS = __OPTIONS__;
+	const root = OPTIONS.scope ? document.querySelector(OPTIONS.scope) : document.body;
+	if (!root) {
+		return JSON.stringify({ error: "No element matches scope selector '" + OPTIONS.scope + "'" });
+	}
+
+	const VALID_ROLES = new Set(("alert alertdialog application article banner blockquote button caption cell checkbox code " +
+		"columnheader combobox complementary contentinfo definition deletion dialog directory document emphasis feed figure " +
+		"form generic grid gridcell group heading img insertion link list listbox listitem log main marquee math menu menubar " +
+		"menuitem menuitemcheckbox menuitemradio meter navigation none note option paragraph presentation progressbar radio " +
+		"radiogroup region row rowgroup rowheader scrollbar search searchbox separator slider spinbutton status strong " +
+		"subscript superscript switch tab table tablist tabpanel term textbox time timer toolbar tooltip tree treegrid treeitem").split(" "));
+	const VALID_ARIA = new Set(("activedescendant atomic autocomplete braillelabel brailleroledescription busy checked colcount " +
+		"colindex colindextext colspan controls current describedby description details disabled dropeffect errormessage " +
+		"expanded flowto grabbed haspopup hidden invalid keyshortcuts label labelledby level live modal multiline " +
+		"multiselectable orientation owns placeholder posinset pressed readonly relevant required roledescription rowcount " +
+		"rowindex rowindextext rowspan selected setsize sort valuemax valuemin valuenow valuetext").split(" ").map((a) => "aria-" + a));
+	const ID_REFERENCE_ATTRS = ["aria-labelledby", "aria-describedby", "aria-controls", "aria-owns", "aria-activedescendant", "aria-errormessage"];
+	const INTERACTIVE_ROLES = new Set(["button", "link", "checkbox", "radio", "switch", "tab", "menuitem", "menuitemcheckbox",
+		"menuitemradio", "option", "slider", "spinbutton", "textbox", "combobox", "searchbox", "treeitem"]);
+	const UNLABELLED_INPUT_TYPES = new Set(["hidden", "submit", "reset", "button", "image"]);
+
+	const violations = [];
+	const counts = {};
+	let total = 0;
+	let contrastIncomplete = 0;
+
+	const escapeId = (value) => (window.CSS && CSS.escape ? CSS.escape(value) : value.replace(/[^a-zA-Z0-9_-]/g, "\\$&"));
+	const isUniqueId = (el) => el.id && document.querySelectorAll("#" + escapeId(el.id)).length === 1;
+	const selectorFor = (el) => {
+		const parts = [];
+		let node = el;
+		while (node && node.nodeType === 1 && node !== document.documentElement) {
+			if (isUniqueId(node)) {
+				parts.unshift("#" + escapeId(node.id));
+				break;
+			}
+			let part = node.tagName.toLowerCase();
+			const parent = node.parentElement;
+			if (parent) {
+				const siblings = Array.from(parent.children).filter((child) => child.tagName === node.tagName);
+				if (siblings.length > 1) {
+					part += ":nth-of-type(" + (siblings.indexOf(node) + 1) + ")";
+				}
+			}
+			parts.unshift(part);
+			node = parent;
+		}
+		return parts.join(" > ");
+	};
+	const snippet = (el) => {
+		const html = el.outerHTML || "";
+		const openTag = html.slice(0, html.indexOf(">") + 1) || html;
+		return openTag.length > 200 ? openTag.slice(0, 197) + "..." : openTag;
+	};
+	const report = (rule, impact, el, message, details) => {
+		total++;
+		counts[rule] = (counts[rule] || 0) + 1;
+		if (violations.length < OPTIONS.limit) {
+			violations.push({ rule, impact, message, selector: selectorFor(el), html: snippet(el), details });
+		}
+	};
+
+	const isHidden = (el) => {
+		if (el.closest("[hidden]")) return true;
+		const style = getComputedStyle(el);
+		return style.display === "none" || style.visibility === "hidden" || el.getClientRects().length === 0;
+	};
+	const isFocusable = (el) => el.tabIndex >= 0 && !el.disabled && !isHidden(el);
+	const roleOf = (el) => (el.getAttribute("role") || "").trim().split(/\s+/)[0].toLowerCase();
+	const textOfId = (id) => {
+		const target = document.getElementById(id);
+		return target ? (target.textContent || "").trim() : "";
+	};
+	const accessibleName = (el) => {
+		const labelledBy = el.getAttribute("aria-labelledby");
+		if (labelledBy) {
+			const name = labelledBy.split(/\s+/).map(textOfId).join(" ").trim();
+			if (name) return name;
+		}
+		const ariaLabel = (el.getAttribute("aria-label") || "").trim();
+		if (ariaLabel) return ariaLabel;
+		if (el.labels && el.labels.length > 0) {
+			const name = Array.from(el.labels).map((label) => (label.textContent || "").trim()).join(" ").trim();
+			if (name) return name;
+		}
+		const tag = el.tagName.toLowerCase();
+		if (tag === "img" || (tag === "input" && el.type === "image")) {
+			const alt = (el.getAttribute("alt") || "").trim();
+			if (alt) return alt;
+		}
+		if (tag === "input" && (el.type === "submit" || el.type === "reset" || el.type === "button")) {
+			return (el.value || (el.type === "button" ? "" : el.type)).trim();
+		}
+		if (tag !== "input" && tag !== "select" && tag !== "textarea") {
+			const text = (el.innerText || el.textContent || "").trim();
+			if (text) return text;
+			const nested = Array.from(el.querySelectorAll("img[alt], svg title, [aria-label]"))
+				.map((node) => node.getAttribute("alt") || node.getAttribute("aria-label") || node.textContent || "")
+				.join(" ")
+				.trim();
+			if (nested) return nested;
+		}
+		return (el.getAttribute("title") || "").trim();
+	};
+
+	const parseColor = (value) => {
+		const match = /^rgba?\(([\d.]+)[,\s]+([\d.]+)[,\s]+([\d.]+)(?:[,\s/]+([\d.]+%?))?\)$/.exec(value.trim());
+		if (!match) return undefined;
+		let alpha = match[4] === undefined ? 1 : parseFloat(match[4]);
+		if (match[4] && match[4].endsWith("%")) alpha = alpha / 100;
+		return { r: +match[1], g: +match[2], b: +match[3], a: alpha };
+	};
+	const blend = (top, bottom) => ({
+		r: top.r * top.a + bottom.r * (1 - top.a),
+		g: top.g * top.a + bottom.g * (1 - top.a),
+		b: top.b * top.a + bottom.b * (1 - top.a),
+		a: 1,
+	});
+	const luminance = (color) => {
+		const channel = (value) => {
+			const c = value / 255;
+			return c <= 0.03928 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+		};
+		return 0.2126 * channel(color.r) + 0.7152 * channel(color.g) + 0.0722 * channel(color.b);
+	};
+	const toCss = (color) => "rgb(" + Math.round(color.r) + ", " + Math.round(color.g) + ", " + Math.round(color.b) + ")";
+	const backgroundOf = (el) => {
+		const layers = [];
+		for (let node = el; node && node.nodeType === 1; node = node.parentElement) {
+			const style = getComputedStyle(node);
+			if (style.backgroundImage && style.backgroundImage !== "none") return undefined;
+			const color = parseColor(style.backgroundColor);
+			if (!color) return undefined;
+			if (color.a > 0) layers.push(color);
+			if (color.a >= 1) break;
+		}
+		let result = { r: 255, g: 255, b: 255, a: 1 };
+		for (let i = layers.length - 1; i >= 0; i--) {
+			result = blend(layers[i], result);
+		}
+		return result;
+	};
+	const hasOwnText = (el) => Array.from(el.childNodes).some((node) => node.nodeType === 3 && node.textContent.trim().length > 0);
+
+	const elements = [root].concat(Array.from(root.querySelectorAll("*")));
+	for (const el of elements) {
+		const tag = el.tagName.toLowerCase();
+		if (tag === "script" || tag === "style" || tag === "noscript" || tag === "template") continue;
+
+		const role = roleOf(el);
+		const hidden = isHidden(el);
+
+		// ARIA attribute validity applies to hidden elements too
+		if (el.hasAttribute("role") && role && !VALID_ROLES.has(role)) {
+			report("aria-valid-role", "serious", el, "Invalid ARIA role '" + role + "'");
+		}
+		for (const attr of Array.from(el.attributes)) {
+			if (attr.name.startsWith("aria-") && !VALID_ARIA.has(attr.name)) {
+				report("aria-valid-attr", "serious", el, "Unknown ARIA attribute '" + attr.name + "'");
+			}
+		}
+		for (const attrName of ID_REFERENCE_ATTRS) {
+			const value = el.getAttribute(attrName);
+			if (!value) continue;
+			const missing = value.trim().split(/\s+/).filter((id) => id && !document.getElementById(id));
+			if (missing.length > 0) {
+				report("aria-broken-reference", "moderate", el, attrName + " references missing id(s): " + missing.join(", "));
+			}
+		}
+		if (el.getAttribute("aria-hidden") === "true") {
+			const focusable = [el].concat(Array.from(el.querySelectorAll("*"))).find(isFocusable);
+			if (focusable) {
+				report("aria-hidden-focus", "serious", focusable, "Focusable element is inside aria-hidden=\"true\" and is invisible to screen readers");
+			}
+		}
+
+		if (hidden || el.closest("[aria-hidden='true']")) continue;
+
+		// Focus order
+		const tabIndexAttr = el.getAttribute("tabindex");
+		if (tabIndexAttr !== null && parseInt(tabIndexAttr, 10) > 0) {
+			report("focus-positive-tabindex", "moderate", el, "tabindex=\"" + tabIndexAttr + "\" overrides the natural focus order; use 0 or reorder the DOM");
+		}
+		if (INTERACTIVE_ROLES.has(role) && el.tabIndex < 0 && !el.disabled && el.getAttribute("aria-disabled") !== "true") {
+			report("focus-not-focusable", "serious", el, "Element with role '" + role + "' cannot be reached with the keyboard; add tabindex=\"0\" or use a native element");
+		}
+
+		// Text alternatives
+		if (tag === "img" && role !== "presentation" && role !== "none") {
+			if (!el.hasAttribute("alt") && !accessibleName(el)) {
+				report("image-alt", "critical", el, "Image has no alt attribute (use alt=\"\" for decorative images)");
+			}
+		} else if ((tag === "input" && el.type === "image") || (role === "img" && tag !== "img")) {
+			if (!accessibleName(el)) {
+				report("image-alt", "critical", el, "Image has no text alternative");
+			}
+		}
+
+		// Labels and names
+		if ((tag === "input" && !UNLABELLED_INPUT_TYPES.has(el.type)) || tag === "select" || tag === "textarea") {
+			if (!accessibleName(el)) {
+				const placeholder = el.getAttribute("placeholder");
+				report("label", "critical", el, placeholder
+					? "Form control is only labelled by its placeholder; add a <label> or aria-label"
+					: "Form control has no associated label");
+			}
+		} else if (tag === "button" || role === "button" || (tag === "a" && el.hasAttribute("href")) || role === "link") {
+			if (!accessibleName(el)) {
+				report("control-name", "serious", el, (tag === "a" || role === "link" ? "Link" : "Button") + " has no accessible name");
+			}
+		}
+
+		// Contrast
+		if (hasOwnText(el)) {
+			const style = getComputedStyle(el);
+			const foreground = parseColor(style.color);
+			const background = backgroundOf(el);
+			if (!foreground || !background) {
+				contrastIncomplete++;
+			} else if (parseFloat(style.opacity) > 0) {
+				const fg = foreground.a < 1 ? blend(foreground, background) : foreground;
+				const lighter = Math.max(luminance(fg), luminance(background));
+				const darker = Math.min(luminance(fg), luminance(background));
+				const ratio = (lighter + 0.05) / (darker + 0.05);
+				const fontSize = parseFloat(style.fontSize) || 16;
+				const bold = parseInt(style.fontWeight, 10) >= 700 || style.fontWeight === "bold";
+				const large = fontSize >= 24 || (bold && fontSize >= 18.66);
+				const required = large ? 3 : 4.5;
+				if (ratio < required) {
+					report("color-contrast", "serious", el, "Text contrast " + ratio.toFixed(2) + ":1 is below " + required + ":1", {
+						ratio: Math.round(ratio * 100) / 100,
+						required,
+						foreground: toCss(fg),
+						background: toCss(background),
+						fontSize: fontSize + "px",
+						largeText: large,
+					});
+				}
+			}
+		}
+	}
+
+	return JSON.stringify({
+		url: location.href,
+		title: document.title,
+		scope: OPTIONS.scope || undefined,
+		elementsScanned: elements.length,
+		violationCount: total,
+		violationsByRule: counts,
+		violations,
+		contrastIncomplete,
+		truncated: total > violations.length,
+	});
+})()`
+
+/**
+ * Build the in-page audit script for executeScript
+ */
+export function buildAccessibilityAuditScript(options: AccessibilityAuditOptions = {}): string {
+	const config = {
+		scope: options.scope,
+		limit: options.limit ?? DEFAULT_AUDIT_VIOLATION_LIMIT,
+	}
+	// Function replacer: selectors like [href$='x'] contain "$'" replacement patterns
+	return AUDIT_SCRIPT.replace("__OPTIONS__", () => JSON.stringify(config))
+}
+
+// ============================================================================
+// Result helpers
+// ============================================================================
+
+/**
+ * Parse the value returned by the audit script
+ * @throws Error if the script reported an error or returned something unexpected
+ */
+export function parseAccessibilityAuditResult(value: unknown): AccessibilityAuditResult {
+	const parsed = typeof value === "string" ? (JSON.parse(value) as unknown) : value
+	if (!parsed || typeof parsed !== "object") {
+		throw new Error("Accessibility audit returned no result")
+	}
+	if ("error" in parsed && typeof parsed.error === "string") {
+		throw new Error(parsed.error)
+	}
+	if (!("violations" in parsed) || !Array.isArray(parsed.violations)) {
+		throw new Error("Accessibility audit returned an unexpected result")
+	}
+	return parsed as AccessibilityAuditResult
+}
+
+/**
+ * Attach componentName/componentSource to each violation by inspecting its element.
+ * Lookups are capped at MAX_COMPONENT_LOOKUPS unique selectors; failures are ignored.
+ */
+export async function resolveViolationComponents(
+	client: Pick<RoopikToolClient, "inspectElement">,
+	violations: AccessibilityViolation[],
+): Promise<AccessibilityViolation[]> {
+	const selectors = [...new Set(violations.map((violation) => violation.selector))].slice(0, MAX_COMPONENT_LOOKUPS)
+	const components = new Map<string, { componentName?: string; componentSource?: string }>()
+
+	for (const selector of selectors) {
+		try {
+			const inspected = await client.inspectElement(selector, false)
+			if (inspected.success && inspected.data?.element) {
+				const { componentName, componentSource } = inspected.data.element
+				components.set(selector, { componentName, componentSource })
+			}
+		} catch {
+			// Source mapping is best-effort; the violation is still useful without it
+		}
+	}
+
+	return violations.map((violation) => ({ ...violation, ...components.get(violation.selector) }))
+}
+
+/**
+ * Group violations by the component that renders them, most violations first.
+ * Violations without a resolved component are grouped together last.
+ */
+export function groupViolationsByComponent(violations: AccessibilityViolation[]): ComponentViolationSummary[] {
+	const groups = new Map<string, ComponentViolationSummary>()
+
+	for (const violation of violations) {
+		const key = violation.componentSource ?? violation.componentName ?? ""
+		let group = groups.get(key)
+		if (!group) {
+			group = {
+				componentName: violation.componentName,
+				componentSource: violation.componentSource,
+				violationCount: 0,
+				rules: [],
+				selectors: [],
+			}
+			groups.set(key, group)
+		}
+
+		group.violationCount++
+		if (!group.rules.includes(violation.rule)) {
+			group.rules.push(violation.rule)
+		}
+		if (!group.selectors.includes(violation.selector)) {
+			group.selectors.push(violation.selector)
+		}
+	}
+
+	return Array.from(groups.entries())
+		.sort(([keyA, a], [keyB, b]) => {
+			if (!keyA !== !keyB) {
+				return keyA ? -1 : 1
+			}
+			return b.violationCount - a.violationCount
+		})
+		.map(([, group]) => group)
+}
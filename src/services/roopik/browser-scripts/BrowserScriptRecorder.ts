@@ -0,0 +1,80 @@
+/**
+ * BrowserScriptRecorder
+ *
+ * Keeps one in-progress recording per task. While a recording is active,
+ * RoopikToolHandler appends every successful browser_navigate,
+ * browser_action_input and browser_set_viewport call as a step.
+ */
+
+import type { BrowserScript, BrowserScriptAssertion, BrowserScriptStep } from "./types"
+
+export class BrowserScriptRecorder {
+	private readonly recordings = new Map<string, BrowserScript>()
+
+	/**
+	 * Start recording for a task, replacing any recording already in progress
+	 */
+	start(taskId: string, name: string): BrowserScript {
+		const script: BrowserScript = {
+			version: 1,
+			name,
+			createdAt: new Date().toISOString(),
+			steps: [],
+		}
+		this.recordings.set(taskId, script)
+		return script
+	}
+
+	isRecording(taskId: string): boolean {
+		return this.recordings.has(taskId)
+	}
+
+	getRecording(taskId: string): BrowserScript | undefined {
+		return this.recordings.get(taskId)
+	}
+
+	/**
+	 * Append a step to the task's recording. No-op if the task is not recording.
+	 */
+	recordStep(taskId: string, step: BrowserScriptStep): void {
+		this.recordings.get(taskId)?.steps.push(step)
+	}
+
+	/**
+	 * Attach assertions to the most recently recorded step, or to the script's
+	 * initial assertions if no step has been recorded yet.
+	 *
+	 * @returns the index of the step the assertions were attached to (-1 for initial assertions)
+	 * @throws Error if the task is not recording
+	 */
+	addAssertions(taskId: string, assertions: BrowserScriptAssertion[]): number {
+		const script = this.recordings.get(taskId)
+		if (!script) {
+			throw new Error("No browser script recording in progress")
+		}
+
+		const lastStep = script.steps[script.steps.length - 1]
+		if (!lastStep) {
+			script.initialAssertions = [...(script.initialAssertions ?? []), ...assertions]
+			return -1
+		}
+
+		lastStep.assertions = [...(lastStep.assertions ?? []), ...assertions]
+		return script.steps.length - 1
+	}
+
+	/**
+	 * Stop recording and return the finished script
+	 */
+	stop(taskId: string): BrowserScript | undefined {
+		const script = this.recordings.get(taskId)
+		this.recordings.delete(taskId)
+		return script
+	}
+
+	discard(taskId: string): void {
+		this.recordings.delete(taskId)
+	}
+}
+
+export const browserScriptRecorder = new BrowserScriptRecorder()
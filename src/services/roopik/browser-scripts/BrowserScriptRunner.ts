@@ -0,0 +1,243 @@
+/**
+ * BrowserScriptRunner
+ *
+ * Replays a recorded browser script step by step through the Roopik tool client
+ * and checks each step's assertions. Steps run strictly in order with a fixed
+ * settle delay, and element/url assertions poll until they pass or time out,
+ * so a replay does not depend on how fast the page happens to render.
+ */
+
+import delay from "delay"
+
+import type { RoopikToolClient, RoopikToolResult } from "../RoopikToolClient"
+import type {
+	BrowserScript,
+	BrowserScriptAssertion,
+	BrowserScriptAssertionResult,
+	BrowserScriptReplayReport,
+	BrowserScriptStep,
+	BrowserScriptStepResult,
+} from "./types"
+
+export const DEFAULT_STEP_DELAY_MS = 500
+export const DEFAULT_ASSERTION_TIMEOUT_MS = 5_000
+const ASSERTION_POLL_INTERVAL_MS = 250
+
+/**
+ * The subset of RoopikToolClient needed to replay scripts
+ */
+export type BrowserScriptClient = Pick<
+	RoopikToolClient,
+	"navigate" | "browserAction" | "browserSetViewport" | "executeScript" | "browserGetState" | "getErrors"
+>
+
+export interface BrowserScriptReplayOptions {
+	/** Stop at the first failing step (default: true) */
+	stopOnFailure?: boolean
+	/** Called after each step finishes, e.g. to report progress */
+	onStepComplete?: (result: BrowserScriptStepResult) => void
+}
+
+export class BrowserScriptRunner {
+	private consoleErrorBaseline = 0
+
+	constructor(private readonly client: BrowserScriptClient) {}
+
+	async replay(script: BrowserScript, options: BrowserScriptReplayOptions = {}): Promise<BrowserScriptReplayReport> {
+		const stopOnFailure = options.stopOnFailure ?? true
+		const stepDelayMs = script.stepDelayMs ?? DEFAULT_STEP_DELAY_MS
+		const assertionTimeoutMs = script.assertionTimeoutMs ?? DEFAULT_ASSERTION_TIMEOUT_MS
+		const startedAt = Date.now()
+
+		this.consoleErrorBaseline = await this.getConsoleErrorCount()
+
+		const report: BrowserScriptReplayReport = {
+			name: script.name,
+			passed: true,
+			stepsRun: 0,
+			totalSteps: script.steps.length,
+			initialAssertions: [],
+			steps: [],
+			durationMs: 0,
+		}
+
+		report.initialAssertions = await this.checkAssertions(script.initialAssertions ?? [], assertionTimeoutMs)
+		if (report.initialAssertions.some((result) => !result.passed)) {
+			report.passed = false
+			if (stopOnFailure) {
+				report.durationMs = Date.now() - startedAt
+				return report
+			}
+		}
+
+		for (const [index, step] of script.steps.entries()) {
+			const stepStartedAt = Date.now()
+			const result: BrowserScriptStepResult = {
+				index,
+				tool: step.tool,
+				passed: true,
+				assertions: [],
+				durationMs: 0,
+			}
+
+			const execution = await this.runStep(step)
+			if (!execution.success) {
+				result.passed = false
+				result.error = execution.error || `${step.tool} failed`
+			} else {
+				if (stepDelayMs > 0) {
+					await delay(stepDelayMs)
+				}
+				result.assertions = await this.checkAssertions(step.assertions ?? [], assertionTimeoutMs)
+				result.passed = result.assertions.every((assertion) => assertion.passed)
+			}
+
+			result.durationMs = Date.now() - stepStartedAt
+			report.steps.push(result)
+			report.stepsRun++
+			options.onStepComplete?.(result)
+
+			if (!result.passed) {
+				report.passed = false
+				report.failedStep ??= index
+				if (stopOnFailure) {
+					break
+				}
+			}
+		}
+
+		report.durationMs = Date.now() - startedAt
+		return report
+	}
+
+	private async runStep(step: BrowserScriptStep): Promise<RoopikToolResult> {
+		switch (step.tool) {
+			case "browser_navigate":
+				return this.client.navigate(step.args.url)
+			case "browser_action_input":
+				return this.client.browserAction(step.args)
+			case "browser_set_viewport":
+				return this.client.browserSetViewport(
+					step.args.width,
+					step.args.height,
+					step.args.deviceScaleFactor,
+					step.args.mobile,
+				)
+			default:
+				return { success: false, error: `Unsupported step tool: ${(step as { tool: string }).tool}` }
+		}
+	}
+
+	private async checkAssertions(
+		assertions: BrowserScriptAssertion[],
+		timeoutMs: number,
+	): Promise<BrowserScriptAssertionResult[]> {
+		const results: BrowserScriptAssertionResult[] = []
+		for (const assertion of assertions) {
+			results.push(await this.checkAssertion(assertion, timeoutMs))
+		}
+		return results
+	}
+
+	private async checkAssertion(
+		assertion: BrowserScriptAssertion,
+		timeoutMs: number,
+	): Promise<BrowserScriptAssertionResult> {
+		switch (assertion.type) {
+			case "element_exists": {
+				const found = await this.pollUntil(timeoutMs, async () => {
+					const result = await this.client.executeScript(
+						`document.querySelector(${JSON.stringify(assertion.selector)}) !== null`,
+					)
+					return result.success && result.data?.result === true
+				})
+				return {
+					assertion,
+					passed: found,
+					message: found ? undefined : `No element matches selector '${assertion.selector}'`,
+				}
+			}
+
+			case "url_matches": {
+				let lastUrl: string | undefined
+				const matched = await this.pollUntil(timeoutMs, async () => {
+					lastUrl = await this.getCurrentUrl()
+					return lastUrl !== undefined && urlMatches(lastUrl, assertion.pattern)
+				})
+				return {
+					assertion,
+					passed: matched,
+					message: matched ? undefined : `URL '${lastUrl ?? "unknown"}' does not match '${assertion.pattern}'`,
+				}
+			}
+
+			case "no_console_errors": {
+				const errors = await this.client.getErrors()
+				const count = errors.data?.consoleErrorCount ?? 0
+
+				// The error buffer is reset when the page reloads; treat everything as new in that case
+				if (count < this.consoleErrorBaseline) {
+					this.consoleErrorBaseline = 0
+				}
+
+				const newErrors = count - this.consoleErrorBaseline
+				if (newErrors <= 0) {
+					return { assertion, passed: true }
+				}
+
+				const messages = (errors.data?.errors ?? [])
+					.filter((error) => error.source === "console")
+					.slice(-newErrors)
+					.map((error) => error.message)
+				return {
+					assertion,
+					passed: false,
+					message: `${newErrors} console error(s): ${messages.join(" | ")}`,
+				}
+			}
+
+			default:
+				return {
+					assertion,
+					passed: false,
+					message: `Unknown assertion type: ${(assertion as { type: string }).type}`,
+				}
+		}
+	}
+
+	private async pollUntil(timeoutMs: number, check: () => Promise<boolean>): Promise<boolean> {
+		const deadline = Date.now() + timeoutMs
+		while (true) {
+			if (await check()) {
+				return true
+			}
+			if (Date.now() >= deadline) {
+				return false
+			}
+			await delay(ASSERTION_POLL_INTERVAL_MS)
+		}
+	}
+
+	private async getCurrentUrl(): Promise<string | undefined> {
+		const state = await this.client.browserGetState()
+		const url = (state.data as { url?: unknown } | undefined)?.url
+		return typeof url === "string" ? url : undefined
+	}
+
+	private async getConsoleErrorCount(): Promise<number> {
+		const errors = await this.client.getErrors()
+		return errors.data?.consoleErrorCount ?? 0
+	}
+}
+
+/**
+ * Match a URL against a pattern. Patterns are treated as regular expressions,
+ * falling back to a substring match if the pattern is not a valid regex.
+ */
+export function urlMatches(url: string, pattern: string): boolean {
+	try {
+		return new RegExp(pattern).test(url)
+	} catch {
+		return url.includes(pattern)
+	}
+}
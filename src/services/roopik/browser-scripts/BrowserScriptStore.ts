@@ -0,0 +1,80 @@
+/**
+ * BrowserScriptStore
+ *
+ * Reads and writes replayable browser scripts in the workspace so they can be
+ * checked into the repo and re-run as smoke tests:
+ *
+ * ```
+ * .dio/browser-scripts/
+ * ├── login-flow.json
+ * └── checkout-happy-path.json
+ * ```
+ */
+
+import * as fs from "fs/promises"
+import * as path from "path"
+
+import { safeWriteJson } from "../../../utils/safeWriteJson"
+import { getRoopikProjectDirectory, toProjectFileName } from "../paths"
+import type { BrowserScript } from "./types"
+
+export class BrowserScriptStore {
+	static readonly DIRECTORY_NAME = "browser-scripts"
+
+	private readonly rootDir: string
+
+	constructor(cwd: string) {
+		this.rootDir = path.join(getRoopikProjectDirectory(cwd), BrowserScriptStore.DIRECTORY_NAME)
+	}
+
+	get directory(): string {
+		return this.rootDir
+	}
+
+	getScriptPath(name: string): string {
+		return path.join(this.rootDir, `${toProjectFileName(name)}.json`)
+	}
+
+	/**
+	 * Save (or overwrite) a script, returning the file path
+	 */
+	async saveScript(script: BrowserScript): Promise<string> {
+		const scriptPath = this.getScriptPath(script.name)
+		await safeWriteJson(scriptPath, script, { prettyPrint: true })
+		return scriptPath
+	}
+
+	/**
+	 * Load a script by name, or undefined if it does not exist
+	 * @throws Error if the file exists but is not a valid script
+	 */
+	async loadScript(name: string): Promise<BrowserScript | undefined> {
+		let content: string
+		try {
+			content = await fs.readFile(this.getScriptPath(name), "utf-8")
+		} catch {
+			return undefined
+		}
+
+		const script = JSON.parse(content) as BrowserScript
+		if (!script || !Array.isArray(script.steps)) {
+			throw new Error(`Invalid browser script '${name}': missing steps array`)
+		}
+		return script
+	}
+
+	/**
+	 * List the names of all saved scripts
+	 */
+	async listScripts(): Promise<string[]> {
+		try {
+			const files = await fs.readdir(this.rootDir)
+			return files
+				.filter((file) => file.endsWith(".json"))
+				.map((file) => path.basename(file, ".json"))
+				.sort()
+		} catch {
+			return []
+		}
+	}
+}
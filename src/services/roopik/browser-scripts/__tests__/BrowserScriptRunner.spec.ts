@@ -0,0 +1,196 @@
+// npx vitest services/roopik/browser-scripts/__tests__/BrowserScriptRunner.spec.ts
+
+import { BrowserScriptRunner, urlMatches, type BrowserScriptClient } from "../BrowserScriptRunner"
+import { BrowserScriptRecorder } from "../BrowserScriptRecorder"
+import type { BrowserScript } from "../types"
+
+function createClient(overrides: Partial<Record<keyof BrowserScriptClient, any>> = {}) {
+	let url = "about:blank"
+	const existingSelectors = new Set<string>()
+	let consoleErrors: string[] = []
+
+	const client = {
+		navigate: vi.fn(async (target: string) => {
+			url = target
+			return { success: true, data: { url: target } }
+		}),
+		browserAction: vi.fn(async () => ({ success: true, data: {} })),
+		browserSetViewport: vi.fn(async () => ({ success: true, data: {} })),
+		executeScript: vi.fn(async (script: string) => {
+			const selector = JSON.parse(script.match(/querySelector\((.*)\) !== null/)![1])
+			return { success: true, data: { result: existingSelectors.has(selector) } }
+		}),
+		browserGetState: vi.fn(async () => ({ success: true, data: { url } })),
+		getErrors: vi.fn(async () => ({
+			success: true,
+			data: {
+				errorCount: consoleErrors.length,
+				consoleErrorCount: consoleErrors.length,
+				networkErrorCount: 0,
+				errors: consoleErrors.map((message) => ({ source: "console", type: "error", message, timestamp: 0 })),
+			},
+		})),
+		...overrides,
+	}
+
+	return {
+		client: client as unknown as BrowserScriptClient,
+		mocks: client,
+		addElement: (selector: string) => existingSelectors.add(selector),
+		setConsoleErrors: (errors: string[]) => (consoleErrors = errors),
+	}
+}
+
+function createScript(steps: BrowserScript["steps"], extra: Partial<BrowserScript> = {}): BrowserScript {
+	return {
+		version: 1,
+		name: "test-flow",
+		createdAt: new Date(0).toISOString(),
+		stepDelayMs: 0,
+		assertionTimeoutMs: 0,
+		steps,
+		...extra,
+	}
+}
+
+describe("BrowserScriptRunner", () => {
+	it("runs every step in order and passes when all assertions hold", async () => {
+		const { client, mocks, addElement } = createClient()
+		addElement("#dashboard")
+
+		const report = await new BrowserScriptRunner(client).replay(
+			createScript([
+				{ tool: "browser_set_viewport", args: { width: 1280, height: 800, deviceScaleFactor: 1, mobile: false } },
+				{
+					tool: "browser_navigate",
+					args: { url: "http://localhost:3000/dashboard" },
+					assertions: [
+						{ type: "url_matches", pattern: "/dashboard$" },
+						{ type: "element_exists", selector: "#dashboard" },
+						{ type: "no_console_errors" },
+					],
+				},
+				{ tool: "browser_action_input", args: { action: "click", coordinate: "10,10@1280x800" } },
+			]),
+		)
+
+		expect(report.passed).toBe(true)
+		expect(report.stepsRun).toBe(3)
+		expect(report.failedStep).toBeUndefined()
+		expect(report.steps[1].assertions.every((assertion) => assertion.passed)).toBe(true)
+		expect(mocks.browserSetViewport).toHaveBeenCalledWith(1280, 800, 1, false)
+		expect(mocks.navigate).toHaveBeenCalledWith("http://localhost:3000/dashboard")
+		expect(mocks.browserAction).toHaveBeenCalledWith({ action: "click", coordinate: "10,10@1280x800" })
+	})
+
+	it("stops at the first failing assertion by default", async () => {
+		const { client, mocks } = createClient()
+
+		const report = await new BrowserScriptRunner(client).replay(
+			createScript([
+				{
+					tool: "browser_navigate",
+					args: { url: "http://localhost:3000/login" },
+					assertions: [{ type: "element_exists", selector: "#missing" }],
+				},
+				{ tool: "browser_action_input", args: { action: "click", coordinate: "1,1" } },
+			]),
+		)
+
+		expect(report.passed).toBe(false)
+		expect(report.failedStep).toBe(0)
+		expect(report.stepsRun).toBe(1)
+		expect(report.steps[0].assertions[0].message).toContain("#missing")
+		expect(mocks.browserAction).not.toHaveBeenCalled()
+	})
+
+	it("continues past failures when stopOnFailure is false", async () => {
+		const { client } = createClient({
+			browserAction: vi.fn(async () => ({ success: false, error: "Element not clickable" })),
+		})
+
+		const report = await new BrowserScriptRunner(client).replay(
+			createScript([
+				{ tool: "browser_action_input", args: { action: "click", coordinate: "1,1" } },
+				{ tool: "browser_navigate", args: { url: "http://localhost:3000/" } },
+			]),
+			{ stopOnFailure: false },
+		)
+
+		expect(report.passed).toBe(false)
+		expect(report.failedStep).toBe(0)
+		expect(report.stepsRun).toBe(2)
+		expect(report.steps[0].error).toBe("Element not clickable")
+		expect(report.steps[1].passed).toBe(true)
+	})
+
+	it("only counts console errors logged after the replay started", async () => {
+		const { client, mocks, setConsoleErrors } = createClient()
+		setConsoleErrors(["old error"])
+		mocks.navigate.mockImplementation(async () => {
+			setConsoleErrors(["old error", "TypeError: x is undefined"])
+			return { success: true, data: {} }
+		})
+
+		const report = await new BrowserScriptRunner(client).replay(
+			createScript([
+				{
+					tool: "browser_navigate",
+					args: { url: "http://localhost:3000/" },
+					assertions: [{ type: "no_console_errors" }],
+				},
+			]),
+		)
+
+		expect(report.passed).toBe(false)
+		expect(report.steps[0].assertions[0].message).toBe("1 console error(s): TypeError: x is undefined")
+	})
+
+	it("checks initial assertions before running any step", async () => {
+		const { client, mocks } = createClient()
+
+		const report = await new BrowserScriptRunner(client).replay(
+			createScript([{ tool: "browser_navigate", args: { url: "http://localhost:3000/" } }], {
+				initialAssertions: [{ type: "url_matches", pattern: "localhost:3000" }],
+			}),
+		)
+
+		expect(report.passed).toBe(false)
+		expect(report.stepsRun).toBe(0)
+		expect(report.initialAssertions[0].message).toContain("about:blank")
+		expect(mocks.navigate).not.toHaveBeenCalled()
+	})
+
+	it("matches URLs by regex, falling back to substring for invalid patterns", () => {
+		expect(urlMatches("http://localhost:3000/settings/team", "/settings/\\w+$")).toBe(true)
+		expect(urlMatches("http://localhost:3000/settings", "/team$")).toBe(false)
+		expect(urlMatches("http://localhost:3000/a(b", "a(b")).toBe(true)
+	})
+})
+
+describe("BrowserScriptRecorder", () => {
+	it("records steps and attaches assertions to the latest step", () => {
+		const recorder = new BrowserScriptRecorder()
+		recorder.start("task-1", "login")
+
+		expect(recorder.addAssertions("task-1", [{ type: "url_matches", pattern: "/login" }])).toBe(-1)
+
+		recorder.recordStep("task-1", { tool: "browser_navigate", args: { url: "http://localhost:3000/login" } })
+		recorder.recordStep("task-2", { tool: "browser_navigate", args: { url: "http://localhost:3000/other" } })
+		expect(recorder.addAssertions("task-1", [{ type: "no_console_errors" }])).toBe(0)
+
+		const script = recorder.stop("task-1")
+		expect(script?.initialAssertions).toEqual([{ type: "url_matches", pattern: "/login" }])
+		expect(script?.steps).toHaveLength(1)
+		expect(script?.steps[0].assertions).toEqual([{ type: "no_console_errors" }])
+		expect(recorder.isRecording("task-1")).toBe(false)
+		expect(recorder.isRecording("task-2")).toBe(false)
+	})
+
+	it("throws when adding assertions without an active recording", () => {
+		const recorder = new BrowserScriptRecorder()
+		expect(() => recorder.addAssertions("task-1", [{ type: "no_console_errors" }])).toThrow(
+			"No browser script recording in progress",
+		)
+	})
+})
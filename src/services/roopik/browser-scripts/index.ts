@@ -0,0 +1,20 @@
+export { BrowserScriptStore } from "./BrowserScriptStore"
+export { BrowserScriptRecorder, browserScriptRecorder } from "./BrowserScriptRecorder"
+export {
+	BrowserScriptRunner,
+	urlMatches,
+	DEFAULT_STEP_DELAY_MS,
+	DEFAULT_ASSERTION_TIMEOUT_MS,
+	type BrowserScriptClient,
+	type BrowserScriptReplayOptions,
+} from "./BrowserScriptRunner"
+export {
+	RECORDABLE_BROWSER_TOOLS,
+	type RecordableBrowserTool,
+	type BrowserScript,
+	type BrowserScriptStep,
+	type BrowserScriptAssertion,
+	type BrowserScriptAssertionResult,
+	type BrowserScriptStepResult,
+	type BrowserScriptReplayReport,
+} from "./types"
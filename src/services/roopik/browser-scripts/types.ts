@@ -0,0 +1,92 @@
+import type { BrowserActionType } from "../RoopikToolClient"
+
+/**
+ * Assertions checked after a step has run.
+ * All assertions on a step must pass for the step to pass.
+ */
+export type BrowserScriptAssertion =
+	| { type: "element_exists"; selector: string }
+	| { type: "no_console_errors" }
+	| { type: "url_matches"; pattern: string }
+
+export interface BrowserNavigateStep {
+	tool: "browser_navigate"
+	args: { url: string }
+}
+
+export interface BrowserActionInputStep {
+	tool: "browser_action_input"
+	args: {
+		action: BrowserActionType
+		coordinate?: string
+		text?: string
+		key?: string
+		modifiers?: string[]
+		deltaX?: number
+		deltaY?: number
+	}
+}
+
+export interface BrowserSetViewportStep {
+	tool: "browser_set_viewport"
+	args: {
+		width?: number
+		height?: number
+		deviceScaleFactor?: number
+		mobile?: boolean
+	}
+}
+
+export type BrowserScriptStep = (BrowserNavigateStep | BrowserActionInputStep | BrowserSetViewportStep) & {
+	assertions?: BrowserScriptAssertion[]
+}
+
+export type RecordableBrowserTool = BrowserScriptStep["tool"]
+
+export const RECORDABLE_BROWSER_TOOLS: readonly RecordableBrowserTool[] = [
+	"browser_navigate",
+	"browser_action_input",
+	"browser_set_viewport",
+] as const
+
+/**
+ * A replayable browser script, stored as JSON in .dio/browser-scripts/<name>.json
+ */
+export interface BrowserScript {
+	version: 1
+	name: string
+	createdAt: string
+	/** Delay after each step before its assertions are checked (ms) */
+	stepDelayMs?: number
+	/** How long element/url assertions wait for the page to catch up (ms) */
+	assertionTimeoutMs?: number
+	/** Assertions checked once before the first step runs */
+	initialAssertions?: BrowserScriptAssertion[]
+	steps: BrowserScriptStep[]
+}
+
+export interface BrowserScriptAssertionResult {
+	assertion: BrowserScriptAssertion
+	passed: boolean
+	message?: string
+}
+
+export interface BrowserScriptStepResult {
+	index: number
+	tool: RecordableBrowserTool
+	passed: boolean
+	error?: string
+	assertions: BrowserScriptAssertionResult[]
+	durationMs: number
+}
+
+export interface BrowserScriptReplayReport {
+	name: string
+	passed: boolean
+	stepsRun: number
+	totalSteps: number
+	failedStep?: number
+	initialAssertions: BrowserScriptAssertionResult[]
+	steps: BrowserScriptStepResult[]
+	durationMs: number
+}
@@ -0,0 +1,209 @@
+/**
+ * Component Variants
+ *
+ * Prop variant matrices for canvas components. A matrix declares the values to
+ * try for each prop (e.g. size × theme × disabled); it is expanded into the
+ * full set of combinations, each with a stable id and a readable label, and
+ * handed to core, which renders every combination as a cell of a labelled grid
+ * on the canvas.
+ *
+ * Core captures each cell separately together with anything it threw or logged,
+ * so a single review call can tell which combinations are broken.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Prop name → values to render, e.g. `{ size: ["sm", "lg"], disabled: [false, true] }`
+ */
+export type VariantMatrix = Record<string, unknown[]>
+
+export interface ComponentVariant {
+	/** Stable identifier derived from the prop values, e.g. "size-sm__disabled-true" */
+	id: string
+	/** Human-readable label shown above the grid cell, e.g. "size=sm · disabled=true" */
+	label: string
+	/** Props for this cell: the base props merged with one value per matrix axis */
+	props: Record<string, unknown>
+}
+
+/**
+ * Result of capturing one variant cell, as reported by core
+ */
+export interface VariantCapture {
+	id: string
+	/** Screenshot of the cell (base64 data URL) */
+	image?: string
+	/** Error thrown while rendering the cell */
+	error?: string
+	/** console.error / console.warn output logged while rendering the cell */
+	consoleErrors?: string[]
+}
+
+export interface VariantReviewEntry {
+	id: string
+	label: string
+	props: Record<string, unknown>
+	passed: boolean
+	error?: string
+	consoleErrors?: string[]
+	/** True if core did not report this variant at all (e.g. the grid is stale) */
+	missing?: boolean
+}
+
+export interface VariantReview {
+	componentId: string
+	total: number
+	passed: number
+	failed: number
+	variants: VariantReviewEntry[]
+}
+
+/**
+ * Upper bound on the number of combinations in one matrix. Every combination
+ * is a mounted component instance and a screenshot, so large matrices make the
+ * canvas unusable and the review response too big to be useful.
+ */
+export const MAX_COMPONENT_VARIANTS = 64
+
+// ============================================================================
+// Matrix expansion
+// ============================================================================
+
+/**
+ * Parse a variant matrix from a tool parameter (a JSON object string)
+ * @throws Error if the value is not an object of non-empty arrays
+ */
+export function parseVariantMatrix(value: string | VariantMatrix): VariantMatrix {
+	let matrix: unknown = value
+	if (typeof value === "string") {
+		try {
+			matrix = JSON.parse(value)
+		} catch (error) {
+			throw new Error(`Invalid JSON in variants: ${error instanceof Error ? error.message : String(error)}`)
+		}
+	}
+
+	if (!matrix || typeof matrix !== "object" || Array.isArray(matrix)) {
+		throw new Error('variants must be an object mapping prop names to arrays of values, e.g. {"size":["sm","lg"]}')
+	}
+
+	const entries = Object.entries(matrix as Record<string, unknown>)
+	if (entries.length === 0) {
+		throw new Error("variants must declare at least one prop")
+	}
+	for (const [prop, values] of entries) {
+		if (!Array.isArray(values) || values.length === 0) {
+			throw new Error(`variants.${prop} must be a non-empty array of values`)
+		}
+	}
+
+	return matrix as VariantMatrix
+}
+
+/**
+ * Expand a matrix into every combination of its values, in declaration order
+ * (the last prop varies fastest, so grid rows group by the first prop).
+ *
+ * @example
+ * expandVariantMatrix({ size: ["sm", "lg"], disabled: [false, true] })
+ * // [
+ * //   { id: "size-sm__disabled-false", label: "size=sm · disabled=false", props: { size: "sm", disabled: false } },
+ * //   { id: "size-sm__disabled-true", ... },
+ * //   { id: "size-lg__disabled-false", ... },
+ * //   { id: "size-lg__disabled-true", ... },
+ * // ]
+ *
+ * @throws Error if the matrix has more than MAX_COMPONENT_VARIANTS combinations
+ */
+export function expandVariantMatrix(
+	matrix: VariantMatrix,
+	baseProps: Record<string, unknown> = {},
+): ComponentVariant[] {
+	const axes = Object.entries(parseVariantMatrix(matrix))
+	const total = axes.reduce((count, [, values]) => count * values.length, 1)
+	if (total > MAX_COMPONENT_VARIANTS) {
+		throw new Error(
+			`Variant matrix has ${total} combinations (max ${MAX_COMPONENT_VARIANTS}). Drop a prop or some values.`,
+		)
+	}
+
+	let combinations: Array<Array<[string, unknown]>> = [[]]
+	for (const [prop, values] of axes) {
+		combinations = combinations.flatMap((combination) =>
+			values.map((value) => [...combination, [prop, value] as [string, unknown]]),
+		)
+	}
+
+	const usedIds = new Set<string>()
+	return combinations.map((combination) => {
+		let id = combination.map(([prop, value]) => `${toIdPart(prop)}-${toIdPart(formatValue(value))}`).join("__")
+		// Distinct values can slug to the same id (e.g. "Large" and "large")
+		for (let suffix = 2; usedIds.has(id); suffix++) {
+			id = `${id.replace(/~\d+$/, "")}~${suffix}`
+		}
+		usedIds.add(id)
+
+		return {
+			id,
+			label: combination.map(([prop, value]) => `${prop}=${formatValue(value)}`).join(" · "),
+			props: { ...baseProps, ...Object.fromEntries(combination) },
+		}
+	})
+}
+
+/**
+ * Combine the declared variants with the captures reported by core
+ */
+export function buildVariantReview(
+	componentId: string,
+	variants: ComponentVariant[],
+	captures: VariantCapture[],
+): VariantReview {
+	const capturesById = new Map(captures.map((capture) => [capture.id, capture]))
+
+	const entries = variants.map((variant): VariantReviewEntry => {
+		const capture = capturesById.get(variant.id)
+		if (!capture) {
+			return { ...variant, passed: false, missing: true, error: "Variant was not rendered on the canvas" }
+		}
+
+		const consoleErrors = capture.consoleErrors?.filter(Boolean) ?? []
+		return {
+			...variant,
+			passed: !capture.error && consoleErrors.length === 0,
+			error: capture.error || undefined,
+			consoleErrors: consoleErrors.length > 0 ? consoleErrors : undefined,
+		}
+	})
+
+	const passed = entries.filter((entry) => entry.passed).length
+	return {
+		componentId,
+		total: entries.length,
+		passed,
+		failed: entries.length - passed,
+		variants: entries,
+	}
+}
+
+function formatValue(value: unknown): string {
+	if (typeof value === "string") {
+		return value
+	}
+	if (value === undefined) {
+		return "undefined"
+	}
+	return JSON.stringify(value) ?? String(value)
+}
+
+function toIdPart(text: string): string {
+	return (
+		text
+			.toLowerCase()
+			.replace(/[^a-z0-9]+/g, "-")
+			.replace(/^-+|-+$/g, "") || "empty"
+	)
+}
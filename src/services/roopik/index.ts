@@ -10,6 +10,7 @@ export {
 	roopikClient,
 	type RoopikToolResult,
 	type ScreenshotData,
+	type PageLoadOptions,
 	type NavigateData,
 	type ReloadData,
 	type ExecuteScriptData,
@@ -30,4 +31,79 @@ export {
 	type GetComponentInfoData,
 	type ListComponentsData,
 	type RebuildComponentData,
+	type CaptureComponentVariantsData,
 } from "./RoopikToolClient"
+export { IdeRoopikToolBackend, ROOPIK_TOOL_COMMAND_PREFIX, type RoopikToolBackend } from "./RoopikToolBackend"
+export { LocalRoopikToolBackend, type LocalRoopikToolBackendOptions } from "./local/LocalRoopikToolBackend"
+export { LocalCanvasStore, type LocalComponent, type AddLocalComponentOptions } from "./local/LocalCanvasStore"
+export {
+	VisualBaselineStore,
+	toBaselineName,
+	getViewportKey,
+	type VisualViewport,
+	type VisualBaselineMetadata,
+	type VisualBaseline,
+} from "./VisualBaselineStore"
+export {
+	comparePngImages,
+	parseImageDataUrl,
+	toPngDataUrl,
+	getPngDimensions,
+	type DiffRegion,
+	type VisualDiffResult,
+	type VisualDiffOptions,
+} from "./visual-diff"
+export {
+	buildAccessibilityAuditScript,
+	parseAccessibilityAuditResult,
+	resolveViolationComponents,
+	groupViolationsByComponent,
+	DEFAULT_AUDIT_VIOLATION_LIMIT,
+	type AccessibilityRule,
+	type AccessibilityImpact,
+	type AccessibilityViolation,
+	type AccessibilityAuditResult,
+	type AccessibilityAuditOptions,
+	type ComponentViolationSummary,
+} from "./accessibility-audit"
+export { NetworkMockStore, type NetworkMockRuleInput } from "./NetworkMockStore"
+export {
+	buildNetworkMockScript,
+	toUrlRegExp,
+	matchesNetworkMockRule,
+	inferContentType,
+	NETWORK_MOCK_STATUS_SCRIPT,
+	type NetworkMockRule,
+	type NetworkMockHit,
+} from "./network-mocks"
+export { ComponentVariantStore, type ComponentVariantEntry } from "./ComponentVariantStore"
+export {
+	parseVariantMatrix,
+	expandVariantMatrix,
+	buildVariantReview,
+	MAX_COMPONENT_VARIANTS,
+	type VariantMatrix,
+	type ComponentVariant,
+	type VariantCapture,
+	type VariantReview,
+	type VariantReviewEntry,
+} from "./component-variants"
+export { PerformanceBudgetStore } from "./PerformanceBudgetStore"
+export {
+	extractPerformanceMetrics,
+	evaluatePerformanceBudget,
+	describeBudgetFailures,
+	parsePerformanceBudget,
+	PERFORMANCE_BUDGET_SCRIPT,
+	PERFORMANCE_METRICS,
+	type PerformanceMetricKey,
+	type PerformanceMetrics,
+	type PerformanceBudget,
+	type PerformanceTrend,
+	type PerformanceMetricResult,
+	type PerformanceBudgetEvaluation,
+	type PerformanceRun,
+	type InPagePerformanceData,
+} from "./performance-budget"
+export { ROOPIK_PROJECT_DIR, getRoopikProjectDirectory, toProjectFileName } from "./paths"
+export * from "./browser-scripts"
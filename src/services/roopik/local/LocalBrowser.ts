@@ -0,0 +1,577 @@
+/**
+ * LocalBrowser
+ *
+ * Headless stand-in for the Roopik IDE browser preview, built on the same
+ * BrowserSession (puppeteer) code as the generic browser_action tool.
+ *
+ * Console messages, page errors and network requests are buffered per page so
+ * the CDP tools (get_errors, get_console_logs, get_network_requests) can answer
+ * after the fact, like the IDE does. Source mapping (component file and CSS rule
+ * locations in inspect_element) needs the IDE and is not available here.
+ */
+
+import type { Page, HTTPRequest, KeyInput } from "puppeteer-core"
+
+import type { BrowserSession } from "../../browser/BrowserSession"
+import type {
+	RoopikToolResult,
+	ScreenshotData,
+	BrowserActionType,
+	BrowserActionData,
+	BrowserOpenData,
+	BrowserCloseData,
+	NavigateData,
+	ReloadData,
+	ExecuteScriptData,
+	InspectElementData,
+	ErrorsData,
+	ConsoleLogsData,
+} from "../RoopikToolClient"
+
+/** Entries kept per buffer; the oldest are dropped first */
+const MAX_BUFFERED_ENTRIES = 500
+
+/** Viewport restored when an override is cleared, same as BrowserSession's default */
+const DEFAULT_VIEWPORT = { width: 900, height: 600 }
+
+/** Resource types hidden from get_network_requests unless includeStaticAssets is set */
+const STATIC_RESOURCE_TYPES = new Set(["image", "stylesheet", "font", "media", "script", "manifest", "other"])
+
+/** Computed properties reported by inspect_element */
+const INSPECTED_PROPERTIES = [
+	"display",
+	"position",
+	"width",
+	"height",
+	"margin",
+	"padding",
+	"color",
+	"background-color",
+	"font-family",
+	"font-size",
+	"font-weight",
+	"line-height",
+	"border",
+	"border-radius",
+	"flex-direction",
+	"justify-content",
+	"align-items",
+	"gap",
+	"z-index",
+	"opacity",
+]
+
+interface ConsoleEntry {
+	type: string
+	message: string
+	location?: string
+	timestamp: number
+}
+
+interface NetworkEntry {
+	url: string
+	method: string
+	resourceType: string
+	status?: number
+	statusText?: string
+	mimeType?: string
+	transferSize?: number
+	failed?: boolean
+	errorText?: string
+	timestamp: number
+}
+
+export class LocalBrowser {
+	private readonly instrumented = new WeakSet<Page>()
+	/** Identifier of the init script registered on each page, so the next one can replace it */
+	private readonly initScripts = new WeakMap<Page, string>()
+	private consoleEntries: ConsoleEntry[] = []
+	private networkEntries: NetworkEntry[] = []
+	private currentUrl?: string
+
+	constructor(private readonly session: BrowserSession) {}
+
+	// ========================================================================
+	// Browser Tools
+	// ========================================================================
+
+	async open(url?: string, initScript?: string): Promise<RoopikToolResult<BrowserOpenData>> {
+		if (!url) {
+			return { success: false, error: "A URL is required to open the local browser" }
+		}
+
+		try {
+			if (!this.session.isSessionActive()) {
+				await this.session.launchBrowser()
+				await this.session.navigateToUrl(url)
+				// The first load happened before the listeners and the init script existed; load again so its logs
+				// are captured and its requests see the init script
+				await this.session.withPage(async (page) => {
+					this.instrument(page)
+					await this.setInitScript(page, initScript)
+					await page.reload({ waitUntil: ["domcontentloaded", "networkidle2"] })
+				})
+			} else {
+				await this.goto(url, initScript)
+			}
+			this.currentUrl = url
+			return {
+				success: true,
+				data: { url, message: `Opened ${url} in the local browser`, initScriptInstalled: !!initScript },
+			}
+		} catch (error) {
+			return failure(error)
+		}
+	}
+
+	async navigate(url: string, initScript?: string): Promise<RoopikToolResult<NavigateData>> {
+		if (!this.session.isSessionActive()) {
+			const opened = await this.open(url, initScript)
+			return opened.success
+				? { success: true, data: { url, message: `Navigated to ${url}`, initScriptInstalled: !!initScript } }
+				: { success: false, error: opened.error }
+		}
+
+		try {
+			await this.goto(url, initScript)
+			return { success: true, data: { url, message: `Navigated to ${url}`, initScriptInstalled: !!initScript } }
+		} catch (error) {
+			return failure(error)
+		}
+	}
+
+	async reload(ignoreCache?: boolean, initScript?: string): Promise<RoopikToolResult<ReloadData>> {
+		return this.run(async (page) => {
+			await this.setInitScript(page, initScript)
+			if (ignoreCache) {
+				await page.setCacheEnabled(false)
+			}
+			try {
+				await page.reload({ waitUntil: ["domcontentloaded", "networkidle2"] })
+			} finally {
+				if (ignoreCache) {
+					await page.setCacheEnabled(true)
+				}
+			}
+			return {
+				hardReload: !!ignoreCache,
+				message: ignoreCache ? "Hard reloaded the page" : "Reloaded the page",
+				initScriptInstalled: !!initScript,
+			}
+		})
+	}
+
+	async close(): Promise<RoopikToolResult<BrowserCloseData>> {
+		await this.session.closeBrowser()
+		this.currentUrl = undefined
+		return { success: true, data: { message: "Closed the local browser" } }
+	}
+
+	async screenshot(): Promise<RoopikToolResult<ScreenshotData>> {
+		return this.run(async (page) => {
+			const base64 = (await page.screenshot({ encoding: "base64", type: "png" })) as string
+			const { width, height } = page.viewport() ?? DEFAULT_VIEWPORT
+			const devicePixelRatio = page.viewport()?.deviceScaleFactor ?? 1
+			return {
+				image: `data:image/png;base64,${base64}`,
+				format: "data-url" as const,
+				viewport: { width, height, devicePixelRatio },
+			}
+		})
+	}
+
+	async browserAction(options: {
+		action: BrowserActionType
+		coordinate?: string
+		text?: string
+		key?: string
+		modifiers?: string[]
+		deltaX?: number
+		deltaY?: number
+	}): Promise<RoopikToolResult<BrowserActionData>> {
+		return this.run(async (page) => {
+			const { action, text, key, modifiers = [] } = options
+			const point = options.coordinate ? scaleCoordinate(options.coordinate, page) : undefined
+			const needsPoint = ["click", "right_click", "double_click", "hover", "drag"].includes(action)
+			if (needsPoint && !point) {
+				throw new Error(`A coordinate is required for ${action}`)
+			}
+
+			for (const modifier of modifiers) {
+				await page.keyboard.down(modifier as KeyInput)
+			}
+			try {
+				switch (action) {
+					case "click":
+						await page.mouse.click(point!.x, point!.y)
+						break
+					case "right_click":
+						await page.mouse.click(point!.x, point!.y, { button: "right" })
+						break
+					case "double_click":
+						await page.mouse.click(point!.x, point!.y, { clickCount: 2 })
+						break
+					case "hover":
+						await page.mouse.move(point!.x, point!.y)
+						break
+					case "drag": {
+						const to = { x: point!.x + (options.deltaX ?? 0), y: point!.y + (options.deltaY ?? 0) }
+						await page.mouse.move(point!.x, point!.y)
+						await page.mouse.down()
+						await page.mouse.move(to.x, to.y, { steps: 10 })
+						await page.mouse.up()
+						return {
+							action,
+							from: point,
+							to,
+							message: `Dragged from (${point!.x}, ${point!.y}) to (${to.x}, ${to.y})`,
+						}
+					}
+					case "type":
+						if (text === undefined) {
+							throw new Error("text is required for type")
+						}
+						await page.keyboard.type(text)
+						return { action, textLength: text.length, message: `Typed ${text.length} characters` }
+					case "press":
+						if (!key) {
+							throw new Error("key is required for press")
+						}
+						await page.keyboard.press(key as KeyInput)
+						return { action, key, modifiers, message: `Pressed ${[...modifiers, key].join("+")}` }
+					case "scroll":
+						if (point) {
+							await page.mouse.move(point.x, point.y)
+						}
+						await page.mouse.wheel({ deltaX: options.deltaX ?? 0, deltaY: options.deltaY ?? 0 })
+						return {
+							action,
+							deltaX: options.deltaX,
+							deltaY: options.deltaY,
+							message: `Scrolled by (${options.deltaX ?? 0}, ${options.deltaY ?? 0})`,
+						}
+					default:
+						throw new Error(`Unsupported browser action: ${action}`)
+				}
+			} finally {
+				for (const modifier of [...modifiers].reverse()) {
+					await page.keyboard.up(modifier as KeyInput)
+				}
+			}
+
+			return {
+				action,
+				coordinate: options.coordinate,
+				x: point!.x,
+				y: point!.y,
+				message: `Performed ${action} at (${point!.x}, ${point!.y})`,
+			}
+		})
+	}
+
+	async setViewport(options: {
+		width?: number
+		height?: number
+		deviceScaleFactor?: number
+		mobile?: boolean
+	}): Promise<RoopikToolResult<unknown>> {
+		return this.run(async (page) => {
+			const cleared = !options.width || !options.height
+			const viewport = cleared
+				? { ...DEFAULT_VIEWPORT, deviceScaleFactor: 1, isMobile: false }
+				: {
+						width: options.width!,
+						height: options.height!,
+						deviceScaleFactor: options.deviceScaleFactor ?? 1,
+						isMobile: !!options.mobile,
+					}
+			await page.setViewport(viewport)
+			return {
+				viewport,
+				message: cleared
+					? "Cleared the viewport override"
+					: `Viewport set to ${viewport.width}x${viewport.height}`,
+			}
+		})
+	}
+
+	async getState(): Promise<RoopikToolResult<unknown>> {
+		if (!this.session.isSessionActive()) {
+			return { success: true, data: { isOpen: false } }
+		}
+		return this.run(async (page) => ({
+			isOpen: true,
+			url: page.url(),
+			title: await page.title(),
+			viewport: page.viewport(),
+		}))
+	}
+
+	async getPerformance(): Promise<RoopikToolResult<unknown>> {
+		return this.run(async (page) => {
+			const metrics = await page.metrics()
+			const webVitals = await page.evaluate(() => {
+				const [navigation] = performance.getEntriesByType("navigation") as PerformanceNavigationTiming[]
+				const paints = performance.getEntriesByType("paint")
+				const lcpEntries = performance.getEntriesByType("largest-contentful-paint")
+				const firstContentfulPaint = paints.find((entry) => entry.name === "first-contentful-paint")
+				return {
+					ttfb: navigation ? navigation.responseStart - navigation.requestStart : undefined,
+					domContentLoaded: navigation?.domContentLoadedEventEnd,
+					load: navigation?.loadEventEnd,
+					fcp: firstContentfulPaint?.startTime,
+					lcp: lcpEntries.length > 0 ? lcpEntries[lcpEntries.length - 1].startTime : undefined,
+				}
+			})
+			return { metrics, webVitals }
+		})
+	}
+
+	async getNetworkRequests(options?: {
+		includeStaticAssets?: boolean
+		urlFilter?: string
+		method?: string
+		statusFilter?: "success" | "error" | "all"
+		limit?: number
+	}): Promise<RoopikToolResult<unknown>> {
+		const limit = Math.min(Math.max(options?.limit ?? 100, 1), MAX_BUFFERED_ENTRIES)
+		const requests = this.networkEntries.filter((entry) => {
+			if (!options?.includeStaticAssets && STATIC_RESOURCE_TYPES.has(entry.resourceType)) return false
+			if (options?.urlFilter && !entry.url.includes(options.urlFilter)) return false
+			if (options?.method && entry.method.toUpperCase() !== options.method.toUpperCase()) return false
+			const isError = entry.failed || (entry.status ?? 0) >= 400
+			if (options?.statusFilter === "success" && isError) return false
+			if (options?.statusFilter === "error" && !isError) return false
+			return true
+		})
+
+		return {
+			success: true,
+			data: { count: Math.min(requests.length, limit), total: requests.length, requests: requests.slice(-limit) },
+		}
+	}
+
+	async executeScript(script: string): Promise<RoopikToolResult<ExecuteScriptData>> {
+		return this.run(async (page) => {
+			// Scripts are expressions or statement blocks; evaluate as the IDE does, awaiting promises
+			const result = await page.evaluate(script)
+			return { result }
+		})
+	}
+
+	async inspectElement(selector: string, includeInherited?: boolean): Promise<RoopikToolResult<InspectElementData>> {
+		return this.run(async (page) => {
+			const inspected = await page.evaluate(
+				(selector: string, properties: string[], includeInherited: boolean) => {
+					const element = document.querySelector(selector)
+					if (!element) {
+						return undefined
+					}
+					const computed = getComputedStyle(element)
+					const inlineStyles: Record<string, string> = {}
+					const style = (element as HTMLElement).style
+					for (let i = 0; style && i < style.length; i++) {
+						inlineStyles[style[i]] = style.getPropertyValue(style[i])
+					}
+					const inheritedStyles: Record<string, unknown> = {}
+					if (includeInherited && element.parentElement) {
+						const parent = getComputedStyle(element.parentElement)
+						for (const property of ["color", "font-family", "font-size", "line-height"]) {
+							inheritedStyles[property] = parent.getPropertyValue(property)
+						}
+					}
+					return {
+						tag: element.tagName.toLowerCase(),
+						classes: Array.from(element.classList),
+						properties: Object.fromEntries(
+							properties.map((property) => [property, computed.getPropertyValue(property)]),
+						),
+						inlineStyles,
+						inheritedStyles,
+					}
+				},
+				selector,
+				INSPECTED_PROPERTIES,
+				!!includeInherited,
+			)
+
+			if (!inspected) {
+				throw new Error(`No element matches selector: ${selector}`)
+			}
+
+			return {
+				selector,
+				element: { tag: inspected.tag, classes: inspected.classes },
+				inlineStyles: inspected.inlineStyles,
+				inheritedStyles: includeInherited ? inspected.inheritedStyles : undefined,
+				properties: inspected.properties,
+			}
+		})
+	}
+
+	// ========================================================================
+	// CDP Tools
+	// ========================================================================
+
+	async getErrors(limit?: number): Promise<RoopikToolResult<ErrorsData>> {
+		const consoleErrors = this.consoleEntries
+			.filter((entry) => entry.type === "error")
+			.map((entry) => ({ source: "console" as const, ...entry }))
+		const networkErrors = this.networkEntries
+			.filter((entry) => entry.failed || (entry.status ?? 0) >= 400)
+			.map((entry) => ({
+				source: "network" as const,
+				type: entry.failed ? "failed" : `http-${entry.status}`,
+				message: entry.errorText ?? `${entry.status} ${entry.statusText ?? ""}`.trim(),
+				url: entry.url,
+				method: entry.method,
+				timestamp: entry.timestamp,
+			}))
+
+		const errors = [...consoleErrors, ...networkErrors].sort((a, b) => a.timestamp - b.timestamp)
+		return {
+			success: true,
+			data: {
+				errorCount: errors.length,
+				consoleErrorCount: consoleErrors.length,
+				networkErrorCount: networkErrors.length,
+				errors: limit ? errors.slice(-limit) : errors,
+			},
+		}
+	}
+
+	async getConsoleLogs(
+		limit?: number,
+		type?: "log" | "debug" | "info" | "warn" | "error",
+	): Promise<RoopikToolResult<ConsoleLogsData>> {
+		const logs = type ? this.consoleEntries.filter((entry) => entry.type === type) : this.consoleEntries
+		const selected = limit ? logs.slice(-limit) : logs
+		return { success: true, data: { count: selected.length, total: logs.length, logs: selected } }
+	}
+
+	isOpen(): boolean {
+		return this.session.isSessionActive()
+	}
+
+	getCurrentUrl(): string | undefined {
+		return this.currentUrl
+	}
+
+	// ========================================================================
+	// Internal Helpers
+	// ========================================================================
+
+	private async goto(url: string, initScript?: string): Promise<void> {
+		await this.session.withPage(async (page) => {
+			this.instrument(page)
+			await this.setInitScript(page, initScript)
+			await page.goto(url, { waitUntil: ["domcontentloaded", "networkidle2"] })
+		})
+		this.currentUrl = url
+	}
+
+	/**
+	 * Replace the page's init script, or drop it when there is none
+	 */
+	private async setInitScript(page: Page, initScript?: string): Promise<void> {
+		const previous = this.initScripts.get(page)
+		if (previous) {
+			this.initScripts.delete(page)
+			await page.removeScriptToEvaluateOnNewDocument(previous)
+		}
+		if (initScript) {
+			const { identifier } = await page.evaluateOnNewDocument(initScript)
+			this.initScripts.set(page, identifier)
+		}
+	}
+
+	/**
+	 * Run against the active page, turning a missing browser or a thrown error into a failed result
+	 */
+	private async run<T>(callback: (page: Page) => Promise<T>): Promise<RoopikToolResult<T>> {
+		if (!this.session.isSessionActive()) {
+			return { success: false, error: "The local browser is not open. Use browser_open first." }
+		}
+		try {
+			return {
+				success: true,
+				data: await this.session.withPage(async (page) => {
+					this.instrument(page)
+					return callback(page)
+				}),
+			}
+		} catch (error) {
+			return failure(error)
+		}
+	}
+
+	private instrument(page: Page): void {
+		if (this.instrumented.has(page)) {
+			return
+		}
+		this.instrumented.add(page)
+
+		page.on("console", (message) => {
+			const location = message.location()
+			this.pushConsole({
+				type: message.type(),
+				message: message.text(),
+				location: location?.url ? `${location.url}:${location.lineNumber ?? 0}` : undefined,
+				timestamp: Date.now(),
+			})
+		})
+		page.on("pageerror", (error) => {
+			this.pushConsole({
+				type: "error",
+				message: error instanceof Error ? error.message : String(error),
+				timestamp: Date.now(),
+			})
+		})
+		page.on("requestfailed", (request) => {
+			this.pushNetwork({ ...describeRequest(request), failed: true, errorText: request.failure()?.errorText })
+		})
+		page.on("requestfinished", (request) => {
+			const response = request.response()
+			const contentLength = Number(response?.headers()["content-length"])
+			this.pushNetwork({
+				...describeRequest(request),
+				status: response?.status(),
+				statusText: response?.statusText(),
+				mimeType: response?.headers()["content-type"],
+				transferSize: Number.isFinite(contentLength) ? contentLength : undefined,
+			})
+		})
+	}
+
+	private pushConsole(entry: ConsoleEntry): void {
+		this.consoleEntries = [...this.consoleEntries, entry].slice(-MAX_BUFFERED_ENTRIES)
+	}
+
+	private pushNetwork(entry: NetworkEntry): void {
+		this.networkEntries = [...this.networkEntries, entry].slice(-MAX_BUFFERED_ENTRIES)
+	}
+}
+
+function describeRequest(request: HTTPRequest): NetworkEntry {
+	return { url: request.url(), method: request.method(), resourceType: request.resourceType(), timestamp: Date.now() }
+}
+
+/**
+ * Map 'x,y@WIDTHxHEIGHT' (screenshot space) to page coordinates
+ */
+function scaleCoordinate(coordinate: string, page: Page): { x: number; y: number } {
+	const match = coordinate.trim().match(/^(-?\d+(?:\.\d+)?)\s*,\s*(-?\d+(?:\.\d+)?)(?:\s*@\s*(\d+)\s*x\s*(\d+))?$/)
+	if (!match) {
+		throw new Error(`Invalid coordinate '${coordinate}'. Expected 'x,y@WIDTHxHEIGHT'`)
+	}
+
+	const [, x, y, width, height] = match
+	const viewport = page.viewport() ?? DEFAULT_VIEWPORT
+	const scaleX = width ? viewport.width / Number(width) : 1
+	const scaleY = height ? viewport.height / Number(height) : 1
+	return { x: Math.round(Number(x) * scaleX), y: Math.round(Number(y) * scaleY) }
+}
+
+function failure(error: unknown): RoopikToolResult<never> {
+	return { success: false, error: error instanceof Error ? error.message : String(error) }
+}
@@ -0,0 +1,428 @@
+/**
+ * LocalCanvasStore
+ *
+ * File-backed stand-in for Roopik IDE's canvas model, used by the local tool
+ * backend. Canvases and their components live in one JSON file in the project:
+ *
+ * ```
+ * .dio/local-canvas.json
+ * ```
+ *
+ * There is no renderer behind it: adding or rebuilding a component checks that
+ * its folder and entry file exist and records the detected framework, which is
+ * what the canvas tools report as the build state.
+ */
+
+import * as crypto from "crypto"
+import * as fs from "fs/promises"
+import * as path from "path"
+
+import { safeWriteJson } from "../../../utils/safeWriteJson"
+import { fileExistsAtPath } from "../../../utils/fs"
+import { getRoopikProjectDirectory } from "../paths"
+import type { ComponentVariant } from "../component-variants"
+import type {
+	RoopikToolResult,
+	CanvasSummary,
+	ListCanvasesData,
+	ActiveCanvasData,
+	CreateCanvasData,
+	ComponentSummary,
+	AddComponentData,
+	AddComponentsData,
+	RemoveComponentData,
+	GetComponentInfoData,
+	ListComponentsData,
+	RebuildComponentData,
+} from "../RoopikToolClient"
+
+export interface LocalComponent extends ComponentSummary {
+	canvasId: string
+	componentName: string
+	folderPath: string
+	entryFile?: string
+	framework?: string
+	buildState: "success" | "error"
+	buildError?: string
+	variants?: Array<Pick<ComponentVariant, "id" | "label">>
+	origin: "local"
+	createdAt: string
+	updatedAt: string
+}
+
+interface LocalCanvas {
+	id: string
+	name: string
+	description?: string
+	components: LocalComponent[]
+	createdAt: string
+	updatedAt: string
+}
+
+interface LocalCanvasFile {
+	version: 1
+	activeCanvasId?: string
+	canvases: LocalCanvas[]
+}
+
+export interface AddLocalComponentOptions {
+	folderPath: string
+	canvasId?: string
+	name?: string
+	entryFile?: string
+	framework?: string
+	variants?: ComponentVariant[]
+}
+
+/** Entry files tried, in order, when none is given */
+const ENTRY_FILE_CANDIDATES = [
+	"index.tsx",
+	"index.jsx",
+	"App.tsx",
+	"App.jsx",
+	"index.vue",
+	"App.vue",
+	"index.svelte",
+	"App.svelte",
+	"index.ts",
+	"index.js",
+	"index.html",
+]
+
+export class LocalCanvasStore {
+	static readonly FILE_NAME = "local-canvas.json"
+
+	private readonly filePath: string
+
+	constructor(private readonly cwd: string) {
+		this.filePath = path.join(getRoopikProjectDirectory(cwd), LocalCanvasStore.FILE_NAME)
+	}
+
+	get path(): string {
+		return this.filePath
+	}
+
+	// ========================================================================
+	// Canvases
+	// ========================================================================
+
+	async listCanvases(options?: {
+		nameFilter?: string
+		sortBy?: "name" | "createdAt" | "updatedAt"
+		sortDirection?: "asc" | "desc"
+	}): Promise<RoopikToolResult<ListCanvasesData>> {
+		const file = await this.read()
+		const filter = options?.nameFilter?.toLowerCase()
+		const sortBy = options?.sortBy ?? "updatedAt"
+		const direction = options?.sortDirection === "asc" ? 1 : -1
+
+		const canvases = file.canvases
+			.filter((canvas) => !filter || canvas.name.toLowerCase().includes(filter))
+			.sort((a, b) => a[sortBy].localeCompare(b[sortBy]) * direction)
+			.map(toCanvasSummary)
+
+		return { success: true, data: { canvases, count: canvases.length } }
+	}
+
+	async getActiveCanvas(): Promise<RoopikToolResult<ActiveCanvasData>> {
+		const file = await this.read()
+		const canvas = file.canvases.find((candidate) => candidate.id === file.activeCanvasId)
+		if (!canvas) {
+			return { success: true, data: { activeCanvas: null, message: "No active canvas" } }
+		}
+		return {
+			success: true,
+			data: { activeCanvas: { ...toCanvasSummary(canvas), isOpen: true, isFocused: true } },
+		}
+	}
+
+	/**
+	 * Create a canvas, or return the existing one with the same name
+	 */
+	async createCanvas(name: string): Promise<RoopikToolResult<CreateCanvasData>> {
+		if (!name?.trim()) {
+			return { success: false, error: "Canvas name is required" }
+		}
+
+		const file = await this.read()
+		let canvas = file.canvases.find((candidate) => candidate.name.toLowerCase() === name.trim().toLowerCase())
+		const isNew = !canvas
+
+		if (!canvas) {
+			const now = new Date().toISOString()
+			canvas = { id: createId("canvas"), name: name.trim(), components: [], createdAt: now, updatedAt: now }
+			file.canvases.push(canvas)
+		}
+		file.activeCanvasId = canvas.id
+		await this.write(file)
+
+		return {
+			success: true,
+			data: {
+				canvasId: canvas.id,
+				isNew,
+				canvas: toCanvasSummary(canvas),
+				message: isNew ? `Created canvas '${canvas.name}'` : `Canvas '${canvas.name}' already exists`,
+			},
+		}
+	}
+
+	async openCanvas(
+		canvasId?: string,
+		name?: string,
+	): Promise<RoopikToolResult<{ canvas: CanvasSummary; message: string }>> {
+		const file = await this.read()
+		const canvas = file.canvases.find(
+			(candidate) =>
+				(canvasId && candidate.id === canvasId) ||
+				(!canvasId && name && candidate.name.toLowerCase() === name.toLowerCase()),
+		)
+		if (!canvas) {
+			return { success: false, error: `Canvas not found: ${canvasId ?? name ?? "(no id or name given)"}` }
+		}
+
+		file.activeCanvasId = canvas.id
+		await this.write(file)
+		return { success: true, data: { canvas: toCanvasSummary(canvas), message: `Opened canvas '${canvas.name}'` } }
+	}
+
+	// ========================================================================
+	// Components
+	// ========================================================================
+
+	async addComponent(options: AddLocalComponentOptions): Promise<RoopikToolResult<AddComponentData>> {
+		const file = await this.read()
+		const canvas = this.resolveCanvas(file, options.canvasId)
+		if (!canvas) {
+			return {
+				success: false,
+				error: options.canvasId
+					? `Canvas not found: ${options.canvasId}`
+					: "No active canvas. Create or open a canvas first.",
+			}
+		}
+
+		const folderPath = path.resolve(this.cwd, options.folderPath)
+		const now = new Date().toISOString()
+		const component: LocalComponent = {
+			id: createId("component"),
+			canvasId: canvas.id,
+			componentName: options.name || path.basename(folderPath),
+			folderPath,
+			origin: "local",
+			buildState: "success",
+			variants: options.variants?.map(({ id, label }) => ({ id, label })),
+			createdAt: now,
+			updatedAt: now,
+		}
+		await this.build(component, options.entryFile, options.framework)
+
+		canvas.components.push(component)
+		canvas.updatedAt = now
+		await this.write(file)
+
+		return { success: true, data: { component } }
+	}
+
+	async addComponents(components: AddLocalComponentOptions[]): Promise<RoopikToolResult<AddComponentsData>> {
+		const added: ComponentSummary[] = []
+		for (const options of components) {
+			const result = await this.addComponent(options)
+			if (result.success && result.data) {
+				added.push(result.data.component)
+			}
+		}
+		return { success: true, data: { count: added.length, components: added } }
+	}
+
+	async removeComponent(
+		componentId: string,
+		deleteSourceCode?: boolean,
+	): Promise<RoopikToolResult<RemoveComponentData>> {
+		const file = await this.read()
+		const found = findComponent(file, componentId)
+		if (!found) {
+			return { success: false, error: `Component not found: ${componentId}` }
+		}
+
+		found.canvas.components = found.canvas.components.filter((component) => component.id !== componentId)
+		found.canvas.updatedAt = new Date().toISOString()
+		await this.write(file)
+
+		if (deleteSourceCode) {
+			await fs.rm(found.component.folderPath, { recursive: true, force: true })
+		}
+
+		return { success: true, data: { componentId, deletedSourceCode: !!deleteSourceCode } }
+	}
+
+	async getComponentInfo(componentId: string): Promise<RoopikToolResult<GetComponentInfoData>> {
+		const found = findComponent(await this.read(), componentId)
+		if (!found) {
+			return { success: false, error: `Component not found: ${componentId}` }
+		}
+		return { success: true, data: { component: found.component } }
+	}
+
+	async listComponents(canvasId?: string): Promise<RoopikToolResult<ListComponentsData>> {
+		const file = await this.read()
+		const canvas = this.resolveCanvas(file, canvasId)
+		if (!canvas) {
+			return { success: false, error: `Canvas not found: ${canvasId ?? "(no active canvas)"}` }
+		}
+		return { success: true, data: { canvasId: canvas.id, components: canvas.components } }
+	}
+
+	async rebuildComponent(componentId: string): Promise<RoopikToolResult<RebuildComponentData>> {
+		const file = await this.read()
+		const found = findComponent(file, componentId)
+		if (!found) {
+			return { success: false, error: `Component not found: ${componentId}` }
+		}
+
+		await this.build(found.component, found.component.entryFile, found.component.framework)
+		found.component.updatedAt = new Date().toISOString()
+		await this.write(file)
+
+		return {
+			success: true,
+			data: {
+				componentId,
+				message:
+					found.component.buildState === "success"
+						? `Rebuilt ${found.component.componentName}`
+						: `Rebuild failed: ${found.component.buildError}`,
+			},
+		}
+	}
+
+	/**
+	 * Re-check every component in a canvas and summarize the build states
+	 */
+	async validateComponents(canvasId?: string): Promise<RoopikToolResult<unknown>> {
+		const file = await this.read()
+		const canvas = this.resolveCanvas(file, canvasId)
+		if (!canvas) {
+			return { success: false, error: `Canvas not found: ${canvasId ?? "(no active canvas)"}` }
+		}
+
+		for (const component of canvas.components) {
+			await this.build(component, component.entryFile, component.framework)
+		}
+		await this.write(file)
+
+		const failed = canvas.components.filter((component) => component.buildState === "error")
+		return {
+			success: true,
+			data: {
+				canvasId: canvas.id,
+				summary: {
+					total: canvas.components.length,
+					success: canvas.components.length - failed.length,
+					failed: failed.length,
+					building: 0,
+				},
+				errors: failed.map((component) => ({
+					componentId: component.id,
+					componentName: component.componentName,
+					error: component.buildError,
+				})),
+			},
+		}
+	}
+
+	// ========================================================================
+	// Internal Helpers
+	// ========================================================================
+
+	private resolveCanvas(file: LocalCanvasFile, canvasId?: string): LocalCanvas | undefined {
+		const id = canvasId || file.activeCanvasId
+		return file.canvases.find((canvas) => canvas.id === id)
+	}
+
+	/**
+	 * Resolve the entry file and framework, and record the result as the build state
+	 */
+	private async build(component: LocalComponent, entryFile?: string, framework?: string): Promise<void> {
+		const candidates = entryFile ? [entryFile] : ENTRY_FILE_CANDIDATES
+		let resolved: string | undefined
+		for (const candidate of candidates) {
+			if (await fileExistsAtPath(path.join(component.folderPath, candidate))) {
+				resolved = candidate
+				break
+			}
+		}
+
+		component.entryFile = resolved ?? entryFile
+		if (!resolved) {
+			component.buildState = "error"
+			component.buildError = entryFile
+				? `Entry file not found: ${path.join(component.folderPath, entryFile)}`
+				: `No entry file found in ${component.folderPath} (looked for ${ENTRY_FILE_CANDIDATES.join(", ")})`
+			return
+		}
+
+		component.framework = framework || (await detectFramework(path.join(component.folderPath, resolved)))
+		component.buildState = "success"
+		delete component.buildError
+	}
+
+	private async read(): Promise<LocalCanvasFile> {
+		let content: string
+		try {
+			content = await fs.readFile(this.filePath, "utf-8")
+		} catch {
+			return { version: 1, canvases: [] }
+		}
+
+		const parsed = JSON.parse(content) as Partial<LocalCanvasFile>
+		return {
+			version: 1,
+			activeCanvasId: parsed.activeCanvasId,
+			canvases: Array.isArray(parsed.canvases) ? parsed.canvases : [],
+		}
+	}
+
+	private async write(file: LocalCanvasFile): Promise<void> {
+		await safeWriteJson(this.filePath, file, { prettyPrint: true })
+	}
+}
+
+function createId(prefix: string): string {
+	return `${prefix}-${crypto.randomUUID().slice(0, 8)}`
+}
+
+function toCanvasSummary(canvas: LocalCanvas): CanvasSummary {
+	return {
+		id: canvas.id,
+		name: canvas.name,
+		description: canvas.description,
+		componentCount: canvas.components.length,
+		createdAt: canvas.createdAt,
+		updatedAt: canvas.updatedAt,
+	}
+}
+
+function findComponent(
+	file: LocalCanvasFile,
+	componentId: string,
+): { canvas: LocalCanvas; component: LocalComponent } | undefined {
+	for (const canvas of file.canvases) {
+		const component = canvas.components.find((candidate) => candidate.id === componentId)
+		if (component) {
+			return { canvas, component }
+		}
+	}
+	return undefined
+}
+
+async function detectFramework(entryPath: string): Promise<string> {
+	const extension = path.extname(entryPath)
+	if (extension === ".vue") return "vue"
+	if (extension === ".svelte") return "svelte"
+	if (extension === ".html") return "vanilla"
+	if (extension === ".tsx" || extension === ".jsx") return "react"
+
+	const source = await fs.readFile(entryPath, "utf-8").catch(() => "")
+	return /from\s+["']react["']|require\(["']react["']\)/.test(source) ? "react" : "vanilla"
+}
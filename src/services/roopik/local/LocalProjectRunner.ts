@@ -0,0 +1,177 @@
+/**
+ * LocalProjectRunner
+ *
+ * Runs a project's dev server for the local tool backend, standing in for the
+ * IDE's start_project. The script is `dev` (or `start`) from package.json, run
+ * with the package manager the lockfile points to; the URL is read from the
+ * server's output.
+ */
+
+import { spawn, type ChildProcess } from "child_process"
+import * as fs from "fs/promises"
+import * as path from "path"
+import stripAnsi from "strip-ansi"
+
+import { fileExistsAtPath } from "../../../utils/fs"
+import type { RoopikToolResult, ActiveProjectData, StartProjectData, StopProjectData } from "../RoopikToolClient"
+
+/** How long to wait for the dev server to print its URL */
+const DEV_SERVER_START_TIMEOUT_MS = 60_000
+
+/** Lines of server output kept for error messages */
+const MAX_OUTPUT_LINES = 50
+
+const LOCAL_URL_PATTERN = /https?:\/\/(?:localhost|127\.0\.0\.1|0\.0\.0\.0|\[::1?\]):\d+[^\s]*/
+
+interface PackageJson {
+	scripts?: Record<string, string>
+	dependencies?: Record<string, string>
+	devDependencies?: Record<string, string>
+}
+
+interface RunningProject {
+	projectPath: string
+	url: string
+	port?: number
+	framework?: string
+	process: ChildProcess
+}
+
+export class LocalProjectRunner {
+	private running?: RunningProject
+
+	getActiveProject(): RoopikToolResult<ActiveProjectData> {
+		if (!this.running) {
+			return { success: true, data: { hasActiveProject: false, message: "No project is running" } }
+		}
+		const { projectPath, url, port, framework } = this.running
+		return { success: true, data: { hasActiveProject: true, projectPath, url, port, framework, state: "running" } }
+	}
+
+	async start(projectPath: string, port?: number): Promise<RoopikToolResult<StartProjectData>> {
+		const packageJsonPath = path.join(projectPath, "package.json")
+		let packageJson: PackageJson
+		try {
+			packageJson = JSON.parse(await fs.readFile(packageJsonPath, "utf-8"))
+		} catch {
+			return { success: false, error: `No readable package.json in ${projectPath}` }
+		}
+
+		const script = ["dev", "start"].find((name) => packageJson.scripts?.[name])
+		if (!script) {
+			return { success: false, error: `package.json in ${projectPath} has no "dev" or "start" script` }
+		}
+
+		await this.stop()
+
+		const packageManager = await detectPackageManager(projectPath)
+		const child = spawn(packageManager, ["run", script], {
+			cwd: projectPath,
+			env: { ...process.env, ...(port ? { PORT: String(port) } : {}), BROWSER: "none", FORCE_COLOR: "0" },
+			shell: process.platform === "win32",
+			// Own process group, so stop() also ends the server the package manager spawned
+			detached: process.platform !== "win32",
+			stdio: ["ignore", "pipe", "pipe"],
+		})
+
+		let url: string
+		try {
+			url = await waitForServerUrl(child)
+		} catch (error) {
+			killProcessTree(child)
+			return { success: false, error: error instanceof Error ? error.message : String(error) }
+		}
+
+		const dependencies = { ...packageJson.dependencies, ...packageJson.devDependencies }
+		this.running = {
+			projectPath,
+			url,
+			port: Number(new URL(url).port) || undefined,
+			framework: ["next", "vite", "react-scripts", "@angular/core", "nuxt", "@sveltejs/kit", "astro"].find(
+				(name) => name in dependencies,
+			),
+			process: child,
+		}
+		child.once("exit", () => {
+			if (this.running?.process === child) {
+				this.running = undefined
+			}
+		})
+
+		return {
+			success: true,
+			data: { url, projectPath, message: `Started ${packageManager} run ${script} at ${url}` },
+		}
+	}
+
+	async stop(): Promise<RoopikToolResult<StopProjectData>> {
+		if (!this.running) {
+			return { success: true, data: { message: "No project is running" } }
+		}
+
+		const { projectPath, process: child } = this.running
+		this.running = undefined
+		killProcessTree(child)
+		return { success: true, data: { projectPath, message: `Stopped ${projectPath}` } }
+	}
+}
+
+async function detectPackageManager(projectPath: string): Promise<string> {
+	if (await fileExistsAtPath(path.join(projectPath, "pnpm-lock.yaml"))) return "pnpm"
+	if (await fileExistsAtPath(path.join(projectPath, "yarn.lock"))) return "yarn"
+	if (await fileExistsAtPath(path.join(projectPath, "bun.lockb"))) return "bun"
+	return "npm"
+}
+
+function waitForServerUrl(child: ChildProcess): Promise<string> {
+	return new Promise((resolve, reject) => {
+		const output: string[] = []
+
+		const finish = (error?: Error, url?: string) => {
+			clearTimeout(timer)
+			child.stdout?.off("data", onData)
+			child.stderr?.off("data", onData)
+			child.off("exit", onExit)
+			child.off("error", onError)
+			if (error) reject(error)
+			else resolve(url!)
+		}
+		const onData = (chunk: Buffer) => {
+			const text = stripAnsi(chunk.toString())
+			output.push(...text.split(/\r?\n/).filter(Boolean))
+			output.splice(0, Math.max(0, output.length - MAX_OUTPUT_LINES))
+			const match = text.match(LOCAL_URL_PATTERN)
+			if (match) {
+				finish(undefined, match[0].replace("0.0.0.0", "localhost").replace(/[/.,]+$/, ""))
+			}
+		}
+		const onExit = (code: number | null) =>
+			finish(new Error(`Dev server exited with code ${code} before printing a URL:\n${output.join("\n")}`))
+		const onError = (error: Error) => finish(new Error(`Failed to start the dev server: ${error.message}`))
+		const timer = setTimeout(() => {
+			const seconds = DEV_SERVER_START_TIMEOUT_MS / 1000
+			finish(new Error(`Dev server did not print a local URL within ${seconds}s:\n${output.join("\n")}`))
+		}, DEV_SERVER_START_TIMEOUT_MS)
+
+		child.stdout?.on("data", onData)
+		child.stderr?.on("data", onData)
+		child.once("exit", onExit)
+		child.once("error", onError)
+	})
+}
+
+function killProcessTree(child: ChildProcess): void {
+	if (child.pid === undefined || child.exitCode !== null) {
+		return
+	}
+	try {
+		if (process.platform === "win32") {
+			spawn("taskkill", ["/pid", String(child.pid), "/T", "/F"])
+		} else {
+			// Negative pid: the whole group started for this server, nothing else
+			process.kill(-child.pid, "SIGTERM")
+		}
+	} catch {
+		child.kill("SIGTERM")
+	}
+}
@@ -0,0 +1,165 @@
+/**
+ * LocalRoopikToolBackend
+ *
+ * Serves Roopik tool calls without Roopik IDE: a headless browser for the
+ * browser/CDP tools, a dev server runner for the project tools and a
+ * file-backed canvas model for the canvas/component tools. Lets the Roopik
+ * tools run in the CLI, in evals and in integration tests.
+ *
+ * Select it with `ROOPIK_TOOL_BACKEND=local`, or install it directly with
+ * `roopikClient.setBackend(new LocalRoopikToolBackend({ ... }))`.
+ */
+
+import type { BrowserSession } from "../../browser/BrowserSession"
+import { ROOPIK_TOOL_COMMAND_PREFIX, type RoopikToolBackend } from "../RoopikToolBackend"
+import type { RoopikToolResult } from "../RoopikToolClient"
+import { LocalBrowser } from "./LocalBrowser"
+import { LocalCanvasStore } from "./LocalCanvasStore"
+import { LocalProjectRunner } from "./LocalProjectRunner"
+
+export interface LocalRoopikToolBackendOptions {
+	/** Workspace the canvas file and relative component paths resolve against */
+	getCwd: () => string | undefined
+	/** Create the puppeteer session on first use; omit to run without browser tools */
+	createBrowserSession?: () => BrowserSession
+}
+
+type Args = Record<string, any>
+
+export class LocalRoopikToolBackend implements RoopikToolBackend {
+	readonly name = "local"
+
+	private browser?: LocalBrowser
+	private readonly projects = new LocalProjectRunner()
+
+	constructor(private readonly options: LocalRoopikToolBackendOptions) {}
+
+	async isAvailable(): Promise<boolean> {
+		return true
+	}
+
+	async executeCommand<T>(command: string, args?: Record<string, unknown>): Promise<RoopikToolResult<T>> {
+		if (!command.startsWith(ROOPIK_TOOL_COMMAND_PREFIX)) {
+			return { success: false, error: `Unknown Roopik command: ${command}` }
+		}
+		return this.executeTool<T>(command.slice(ROOPIK_TOOL_COMMAND_PREFIX.length), args)
+	}
+
+	async executeTool<T>(tool: string, args: Args = {}): Promise<RoopikToolResult<T>> {
+		try {
+			return (await this.dispatch(tool, args)) as RoopikToolResult<T>
+		} catch (error) {
+			return { success: false, error: error instanceof Error ? error.message : String(error) }
+		}
+	}
+
+	async dispose(): Promise<void> {
+		await this.projects.stop()
+		await this.browser?.close()
+	}
+
+	private async dispatch(tool: string, args: Args): Promise<RoopikToolResult<unknown>> {
+		switch (tool) {
+			// Browser
+			case "browserOpen":
+				return this.getBrowser().open(args.url ?? this.projects.getActiveProject().data?.url, args.initScript)
+			case "browserClose":
+				return this.getBrowser().close()
+			case "screenshot":
+				return this.getBrowser().screenshot()
+			case "browserAction":
+				return this.getBrowser().browserAction(args as Parameters<LocalBrowser["browserAction"]>[0])
+			case "browserGetPerformance":
+				return this.getBrowser().getPerformance()
+			case "browserGetState":
+				return this.getBrowser().getState()
+			case "browserSetViewport":
+				return this.getBrowser().setViewport(args)
+			case "browserGetNetworkRequests":
+				return this.getBrowser().getNetworkRequests(args)
+			case "navigate":
+				return this.getBrowser().navigate(args.url, args.initScript)
+			case "reload":
+				return this.getBrowser().reload(args.ignoreCache, args.initScript)
+			case "executeScript":
+				return this.getBrowser().executeScript(args.script)
+			case "inspectElement":
+				return this.getBrowser().inspectElement(args.selector, args.includeInherited)
+
+			// CDP
+			case "getErrors":
+				return this.getBrowser().getErrors(args.limit)
+			case "getConsoleLogs":
+				return this.getBrowser().getConsoleLogs(args.limit, args.type)
+
+			// Project
+			case "getActiveProject":
+				return this.projects.getActiveProject()
+			case "startProject": {
+				const started = await this.projects.start(args.projectPath, args.port)
+				if (started.success && started.data && this.options.createBrowserSession) {
+					const opened = await this.getBrowser().open(started.data.url)
+					if (!opened.success) {
+						const message = `${started.data.message} (browser: ${opened.error})`
+						return { success: true, data: { ...started.data, message } }
+					}
+				}
+				return started
+			}
+			case "stopProject":
+				return this.projects.stop()
+
+			// Canvas
+			case "listCanvases":
+				return this.getCanvas().listCanvases(args)
+			case "getActiveCanvas":
+				return this.getCanvas().getActiveCanvas()
+			case "createCanvas":
+				return this.getCanvas().createCanvas(args.name)
+			case "openCanvas":
+				return this.getCanvas().openCanvas(args.canvasId, args.name)
+
+			// Component
+			case "addComponent":
+				return this.getCanvas().addComponent(args as Parameters<LocalCanvasStore["addComponent"]>[0])
+			case "addComponents":
+				return this.getCanvas().addComponents(args.components ?? [])
+			case "removeComponent":
+				return this.getCanvas().removeComponent(args.componentId, args.deleteSourceCode)
+			case "getComponentInfo":
+				return this.getCanvas().getComponentInfo(args.componentId)
+			case "listComponents":
+				return this.getCanvas().listComponents(args.canvasId)
+			case "rebuildComponent":
+				return this.getCanvas().rebuildComponent(args.componentId)
+			case "validateComponents":
+				return this.getCanvas().validateComponents(args.canvasId)
+			case "captureComponentVariants":
+				return {
+					success: false,
+					error: "Capturing component variants needs the Roopik IDE canvas renderer (not available locally)",
+				}
+
+			default:
+				return { success: false, error: `Roopik tool '${tool}' is not supported by the local backend` }
+		}
+	}
+
+	private getBrowser(): LocalBrowser {
+		if (!this.browser) {
+			if (!this.options.createBrowserSession) {
+				throw new Error("Browser tools are not available: the local backend was created without a browser")
+			}
+			this.browser = new LocalBrowser(this.options.createBrowserSession())
+		}
+		return this.browser
+	}
+
+	private getCanvas(): LocalCanvasStore {
+		const cwd = this.options.getCwd()
+		if (!cwd) {
+			throw new Error("Canvas tools need an open workspace folder in local mode")
+		}
+		return new LocalCanvasStore(cwd)
+	}
+}
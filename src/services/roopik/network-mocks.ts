@@ -0,0 +1,260 @@
+/**
+ * Network Mocks
+ *
+ * Request interception rules for the Roopik browser preview. Rules map a URL
+ * pattern (and optionally a method) to a canned response with a status code,
+ * body, headers and artificial latency, so empty, error and slow-loading states
+ * can be exercised without a real backend.
+ *
+ * Rules are applied in-page by patching `fetch` and `XMLHttpRequest` through
+ * executeScript. The patch does not survive a page load, so callers re-apply
+ * it after every navigation; requests fired before it is installed hit the
+ * network as usual.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface NetworkMockRule {
+	/** Stable identifier used to update or remove the rule */
+	id: string
+	/**
+	 * URL pattern matched against the absolute request URL.
+	 * Either a glob where `*` matches anything (e.g. "*\/api/users*"),
+	 * or a regular expression wrapped in slashes (e.g. "/\/api\/users\/\d+$/").
+	 */
+	urlPattern: string
+	/** HTTP method to match (default: any) */
+	method?: string
+	/** Response status. 0 simulates a network failure. (default: 200) */
+	status: number
+	/** Response body, sent as-is */
+	body?: string
+	/** Extra response headers */
+	headers?: Record<string, string>
+	/** Delay before the response is delivered (ms) */
+	latencyMs?: number
+	/** Disabled rules are kept but not applied */
+	enabled?: boolean
+	createdAt: string
+	updatedAt: string
+}
+
+export interface NetworkMockHit {
+	id: string
+	method: string
+	url: string
+	timestamp: number
+}
+
+/**
+ * Rule as sent to the page: the pattern is pre-compiled to a RegExp source
+ */
+interface CompiledNetworkMockRule {
+	id: string
+	source: string
+	flags: string
+	method?: string
+	status: number
+	body: string
+	headers: Record<string, string>
+	latencyMs: number
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Convert a URL pattern into a RegExp.
+ *
+ * @example
+ * toUrlRegExp("*\/api/users*")        // matches http://localhost:3000/api/users?page=2
+ * toUrlRegExp("/\\/api\\/users$/i")   // regex literal syntax, flags supported
+ *
+ * @throws Error if a regex-style pattern is invalid
+ */
+export function toUrlRegExp(pattern: string): RegExp {
+	// Only valid flags make a regex literal, so paths like "/api/users" stay globs
+	const regexLiteral = /^\/(.+)\/([dgimsuvy]*)$/.exec(pattern)
+	if (regexLiteral) {
+		try {
+			// Stateful flags would make repeated test() calls skip matches
+			return new RegExp(regexLiteral[1], regexLiteral[2].replace(/[gy]/g, ""))
+		} catch (error) {
+			throw new Error(
+				`Invalid URL pattern '${pattern}': ${error instanceof Error ? error.message : String(error)}`,
+			)
+		}
+	}
+
+	const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, "\\$&").replace(/\*/g, ".*")
+	// Globs without a wildcard match anywhere in the URL, e.g. "/api/users"
+	return new RegExp(pattern.includes("*") ? `^${escaped}$` : escaped)
+}
+
+/**
+ * Check whether a request matches a rule
+ */
+export function matchesNetworkMockRule(rule: NetworkMockRule, url: string, method = "GET"): boolean {
+	if (rule.enabled === false) {
+		return false
+	}
+	if (rule.method && rule.method.toUpperCase() !== method.toUpperCase()) {
+		return false
+	}
+	return toUrlRegExp(rule.urlPattern).test(url)
+}
+
+/**
+ * Default Content-Type for a body: JSON if it parses as JSON, plain text otherwise
+ */
+export function inferContentType(body: string | undefined): string {
+	if (body === undefined || body.trim() === "") {
+		return "application/json"
+	}
+	try {
+		JSON.parse(body)
+		return "application/json"
+	} catch {
+		return "text/plain"
+	}
+}
+
+function compileRule(rule: NetworkMockRule): CompiledNetworkMockRule {
+	const regex = toUrlRegExp(rule.urlPattern)
+	const headers: Record<string, string> = { ...rule.headers }
+	if (!Object.keys(headers).some((name) => name.toLowerCase() === "content-type")) {
+		headers["Content-Type"] = inferContentType(rule.body)
+	}
+
+	return {
+		id: rule.id,
+		source: regex.source,
+		flags: regex.flags,
+		method: rule.method?.toUpperCase(),
+		status: rule.status,
+		body: rule.body ?? "",
+		headers,
+		latencyMs: Math.max(0, rule.latencyMs ?? 0),
+	}
+}
+
+// ============================================================================
+// In-page scripts
+// ============================================================================
+
+/**
+ * Script source for the in-page interceptor. Installing it twice only swaps
+ * the rules, so it is safe to re-apply after every navigation.
+ */
+const INSTALL_SCRIPT = String.raw`(() => {
+	const RULES = __RULES__;
+	const state = window.__dioNetworkMocks || (window.__dioNetworkMocks = { installed: false, rules: [], hits: [] });
+	state.rules = RULES.map((rule) => Object.assign({}, rule, { regex: new RegExp(rule.source, rule.flags) }));
+
+	if (!state.installed) {
+		state.installed = true;
+
+		const findRule = (url, method) => {
+			let absolute = String(url);
+			try {
+				absolute = new URL(absolute, location.href).href;
+			} catch (e) {}
+			const upper = (method || "GET").toUpperCase();
+			const rule = state.rules.find((r) => (!r.method || r.method === upper) && r.regex.test(absolute));
+			if (rule) {
+				state.hits.push({ id: rule.id, method: upper, url: absolute, timestamp: Date.now() });
+				if (state.hits.length > 100) state.hits.shift();
+			}
+			return rule;
+		};
+		const wait = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+		const originalFetch = window.fetch;
+		window.fetch = function (input, init) {
+			const url = typeof input === "string" || input instanceof URL ? String(input) : input.url;
+			const method = (init && init.method) || (input && typeof input === "object" && "method" in input ? input.method : "GET");
+			const rule = findRule(url, method);
+			if (!rule) {
+				return originalFetch.apply(this, arguments);
+			}
+			return wait(rule.latencyMs).then(() => {
+				if (rule.status === 0) {
+					throw new TypeError("Failed to fetch (mocked network error)");
+				}
+				const nullBody = rule.status === 204 || rule.status === 304;
+				return new Response(nullBody ? null : rule.body, { status: rule.status, headers: rule.headers });
+			});
+		};
+
+		const originalOpen = XMLHttpRequest.prototype.open;
+		const originalSend = XMLHttpRequest.prototype.send;
+		XMLHttpRequest.prototype.open = function (method, url) {
+			this.__dioRequest = { method, url };
+			return originalOpen.apply(this, arguments);
+		};
+		XMLHttpRequest.prototype.send = function () {
+			const request = this.__dioRequest;
+			const rule = request && findRule(request.url, request.method);
+			if (!rule) {
+				return originalSend.apply(this, arguments);
+			}
+			const xhr = this;
+			const define = (name, value) => Object.defineProperty(xhr, name, { configurable: true, get: () => value });
+			const headerText = Object.keys(rule.headers).map((name) => name.toLowerCase() + ": " + rule.headers[name]).join("\r\n");
+			setTimeout(() => {
+				if (rule.status === 0) {
+					define("readyState", 4);
+					define("status", 0);
+					xhr.dispatchEvent(new Event("readystatechange"));
+					xhr.dispatchEvent(new ProgressEvent("error"));
+					xhr.dispatchEvent(new ProgressEvent("loadend"));
+					return;
+				}
+				let response = rule.body;
+				if (xhr.responseType === "json") {
+					try {
+						response = JSON.parse(rule.body);
+					} catch (e) {
+						response = null;
+					}
+				}
+				define("readyState", 4);
+				define("status", rule.status);
+				define("statusText", String(rule.status));
+				define("responseURL", new URL(request.url, location.href).href);
+				define("responseText", rule.body);
+				define("response", response);
+				xhr.getAllResponseHeaders = () => headerText;
+				xhr.getResponseHeader = (name) => {
+					const key = Object.keys(rule.headers).find((header) => header.toLowerCase() === String(name).toLowerCase());
+					return key ? rule.headers[key] : null;
+				};
+				xhr.dispatchEvent(new Event("readystatechange"));
+				xhr.dispatchEvent(new ProgressEvent("load"));
+				xhr.dispatchEvent(new ProgressEvent("loadend"));
+			}, rule.latencyMs);
+		};
+	}
+
+	return JSON.stringify({ installed: true, ruleCount: state.rules.length });
+})()`
+
+/**
+ * Script reporting which rules are active in the page and which requests they served
+ */
+export const NETWORK_MOCK_STATUS_SCRIPT = `(() => {
+	const state = window.__dioNetworkMocks;
+	return JSON.stringify(state ? { installed: state.installed, ruleCount: state.rules.length, hits: state.hits } : { installed: false, ruleCount: 0, hits: [] });
+})()`
+
+/**
+ * Build the in-page script that installs (or updates) the interceptor with the given rules
+ */
+export function buildNetworkMockScript(rules: NetworkMockRule[]): string {
+	const compiled = rules.filter((rule) => rule.enabled !== false).map(compileRule)
+	// Function replacer: regex sources routinely contain "$" replacement patterns
+	return INSTALL_SCRIPT.replace("__RULES__", () => JSON.stringify(compiled))
+}
@@ -0,0 +1,40 @@
+import * as path from "path"
+import sanitize from "sanitize-filename"
+
+/**
+ * Name of the project-local directory holding Roopik artifacts that are meant
+ * to be committed and reviewed alongside the code (baselines, scripts, etc.)
+ */
+export const ROOPIK_PROJECT_DIR = ".dio"
+
+/**
+ * Gets the project-local .dio directory for a given cwd
+ *
+ * @example
+ * ```typescript
+ * getRoopikProjectDirectory('/Users/john/my-project')
+ * // Returns: "/Users/john/my-project/.dio"
+ * ```
+ */
+export function getRoopikProjectDirectory(cwd: string): string {
+	return path.join(cwd, ROOPIK_PROJECT_DIR)
+}
+
+/**
+ * Turn a user-facing name or route into a safe file/directory name.
+ *
+ * @example
+ * toProjectFileName("/")              // "index"
+ * toProjectFileName("/settings/team") // "settings-team"
+ * toProjectFileName("Login Page")     // "login-page"
+ */
+export function toProjectFileName(nameOrRoute: string): string {
+	const slug = sanitize(
+		nameOrRoute
+			.trim()
+			.toLowerCase()
+			.replace(/[\/\\\s]+/g, "-")
+			.replace(/^-+|-+$/g, ""),
+	)
+	return slug || "index"
+}
@@ -0,0 +1,364 @@
+/**
+ * Performance Budget
+ *
+ * Project-level limits for the page running in the Roopik browser preview,
+ * and the logic to measure the page and evaluate it against them:
+ *
+ * - LCP, CLS and JS heap come from browser_get_performance, with an in-page
+ *   fallback (PerformanceObserver / performance.memory) for anything it omits
+ * - Long tasks are always read in-page, since CDP metrics don't include them
+ * - Script and transfer sizes come from browser_get_network_requests, with
+ *   resource timing as a fallback when requests carry no sizes
+ *
+ * All metrics are "lower is better", which keeps evaluation and trends uniform.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type PerformanceMetricKey =
+	| "lcpMs"
+	| "cls"
+	| "jsHeapMb"
+	| "longTaskCount"
+	| "longTaskTotalMs"
+	| "scriptBytes"
+	| "largestScriptBytes"
+	| "transferBytes"
+
+export type PerformanceMetrics = Partial<Record<PerformanceMetricKey, number>>
+
+export interface PerformanceBudget {
+	version: 1
+	/** Refuse attempt_completion on frontend tasks while the page is over budget (default: true) */
+	enforceOnCompletion?: boolean
+	budgets: PerformanceMetrics
+}
+
+export type PerformanceTrend = "improved" | "regressed" | "unchanged" | "new"
+
+export interface PerformanceMetricResult {
+	metric: PerformanceMetricKey
+	label: string
+	/** Measured value, or undefined if the page did not report it */
+	value?: number
+	budget: number
+	passed: boolean
+	/** Value in the previous run of this task */
+	previous?: number
+	trend: PerformanceTrend
+}
+
+export interface PerformanceBudgetEvaluation {
+	passed: boolean
+	results: PerformanceMetricResult[]
+	/** Budgeted metrics that could not be measured; they don't fail the budget */
+	unmeasured: PerformanceMetricKey[]
+}
+
+/**
+ * A measured run, as kept in task metadata for trends
+ */
+export interface PerformanceRun {
+	timestamp: number
+	url?: string
+	passed: boolean
+	metrics: PerformanceMetrics
+	failed: PerformanceMetricKey[]
+}
+
+export const PERFORMANCE_METRICS: Record<PerformanceMetricKey, { label: string; unit: string }> = {
+	lcpMs: { label: "Largest Contentful Paint", unit: "ms" },
+	cls: { label: "Cumulative Layout Shift", unit: "" },
+	jsHeapMb: { label: "JS heap used", unit: "MB" },
+	longTaskCount: { label: "Long tasks", unit: "" },
+	longTaskTotalMs: { label: "Long task time", unit: "ms" },
+	scriptBytes: { label: "JavaScript transferred", unit: "B" },
+	largestScriptBytes: { label: "Largest script", unit: "B" },
+	transferBytes: { label: "Total transferred", unit: "B" },
+}
+
+/**
+ * Changes smaller than this fraction of the previous value count as unchanged,
+ * so measurement noise doesn't show up as a regression
+ */
+const TREND_TOLERANCE = 0.02
+
+// ============================================================================
+// In-page script
+// ============================================================================
+
+/**
+ * Collects buffered web vitals, long tasks, heap and resource sizes in the page.
+ * CLS is the plain sum of shifts without recent input, an upper bound of the
+ * session-windowed value reported by web-vitals.
+ */
+export const PERFORMANCE_BUDGET_SCRIPT = `(() => {
+	const collect = (type) => {
+		try {
+			const observer = new PerformanceObserver(() => {});
+			observer.observe({ type, buffered: true });
+			const entries = observer.takeRecords();
+			observer.disconnect();
+			return entries;
+		} catch (e) {
+			return [];
+		}
+	};
+	const lcp = collect("largest-contentful-paint").pop();
+	const shifts = collect("layout-shift").filter((entry) => !entry.hadRecentInput);
+	const longTasks = collect("longtask");
+	const resources = performance.getEntriesByType("resource").map((entry) => ({
+		url: entry.name,
+		type: entry.initiatorType,
+		size: entry.transferSize || entry.encodedBodySize || 0,
+	}));
+	return JSON.stringify({
+		url: location.href,
+		lcpMs: lcp ? lcp.renderTime || lcp.loadTime || lcp.startTime : null,
+		cls: shifts.reduce((sum, entry) => sum + entry.value, 0),
+		longTaskCount: longTasks.length,
+		longTaskTotalMs: longTasks.reduce((sum, entry) => sum + entry.duration, 0),
+		jsHeapUsedBytes: performance.memory ? performance.memory.usedJSHeapSize : null,
+		resources,
+	});
+})()`
+
+export interface InPagePerformanceData {
+	url?: string
+	lcpMs?: number | null
+	cls?: number
+	longTaskCount?: number
+	longTaskTotalMs?: number
+	jsHeapUsedBytes?: number | null
+	resources?: Array<{ url: string; type?: string; size: number }>
+}
+
+// ============================================================================
+// Metric extraction
+// ============================================================================
+
+/**
+ * Combine the raw results of browser_get_performance, browser_get_network_requests
+ * and PERFORMANCE_BUDGET_SCRIPT into budget metrics.
+ * The first two have no fixed schema, so values are looked up by their common names.
+ */
+export function extractPerformanceMetrics(
+	performanceData: unknown,
+	networkData: unknown,
+	inPage: InPagePerformanceData = {},
+): PerformanceMetrics {
+	const metrics: PerformanceMetrics = {}
+
+	const lcp = findNumber(performanceData, ["lcp", "largestContentfulPaint", "lcpMs"]) ?? toNumber(inPage.lcpMs)
+	if (lcp !== undefined) {
+		metrics.lcpMs = Math.round(lcp)
+	}
+
+	const cls = findNumber(performanceData, ["cls", "cumulativeLayoutShift"]) ?? toNumber(inPage.cls)
+	if (cls !== undefined) {
+		metrics.cls = round(cls, 3)
+	}
+
+	const heapBytes =
+		findNumber(performanceData, ["JSHeapUsedSize", "jsHeapUsedSize", "usedJSHeapSize", "jsHeapUsed"]) ??
+		toNumber(inPage.jsHeapUsedBytes)
+	if (heapBytes !== undefined) {
+		metrics.jsHeapMb = round(heapBytes / (1024 * 1024), 1)
+	}
+
+	if (inPage.longTaskCount !== undefined) {
+		metrics.longTaskCount = inPage.longTaskCount
+		metrics.longTaskTotalMs = Math.round(inPage.longTaskTotalMs ?? 0)
+	}
+
+	let requests = toRequestSizes(networkData)
+	if (!requests.some((request) => request.size > 0)) {
+		requests = (inPage.resources ?? []).map((resource) => ({
+			url: resource.url,
+			isScript: resource.type === "script" || isScriptUrl(resource.url),
+			size: resource.size,
+		}))
+	}
+	if (requests.some((request) => request.size > 0)) {
+		const scripts = requests.filter((request) => request.isScript)
+		metrics.scriptBytes = scripts.reduce((sum, request) => sum + request.size, 0)
+		metrics.largestScriptBytes = scripts.reduce((max, request) => Math.max(max, request.size), 0)
+		metrics.transferBytes = requests.reduce((sum, request) => sum + request.size, 0)
+	}
+
+	return metrics
+}
+
+// ============================================================================
+// Evaluation
+// ============================================================================
+
+/**
+ * Evaluate measured metrics against a budget, with trends versus the previous run
+ */
+export function evaluatePerformanceBudget(
+	budget: PerformanceBudget,
+	metrics: PerformanceMetrics,
+	previous?: PerformanceRun,
+): PerformanceBudgetEvaluation {
+	const results: PerformanceMetricResult[] = []
+	const unmeasured: PerformanceMetricKey[] = []
+
+	for (const [metric, limit] of Object.entries(budget.budgets) as Array<[PerformanceMetricKey, number]>) {
+		if (!(metric in PERFORMANCE_METRICS) || typeof limit !== "number") {
+			continue
+		}
+
+		const value = metrics[metric]
+		if (value === undefined) {
+			unmeasured.push(metric)
+		}
+
+		const before = previous?.metrics[metric]
+		results.push({
+			metric,
+			label: PERFORMANCE_METRICS[metric].label,
+			value,
+			budget: limit,
+			passed: value === undefined || value <= limit,
+			previous: before,
+			trend: getTrend(value, before),
+		})
+	}
+
+	return { passed: results.every((result) => result.passed), results, unmeasured }
+}
+
+/**
+ * One line per failing metric, e.g. "Largest Contentful Paint: 3400ms (budget 2500ms)"
+ */
+export function describeBudgetFailures(evaluation: PerformanceBudgetEvaluation): string[] {
+	return evaluation.results
+		.filter((result) => !result.passed)
+		.map((result) => {
+			const unit = PERFORMANCE_METRICS[result.metric].unit
+			return `${result.label}: ${result.value}${unit} (budget ${result.budget}${unit})`
+		})
+}
+
+/**
+ * Validate a parsed budget file
+ * @throws Error if the file has no budgets or a budget is not a non-negative number
+ */
+export function parsePerformanceBudget(value: unknown): PerformanceBudget {
+	const file = value as Partial<PerformanceBudget> | undefined
+	if (!file || typeof file !== "object" || !file.budgets || typeof file.budgets !== "object") {
+		throw new Error('Performance budget must be an object with a "budgets" object')
+	}
+
+	const budgets: PerformanceMetrics = {}
+	for (const [metric, limit] of Object.entries(file.budgets)) {
+		if (!(metric in PERFORMANCE_METRICS)) {
+			throw new Error(
+				`Unknown performance budget metric '${metric}'. Expected one of: ${Object.keys(PERFORMANCE_METRICS).join(", ")}`,
+			)
+		}
+		if (typeof limit !== "number" || !Number.isFinite(limit) || limit < 0) {
+			throw new Error(`Performance budget for '${metric}' must be a non-negative number`)
+		}
+		budgets[metric as PerformanceMetricKey] = limit
+	}
+
+	return { version: 1, enforceOnCompletion: file.enforceOnCompletion, budgets }
+}
+
+function getTrend(value: number | undefined, previous: number | undefined): PerformanceTrend {
+	if (value === undefined || previous === undefined) {
+		return "new"
+	}
+	const tolerance = Math.abs(previous) * TREND_TOLERANCE
+	if (value > previous + tolerance) {
+		return "regressed"
+	}
+	if (value < previous - tolerance) {
+		return "improved"
+	}
+	return "unchanged"
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Find the first numeric value under any of the given keys (case-insensitive),
+ * searching nested objects and CDP-style `[{ name, value }]` metric arrays
+ */
+function findNumber(data: unknown, keys: string[], depth = 0): number | undefined {
+	if (!data || typeof data !== "object" || depth > 3) {
+		return undefined
+	}
+	const wanted = keys.map((key) => key.toLowerCase())
+
+	if (Array.isArray(data)) {
+		for (const item of data) {
+			const entry = item as { name?: unknown; value?: unknown }
+			if (typeof entry?.name === "string" && wanted.includes(entry.name.toLowerCase())) {
+				const value = toNumber(entry.value)
+				if (value !== undefined) {
+					return value
+				}
+			}
+		}
+		return undefined
+	}
+
+	for (const [key, value] of Object.entries(data)) {
+		if (wanted.includes(key.toLowerCase())) {
+			const direct = toNumber(value) ?? toNumber((value as { value?: unknown } | null)?.value)
+			if (direct !== undefined) {
+				return direct
+			}
+		}
+	}
+	for (const value of Object.values(data)) {
+		const nested = findNumber(value, keys, depth + 1)
+		if (nested !== undefined) {
+			return nested
+		}
+	}
+	return undefined
+}
+
+function toNumber(value: unknown): number | undefined {
+	return typeof value === "number" && Number.isFinite(value) ? value : undefined
+}
+
+function round(value: number, digits: number): number {
+	const factor = 10 ** digits
+	return Math.round(value * factor) / factor
+}
+
+function isScriptUrl(url: string): boolean {
+	return /\.(m?js|cjs|jsx|tsx?)(\?|#|$)/i.test(url)
+}
+
+function toRequestSizes(networkData: unknown): Array<{ url: string; isScript: boolean; size: number }> {
+	const data = networkData as { requests?: unknown } | unknown[] | undefined
+	const requests = Array.isArray(data) ? data : Array.isArray(data?.requests) ? data.requests : []
+
+	return requests.map((request: Record<string, unknown>) => {
+		const url = typeof request.url === "string" ? request.url : ""
+		const type = String(request.resourceType ?? request.type ?? "").toLowerCase()
+		const mimeType = String(request.mimeType ?? request.contentType ?? "").toLowerCase()
+		const size =
+			toNumber(request.transferSize) ??
+			toNumber(request.encodedDataLength) ??
+			toNumber(request.responseSize) ??
+			toNumber(request.size) ??
+			0
+
+		return {
+			url,
+			isScript: type === "script" || mimeType.includes("javascript") || isScriptUrl(url),
+			size,
+		}
+	})
+}
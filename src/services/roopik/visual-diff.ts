@@ -0,0 +1,334 @@
+/**
+ * Visual Diff
+ *
+ * Pixel-level comparison of two PNG screenshots.
+ * Used by the visual regression tools to compare a stored baseline against a fresh capture.
+ *
+ * The comparison works on the decoded RGBA buffers:
+ * - Each pixel pair is compared using a perceptual (YIQ) color distance
+ * - Changed pixels are painted red on a faded grayscale copy of the current image
+ * - Changed pixels are clustered into bounding boxes on a coarse grid
+ */
+
+import { PNG } from "pngjs"
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Bounding box of a cluster of changed pixels (in image pixels)
+ */
+export interface DiffRegion {
+	x: number
+	y: number
+	width: number
+	height: number
+	changedPixels: number
+}
+
+export interface VisualDiffOptions {
+	/**
+	 * Per-pixel color tolerance between 0 and 1.
+	 * Pixels whose perceptual distance is below this threshold are treated as identical.
+	 * Default: 0.1
+	 */
+	threshold?: number
+	/**
+	 * Maximum number of changed regions to report, largest first.
+	 * Default: 20
+	 */
+	maxRegions?: number
+}
+
+export interface VisualDiffResult {
+	width: number
+	height: number
+	dimensionsMatch: boolean
+	changedPixels: number
+	totalPixels: number
+	/** Percentage (0-100) of pixels that changed */
+	diffPercentage: number
+	changedRegions: DiffRegion[]
+	/** PNG-encoded diff image highlighting the changed pixels */
+	diffImage: Buffer
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const DEFAULT_THRESHOLD = 0.1
+const DEFAULT_MAX_REGIONS = 20
+
+/** Size (in pixels) of the grid cells used to cluster changed pixels into regions */
+const REGION_CELL_SIZE = 8
+
+/** Maximum possible YIQ distance between two colors */
+const MAX_YIQ_DELTA = 35215
+
+const DIFF_COLOR = [255, 0, 0] as const
+const REGION_OUTLINE_COLOR = [255, 0, 255] as const
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Split an image data URL into its mime type and decoded bytes.
+ * Returns undefined if the string is not a base64 image data URL.
+ */
+export function parseImageDataUrl(dataUrl: string): { mimeType: string; buffer: Buffer } | undefined {
+	const match = dataUrl.match(/^data:(image\/[\w+.-]+);base64,(.+)$/)
+	if (!match) {
+		return undefined
+	}
+	return { mimeType: match[1], buffer: Buffer.from(match[2], "base64") }
+}
+
+/**
+ * Encode a PNG buffer as a data URL
+ */
+export function toPngDataUrl(buffer: Buffer): string {
+	return `data:image/png;base64,${buffer.toString("base64")}`
+}
+
+/**
+ * Read the pixel dimensions of a PNG without decoding the whole image
+ */
+export function getPngDimensions(buffer: Buffer): { width: number; height: number } {
+	// The IHDR chunk always comes first: 8-byte signature, 8-byte chunk header, then width and height
+	if (buffer.length < 24 || buffer.toString("ascii", 12, 16) !== "IHDR") {
+		throw new Error("Invalid PNG image")
+	}
+	return { width: buffer.readUInt32BE(16), height: buffer.readUInt32BE(20) }
+}
+
+/**
+ * Compare two PNG images pixel by pixel.
+ *
+ * Images of different sizes are compared on a canvas large enough to hold both;
+ * pixels that only exist in one of the images always count as changed.
+ */
+export function comparePngImages(
+	baseline: Buffer,
+	current: Buffer,
+	options: VisualDiffOptions = {},
+): VisualDiffResult {
+	const threshold = clamp(options.threshold ?? DEFAULT_THRESHOLD, 0, 1)
+	const maxRegions = options.maxRegions ?? DEFAULT_MAX_REGIONS
+	const maxDelta = MAX_YIQ_DELTA * threshold * threshold
+
+	const before = PNG.sync.read(baseline)
+	const after = PNG.sync.read(current)
+
+	const width = Math.max(before.width, after.width)
+	const height = Math.max(before.height, after.height)
+	const dimensionsMatch = before.width === after.width && before.height === after.height
+
+	const diff = new PNG({ width, height })
+	const changedMask = new Uint8Array(width * height)
+	let changedPixels = 0
+
+	for (let y = 0; y < height; y++) {
+		for (let x = 0; x < width; x++) {
+			const outIndex = (y * width + x) * 4
+			const inBefore = x < before.width && y < before.height
+			const inAfter = x < after.width && y < after.height
+
+			let changed: boolean
+			if (inBefore && inAfter) {
+				const beforeIndex = (y * before.width + x) * 4
+				const afterIndex = (y * after.width + x) * 4
+				changed = colorDelta(before.data, beforeIndex, after.data, afterIndex) > maxDelta
+			} else {
+				changed = true
+			}
+
+			if (changed) {
+				changedMask[y * width + x] = 1
+				changedPixels++
+				writePixel(diff.data, outIndex, DIFF_COLOR)
+			} else {
+				// Faded grayscale copy of the current image so the red changes stand out
+				const afterIndex = (y * after.width + x) * 4
+				const gray = blendWithWhite(luminance(after.data, afterIndex), 0.1)
+				writePixel(diff.data, outIndex, [gray, gray, gray])
+			}
+		}
+	}
+
+	const changedRegions = findChangedRegions(changedMask, width, height).slice(0, maxRegions)
+	for (const region of changedRegions) {
+		outlineRegion(diff.data, width, region)
+	}
+
+	const totalPixels = width * height
+
+	return {
+		width,
+		height,
+		dimensionsMatch,
+		changedPixels,
+		totalPixels,
+		diffPercentage: totalPixels === 0 ? 0 : roundTo((changedPixels / totalPixels) * 100, 3),
+		changedRegions,
+		diffImage: PNG.sync.write(diff),
+	}
+}
+
+// ============================================================================
+// Region Detection
+// ============================================================================
+
+/**
+ * Cluster changed pixels into bounding boxes.
+ * Pixels are bucketed into a coarse grid and touching cells (including diagonals)
+ * are merged, so nearby changes are reported as a single region.
+ */
+function findChangedRegions(mask: Uint8Array, width: number, height: number): DiffRegion[] {
+	const cols = Math.ceil(width / REGION_CELL_SIZE)
+	const rows = Math.ceil(height / REGION_CELL_SIZE)
+	const cellCounts = new Uint32Array(cols * rows)
+
+	for (let y = 0; y < height; y++) {
+		for (let x = 0; x < width; x++) {
+			if (mask[y * width + x]) {
+				cellCounts[Math.floor(y / REGION_CELL_SIZE) * cols + Math.floor(x / REGION_CELL_SIZE)]++
+			}
+		}
+	}
+
+	const visited = new Uint8Array(cols * rows)
+	const regions: DiffRegion[] = []
+
+	for (let start = 0; start < cellCounts.length; start++) {
+		if (!cellCounts[start] || visited[start]) {
+			continue
+		}
+
+		let minCol = cols
+		let minRow = rows
+		let maxCol = -1
+		let maxRow = -1
+		let changedPixels = 0
+		const stack = [start]
+		visited[start] = 1
+
+		while (stack.length > 0) {
+			const cell = stack.pop()!
+			const col = cell % cols
+			const row = Math.floor(cell / cols)
+
+			minCol = Math.min(minCol, col)
+			minRow = Math.min(minRow, row)
+			maxCol = Math.max(maxCol, col)
+			maxRow = Math.max(maxRow, row)
+			changedPixels += cellCounts[cell]
+
+			for (let dy = -1; dy <= 1; dy++) {
+				for (let dx = -1; dx <= 1; dx++) {
+					const nextCol = col + dx
+					const nextRow = row + dy
+					if (nextCol < 0 || nextRow < 0 || nextCol >= cols || nextRow >= rows) {
+						continue
+					}
+					const next = nextRow * cols + nextCol
+					if (cellCounts[next] && !visited[next]) {
+						visited[next] = 1
+						stack.push(next)
+					}
+				}
+			}
+		}
+
+		const x = minCol * REGION_CELL_SIZE
+		const y = minRow * REGION_CELL_SIZE
+		regions.push({
+			x,
+			y,
+			width: Math.min((maxCol + 1) * REGION_CELL_SIZE, width) - x,
+			height: Math.min((maxRow + 1) * REGION_CELL_SIZE, height) - y,
+			changedPixels,
+		})
+	}
+
+	return regions.sort((a, b) => b.changedPixels - a.changedPixels)
+}
+
+function outlineRegion(data: Buffer, width: number, region: DiffRegion): void {
+	const right = region.x + region.width - 1
+	const bottom = region.y + region.height - 1
+
+	for (let x = region.x; x <= right; x++) {
+		writePixel(data, (region.y * width + x) * 4, REGION_OUTLINE_COLOR)
+		writePixel(data, (bottom * width + x) * 4, REGION_OUTLINE_COLOR)
+	}
+	for (let y = region.y; y <= bottom; y++) {
+		writePixel(data, (y * width + region.x) * 4, REGION_OUTLINE_COLOR)
+		writePixel(data, (y * width + right) * 4, REGION_OUTLINE_COLOR)
+	}
+}
+
+// ============================================================================
+// Pixel Helpers
+// ============================================================================
+
+/**
+ * Squared perceptual distance between two RGBA pixels in YIQ space.
+ * Semi-transparent pixels are blended onto white first.
+ */
+function colorDelta(a: Buffer, aIndex: number, b: Buffer, bIndex: number): number {
+	const aAlpha = a[aIndex + 3] / 255
+	const bAlpha = b[bIndex + 3] / 255
+
+	const r1 = blendWithWhite(a[aIndex], aAlpha)
+	const g1 = blendWithWhite(a[aIndex + 1], aAlpha)
+	const b1 = blendWithWhite(a[aIndex + 2], aAlpha)
+	const r2 = blendWithWhite(b[bIndex], bAlpha)
+	const g2 = blendWithWhite(b[bIndex + 1], bAlpha)
+	const b2 = blendWithWhite(b[bIndex + 2], bAlpha)
+
+	const y = rgb2y(r1, g1, b1) - rgb2y(r2, g2, b2)
+	const i = rgb2i(r1, g1, b1) - rgb2i(r2, g2, b2)
+	const q = rgb2q(r1, g1, b1) - rgb2q(r2, g2, b2)
+
+	return 0.5053 * y * y + 0.299 * i * i + 0.1957 * q * q
+}
+
+function luminance(data: Buffer, index: number): number {
+	const alpha = data[index + 3] / 255
+	return blendWithWhite(rgb2y(data[index], data[index + 1], data[index + 2]), alpha)
+}
+
+function rgb2y(r: number, g: number, b: number): number {
+	return r * 0.29889531 + g * 0.58662247 + b * 0.11448223
+}
+
+function rgb2i(r: number, g: number, b: number): number {
+	return r * 0.59597799 - g * 0.2741761 - b * 0.32180189
+}
+
+function rgb2q(r: number, g: number, b: number): number {
+	return r * 0.21147017 - g * 0.52261711 + b * 0.31114694
+}
+
+function blendWithWhite(channel: number, alpha: number): number {
+	return 255 + (channel - 255) * alpha
+}
+
+function writePixel(data: Buffer, index: number, rgb: readonly [number, number, number] | number[]): void {
+	data[index] = rgb[0]
+	data[index + 1] = rgb[1]
+	data[index + 2] = rgb[2]
+	data[index + 3] = 255
+}
+
+function clamp(value: number, min: number, max: number): number {
+	return Math.min(Math.max(value, min), max)
+}
+
+function roundTo(value: number, decimals: number): number {
+	const factor = 10 ** decimals
+	return Math.round(value * factor) / factor
+}
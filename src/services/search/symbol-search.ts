@@ -0,0 +1,59 @@
+import * as vscode from "vscode"
+import * as path from "path"
+
+export type SymbolResult = { name: string; containerName?: string; kind: string; path: string; line: number }
+
+/**
+ * Searches the workspace symbols of the language servers, for `@symbol:`
+ * autocompletion. The mention itself is resolved with tree-sitter when the
+ * message is sent.
+ * @param query Text to search for; returns nothing if empty
+ * @param workspacePath Workspace the results are limited to
+ * @param limit Maximum number of results
+ */
+export async function searchWorkspaceSymbols(
+	query: string,
+	workspacePath: string,
+	limit: number = 20,
+): Promise<SymbolResult[]> {
+	if (!query.trim()) {
+		return []
+	}
+
+	const symbols =
+		(await vscode.commands.executeCommand<vscode.SymbolInformation[] | undefined>(
+			"vscode.executeWorkspaceSymbolProvider",
+			query,
+		)) ?? []
+
+	const results: SymbolResult[] = []
+	const seen = new Set<string>()
+
+	for (const symbol of symbols) {
+		const relativePath = path.relative(workspacePath, symbol.location.uri.fsPath)
+		if (!relativePath || relativePath.startsWith("..") || path.isAbsolute(relativePath)) {
+			continue
+		}
+
+		const line = symbol.location.range.start.line + 1
+		const key = `${symbol.name}:${relativePath}:${line}`
+		if (seen.has(key)) {
+			continue
+		}
+		seen.add(key)
+
+		results.push({
+			name: symbol.name,
+			containerName: symbol.containerName || undefined,
+			kind: vscode.SymbolKind[symbol.kind]?.toLowerCase() ?? "symbol",
+			path: relativePath.toPosix(),
+			line,
+		})
+
+		if (results.length >= limit) {
+			break
+		}
+	}
+
+	return results
+}
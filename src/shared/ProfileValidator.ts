@@ -87,6 +87,7 @@ export class ProfileValidator {
 			case "deepinfra":
 				return profile.deepInfraModelId
 			case "fake-ai":
+			case "replay":
 			default:
 				return undefined
 		}
@@ -25,6 +25,17 @@ describe("mentionRegex and mentionRegexGlobal", () => {
 		{ input: "@a1b2c3d", expected: ["@a1b2c3d"] }, // Git commit hash (short)
 		{ input: "@a1b2c3d4e5f6a7b8c9d0e1f2a3b4c5d6e7f8a9b0", expected: ["@a1b2c3d4e5f6a7b8c9d0e1f2a3b4c5d6e7f8a9b0"] }, // Git commit hash (long)
 
+		// Symbols, branch diffs and checkpoints
+		{ input: "@symbol:parseMentions", expected: ["@symbol:parseMentions"] },
+		{ input: "Explain @symbol:Task.abortTask.", expected: ["@symbol:Task.abortTask"] },
+		{ input: "@symbol:$store", expected: ["@symbol:$store"] },
+		{ input: "@symbol:1invalid", expected: null },
+		{ input: "@diff:main", expected: ["@diff:main"] },
+		{ input: "Review @diff:feature/login-v1.2, please", expected: ["@diff:feature/login-v1.2"] },
+		{ input: "@diff:-p", expected: null }, // Branch can't start with a dash
+		{ input: "@checkpoint:a1b2c3d4", expected: ["@checkpoint:a1b2c3d4"] },
+		{ input: "@checkpoint:xyz", expected: null },
+
 		// Mentions after whitespace (valid)
 		{
 			input: "Check file @/path/to/file\\ with\\ spaces.txt for details.",
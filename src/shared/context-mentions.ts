@@ -38,6 +38,12 @@ Mention regex:
     - `terminal\b`:
       - **Exact Word ('terminal')**: Matches the exact word 'terminal'.
       - **Word Boundary (`\b`)**: Ensures that 'terminal' is matched as a whole word and not as part of another word (e.g., 'terminals').
+    - `symbol:[A-Za-z_$][\w$]*(?:\.[A-Za-z_$][\w$]*)*`:
+      - **Symbol (`symbol:Name`)**: Matches an identifier, optionally qualified with its container (e.g., 'symbol:Task.abortTask').
+    - `diff:\w[\w.\/-]*?`:
+      - **Branch Diff (`diff:<branch>`)**: Matches a branch name of word characters, dots, slashes and dashes that doesn't start with a dash.
+    - `checkpoint:[a-f0-9]{7,40}\b`:
+      - **Checkpoint (`checkpoint:<hash>`)**: Matches the commit hash of a checkpoint.
   - `(?=[.,;:!?]?(?=[\s\r\n]|$))`:
 	- **Positive Lookahead (`(?=...)`)**: Ensures that the match is followed by specific patterns without including them in the match.
 	- `[.,;:!?]?`:
@@ -53,6 +59,7 @@ Mention regex:
 	- The exact word 'problems'.
 	- The exact word 'git-changes'.
     - The exact word 'terminal'.
+    - Symbols (`@symbol:Name`), branch diffs (`@diff:<branch>`) and checkpoints (`@checkpoint:<hash>`).
   - It ensures that any trailing punctuation marks (such as ',', '.', '!', etc.) are not included in the matched mention, allowing the punctuation to follow the mention naturally in the text.
   - **NEW**: The @ symbol must be at the start of a line or preceded by whitespace to prevent accidental matches in pasted logs.
 
@@ -61,7 +68,7 @@ Mention regex:
 
 */
 export const mentionRegex =
-	/(?:^|(?<=\s))(?<!\\)@((?:\/|\w+:\/\/)(?:[^\s\\]|\\ )+?|[a-f0-9]{7,40}\b|problems\b|git-changes\b|terminal\b)(?=[.,;:!?]?(?=[\s\r\n]|$))/
+	/(?:^|(?<=\s))(?<!\\)@((?:\/|\w+:\/\/)(?:[^\s\\]|\\ )+?|symbol:[A-Za-z_$][\w$]*(?:\.[A-Za-z_$][\w$]*)*|diff:\w[\w.\/-]*?|checkpoint:[a-f0-9]{7,40}\b|[a-f0-9]{7,40}\b|problems\b|git-changes\b|terminal\b)(?=[.,;:!?]?(?=[\s\r\n]|$))/
 export const mentionRegexGlobal = new RegExp(mentionRegex.source, "g")
 
 // Regex to match command mentions like /command-name anywhere in text
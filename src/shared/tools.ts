@@ -76,6 +76,10 @@ export const toolParamNames = [
 	"search", // read_command_output parameter for grep-like search
 	"offset", // read_command_output parameter for pagination
 	"limit", // read_command_output parameter for max bytes to return
+	"tail", // read_command_output parameter for the last lines of output
+	"ready_pattern", // start_process and wait_for_process parameter
+	"timeout", // start_process and wait_for_process parameter, in seconds
+	"symbol", // find_references and find_callers parameter
 	// Roopik tool parameters
 	"selector", // browser_inspect_element
 	"includeInherited", // browser_inspect_element
@@ -96,6 +100,8 @@ export const toolParamNames = [
 	"componentId", // component_remove, component_get_info, component_rebuild
 	"deleteSourceCode", // component_remove
 	"components", // component_add_batch
+	"variants", // component_add
+	"baseProps", // component_add
 	// browser_set_viewport parameters
 	"width", // browser_set_viewport
 	"height", // browser_set_viewport
@@ -106,6 +112,20 @@ export const toolParamNames = [
 	"urlFilter", // browser_get_network_requests
 	"method", // browser_get_network_requests
 	"statusFilter", // browser_get_network_requests
+	// network mock parameters
+	"status", // browser_add_network_mock
+	"body", // browser_add_network_mock
+	"headers", // browser_add_network_mock
+	"latencyMs", // browser_add_network_mock
+	"id", // browser_add_network_mock, browser_remove_network_mock
+	"all", // browser_remove_network_mock
+	// visual baseline parameters
+	"threshold", // browser_compare_visual_baseline
+	"maxDiffPercentage", // browser_compare_visual_baseline
+	// browser script parameters
+	"urlPattern", // browser_record_script
+	"noConsoleErrors", // browser_record_script
+	"stopOnFailure", // browser_replay_script
 	// browser_action parameters
 	"key", // browser_action (press)
 	"modifiers", // browser_action (press)
@@ -122,7 +142,11 @@ export type ToolParamName = (typeof toolParamNames)[number]
 export type NativeToolArgs = {
 	access_mcp_resource: { server_name: string; uri: string }
 	read_file: { files: FileEntry[] }
-	read_command_output: { artifact_id: string; search?: string; offset?: number; limit?: number }
+	read_command_output: { artifact_id: string; search?: string; offset?: number; limit?: number; tail?: number }
+	start_process: { name: string; command: string; cwd?: string; ready_pattern?: string; timeout?: number }
+	list_processes: Record<string, never>
+	wait_for_process: { name: string; ready_pattern: string; timeout?: number }
+	stop_process: { name: string }
 	attempt_completion: { result: string }
 	execute_command: { command: string; cwd?: string }
 	apply_diff: { path: string; diff: string }
@@ -138,6 +162,9 @@ export type NativeToolArgs = {
 	}
 	browser_action: BrowserActionParams
 	codebase_search: { query: string; path?: string }
+	find_references: { symbol: string; path?: string }
+	find_callers: { symbol: string; path?: string }
+	show_import_graph: { path: string }
 	fetch_instructions: { task: string }
 	generate_image: GenerateImageParams
 	run_slash_command: { command: string; args?: string }
@@ -157,12 +184,35 @@ export type NativeToolArgs = {
 	browser_screenshot: Record<string, never>
 	browser_execute_script: { script: string }
 	browser_inspect_element: { selector: string; includeInherited?: boolean }
+	browser_audit_accessibility: { selector?: string; limit?: number }
 	browser_get_errors: { limit?: number }
 	browser_get_console_logs: { limit?: number; type?: string }
 	browser_get_performance: Record<string, never>
+	browser_check_performance_budget: Record<string, never>
 	browser_get_state: Record<string, never>
 	browser_set_viewport: { width?: number; height?: number; deviceScaleFactor?: number; mobile?: boolean }
 	browser_get_network_requests: { includeStaticAssets?: boolean; urlFilter?: string; method?: string; statusFilter?: string; limit?: number }
+	browser_add_network_mock: {
+		urlPattern: string
+		id?: string
+		method?: string
+		status?: number
+		body?: string
+		headers?: Record<string, string>
+		latencyMs?: number
+	}
+	browser_remove_network_mock: { id?: string; all?: boolean }
+	browser_list_network_mocks: Record<string, never>
+	browser_save_visual_baseline: { name?: string }
+	browser_compare_visual_baseline: { name?: string; threshold?: number; maxDiffPercentage?: number }
+	browser_record_script: {
+		action: "start" | "assert" | "stop" | "discard"
+		name?: string
+		selector?: string
+		urlPattern?: string
+		noConsoleErrors?: boolean
+	}
+	browser_replay_script: { name?: string; stopOnFailure?: boolean }
 
 	// Roopik Project Tools
 	project_get_active: Record<string, never>
@@ -177,12 +227,31 @@ export type NativeToolArgs = {
 	canvas_validate_components: { canvasId?: string }
 
 	// Roopik Component Tools
-	component_add: { folderPath: string; canvasId?: string; name?: string; entryFile?: string; framework?: string }
-	component_add_batch: { components: Array<{ folderPath: string; canvasId?: string; name?: string; entryFile?: string; framework?: string }> }
+	component_add: {
+		folderPath: string
+		canvasId?: string
+		name?: string
+		entryFile?: string
+		framework?: string
+		variants?: Record<string, unknown[]>
+		baseProps?: Record<string, unknown>
+	}
+	component_add_batch: {
+		components: Array<{
+			folderPath: string
+			canvasId?: string
+			name?: string
+			entryFile?: string
+			framework?: string
+			variants?: Record<string, unknown[]>
+			baseProps?: Record<string, unknown>
+		}>
+	}
 	component_remove: { componentId: string; deleteSourceCode?: boolean }
 	component_get_info: { componentId: string }
 	component_list: { canvasId?: string }
 	component_rebuild: { componentId: string }
+	component_review_variants: { componentId: string }
 }
 
 /**
@@ -253,6 +322,21 @@ export interface CodebaseSearchToolUse extends ToolUse<"codebase_search"> {
 	params: Partial<Pick<Record<ToolParamName, string>, "query" | "path">>
 }
 
+export interface FindReferencesToolUse extends ToolUse<"find_references"> {
+	name: "find_references"
+	params: Partial<Pick<Record<ToolParamName, string>, "symbol" | "path">>
+}
+
+export interface FindCallersToolUse extends ToolUse<"find_callers"> {
+	name: "find_callers"
+	params: Partial<Pick<Record<ToolParamName, string>, "symbol" | "path">>
+}
+
+export interface ShowImportGraphToolUse extends ToolUse<"show_import_graph"> {
+	name: "show_import_graph"
+	params: Partial<Pick<Record<ToolParamName, string>, "path">>
+}
+
 export interface SearchFilesToolUse extends ToolUse<"search_files"> {
 	name: "search_files"
 	params: Partial<Pick<Record<ToolParamName, string>, "path" | "regex" | "file_pattern">>
@@ -319,6 +403,10 @@ export const TOOL_DISPLAY_NAMES: Record<string, string> = {
 	execute_command: "run commands",
 	read_file: "read files",
 	read_command_output: "read command output",
+	start_process: "start background processes",
+	list_processes: "list background processes",
+	wait_for_process: "wait for background processes",
+	stop_process: "stop background processes",
 	fetch_instructions: "fetch instructions",
 	write_to_file: "write files",
 	apply_diff: "apply changes",
@@ -336,11 +424,14 @@ export const TOOL_DISPLAY_NAMES: Record<string, string> = {
 	switch_mode: "switch modes",
 	new_task: "create new task",
 	codebase_search: "codebase search",
+	find_references: "find symbol references",
+	find_callers: "find function callers",
+	show_import_graph: "show import graph",
 	update_todo_list: "update todo list",
 	run_slash_command: "run slash command",
 	generate_image: "generate images",
 	custom_tool: "use custom tools",
-	// Roopik IDE Tools - Browser (14 tools)
+	// Roopik IDE Tools - Browser (23 tools)
 	browser_open: "open browser",
 	browser_close: "close browser",
 	browser_action_input: "perform browser input action",
@@ -349,12 +440,21 @@ export const TOOL_DISPLAY_NAMES: Record<string, string> = {
 	browser_screenshot: "take browser screenshot",
 	browser_execute_script: "execute browser script",
 	browser_inspect_element: "inspect element styles",
+	browser_audit_accessibility: "audit accessibility",
 	browser_get_errors: "get browser errors",
 	browser_get_console_logs: "get console logs",
 	browser_get_performance: "get browser performance metrics",
+	browser_check_performance_budget: "check performance budget",
 	browser_get_state: "get browser state",
 	browser_set_viewport: "set browser viewport",
 	browser_get_network_requests: "get network requests",
+	browser_add_network_mock: "add network mock",
+	browser_remove_network_mock: "remove network mock",
+	browser_list_network_mocks: "list network mocks",
+	browser_save_visual_baseline: "save visual baseline",
+	browser_compare_visual_baseline: "compare against visual baseline",
+	browser_record_script: "record browser script",
+	browser_replay_script: "replay browser script",
 	// Roopik IDE Tools - Project (3 tools)
 	project_get_active: "get active project",
 	project_start: "start project",
@@ -372,12 +472,22 @@ export const TOOL_DISPLAY_NAMES: Record<string, string> = {
 	component_get_info: "get component info",
 	component_list: "list components",
 	component_rebuild: "rebuild component",
+	component_review_variants: "review component variants",
 } as const
 
 // Define available tool groups.
 export const TOOL_GROUPS: Record<ToolGroup, ToolGroupConfig> = {
 	read: {
-		tools: ["read_file", "fetch_instructions", "search_files", "list_files", "codebase_search"],
+		tools: [
+			"read_file",
+			"fetch_instructions",
+			"search_files",
+			"list_files",
+			"codebase_search",
+			"find_references",
+			"find_callers",
+			"show_import_graph",
+		],
 	},
 	edit: {
 		tools: ["apply_diff", "write_to_file", "generate_image"],
@@ -387,7 +497,14 @@ export const TOOL_GROUPS: Record<ToolGroup, ToolGroupConfig> = {
 		tools: ["browser_action"],
 	},
 	command: {
-		tools: ["execute_command", "read_command_output"],
+		tools: [
+			"execute_command",
+			"read_command_output",
+			"start_process",
+			"list_processes",
+			"wait_for_process",
+			"stop_process",
+		],
 	},
 	mcp: {
 		tools: ["use_mcp_tool", "access_mcp_resource"],
@@ -398,7 +515,7 @@ export const TOOL_GROUPS: Record<ToolGroup, ToolGroupConfig> = {
 	},
 	roopik: {
 		tools: [
-			// Browser (14 tools)
+			// Browser (23 tools)
 			"browser_open",
 			"browser_close",
 			"browser_action_input",
@@ -407,12 +524,21 @@ export const TOOL_GROUPS: Record<ToolGroup, ToolGroupConfig> = {
 			"browser_screenshot",
 			"browser_execute_script",
 			"browser_inspect_element",
+			"browser_audit_accessibility",
 			"browser_get_errors",
 			"browser_get_console_logs",
 			"browser_get_performance",
+			"browser_check_performance_budget",
 			"browser_get_state",
 			"browser_set_viewport",
 			"browser_get_network_requests",
+			"browser_add_network_mock",
+			"browser_remove_network_mock",
+			"browser_list_network_mocks",
+			"browser_save_visual_baseline",
+			"browser_compare_visual_baseline",
+			"browser_record_script",
+			"browser_replay_script",
 			// Project (3 tools)
 			"project_get_active",
 			"project_start",
@@ -423,13 +549,14 @@ export const TOOL_GROUPS: Record<ToolGroup, ToolGroupConfig> = {
 			"canvas_create",
 			"canvas_open",
 			"canvas_validate_components",
-			// Component (6 tools)
+			// Component (7 tools)
 			"component_add",
 			"component_add_batch",
 			"component_remove",
 			"component_get_info",
 			"component_list",
 			"component_rebuild",
+			"component_review_variants",
 		],
 	},
 }
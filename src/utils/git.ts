@@ -346,6 +346,74 @@ export async function getWorkingState(cwd: string): Promise<string> {
 	}
 }
 
+/**
+ * Gets the diff of the working tree against another branch
+ * @param branch The branch to compare against
+ * @param cwd The working directory of the repository
+ * @returns The changed files and the diff, truncated to GIT_OUTPUT_LINE_LIMIT lines
+ */
+export async function getBranchDiff(branch: string, cwd: string): Promise<string> {
+	try {
+		if (!/^\w[\w./-]*$/.test(branch)) {
+			return `Invalid branch name: ${branch}`
+		}
+
+		const isInstalled = await checkGitInstalled()
+		if (!isInstalled) {
+			return "Git is not installed"
+		}
+
+		const isRepo = await checkGitRepo(cwd)
+		if (!isRepo) {
+			return "Not a git repository"
+		}
+
+		const { stdout: stats } = await execAsync(`git diff --stat ${branch} --`, { cwd })
+		if (!stats.trim()) {
+			return `No differences between the working tree and ${branch}`
+		}
+
+		const { stdout: diff } = await execAsync(`git diff ${branch} --`, { cwd })
+		const output = `Changes in the working tree compared to ${branch}:\n\n${stats.trim()}\n\n${diff.trim()}`
+		return truncateOutput(output, GIT_OUTPUT_LINE_LIMIT)
+	} catch (error) {
+		console.error("Error getting branch diff:", error)
+		return `Failed to get diff against ${branch}: ${error instanceof Error ? error.message : String(error)}`
+	}
+}
+
+/**
+ * Searches the local and remote branches of a repository
+ * @param query Text the branch name must contain (case-insensitive); empty lists all branches
+ * @param cwd The working directory of the repository
+ * @returns Up to 20 branch names, most recently committed first
+ */
+export async function searchBranches(query: string, cwd: string): Promise<string[]> {
+	try {
+		const isInstalled = await checkGitInstalled()
+		if (!isInstalled || !(await checkGitRepo(cwd))) {
+			return []
+		}
+
+		const { stdout } = await execAsync(
+			`git for-each-ref --sort=-committerdate --format="%(refname:short)%09%(symref)" refs/heads refs/remotes`,
+			{ cwd },
+		)
+
+		const lowerQuery = query.toLowerCase()
+		return stdout
+			.split("\n")
+			.map((line) => line.split("\t"))
+			// Skip symbolic refs such as origin/HEAD
+			.filter(([name, symref]) => name && !symref && name.toLowerCase().includes(lowerQuery))
+			.map(([name]) => name)
+			.slice(0, 20)
+	} catch (error) {
+		console.error("Error searching branches:", error)
+		return []
+	}
+}
+
 /**
  * Gets git status output with configurable file limit
  * @param cwd The working directory to check git status in
@@ -256,12 +256,14 @@ const App = () => {
 					open={deleteMessageDialogState.isOpen}
 					type="delete"
 					hasCheckpoint={deleteMessageDialogState.hasCheckpoint}
+					messageTs={deleteMessageDialogState.messageTs}
 					onOpenChange={(open: boolean) => setDeleteMessageDialogState((prev) => ({ ...prev, isOpen: open }))}
-					onConfirm={(restoreCheckpoint: boolean) => {
+					onConfirm={(restoreCheckpoint: boolean, restorePaths?: string[]) => {
 						vscode.postMessage({
 							type: "deleteMessageConfirm",
 							messageTs: deleteMessageDialogState.messageTs,
 							restoreCheckpoint,
+							restorePaths,
 						})
 						setDeleteMessageDialogState((prev) => ({ ...prev, isOpen: false }))
 					}}
@@ -284,13 +286,15 @@ const App = () => {
 					open={editMessageDialogState.isOpen}
 					type="edit"
 					hasCheckpoint={editMessageDialogState.hasCheckpoint}
+					messageTs={editMessageDialogState.messageTs}
 					onOpenChange={(open: boolean) => setEditMessageDialogState((prev) => ({ ...prev, isOpen: open }))}
-					onConfirm={(restoreCheckpoint: boolean) => {
+					onConfirm={(restoreCheckpoint: boolean, restorePaths?: string[]) => {
 						vscode.postMessage({
 							type: "editMessageConfirm",
 							messageTs: editMessageDialogState.messageTs,
 							text: editMessageDialogState.text,
 							restoreCheckpoint,
+							restorePaths,
 						})
 						setEditMessageDialogState((prev) => ({ ...prev, isOpen: false }))
 					}}
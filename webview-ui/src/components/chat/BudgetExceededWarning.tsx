@@ -0,0 +1,64 @@
+import { memo, useState } from "react"
+
+import type { BudgetStatus, ClineMessage } from "@roo-code/types"
+import { safeJsonParse } from "@roo/core"
+
+import { vscode } from "@src/utils/vscode"
+import { useAppTranslation } from "@src/i18n/TranslationContext"
+import { Button } from "@src/components/ui"
+
+type BudgetExceededWarningProps = {
+	message: ClineMessage
+}
+
+export const BudgetExceededWarning = memo(({ message }: BudgetExceededWarningProps) => {
+	const { t } = useAppTranslation()
+	const [buttonClicked, setButtonClicked] = useState(false)
+	const exceeded = safeJsonParse<BudgetStatus[]>(message.text) ?? []
+
+	if (buttonClicked) {
+		return null
+	}
+
+	return (
+		<>
+			<div style={{ display: "flex", alignItems: "center", gap: "8px", color: "var(--vscode-foreground)" }}>
+				<span className="codicon codicon-warning" />
+				<span style={{ fontWeight: "bold" }}>{t("chat:ask.budgetExceeded.title")}</span>
+			</div>
+
+			<div
+				className="bg-vscode-panel-border flex flex-col gap-3"
+				style={{ borderRadius: "4px", marginTop: "15px", padding: "14px 16px 22px" }}>
+				<div>{t("chat:ask.budgetExceeded.description")}</div>
+				<ul className="m-0 pl-4">
+					{exceeded.map((status) => (
+						<li key={`${status.scope}:${status.subject}`}>
+							{t(`settings:budgets.scopes.${status.scope}`, { subject: status.subject })}:{" "}
+							{`$${status.spent.toFixed(2)} / $${status.limit.toFixed(2)}`}
+						</li>
+					))}
+				</ul>
+				<Button
+					style={{ width: "100%", padding: "6px", borderRadius: "4px" }}
+					onClick={(e) => {
+						e.preventDefault()
+						setButtonClicked(true)
+						vscode.postMessage({ type: "askResponse", askResponse: "yesButtonClicked" })
+					}}>
+					{t("chat:ask.budgetExceeded.button")}
+				</Button>
+				<Button
+					variant="secondary"
+					onClick={() =>
+						window.postMessage(
+							{ type: "action", action: "settingsButtonClicked", values: { section: "budgets" } },
+							"*",
+						)
+					}>
+					{t("chat:ask.budgetExceeded.openSettings")}
+				</Button>
+			</div>
+		</>
+	)
+})
@@ -11,6 +11,7 @@ import type {
 	ClineApiReqInfo,
 	ClineAskUseMcpServer,
 	ClineSayTool,
+	BudgetStatus,
 } from "@roo-code/types"
 
 import { Mode } from "@roo/modes"
@@ -46,6 +47,7 @@ import { Markdown } from "./Markdown"
 import { CommandExecution } from "./CommandExecution"
 import { CommandExecutionError } from "./CommandExecutionError"
 import { AutoApprovedRequestLimitWarning } from "./AutoApprovedRequestLimitWarning"
+import { BudgetExceededWarning } from "./BudgetExceededWarning"
 import { InProgressRow, CondensationResultRow, CondensationErrorRow, TruncationResultRow } from "./context-management"
 import CodebaseSearchResultsDisplay from "./CodebaseSearchResultsDisplay"
 import { appendImages } from "@src/utils/imageUtils"
@@ -240,13 +242,13 @@ export const ChatRowContent = ({
 		vscode.postMessage({ type: "selectImages", context: "edit", messageTs: message.ts })
 	}, [message.ts])
 
-	const [cost, apiReqCancelReason, apiReqStreamingFailedMessage] = useMemo(() => {
+	const [cost, apiReqCancelReason, apiReqStreamingFailedMessage, apiReqServedBy] = useMemo(() => {
 		if (message.text !== null && message.text !== undefined && message.say === "api_req_started") {
 			const info = safeJsonParse<ClineApiReqInfo>(message.text)
-			return [info?.cost, info?.cancelReason, info?.streamingFailedMessage]
+			return [info?.cost, info?.cancelReason, info?.streamingFailedMessage, info?.servedBy]
 		}
 
-		return [undefined, undefined, undefined]
+		return [undefined, undefined, undefined, undefined]
 	}, [message.text, message.say])
 
 	// When resuming task, last wont be api_req_failed but a resume_task
@@ -565,6 +567,72 @@ export const ChatRowContent = ({
 					</div>
 				)
 			}
+			case "findReferences":
+			case "findCallers": {
+				const i18nKey =
+					tool.tool === "findReferences"
+						? message.type === "ask"
+							? "chat:symbolGraph.wantsToFindReferences"
+							: "chat:symbolGraph.didFindReferences"
+						: message.type === "ask"
+							? "chat:symbolGraph.wantsToFindCallers"
+							: "chat:symbolGraph.didFindCallers"
+				return (
+					<>
+						<div style={headerStyle}>
+							{toolIcon("references")}
+							<span style={{ fontWeight: "bold" }}>
+								<Trans
+									i18nKey={tool.path ? `${i18nKey}WithPath` : i18nKey}
+									components={{ code: <code></code> }}
+									values={{ symbol: tool.symbol, path: tool.path }}
+								/>
+							</span>
+						</div>
+						{tool.content && (
+							<div className="pl-6">
+								<CodeAccordian
+									path={tool.path}
+									code={tool.content}
+									language="shellsession"
+									isExpanded={isExpanded}
+									onToggleExpand={handleToggleExpand}
+								/>
+							</div>
+						)}
+					</>
+				)
+			}
+			case "showImportGraph":
+				return (
+					<>
+						<div style={headerStyle}>
+							{toolIcon("type-hierarchy")}
+							<span style={{ fontWeight: "bold" }}>
+								<Trans
+									i18nKey={
+										message.type === "ask"
+											? "chat:symbolGraph.wantsToShowImportGraph"
+											: "chat:symbolGraph.didShowImportGraph"
+									}
+									components={{ code: <code></code> }}
+									values={{ path: tool.path }}
+								/>
+							</span>
+						</div>
+						{tool.content && (
+							<div className="pl-6">
+								<CodeAccordian
+									path={tool.path}
+									code={tool.content}
+									language="shellsession"
+									isExpanded={isExpanded}
+									onToggleExpand={handleToggleExpand}
+								/>
+							</div>
+						)}
+					</>
+				)
 			case "updateTodoList" as any: {
 				const todos = (tool as any).todos || []
 				// Get previous todos from the latest todos in the task context
@@ -996,7 +1064,7 @@ export const ChatRowContent = ({
 			// Roopik IDE Tools
 			// ============================================================================
 
-			// Browser Tools (12)
+			// Browser Tools (16)
 			case "browser_open":
 				return (
 					<div style={headerStyle}>
@@ -1107,6 +1175,22 @@ export const ChatRowContent = ({
 						)}
 					</div>
 				)
+			case "browser_audit_accessibility":
+				return (
+					<div style={headerStyle}>
+						{toolIcon("accessibility")}
+						<span style={{ fontWeight: "bold" }}>
+							{message.type === "ask"
+								? t("chat:roopik.browser.wantsToAuditAccessibility")
+								: t("chat:roopik.browser.didAuditAccessibility")}
+						</span>
+						{tool.selector && (
+							<span className="text-xs ml-1" style={{ color: "var(--vscode-descriptionForeground)" }}>
+								({tool.selector})
+							</span>
+						)}
+					</div>
+				)
 			case "browser_get_errors":
 				return (
 					<div style={headerStyle}>
@@ -1140,6 +1224,17 @@ export const ChatRowContent = ({
 						</span>
 					</div>
 				)
+			case "browser_check_performance_budget":
+				return (
+					<div style={headerStyle}>
+						{toolIcon("pulse")}
+						<span style={{ fontWeight: "bold" }}>
+							{message.type === "ask"
+								? t("chat:roopik.browser.wantsToCheckPerformanceBudget")
+								: t("chat:roopik.browser.didCheckPerformanceBudget")}
+						</span>
+					</div>
+				)
 			case "browser_get_cdp_info":
 				return (
 					<div style={headerStyle}>
@@ -1184,6 +1279,116 @@ export const ChatRowContent = ({
 						</span>
 					</div>
 				)
+			case "browser_add_network_mock":
+				return (
+					<div style={headerStyle}>
+						{toolIcon("plug")}
+						<span style={{ fontWeight: "bold" }}>
+							{message.type === "ask"
+								? t("chat:roopik.browser.wantsToAddNetworkMock")
+								: t("chat:roopik.browser.didAddNetworkMock")}
+						</span>
+						{tool.urlPattern && (
+							<span className="text-xs ml-1" style={{ color: "var(--vscode-descriptionForeground)" }}>
+								({tool.method ? `${tool.method} ` : ""}
+								{tool.urlPattern}
+								{tool.status ? ` → ${tool.status}` : ""})
+							</span>
+						)}
+					</div>
+				)
+			case "browser_remove_network_mock":
+				return (
+					<div style={headerStyle}>
+						{toolIcon("debug-disconnect")}
+						<span style={{ fontWeight: "bold" }}>
+							{message.type === "ask"
+								? t("chat:roopik.browser.wantsToRemoveNetworkMock")
+								: t("chat:roopik.browser.didRemoveNetworkMock")}
+						</span>
+						{tool.id && (
+							<span className="text-xs ml-1" style={{ color: "var(--vscode-descriptionForeground)" }}>
+								({tool.id})
+							</span>
+						)}
+					</div>
+				)
+			case "browser_list_network_mocks":
+				return (
+					<div style={headerStyle}>
+						{toolIcon("list-unordered")}
+						<span style={{ fontWeight: "bold" }}>
+							{message.type === "ask"
+								? t("chat:roopik.browser.wantsToListNetworkMocks")
+								: t("chat:roopik.browser.didListNetworkMocks")}
+						</span>
+					</div>
+				)
+			case "browser_save_visual_baseline":
+				return (
+					<div style={headerStyle}>
+						{toolIcon("device-camera")}
+						<span style={{ fontWeight: "bold" }}>
+							{message.type === "ask"
+								? t("chat:roopik.browser.wantsToSaveVisualBaseline")
+								: t("chat:roopik.browser.didSaveVisualBaseline")}
+						</span>
+						{tool.name && (
+							<span className="text-xs ml-1" style={{ color: "var(--vscode-descriptionForeground)" }}>
+								({tool.name})
+							</span>
+						)}
+					</div>
+				)
+			case "browser_compare_visual_baseline":
+				return (
+					<div style={headerStyle}>
+						{toolIcon("diff")}
+						<span style={{ fontWeight: "bold" }}>
+							{message.type === "ask"
+								? t("chat:roopik.browser.wantsToCompareVisualBaseline")
+								: t("chat:roopik.browser.didCompareVisualBaseline")}
+						</span>
+						{tool.name && (
+							<span className="text-xs ml-1" style={{ color: "var(--vscode-descriptionForeground)" }}>
+								({tool.name})
+							</span>
+						)}
+					</div>
+				)
+			case "browser_record_script":
+				return (
+					<div style={headerStyle}>
+						{toolIcon("record")}
+						<span style={{ fontWeight: "bold" }}>
+							{message.type === "ask"
+								? t("chat:roopik.browser.wantsToRecordScript")
+								: t("chat:roopik.browser.didRecordScript")}
+						</span>
+						{tool.action && (
+							<span className="text-xs ml-1" style={{ color: "var(--vscode-descriptionForeground)" }}>
+								({tool.action}
+								{tool.name ? `: ${tool.name}` : ""})
+							</span>
+						)}
+					</div>
+				)
+			case "browser_replay_script":
+				return (
+					<div style={headerStyle}>
+						{toolIcon("play")}
+						<span style={{ fontWeight: "bold" }}>
+							{message.type === "ask"
+								? t("chat:roopik.browser.wantsToReplayScript")
+								: t("chat:roopik.browser.didReplayScript")}
+						</span>
+						{tool.name && (
+							<span className="text-xs ml-1" style={{ color: "var(--vscode-descriptionForeground)" }}>
+								({tool.name})
+							</span>
+						)}
+					</div>
+				)
 
 			// Project Tools (3)
 			case "project_get_active":
@@ -1384,6 +1589,22 @@ export const ChatRowContent = ({
 						)}
 					</div>
 				)
+			case "component_review_variants":
+				return (
+					<div style={headerStyle}>
+						{toolIcon("layout")}
+						<span style={{ fontWeight: "bold" }}>
+							{message.type === "ask"
+								? t("chat:roopik.component.wantsToReviewVariants")
+								: t("chat:roopik.component.didReviewVariants")}
+						</span>
+						{tool.componentId && (
+							<span className="text-xs ml-1" style={{ color: "var(--vscode-descriptionForeground)" }}>
+								({tool.componentId})
+							</span>
+						)}
+					</div>
+				)
 
 			default:
 				return null
@@ -1456,6 +1677,11 @@ export const ChatRowContent = ({
 								<div style={{ display: "flex", alignItems: "center", gap: "10px", flexGrow: 1 }}>
 									{icon}
 									{title}
+									{apiReqServedBy && (
+										<span className="text-xs text-vscode-descriptionForeground truncate">
+											{t("chat:apiRequest.servedBy", apiReqServedBy)}
+										</span>
+									)}
 								</div>
 								<div
 									className="text-xs text-vscode-dropdown-foreground border-vscode-dropdown-border/50 border px-1.5 py-0.5 rounded-lg"
@@ -1902,6 +2128,42 @@ export const ChatRowContent = ({
 								</div>
 							)
 						}
+						case "startProcess":
+						case "listProcesses":
+						case "waitForProcess":
+						case "stopProcess": {
+							const i18nKey = {
+								startProcess: "chat:backgroundProcess.started",
+								listProcesses: "chat:backgroundProcess.listed",
+								waitForProcess: "chat:backgroundProcess.waited",
+								stopProcess: "chat:backgroundProcess.stopped",
+							}[sayTool.tool]
+
+							return (
+								<>
+									<div style={headerStyle}>
+										<TerminalSquare className="w-4 shrink-0" aria-label="Background process icon" />
+										<span style={{ fontWeight: "bold" }}>
+											<Trans
+												i18nKey={i18nKey}
+												components={{ code: <code></code> }}
+												values={{ name: sayTool.processName }}
+											/>
+										</span>
+									</div>
+									{sayTool.content && (
+										<div className="pl-6">
+											<CodeAccordian
+												code={sayTool.content}
+												language="shellsession"
+												isExpanded={isExpanded}
+												onToggleExpand={handleToggleExpand}
+											/>
+										</div>
+									)}
+								</>
+							)
+						}
 						default:
 							return null
 					}
@@ -1920,6 +2182,27 @@ export const ChatRowContent = ({
 				case "browser_action_result":
 					// Handled by BrowserSessionRow; prevent raw JSON (action/result) from rendering here
 					return null
+				case "budget_warning": {
+					const status = safeJsonParse<BudgetStatus>(message.text)
+					if (!status) return null
+					return (
+						<WarningRow
+							title={t("chat:budgetWarning.title")}
+							message={t("chat:budgetWarning.message", {
+								budget: t(`settings:budgets.scopes.${status.scope}`, { subject: status.subject }),
+								spent: `$${status.spent.toFixed(2)}`,
+								limit: `$${status.limit.toFixed(2)}`,
+							})}
+							actionText={t("chat:budgetWarning.openSettings")}
+							onAction={() =>
+								window.postMessage(
+									{ type: "action", action: "settingsButtonClicked", values: { section: "budgets" } },
+									"*",
+								)
+							}
+						/>
+					)
+				}
 				case "too_many_tools_warning": {
 					const warningData = safeJsonParse<{
 						toolCount: number
@@ -2079,6 +2362,9 @@ export const ChatRowContent = ({
 				case "auto_approval_max_req_reached": {
 					return <AutoApprovedRequestLimitWarning message={message} />
 				}
+				case "budget_exceeded": {
+					return <BudgetExceededWarning message={message} />
+				}
 				default:
 					return null
 			}
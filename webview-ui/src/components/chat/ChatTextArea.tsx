@@ -14,8 +14,10 @@ import { useExtensionState } from "@src/context/ExtensionStateContext"
 import { useAppTranslation } from "@src/i18n/TranslationContext"
 import {
 	ContextMenuOptionType,
+	ContextMenuQueryItem,
 	getContextMenuOptions,
 	insertMention,
+	mentionPrefixes,
 	removeMention,
 	shouldShowContextMenu,
 	SearchResult,
@@ -30,6 +32,7 @@ import { ApiConfigSelector } from "./ApiConfigSelector"
 import { AutoApproveDropdown } from "./AutoApproveDropdown"
 import { MAX_IMAGES_PER_MESSAGE } from "./ChatView"
 import ContextMenu from "./ContextMenu"
+import { checkpointSchema } from "./checkpoints/schema"
 import { IndexingStatusBadge } from "./IndexingStatusBadge"
 import { usePromptHistory } from "./hooks/usePromptHistory"
 import { CloudAccountSwitcher } from "../cloud/CloudAccountSwitcher"
@@ -115,6 +118,8 @@ export const ChatTextArea = forwardRef<HTMLTextAreaElement, ChatTextAreaProps>(
 		}, [listApiConfigMeta, currentApiConfigName])
 
 		const [gitCommits, setGitCommits] = useState<any[]>([])
+		const [branches, setBranches] = useState<ContextMenuQueryItem[]>([])
+		const [symbols, setSymbols] = useState<ContextMenuQueryItem[]>([])
 		const [showDropdown, setShowDropdown] = useState(false)
 		const [fileSearchResults, setFileSearchResults] = useState<SearchResult[]>([])
 		const [searchLoading, setSearchLoading] = useState(false)
@@ -200,6 +205,31 @@ export const ChatTextArea = forwardRef<HTMLTextAreaElement, ChatTextAreaProps>(
 					}))
 
 					setGitCommits(commits)
+				} else if (message.type === "branchSearchResults") {
+					setBranches(
+						(message.branches ?? []).map((branch: string) => ({
+							type: ContextMenuOptionType.Diff,
+							value: `diff:${branch}`,
+							label: branch,
+						})),
+					)
+				} else if (message.type === "symbolSearchResults") {
+					setSymbols(
+						(message.symbols ?? []).map((symbol: NonNullable<ExtensionMessage["symbols"]>[number]) => {
+							// Qualify members with an identifier container, e.g. `symbol:Task.abortTask`
+							const qualifiedName = `${symbol.containerName}.${symbol.name}`
+							const name =
+								symbol.containerName && /^[A-Za-z_$][\w$]*(?:\.[A-Za-z_$][\w$]*)*$/.test(qualifiedName)
+									? qualifiedName
+									: symbol.name
+							return {
+								type: ContextMenuOptionType.Symbol,
+								value: `symbol:${name}`,
+								label: name,
+								description: `${symbol.kind} in ${symbol.path}:${symbol.line}`,
+							}
+						}),
+					)
 				} else if (message.type === "fileSearchResults") {
 					setSearchLoading(false)
 					if (message.requestId === searchRequestId) {
@@ -248,6 +278,34 @@ export const ChatTextArea = forwardRef<HTMLTextAreaElement, ChatTextAreaProps>(
 			}
 		}, [selectedType, searchQuery])
 
+		// Fetch branches and symbols when typing a `@diff:` or `@symbol:` mention.
+		useEffect(() => {
+			if (searchQuery.startsWith("diff:")) {
+				vscode.postMessage({ type: "searchBranches", query: searchQuery.slice("diff:".length) })
+			} else if (searchQuery.startsWith("symbol:")) {
+				vscode.postMessage({ type: "searchSymbols", query: searchQuery.slice("symbol:".length) })
+			}
+		}, [searchQuery])
+
+		// Checkpoints of the current task, newest first.
+		const checkpoints = useMemo(
+			() =>
+				clineMessages
+					.filter((message) => message.say === "checkpoint_saved" && message.text)
+					.reverse()
+					.map((message) => {
+						const hash = message.text!
+						const metadata = checkpointSchema.safeParse(message.checkpoint)
+						return {
+							type: ContextMenuOptionType.Checkpoint,
+							value: `checkpoint:${hash}`,
+							label: (metadata.success && metadata.data.label) || hash.slice(0, 8),
+							description: `${hash.slice(0, 8)} · ${new Date(message.ts).toLocaleString()}`,
+						}
+					}),
+			[clineMessages],
+		)
+
 		const handleEnhancePrompt = useCallback(() => {
 			const trimmedInput = inputValue.trim()
 
@@ -282,6 +340,9 @@ export const ChatTextArea = forwardRef<HTMLTextAreaElement, ChatTextAreaProps>(
 				{ type: ContextMenuOptionType.Problems, value: "problems" },
 				{ type: ContextMenuOptionType.Terminal, value: "terminal" },
 				...gitCommits,
+				...symbols,
+				...branches,
+				...checkpoints,
 				...openedTabs
 					.filter((tab) => tab.path)
 					.map((tab) => ({
@@ -296,7 +357,7 @@ export const ChatTextArea = forwardRef<HTMLTextAreaElement, ChatTextAreaProps>(
 						value: path,
 					})),
 			]
-		}, [filePaths, gitCommits, openedTabs])
+		}, [filePaths, gitCommits, symbols, branches, checkpoints, openedTabs])
 
 		useEffect(() => {
 			const handleClickOutside = (event: MouseEvent) => {
@@ -366,6 +427,22 @@ export const ChatTextArea = forwardRef<HTMLTextAreaElement, ChatTextAreaProps>(
 					}
 				}
 
+				const mentionPrefix = mentionPrefixes[type]
+				if (mentionPrefix && !value && textAreaRef.current) {
+					// Type the mention prefix and keep the menu open to pick or type its target
+					const text = textAreaRef.current.value
+					const lastAtIndex = text.lastIndexOf("@", cursorPosition - 1)
+					if (lastAtIndex !== -1) {
+						const newCursorPosition = lastAtIndex + 1 + mentionPrefix.length
+						setInputValue(text.slice(0, lastAtIndex + 1) + mentionPrefix + text.slice(cursorPosition))
+						setCursorPosition(newCursorPosition)
+						setIntendedCursorPosition(newCursorPosition)
+						setSearchQuery(mentionPrefix)
+						setSelectedMenuIndex(0)
+					}
+					return
+				}
+
 				setShowContextMenu(false)
 				setSelectedType(null)
 
@@ -1,5 +1,10 @@
-import React from "react"
+import React, { useCallback, useEffect, useState } from "react"
+import { useEvent } from "react-use"
+
+import type { CheckpointRestoreFile, ExtensionMessage } from "@roo-code/types"
+
 import { useAppTranslation } from "@src/i18n/TranslationContext"
+import { vscode } from "@src/utils/vscode"
 import {
 	AlertDialog,
 	AlertDialogAction,
@@ -9,14 +14,18 @@ import {
 	AlertDialogFooter,
 	AlertDialogHeader,
 	AlertDialogTitle,
+	Button,
+	Checkbox,
 } from "@src/components/ui"
 
 interface CheckpointRestoreDialogProps {
 	open: boolean
 	onOpenChange: (open: boolean) => void
-	onConfirm: (restoreCheckpoint: boolean) => void
+	onConfirm: (restoreCheckpoint: boolean, restorePaths?: string[]) => void
 	type: "edit" | "delete"
 	hasCheckpoint: boolean
+	/** Message being edited or deleted; enables restoring only selected files */
+	messageTs?: number
 }
 
 export const CheckpointRestoreDialog: React.FC<CheckpointRestoreDialogProps> = ({
@@ -25,8 +34,33 @@ export const CheckpointRestoreDialog: React.FC<CheckpointRestoreDialogProps> = (
 	onConfirm,
 	type,
 	hasCheckpoint,
+	messageTs,
 }) => {
 	const { t } = useAppTranslation()
+	const [isPickingFiles, setIsPickingFiles] = useState(false)
+	const [files, setFiles] = useState<CheckpointRestoreFile[]>()
+	const [selectedPaths, setSelectedPaths] = useState<string[]>([])
+
+	useEffect(() => {
+		if (!open) {
+			setIsPickingFiles(false)
+			setFiles(undefined)
+			setSelectedPaths([])
+		}
+	}, [open])
+
+	const onMessage = useCallback(
+		(event: MessageEvent) => {
+			const message: ExtensionMessage = event.data
+
+			if (message.type === "checkpointRestoreFiles" && message.messageTs === messageTs) {
+				setFiles(message.checkpointRestoreFiles ?? [])
+			}
+		},
+		[messageTs],
+	)
+
+	useEvent("message", onMessage)
 
 	const isEdit = type === "edit"
 	const title = isEdit ? t("common:confirmation.editMessage") : t("common:confirmation.deleteMessage")
@@ -44,28 +78,91 @@ export const CheckpointRestoreDialog: React.FC<CheckpointRestoreDialogProps> = (
 		onOpenChange(false)
 	}
 
+	const handleConfirmWithSelectedFiles = () => {
+		onConfirm(true, selectedPaths)
+		onOpenChange(false)
+	}
+
+	const handlePickFiles = () => {
+		setIsPickingFiles(true)
+		vscode.postMessage({ type: "requestCheckpointRestoreFiles", messageTs })
+	}
+
+	const togglePath = (path: string, checked: boolean) => {
+		setSelectedPaths((current) => (checked ? [...current, path] : current.filter((p) => p !== path)))
+	}
+
 	return (
 		<AlertDialog open={open} onOpenChange={onOpenChange}>
 			<AlertDialogContent>
 				<AlertDialogHeader>
 					<AlertDialogTitle className="text-lg">{title}</AlertDialogTitle>
-					<AlertDialogDescription className="text-base">{description}</AlertDialogDescription>
+					<AlertDialogDescription className="text-base">
+						{isPickingFiles ? t("common:confirmation.restoreSelectedFilesDescription") : description}
+					</AlertDialogDescription>
 				</AlertDialogHeader>
+				{isPickingFiles && (
+					<div className="flex flex-col gap-1 max-h-60 overflow-y-auto" data-testid="restore-file-picker">
+						{!files ? (
+							<div className="text-vscode-descriptionForeground">
+								{t("common:confirmation.loadingChangedFiles")}
+							</div>
+						) : files.length === 0 ? (
+							<div className="text-vscode-descriptionForeground">
+								{t("common:confirmation.noChangedFiles")}
+							</div>
+						) : (
+							files.map((file) => (
+								<label key={file.path} className="flex items-center gap-2 cursor-pointer">
+									<Checkbox
+										checked={selectedPaths.includes(file.path)}
+										onCheckedChange={(checked) => togglePath(file.path, checked === true)}
+									/>
+									<span className="font-mono text-sm truncate grow">{file.path}</span>
+									<span className="text-xs text-vscode-descriptionForeground">
+										{t(`common:confirmation.fileChange.${file.change}`)}
+									</span>
+								</label>
+							))
+						)}
+					</div>
+				)}
 				<AlertDialogFooter className="flex-col gap-2">
 					<AlertDialogCancel className="bg-vscode-button-secondaryBackground hover:bg-vscode-button-secondaryHoverBackground text-vscode-button-secondaryForeground border-vscode-button-border">
 						{t("common:answers.cancel")}
 					</AlertDialogCancel>
-					<AlertDialogAction
-						onClick={handleConfirmWithoutRestore}
-						className="bg-vscode-button-background hover:bg-vscode-button-hoverBackground text-vscode-button-foreground border-vscode-button-border">
-						{isEdit ? t("common:confirmation.editOnly") : t("common:confirmation.deleteOnly")}
-					</AlertDialogAction>
-					{hasCheckpoint && (
-						<AlertDialogAction
-							onClick={handleConfirmWithRestore}
-							className="bg-vscode-button-background hover:bg-vscode-button-hoverBackground text-vscode-button-foreground border-vscode-button-border">
-							{t("common:confirmation.restoreToCheckpoint")}
-						</AlertDialogAction>
+					{isPickingFiles ? (
+						<>
+							<Button variant="secondary" onClick={() => setIsPickingFiles(false)}>
+								{t("common:answers.back")}
+							</Button>
+							<AlertDialogAction
+								onClick={handleConfirmWithSelectedFiles}
+								disabled={selectedPaths.length === 0}
+								className="bg-vscode-button-background hover:bg-vscode-button-hoverBackground text-vscode-button-foreground border-vscode-button-border">
+								{t("common:confirmation.restoreSelectedFilesConfirm", { count: selectedPaths.length })}
+							</AlertDialogAction>
+						</>
+					) : (
+						<>
+							<AlertDialogAction
+								onClick={handleConfirmWithoutRestore}
+								className="bg-vscode-button-background hover:bg-vscode-button-hoverBackground text-vscode-button-foreground border-vscode-button-border">
+								{isEdit ? t("common:confirmation.editOnly") : t("common:confirmation.deleteOnly")}
+							</AlertDialogAction>
+							{hasCheckpoint && messageTs !== undefined && (
+								<Button variant="secondary" onClick={handlePickFiles}>
+									{t("common:confirmation.restoreSelectedFiles")}
+								</Button>
+							)}
+							{hasCheckpoint && (
+								<AlertDialogAction
+									onClick={handleConfirmWithRestore}
+									className="bg-vscode-button-background hover:bg-vscode-button-hoverBackground text-vscode-button-foreground border-vscode-button-border">
+									{t("common:confirmation.restoreToCheckpoint")}
+								</AlertDialogAction>
+							)}
+						</>
 					)}
 				</AlertDialogFooter>
 			</AlertDialogContent>
@@ -1,4 +1,5 @@
 import React from "react"
+import type { CodebaseSearchMatchReason } from "@roo-code/types"
 import { useTranslation } from "react-i18next"
 import { vscode } from "@src/utils/vscode"
 import { StandardTooltip } from "@/components/ui"
@@ -10,9 +11,19 @@ interface CodebaseSearchResultProps {
 	endLine: number
 	snippet: string
 	language: string
+	/** Only set for hybrid search results */
+	matchReasons?: CodebaseSearchMatchReason[]
+	matchedTerms?: string[]
 }
 
-const CodebaseSearchResult: React.FC<CodebaseSearchResultProps> = ({ filePath, score, startLine, endLine }) => {
+const CodebaseSearchResult: React.FC<CodebaseSearchResultProps> = ({
+	filePath,
+	score,
+	startLine,
+	endLine,
+	matchReasons,
+	matchedTerms,
+}) => {
 	const { t } = useTranslation("chat")
 
 	const handleClick = () => {
@@ -26,8 +37,19 @@ const CodebaseSearchResult: React.FC<CodebaseSearchResultProps> = ({ filePath, s
 		})
 	}
 
+	const tooltip = (
+		<>
+			{t(matchReasons?.length ? "codebaseSearch.hybridResultTooltip" : "codebaseSearch.resultTooltip", {
+				score: score.toFixed(3),
+			})}
+			{!!matchedTerms?.length && (
+				<div>{t("codebaseSearch.matchedTerms", { terms: matchedTerms.join(", ") })}</div>
+			)}
+		</>
+	)
+
 	return (
-		<StandardTooltip content={t("codebaseSearch.resultTooltip", { score: score.toFixed(3) })}>
+		<StandardTooltip content={tooltip}>
 			<div
 				onClick={handleClick}
 				className="p-2 border border-[var(--vscode-editorGroup-border)] cursor-pointer hover:bg-secondary hover:text-white">
@@ -38,6 +60,14 @@ const CodebaseSearchResult: React.FC<CodebaseSearchResultProps> = ({ filePath, s
 					<span className="text-gray-500 truncate min-w-0 flex-1">
 						{filePath.split("/").slice(0, -1).join("/")}
 					</span>
+					{matchReasons?.map((reason) => (
+						<span
+							key={reason}
+							data-testid={`match-reason-${reason}`}
+							className="text-xs px-1 rounded-xs bg-vscode-badge-background text-vscode-badge-foreground whitespace-nowrap flex-shrink-0">
+							{t(`codebaseSearch.matchReason.${reason}`)}
+						</span>
+					))}
 					<span className="text-xs text-vscode-descriptionForeground whitespace-nowrap ml-auto opacity-60">
 						{score.toFixed(3)}
 					</span>
@@ -1,4 +1,5 @@
 import React, { useState } from "react"
+import type { CodebaseSearchMatchReason } from "@roo-code/types"
 import CodebaseSearchResult from "./CodebaseSearchResult"
 import { Trans } from "react-i18next"
 
@@ -9,6 +10,8 @@ interface CodebaseSearchResultsDisplayProps {
 		startLine: number
 		endLine: number
 		codeChunk: string
+		matchReasons?: CodebaseSearchMatchReason[]
+		matchedTerms?: string[]
 	}>
 }
 
@@ -41,6 +44,8 @@ const CodebaseSearchResultsDisplay: React.FC<CodebaseSearchResultsDisplayProps>
 							endLine={result.endLine}
 							language="plaintext"
 							snippet={result.codeChunk}
+							matchReasons={result.matchReasons}
+							matchedTerms={result.matchedTerms}
 						/>
 					))}
 				</div>
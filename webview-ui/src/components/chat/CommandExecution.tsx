@@ -3,7 +3,12 @@ import { useEvent } from "react-use"
 import { t } from "i18next"
 import { ChevronDown, OctagonX } from "lucide-react"
 
-import { type ExtensionMessage, type CommandExecutionStatus, commandExecutionStatusSchema } from "@roo-code/types"
+import {
+	type ExtensionMessage,
+	type CommandExecutionStatus,
+	type TestRunSummary,
+	commandExecutionStatusSchema,
+} from "@roo-code/types"
 
 import { safeJsonParse } from "@roo/core"
 import { COMMAND_OUTPUT_STRING } from "@roo/combineCommandSequences"
@@ -18,6 +23,7 @@ import { Button, StandardTooltip } from "@src/components/ui"
 import CodeBlock from "@src/components/common/CodeBlock"
 
 import { CommandPatternSelector } from "./CommandPatternSelector"
+import { TestRunSummaryTable } from "./TestRunSummaryTable"
 
 interface CommandPattern {
 	pattern: string
@@ -47,6 +53,7 @@ export const CommandExecution = ({ executionId, text, icon, title }: CommandExec
 	const [isExpanded, setIsExpanded] = useState(terminalShellIntegrationDisabled)
 	const [streamingOutput, setStreamingOutput] = useState("")
 	const [status, setStatus] = useState<CommandExecutionStatus | null>(null)
+	const [testResults, setTestResults] = useState<TestRunSummary | null>(null)
 
 	// The command's output can either come from the text associated with the
 	// task message (this is the case for completed commands) or from the
@@ -132,6 +139,9 @@ export const CommandExecution = ({ executionId, text, icon, title }: CommandExec
 						case "fallback":
 							setIsExpanded(true)
 							break
+						case "testResults":
+							setTestResults(data.summary)
+							break
 						default:
 							setStatus(data)
 							break
@@ -202,6 +212,7 @@ export const CommandExecution = ({ executionId, text, icon, title }: CommandExec
 				<div className="p-2">
 					<CodeBlock source={command} language="shell" />
 					<OutputContainer isExpanded={isExpanded} output={output} />
+					{testResults && <TestRunSummaryTable summary={testResults} />}
 				</div>
 				{command && command.trim() && (
 					<CommandPatternSelector
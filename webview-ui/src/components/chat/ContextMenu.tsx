@@ -167,6 +167,31 @@ const ContextMenu: React.FC<ContextMenuProps> = ({
 				} else {
 					return <span>Git Commits</span>
 				}
+			case ContextMenuOptionType.Symbol:
+			case ContextMenuOptionType.Diff:
+			case ContextMenuOptionType.Checkpoint:
+				if (option.value) {
+					return (
+						<div style={{ display: "flex", flexDirection: "column", gap: 0, minWidth: 0 }}>
+							<span style={{ lineHeight: "1.2" }}>{option.label || option.value}</span>
+							{option.description && (
+								<span
+									style={{
+										fontSize: "0.85em",
+										opacity: 0.7,
+										whiteSpace: "nowrap",
+										overflow: "hidden",
+										textOverflow: "ellipsis",
+										lineHeight: "1.2",
+									}}>
+									{option.description}
+								</span>
+							)}
+						</div>
+					)
+				} else {
+					return <span>{t(`chat:contextMenu.${option.type}`)}</span>
+				}
 			case ContextMenuOptionType.File:
 			case ContextMenuOptionType.OpenedFile:
 			case ContextMenuOptionType.Folder:
@@ -230,6 +255,12 @@ const ContextMenu: React.FC<ContextMenuProps> = ({
 				return "link"
 			case ContextMenuOptionType.Git:
 				return "git-commit"
+			case ContextMenuOptionType.Symbol:
+				return "symbol-method"
+			case ContextMenuOptionType.Diff:
+				return "git-compare"
+			case ContextMenuOptionType.Checkpoint:
+				return "history"
 			case ContextMenuOptionType.NoResults:
 				return "info"
 			default:
@@ -411,7 +442,10 @@ const ContextMenu: React.FC<ContextMenuProps> = ({
 							</div>
 							{(option.type === ContextMenuOptionType.File ||
 								option.type === ContextMenuOptionType.Folder ||
-								option.type === ContextMenuOptionType.Git) &&
+								option.type === ContextMenuOptionType.Git ||
+								option.type === ContextMenuOptionType.Symbol ||
+								option.type === ContextMenuOptionType.Diff ||
+								option.type === ContextMenuOptionType.Checkpoint) &&
 								!option.value && (
 									<i
 										className="codicon codicon-chevron-right"
@@ -0,0 +1,84 @@
+import { memo } from "react"
+import { useTranslation } from "react-i18next"
+
+import type { TestRunSummary } from "@roo-code/types"
+
+import { vscode } from "@src/utils/vscode"
+import { cn } from "@src/lib/utils"
+
+import { Table, TableBody, TableCell, TableRow } from "@src/components/ui"
+
+interface TestRunSummaryTableProps {
+	summary: TestRunSummary
+}
+
+/**
+ * Compact view of the structured results of a test command: the pass, fail
+ * and skip counts followed by one row per failing test.
+ */
+const TestRunSummaryTableInternal = ({ summary }: TestRunSummaryTableProps) => {
+	const { t } = useTranslation()
+	const hiddenFailures = summary.failed - summary.failures.length
+
+	return (
+		<div className="mt-1 pt-1 border-t border-border/25 text-xs">
+			<div className="flex flex-row flex-wrap items-center gap-3 font-mono py-1">
+				<span className="font-sans font-medium">
+					{t("chat:commandExecution.testResults.title", { framework: summary.framework })}
+				</span>
+				<span className={cn(summary.failed > 0 ? "text-red-600" : "text-vscode-descriptionForeground")}>
+					{t("chat:commandExecution.testResults.failed", { count: summary.failed })}
+				</span>
+				<span className="text-green-600">
+					{t("chat:commandExecution.testResults.passed", { count: summary.passed })}
+				</span>
+				{summary.skipped > 0 && (
+					<span className="text-vscode-descriptionForeground">
+						{t("chat:commandExecution.testResults.skipped", { count: summary.skipped })}
+					</span>
+				)}
+				{summary.durationMs !== undefined && (
+					<span className="text-vscode-descriptionForeground">
+						{(summary.durationMs / 1000).toFixed(2)}s
+					</span>
+				)}
+			</div>
+			{summary.failures.length > 0 && (
+				<Table>
+					<TableBody>
+						{summary.failures.map((failure, index) => (
+							<TableRow key={`${failure.file}:${failure.name}:${index}`}>
+								<TableCell className="align-top py-1 pl-0 break-all">{failure.name}</TableCell>
+								<TableCell className="align-top py-1 font-mono whitespace-nowrap">
+									{failure.file && (
+										<button
+											className="text-vscode-textLink-foreground hover:underline cursor-pointer bg-transparent border-none p-0"
+											onClick={() =>
+												vscode.postMessage({
+													type: "openFile",
+													text: failure.file,
+													values: failure.line ? { line: failure.line } : undefined,
+												})
+											}>
+											{failure.line ? `${failure.file}:${failure.line}` : failure.file}
+										</button>
+									)}
+								</TableCell>
+								<TableCell className="align-top py-1 pr-0 text-vscode-descriptionForeground break-words">
+									{failure.message}
+								</TableCell>
+							</TableRow>
+						))}
+					</TableBody>
+				</Table>
+			)}
+			{hiddenFailures > 0 && (
+				<div className="text-vscode-descriptionForeground py-1">
+					{t("chat:commandExecution.testResults.moreFailures", { count: hiddenFailures })}
+				</div>
+			)}
+		</div>
+	)
+}
+
+export const TestRunSummaryTable = memo(TestRunSummaryTableInternal)
@@ -1,11 +1,17 @@
 // npx vitest run src/components/chat/__tests__/CheckpointRestoreDialog.spec.tsx
 
 import React from "react"
-import { render, screen, fireEvent } from "@/utils/test-utils"
+import { render, screen, fireEvent, act } from "@/utils/test-utils"
 import { vi } from "vitest"
 
+import { vscode } from "@src/utils/vscode"
+
 import { CheckpointRestoreDialog } from "../CheckpointRestoreDialog"
 
+vi.mock("@src/utils/vscode", () => ({
+	vscode: { postMessage: vi.fn() },
+}))
+
 // Mock the translation context
 vi.mock("@src/i18n/TranslationContext", () => ({
 	useAppTranslation: () => ({
@@ -131,6 +137,35 @@ describe("CheckpointRestoreDialog", () => {
 			expect(onConfirm).toHaveBeenCalledWith(true) // restoreCheckpoint
 		})
 
+		it("calls onConfirm with the selected paths when restoring selected files", () => {
+			const onConfirm = vi.fn()
+			render(
+				<CheckpointRestoreDialog {...defaultProps} onConfirm={onConfirm} hasCheckpoint={true} messageTs={42} />,
+			)
+
+			fireEvent.click(screen.getByText("common:confirmation.restoreSelectedFiles"))
+			expect(vscode.postMessage).toHaveBeenCalledWith({ type: "requestCheckpointRestoreFiles", messageTs: 42 })
+
+			act(() => {
+				window.dispatchEvent(
+					new MessageEvent("message", {
+						data: {
+							type: "checkpointRestoreFiles",
+							messageTs: 42,
+							checkpointRestoreFiles: [
+								{ path: "src/broken.ts", change: "modified" },
+								{ path: "src/fine.ts", change: "modified" },
+							],
+						},
+					}),
+				)
+			})
+
+			fireEvent.click(screen.getAllByRole("checkbox")[0])
+			fireEvent.click(screen.getByText("common:confirmation.restoreSelectedFilesConfirm"))
+			expect(onConfirm).toHaveBeenCalledWith(true, ["src/broken.ts"])
+		})
+
 		it("calls onOpenChange when dialog is closed", () => {
 			const onOpenChange = vi.fn()
 			render(<CheckpointRestoreDialog {...defaultProps} onOpenChange={onOpenChange} hasCheckpoint={true} />)
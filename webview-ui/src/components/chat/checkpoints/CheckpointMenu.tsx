@@ -7,6 +7,7 @@ import { useRooPortal } from "@/components/ui/hooks"
 
 import { vscode } from "@src/utils/vscode"
 import { Checkpoint } from "./schema"
+import { CheckpointTimeline } from "./CheckpointTimeline"
 
 type CheckpointMenuBaseProps = {
 	ts: number
@@ -26,6 +27,7 @@ export const CheckpointMenu = ({ ts, commitHash, checkpoint, onOpenChange }: Che
 	const [internalRestoreOpen, setInternalRestoreOpen] = useState(false)
 	const [restoreConfirming, setRestoreConfirming] = useState(false)
 	const [internalMoreOpen, setInternalMoreOpen] = useState(false)
+	const [timelineOpen, setTimelineOpen] = useState(false)
 	const portalContainer = useRooPortal("roo-portal")
 
 	const previousCommitHash = checkpoint?.from
@@ -193,9 +195,20 @@ export const CheckpointMenu = ({ ts, commitHash, checkpoint, onOpenChange }: Che
 							<span className="codicon codicon-diff mr-2" />
 							{t("chat:checkpoint.menu.viewDiffWithCurrent")}
 						</Button>
+						<Button
+							variant="secondary"
+							onClick={() => {
+								setTimelineOpen(true)
+								setMoreOpen(false)
+							}}
+							data-testid="open-timeline-btn">
+							<span className="codicon codicon-git-branch mr-2" />
+							{t("chat:checkpoint.menu.viewTimeline")}
+						</Button>
 					</div>
 				</PopoverContent>
 			</Popover>
+			{timelineOpen && <CheckpointTimeline open={timelineOpen} onClose={() => setTimelineOpen(false)} />}
 		</div>
 	)
 }
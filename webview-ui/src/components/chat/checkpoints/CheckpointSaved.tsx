@@ -84,6 +84,11 @@ export const CheckpointSaved = ({ checkpoint, currentHash, ...props }: Checkpoin
 			<div className="flex items-center gap-2 text-blue-400 whitespace-nowrap">
 				<GitCommitVertical className="w-4" />
 				<span className="font-semibold">{t("chat:checkpoint.regular")}</span>
+				{metadata.label && (
+					<span className="truncate max-w-40" data-testid="checkpoint-label">
+						{metadata.label}
+					</span>
+				)}
 				{isCurrent && <span className="text-muted">({t("chat:checkpoint.current")})</span>}
 			</div>
 			<span
@@ -0,0 +1,210 @@
+import { useCallback, useEffect, useMemo, useState } from "react"
+import { useEvent } from "react-use"
+import { useTranslation } from "react-i18next"
+import { GitBranch, GitCommitVertical } from "lucide-react"
+
+import type { CheckpointTimeline as Timeline, CheckpointTimelineNode, ExtensionMessage } from "@roo-code/types"
+
+import { cn } from "@/lib/utils"
+import { Button, Dialog, DialogContent, DialogHeader, DialogTitle, Input, StandardTooltip } from "@/components/ui"
+import { vscode } from "@src/utils/vscode"
+
+type CheckpointTimelineProps = {
+	open: boolean
+	onClose: () => void
+}
+
+export const CheckpointTimeline = ({ open, onClose }: CheckpointTimelineProps) => {
+	const { t } = useTranslation()
+	const [timeline, setTimeline] = useState<Timeline>()
+	const [selected, setSelected] = useState<string[]>([])
+
+	useEffect(() => {
+		if (open) {
+			setSelected([])
+			vscode.postMessage({ type: "requestCheckpointTimeline" })
+		}
+	}, [open])
+
+	const onMessage = useCallback((event: MessageEvent) => {
+		const message: ExtensionMessage = event.data
+
+		if (message.type === "checkpointTimeline" && message.checkpointTimeline) {
+			setTimeline(message.checkpointTimeline)
+		}
+	}, [])
+
+	useEvent("message", onMessage)
+
+	const nodesByHash = useMemo(
+		() => new Map((timeline?.nodes ?? []).map((node) => [node.hash, node])),
+		[timeline?.nodes],
+	)
+
+	const toggleSelected = useCallback((hash: string) => {
+		// Keep at most the two most recent picks, they are the ends of the compared range.
+		setSelected((current) =>
+			current.includes(hash) ? current.filter((h) => h !== hash) : [...current, hash].slice(-2),
+		)
+	}, [])
+
+	const onCompare = useCallback(() => {
+		const [from, to] = selected
+			.map((hash) => nodesByHash.get(hash))
+			.filter((node): node is CheckpointTimelineNode => !!node)
+			.sort((a, b) => a.timestamp - b.timestamp)
+
+		if (from && to) {
+			vscode.postMessage({
+				type: "checkpointDiff",
+				payload: { previousCommitHash: from.hash, commitHash: to.hash, mode: "range" },
+			})
+		}
+	}, [selected, nodesByHash])
+
+	return (
+		<Dialog open={open} onOpenChange={(isOpen: boolean) => !isOpen && onClose()}>
+			<DialogContent className="max-h-[80vh] overflow-y-auto">
+				<DialogHeader>
+					<DialogTitle>{t("chat:checkpoint.timeline.title")}</DialogTitle>
+				</DialogHeader>
+
+				{!timeline ? (
+					<div className="text-vscode-descriptionForeground">{t("chat:checkpoint.timeline.loading")}</div>
+				) : (
+					<div className="flex flex-col gap-4">
+						<div className="flex items-center justify-between gap-2">
+							<span className="text-sm text-vscode-descriptionForeground">
+								{t("chat:checkpoint.timeline.compareHint")}
+							</span>
+							<Button
+								variant="secondary"
+								disabled={selected.length !== 2}
+								onClick={onCompare}
+								data-testid="timeline-compare-btn">
+								<span className="codicon codicon-diff mr-2" />
+								{t("chat:checkpoint.timeline.compare")}
+							</Button>
+						</div>
+
+						{timeline.lines.map((line) => (
+							<div key={line.id} className="flex flex-col gap-1" data-testid={`timeline-line-${line.id}`}>
+								<div className="flex items-center gap-2 font-semibold">
+									<GitBranch className="size-4" />
+									{line.isCurrent
+										? t("chat:checkpoint.timeline.currentLine")
+										: t("chat:checkpoint.timeline.abandonedLine", {
+												from: nodeName(line.forkHash ? nodesByHash.get(line.forkHash) : undefined),
+											})}
+								</div>
+								{line.hashes.map((hash) => {
+									const node = nodesByHash.get(hash)
+									return node ? (
+										<TimelineNode
+											key={hash}
+											node={node}
+											isCurrentLine={line.isCurrent}
+											isSelected={selected.includes(hash)}
+											onToggleSelected={toggleSelected}
+										/>
+									) : null
+								})}
+							</div>
+						))}
+					</div>
+				)}
+			</DialogContent>
+		</Dialog>
+	)
+}
+
+type TimelineNodeProps = {
+	node: CheckpointTimelineNode
+	isCurrentLine: boolean
+	isSelected: boolean
+	onToggleSelected: (hash: string) => void
+}
+
+const TimelineNode = ({ node, isCurrentLine, isSelected, onToggleSelected }: TimelineNodeProps) => {
+	const { t } = useTranslation()
+	const [isEditing, setIsEditing] = useState(false)
+	const [label, setLabel] = useState(node.label ?? "")
+
+	useEffect(() => setLabel(node.label ?? ""), [node.label])
+
+	const onSaveLabel = useCallback(() => {
+		setIsEditing(false)
+		if (label.trim() !== (node.label ?? "")) {
+			vscode.postMessage({ type: "checkpointLabel", payload: { commitHash: node.hash, label: label.trim() } })
+		}
+	}, [label, node.hash, node.label])
+
+	const onCherryPick = useCallback(() => {
+		if (node.parentHash) {
+			vscode.postMessage({
+				type: "checkpointCherryPick",
+				payload: { fromHash: node.parentHash, toHash: node.hash },
+			})
+		}
+	}, [node.hash, node.parentHash])
+
+	return (
+		<div
+			className={cn(
+				"flex items-center gap-2 pl-2 py-0.5 rounded-xs",
+				isSelected && "bg-vscode-list-activeSelectionBackground",
+			)}
+			data-testid={`timeline-node-${node.hash}`}>
+			<input
+				type="checkbox"
+				checked={isSelected}
+				onChange={() => onToggleSelected(node.hash)}
+				aria-label={t("chat:checkpoint.timeline.select")}
+			/>
+			<GitCommitVertical className={cn("size-4 shrink-0", isCurrentLine ? "text-blue-400" : "text-muted")} />
+			{isEditing ? (
+				<Input
+					autoFocus
+					value={label}
+					maxLength={100}
+					placeholder={t("chat:checkpoint.timeline.labelPlaceholder")}
+					onChange={(e) => setLabel(e.target.value)}
+					onBlur={onSaveLabel}
+					onKeyDown={(e) => {
+						if (e.key === "Enter") onSaveLabel()
+						if (e.key === "Escape") {
+							setLabel(node.label ?? "")
+							setIsEditing(false)
+						}
+					}}
+				/>
+			) : (
+				<span className="grow truncate">
+					{node.isBase ? t("chat:checkpoint.timeline.taskStart") : nodeName(node)}
+					<span className="ml-2 text-xs text-vscode-descriptionForeground">
+						{new Date(node.timestamp).toLocaleTimeString()}
+					</span>
+					{node.isHead && <span className="ml-2 text-muted">({t("chat:checkpoint.current")})</span>}
+				</span>
+			)}
+			{!node.isBase && !isEditing && (
+				<StandardTooltip content={t("chat:checkpoint.timeline.editLabel")}>
+					<Button variant="ghost" size="icon" onClick={() => setIsEditing(true)}>
+						<span className="codicon codicon-tag" />
+					</Button>
+				</StandardTooltip>
+			)}
+			{!isCurrentLine && node.parentHash && (
+				<StandardTooltip content={t("chat:checkpoint.timeline.cherryPick")}>
+					<Button variant="ghost" size="icon" onClick={onCherryPick} data-testid="timeline-cherry-pick-btn">
+						<span className="codicon codicon-git-merge" />
+					</Button>
+				</StandardTooltip>
+			)}
+		</div>
+	)
+}
+
+function nodeName(node?: CheckpointTimelineNode): string {
+	return node ? (node.label ?? node.hash.slice(0, 7)) : ""
+}
@@ -25,6 +25,11 @@ vi.mock("@/components/ui", () => {
 				{children}
 			</div>
 		),
+		Dialog: ({ children, open }: any) => (open ? <div data-testid="timeline-dialog">{children}</div> : null),
+		DialogContent: ({ children }: any) => <div>{children}</div>,
+		DialogHeader: ({ children }: any) => <div>{children}</div>,
+		DialogTitle: ({ children }: any) => <div>{children}</div>,
+		Input: (props: any) => <input {...props} />,
 	}
 })
 
@@ -185,4 +190,21 @@ describe("CheckpointSaved popover visibility", () => {
 			expect(getMenu().className).toContain("hidden")
 		})
 	})
+
+	it("shows the checkpoint label", () => {
+		render(<CheckpointSaved {...baseProps} checkpoint={{ ...baseProps.checkpoint, label: "Before refactor" }} />)
+
+		expect(screen.getByTestId("checkpoint-label").textContent).toBe("Before refactor")
+	})
+
+	it("opens the timeline from the more menu", async () => {
+		render(<CheckpointSaved {...baseProps} />)
+
+		expect(screen.queryByTestId("timeline-dialog")).toBeNull()
+		fireEvent.click(screen.getByTestId("open-timeline-btn"))
+
+		await waitFor(() => {
+			expect(screen.getByTestId("timeline-dialog")).toBeTruthy()
+		})
+	})
 })
@@ -5,6 +5,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
 import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command"
 import { X, ChevronsUpDown } from "lucide-react"
+import type { MarketplaceItem } from "@roo-code/types"
 import { MarketplaceItemCard } from "./components/MarketplaceItemCard"
 import { MarketplaceViewStateManager } from "./MarketplaceViewStateManager"
 import { useAppTranslation } from "@/i18n/TranslationContext"
@@ -16,9 +17,12 @@ export interface MarketplaceListViewProps {
 	stateManager: MarketplaceViewStateManager
 	allTags: string[]
 	filteredTags: string[]
-	filterByType?: "mcp" | "mode"
+	filterByType?: "mcp" | "mode" | "skill"
 }
 
+// Skills share their tab with slash commands and custom tools
+const SKILL_TAB_TYPES: MarketplaceItem["type"][] = ["skill", "command", "tool"]
+
 export function MarketplaceListView({ stateManager, allTags, filteredTags, filterByType }: MarketplaceListViewProps) {
 	const [state, manager] = useStateManager(stateManager)
 	const { t } = useAppTranslation()
@@ -32,7 +36,11 @@ export function MarketplaceListView({ stateManager, allTags, filteredTags, filte
 	// in MarketplaceViewStateManager; avoid dispatching UPDATE_FILTERS here to prevent render loops.
 
 	// Filter items by type if specified
-	const items = filterByType ? allItems.filter((item) => item.type === filterByType) : allItems
+	const items = filterByType
+		? allItems.filter((item) =>
+				filterByType === "skill" ? SKILL_TAB_TYPES.includes(item.type) : item.type === filterByType,
+			)
+		: allItems
 	const orgMcps = filterByType === "mcp" ? organizationMcps : []
 
 	const isEmpty = items.length === 0 && orgMcps.length === 0
@@ -48,7 +56,9 @@ export function MarketplaceListView({ stateManager, allTags, filteredTags, filte
 								? t("marketplace:filters.search.placeholderMcp")
 								: filterByType === "mode"
 									? t("marketplace:filters.search.placeholderMode")
-									: t("marketplace:filters.search.placeholder")
+									: filterByType === "skill"
+										? t("marketplace:filters.search.placeholderSkill")
+										: t("marketplace:filters.search.placeholder")
 						}
 						value={state.filters.search}
 						onChange={(e) =>
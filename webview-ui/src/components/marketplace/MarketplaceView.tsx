@@ -119,10 +119,11 @@ export function MarketplaceView({ stateManager, onDone, targetTab }: Marketplace
 							<div className="absolute w-full h-[2px] -bottom-[2px] bg-vscode-input-border">
 								<div
 									className={cn(
-										"absolute w-1/2 h-[2px] bottom-0 bg-vscode-button-background transition-all duration-300 ease-in-out",
+										"absolute w-1/3 h-[2px] bottom-0 bg-vscode-button-background transition-all duration-300 ease-in-out",
 										{
 											"left-0": state.activeTab === "mcp",
-											"left-1/2": state.activeTab === "mode",
+											"left-1/3": state.activeTab === "mode",
+											"left-2/3": state.activeTab === "skill",
 										},
 									)}
 								/>
@@ -139,6 +140,13 @@ export function MarketplaceView({ stateManager, onDone, targetTab }: Marketplace
 								}>
 								Modes
 							</button>
+							<button
+								className="cursor-pointer flex items-center justify-center gap-2 flex-1 text-sm font-medium rounded-sm transition-colors duration-300 relative z-10 text-vscode-foreground"
+								onClick={() =>
+									manager.transition({ type: "SET_ACTIVE_TAB", payload: { tab: "skill" } })
+								}>
+								Skills & Tools
+							</button>
 						</div>
 					</div>
 				</TabHeader>
@@ -160,6 +168,14 @@ export function MarketplaceView({ stateManager, onDone, targetTab }: Marketplace
 							filterByType="mode"
 						/>
 					)}
+					{state.activeTab === "skill" && (
+						<MarketplaceListView
+							stateManager={stateManager}
+							allTags={allTags}
+							filteredTags={filteredTags}
+							filterByType="skill"
+						/>
+					)}
 				</TabContent>
 			</Tab>
 		</TooltipProvider>
@@ -218,7 +218,9 @@ export const MarketplaceInstallModal: React.FC<MarketplaceInstallModalProps> = (
 							? t("marketplace:install.successTitle", { name: item.name })
 							: item.type === "mcp"
 								? t("marketplace:install.titleMcp", { name: item.name })
-								: t("marketplace:install.titleMode", { name: item.name })}
+								: item.type === "mode"
+									? t("marketplace:install.titleMode", { name: item.name })
+									: t("marketplace:install.titleItem", { name: item.name })}
 					</DialogTitle>
 					<DialogDescription>
 						{installationComplete ? (
@@ -243,7 +245,11 @@ export const MarketplaceInstallModal: React.FC<MarketplaceInstallModalProps> = (
 							<p className="text-sm text-muted-foreground">
 								{item.type === "mcp"
 									? t("marketplace:install.whatNextMcp")
-									: t("marketplace:install.whatNextMode")}
+									: item.type === "mode"
+										? t("marketplace:install.whatNextMode")
+										: t("marketplace:install.whatNextItem", {
+												type: t(`marketplace:filters.type.${item.type}`).toLowerCase(),
+											})}
 							</p>
 						</div>
 					</div>
@@ -365,11 +371,13 @@ export const MarketplaceInstallModal: React.FC<MarketplaceInstallModalProps> = (
 							<Button variant="outline" onClick={onClose}>
 								{t("marketplace:install.done")}
 							</Button>
-							<Button onClick={() => handlePostInstallAction(item.type === "mcp" ? "mcp" : "modes")}>
-								{item.type === "mcp"
-									? t("marketplace:install.goToMcp")
-									: t("marketplace:install.goToModes")}
-							</Button>
+							{(item.type === "mcp" || item.type === "mode") && (
+								<Button onClick={() => handlePostInstallAction(item.type === "mcp" ? "mcp" : "modes")}>
+									{item.type === "mcp"
+										? t("marketplace:install.goToMcp")
+										: t("marketplace:install.goToModes")}
+								</Button>
+							)}
 						</>
 					) : (
 						<>
@@ -68,6 +68,9 @@ export const MarketplaceItemCard: React.FC<MarketplaceItemCardProps> = ({ item,
 		const labels: Partial<Record<MarketplaceItem["type"], string>> = {
 			mode: t("marketplace:filters.type.mode"),
 			mcp: t("marketplace:filters.type.mcpServer"),
+			skill: t("marketplace:filters.type.skill"),
+			command: t("marketplace:filters.type.command"),
+			tool: t("marketplace:filters.type.tool"),
 		}
 		return labels[item.type] ?? "N/A"
 	}, [item.type, t])
@@ -154,8 +157,8 @@ export const MarketplaceItemCard: React.FC<MarketplaceItemCardProps> = ({ item,
 
 				<p className="my-2 text-vscode-foreground">{item.description}</p>
 
-				{/* Installation status badges and tags in the same row */}
-				{(isInstalled || (item.tags && item.tags.length > 0)) && (
+				{/* Installation status and source badges and tags in the same row */}
+				{(isInstalled || item.catalog || (item.tags && item.tags.length > 0)) && (
 					<div className="relative flex flex-wrap gap-1 my-2">
 						{/* Installation status badge on the left */}
 						{isInstalled && (
@@ -164,6 +167,16 @@ export const MarketplaceItemCard: React.FC<MarketplaceItemCardProps> = ({ item,
 							</span>
 						)}
 
+						{/* Private catalog badge */}
+						{item.catalog && (
+							<StandardTooltip
+								content={t("marketplace:items.card.privateCatalogTooltip", { catalog: item.catalog })}>
+								<span className="text-xs px-2 py-0.5 rounded-sm h-5 flex items-center bg-vscode-badge-background text-vscode-badge-foreground shrink-0">
+									{t("marketplace:items.card.privateCatalog")}
+								</span>
+							</StandardTooltip>
+						)}
+
 						{/* Tags on the right */}
 						{item.tags &&
 							item.tags.length > 0 &&
@@ -210,7 +223,9 @@ export const MarketplaceItemCard: React.FC<MarketplaceItemCardProps> = ({ item,
 						<AlertDialogTitle>
 							{item.type === "mode"
 								? t("marketplace:removeConfirm.mode.title")
-								: t("marketplace:removeConfirm.mcp.title")}
+								: item.type === "mcp"
+									? t("marketplace:removeConfirm.mcp.title")
+									: t("marketplace:removeConfirm.item.title", { type: typeLabel })}
 						</AlertDialogTitle>
 						<AlertDialogDescription>
 							{item.type === "mode" ? (
@@ -220,8 +235,10 @@ export const MarketplaceItemCard: React.FC<MarketplaceItemCardProps> = ({ item,
 										{t("marketplace:removeConfirm.mode.rulesWarning")}
 									</div>
 								</>
-							) : (
+							) : item.type === "mcp" ? (
 								t("marketplace:removeConfirm.mcp.message", { mcpName: item.name })
+							) : (
+								t("marketplace:removeConfirm.item.message", { itemName: item.name })
 							)}
 						</AlertDialogDescription>
 					</AlertDialogHeader>
@@ -35,6 +35,7 @@ vi.mock("@/i18n/TranslationContext", () => ({
 				"marketplace:items.components": "Components", // This should be a string for the title prop
 				"marketplace:items.card.install": "Install",
 				"marketplace:items.card.installed": "Installed",
+				"marketplace:items.card.privateCatalog": "Private catalog",
 				"marketplace:items.card.installProject": "Install Project",
 				"marketplace:items.card.removeProject": "Remove Project",
 				"marketplace:items.card.remove": "Remove",
@@ -226,4 +227,16 @@ describe("MarketplaceItemCard", () => {
 		// Should show Remove button
 		expect(screen.getByText("Remove")).toBeInTheDocument()
 	})
+
+	it("marks items from private catalogs", () => {
+		const { rerender } = renderWithProviders(<MarketplaceItemCard {...defaultProps} />)
+		expect(screen.queryByText("Private catalog")).not.toBeInTheDocument()
+
+		rerender(
+			<TooltipProvider delayDuration={300}>
+				<MarketplaceItemCard {...defaultProps} item={{ ...defaultItem, catalog: "/opt/acme/marketplace" }} />
+			</TooltipProvider>,
+		)
+		expect(screen.getByText("Private catalog")).toBeInTheDocument()
+	})
 })
@@ -79,6 +79,7 @@ import {
 	Chutes,
 	DeepSeek,
 	Doubao,
+	Failover,
 	Gemini,
 	Groq,
 	HuggingFace,
@@ -760,6 +761,10 @@ const ApiOptions = ({
 				<Featherless apiConfiguration={apiConfiguration} setApiConfigurationField={setApiConfigurationField} />
 			)}
 
+			{selectedProvider === "failover" && (
+				<Failover apiConfiguration={apiConfiguration} setApiConfigurationField={setApiConfigurationField} />
+			)}
+
 			{/* Generic model picker for providers with static models */}
 			{shouldUseGenericModelPicker(selectedProvider) && (
 				<>
@@ -0,0 +1,209 @@
+import { type ReactNode, Children, HTMLAttributes, useCallback, useEffect, useState } from "react"
+
+import {
+	type BudgetStatus,
+	type ExtensionMessage,
+	type SpendSummary,
+	type SpendingBudgets,
+	DEFAULT_BUDGET_WARNING_THRESHOLD_PERCENT,
+} from "@roo-code/types"
+
+import { vscode } from "@/utils/vscode"
+import { cn } from "@/lib/utils"
+import { useAppTranslation } from "@/i18n/TranslationContext"
+import { Button } from "@/components/ui"
+
+import { FormattedTextField, unlimitedDecimalFormatter, unlimitedIntegerFormatter } from "../common/FormattedTextField"
+import { SetCachedStateField } from "./types"
+import { SectionHeader } from "./SectionHeader"
+import { Section } from "./Section"
+import { SearchableSetting } from "./SearchableSetting"
+
+const costLimits = ["maxTaskCost", "maxWorkspaceDailyCost", "maxProfileMonthlyCost"] as const
+
+const formatCost = (cost: number) => `$${cost.toFixed(2)}`
+
+interface BudgetSettingsProps extends HTMLAttributes<HTMLDivElement> {
+	spendingBudgets?: SpendingBudgets
+	setCachedStateField: SetCachedStateField<"spendingBudgets">
+}
+
+export const BudgetSettings = ({ spendingBudgets, setCachedStateField, ...props }: BudgetSettingsProps) => {
+	const { t } = useAppTranslation()
+
+	const setBudget = (key: keyof SpendingBudgets, value: number | undefined) =>
+		setCachedStateField("spendingBudgets", { ...spendingBudgets, [key]: value })
+
+	return (
+		<div {...props}>
+			<SectionHeader description={t("settings:budgets.description")}>
+				{t("settings:sections.budgets")}
+			</SectionHeader>
+
+			<Section>
+				{costLimits.map((key) => (
+					<SearchableSetting
+						key={key}
+						settingId={`budgets-${key}`}
+						section="budgets"
+						label={t(`settings:budgets.${key}.label`)}>
+						<label className="block font-medium mb-1">{t(`settings:budgets.${key}.label`)}</label>
+						<FormattedTextField
+							value={spendingBudgets?.[key]}
+							onValueChange={(value) => setBudget(key, value)}
+							formatter={unlimitedDecimalFormatter}
+							placeholder={t("settings:budgets.unlimited")}
+							style={{ maxWidth: "200px" }}
+							data-testid={`budget-${key}`}
+							leftNodes={[<span key="dollar">$</span>]}
+						/>
+						<div className="text-sm text-vscode-descriptionForeground mt-1">
+							{t(`settings:budgets.${key}.description`)}
+						</div>
+					</SearchableSetting>
+				))}
+
+				<SearchableSetting
+					settingId="budgets-warning-threshold"
+					section="budgets"
+					label={t("settings:budgets.warningThreshold.label")}>
+					<label className="block font-medium mb-1">{t("settings:budgets.warningThreshold.label")}</label>
+					<FormattedTextField
+						value={spendingBudgets?.warningThresholdPercent}
+						onValueChange={(value) =>
+							setBudget("warningThresholdPercent", value === undefined ? undefined : Math.min(value, 100))
+						}
+						formatter={unlimitedIntegerFormatter}
+						placeholder={String(DEFAULT_BUDGET_WARNING_THRESHOLD_PERCENT)}
+						style={{ maxWidth: "200px" }}
+						data-testid="budget-warning-threshold"
+						rightNodes={[<span key="percent">%</span>]}
+					/>
+					<div className="text-sm text-vscode-descriptionForeground mt-1">
+						{t("settings:budgets.warningThreshold.description")}
+					</div>
+				</SearchableSetting>
+			</Section>
+
+			<SpendBreakdown />
+		</div>
+	)
+}
+
+/**
+ * This month's spend as the extension computes it for the budgets.
+ */
+const SpendBreakdown = () => {
+	const { t } = useAppTranslation()
+	const [summary, setSummary] = useState<SpendSummary>()
+
+	const refresh = useCallback(() => vscode.postMessage({ type: "requestSpendSummary" }), [])
+
+	useEffect(() => {
+		const handleMessage = (event: MessageEvent<ExtensionMessage>) => {
+			if (event.data.type === "spendSummary" && event.data.spendSummary) {
+				setSummary(event.data.spendSummary)
+			}
+		}
+
+		window.addEventListener("message", handleMessage)
+		refresh()
+
+		return () => window.removeEventListener("message", handleMessage)
+	}, [refresh])
+
+	return (
+		<>
+			<SectionHeader>{t("settings:budgets.spend.title")}</SectionHeader>
+
+			<Section>
+				{!summary ? (
+					<div className="text-sm text-vscode-descriptionForeground">
+						{t("settings:budgets.spend.loading")}
+					</div>
+				) : (
+					<>
+						{summary.budgets.length > 0 && (
+							<SpendTable title={t("settings:budgets.spend.currentTask")}>
+								{summary.budgets.map((status) => (
+									<BudgetRow key={`${status.scope}:${status.subject}`} status={status} />
+								))}
+							</SpendTable>
+						)}
+
+						<SpendTable title={t("settings:budgets.spend.today")}>{costRows(summary.today)}</SpendTable>
+						<SpendTable title={t("settings:budgets.spend.thisMonth")}>
+							{costRows(summary.thisMonth)}
+						</SpendTable>
+
+						<SpendTable title={t("settings:budgets.spend.tasks")}>
+							{summary.tasks.map(({ id, task, cost }) => (
+								<SpendRow key={id} label={task} cost={cost} />
+							))}
+						</SpendTable>
+					</>
+				)}
+
+				<Button variant="secondary" className="self-start" onClick={refresh}>
+					{t("settings:budgets.spend.refresh")}
+				</Button>
+			</Section>
+		</>
+	)
+}
+
+const SpendTable = ({ title, children }: { title: string; children: ReactNode }) => {
+	const { t } = useAppTranslation()
+
+	return (
+		<div className="flex flex-col gap-1">
+			<div className="font-medium">{title}</div>
+			{Children.count(children) > 0 ? (
+				children
+			) : (
+				<div className="text-sm text-vscode-descriptionForeground">{t("settings:budgets.spend.none")}</div>
+			)}
+		</div>
+	)
+}
+
+const SpendRow = ({ label, cost }: { label: string; cost: number }) => (
+	<div className="flex justify-between gap-4 text-sm">
+		<span className="truncate" title={label}>
+			{label}
+		</span>
+		<span className="shrink-0">{formatCost(cost)}</span>
+	</div>
+)
+
+const costRows = (costs: Record<string, number>) =>
+	Object.entries(costs)
+		.sort(([, a], [, b]) => b - a)
+		.map(([label, cost]) => <SpendRow key={label} label={label} cost={cost} />)
+
+const BudgetRow = ({ status }: { status: BudgetStatus }) => {
+	const { t } = useAppTranslation()
+	const percentage = status.limit > 0 ? Math.min(100, (status.spent / status.limit) * 100) : 100
+
+	return (
+		<div className="flex flex-col gap-1 text-sm">
+			<div className="flex justify-between gap-4">
+				<span className="truncate" title={status.subject}>
+					{t(`settings:budgets.scopes.${status.scope}`, { subject: status.subject })}
+				</span>
+				<span className="shrink-0">
+					{formatCost(status.spent)} / {formatCost(status.limit)}
+				</span>
+			</div>
+			<div className="w-full bg-vscode-input-background rounded-sm h-2 overflow-hidden">
+				<div
+					className={cn(
+						"h-full",
+						status.spent >= status.limit ? "bg-vscode-errorForeground" : "bg-vscode-button-background",
+					)}
+					style={{ width: `${percentage}%` }}
+				/>
+			</div>
+		</div>
+	)
+}
@@ -0,0 +1,69 @@
+import { type ModelRouting, type ProviderSettingsEntry, modelRoutingPhases } from "@roo-code/types"
+
+import { useAppTranslation } from "@/i18n/TranslationContext"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui"
+
+import { SetCachedStateField } from "./types"
+import { SectionHeader } from "./SectionHeader"
+import { Section } from "./Section"
+import { SearchableSetting } from "./SearchableSetting"
+
+type ModelRoutingSettingsProps = {
+	modelRouting?: ModelRouting
+	listApiConfigMeta?: ProviderSettingsEntry[]
+	setCachedStateField: SetCachedStateField<"modelRouting">
+}
+
+export const ModelRoutingSettings = ({
+	modelRouting,
+	listApiConfigMeta,
+	setCachedStateField,
+}: ModelRoutingSettingsProps) => {
+	const { t } = useAppTranslation()
+
+	return (
+		<div>
+			<SectionHeader description={t("settings:modelRouting.description")}>
+				{t("settings:modelRouting.title")}
+			</SectionHeader>
+
+			<Section>
+				{modelRoutingPhases.map((phase) => (
+					<SearchableSetting
+						key={phase}
+						settingId={`model-routing-${phase}`}
+						section="providers"
+						label={t(`settings:modelRouting.${phase}.label`)}>
+						<label className="block font-medium mb-1">{t(`settings:modelRouting.${phase}.label`)}</label>
+						<Select
+							value={modelRouting?.[phase] || "-"}
+							onValueChange={(value) =>
+								setCachedStateField("modelRouting", {
+									...modelRouting,
+									[phase]: value === "-" ? undefined : value,
+								})
+							}>
+							<SelectTrigger className="w-full" data-testid={`model-routing-${phase}`}>
+								<SelectValue />
+							</SelectTrigger>
+							<SelectContent>
+								<SelectItem value="-">{t("settings:modelRouting.useTaskProfile")}</SelectItem>
+								{(listApiConfigMeta ?? []).map(({ id, name }) => (
+									<SelectItem key={id} value={id}>
+										{name}
+									</SelectItem>
+								))}
+							</SelectContent>
+						</Select>
+						<div className="text-sm text-vscode-descriptionForeground mt-1">
+							{t(`settings:modelRouting.${phase}.description`)}
+						</div>
+					</SearchableSetting>
+				))}
+				<div className="text-sm text-vscode-descriptionForeground">
+					{t("settings:modelRouting.enhanceNote")}
+				</div>
+			</Section>
+		</div>
+	)
+}
@@ -13,6 +13,7 @@ import {
 	CheckCheck,
 	SquareMousePointer,
 	GitBranch,
+	Wallet,
 	Bell,
 	Database,
 	SquareTerminal,
@@ -70,6 +71,8 @@ import { BrowserSettings } from "./BrowserSettings"
 import { CheckpointSettings } from "./CheckpointSettings"
 import { NotificationSettings } from "./NotificationSettings"
 import { ContextManagementSettings } from "./ContextManagementSettings"
+import { ModelRoutingSettings } from "./ModelRoutingSettings"
+import { BudgetSettings } from "./BudgetSettings"
 import { TerminalSettings } from "./TerminalSettings"
 import { ExperimentalSettings } from "./ExperimentalSettings"
 import { LanguageSettings } from "./LanguageSettings"
@@ -98,6 +101,7 @@ export interface SettingsViewRef {
 export const sectionNames = [
 	"providers",
 	"autoApprove",
+	"budgets",
 	"slashCommands",
 	"browser",
 	"checkpoints",
@@ -153,6 +157,7 @@ const SettingsView = forwardRef<SettingsViewRef, SettingsViewProps>(({ onDone, t
 		deniedCommands,
 		allowedMaxRequests,
 		allowedMaxCost,
+		spendingBudgets,
 		language,
 		alwaysAllowBrowser,
 		alwaysAllowExecute,
@@ -212,6 +217,7 @@ const SettingsView = forwardRef<SettingsViewRef, SettingsViewProps>(({ onDone, t
 		includeCurrentTime,
 		includeCurrentCost,
 		maxGitStatusFiles,
+		modelRouting,
 	} = cachedState
 
 	const apiConfiguration = useMemo(() => cachedState.apiConfiguration ?? {}, [cachedState.apiConfiguration])
@@ -377,6 +383,7 @@ const SettingsView = forwardRef<SettingsViewRef, SettingsViewProps>(({ onDone, t
 					// extension host. We may need to do the same for other nullable fields.
 					allowedMaxRequests: allowedMaxRequests ?? null,
 					allowedMaxCost: allowedMaxCost ?? null,
+					spendingBudgets,
 					autoCondenseContext,
 					autoCondenseContextPercent,
 					browserToolEnabled: browserToolEnabled ?? true,
@@ -422,6 +429,7 @@ const SettingsView = forwardRef<SettingsViewRef, SettingsViewProps>(({ onDone, t
 					includeCurrentCost: includeCurrentCost ?? true,
 					maxGitStatusFiles: maxGitStatusFiles ?? 0,
 					profileThresholds,
+					modelRouting,
 					imageGenerationProvider,
 					openRouterImageApiKey,
 					openRouterImageGenerationSelectedModel,
@@ -517,6 +525,7 @@ const SettingsView = forwardRef<SettingsViewRef, SettingsViewProps>(({ onDone, t
 			{ id: "modes", icon: Users2 },
 			{ id: "mcp", icon: Server },
 			{ id: "autoApprove", icon: CheckCheck },
+			{ id: "budgets", icon: Wallet },
 			{ id: "slashCommands", icon: SquareSlash },
 			{ id: "browser", icon: SquareMousePointer },
 			{ id: "checkpoints", icon: GitCommitVertical },
@@ -779,6 +788,12 @@ const SettingsView = forwardRef<SettingsViewRef, SettingsViewProps>(({ onDone, t
 										setErrorMessage={setErrorMessage}
 									/>
 								</Section>
+
+								<ModelRoutingSettings
+									modelRouting={modelRouting}
+									listApiConfigMeta={listApiConfigMeta}
+									setCachedStateField={setCachedStateField}
+								/>
 							</div>
 						)}
 
@@ -806,6 +821,14 @@ const SettingsView = forwardRef<SettingsViewRef, SettingsViewProps>(({ onDone, t
 							/>
 						)}
 
+						{/* Budgets Section */}
+						{renderTab === "budgets" && (
+							<BudgetSettings
+								spendingBudgets={spendingBudgets}
+								setCachedStateField={setCachedStateField}
+							/>
+						)}
+
 						{/* Slash Commands Section */}
 						{renderTab === "slashCommands" && <SlashCommandsSettings />}
 
@@ -108,6 +108,9 @@ vi.mock("../NotificationSettings", () => ({
 vi.mock("../ContextManagementSettings", () => ({
 	ContextManagementSettings: () => null,
 }))
+vi.mock("../ModelRoutingSettings", () => ({
+	ModelRoutingSettings: () => null,
+}))
 vi.mock("../TerminalSettings", () => ({
 	TerminalSettings: () => null,
 }))
@@ -105,6 +105,9 @@ vi.mock("../NotificationSettings", () => ({
 vi.mock("../ContextManagementSettings", () => ({
 	ContextManagementSettings: vi.fn(() => <div>ContextManagementSettings</div>),
 }))
+vi.mock("../ModelRoutingSettings", () => ({
+	ModelRoutingSettings: vi.fn(() => <div>ModelRoutingSettings</div>),
+}))
 vi.mock("../TerminalSettings", () => ({
 	TerminalSettings: vi.fn(() => <div>TerminalSettings</div>),
 }))
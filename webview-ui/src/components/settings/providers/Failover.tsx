@@ -0,0 +1,152 @@
+import { useCallback, useMemo } from "react"
+import { Checkbox } from "vscrui"
+import { VSCodeTextField } from "@vscode/webview-ui-toolkit/react"
+
+import {
+	type FailoverErrorClass,
+	type ProviderSettings,
+	DEFAULT_FAILOVER_COOLDOWN_SECONDS,
+	failoverErrorClasses,
+	isMetaProvider,
+} from "@roo-code/types"
+
+import { useAppTranslation } from "@src/i18n/TranslationContext"
+import { useExtensionState } from "@src/context/ExtensionStateContext"
+import {
+	Button,
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+	StandardTooltip,
+} from "@src/components/ui"
+
+type FailoverProps = {
+	apiConfiguration: ProviderSettings
+	setApiConfigurationField: (field: keyof ProviderSettings, value: ProviderSettings[keyof ProviderSettings]) => void
+}
+
+export const Failover = ({ apiConfiguration, setApiConfigurationField }: FailoverProps) => {
+	const { t } = useAppTranslation()
+	const { listApiConfigMeta, currentApiConfigName } = useExtensionState()
+
+	const profileIds = useMemo(() => apiConfiguration.failoverProfileIds ?? [], [apiConfiguration.failoverProfileIds])
+	const errorClasses = apiConfiguration.failoverErrorClasses ?? failoverErrorClasses
+
+	// A failover profile can't contain itself or another failover profile.
+	const candidates = useMemo(
+		() =>
+			(listApiConfigMeta ?? []).filter(
+				({ name, apiProvider }) =>
+					name !== currentApiConfigName && !(apiProvider && isMetaProvider(apiProvider)),
+			),
+		[listApiConfigMeta, currentApiConfigName],
+	)
+
+	const setProfileIds = useCallback(
+		(ids: string[]) => setApiConfigurationField("failoverProfileIds", ids),
+		[setApiConfigurationField],
+	)
+
+	const moveProfile = (index: number, offset: number) => {
+		const ids = [...profileIds]
+		;[ids[index], ids[index + offset]] = [ids[index + offset], ids[index]]
+		setProfileIds(ids)
+	}
+
+	const toggleErrorClass = (errorClass: FailoverErrorClass, checked: boolean) =>
+		setApiConfigurationField(
+			"failoverErrorClasses",
+			failoverErrorClasses.filter((c) => (c === errorClass ? checked : errorClasses.includes(c))),
+		)
+
+	return (
+		<>
+			<div>
+				<label className="block font-medium mb-1">{t("settings:providers.failover.profiles")}</label>
+				<div className="text-sm text-vscode-descriptionForeground mb-2">
+					{t("settings:providers.failover.profilesDescription")}
+				</div>
+				{profileIds.map((id, index) => {
+					const profile = listApiConfigMeta?.find((entry) => entry.id === id)
+
+					return (
+						<div key={id} className="flex items-center gap-1" data-testid={`failover-profile-${index}`}>
+							<span className="grow truncate">
+								{index + 1}. {profile?.name ?? t("settings:providers.failover.missingProfile")}
+							</span>
+							<StandardTooltip content={t("settings:providers.failover.moveUp")}>
+								<Button
+									variant="ghost"
+									size="icon"
+									disabled={index === 0}
+									onClick={() => moveProfile(index, -1)}>
+									<span className="codicon codicon-arrow-up" />
+								</Button>
+							</StandardTooltip>
+							<StandardTooltip content={t("settings:providers.failover.moveDown")}>
+								<Button
+									variant="ghost"
+									size="icon"
+									disabled={index === profileIds.length - 1}
+									onClick={() => moveProfile(index, 1)}>
+									<span className="codicon codicon-arrow-down" />
+								</Button>
+							</StandardTooltip>
+							<StandardTooltip content={t("settings:providers.failover.remove")}>
+								<Button
+									variant="ghost"
+									size="icon"
+									onClick={() => setProfileIds(profileIds.filter((_, i) => i !== index))}>
+									<span className="codicon codicon-close" />
+								</Button>
+							</StandardTooltip>
+						</div>
+					)
+				})}
+				<Select value="" onValueChange={(id) => setProfileIds([...profileIds, id])}>
+					<SelectTrigger className="w-full mt-1" data-testid="failover-add-profile">
+						<SelectValue placeholder={t("settings:providers.failover.addProfile")} />
+					</SelectTrigger>
+					<SelectContent>
+						{candidates
+							.filter(({ id }) => !profileIds.includes(id))
+							.map(({ id, name }) => (
+								<SelectItem key={id} value={id}>
+									{name}
+								</SelectItem>
+							))}
+					</SelectContent>
+				</Select>
+			</div>
+
+			<div>
+				<label className="block font-medium mb-1">{t("settings:providers.failover.errorClasses")}</label>
+				{failoverErrorClasses.map((errorClass) => (
+					<Checkbox
+						key={errorClass}
+						checked={errorClasses.includes(errorClass)}
+						onChange={(checked: boolean) => toggleErrorClass(errorClass, checked)}>
+						{t(`settings:providers.failover.errorClass.${errorClass}`)}
+					</Checkbox>
+				))}
+			</div>
+
+			<VSCodeTextField
+				value={String(apiConfiguration.failoverCooldownSeconds ?? DEFAULT_FAILOVER_COOLDOWN_SECONDS)}
+				onInput={(event) => {
+					const value = Number((event.target as HTMLInputElement).value)
+					if (Number.isFinite(value) && value >= 0) {
+						setApiConfigurationField("failoverCooldownSeconds", value)
+					}
+				}}
+				className="w-full">
+				<label className="block font-medium mb-1">{t("settings:providers.failover.cooldown")}</label>
+			</VSCodeTextField>
+			<div className="text-sm text-vscode-descriptionForeground -mt-2">
+				{t("settings:providers.failover.cooldownDescription")}
+			</div>
+		</>
+	)
+}
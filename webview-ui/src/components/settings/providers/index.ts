@@ -32,3 +32,4 @@ export { VercelAiGateway } from "./VercelAiGateway"
 export { DeepInfra } from "./DeepInfra"
 export { MiniMax } from "./MiniMax"
 export { Baseten } from "./Baseten"
+export { Failover } from "./Failover"
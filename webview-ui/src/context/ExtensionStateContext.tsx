@@ -258,12 +258,15 @@ export const ExtensionStateContextProvider: React.FC<{ children: React.ReactNode
 		profileThresholds: {},
 		codebaseIndexConfig: {
 			codebaseIndexEnabled: true,
+			codebaseIndexVectorStoreProvider: "qdrant",
 			codebaseIndexQdrantUrl: "http://localhost:6333",
 			codebaseIndexEmbedderProvider: "openai",
 			codebaseIndexEmbedderBaseUrl: "",
 			codebaseIndexEmbedderModelId: "",
 			codebaseIndexSearchMaxResults: undefined,
 			codebaseIndexSearchMinScore: undefined,
+			codebaseIndexSearchMode: "vector",
+			codebaseIndexSearchRerank: false,
 		},
 		codebaseIndexModels: { ollama: {}, openai: {} },
 		includeDiagnosticMessages: true,
@@ -238,7 +238,7 @@ describe("getContextMenuOptions", () => {
 
 	it("should return all option types for empty query", () => {
 		const result = getContextMenuOptions("", null, [])
-		expect(result).toHaveLength(6)
+		expect(result).toHaveLength(9)
 		expect(result.map((item) => item.type)).toEqual([
 			ContextMenuOptionType.Problems,
 			ContextMenuOptionType.Terminal,
@@ -246,6 +246,9 @@ describe("getContextMenuOptions", () => {
 			ContextMenuOptionType.Folder,
 			ContextMenuOptionType.File,
 			ContextMenuOptionType.Git,
+			ContextMenuOptionType.Symbol,
+			ContextMenuOptionType.Diff,
+			ContextMenuOptionType.Checkpoint,
 		])
 	})
 
@@ -546,6 +549,46 @@ describe("getContextMenuOptions", () => {
 		})
 	})
 
+	describe("prefixed mentions", () => {
+		const prefixedItems: ContextMenuQueryItem[] = [
+			...mockQueryItems,
+			{ type: ContextMenuOptionType.Symbol, value: "symbol:Task.abortTask", label: "abortTask" },
+			{ type: ContextMenuOptionType.Symbol, value: "symbol:parseMentions", label: "parseMentions" },
+			{ type: ContextMenuOptionType.Diff, value: "diff:main", label: "main" },
+			{ type: ContextMenuOptionType.Diff, value: "diff:feature/login", label: "feature/login" },
+			{ type: ContextMenuOptionType.Checkpoint, value: "checkpoint:abcdef1", label: "Before refactor" },
+		]
+
+		it("should suggest the mention types whose prefix matches the query", () => {
+			expect(getContextMenuOptions("sym", null, prefixedItems)[0].type).toBe(ContextMenuOptionType.Symbol)
+			expect(getContextMenuOptions("di", null, prefixedItems)[0].type).toBe(ContextMenuOptionType.Diff)
+			expect(getContextMenuOptions("check", null, prefixedItems)[0].type).toBe(ContextMenuOptionType.Checkpoint)
+		})
+
+		it("should list only the targets of the typed prefix", () => {
+			const result = getContextMenuOptions("diff:", null, prefixedItems)
+			expect(result.map((item) => item.value)).toEqual(["diff:main", "diff:feature/login"])
+		})
+
+		it("should filter the targets by the text after the prefix", () => {
+			const result = getContextMenuOptions("symbol:abort", null, prefixedItems)
+			expect(result[0].value).toBe("symbol:Task.abortTask")
+			expect(result.some((item) => item.value === "symbol:parseMentions")).toBe(false)
+		})
+
+		it("should offer a typed symbol or branch that wasn't found", () => {
+			const result = getContextMenuOptions("diff:release/1.2", null, prefixedItems)
+			expect(result).toEqual([
+				{ type: ContextMenuOptionType.Diff, value: "diff:release/1.2", label: "release/1.2" },
+			])
+		})
+
+		it("should return NoResults for an unknown checkpoint", () => {
+			const result = getContextMenuOptions("checkpoint:123", null, prefixedItems)
+			expect(result).toEqual([{ type: ContextMenuOptionType.NoResults }])
+		})
+	})
+
 	// Add more tests for filtering, fuzzy search interaction if needed
 })
 
@@ -108,6 +108,19 @@ export enum ContextMenuOptionType {
 	Mode = "mode", // Add mode type
 	Command = "command", // Add command type
 	SectionHeader = "sectionHeader", // Add section header type
+	Symbol = "symbol",
+	Diff = "diff",
+	Checkpoint = "checkpoint",
+}
+
+/**
+ * Prefixes of the mentions whose targets are picked after typing the prefix,
+ * e.g. `@symbol:Name`, `@diff:main` and `@checkpoint:<hash>`.
+ */
+export const mentionPrefixes: Partial<Record<ContextMenuOptionType, string>> = {
+	[ContextMenuOptionType.Symbol]: "symbol:",
+	[ContextMenuOptionType.Diff]: "diff:",
+	[ContextMenuOptionType.Checkpoint]: "checkpoint:",
 }
 
 export interface ContextMenuQueryItem {
@@ -214,6 +227,14 @@ export function getContextMenuOptions(
 		return results.length > 0 ? results : [{ type: ContextMenuOptionType.NoResults }]
 	}
 
+	// Typing a mention prefix lists the targets of that type
+	const prefixedType = (Object.keys(mentionPrefixes) as ContextMenuOptionType[]).find((type) =>
+		query.startsWith(mentionPrefixes[type]!),
+	)
+	if (prefixedType) {
+		return getPrefixedMentionOptions(prefixedType, query.slice(mentionPrefixes[prefixedType]!.length), queryItems)
+	}
+
 	const workingChanges: ContextMenuQueryItem = {
 		type: ContextMenuOptionType.Git,
 		value: "git-changes",
@@ -255,6 +276,9 @@ export function getContextMenuOptions(
 			{ type: ContextMenuOptionType.Folder },
 			{ type: ContextMenuOptionType.File },
 			{ type: ContextMenuOptionType.Git },
+			{ type: ContextMenuOptionType.Symbol },
+			{ type: ContextMenuOptionType.Diff },
+			{ type: ContextMenuOptionType.Checkpoint },
 		]
 	}
 
@@ -281,6 +305,11 @@ export function getContextMenuOptions(
 	if (query.startsWith("http")) {
 		suggestions.push({ type: ContextMenuOptionType.URL, value: query })
 	}
+	for (const [type, prefix] of Object.entries(mentionPrefixes)) {
+		if (prefix.startsWith(lowerQuery)) {
+			suggestions.push({ type: type as ContextMenuOptionType })
+		}
+	}
 
 	// Add exact SHA matches to suggestions
 	if (/^[a-f0-9]{7,40}$/i.test(lowerQuery)) {
@@ -364,6 +393,38 @@ export function getContextMenuOptions(
 	return deduped.length > 0 ? deduped : [{ type: ContextMenuOptionType.NoResults }]
 }
 
+/**
+ * Lists the targets of a prefixed mention type that match the text typed after
+ * the prefix. Symbols and branches that weren't found can still be mentioned
+ * by name, since they're resolved when the message is sent.
+ */
+function getPrefixedMentionOptions(
+	type: ContextMenuOptionType,
+	itemQuery: string,
+	queryItems: ContextMenuQueryItem[],
+): ContextMenuQueryItem[] {
+	const items = queryItems.filter((item) => item.type === type)
+	const matchingItems = itemQuery
+		? new Fzf(items, {
+				selector: (item) => [item.value, item.label, item.description].filter(Boolean).join(" "),
+			})
+				.find(itemQuery)
+				.map((result) => result.item)
+		: items
+
+	const value = `${mentionPrefixes[type]}${itemQuery}`
+	const isTypedValueValid = mentionRegex.test(`@${value}`)
+	if (
+		type !== ContextMenuOptionType.Checkpoint &&
+		isTypedValueValid &&
+		!matchingItems.some((item) => item.value === value)
+	) {
+		matchingItems.push({ type, value, label: itemQuery })
+	}
+
+	return matchingItems.length > 0 ? matchingItems : [{ type: ContextMenuOptionType.NoResults }]
+}
+
 export function shouldShowContextMenu(text: string, position: number): boolean {
 	const beforeCursor = text.slice(0, position)
 
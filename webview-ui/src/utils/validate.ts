@@ -10,6 +10,7 @@ import {
 	isDynamicProvider,
 	isFauxProvider,
 	isCustomProvider,
+	isMetaProvider,
 } from "@roo-code/types"
 
 export function validateApiConfiguration(
@@ -155,6 +156,11 @@ function validateModelsAndKeysProvided(apiConfiguration: ProviderSettings): stri
 				return i18next.t("settings:validation.apiKey")
 			}
 			break
+		case "failover":
+			if (!apiConfiguration.failoverProfileIds?.length) {
+				return i18next.t("settings:validation.failoverProfiles")
+			}
+			break
 	}
 
 	return undefined
@@ -211,6 +217,10 @@ function getModelIdForProvider(apiConfiguration: ProviderSettings, provider: Pro
 		return apiConfiguration.apiModelId
 	}
 
+	if (isMetaProvider(provider)) {
+		return undefined
+	}
+
 	return apiConfiguration[modelIdKeysByProvider[provider]]
 }
 